@@ -1,14 +1,51 @@
+import bcrypt from 'bcryptjs'
 import { authService } from '../services/authService'
 import { userModel } from '../models/userModel'
+import { authTokenModel } from '../models/authTokenModel'
+import { mailService } from '../services/mailService'
+import { generateAuthToken, hashAuthToken } from '../utils/authTokenHelper'
 
 // Mock the userModel
 jest.mock('../models/userModel', () => ({
   userModel: {
     findByEmail: jest.fn(),
-    create: jest.fn()
+    findById: jest.fn(),
+    create: jest.fn(),
+    emailExists: jest.fn(),
+    updatePassword: jest.fn(),
+    markEmailVerified: jest.fn(),
+    deleteSessions: jest.fn(),
+    updateEmail: jest.fn()
+  },
+  mapUserRowToUser: (row: any) => ({ id: row.id, email: row.email, displayName: row.display_name })
+}))
+
+jest.mock('../models/authTokenModel', () => ({
+  authTokenModel: {
+    create: jest.fn(),
+    consume: jest.fn()
+  }
+}))
+
+jest.mock('../services/mailService', () => ({
+  mailService: {
+    send: jest.fn()
   }
 }))
 
+const userRow = {
+  id: 'user-1',
+  email: 'cook@example.com',
+  display_name: 'Cook',
+  password_hash: '',
+  household_id: null,
+  google_id: null,
+  default_translation_language: null,
+  email_verified_at: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+}
+
 describe('AuthService', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -112,4 +149,98 @@ describe('AuthService', () => {
       expect(userModel.create).not.toHaveBeenCalled()
     })
   })
+
+  describe('requestPasswordReset', () => {
+    it('should do nothing for an email without an account', async () => {
+      ;(userModel.findByEmail as jest.Mock).mockResolvedValue(null)
+
+      await authService.requestPasswordReset('nobody@example.com')
+
+      expect(authTokenModel.create).not.toHaveBeenCalled()
+      expect(mailService.send).not.toHaveBeenCalled()
+    })
+
+    it('should store a hashed token and email the link', async () => {
+      ;(userModel.findByEmail as jest.Mock).mockResolvedValue(userRow)
+
+      await authService.requestPasswordReset(' Cook@Example.com ')
+      await new Promise(resolve => setImmediate(resolve))
+
+      expect(userModel.findByEmail).toHaveBeenCalledWith('cook@example.com')
+      const { tokenHash, type } = (authTokenModel.create as jest.Mock).mock.calls[0][0]
+      const message = (mailService.send as jest.Mock).mock.calls[0][0]
+      const token = message.text.match(/reset-password\?token=([\w-]+)/)[1]
+
+      expect(type).toBe('password_reset')
+      expect(message.to).toBe('cook@example.com')
+      expect(hashAuthToken(token)).toBe(tokenHash)
+    })
+
+    it('should answer without waiting for the email to be sent', async () => {
+      ;(userModel.findByEmail as jest.Mock).mockResolvedValue(userRow)
+      ;(mailService.send as jest.Mock).mockReturnValueOnce(new Promise(() => {}))
+
+      await expect(authService.requestPasswordReset('cook@example.com')).resolves.toBeUndefined()
+    })
+
+    it('should reject an invalid email', async () => {
+      await expect(authService.requestPasswordReset('not-an-email')).rejects.toMatchObject({ statusCode: 400 })
+    })
+  })
+
+  describe('resetPassword', () => {
+    it('should not use up the link when the new password is too short', async () => {
+      await expect(authService.resetPassword(generateAuthToken().token, 'short')).rejects.toThrow('at least 6 characters')
+      expect(authTokenModel.consume).not.toHaveBeenCalled()
+    })
+
+    it('should reject an unknown, used or expired link', async () => {
+      ;(authTokenModel.consume as jest.Mock).mockResolvedValue(null)
+
+      await expect(authService.resetPassword(generateAuthToken().token, 'new-password')).rejects.toMatchObject({ statusCode: 400 })
+      expect(userModel.updatePassword).not.toHaveBeenCalled()
+    })
+
+    it('should update the password, verify the email and sign out other sessions', async () => {
+      const { token, tokenHash } = generateAuthToken()
+      ;(authTokenModel.consume as jest.Mock).mockResolvedValue({ id: 't1', userId: 'user-1', type: 'password_reset' })
+      ;(userModel.findById as jest.Mock).mockResolvedValue(userRow)
+      ;(userModel.deleteSessions as jest.Mock).mockResolvedValue(undefined)
+
+      await authService.resetPassword(token, 'new-password', 'session-1')
+
+      expect(authTokenModel.consume).toHaveBeenCalledWith(tokenHash, 'password_reset')
+      expect(userModel.updatePassword).toHaveBeenCalledWith('user-1', 'new-password')
+      expect(userModel.markEmailVerified).toHaveBeenCalledWith('user-1')
+      expect(userModel.deleteSessions).toHaveBeenCalledWith('user-1', 'session-1')
+    })
+  })
+
+  describe('requestEmailChange', () => {
+    const user = { id: 'user-1', email: 'cook@example.com', displayName: 'Cook', createdAt: '', updatedAt: '' }
+
+    it('should require the current password for password accounts', async () => {
+      ;(userModel.findById as jest.Mock).mockResolvedValue({ ...userRow, password_hash: await bcrypt.hash('right-password', 4) })
+
+      await expect(authService.requestEmailChange(user, 'new@example.com', 'wrong-password')).rejects.toMatchObject({ statusCode: 401 })
+      expect(mailService.send).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an address another account uses', async () => {
+      ;(userModel.findById as jest.Mock).mockResolvedValue(userRow)
+      ;(userModel.emailExists as jest.Mock).mockResolvedValue(true)
+
+      await expect(authService.requestEmailChange(user, 'taken@example.com', undefined)).rejects.toMatchObject({ statusCode: 409 })
+    })
+
+    it('should send the confirmation link to the new address', async () => {
+      ;(userModel.findById as jest.Mock).mockResolvedValue(userRow)
+      ;(userModel.emailExists as jest.Mock).mockResolvedValue(false)
+
+      await authService.requestEmailChange(user, 'New@Example.com', undefined)
+
+      expect(authTokenModel.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'email_change', newEmail: 'new@example.com' }))
+      expect((mailService.send as jest.Mock).mock.calls[0][0].to).toBe('new@example.com')
+    })
+  })
 })
@@ -0,0 +1,45 @@
+import {
+  AUTH_TOKEN_TTL_MS,
+  buildTokenLink,
+  generateAuthToken,
+  getAuthTokenExpiry,
+  hashAuthToken,
+  isAuthTokenFormat,
+  isValidEmail
+} from '../utils/authTokenHelper'
+
+describe('authTokenHelper', () => {
+  it('should generate URL-safe tokens stored only as their hash', () => {
+    const first = generateAuthToken()
+    const second = generateAuthToken()
+
+    expect(isAuthTokenFormat(first.token)).toBe(true)
+    expect(first.token).not.toBe(second.token)
+    expect(first.tokenHash).toBe(hashAuthToken(first.token))
+    expect(first.tokenHash).not.toContain(first.token)
+  })
+
+  it('should reject values that are not tokens', () => {
+    expect(isAuthTokenFormat(undefined)).toBe(false)
+    expect(isAuthTokenFormat('short')).toBe(false)
+    expect(isAuthTokenFormat(`${generateAuthToken().token}'; --`)).toBe(false)
+  })
+
+  it('should expire tokens by type', () => {
+    const now = new Date('2024-01-01T00:00:00Z')
+
+    expect(getAuthTokenExpiry('password_reset', now).getTime() - now.getTime()).toBe(AUTH_TOKEN_TTL_MS.password_reset)
+    expect(AUTH_TOKEN_TTL_MS.password_reset).toBeLessThan(AUTH_TOKEN_TTL_MS.email_verification)
+  })
+
+  it('should build frontend links carrying the token', () => {
+    expect(buildTokenLink('/reset-password', 'abc_-1', 'https://recipes.example.com/')).toBe('https://recipes.example.com/reset-password?token=abc_-1')
+  })
+
+  it('should check email addresses', () => {
+    expect(isValidEmail('cook@example.com')).toBe(true)
+    expect(isValidEmail('cook@example')).toBe(false)
+    expect(isValidEmail('two words@example.com')).toBe(false)
+    expect(isValidEmail(42)).toBe(false)
+  })
+})
@@ -1,17 +1,25 @@
 import { authorizationService } from '../services/authorizationService'
-import { userModel } from '../models/userModel'
+import { householdModel } from '../models/householdModel'
 import { User } from '../types/user'
+import { HouseholdRole } from '../types/household'
 
-// Mock the userModel
-jest.mock('../models/userModel', () => ({
-  userModel: {
-    findById: jest.fn()
+jest.mock('../models/householdModel', () => ({
+  householdModel: {
+    getMemberRole: jest.fn()
   }
 }))
 
+// Roles by household and user, served by the mocked householdModel.getMemberRole
+function setMemberships(memberships: Record<string, Record<string, HouseholdRole>>) {
+  ;(householdModel.getMemberRole as jest.Mock).mockImplementation(
+    async (householdId: string, userId: string) => memberships[householdId]?.[userId] ?? null
+  )
+}
+
 describe('AuthorizationService', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    setMemberships({ household1: { user1: 'member' }, household2: { owner1: 'member' } })
   })
 
   describe('userHasHouseholdAccess', () => {
@@ -63,14 +71,7 @@ describe('AuthorizationService', () => {
         updatedAt: '2024-01-01'
       }
 
-      const owner = {
-        id: 'owner1',
-        email: 'owner@example.com',
-        displayName: 'Owner',
-        household_id: 'household1'
-      }
-
-      ;(userModel.findById as jest.Mock).mockResolvedValue(owner)
+      setMemberships({ household1: { user1: 'member', owner1: 'member' } })
 
       const result = await authorizationService.userHasHouseholdAccess(
         user,
@@ -79,10 +80,10 @@ describe('AuthorizationService', () => {
       )
 
       expect(result).toBe(true)
-      expect(userModel.findById).toHaveBeenCalledWith('owner1')
+      expect(householdModel.getMemberRole).toHaveBeenCalledWith('household1', 'owner1')
     })
 
-    it('should return false when owner is in different household', async () => {
+    it("should return false for a member's recipe assigned to another of their households", async () => {
       const user: User = {
         id: 'user1',
         email: 'test@example.com',
@@ -92,14 +93,26 @@ describe('AuthorizationService', () => {
         updatedAt: '2024-01-01'
       }
 
-      const owner = {
-        id: 'owner1',
-        email: 'owner@example.com',
-        displayName: 'Owner',
-        household_id: 'household2'
-      }
+      setMemberships({ household1: { user1: 'member', owner1: 'member' }, household2: { owner1: 'owner' } })
 
-      ;(userModel.findById as jest.Mock).mockResolvedValue(owner)
+      const result = await authorizationService.userHasHouseholdAccess(
+        user,
+        'owner1',
+        'household2'
+      )
+
+      expect(result).toBe(false)
+    })
+
+    it('should return false when owner is in different household', async () => {
+      const user: User = {
+        id: 'user1',
+        email: 'test@example.com',
+        displayName: 'Test User',
+        householdId: 'household1',
+        createdAt: '2024-01-01',
+        updatedAt: '2024-01-01'
+      }
 
       const result = await authorizationService.userHasHouseholdAccess(
         user,
@@ -150,7 +163,7 @@ describe('AuthorizationService', () => {
       expect(result).toBe(true)
     })
 
-    it('should return false when user does not own recipe and has no household access', async () => {
+    it('should return false for household viewers', async () => {
       const user: User = {
         id: 'user1',
         email: 'test@example.com',
@@ -160,14 +173,22 @@ describe('AuthorizationService', () => {
         updatedAt: '2024-01-01'
       }
 
-      const owner = {
-        id: 'owner1',
-        email: 'owner@example.com',
-        displayName: 'Owner',
-        household_id: 'household2'
-      }
+      setMemberships({ household1: { user1: 'viewer' } })
 
-      ;(userModel.findById as jest.Mock).mockResolvedValue(owner)
+      expect(await authorizationService.canEditRecipe(user, 'owner1', 'household1')).toBe(false)
+      expect(await authorizationService.canEditRecipe(user, 'user1', 'household1')).toBe(true)
+      expect(householdModel.getMemberRole).toHaveBeenCalledWith('household1', 'user1')
+    })
+
+    it('should return false when user does not own recipe and has no household access', async () => {
+      const user: User = {
+        id: 'user1',
+        email: 'test@example.com',
+        displayName: 'Test User',
+        householdId: 'household1',
+        createdAt: '2024-01-01',
+        updatedAt: '2024-01-01'
+      }
 
       const result = await authorizationService.canEditRecipe(
         user,
@@ -178,4 +199,84 @@ describe('AuthorizationService', () => {
       expect(result).toBe(false)
     })
   })
+
+  describe('canViewRecipe', () => {
+    const user: User = {
+      id: 'user1',
+      email: 'test@example.com',
+      displayName: 'Test User',
+      householdId: 'household1',
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01'
+    }
+
+    it('should let household viewers see the recipes they cannot edit', async () => {
+      const recipe = { userId: 'owner1', householdId: 'household1', isPublic: false }
+
+      setMemberships({ household1: { user1: 'viewer' } })
+
+      expect(await authorizationService.canViewRecipe(user, recipe)).toBe(true)
+      expect(await authorizationService.canEditRecipe(user, recipe.userId, recipe.householdId)).toBe(false)
+    })
+
+    it('should hide other households\' private recipes', async () => {
+      expect(await authorizationService.canViewRecipe(user, { userId: 'owner1', householdId: 'household2', isPublic: false })).toBe(false)
+      expect(await authorizationService.canViewRecipe(user, { userId: 'owner1', householdId: 'household2', isPublic: true })).toBe(true)
+    })
+  })
+
+  describe('collections', () => {
+    const user: User = {
+      id: 'user1',
+      email: 'test@example.com',
+      displayName: 'Test User',
+      householdId: 'household1',
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01'
+    }
+
+    it('should let the owner edit their private collection', async () => {
+      const collection = { userId: 'user1', householdId: 'household1', visibility: 'private' as const }
+
+      expect(await authorizationService.canEditCollection(user, collection)).toBe(true)
+    })
+
+    it('should keep private collections from the household', async () => {
+      const collection = { userId: 'owner1', householdId: 'household1', visibility: 'private' as const }
+
+      expect(await authorizationService.canEditCollection(user, collection)).toBe(false)
+      expect(await authorizationService.canViewCollection(user, collection)).toBe(false)
+    })
+
+    it('should let the household edit shared collections', async () => {
+      const collection = { userId: 'owner1', householdId: 'household1', visibility: 'shared' as const }
+
+      expect(await authorizationService.canEditCollection(user, collection)).toBe(true)
+      expect(await authorizationService.canViewCollection(user, collection)).toBe(true)
+    })
+
+    it('should let household viewers see but not edit shared collections', async () => {
+      const collection = { userId: 'owner1', householdId: 'household1', visibility: 'shared' as const }
+
+      setMemberships({ household1: { user1: 'viewer' } })
+
+      expect(await authorizationService.canViewCollection(user, collection)).toBe(true)
+      expect(await authorizationService.canEditCollection(user, collection)).toBe(false)
+    })
+
+    it('should let anyone view but not edit public collections', async () => {
+      const collection = { userId: 'owner1', householdId: 'household2', visibility: 'public' as const }
+
+      expect(await authorizationService.canViewCollection(user, collection)).toBe(true)
+      expect(await authorizationService.canEditCollection(user, collection)).toBe(false)
+    })
+
+    it('should only show public collections to signed-out visitors', async () => {
+      const shared = { userId: 'owner1', householdId: 'household1', visibility: 'shared' as const }
+      const published = { ...shared, visibility: 'public' as const }
+
+      expect(await authorizationService.canViewCollection(undefined, shared)).toBe(false)
+      expect(await authorizationService.canViewCollection(undefined, published)).toBe(true)
+    })
+  })
 })
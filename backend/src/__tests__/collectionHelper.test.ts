@@ -0,0 +1,40 @@
+import { isValidVisibility, mergeRecipeOrder, orderByIds } from '../utils/collectionHelper'
+
+describe('collectionHelper', () => {
+  describe('isValidVisibility', () => {
+    it('should accept the collection visibilities', () => {
+      expect(isValidVisibility('private')).toBe(true)
+      expect(isValidVisibility('shared')).toBe(true)
+      expect(isValidVisibility('public')).toBe(true)
+    })
+
+    it('should reject anything else', () => {
+      expect(isValidVisibility('household')).toBe(false)
+      expect(isValidVisibility(undefined)).toBe(false)
+    })
+  })
+
+  describe('mergeRecipeOrder', () => {
+    it('should follow the requested order', () => {
+      expect(mergeRecipeOrder(['a', 'b', 'c'], ['c', 'a', 'b'])).toEqual(['c', 'a', 'b'])
+    })
+
+    it('should keep recipes left out of the request after the listed ones', () => {
+      expect(mergeRecipeOrder(['a', 'b', 'c', 'd'], ['d', 'b'])).toEqual(['d', 'b', 'a', 'c'])
+    })
+
+    it('should reject unknown, repeated and non-string ids', () => {
+      expect(mergeRecipeOrder(['a', 'b'], ['a', 'x'])).toBeNull()
+      expect(mergeRecipeOrder(['a', 'b'], ['a', 'a'])).toBeNull()
+      expect(mergeRecipeOrder(['a', 'b'], ['a', 1])).toBeNull()
+      expect(mergeRecipeOrder(['a', 'b'], 'a,b')).toBeNull()
+    })
+  })
+
+  describe('orderByIds', () => {
+    it('should order items by id and skip ids without an item', () => {
+      const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+      expect(orderByIds(items, ['c', 'x', 'a']).map(item => item.id)).toEqual(['c', 'a'])
+    })
+  })
+})
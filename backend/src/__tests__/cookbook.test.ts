@@ -0,0 +1,149 @@
+import { inflateSync } from 'zlib'
+import sharp from 'sharp'
+import { cookbookService } from '../services/cookbookService'
+import { imageService } from '../services/imageService'
+import { Recipe } from '../types/recipe'
+import { PdfDocument, encodeWinAnsi, readJpegInfo, truncateText, wrapText, measureText } from '../utils/pdfDocument'
+
+function makeRecipe(overrides: Partial<Recipe>): Recipe {
+  return {
+    id: 'recipe',
+    name: 'Recipe',
+    description: 'A recipe',
+    prepTimeMinutes: 10,
+    servings: 2,
+    ingredients: ['1 egg'],
+    instructions: ['Cook it.'],
+    tags: [],
+    isPublic: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  } as Recipe
+}
+
+// Text drawn on each page, decoded from the compressed content streams
+function pageTexts(pdf: Buffer): string[][] {
+  const source = pdf.toString('latin1')
+  const pages: string[][] = []
+  const streamPattern = /<< \/Filter \/FlateDecode \/Length (\d+) >>\nstream\n/g
+  let match
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length
+    const content = inflateSync(pdf.subarray(start, start + Number(match[1]))).toString('latin1')
+    pages.push([...content.matchAll(/<([0-9a-f]*)> Tj/g)].map(text => Buffer.from(text[1], 'hex').toString('latin1')))
+  }
+  return pages
+}
+
+describe('cookbook', () => {
+  describe('PDF writer', () => {
+    it('should encode text for the standard fonts', () => {
+      expect(encodeWinAnsi('Crème brûlée – ½ cup').toString('latin1')).toBe('Crème brûlée \x96 ½ cup')
+      expect(encodeWinAnsi('Łódź 日本').toString('latin1')).toBe('?ódz ??')
+      expect(encodeWinAnsi('a\tb\nc').toString('latin1')).toBe('a b c')
+    })
+
+    it('should wrap and truncate text to a width', () => {
+      const lines = wrapText('the quick brown fox jumps over the lazy dog', 'regular', 10, 80)
+      expect(lines.length).toBeGreaterThan(1)
+      expect(lines.join(' ')).toBe('the quick brown fox jumps over the lazy dog')
+      lines.forEach(line => expect(measureText(line, 'regular', 10)).toBeLessThanOrEqual(80))
+
+      const broken = wrapText('Supercalifragilisticexpialidocious', 'bold', 12, 50)
+      expect(broken.join('')).toBe('Supercalifragilisticexpialidocious')
+      expect(broken.length).toBeGreaterThan(1)
+
+      const truncated = truncateText('A very long recipe name that will not fit', 'regular', 10, 60)
+      expect(truncated.endsWith('…')).toBe(true)
+      expect(measureText(truncated, 'regular', 10)).toBeLessThanOrEqual(60)
+    })
+
+    it('should read JPEG dimensions', async () => {
+      const jpeg = await sharp({ create: { width: 40, height: 30, channels: 3, background: '#ff8800' } }).jpeg().toBuffer()
+      expect(readJpegInfo(jpeg)).toEqual({ width: 40, height: 30, components: 3 })
+      expect(readJpegInfo(Buffer.from('not an image'))).toBeNull()
+    })
+
+    it('should write a document with a valid cross-reference table', () => {
+      const doc = new PdfDocument({ title: 'Test' })
+      doc.text(doc.addPage(), 'Hello', 50, 50)
+      doc.addPage()
+      const pdf = doc.toBuffer()
+      const source = pdf.toString('latin1')
+
+      expect(source.startsWith('%PDF-1.4')).toBe(true)
+      expect(source).toContain('/Count 2')
+
+      const startXref = Number(source.match(/startxref\n(\d+)/)![1])
+      expect(source.slice(startXref, startXref + 4)).toBe('xref')
+
+      const offsets = [...source.slice(startXref).matchAll(/(\d{10}) 00000 n /g)].map(entry => Number(entry[1]))
+      offsets.forEach((offset, index) => {
+        expect(source.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+      })
+      expect(pageTexts(pdf)).toEqual([['Hello'], []])
+    })
+  })
+
+  describe('layout', () => {
+    const soup = makeRecipe({ id: 'soup', name: 'Tomato Soup', tags: ['Soups', 'vegetarian'] })
+    const stew = makeRecipe({ id: 'stew', name: 'Beef Stew', tags: ['soups'] })
+    const toast = makeRecipe({ id: 'toast', name: 'Toast', tags: [] })
+
+    it('should group recipes by tag with untagged recipes last', () => {
+      const sections = cookbookService.groupByTag([soup, toast, stew])
+      expect(sections.map(section => [section.tag, section.recipes.map(recipe => recipe.id)])).toEqual([
+        ['Soups', ['stew', 'soup']],
+        ['vegetarian', ['soup']],
+        ['More Recipes', ['toast']]
+      ])
+    })
+
+    it('should continue the table of contents on further pages', () => {
+      const many = Array.from({ length: 80 }, (_, index) => makeRecipe({ id: `r${index}`, name: `Recipe ${index}`, tags: ['all'] }))
+      const pages = cookbookService.planContents(cookbookService.groupByTag(many))
+      expect(pages.length).toBeGreaterThan(1)
+      expect(pages.flat().filter(line => line.type === 'entry')).toHaveLength(80)
+      expect(pages[0][0]).toEqual({ type: 'heading', text: 'all' })
+    })
+
+    it('should typeset cover, contents and one recipe per page', async () => {
+      const jpeg = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#cc3300' } }).jpeg().toBuffer()
+      const readStoredImage = jest.spyOn(imageService, 'readStoredImage')
+        .mockImplementation(async url => url === '/uploads/soup-large.jpg' ? { filename: 'soup-large.jpg', data: jpeg } : null)
+
+      const withDetails = makeRecipe({
+        ...soup,
+        description: '*Why it works*\nRoasting the tomatoes first.',
+        ingredients: [{ category: 'Soup', items: ['6 tomatoes', '1 onion'] }, { category: 'To serve', items: ['Basil'] }],
+        instructions: ['*Roast*', 'Roast the tomatoes.', '*Blend*', 'Blend until smooth.'],
+        image: '/uploads/soup.jpg',
+        imageSizes: {
+          small: { url: '/uploads/soup-small.jpg', width: 400, height: 300 },
+          medium: { url: '/uploads/soup-medium.jpg', width: 800, height: 600 },
+          large: { url: '/uploads/soup-large.jpg', width: 1200, height: 900 }
+        }
+      })
+
+      try {
+        const pdf = await cookbookService.buildCookbook([withDetails, stew, toast], { title: 'Family Favorites' })
+        const pages = pageTexts(pdf)
+
+        expect(readStoredImage).toHaveBeenCalledWith('/uploads/soup-large.jpg')
+        expect(pdf.toString('latin1')).toContain('/Filter /DCTDecode')
+        expect(pages).toHaveLength(5)
+        expect(pages[0]).toContain('Family Favorites')
+        expect(pages[1]).toEqual(expect.arrayContaining(['Contents', 'Soups', 'Beef Stew', 'Tomato Soup', '3', '4', 'vegetarian', 'More Recipes', 'Toast', '5']))
+        expect(pages[3]).toEqual(expect.arrayContaining([
+          'Tomato Soup', 'Why it works', 'Roasting the tomatoes first.',
+          'Ingredients', 'Soup', '6 tomatoes', 'To serve', 'Basil',
+          'Instructions', 'Roast', '1.', 'Roast the tomatoes.', 'Blend', '2.', 'Blend until smooth.'
+        ]))
+        expect(pages[3]).not.toContain('*Roast*')
+      } finally {
+        readStoredImage.mockRestore()
+      }
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { DietaryService, allergenLabel } from '../services/dietaryService'
+
+describe('DietaryService', () => {
+  let service: DietaryService
+
+  beforeEach(() => {
+    service = new DietaryService()
+  })
+
+  it('should label plant-based recipes with every diet they fit', () => {
+    const labels = service.getLabels(['200g rice noodles', '1 block tofu', '2 tbsp tamari', '1 lime'])
+    expect(labels).toEqual(['vegan', 'vegetarian', 'pescatarian', 'gluten-free', 'dairy-free', 'contains-soy'])
+  })
+
+  it('should list allergens found in the ingredients', () => {
+    const labels = service.getLabels(['2 cups flour', '1 cup milk', '2 large eggs', '1/2 cup chopped walnuts'])
+    expect(labels).toEqual(['vegetarian', 'pescatarian', 'contains-gluten', 'contains-dairy', 'contains-nuts', 'contains-egg'])
+  })
+
+  it('should rule out diets for meat and seafood', () => {
+    expect(service.getLabels(['1 lb shrimp', '2 cloves garlic'])).toEqual([
+      'pescatarian', 'gluten-free', 'dairy-free', 'contains-shellfish'
+    ])
+    expect(service.getLabels(['4 slices bacon', '1 onion'])).toEqual(['gluten-free', 'dairy-free'])
+  })
+
+  it('should not label honey as vegan', () => {
+    const labels = service.getLabels([{ category: 'Dressing', items: ['2 tbsp olive oil', '1 tbsp honey'] }])
+    expect(labels).toContain('vegetarian')
+    expect(labels).not.toContain('vegan')
+  })
+
+  it('should not claim any diet when an ingredient is unknown', () => {
+    expect(service.getLabels(['50 g nduja', '1 onion'])).toEqual([])
+    expect(service.getLabels(['1 pie crust', '2 cups blueberries'])).toEqual([])
+  })
+
+  it('should not trust matches on part of a word', () => {
+    // "guanciale" only matches the "ale" in beer
+    const labels = service.getLabels(['100 g guanciale', '200 g spaghetti'])
+    expect(labels.filter(label => !label.startsWith('contains-'))).toEqual([])
+  })
+
+  it('should not label recipes without ingredients', () => {
+    expect(service.getLabels([])).toEqual([])
+  })
+
+  it('should build allergen labels', () => {
+    expect(allergenLabel('shellfish')).toBe('contains-shellfish')
+  })
+})
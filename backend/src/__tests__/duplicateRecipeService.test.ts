@@ -0,0 +1,87 @@
+import { DuplicateRecipeService } from '../services/duplicateRecipeService'
+import { Recipe } from '../types/recipe'
+import { canonicalizeSourceUrl, getNameTokens, getIngredientNames, setSimilarity } from '../utils/duplicateHelper'
+
+function makeRecipe(id: string, name: string, ingredients: Recipe['ingredients'], sourceUrl?: string): Recipe {
+  return {
+    id,
+    name,
+    description: '',
+    prepTimeMinutes: 10,
+    servings: 2,
+    ingredients,
+    instructions: [],
+    sourceUrl,
+    isPublic: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  } as Recipe
+}
+
+describe('duplicateHelper', () => {
+  describe('canonicalizeSourceUrl', () => {
+    it('should ignore tracking params, www, protocol, fragments and trailing slashes', () => {
+      expect(canonicalizeSourceUrl('https://www.Example.com/recipes/soup/?utm_source=newsletter&fbclid=abc#comments'))
+        .toBe('example.com/recipes/soup')
+      expect(canonicalizeSourceUrl('http://example.com/recipes/soup')).toBe('example.com/recipes/soup')
+    })
+
+    it('should keep meaningful params in a stable order', () => {
+      expect(canonicalizeSourceUrl('https://example.com/recipe.php?page=2&id=42&utm_medium=email'))
+        .toBe('example.com/recipe.php?id=42&page=2')
+    })
+
+    it('should return null for missing or invalid URLs', () => {
+      expect(canonicalizeSourceUrl(undefined)).toBeNull()
+      expect(canonicalizeSourceUrl('not a url')).toBeNull()
+      expect(canonicalizeSourceUrl('ftp://example.com/soup')).toBeNull()
+    })
+  })
+
+  it('should compare names without case, accents or filler words', () => {
+    expect(getNameTokens('The Best Crème Brûlée Recipe')).toEqual(new Set(['creme', 'brulee']))
+    expect(getNameTokens('The Best')).toEqual(new Set(['the', 'best']))
+  })
+
+  it('should reduce ingredients to their names', () => {
+    expect(getIngredientNames(['2 cups flour', '1 tsp salt, divided', 'Sauce:', '3 large eggs (beaten)']))
+      .toEqual(new Set(['flour', 'salt', 'eggs']))
+  })
+
+  it('should measure set overlap', () => {
+    expect(setSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3)
+    expect(setSimilarity(new Set(), new Set(['a']))).toBe(0)
+  })
+})
+
+describe('DuplicateRecipeService', () => {
+  const service = new DuplicateRecipeService()
+  const pancakes = ['1 cup flour', '1 cup milk', '1 egg', '1 tbsp sugar', '1 tsp baking powder']
+  const recipes = [
+    makeRecipe('imported', 'Weeknight Chili', ['1 lb beef', '1 can beans'], 'https://www.example.com/chili?utm_source=feed'),
+    makeRecipe('pancakes', 'Fluffy Pancakes', pancakes),
+    makeRecipe('crepes', 'Crepes', ['1 cup flour', '2 cups milk', '3 eggs', '1 tbsp butter'])
+  ]
+
+  it('should match the same page with a different tracking link', () => {
+    const duplicates = service.rankDuplicates(
+      { name: 'Chili', ingredients: [], sourceUrl: 'http://example.com/chili/' },
+      recipes
+    )
+    expect(duplicates).toEqual([expect.objectContaining({ id: 'imported', matchedBy: 'sourceUrl', similarity: 1 })])
+  })
+
+  it('should match a similar name with similar ingredients', () => {
+    const duplicates = service.rankDuplicates(
+      { name: 'Easy Fluffy Pancakes', ingredients: ['2 cups flour', '1 1/2 cups milk', '2 eggs', '1 tsp baking powder'] },
+      recipes
+    )
+    expect(duplicates.map(duplicate => duplicate.id)).toEqual(['pancakes'])
+    expect(duplicates[0].matchedBy).toBe('content')
+  })
+
+  it('should not match a recipe that only shares ingredients or only shares a name', () => {
+    expect(service.rankDuplicates({ name: 'Waffles', ingredients: pancakes }, recipes)).toEqual([])
+    expect(service.rankDuplicates({ name: 'Fluffy Pancakes', ingredients: ['2 bananas', '2 eggs'] }, recipes)).toEqual([])
+  })
+})
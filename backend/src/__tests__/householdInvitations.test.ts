@@ -0,0 +1,77 @@
+import {
+  DEFAULT_INVITATION_TTL_HOURS,
+  buildInvitationLink,
+  getInvitationStatus,
+  parseInvitationOptions
+} from '../utils/householdInvitations'
+
+describe('householdInvitations', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z')
+
+  describe('parseInvitationOptions', () => {
+    it('should default to a week-long, unlimited member invitation', () => {
+      const result = parseInvitationOptions({}, now)
+
+      expect(result).toEqual({
+        options: {
+          expiresAt: new Date(now.getTime() + DEFAULT_INVITATION_TTL_HOURS * 60 * 60 * 1000),
+          maxUses: null,
+          email: null,
+          role: 'member'
+        }
+      })
+    })
+
+    it('should accept a single-use invitation for an email address and role', () => {
+      const result = parseInvitationOptions({ expiresInHours: 24, maxUses: 1, email: ' Sam@Example.com ', role: 'viewer' }, now)
+
+      expect(result).toEqual({
+        options: {
+          expiresAt: new Date('2026-03-02T12:00:00.000Z'),
+          maxUses: 1,
+          email: 'sam@example.com',
+          role: 'viewer'
+        }
+      })
+    })
+
+    it('should reject expiry times outside the allowed range', () => {
+      expect(parseInvitationOptions({ expiresInHours: 0 }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ expiresInHours: 24 * 365 }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ expiresInHours: '24' }, now)).toHaveProperty('error')
+    })
+
+    it('should reject use limits that are not whole numbers from 1 to 100', () => {
+      expect(parseInvitationOptions({ maxUses: 0 }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ maxUses: 1.5 }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ maxUses: 101 }, now)).toHaveProperty('error')
+    })
+
+    it('should reject invalid emails and the owner role', () => {
+      expect(parseInvitationOptions({ email: 'not-an-email' }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ role: 'owner' }, now)).toHaveProperty('error')
+      expect(parseInvitationOptions({ role: 'guest' }, now)).toHaveProperty('error')
+    })
+  })
+
+  describe('getInvitationStatus', () => {
+    const invitation = { expiresAt: '2026-03-02T00:00:00.000Z', maxUses: 2, useCount: 1 }
+
+    it('should report an invitation that can still be used as active', () => {
+      expect(getInvitationStatus(invitation, now)).toBe('active')
+      expect(getInvitationStatus({ ...invitation, maxUses: null, useCount: 40 }, now)).toBe('active')
+    })
+
+    it('should report revoked, expired and used up invitations in that order', () => {
+      expect(getInvitationStatus({ ...invitation, useCount: 2 }, now)).toBe('used_up')
+      expect(getInvitationStatus({ ...invitation, useCount: 2 }, new Date('2026-03-03T00:00:00.000Z'))).toBe('expired')
+      expect(getInvitationStatus({ ...invitation, revokedAt: '2026-03-01T00:00:00.000Z' }, now)).toBe('revoked')
+    })
+  })
+
+  describe('buildInvitationLink', () => {
+    it('should link to the join page of the frontend', () => {
+      expect(buildInvitationLink('abc_DEF-123', 'https://recipereaper.app/')).toBe('https://recipereaper.app/join/abc_DEF-123')
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  canAssignRole,
+  canEditHouseholdContent,
+  canInviteWithRole,
+  canManageMembers,
+  canRemoveMember,
+  isHouseholdRole
+} from '../utils/householdRoles'
+
+describe('householdRoles', () => {
+  describe('isHouseholdRole', () => {
+    it('should accept the household roles', () => {
+      expect(isHouseholdRole('owner')).toBe(true)
+      expect(isHouseholdRole('admin')).toBe(true)
+      expect(isHouseholdRole('member')).toBe(true)
+      expect(isHouseholdRole('viewer')).toBe(true)
+    })
+
+    it('should reject anything else', () => {
+      expect(isHouseholdRole('guest')).toBe(false)
+      expect(isHouseholdRole(undefined)).toBe(false)
+    })
+  })
+
+  describe('canEditHouseholdContent', () => {
+    it('should let everyone but viewers edit', () => {
+      expect(canEditHouseholdContent('owner')).toBe(true)
+      expect(canEditHouseholdContent('admin')).toBe(true)
+      expect(canEditHouseholdContent('member')).toBe(true)
+      expect(canEditHouseholdContent('viewer')).toBe(false)
+    })
+
+    it('should not let non-members edit', () => {
+      expect(canEditHouseholdContent(null)).toBe(false)
+    })
+  })
+
+  describe('canManageMembers', () => {
+    it('should only let owners and admins manage members', () => {
+      expect(canManageMembers('owner')).toBe(true)
+      expect(canManageMembers('admin')).toBe(true)
+      expect(canManageMembers('member')).toBe(false)
+      expect(canManageMembers('viewer')).toBe(false)
+    })
+  })
+
+  describe('canRemoveMember', () => {
+    it('should let the owner remove anyone but the owner', () => {
+      expect(canRemoveMember('owner', 'admin')).toBe(true)
+      expect(canRemoveMember('owner', 'viewer')).toBe(true)
+      expect(canRemoveMember('owner', 'owner')).toBe(false)
+    })
+
+    it('should let admins remove only members and viewers', () => {
+      expect(canRemoveMember('admin', 'member')).toBe(true)
+      expect(canRemoveMember('admin', 'viewer')).toBe(true)
+      expect(canRemoveMember('admin', 'admin')).toBe(false)
+      expect(canRemoveMember('admin', 'owner')).toBe(false)
+    })
+
+    it('should not let members remove anyone', () => {
+      expect(canRemoveMember('member', 'viewer')).toBe(false)
+    })
+  })
+
+  describe('canAssignRole', () => {
+    it('should let the owner promote and demote admins', () => {
+      expect(canAssignRole('owner', 'member', 'admin')).toBe(true)
+      expect(canAssignRole('owner', 'admin', 'viewer')).toBe(true)
+    })
+
+    it('should keep ownership out of role changes', () => {
+      expect(canAssignRole('owner', 'admin', 'owner')).toBe(false)
+      expect(canAssignRole('admin', 'owner', 'member')).toBe(false)
+    })
+
+    it('should let admins switch only between member and viewer', () => {
+      expect(canAssignRole('admin', 'member', 'viewer')).toBe(true)
+      expect(canAssignRole('admin', 'viewer', 'member')).toBe(true)
+      expect(canAssignRole('admin', 'member', 'admin')).toBe(false)
+      expect(canAssignRole('admin', 'admin', 'member')).toBe(false)
+    })
+
+    it('should not let members change roles', () => {
+      expect(canAssignRole('member', 'viewer', 'member')).toBe(false)
+    })
+  })
+
+  describe('canInviteWithRole', () => {
+    it('should let the owner invite admins, members and viewers', () => {
+      expect(canInviteWithRole('owner', 'admin')).toBe(true)
+      expect(canInviteWithRole('owner', 'viewer')).toBe(true)
+      expect(canInviteWithRole('owner', 'owner')).toBe(false)
+    })
+
+    it('should let admins invite only members and viewers', () => {
+      expect(canInviteWithRole('admin', 'member')).toBe(true)
+      expect(canInviteWithRole('admin', 'admin')).toBe(false)
+    })
+
+    it('should not let members or non-members invite', () => {
+      expect(canInviteWithRole('member', 'member')).toBe(false)
+      expect(canInviteWithRole(null, 'viewer')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseHtml, getTextContent, findFirst, byTag } from '../utils/htmlParser'
+import {
+  extractRecipeFromHtml,
+  extractJsonLdRecipe,
+  extractMicrodataRecipe,
+  extractWprmRecipe,
+  extractTastyRecipe,
+  mergeScrapedRecipes
+} from '../utils/htmlRecipeExtractors'
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures/scraper', name), 'utf8')
+
+describe('htmlRecipeExtractors', () => {
+  describe('parseHtml', () => {
+    it('should close unclosed list items and decode entities', () => {
+      const document = parseHtml('<ol><li>One &amp; two<li>Three &frac12;</ol><p>After')
+      const list = findFirst(document, byTag('ol'))!
+
+      expect(getTextContent(list)).toBe('One & two\nThree ½')
+      expect(getTextContent(findFirst(document, byTag('p'))!)).toBe('After')
+    })
+
+    it('should keep script contents verbatim', () => {
+      const document = parseHtml('<script type="application/ld+json">{"a": "<b>&amp;</b>"}</script><p>x</p>')
+      const script = findFirst(document, byTag('script'))!
+
+      expect(script.children).toEqual(['{"a": "<b>&amp;</b>"}'])
+      expect(getTextContent(document)).toBe('x')
+    })
+  })
+
+  describe('JSON-LD', () => {
+    const url = 'https://weeknight.example.com/lemon-garlic-roast-chicken/?utm_source=x'
+
+    it('should read a Recipe from a Yoast @graph and skip broken blocks', () => {
+      const recipe = extractJsonLdRecipe(parseHtml(fixture('json-ld-graph.html')), url)
+
+      expect(recipe).toMatchObject({
+        name: 'Lemon Garlic Roast Chicken',
+        description: 'Crispy skin, juicy meat & a pan sauce made from the drippings.',
+        prepTimeMinutes: 15,
+        cookTimeMinutes: 75,
+        totalTimeMinutes: 90,
+        yields: '4',
+        category: 'Main Course',
+        cuisine: 'American',
+        language: 'en',
+        author: 'Dana Miller'
+      })
+      expect(recipe!.ingredients).toHaveLength(5)
+      expect(recipe!.instructions).toEqual([
+        '*Prepare*',
+        'Heat the oven to 425°F.',
+        'Pat the chicken dry and rub it with olive oil and salt.',
+        '*Roast*',
+        'Stuff the cavity with the lemons and garlic.',
+        'Roast for 1 hour 15 minutes, until the thigh reaches 165°F.'
+      ])
+    })
+
+    it('should fill gaps from page metadata', () => {
+      const recipe = extractRecipeFromHtml(fixture('json-ld-graph.html'), url)
+
+      expect(recipe).toMatchObject({
+        extractor: 'json-ld',
+        image: 'https://weeknight.example.com/wp-content/uploads/roast-chicken-og.jpg',
+        site_name: 'Weeknight Kitchen',
+        canonical_url: 'https://weeknight.example.com/lemon-garlic-roast-chicken/',
+        host: 'weeknight.example.com',
+        sourceUrl: url
+      })
+    })
+  })
+
+  describe('microdata', () => {
+    it('should read itemprop values without mixing in nested items', () => {
+      const recipe = extractMicrodataRecipe(parseHtml(fixture('microdata.html')), 'https://rezepte.example.de/apfelkuchen')
+
+      expect(recipe).toMatchObject({
+        name: 'Apfelkuchen vom Blech',
+        author: 'Oma Hilde',
+        image: 'https://rezepte.example.de/bilder/apfelkuchen.jpg',
+        description: 'Saftiger Blechkuchen mit Streuseln.',
+        prepTimeMinutes: 30,
+        cookTimeMinutes: 45,
+        yields: '1 Blech',
+        ingredients: ['500 g Mehl', '250 g Butter', '1 kg Äpfel', '200 g Zucker'],
+        instructions: [
+          'Teig aus Mehl, Butter und Zucker kneten.',
+          'Äpfel schälen und in Spalten schneiden.',
+          'Bei 180 °C 45 Minuten backen.'
+        ]
+      })
+    })
+
+    it('should take the language from the page', () => {
+      expect(extractRecipeFromHtml(fixture('microdata.html'), 'https://rezepte.example.de/apfelkuchen')).toMatchObject({
+        extractor: 'microdata',
+        language: 'de',
+        site_name: 'Omas Rezepte'
+      })
+    })
+  })
+
+  describe('WP Recipe Maker', () => {
+    it('should read grouped ingredients, instructions and split times', () => {
+      const recipe = extractWprmRecipe(parseHtml(fixture('wprm.html')), 'https://sally.example.com/cookies/')
+
+      expect(recipe).toMatchObject({
+        name: 'Chewy Chocolate Chip Cookies',
+        description: 'Soft in the middle, crisp at the edges.',
+        image: 'https://sally.example.com/wp-content/uploads/cookies-150x150.jpg',
+        prepTimeMinutes: 20,
+        cookTimeMinutes: 12,
+        totalTimeMinutes: 152,
+        yields: '24 cookies',
+        category: 'Dessert',
+        ingredients: [
+          '*Dough*',
+          '2¼ cups all-purpose flour',
+          '1 cup butter softened',
+          '*Mix-ins*',
+          '2 cups chocolate chips'
+        ],
+        instructions: [
+          'Cream the butter and sugars.',
+          'Mix in the flour, then the chocolate chips.',
+          'Chill for 2 hours, then bake at 350°F for 12 minutes.'
+        ]
+      })
+    })
+  })
+
+  describe('Tasty Recipes', () => {
+    it('should read labelled meta, section titles and the yield without scale buttons', () => {
+      const recipe = extractTastyRecipe(parseHtml(fixture('tasty-recipes.html')), 'https://pinch.example.com/curry/')
+
+      expect(recipe).toMatchObject({
+        name: 'Easy Vegetable Curry',
+        description: 'A weeknight curry with whatever vegetables you have.',
+        image: 'https://pinch.example.com/uploads/curry-225x225.jpg',
+        author: 'Priya',
+        prepTimeMinutes: 10,
+        cookTimeMinutes: 25,
+        totalTimeMinutes: 35,
+        yields: '4 servings',
+        category: 'Dinner',
+        cuisine: 'Indian',
+        ingredients: [
+          '*Curry base*',
+          '1 onion, diced',
+          '2 tbsp curry paste',
+          '400 ml coconut milk',
+          '*Vegetables*',
+          '2 sweet potatoes, cubed',
+          '1 cup frozen peas'
+        ]
+      })
+      expect(recipe!.instructions).toHaveLength(3)
+    })
+  })
+
+  it('should return null for pages without a recipe', () => {
+    expect(extractRecipeFromHtml(fixture('no-recipe.html'), 'https://weeknight.example.com/about/')).toBeNull()
+  })
+
+  it('should only fill blank fields when merging', () => {
+    expect(mergeScrapedRecipes(
+      { name: 'Soup', ingredients: [], image: '' },
+      { name: 'Other', ingredients: ['1 onion'], image: 'https://example.com/soup.jpg' }
+    )).toEqual({ name: 'Soup', ingredients: ['1 onion'], image: 'https://example.com/soup.jpg' })
+  })
+})
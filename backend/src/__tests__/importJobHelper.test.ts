@@ -0,0 +1,29 @@
+import { createError } from '../middleware/errorHandler'
+import { getRetryDelayMs, isRetryableImportError, MAX_IMPORT_JOB_RETRY_DELAY_MS } from '../utils/importJobHelper'
+
+describe('importJobHelper', () => {
+  describe('getRetryDelayMs', () => {
+    it('should back off exponentially after each failed attempt', () => {
+      expect(getRetryDelayMs(1, 1000)).toBe(1000)
+      expect(getRetryDelayMs(2, 1000)).toBe(4000)
+      expect(getRetryDelayMs(3, 1000)).toBe(16000)
+    })
+
+    it('should cap the delay', () => {
+      expect(getRetryDelayMs(20)).toBe(MAX_IMPORT_JOB_RETRY_DELAY_MS)
+    })
+  })
+
+  describe('isRetryableImportError', () => {
+    it('should retry crashes, timeouts and server errors', () => {
+      expect(isRetryableImportError(new Error('Python scraper exited with code 1'))).toBe(true)
+      expect(isRetryableImportError(createError('Unable to reach the website.', 500))).toBe(true)
+      expect(isRetryableImportError(createError('Gemini service temporarily unavailable.', 429))).toBe(true)
+    })
+
+    it('should not retry errors caused by the input', () => {
+      expect(isRetryableImportError(createError('Invalid URL format', 400))).toBe(false)
+      expect(isRetryableImportError(createError('Recipe not found at the provided URL', 404))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import net from 'net'
+import os from 'os'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+  createMailTransport
+} from '../services/mailService'
+import { buildMimeMessage, dotStuff, encodeHeaderValue } from '../utils/mailMessage'
+
+const message = {
+  from: 'Recipe Reaper <no-reply@example.com>',
+  to: 'cook@example.com',
+  subject: 'Reset your password',
+  text: 'Hello\n.hidden line',
+  html: '<p>Hello</p>'
+}
+
+// Minimal SMTP server that accepts one message and records the conversation
+function startFakeSmtpServer(): Promise<{ port: number; commands: string[]; data: Promise<string>; close: () => void }> {
+  const commands: string[] = []
+  let resolveData: (data: string) => void
+  const data = new Promise<string>(resolve => { resolveData = resolve })
+
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    let body = ''
+    socket.write('220 fake.example.com ESMTP\r\n')
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      let newline: number
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            resolveData(body)
+            socket.write('250 Queued\r\n')
+          } else {
+            body += `${line}\r\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        if (line.startsWith('EHLO')) {
+          socket.write('250-fake.example.com\r\n250 SIZE 1000000\r\n')
+        } else if (line === 'DATA') {
+          inData = true
+          socket.write('354 Go ahead\r\n')
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo
+      resolve({ port, commands, data, close: () => server.close() })
+    })
+  })
+}
+
+describe('mailMessage', () => {
+  it('should encode non-ASCII subjects', () => {
+    expect(encodeHeaderValue('Reset')).toBe('Reset')
+    expect(encodeHeaderValue('Crème brûlée')).toBe(`=?UTF-8?B?${Buffer.from('Crème brûlée').toString('base64')}?=`)
+  })
+
+  it('should build a multipart message with text and HTML parts', () => {
+    const mime = buildMimeMessage(message, new Date('2024-05-01T12:00:00Z'))
+
+    expect(mime).toContain('To: cook@example.com\r\n')
+    expect(mime).toContain('Date: Wed, 01 May 2024 12:00:00 +0000\r\n')
+    expect(mime).toMatch(/Message-ID: <[\w-]+@example\.com>/)
+    expect(mime).toContain('Content-Type: multipart/alternative;')
+    expect(mime).toContain(Buffer.from(message.text).toString('base64'))
+    expect(mime).toContain(Buffer.from(message.html).toString('base64'))
+  })
+
+  it('should escape lines that start with a dot', () => {
+    expect(dotStuff('a\r\n.b\r\n..c')).toBe('a\r\n..b\r\n...c')
+  })
+})
+
+describe('mail transports', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should deliver a message over SMTP', async () => {
+    const server = await startFakeSmtpServer()
+
+    try {
+      await new SmtpMailTransport({ host: '127.0.0.1', port: server.port, secure: false }).send(message)
+      const data = await server.data
+
+      expect(server.commands).toEqual([
+        'EHLO localhost',
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<cook@example.com>',
+        'DATA',
+        'QUIT'
+      ])
+      expect(data).toContain('Subject: Reset your password')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('should refuse to send SMTP credentials without TLS', async () => {
+    const server = await startFakeSmtpServer()
+
+    try {
+      await expect(
+        new SmtpMailTransport({ host: '127.0.0.1', port: server.port, secure: false, user: 'u', password: 'p' }).send(message)
+      ).rejects.toThrow('STARTTLS')
+      expect(server.commands).not.toContain('MAIL FROM:<no-reply@example.com>')
+    } finally {
+      server.close()
+    }
+  })
+
+  it('should save messages as .eml files', async () => {
+    const directory = await fs.mkdtemp(join(os.tmpdir(), 'mail-'))
+
+    try {
+      await new FileMailTransport(directory).send(message)
+      const files = await fs.readdir(directory)
+
+      expect(files).toHaveLength(1)
+      expect(files[0]).toMatch(/reset-your-password\.eml$/)
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('should pick the transport from the environment', () => {
+    expect(createMailTransport({})).toBeInstanceOf(ConsoleMailTransport)
+    expect(createMailTransport({ SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpMailTransport)
+    expect(createMailTransport({ MAIL_TRANSPORT: 'file' })).toBeInstanceOf(FileMailTransport)
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST')
+  })
+})
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express'
+import { mealPlanController } from '../controllers/mealPlanController'
+import { householdModel } from '../models/householdModel'
+import { mealPlanModel } from '../models/mealPlanModel'
+import { recipeModel } from '../models/recipeModel'
+import { User } from '../types/user'
+
+jest.mock('../models/householdModel', () => ({
+  householdModel: { getMemberRole: jest.fn() }
+}))
+
+jest.mock('../models/recipeModel', () => ({
+  recipeModel: { findById: jest.fn() }
+}))
+
+jest.mock('../models/mealPlanModel', () => ({
+  mealPlanModel: { create: jest.fn(), findById: jest.fn() }
+}))
+
+const viewer: User = {
+  id: 'viewer1',
+  email: 'viewer@example.com',
+  displayName: 'Viewer',
+  householdId: 'household1',
+  createdAt: '2024-01-01',
+  updatedAt: '2024-01-01'
+}
+
+function mockResponse() {
+  const res = { status: jest.fn(), json: jest.fn() }
+  res.status.mockReturnValue(res)
+  return res
+}
+
+describe('mealPlanController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(householdModel.getMemberRole as jest.Mock).mockImplementation(async (_householdId: string, userId: string) =>
+      userId === 'viewer1' ? 'viewer' : 'member'
+    )
+  })
+
+  it('should let household viewers plan a household recipe they cannot edit', async () => {
+    ;(recipeModel.findById as jest.Mock).mockResolvedValue({
+      id: 'recipe1', userId: 'owner1', householdId: 'household1', isPublic: false, canEdit: false
+    })
+    ;(mealPlanModel.create as jest.Mock).mockResolvedValue('plan1')
+    ;(mealPlanModel.findById as jest.Mock).mockResolvedValue({ id: 'plan1', recipeId: 'recipe1' })
+
+    const req = { user: viewer, body: { date: '2024-03-11', mealSlot: 'dinner', recipeId: 'recipe1' } } as unknown as Request
+    const res = mockResponse()
+    const next = jest.fn()
+
+    await mealPlanController.createMealPlan(req, res as unknown as Response, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(res.status).toHaveBeenCalledWith(201)
+    expect(mealPlanModel.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 'viewer1', recipeId: 'recipe1' }))
+  })
+
+  it('should not plan another household\'s private recipe', async () => {
+    ;(recipeModel.findById as jest.Mock).mockResolvedValue({
+      id: 'recipe2', userId: 'stranger', householdId: 'household2', isPublic: false, canEdit: false
+    })
+
+    const req = { user: viewer, body: { date: '2024-03-11', mealSlot: 'dinner', recipeId: 'recipe2' } } as unknown as Request
+    const next = jest.fn()
+
+    await mealPlanController.createMealPlan(req, mockResponse() as unknown as Response, next)
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }))
+    expect(mealPlanModel.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,76 @@
+import {
+  isValidPlanDate,
+  addDays,
+  getWeekRange,
+  countDays,
+  collectPlannedIngredients
+} from '../utils/mealPlanHelper'
+import { Recipe } from '../types/recipe'
+import { MealPlanEntry } from '../types/mealPlan'
+
+function makeEntry(recipeId: string, servings?: number): MealPlanEntry {
+  return {
+    id: `entry-${recipeId}`,
+    userId: 'user-1',
+    date: '2024-03-04',
+    mealSlot: 'dinner',
+    recipeId,
+    servings,
+    createdAt: '2024-03-01T00:00:00.000Z',
+    updatedAt: '2024-03-01T00:00:00.000Z'
+  }
+}
+
+describe('mealPlanHelper', () => {
+  describe('isValidPlanDate', () => {
+    it('should accept real calendar dates', () => {
+      expect(isValidPlanDate('2024-02-29')).toBe(true)
+    })
+
+    it('should reject malformed or impossible dates', () => {
+      expect(isValidPlanDate('2023-02-29')).toBe(false)
+      expect(isValidPlanDate('2024-3-4')).toBe(false)
+      expect(isValidPlanDate(20240304)).toBe(false)
+    })
+  })
+
+  describe('date ranges', () => {
+    it('should add days across month boundaries', () => {
+      expect(addDays('2024-02-28', 2)).toBe('2024-03-01')
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+    })
+
+    it('should return the Monday-to-Sunday week', () => {
+      expect(getWeekRange('2024-03-06')).toEqual({ start: '2024-03-04', end: '2024-03-10' })
+      expect(getWeekRange('2024-03-10')).toEqual({ start: '2024-03-04', end: '2024-03-10' })
+      expect(getWeekRange('2024-03-04')).toEqual({ start: '2024-03-04', end: '2024-03-10' })
+    })
+
+    it('should count days inclusively', () => {
+      expect(countDays('2024-03-04', '2024-03-10')).toBe(7)
+      expect(countDays('2024-03-10', '2024-03-04')).toBe(0)
+    })
+  })
+
+  describe('collectPlannedIngredients', () => {
+    const recipes = new Map<string, Recipe>([
+      ['r1', { id: 'r1', name: 'Curry', servings: 2, ingredients: ['2 onions', 'salt'] } as Recipe],
+      ['r2', { id: 'r2', name: 'Salad', servings: 4, ingredients: [{ category: 'Dressing', items: ['4 tbsp olive oil'] }] } as Recipe]
+    ])
+
+    it('should scale ingredients to the planned servings', () => {
+      const result = collectPlannedIngredients([makeEntry('r1', 4), makeEntry('r2', 2)], recipes)
+
+      expect(result).toEqual([
+        { ingredient: '4 onions', recipeId: 'r1', recipeName: 'Curry' },
+        { ingredient: 'salt', recipeId: 'r1', recipeName: 'Curry' },
+        { ingredient: '2 tbsp olive oil', recipeId: 'r2', recipeName: 'Salad' }
+      ])
+    })
+
+    it('should keep recipe quantities without an override and skip unknown recipes', () => {
+      const result = collectPlannedIngredients([makeEntry('r1'), makeEntry('missing')], recipes)
+      expect(result.map(item => item.ingredient)).toEqual(['2 onions', 'salt'])
+    })
+  })
+})
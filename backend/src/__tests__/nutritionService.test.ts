@@ -0,0 +1,94 @@
+import { NutritionService } from '../services/nutritionService'
+import { ingredientParser } from '../utils/ingredientParser'
+import { ingredientCategorizer } from '@ingredient-categorizer/core'
+
+describe('NutritionService', () => {
+  let service: NutritionService
+
+  beforeEach(() => {
+    service = new NutritionService()
+  })
+
+  const gramsFor = (line: string): number | null => {
+    const parsed = ingredientParser.parseIngredient(line)[0]
+    const food = service.getFood(ingredientCategorizer.categorizeIngredient(parsed.description).displayName)
+    return food ? service.estimateGrams(parsed, food) : null
+  }
+
+  describe('dataset', () => {
+    it('should have entries for the displayNames the categorizer produces', () => {
+      const descriptions = ['yellow onion', 'chicken breast', 'extra virgin olive oil', 'kosher salt', 'heavy cream', 'canned tomatoes', 'basmati rice', 'fresh basil']
+      const missing = descriptions
+        .map(description => ingredientCategorizer.categorizeIngredient(description).displayName)
+        .filter(displayName => !service.getFood(displayName))
+      expect(missing).toEqual([])
+    })
+  })
+
+  describe('estimateGrams', () => {
+    it('should convert mass units directly', () => {
+      expect(gramsFor('200g spaghetti')).toBe(200)
+      expect(gramsFor('1 lb ground beef')).toBeCloseTo(453.6, 1)
+    })
+
+    it('should convert volumes with the food density', () => {
+      expect(gramsFor('1 cup milk')).toBeCloseTo(243.7, 1)
+      expect(gramsFor('2 cups flour')).toBeCloseTo(250.8, 1)
+    })
+
+    it('should use count units from the unit or the description', () => {
+      expect(gramsFor('2 cloves garlic, minced')).toBe(6)
+      expect(gramsFor('1 stick butter')).toBe(113)
+      expect(gramsFor('3 slices bacon')).toBe(75)
+      expect(gramsFor('4 stalks celery')).toBe(160)
+      expect(gramsFor('juice of 1 lemon')).toBe(48)
+    })
+
+    it('should use package sizes written in parentheses', () => {
+      expect(gramsFor('1 can (400g) chopped tomatoes')).toBe(400)
+      expect(gramsFor('1 (15 oz) can black beans')).toBeCloseTo(425.2, 1)
+    })
+
+    it('should fall back to the weight of one item', () => {
+      expect(gramsFor('2 large eggs')).toBe(100)
+      expect(gramsFor('1 onion, diced')).toBe(110)
+    })
+
+    it('should average ranges and skip unquantified lines', () => {
+      expect(gramsFor('1-2 tbsp olive oil')).toBeCloseTo(20.2, 1)
+      expect(gramsFor('salt to taste')).toBeNull()
+    })
+  })
+
+  describe('calculate', () => {
+    it('should total nutrients and divide them per serving', () => {
+      const facts = service.calculate(['100g butter', '2 large eggs'], 2)
+
+      expect(facts.servings).toBe(2)
+      expect(facts.total.calories).toBe(860) // 717 for the butter + 143 for 100 g of egg
+      expect(facts.perServing.calories).toBe(430)
+      expect(facts.total.protein).toBe(13.5)
+      expect(facts.matchedIngredients).toEqual([
+        { text: '100g butter', displayName: 'Butter', grams: 100 },
+        { text: '2 large eggs', displayName: 'Eggs', grams: 100 }
+      ])
+    })
+
+    it('should report lines it cannot estimate and skip section headers', () => {
+      const facts = service.calculate([
+        { category: 'Dough', items: ['500g flour', 'salt to taste'] },
+        { category: 'Filling', items: ['1 tbsp xanthan gum'] }
+      ], 4)
+
+      expect(facts.matchedIngredients.map(match => match.displayName)).toEqual(['Flour'])
+      expect(facts.unmatchedIngredients).toEqual(['salt to taste', '1 tbsp xanthan gum'])
+      expect(facts.perServing.carbohydrates).toBe(95.4)
+    })
+
+    it('should treat missing servings as one', () => {
+      const facts = service.calculate(['100g sugar'], 0)
+      expect(facts.servings).toBe(1)
+      expect(facts.perServing.calories).toBe(387)
+    })
+  })
+})
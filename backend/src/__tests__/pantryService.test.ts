@@ -0,0 +1,102 @@
+import { PantryService } from '../services/pantryService'
+import { PantryItem } from '../types/pantry'
+import { Recipe } from '../types/recipe'
+
+function makeRecipe(id: string, name: string, ingredients: Recipe['ingredients']): Recipe {
+  return {
+    id,
+    name,
+    description: '',
+    prepTimeMinutes: 10,
+    servings: 2,
+    ingredients,
+    instructions: [],
+    isPublic: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  } as Recipe
+}
+
+describe('PantryService', () => {
+  let service: PantryService
+  let pantry: PantryItem[]
+
+  beforeEach(() => {
+    service = new PantryService()
+    pantry = ['2 cans chickpeas', 'onion', 'garlic', 'olive oil'].map((name, index) => {
+      const normalized = service.normalizeItem(name)
+      return {
+        id: `item-${index}`,
+        userId: 'user-1',
+        ...normalized,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      }
+    })
+  })
+
+  describe('normalizeItem', () => {
+    it('should strip quantities and units before categorizing', () => {
+      const item = service.normalizeItem('2 cups flour')
+      expect(item.name).toBe('flour')
+      expect(item.displayName).toBe(service.normalizeItem('flour').displayName)
+      expect(item.category).toBeTruthy()
+    })
+  })
+
+  describe('matchRecipes', () => {
+    it('should rank recipes by pantry coverage and list missing ingredients', () => {
+      const recipes = [
+        makeRecipe('r1', 'Chickpea Curry', ['1 can chickpeas', '1 onion', '2 cloves garlic', '1 can coconut milk']),
+        makeRecipe('r2', 'Garlic Bread', ['1 baguette', '3 cloves garlic', '50 g butter']),
+        makeRecipe('r3', 'Pancakes', ['2 eggs', '200 ml milk'])
+      ]
+
+      const matches = service.matchRecipes(recipes, pantry)
+
+      expect(matches.map(m => m.recipe.id)).toEqual(['r1', 'r2'])
+      expect(matches[0]).toMatchObject({
+        matchedCount: 3,
+        totalCount: 4,
+        matchRatio: 0.75,
+        missingIngredients: ['1 can coconut milk']
+      })
+      expect(matches[1].missingIngredients).toEqual(['1 baguette', '50 g butter'])
+    })
+
+    it('should treat staples as available unless disabled', () => {
+      const recipes = [makeRecipe('r1', 'Roasted Garlic', ['1 head garlic', '1 tsp salt', 'water'])]
+
+      const [withStaples] = service.matchRecipes(recipes, pantry)
+      expect(withStaples.totalCount).toBe(1)
+      expect(withStaples.missingIngredients).toEqual([])
+
+      const [withoutStaples] = service.matchRecipes(recipes, pantry, { includeStaples: false })
+      expect(withoutStaples.totalCount).toBe(3)
+      expect(withoutStaples.missingIngredients).toEqual(['1 tsp salt', 'water'])
+    })
+
+    it('should drop recipes missing more than maxMissing ingredients', () => {
+      const recipes = [
+        makeRecipe('r1', 'Chickpea Curry', ['1 can chickpeas', '1 onion', '1 can coconut milk']),
+        makeRecipe('r2', 'Garlic Bread', ['1 baguette', '3 cloves garlic', '50 g butter'])
+      ]
+
+      const matches = service.matchRecipes(recipes, pantry, { maxMissing: 1 })
+      expect(matches.map(m => m.recipe.id)).toEqual(['r1'])
+    })
+
+    it('should flatten categorized ingredients', () => {
+      const recipes = [
+        makeRecipe('r1', 'Hummus', [
+          { category: 'Base', items: ['1 can chickpeas', '1 clove garlic'] },
+          { category: 'Topping', items: ['2 tbsp olive oil', 'paprika'] }
+        ])
+      ]
+
+      const [match] = service.matchRecipes(recipes, pantry)
+      expect(match.matchedCount).toBe(3)
+      expect(match.missingIngredients).toEqual(['paprika'])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { isValidCommentBody, presentComments, MAX_COMMENT_LENGTH } from '../utils/recipeCommentHelper'
+import { RecipeComment } from '../types/recipeComment'
+
+function comment(id: string, overrides: Partial<RecipeComment> = {}): RecipeComment {
+  return {
+    id,
+    recipeId: 'recipe-1',
+    userId: 'author',
+    body: `Comment ${id}`,
+    isDeleted: false,
+    isHidden: false,
+    reportCount: 0,
+    reportedByViewer: false,
+    createdAt: '2024-03-10T12:00:00Z',
+    updatedAt: '2024-03-10T12:00:00Z',
+    ...overrides
+  }
+}
+
+describe('recipeCommentHelper', () => {
+  describe('isValidCommentBody', () => {
+    it('should accept text within the length limit', () => {
+      expect(isValidCommentBody('Lovely recipe!')).toBe(true)
+      expect(isValidCommentBody('a'.repeat(MAX_COMMENT_LENGTH))).toBe(true)
+    })
+
+    it('should reject empty, overly long and non-string bodies', () => {
+      expect(isValidCommentBody('   ')).toBe(false)
+      expect(isValidCommentBody('a'.repeat(MAX_COMMENT_LENGTH + 1))).toBe(false)
+      expect(isValidCommentBody(42)).toBe(false)
+      expect(isValidCommentBody(undefined)).toBe(false)
+    })
+  })
+
+  describe('presentComments', () => {
+    it('should drop deleted comments without replies', () => {
+      const result = presentComments([comment('a'), comment('b', { isDeleted: true, body: '' })], 'viewer', false)
+      expect(result.map(c => c.id)).toEqual(['a'])
+    })
+
+    it('should keep deleted comments that still have replies, without their text', () => {
+      const result = presentComments([
+        comment('a', { isDeleted: true, body: '' }),
+        comment('b', { parentId: 'a' }),
+        comment('c', { parentId: 'b' })
+      ], 'viewer', false)
+      expect(result.map(c => c.id)).toEqual(['a', 'b', 'c'])
+      expect(result[0].body).toBe('')
+    })
+
+    it('should hide hidden comments from other viewers but not from the author or moderators', () => {
+      const comments = [comment('a', { isHidden: true, reportCount: 3 })]
+
+      expect(presentComments(comments, 'viewer', false)).toEqual([])
+      expect(presentComments(comments, undefined, false)).toEqual([])
+      expect(presentComments(comments, 'author', false)[0].body).toBe('Comment a')
+
+      const moderated = presentComments(comments, 'owner', true)
+      expect(moderated[0].body).toBe('Comment a')
+      expect(moderated[0].reportCount).toBe(3)
+    })
+
+    it('should keep the text of hidden comments out of visible threads', () => {
+      const result = presentComments([
+        comment('a', { isHidden: true }),
+        comment('b', { parentId: 'a', userId: 'someone' })
+      ], 'viewer', false)
+      expect(result.map(c => [c.id, c.body])).toEqual([['a', ''], ['b', 'Comment b']])
+    })
+
+    it('should only send report counts to moderators', () => {
+      const result = presentComments([comment('a', { reportCount: 1 })], 'viewer', false)
+      expect(result[0].reportCount).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { isValidRating, isValidCookDate, isTruthyFlag } from '../utils/recipeCookHelper'
+
+describe('recipeCookHelper', () => {
+  describe('isValidRating', () => {
+    it('should accept whole numbers from 1 to 5, including form strings', () => {
+      expect(isValidRating(1)).toBe(true)
+      expect(isValidRating(5)).toBe(true)
+      expect(isValidRating('4')).toBe(true)
+    })
+
+    it('should reject out-of-range, fractional and non-numeric ratings', () => {
+      expect(isValidRating(0)).toBe(false)
+      expect(isValidRating(6)).toBe(false)
+      expect(isValidRating(3.5)).toBe(false)
+      expect(isValidRating('great')).toBe(false)
+      expect(isValidRating(' ')).toBe(false)
+      expect(isValidRating(null)).toBe(false)
+    })
+  })
+
+  describe('isValidCookDate', () => {
+    const now = new Date('2024-03-10T18:00:00Z')
+
+    it('should accept past dates and times', () => {
+      expect(isValidCookDate('2024-03-01', now)).toBe(true)
+      expect(isValidCookDate('2024-03-10T17:30:00Z', now)).toBe(true)
+    })
+
+    it('should allow for clock differences but reject later dates', () => {
+      expect(isValidCookDate('2024-03-11T06:00:00Z', now)).toBe(true)
+      expect(isValidCookDate('2024-03-15', now)).toBe(false)
+    })
+
+    it('should reject values that are not dates', () => {
+      expect(isValidCookDate('yesterday', now)).toBe(false)
+      expect(isValidCookDate(1710000000000, now)).toBe(false)
+    })
+  })
+
+  describe('isTruthyFlag', () => {
+    it('should read booleans sent as form fields', () => {
+      expect(isTruthyFlag('true')).toBe(true)
+      expect(isTruthyFlag(true)).toBe(true)
+      expect(isTruthyFlag('false')).toBe(false)
+      expect(isTruthyFlag(undefined)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { buildRecipeSnapshot, ingredientsToLines, diffLines, diffSnapshots, getChangedFields } from '../utils/recipeDiff'
+import { Recipe } from '../types/recipe'
+
+const baseRecipe = {
+  id: 'recipe-1',
+  name: "Grandma's Lasagna",
+  description: 'Family favourite',
+  prepTimeMinutes: 30,
+  cookTimeMinutes: 60,
+  servings: 6,
+  ingredients: [
+    { category: 'Sauce', items: ['500 g minced beef', '1 onion'] },
+    { category: 'Bechamel', items: ['50 g butter', '500 ml milk'] }
+  ],
+  instructions: ['Make the sauce', 'Make the bechamel', 'Layer and bake'],
+  tags: ['pasta'],
+  isPublic: false,
+  language: 'en',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+} as Recipe
+
+describe('recipeDiff', () => {
+  describe('ingredientsToLines', () => {
+    it('should keep section headers in the parser format', () => {
+      expect(ingredientsToLines(baseRecipe.ingredients)).toEqual([
+        '*Sauce*', '500 g minced beef', '1 onion', '*Bechamel*', '50 g butter', '500 ml milk'
+      ])
+    })
+
+    it('should pass flat ingredient lists through', () => {
+      expect(ingredientsToLines(['1 egg'])).toEqual(['1 egg'])
+      expect(ingredientsToLines(undefined)).toEqual([])
+    })
+  })
+
+  describe('diffLines', () => {
+    it('should mark removed and added lines around common ones', () => {
+      expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+        { op: 'equal', text: 'a' },
+        { op: 'removed', text: 'b' },
+        { op: 'added', text: 'x' },
+        { op: 'equal', text: 'c' },
+        { op: 'added', text: 'd' }
+      ])
+    })
+  })
+
+  describe('diffSnapshots', () => {
+    it('should report only changed fields', () => {
+      const before = buildRecipeSnapshot(baseRecipe)
+      const after = buildRecipeSnapshot({
+        ...baseRecipe,
+        servings: 8,
+        instructions: ['Make the sauce', 'Layer and bake']
+      })
+
+      const diffs = diffSnapshots(before, after)
+      expect(diffs.map(diff => diff.field)).toEqual(['servings', 'instructions'])
+      expect(diffs[0]).toEqual({ field: 'servings', type: 'value', before: 6, after: 8 })
+      expect(diffs[1]).toEqual({
+        field: 'instructions',
+        type: 'lines',
+        lines: [
+          { op: 'equal', text: 'Make the sauce' },
+          { op: 'removed', text: 'Make the bechamel' },
+          { op: 'equal', text: 'Layer and bake' }
+        ]
+      })
+    })
+
+    it('should treat every field as added for the first revision', () => {
+      const fields = getChangedFields(null, buildRecipeSnapshot(baseRecipe))
+      expect(fields).toEqual(expect.arrayContaining(['name', 'ingredients', 'instructions', 'tags']))
+      expect(fields).not.toContain('image')
+    })
+
+    it('should find no changes between identical snapshots', () => {
+      expect(diffSnapshots(buildRecipeSnapshot(baseRecipe), buildRecipeSnapshot({ ...baseRecipe }))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { exportService } from '../services/exportService'
+import { Recipe } from '../types/recipe'
+import { readZipEntries } from '../utils/zipReader'
+import { createZipArchive, crc32 } from '../utils/zipWriter'
+import { recipeToJsonLd, recipeToMarkdown, slugify, toIsoDuration } from '../utils/recipeExportFormats'
+
+const recipe = {
+  id: 'recipe-1',
+  name: 'Crème Brûlée',
+  description: 'Classic custard',
+  prepTimeMinutes: 20,
+  cookTimeMinutes: 40,
+  totalTimeMinutes: 300,
+  servings: 4,
+  ingredients: [
+    { category: 'Custard', items: ['500 ml cream', '5 egg yolks'] },
+    { category: 'Topping', items: ['4 tbsp sugar'] }
+  ],
+  instructions: ['*Custard*', 'Whisk yolks and cream.', 'Bake in a water bath.', '*Topping*', 'Caramelize the sugar.'],
+  tags: ['dessert', 'french'],
+  sourceUrl: 'https://example.com/creme-brulee',
+  image: 'https://cdn.example.com/creme.jpg',
+  isPublic: false,
+  language: 'en',
+  originalTextInput: 'Creme brulee: cream, yolks, sugar...',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z'
+} as Recipe
+
+describe('recipe export', () => {
+  describe('formats', () => {
+    it('should format ISO 8601 durations', () => {
+      expect(toIsoDuration(20)).toBe('PT20M')
+      expect(toIsoDuration(90)).toBe('PT1H30M')
+      expect(toIsoDuration(120)).toBe('PT2H')
+      expect(toIsoDuration(0)).toBeUndefined()
+    })
+
+    it('should build file-system friendly names', () => {
+      expect(slugify('Crème Brûlée')).toBe('creme-brulee')
+      expect(slugify('  Mom\'s "Best" Chili!! ')).toBe('mom-s-best-chili')
+      expect(slugify('日本')).toBe('recipe')
+    })
+
+    it('should convert recipes to schema.org JSON-LD with instruction sections', () => {
+      const jsonLd = recipeToJsonLd(recipe)
+      expect(jsonLd).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Recipe',
+        name: 'Crème Brûlée',
+        recipeIngredient: ['500 ml cream', '5 egg yolks', '4 tbsp sugar'],
+        prepTime: 'PT20M',
+        totalTime: 'PT5H',
+        recipeYield: '4',
+        keywords: 'dessert, french',
+        image: 'https://cdn.example.com/creme.jpg',
+        url: 'https://example.com/creme-brulee',
+        inLanguage: 'en'
+      })
+      expect(jsonLd.recipeInstructions).toEqual([
+        {
+          '@type': 'HowToSection',
+          name: 'Custard',
+          itemListElement: [
+            { '@type': 'HowToStep', text: 'Whisk yolks and cream.' },
+            { '@type': 'HowToStep', text: 'Bake in a water bath.' }
+          ]
+        },
+        { '@type': 'HowToSection', name: 'Topping', itemListElement: [{ '@type': 'HowToStep', text: 'Caramelize the sugar.' }] }
+      ])
+    })
+
+    it('should use the exported image path when given', () => {
+      expect(recipeToJsonLd(recipe, 'image.jpg').image).toBe('image.jpg')
+    })
+
+    it('should render Markdown with sections and continuous step numbers', () => {
+      const markdown = recipeToMarkdown(recipe, 'image.jpg')
+      expect(markdown).toContain('# Crème Brûlée\n\n![Crème Brûlée](image.jpg)')
+      expect(markdown).toContain('**Prep:** 20 min · **Cook:** 40 min · **Total:** 5 h · **Servings:** 4')
+      expect(markdown).toContain('### Custard\n\n- 500 ml cream\n- 5 egg yolks')
+      expect(markdown).toContain('1. Whisk yolks and cream.\n2. Bake in a water bath.\n\n### Topping\n\n3. Caramelize the sugar.')
+    })
+
+    it('should render chef\'s notes sections', () => {
+      const markdown = recipeToMarkdown({
+        ...recipe,
+        aiEnhancedNotes: JSON.stringify({ cookingTips: ['Use a torch'], storageNotes: 'Keeps 2 days' })
+      })
+      expect(markdown).toContain("## Chef's Notes\n\n### Cooking Tips\n\n- Use a torch\n\n### Storage\n\nKeeps 2 days")
+    })
+  })
+
+  describe('createZipArchive', () => {
+    it('should compute standard CRC-32 checksums', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+    })
+
+    it('should write archives the zip reader can read back', () => {
+      const files = [
+        { name: 'a.txt', data: Buffer.from('hello '.repeat(50)) },
+        { name: 'folder/b.bin', data: Buffer.from([1, 2, 3]) }
+      ]
+      expect(readZipEntries(createZipArchive(files))).toEqual(files)
+    })
+  })
+
+  describe('ExportService', () => {
+    it('should give recipes with the same name distinct folders', () => {
+      const folders = exportService.assignFolders([
+        recipe,
+        { ...recipe, id: 'recipe-2' },
+        { ...recipe, id: 'recipe-3', name: 'Soup' }
+      ])
+      expect([...folders.values()]).toEqual(['creme-brulee', 'creme-brulee-2', 'soup'])
+    })
+
+    it('should bundle open formats, original payloads and a manifest', async () => {
+      const archive = await exportService.buildArchive(
+        [recipe],
+        { id: 'user-1', email: 'cook@example.com', displayName: 'Cook' },
+        false
+      )
+
+      const entries = readZipEntries(archive)
+      expect(entries.map(entry => entry.name)).toEqual([
+        'manifest.json',
+        'recipes/creme-brulee/recipe.jsonld',
+        'recipes/creme-brulee/recipe.md',
+        'recipes/creme-brulee/original/text-input.txt'
+      ])
+
+      const manifest = JSON.parse(entries[0].data.toString())
+      expect(manifest.recipes).toEqual([{ id: 'recipe-1', name: 'Crème Brûlée', folder: 'recipes/creme-brulee' }])
+      expect(entries[3].data.toString()).toBe(recipe.originalTextInput)
+    })
+  })
+})
@@ -0,0 +1,300 @@
+import { deflateRawSync, gzipSync } from 'zlib'
+import { recipeImportService } from '../services/recipeImportService'
+import { gunzipWithinBudget, readZipEntries } from '../utils/zipReader'
+import {
+  parseDurationMinutes,
+  findJsonLdRecipes,
+  mapJsonLdRecipe,
+  mapMealieRecipe,
+  mapPaprikaRecipe,
+  mapTandoorRecipe
+} from '../utils/recipeImportMappers'
+
+// Builds a zip archive in memory (CRCs are left empty; the reader does not verify them)
+function buildZip(files: Record<string, Buffer | string>, deflate = true): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content)
+    const data = deflate ? deflateRawSync(raw) : raw
+    const nameBuffer = Buffer.from(name)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(deflate ? 8 : 0, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(deflate ? 8 : 0, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, nameBuffer, data)
+    centralParts.push(central, nameBuffer)
+    offset += local.length + nameBuffer.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+const paprikaRecipe = {
+  name: 'Pancakes',
+  description: 'Fluffy',
+  notes: 'Best on Sundays',
+  ingredients: 'Batter:\n200 g flour\n2 eggs\n\nTOPPING\nmaple syrup',
+  directions: '1. Mix the batter.\n2. Fry in butter.',
+  servings: '4 servings',
+  prep_time: '10 mins',
+  cook_time: '1 hr 5 min',
+  source_url: 'https://example.com/pancakes',
+  categories: ['Breakfast'],
+  photo_data: Buffer.from('fake-image').toString('base64'),
+  photo: 'pancakes.jpg'
+}
+
+const tandoorRecipe = {
+  name: 'Lentil Soup',
+  description: '',
+  keywords: [{ name: 'soup' }],
+  working_time: 15,
+  waiting_time: 30,
+  servings: 4,
+  source_url: '',
+  steps: [
+    {
+      name: '',
+      order: 0,
+      instruction: 'Simmer the lentils.',
+      ingredients: [
+        { food: { name: 'red lentils' }, unit: { name: 'g' }, amount: 250, note: 'rinsed', order: 0 },
+        { food: { name: 'salt' }, unit: null, amount: 0, no_amount: true, note: '', order: 1 }
+      ]
+    }
+  ]
+}
+
+describe('recipe import', () => {
+  describe('parseDurationMinutes', () => {
+    it('should read ISO 8601 durations', () => {
+      expect(parseDurationMinutes('PT1H30M')).toBe(90)
+      expect(parseDurationMinutes('PT45M')).toBe(45)
+      expect(parseDurationMinutes('P0DT0H20M')).toBe(20)
+    })
+
+    it('should read free-text durations', () => {
+      expect(parseDurationMinutes('1 hr 30 mins')).toBe(90)
+      expect(parseDurationMinutes('1h30m')).toBe(90)
+      expect(parseDurationMinutes('45 minutes')).toBe(45)
+      expect(parseDurationMinutes('1.5 hours')).toBe(90)
+      expect(parseDurationMinutes('25')).toBe(25)
+      expect(parseDurationMinutes(20)).toBe(20)
+    })
+
+    it('should ignore unreadable values', () => {
+      expect(parseDurationMinutes('overnight')).toBeUndefined()
+      expect(parseDurationMinutes('')).toBeUndefined()
+      expect(parseDurationMinutes(null)).toBeUndefined()
+      expect(parseDurationMinutes('PT0M')).toBeUndefined()
+    })
+  })
+
+  describe('mappers', () => {
+    it('should map Paprika recipes with sections and embedded photo', () => {
+      const recipe = mapPaprikaRecipe(paprikaRecipe)
+      expect(recipe).toMatchObject({
+        name: 'Pancakes',
+        description: 'Fluffy\n\nBest on Sundays',
+        ingredients: ['*Batter*', '200 g flour', '2 eggs', '*TOPPING*', 'maple syrup'],
+        instructions: ['Mix the batter.', 'Fry in butter.'],
+        prepTimeMinutes: 10,
+        cookTimeMinutes: 65,
+        servings: 4,
+        sourceUrl: 'https://example.com/pancakes',
+        tags: ['Breakfast'],
+        imageName: 'pancakes.jpg'
+      })
+      expect(recipe.imageData?.toString()).toBe('fake-image')
+      expect(recipe.imageUrl).toBeUndefined()
+    })
+
+    it('should map Mealie recipes', () => {
+      const recipe = mapMealieRecipe({
+        name: 'Tomato Salad',
+        slug: 'tomato-salad',
+        description: 'Summer classic',
+        recipeYield: '2 servings',
+        prepTime: '10 minutes',
+        performTime: null,
+        recipeIngredient: [
+          { title: 'Salad', display: '4 tomatoes' },
+          { quantity: 1, unit: { name: 'tablespoon' }, food: { name: 'olive oil' }, note: '' }
+        ],
+        recipeInstructions: [{ title: '', text: 'Slice the tomatoes.\nDrizzle with oil.' }],
+        tags: [{ name: 'Vegan' }],
+        recipeCategory: [{ name: 'Salad' }, { name: 'vegan' }],
+        orgURL: 'https://example.com/salad'
+      })
+
+      expect(recipe).toMatchObject({
+        name: 'Tomato Salad',
+        ingredients: ['*Salad*', '4 tomatoes', '1 tablespoon olive oil'],
+        instructions: ['Slice the tomatoes.', 'Drizzle with oil.'],
+        prepTimeMinutes: 10,
+        servings: 2,
+        sourceUrl: 'https://example.com/salad',
+        tags: ['Vegan', 'Salad']
+      })
+      expect(recipe.cookTimeMinutes).toBeUndefined()
+    })
+
+    it('should map Tandoor recipes', () => {
+      expect(mapTandoorRecipe(tandoorRecipe)).toMatchObject({
+        name: 'Lentil Soup',
+        ingredients: ['250 g red lentils, rinsed', 'salt'],
+        instructions: ['Simmer the lentils.'],
+        prepTimeMinutes: 15,
+        cookTimeMinutes: 30,
+        totalTimeMinutes: 45,
+        servings: 4,
+        tags: ['soup']
+      })
+    })
+
+    it('should find recipes in JSON-LD graphs and flatten instruction sections', () => {
+      const [data] = findJsonLdRecipes({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'WebPage', name: 'Blog' },
+          {
+            '@type': ['Recipe'],
+            name: 'Focaccia',
+            recipeIngredient: ['500 g flour', '10 g salt'],
+            recipeInstructions: [
+              { '@type': 'HowToSection', name: 'Dough', itemListElement: [{ '@type': 'HowToStep', text: 'Mix and knead.' }] },
+              { '@type': 'HowToStep', text: 'Bake at 220°C.' }
+            ],
+            recipeYield: ['8', '8 pieces'],
+            totalTime: 'PT3H',
+            keywords: 'bread, italian',
+            recipeCategory: 'Bread',
+            image: { '@type': 'ImageObject', url: 'https://example.com/focaccia.jpg' },
+            inLanguage: 'en-US'
+          }
+        ]
+      })
+
+      expect(mapJsonLdRecipe(data)).toMatchObject({
+        name: 'Focaccia',
+        ingredients: ['500 g flour', '10 g salt'],
+        instructions: ['*Dough*', 'Mix and knead.', 'Bake at 220°C.'],
+        servings: 8,
+        totalTimeMinutes: 180,
+        tags: ['Bread', 'italian'],
+        imageUrl: 'https://example.com/focaccia.jpg',
+        language: 'en'
+      })
+    })
+  })
+
+  describe('readZipEntries', () => {
+    it('should read stored and deflated entries and skip directories', () => {
+      const deflated = readZipEntries(buildZip({ 'folder/': '', 'folder/a.txt': 'hello' }))
+      expect(deflated).toEqual([{ name: 'folder/a.txt', data: Buffer.from('hello') }])
+
+      const stored = readZipEntries(buildZip({ 'b.txt': 'world' }, false))
+      expect(stored[0].data.toString()).toBe('world')
+    })
+
+    it('should reject files that are not zip archives', () => {
+      expect(() => readZipEntries(Buffer.from('not a zip archive at all'))).toThrow('Invalid zip archive')
+    })
+
+    it('should stop inflating entries that understate their size', () => {
+      const archive = buildZip({ 'bomb.txt': 'x'.repeat(10000) })
+      // Claim a one-byte entry in the central directory
+      const centralOffset = archive.readUInt32LE(archive.length - 22 + 16)
+      archive.writeUInt32LE(1, centralOffset + 24)
+
+      expect(() => readZipEntries(archive, { remaining: 1000 })).toThrow('too large to unpack')
+    })
+
+    it('should share one budget across nested archives and gzipped documents', () => {
+      const budget = { remaining: 1500 }
+      readZipEntries(buildZip({ 'a.txt': 'x'.repeat(1000) }), budget)
+      expect(budget.remaining).toBe(500)
+
+      expect(() => gunzipWithinBudget(gzipSync('y'.repeat(1000)), budget)).toThrow('too large to unpack')
+    })
+  })
+
+  describe('extractRecipes', () => {
+    it('should read Paprika archives of gzipped recipes', () => {
+      const archive = buildZip({
+        'Pancakes.paprikarecipe': gzipSync(JSON.stringify(paprikaRecipe)),
+        'Waffles.paprikarecipe': gzipSync(JSON.stringify({ ...paprikaRecipe, name: 'Waffles' }))
+      })
+
+      const result = recipeImportService.extractRecipes(archive, 'My Recipes.paprikarecipes')
+      expect(result.format).toBe('paprika')
+      expect(result.recipes.map(recipe => recipe.name)).toEqual(['Pancakes', 'Waffles'])
+    })
+
+    it('should read Tandoor exports with nested recipe zips and images', () => {
+      const archive = buildZip({
+        '1.zip': buildZip({ 'recipe.json': JSON.stringify(tandoorRecipe), 'image.png': 'png-bytes' })
+      })
+
+      const result = recipeImportService.extractRecipes(archive, 'export.zip')
+      expect(result.format).toBe('tandoor')
+      expect(result.recipes).toHaveLength(1)
+      expect(result.recipes[0].imageData?.toString()).toBe('png-bytes')
+    })
+
+    it('should pair Mealie recipe documents with their images', () => {
+      const archive = buildZip({
+        'recipes/salad/salad.json': JSON.stringify({
+          name: 'Salad', slug: 'salad', recipeIngredient: ['1 lettuce'], recipeInstructions: [{ text: 'Wash.' }]
+        }),
+        'recipes/salad/images/original.webp': 'webp-bytes'
+      })
+
+      const result = recipeImportService.extractRecipes(archive, 'mealie.zip')
+      expect(result.format).toBe('mealie')
+      expect(result.recipes[0].imageData?.toString()).toBe('webp-bytes')
+      expect(result.recipes[0].imageName).toBe('original.webp')
+    })
+
+    it('should read JSON-LD from saved HTML pages', () => {
+      const html = `<html><head>
+        <script type="application/ld+json">{ broken</script>
+        <script type="application/ld+json">{"@type":"Recipe","name":"Soup","recipeIngredient":["water"],"recipeInstructions":"Boil."}</script>
+      </head></html>`
+
+      const result = recipeImportService.extractRecipes(Buffer.from(html), 'soup.html')
+      expect(result.format).toBe('jsonld')
+      expect(result.recipes[0]).toMatchObject({ name: 'Soup', instructions: ['Boil.'] })
+    })
+
+    it('should reject files without recipes', () => {
+      expect(() => recipeImportService.extractRecipes(Buffer.from('{"hello":"world"}'), 'data.json'))
+        .toThrow('No recipes found in "data.json"')
+      expect(() => recipeImportService.extractRecipes(Buffer.from('nope'), 'data.json'))
+        .toThrow('"data.json" is not valid JSON')
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { HostThrottle, getScrapeHost, isAllowedByRobots, parseRobotsTxt } from '../utils/scrapePoliteness'
+
+describe('scrapePoliteness', () => {
+  describe('getScrapeHost', () => {
+    it('should lower-case the host and drop www.', () => {
+      expect(getScrapeHost('https://WWW.Example.com/soup?x=1')).toBe('example.com')
+      expect(getScrapeHost('not a url')).toBeNull()
+    })
+  })
+
+  describe('parseRobotsTxt', () => {
+    const robots = [
+      'User-agent: *',
+      'Disallow: /private/',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: RecipeReaper # our own group',
+      'Disallow: /search',
+      'Allow: /search/recipes',
+      '',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n')
+
+    it('should prefer groups naming the user agent', () => {
+      expect(parseRobotsTxt(robots, 'RecipeReaper')).toEqual({
+        allow: ['/search/recipes'],
+        disallow: ['/search']
+      })
+    })
+
+    it('should fall back to the * group', () => {
+      expect(parseRobotsTxt(robots, 'OtherBot')).toEqual({ allow: [], disallow: ['/private/'] })
+    })
+
+    it('should treat an empty Disallow as allowing everything', () => {
+      expect(parseRobotsTxt('User-agent: *\nDisallow:\n')).toEqual({ allow: [], disallow: [] })
+    })
+  })
+
+  describe('isAllowedByRobots', () => {
+    it('should let the longest matching rule decide', () => {
+      const rules = { allow: ['/search/recipes'], disallow: ['/search'] }
+
+      expect(isAllowedByRobots(rules, '/search?q=soup')).toBe(false)
+      expect(isAllowedByRobots(rules, '/search/recipes/soup')).toBe(true)
+      expect(isAllowedByRobots(rules, '/recipes/soup')).toBe(true)
+    })
+
+    it('should support * wildcards and $ anchors', () => {
+      const rules = { allow: [], disallow: ['/*?print=', '/*.pdf$'] }
+
+      expect(isAllowedByRobots(rules, '/recipes/soup?print=1')).toBe(false)
+      expect(isAllowedByRobots(rules, '/recipes/soup.pdf')).toBe(false)
+      expect(isAllowedByRobots(rules, '/recipes/soup.pdf.html')).toBe(true)
+    })
+
+    it('should let Allow win a tie', () => {
+      expect(isAllowedByRobots({ allow: ['/recipes'], disallow: ['/recipes'] }, '/recipes/soup')).toBe(true)
+    })
+  })
+
+  describe('HostThrottle', () => {
+    it('should limit concurrent tasks per host', async () => {
+      const throttle = new HostThrottle(1, 0)
+      let running = 0
+      let maxRunning = 0
+      const task = async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        running--
+      }
+
+      await Promise.all([
+        throttle.run('example.com', task),
+        throttle.run('example.com', task),
+        throttle.run('example.com', task)
+      ])
+
+      expect(maxRunning).toBe(1)
+    })
+
+    it('should not limit different hosts against each other', async () => {
+      const throttle = new HostThrottle(1, 0)
+      let running = 0
+      let maxRunning = 0
+      const task = async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        running--
+      }
+
+      await Promise.all([throttle.run('a.com', task), throttle.run('b.com', task)])
+
+      expect(maxRunning).toBe(2)
+    })
+
+    it('should space out task starts on one host', async () => {
+      const throttle = new HostThrottle(2, 50)
+      const startedAt: number[] = []
+      const task = async () => {
+        startedAt.push(Date.now())
+      }
+
+      await Promise.all([throttle.run('example.com', task), throttle.run('example.com', task)])
+
+      expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(45)
+    })
+
+    it('should release the slot when a task fails', async () => {
+      const throttle = new HostThrottle(1, 0)
+
+      await expect(throttle.run('example.com', async () => { throw new Error('boom') })).rejects.toThrow('boom')
+      await expect(throttle.run('example.com', async () => 'ok')).resolves.toBe('ok')
+    })
+
+    it('should forget hosts once their interval has passed', async () => {
+      const throttle = new HostThrottle(1, 20)
+
+      await throttle.run('a.example.com', async () => 'ok')
+      await throttle.run('b.example.com', async () => 'ok')
+      expect(throttle['hosts'].size).toBe(2)
+
+      await new Promise(resolve => setTimeout(resolve, 30))
+      await throttle.run('c.example.com', async () => 'ok')
+      expect([...throttle['hosts'].keys()]).toEqual(['c.example.com'])
+    })
+  })
+})
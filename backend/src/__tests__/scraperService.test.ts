@@ -0,0 +1,152 @@
+import { NativeScraperStrategy, ScraperService, createScraperStrategies } from '../services/scraperService'
+import { ROBOTS_DISALLOWED_MESSAGE } from '../services/scrapePolitenessService'
+import { ScrapedRecipeData, ScraperStrategy } from '../types/scraper'
+
+const recipe: ScrapedRecipeData = {
+  name: 'Tomato Soup',
+  ingredients: ['4 tomatoes'],
+  instructions: ['Simmer.']
+}
+
+const strategy = (name: string, scrape: ScraperStrategy['scrape'], available = true): ScraperStrategy => ({
+  name,
+  isAvailable: () => available,
+  scrape: jest.fn(scrape)
+})
+
+describe('ScraperService', () => {
+  const url = 'https://example.com/soup'
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should use the first strategy that finds a recipe', async () => {
+    const native = strategy('native', async () => recipe)
+    const python = strategy('python', async () => ({ ...recipe, name: 'From Python' }))
+
+    const result = await new ScraperService([native, python]).scrapeRecipe(url)
+
+    expect(result).toEqual({ ...recipe, scraper: 'native' })
+    expect(python.scrape).not.toHaveBeenCalled()
+  })
+
+  it('should fall back when a strategy fails or finds no ingredients and instructions', async () => {
+    const failing = strategy('native', async () => { throw new Error('Failed to fetch the recipe page: HTTP 403') })
+    const empty = strategy('partial', async () => ({ name: 'Soup', ingredients: [], instructions: [] }))
+    const python = strategy('python', async () => recipe)
+
+    const result = await new ScraperService([failing, empty, python]).scrapeRecipe(url)
+
+    expect(result.scraper).toBe('python')
+  })
+
+  it('should skip strategies that are not available', async () => {
+    const unavailable = strategy('python', async () => recipe, false)
+
+    await expect(new ScraperService([unavailable]).scrapeRecipe(url)).rejects.toThrow('Recipe not found')
+    expect(unavailable.scrape).not.toHaveBeenCalled()
+  })
+
+  it('should throw the last error when every strategy fails', async () => {
+    const native = strategy('native', async () => null)
+    const python = strategy('python', async () => { throw new Error('This website is not supported') })
+
+    await expect(new ScraperService([native, python]).scrapeRecipe(url)).rejects.toThrow('not supported')
+  })
+
+  it('should return a cached scrape without running the strategies', async () => {
+    const native = strategy('native', async () => recipe)
+    const cache = {
+      findFresh: jest.fn(async () => ({ data: { ...recipe, scraper: 'python' }, fetchedAt: '2024-01-01T00:00:00.000Z' } as any)),
+      save: jest.fn()
+    }
+
+    const result = await new ScraperService([native], { cache, cacheTtlMs: 1000 }).scrapeRecipe('https://www.example.com/soup/?utm_source=x')
+
+    expect(result.scraper).toBe('python')
+    expect(cache.findFresh).toHaveBeenCalledWith('example.com/soup')
+    expect(native.scrape).not.toHaveBeenCalled()
+  })
+
+  it('should cache new scrapes by canonical URL and record the host outcome', async () => {
+    const cache = { findFresh: jest.fn(async () => null), save: jest.fn(async () => {}) }
+    const hostStats = { recordSuccess: jest.fn(async () => {}), recordFailure: jest.fn(async () => {}) }
+    const service = new ScraperService([strategy('native', async () => recipe)], { cache, cacheTtlMs: 1000, hostStats })
+
+    await service.scrapeRecipe('https://www.example.com/soup')
+
+    expect(cache.save).toHaveBeenCalledWith({
+      canonicalUrl: 'example.com/soup',
+      url: 'https://www.example.com/soup',
+      host: 'example.com',
+      data: { ...recipe, scraper: 'native' },
+      ttlMs: 1000
+    })
+    expect(hostStats.recordSuccess).toHaveBeenCalledWith('example.com')
+  })
+
+  it('should record failures against the host without caching them', async () => {
+    const cache = { findFresh: jest.fn(async () => null), save: jest.fn(async () => {}) }
+    const hostStats = { recordSuccess: jest.fn(async () => {}), recordFailure: jest.fn(async () => {}) }
+    const failing = strategy('native', async () => { throw new Error('Failed to fetch the recipe page: HTTP 403') })
+
+    await expect(new ScraperService([failing], { cache, cacheTtlMs: 1000, hostStats }).scrapeRecipe(url)).rejects.toThrow('HTTP 403')
+
+    expect(hostStats.recordFailure).toHaveBeenCalledWith('example.com', 'Failed to fetch the recipe page: HTTP 403')
+    expect(cache.save).not.toHaveBeenCalled()
+  })
+
+  it('should not count robots.txt refusals as host failures', async () => {
+    const hostStats = { recordSuccess: jest.fn(async () => {}), recordFailure: jest.fn(async () => {}) }
+    const politeness = { run: jest.fn(async () => { throw new Error(ROBOTS_DISALLOWED_MESSAGE) }) }
+
+    await expect(new ScraperService([strategy('native', async () => recipe)], { hostStats, politeness }).scrapeRecipe(url))
+      .rejects.toThrow(ROBOTS_DISALLOWED_MESSAGE)
+
+    expect(hostStats.recordFailure).not.toHaveBeenCalled()
+  })
+
+  it('should scrape when the cache cannot be read', async () => {
+    const cache = { findFresh: jest.fn(async () => { throw new Error('connection refused') }), save: jest.fn(async () => {}) }
+
+    const result = await new ScraperService([strategy('native', async () => recipe)], { cache, cacheTtlMs: 1000 }).scrapeRecipe(url)
+
+    expect(result.scraper).toBe('native')
+  })
+
+  it('should run strategies through the politeness limits', async () => {
+    const native = strategy('native', async () => recipe)
+    const politeness = { run: jest.fn(async (_url: string, task: () => Promise<any>) => task()) }
+
+    await new ScraperService([native], { politeness }).scrapeRecipe(url)
+
+    expect(politeness.run).toHaveBeenCalledWith(url, expect.any(Function))
+    expect(native.scrape).toHaveBeenCalled()
+  })
+
+  it('should stop reading pages that grow past the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024)
+    let chunksRead = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunksRead++
+        controller.enqueue(chunk)
+      }
+    })
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body, { headers: { 'content-type': 'text/html' } }))
+
+    await expect(new NativeScraperStrategy().scrape(url)).rejects.toThrow('too large to read')
+    expect(chunksRead).toBeLessThan(10)
+  })
+
+  it('should build strategies from a configured list', () => {
+    expect(createScraperStrategies(undefined).map(s => s.name)).toEqual(['native', 'python'])
+    expect(createScraperStrategies('python, unknown').map(s => s.name)).toEqual(['python'])
+  })
+})
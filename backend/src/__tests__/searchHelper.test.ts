@@ -0,0 +1,78 @@
+import {
+  getSearchConfig,
+  buildSearchConfigCaseSql,
+  normalizeSearchQuery,
+  buildLikePattern,
+  buildHeadlineOptions,
+  hasHighlight,
+  DEFAULT_SEARCH_CONFIG
+} from '../utils/searchHelper'
+
+describe('searchHelper', () => {
+  describe('getSearchConfig', () => {
+    it('should map supported languages to PostgreSQL dictionaries', () => {
+      expect(getSearchConfig('en')).toBe('english')
+      expect(getSearchConfig('nl')).toBe('dutch')
+      expect(getSearchConfig(' DE ')).toBe('german')
+    })
+
+    it('should fall back to the simple configuration', () => {
+      expect(getSearchConfig('ja')).toBe(DEFAULT_SEARCH_CONFIG)
+      expect(getSearchConfig(undefined)).toBe(DEFAULT_SEARCH_CONFIG)
+      expect(getSearchConfig(null)).toBe(DEFAULT_SEARCH_CONFIG)
+    })
+  })
+
+  describe('buildSearchConfigCaseSql', () => {
+    it('should build a CASE expression with a simple fallback', () => {
+      const sql = buildSearchConfigCaseSql('lang')
+      expect(sql).toContain("CASE lower(lang)")
+      expect(sql).toContain("WHEN 'en' THEN 'english'::regconfig")
+      expect(sql).toContain("ELSE 'simple'::regconfig END")
+    })
+  })
+
+  describe('normalizeSearchQuery', () => {
+    it('should collapse whitespace and trim', () => {
+      expect(normalizeSearchQuery('  chickpea   curry ')).toBe('chickpea curry')
+    })
+
+    it('should return null for empty input', () => {
+      expect(normalizeSearchQuery('')).toBeNull()
+      expect(normalizeSearchQuery('   ')).toBeNull()
+      expect(normalizeSearchQuery(undefined)).toBeNull()
+    })
+
+    it('should limit the query length', () => {
+      expect(normalizeSearchQuery('a'.repeat(500))!.length).toBe(200)
+    })
+  })
+
+  describe('buildLikePattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(buildLikePattern('100%_rye')).toBe('%100\\%\\_rye%')
+      expect(buildLikePattern('pasta')).toBe('%pasta%')
+    })
+  })
+
+  describe('buildHeadlineOptions', () => {
+    it('should highlight the whole text when no fragments are requested', () => {
+      expect(buildHeadlineOptions()).toContain('HighlightAll=true')
+      expect(buildHeadlineOptions()).not.toContain('MaxFragments')
+    })
+
+    it('should request fragments for snippets', () => {
+      const options = buildHeadlineOptions(2)
+      expect(options).toContain('MaxFragments=2')
+      expect(options).toContain('HighlightAll=false')
+    })
+  })
+
+  describe('hasHighlight', () => {
+    it('should detect highlighted terms', () => {
+      expect(hasHighlight('Spicy <mark>chickpea</mark> curry')).toBe(true)
+      expect(hasHighlight('Spicy curry')).toBe(false)
+      expect(hasHighlight(null)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { ShoppingListEvents, formatServerSentEvent, getShoppingListScope } from '../services/shoppingListEvents'
+import { ShoppingListItem } from '../services/shoppingListService'
+
+const item: ShoppingListItem = {
+  id: 'item-1',
+  userId: 'user-1',
+  householdId: 'household-1',
+  ingredient: '2 onions',
+  isCompleted: true,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-01T10:05:00.000Z'
+}
+
+describe('shoppingListEvents', () => {
+  describe('getShoppingListScope', () => {
+    it('should share the list within the active household', () => {
+      expect(getShoppingListScope({ userId: 'user-1', householdId: 'household-1' })).toBe('household:household-1')
+    })
+
+    it('should keep the list personal without a household', () => {
+      expect(getShoppingListScope({ userId: 'user-1' })).toBe('user:user-1')
+    })
+  })
+
+  describe('formatServerSentEvent', () => {
+    it('should name the event and send the rest as JSON data', () => {
+      expect(formatServerSentEvent({ type: 'items_deleted', ids: ['a', 'b'] }))
+        .toBe('event: items_deleted\ndata: {"ids":["a","b"]}\n\n')
+    })
+  })
+
+  describe('ShoppingListEvents', () => {
+    it('should send changes to every stream of the same list only', () => {
+      const events = new ShoppingListEvents()
+      const partner = jest.fn()
+      const otherDevice = jest.fn()
+      const otherHousehold = jest.fn()
+      events.subscribe('household:household-1', 'user-2', partner, jest.fn())
+      events.subscribe('household:household-1', 'user-1', otherDevice, jest.fn())
+      events.subscribe('household:household-2', 'user-3', otherHousehold, jest.fn())
+
+      events.itemsChanged({ userId: 'user-2', householdId: 'household-1' }, [item])
+
+      const chunk = formatServerSentEvent({ type: 'items_changed', items: [item] })
+      expect(partner).toHaveBeenCalledWith(chunk)
+      expect(otherDevice).toHaveBeenCalledWith(chunk)
+      expect(otherHousehold).not.toHaveBeenCalled()
+    })
+
+    it('should stop sending after unsubscribing', () => {
+      const events = new ShoppingListEvents()
+      const sink = jest.fn()
+      const unsubscribe = events.subscribe('user:user-1', 'user-1', sink, jest.fn())
+
+      unsubscribe()
+      events.itemsDeleted({ userId: 'user-1' }, ['item-1'])
+
+      expect(sink).not.toHaveBeenCalled()
+    })
+
+    it('should skip empty changes', () => {
+      const events = new ShoppingListEvents()
+      const sink = jest.fn()
+      events.subscribe('user:user-1', 'user-1', sink, jest.fn())
+
+      events.itemsChanged({ userId: 'user-1' }, [])
+      events.itemsDeleted({ userId: 'user-1' }, [])
+
+      expect(sink).not.toHaveBeenCalled()
+    })
+
+    it('should keep sending to other streams when one connection fails', () => {
+      const events = new ShoppingListEvents()
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const broken = jest.fn(() => { throw new Error('write after end') })
+      const working = jest.fn()
+      events.subscribe('user:user-1', 'user-1', broken, jest.fn())
+      events.subscribe('user:user-1', 'user-1', working, jest.fn())
+
+      events.itemsDeleted({ userId: 'user-1' }, ['item-1'])
+
+      expect(working).toHaveBeenCalledTimes(1)
+      warn.mockRestore()
+    })
+
+    it('should close only the given user\'s streams of a list', () => {
+      const events = new ShoppingListEvents()
+      const removed = jest.fn()
+      const endRemoved = jest.fn()
+      const partner = jest.fn()
+      const endPartner = jest.fn()
+      events.subscribe('household:household-1', 'user-2', removed, endRemoved)
+      events.subscribe('household:household-1', 'user-1', partner, endPartner)
+
+      events.close('household:household-1', 'user-2')
+      events.itemsDeleted({ userId: 'user-1', householdId: 'household-1' }, ['item-1'])
+
+      expect(removed).toHaveBeenCalledTimes(1)
+      expect(removed).toHaveBeenCalledWith(formatServerSentEvent({ type: 'close' }))
+      expect(endRemoved).toHaveBeenCalled()
+      expect(endPartner).not.toHaveBeenCalled()
+      expect(partner).toHaveBeenCalledWith(formatServerSentEvent({ type: 'items_deleted', ids: ['item-1'] }))
+    })
+
+    it('should close every stream of a list without a user', () => {
+      const events = new ShoppingListEvents()
+      const ends = [jest.fn(), jest.fn()]
+      events.subscribe('household:household-1', 'user-1', jest.fn(), ends[0])
+      events.subscribe('household:household-1', 'user-2', jest.fn(), ends[1])
+
+      events.close('household:household-1')
+
+      expect(ends[0]).toHaveBeenCalled()
+      expect(ends[1]).toHaveBeenCalled()
+    })
+  })
+})
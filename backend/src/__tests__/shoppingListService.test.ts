@@ -0,0 +1,87 @@
+import { ShoppingListService, ShoppingListItem } from '../services/shoppingListService'
+
+function makeItem(overrides: Partial<ShoppingListItem>): ShoppingListItem {
+  return {
+    id: 'item-1',
+    userId: 'user-1',
+    ingredient: '200 g flour',
+    description: 'flour',
+    quantity: '200',
+    unit: 'gram',
+    category: 'PANTRY',
+    displayName: 'Flour',
+    isCompleted: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('ShoppingListService', () => {
+  describe('combineQuantities', () => {
+    it('should convert compatible units before adding', () => {
+      const result = ShoppingListService.combineQuantities(
+        makeItem({}),
+        { quantity: 1, unitOfMeasure: 'cup', unitOfMeasureID: 'cup', description: 'flour', originalText: '1 cup flour' }
+      )
+      expect(result).toEqual({ ingredient: '325 gram flour', quantity: '325', unit: 'gram' })
+    })
+
+    it('should not combine incompatible units', () => {
+      const result = ShoppingListService.combineQuantities(
+        makeItem({ ingredient: '2 cloves garlic', description: 'garlic', quantity: '2', unit: 'clove', displayName: 'Garlic' }),
+        { quantity: 10, unitOfMeasure: 'gram', unitOfMeasureID: 'gram', description: 'garlic', originalText: '10 g garlic' }
+      )
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('processIngredientsForAddition', () => {
+    it('should merge with an existing item across units', async () => {
+      const existing = makeItem({})
+      const result = await ShoppingListService.processIngredientsForAddition(['2 cups flour'], [existing])
+
+      expect(result.itemsToAdd).toHaveLength(0)
+      expect(result.itemsToUpdate).toEqual([
+        expect.objectContaining({ newQuantity: '451', newUnit: 'gram' })
+      ])
+    })
+
+    it('should merge repeated ingredients within one batch', async () => {
+      const result = await ShoppingListService.processIngredientsForAddition(
+        ['500 ml milk', '1 l milk', '2 eggs', '3 eggs'],
+        [],
+        1,
+        'metric'
+      )
+
+      expect(result.itemsToAdd).toHaveLength(2)
+      expect(result.itemsToAdd[0]).toMatchObject({ quantity: '1.5', unit: 'liter' })
+      expect(result.itemsToAdd[1]).toMatchObject({ quantity: '5', ingredient: '5 eggs' })
+    })
+
+    it('should point each new item at the ingredient that created it, even after merging', async () => {
+      const result = await ShoppingListService.processIngredientsForAddition(
+        ['2 eggs', '500 ml milk', '3 eggs'],
+        [],
+        1,
+        'metric'
+      )
+
+      expect(result.itemsToAdd.map(item => item.description)).toEqual(['eggs', 'milk'])
+      expect(result.addedFrom).toEqual([0, 1])
+    })
+
+    it('should use the imperial preference for merged quantities', async () => {
+      const result = await ShoppingListService.processIngredientsForAddition(
+        ['1 cup milk', '1 cup milk'],
+        [],
+        1,
+        'imperial'
+      )
+
+      expect(result.itemsToAdd).toHaveLength(1)
+      expect(result.itemsToAdd[0]).toMatchObject({ quantity: '2', unit: 'cup', ingredient: '2 cup milk' })
+    })
+  })
+})
@@ -79,4 +79,33 @@ describe('TagHelper', () => {
       expect(TagHelper.isValidTag('tag\\')).toBe(false)
     })
   })
+
+  describe('replaceTags', () => {
+    it('should rename a tag in place', () => {
+      expect(TagHelper.replaceTags(['Quick', 'Dinner', 'Italian'], ['dinner'], 'Supper')).toEqual(['Quick', 'Supper', 'Italian'])
+    })
+
+    it('should merge several tags into one without duplicates', () => {
+      expect(TagHelper.replaceTags(['Veggie', 'Quick', 'vegetarian'], ['Veggie', 'Vegetarian'], 'Vegetarian'))
+        .toEqual(['Vegetarian', 'Quick'])
+      expect(TagHelper.replaceTags(['Soup', 'Soups'], ['Soups'], 'Soup')).toEqual(['Soup'])
+    })
+
+    it('should remove tags when there is no replacement', () => {
+      expect(TagHelper.replaceTags(['Quick', 'Dinner'], ['quick'], null)).toEqual(['Dinner'])
+    })
+
+    it('should leave recipes without the tags unchanged', () => {
+      expect(TagHelper.replaceTags(['Dessert'], ['Dinner'], 'Supper')).toEqual(['Dessert'])
+    })
+  })
+
+  describe('countTags', () => {
+    it('should count recipes per normalized tag', () => {
+      expect(TagHelper.countTags([['dinner', 'Quick'], ['Dinner'], ['quick', 'QUICK'], []])).toEqual([
+        { name: 'Dinner', count: 2 },
+        { name: 'Quick', count: 2 }
+      ])
+    })
+  })
 })
\ No newline at end of file
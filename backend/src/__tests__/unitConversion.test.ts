@@ -0,0 +1,113 @@
+import {
+  resolveUnitId,
+  getIngredientDensity,
+  convertQuantity,
+  toPreferredUnit,
+  combineMeasurements,
+  isUnitSystem
+} from '../utils/unitConversion'
+
+describe('unitConversion', () => {
+  describe('resolveUnitId', () => {
+    it('should accept unit ids and common abbreviations', () => {
+      expect(resolveUnitId('gram')).toBe('gram')
+      expect(resolveUnitId('Tbsp.')).toBe('tablespoon')
+      expect(resolveUnitId('fl oz')).toBe('fluid ounce')
+      expect(resolveUnitId('clove')).toBe('clove')
+      expect(resolveUnitId('')).toBeNull()
+      expect(resolveUnitId(undefined)).toBeNull()
+    })
+  })
+
+  describe('getIngredientDensity', () => {
+    it('should prefer the most specific staple', () => {
+      expect(getIngredientDensity('all-purpose flour')).toBe(0.53)
+      expect(getIngredientDensity('Brown Sugar')).toBe(0.93)
+      expect(getIngredientDensity('extra virgin olive oil')).toBe(0.91)
+    })
+
+    it('should not match inside other words', () => {
+      expect(getIngredientDensity('buttermilk')).toBe(1.03)
+      expect(getIngredientDensity('unsalted butter')).toBe(0.96)
+      expect(getIngredientDensity('watermelon')).toBeNull()
+    })
+  })
+
+  describe('convertQuantity', () => {
+    it('should convert within a dimension', () => {
+      expect(convertQuantity(1, 'kilogram', 'gram')).toBe(1000)
+      expect(convertQuantity(3, 'teaspoon', 'tablespoon')).toBeCloseTo(1)
+      expect(convertQuantity(1, 'pound', 'ounce')).toBeCloseTo(16)
+    })
+
+    it('should convert volume to mass with a known density', () => {
+      expect(convertQuantity(1, 'cup', 'gram', 'flour')).toBeCloseTo(125.4, 1)
+      expect(convertQuantity(1, 'cup', 'gram', 'mystery powder')).toBeNull()
+    })
+
+    it('should refuse units without conversions', () => {
+      expect(convertQuantity(2, 'clove', 'gram', 'garlic')).toBeNull()
+    })
+  })
+
+  describe('toPreferredUnit', () => {
+    it('should pick readable metric units', () => {
+      expect(toPreferredUnit(1250, 'mass', 'metric')).toEqual({ quantity: 1.25, unitId: 'kilogram' })
+      expect(toPreferredUnit(250, 'volume', 'metric')).toEqual({ quantity: 250, unitId: 'milliliter' })
+    })
+
+    it('should pick readable imperial units', () => {
+      expect(toPreferredUnit(907.18474, 'mass', 'imperial')).toEqual({ quantity: 2, unitId: 'pound' })
+      expect(toPreferredUnit(473.176473, 'volume', 'imperial')).toEqual({ quantity: 2, unitId: 'cup' })
+      expect(toPreferredUnit(29.57353, 'volume', 'imperial')).toEqual({ quantity: 2, unitId: 'tablespoon' })
+    })
+  })
+
+  describe('combineMeasurements', () => {
+    it('should merge grams and cups of flour by weight', () => {
+      const result = combineMeasurements(
+        { quantity: 200, unitId: 'gram' },
+        { quantity: 1, unitId: 'cup' },
+        'flour',
+        'metric'
+      )
+      expect(result).toEqual({ quantity: 325, unitId: 'gram' })
+    })
+
+    it('should output the preferred system', () => {
+      const result = combineMeasurements(
+        { quantity: 250, unitId: 'milliliter' },
+        { quantity: 1, unitId: 'cup' },
+        'milk',
+        'imperial'
+      )
+      expect(result?.unitId).toBe('cup')
+      expect(result?.quantity).toBeCloseTo(2.06, 2)
+    })
+
+    it('should keep the unit when both measurements use it', () => {
+      expect(combineMeasurements({ quantity: 1, unitId: 'cup' }, { quantity: 0.5, unitId: 'cup' }, 'milk', 'metric'))
+        .toEqual({ quantity: 1.5, unitId: 'cup' })
+      expect(combineMeasurements({ quantity: 200, unitId: 'gram' }, { quantity: 100, unitId: 'gram' }, 'flour', 'imperial'))
+        .toEqual({ quantity: 300, unitId: 'gram' })
+    })
+
+    it('should add counts and matching non-convertible units', () => {
+      expect(combineMeasurements({ quantity: 2, unitId: null }, { quantity: 1, unitId: null }, 'onion')).toEqual({ quantity: 3, unitId: null })
+      expect(combineMeasurements({ quantity: 2, unitId: 'clove' }, { quantity: 3, unitId: 'clove' }, 'garlic')).toEqual({ quantity: 5, unitId: 'clove' })
+    })
+
+    it('should refuse incompatible units', () => {
+      expect(combineMeasurements({ quantity: 2, unitId: 'clove' }, { quantity: 10, unitId: 'gram' }, 'garlic')).toBeNull()
+      expect(combineMeasurements({ quantity: 1, unitId: 'cup' }, { quantity: 100, unitId: 'gram' }, 'mystery powder')).toBeNull()
+    })
+  })
+
+  describe('isUnitSystem', () => {
+    it('should validate unit systems', () => {
+      expect(isUnitSystem('metric')).toBe(true)
+      expect(isUnitSystem('imperial')).toBe(true)
+      expect(isUnitSystem('cubits')).toBe(false)
+    })
+  })
+})
@@ -56,6 +56,7 @@ passport.use(new GoogleStrategy({
       if (!user.google_id) {
         await userModel.linkGoogleAccount(user.id, googleId)
         user.google_id = googleId
+        user.email_verified_at = user.email_verified_at || new Date().toISOString()
       }
     } else {
       // Create new user with Google OAuth
@@ -72,6 +73,8 @@ passport.use(new GoogleStrategy({
         password_hash: '',
         household_id: null,
         default_translation_language: null,
+        unit_system: null,
+        email_verified_at: newUser.createdAt,
         created_at: newUser.createdAt,
         updated_at: newUser.updatedAt
       }
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { scrapeCacheModel } from '../models/scrapeCacheModel'
+import { scrapeHostStatsModel } from '../models/scrapeHostStatsModel'
+
+const MAX_HOSTS = 200
+
+export const adminController = {
+  // Hosts whose recipe pages fail to scrape most often, with their latest error
+  async getScraperHosts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const limit = req.query.limit ? Number(req.query.limit) : 50
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HOSTS) {
+        throw createError(`limit must be a whole number from 1 to ${MAX_HOSTS}`, 400)
+      }
+
+      const hosts = await scrapeHostStatsModel.findMostFailing(limit)
+      res.json({ hosts })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Forget cached scrapes, e.g. after a site fixed its markup or a scraper was improved
+  async clearScrapeCache(req: Request, res: Response, next: NextFunction) {
+    try {
+      const host = typeof req.query.host === 'string' && req.query.host.trim()
+        ? req.query.host.trim().toLowerCase().replace(/^www\./, '')
+        : undefined
+
+      const cleared = await scrapeCacheModel.clear(host)
+      res.json({ cleared })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -1,10 +1,13 @@
-import { Request, Response } from 'express'
+import { Request, Response, NextFunction } from 'express'
 import crypto from 'crypto'
 import passport from 'passport'
 import { userModel, mapUserRowToUser } from '../models/userModel'
 import { SUPPORTED_LANGUAGE_CODES } from '../config/languages'
-import { CreateUserRequest, LoginRequest } from '../types/user'
+import { CreateUserRequest, LoginRequest, User } from '../types/user'
 import { authService } from '../services/authService'
+import { createError } from '../middleware/errorHandler'
+import { isUnitSystem, UNIT_SYSTEMS } from '../utils/unitConversion'
+import { getFrontendUrl } from '../utils/authTokenHelper'
 
 // Extend Express session to include OAuth state and PKCE
 declare module 'express-session' {
@@ -14,6 +17,32 @@ declare module 'express-session' {
   }
 }
 
+function requireUser(req: Request): User {
+  const user = req.user as User | undefined
+  if (!user) {
+    throw createError('Not authenticated', 401)
+  }
+  return user
+}
+
+// Keep the session's copy of the user current after a change made through an emailed link
+function refreshSessionUser(req: Request, user: User): Promise<void> {
+  const sessionUser = req.user as User | undefined
+  if (!sessionUser || sessionUser.id !== user.id) {
+    return Promise.resolve()
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    req.login(user, (loginErr) => {
+      if (loginErr) {
+        reject(loginErr)
+      } else {
+        resolve()
+      }
+    })
+  })
+}
+
 export const authController = {
   // Register new user
   async register(req: Request, res: Response) {
@@ -31,6 +60,10 @@ export const authController = {
       // Register user using auth service
       const user = await authService.registerUser({ email, password, displayName })
 
+      authService.sendVerificationEmail(user).catch(error => {
+        console.error('Failed to send verification email after registration:', error)
+      })
+
       // Log the user in automatically
       req.login(user, (err) => {
         if (err) {
@@ -155,9 +188,7 @@ export const authController = {
 
   // Handle Google OAuth callback
   googleAuthCallback(req: Request, res: Response, next: any) {
-    const frontendUrl = process.env.NODE_ENV === 'production'
-      ? process.env.FRONTEND_URL?.split(',')[0]?.trim() || 'https://recipereaper.app'
-      : 'http://localhost:5173'
+    const frontendUrl = getFrontendUrl()
 
     // Validate OAuth state parameter to prevent CSRF attacks
     const { state } = req.query
@@ -271,5 +302,124 @@ export const authController = {
         error: { message: 'Failed to update translation preference' }
       })
     }
+  },
+
+  // Update user's measurement system preference (metric or imperial)
+  async updateUnitPreference(req: Request, res: Response) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        return res.status(401).json({
+          error: { message: 'Not authenticated' }
+        })
+      }
+
+      const { unitSystem } = req.body
+
+      if (!isUnitSystem(unitSystem)) {
+        return res.status(400).json({
+          error: { message: `unitSystem must be one of: ${UNIT_SYSTEMS.join(', ')}` }
+        })
+      }
+
+      await userModel.updateUnitSystem(user.id, unitSystem)
+
+      const updatedUser = await userModel.findById(user.id)
+      if (!updatedUser) {
+        return res.status(404).json({
+          error: { message: 'User not found' }
+        })
+      }
+
+      const sessionUser = mapUserRowToUser(updatedUser)
+
+      await new Promise<void>((resolve, reject) => {
+        req.login(sessionUser, (loginErr) => {
+          if (loginErr) {
+            reject(loginErr)
+          } else {
+            resolve()
+          }
+        })
+      })
+
+      res.json({
+        message: 'Unit preference updated successfully',
+        user: sessionUser
+      })
+    } catch (error) {
+      console.error('Update unit preference error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to update unit preference' }
+      })
+    }
+  },
+
+  // Email a password reset link; the reply is the same whether or not the address has an account
+  async forgotPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      await authService.requestPasswordReset(req.body?.email)
+      res.json({ message: 'If an account uses that email, we sent it a link to reset the password.' })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Set a new password from a reset link
+  async resetPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      await authService.resetPassword(req.body?.token, req.body?.password, req.sessionID)
+      res.json({ message: 'Your password was reset. You can now sign in with it.' })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Confirm the user's email address from a verification link
+  async verifyEmail(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await authService.verifyEmail(req.body?.token)
+      await refreshSessionUser(req, user)
+      res.json({ message: 'Your email address is verified.', user })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Send another verification link to the signed-in user
+  async resendVerification(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const sent = await authService.sendVerificationEmail(user)
+      if (!sent) {
+        throw createError('Your email address is already verified', 400)
+      }
+      res.json({ message: `We sent a verification link to ${user.email}.` })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Send a confirmation link to the address the signed-in user wants to switch to
+  async changeEmail(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const { newEmail, password } = req.body || {}
+      await authService.requestEmailChange(user, newEmail, password)
+      res.json({ message: `We sent a confirmation link to ${String(newEmail).toLowerCase().trim()}. Your email changes once you open it.` })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Switch the account to the address in an email change link
+  async confirmEmailChange(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = await authService.confirmEmailChange(req.body?.token)
+      await refreshSessionUser(req, user)
+      res.json({ message: `Your email address is now ${user.email}.`, user })
+    } catch (error) {
+      next(error)
+    }
   }
-}
\ No newline at end of file
+}
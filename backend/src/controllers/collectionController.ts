@@ -0,0 +1,221 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { collectionModel, CollectionData } from '../models/collectionModel'
+import { recipeModel } from '../models/recipeModel'
+import { authorizationService } from '../services/authorizationService'
+import { Collection, COLLECTION_VISIBILITIES } from '../types/collection'
+import { User } from '../types/user'
+import {
+  isValidVisibility,
+  mergeRecipeOrder,
+  orderByIds,
+  MAX_COLLECTION_NAME_LENGTH,
+  MAX_COLLECTION_DESCRIPTION_LENGTH
+} from '../utils/collectionHelper'
+
+function requireUser(req: Request): User {
+  const user = req.user as User | undefined
+  if (!user) {
+    throw createError('Authentication required', 401)
+  }
+  return user
+}
+
+/**
+ * Validate collection fields; fields left out of the body stay undefined so updates keep them
+ */
+function parseCollectionInput(body: Record<string, unknown> = {}): CollectionData {
+  const data: CollectionData = {}
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > MAX_COLLECTION_NAME_LENGTH) {
+      throw createError(`Name must be between 1 and ${MAX_COLLECTION_NAME_LENGTH} characters`, 400)
+    }
+    data.name = name
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      throw createError('Description must be text', 400)
+    }
+    const description = body.description?.trim() || null
+    if (description && description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      throw createError(`Description cannot be longer than ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters`, 400)
+    }
+    data.description = description
+  }
+
+  if (body.coverImage !== undefined) {
+    if (body.coverImage !== null && typeof body.coverImage !== 'string') {
+      throw createError('coverImage must be an image URL', 400)
+    }
+    data.coverImage = body.coverImage || null
+  }
+
+  if (body.visibility !== undefined) {
+    if (!isValidVisibility(body.visibility)) {
+      throw createError(`visibility must be one of: ${COLLECTION_VISIBILITIES.join(', ')}`, 400)
+    }
+    data.visibility = body.visibility
+  }
+
+  return data
+}
+
+// Unknown and hidden collections look the same so ids can't be probed
+async function getViewableCollection(user: User | undefined, id: string): Promise<Collection> {
+  const collection = await collectionModel.findById(id)
+  if (!collection || !(await authorizationService.canViewCollection(user, collection))) {
+    throw createError('Collection not found', 404)
+  }
+  return collection
+}
+
+async function getEditableCollection(user: User, id: string): Promise<Collection> {
+  const collection = await getViewableCollection(user, id)
+  if (!(await authorizationService.canEditCollection(user, collection))) {
+    throw createError('You do not have permission to change this collection', 403)
+  }
+  return collection
+}
+
+export const collectionController = {
+  // Collections the user can add recipes to; ?recipeId= marks the ones that already contain that recipe
+  async getCollections(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const recipeId = typeof req.query.recipeId === 'string' ? req.query.recipeId : undefined
+
+      const collections = await collectionModel.findEditable(user.id, user.householdId, recipeId)
+      // Household viewers see shared collections but cannot change them
+      const canEditShared = await authorizationService.canEditHouseholdContent(user)
+      res.json({
+        collections: collections.map(collection => ({ ...collection, canEdit: collection.userId === user.id || canEditShared }))
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // The collection with the recipes the user may see, in the collection's order; public collections need no sign-in
+  async getCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const collection = await getViewableCollection(user, req.params.id)
+      const canEdit = user ? await authorizationService.canEditCollection(user, collection) : false
+
+      const recipeIds = await collectionModel.getRecipeIds(collection.id)
+      const recipes = await recipeModel.findViewableByIds(recipeIds, user?.id, user?.householdId)
+
+      res.json({
+        collection: { ...collection, canEdit },
+        recipes: orderByIds(recipes, recipeIds)
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async createCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const data = parseCollectionInput(req.body)
+      if (!data.name) {
+        throw createError('Name is required', 400)
+      }
+
+      const collection = await collectionModel.create(user.id, user.householdId, { ...data, name: data.name })
+      res.status(201).json({ collection: { ...collection, canEdit: true } })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // The household can edit shared collections, but only the owner decides who sees them
+  async updateCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const existing = await getEditableCollection(user, req.params.id)
+      const data = parseCollectionInput(req.body)
+
+      if (data.visibility !== undefined && data.visibility !== existing.visibility && existing.userId !== user.id) {
+        throw createError('Only the owner can change who sees this collection', 403)
+      }
+
+      const collection = await collectionModel.update(existing.id, data)
+      res.json({ collection: { ...collection, canEdit: true } })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteCollection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const existing = await getEditableCollection(user, req.params.id)
+      if (existing.userId !== user.id) {
+        throw createError('Only the owner can delete this collection', 403)
+      }
+
+      await collectionModel.delete(existing.id)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async addRecipe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const collection = await getEditableCollection(user, req.params.id)
+      const { recipeId } = req.body || {}
+
+      if (!recipeId || typeof recipeId !== 'string') {
+        throw createError('recipeId is required', 400)
+      }
+
+      const [recipe] = await recipeModel.findViewableByIds([recipeId], user.id, user.householdId)
+      if (!recipe) {
+        throw createError('Recipe not found', 404)
+      }
+
+      await collectionModel.addRecipe(collection.id, recipe.id, user.id)
+      res.status(201).json({ collection: await collectionModel.findById(collection.id) })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async removeRecipe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const collection = await getEditableCollection(user, req.params.id)
+
+      await collectionModel.removeRecipe(collection.id, req.params.recipeId)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // The body lists the recipes in their new order
+  async reorderRecipes(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const collection = await getEditableCollection(user, req.params.id)
+      const { recipeIds } = req.body || {}
+
+      const currentIds = await collectionModel.getRecipeIds(collection.id)
+      const order = mergeRecipeOrder(currentIds, recipeIds)
+      if (!order) {
+        throw createError('recipeIds must list recipes in the collection, each once', 400)
+      }
+
+      await collectionModel.reorder(collection.id, order)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { recipeModel } from '../models/recipeModel'
+import { exportService } from '../services/exportService'
+import { cookbookService } from '../services/cookbookService'
+import { slugify } from '../utils/recipeExportFormats'
+import { User } from '../types/user'
+
+const MAX_COOKBOOK_RECIPES = 200
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : []
+}
+
+export const exportController = {
+  // Streams a zip with every recipe the user owns (and the household's with ?includeHousehold=true)
+  async exportAccount(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const includeHousehold = req.query.includeHousehold === 'true' && !!user.householdId
+      const recipes = await recipeModel.findForExport(user.id, includeHousehold ? user.householdId : undefined)
+
+      const archive = await exportService.buildArchive(
+        recipes,
+        { id: user.id, email: user.email, displayName: user.displayName },
+        includeHousehold
+      )
+
+      const date = new Date().toISOString().slice(0, 10)
+      res.setHeader('Content-Type', 'application/zip')
+      res.setHeader('Content-Disposition', `attachment; filename="recipe-reaper-export-${date}.zip"`)
+      res.setHeader('Content-Length', archive.length)
+      res.send(archive)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Builds a PDF cookbook from selected recipe ids, or from the user's and household's recipes with any of the tags
+  async createCookbook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const recipeIds = toStringList(req.body?.recipeIds)
+      const tags = toStringList(req.body?.tags).map(tag => tag.toLowerCase())
+      if (recipeIds.length === 0 && tags.length === 0) {
+        throw createError('Select recipes or tags for the cookbook', 400)
+      }
+
+      const recipes = recipeIds.length > 0
+        ? await recipeModel.findViewableByIds([...new Set(recipeIds)], user.id, user.householdId)
+        : (await recipeModel.findForExport(user.id, user.householdId))
+          .filter(recipe => recipe.tags?.some(tag => tags.includes(tag.toLowerCase())))
+
+      if (recipes.length === 0) {
+        throw createError('No recipes found for the cookbook', 404)
+      }
+      if (recipes.length > MAX_COOKBOOK_RECIPES) {
+        throw createError(`A cookbook can contain at most ${MAX_COOKBOOK_RECIPES} recipes`, 400)
+      }
+
+      const title = typeof req.body?.title === 'string' && req.body.title.trim()
+        ? req.body.title.trim().slice(0, 120)
+        : `${user.displayName}'s Cookbook`
+      const subtitle = typeof req.body?.subtitle === 'string' && req.body.subtitle.trim()
+        ? req.body.subtitle.trim().slice(0, 200)
+        : undefined
+
+      const pdf = await cookbookService.buildCookbook(recipes, { title, subtitle, author: user.displayName })
+
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader('Content-Disposition', `attachment; filename="${slugify(title)}.pdf"`)
+      res.setHeader('Content-Length', pdf.length)
+      res.send(pdf)
+    } catch (error) {
+      next(error)
+    }
+  }
+}
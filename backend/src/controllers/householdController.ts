@@ -1,10 +1,29 @@
 import { Request, Response } from 'express'
 import { householdModel } from '../models/householdModel'
-import { CreateHouseholdRequest, JoinHouseholdRequest } from '../types/household'
+import { householdInvitationModel } from '../models/householdInvitationModel'
+import { userModel } from '../models/userModel'
+import { mailService } from '../services/mailService'
+import { getShoppingListScope, shoppingListEvents } from '../services/shoppingListEvents'
+import {
+  CreateHouseholdRequest,
+  JoinHouseholdRequest,
+  SetActiveHouseholdRequest,
+  TransferHouseholdOwnershipRequest,
+  UpdateHouseholdMemberRoleRequest
+} from '../types/household'
 import { User } from '../types/user'
+import { canAssignRole, canInviteWithRole, canManageMembers, canRemoveMember, isHouseholdRole } from '../utils/householdRoles'
+import { buildInvitationLink, parseInvitationOptions } from '../utils/householdInvitations'
+import { generateAuthToken, hashAuthToken, isAuthTokenFormat } from '../utils/authTokenHelper'
+import { buildHouseholdInvitationEmail } from '../utils/authEmails'
+
+// Open shopping list streams show the active household's list, so they close once the user moves to another one
+function closeShoppingListStreams(user: User): void {
+  shoppingListEvents.close(getShoppingListScope({ userId: user.id, householdId: user.householdId }), user.id)
+}
 
 export const householdController = {
-  // Create new household
+  // Create new household and make it the active one
   async create(req: Request, res: Response) {
     try {
       if (!req.user) {
@@ -22,14 +41,8 @@ export const householdController = {
         })
       }
 
-      // Check if user is already in a household
-      if (user.householdId) {
-        return res.status(400).json({
-          error: { message: 'You are already a member of a household. Leave your current household first.' }
-        })
-      }
-
       const household = await householdModel.create({ name }, user.id)
+      closeShoppingListStreams(user)
 
       res.status(201).json({
         message: 'Household created successfully',
@@ -43,7 +56,7 @@ export const householdController = {
     }
   },
 
-  // Join household by invite code
+  // Join household by invite code and make it the active one
   async join(req: Request, res: Response) {
     try {
       if (!req.user) {
@@ -61,13 +74,6 @@ export const householdController = {
         })
       }
 
-      // Check if user is already in a household
-      if (user.householdId) {
-        return res.status(400).json({
-          error: { message: 'You are already a member of a household. Leave your current household first.' }
-        })
-      }
-
       // Find household by invite code
       const household = await householdModel.findByInviteCode(inviteCode.trim().toUpperCase())
       if (!household) {
@@ -76,8 +82,15 @@ export const householdController = {
         })
       }
 
+      if (await householdModel.findMember(household.id, user.id)) {
+        return res.status(400).json({
+          error: { message: 'You are already a member of this household' }
+        })
+      }
+
       // Add user to household
       await householdModel.addMember(household.id, user.id)
+      closeShoppingListStreams(user)
 
       // Get household with members
       const householdWithMembers = await householdModel.getWithMembers(household.id)
@@ -94,7 +107,7 @@ export const householdController = {
     }
   },
 
-  // Leave household
+  // Leave the active household (the owner must hand over ownership first unless they are the last member)
   async leave(req: Request, res: Response) {
     try {
       if (!req.user) {
@@ -111,7 +124,25 @@ export const householdController = {
         })
       }
 
-      await householdModel.removeMember(user.id)
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (role === 'owner') {
+        const memberCount = await householdModel.countMembers(user.householdId)
+        if (memberCount > 1) {
+          return res.status(400).json({
+            error: { message: 'Transfer ownership to another member before leaving, or delete the household' }
+          })
+        }
+
+        // Nobody would be left to manage it
+        await householdModel.delete(user.householdId)
+        closeShoppingListStreams(user)
+        return res.json({
+          message: 'Successfully left household'
+        })
+      }
+
+      await householdModel.removeMember(user.householdId, user.id)
+      closeShoppingListStreams(user)
 
       res.json({
         message: 'Successfully left household'
@@ -124,7 +155,74 @@ export const householdController = {
     }
   },
 
-  // Get current user's household info
+  // List every household the user belongs to
+  async list(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const households = await householdModel.findForUser(user.id)
+
+      res.json({
+        households,
+        activeHouseholdId: user.householdId || null
+      })
+    } catch (error) {
+      console.error('List households error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to list households' }
+      })
+    }
+  },
+
+  // Switch the household that recipes, shopping lists and meal plans are shared with
+  async setActive(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const { householdId }: SetActiveHouseholdRequest = req.body
+
+      if (!householdId || typeof householdId !== 'string') {
+        return res.status(400).json({
+          error: { message: 'Household is required' }
+        })
+      }
+
+      if (!(await householdModel.findMember(householdId, user.id))) {
+        return res.status(404).json({
+          error: { message: 'You are not a member of that household' }
+        })
+      }
+
+      await userModel.updateHousehold(user.id, householdId)
+      if (householdId !== user.householdId) {
+        closeShoppingListStreams(user)
+      }
+
+      const household = await householdModel.getWithMembers(householdId)
+
+      res.json({
+        message: 'Active household switched successfully',
+        household
+      })
+    } catch (error) {
+      console.error('Switch household error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to switch household' }
+      })
+    }
+  },
+
+  // Get current user's active household info
   async getCurrent(req: Request, res: Response) {
     try {
       if (!req.user) {
@@ -150,7 +248,7 @@ export const householdController = {
     }
   },
 
-  // Regenerate invite code (household owner only)
+  // Regenerate invite code (household owner and admins only)
   async regenerateInviteCode(req: Request, res: Response) {
     try {
       if (!req.user) {
@@ -174,10 +272,10 @@ export const householdController = {
         })
       }
 
-      // Check if user is the owner
-      if (household.created_by !== user.id) {
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!canManageMembers(role)) {
         return res.status(403).json({
-          error: { message: 'Only the household owner can regenerate the invite code' }
+          error: { message: 'Only the household owner and admins can regenerate the invite code' }
         })
       }
 
@@ -193,5 +291,488 @@ export const householdController = {
         error: { message: 'Failed to regenerate invite code' }
       })
     }
+  },
+
+  // Remove another member from the household (owner and admins only)
+  async removeMember(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const memberId = req.params.userId as string
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      if (memberId === user.id) {
+        return res.status(400).json({
+          error: { message: 'You cannot remove yourself. Leave the household instead.' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!role || !canManageMembers(role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner and admins can remove members' }
+        })
+      }
+
+      const member = await householdModel.findMember(user.householdId, memberId)
+      if (!member) {
+        return res.status(404).json({
+          error: { message: 'Member not found in this household' }
+        })
+      }
+
+      if (!canRemoveMember(role, member.role)) {
+        return res.status(403).json({
+          error: { message: `You do not have permission to remove this ${member.role}` }
+        })
+      }
+
+      await householdModel.removeMember(user.householdId, memberId)
+      shoppingListEvents.close(getShoppingListScope({ userId: memberId, householdId: user.householdId }), memberId)
+
+      const household = await householdModel.getWithMembers(user.householdId)
+
+      res.json({
+        message: 'Member removed successfully',
+        household
+      })
+    } catch (error) {
+      console.error('Remove household member error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to remove member' }
+      })
+    }
+  },
+
+  // Change another member's role (owner and admins only; ownership moves by transfer)
+  async updateMemberRole(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const memberId = req.params.userId as string
+      const { role: newRole }: UpdateHouseholdMemberRoleRequest = req.body
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      if (!isHouseholdRole(newRole)) {
+        return res.status(400).json({
+          error: { message: 'Role must be one of admin, member or viewer' }
+        })
+      }
+
+      if (newRole === 'owner') {
+        return res.status(400).json({
+          error: { message: 'Transfer ownership to make someone the household owner' }
+        })
+      }
+
+      if (memberId === user.id) {
+        return res.status(400).json({
+          error: { message: 'You cannot change your own role' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!role || !canManageMembers(role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner and admins can change roles' }
+        })
+      }
+
+      const member = await householdModel.findMember(user.householdId, memberId)
+      if (!member) {
+        return res.status(404).json({
+          error: { message: 'Member not found in this household' }
+        })
+      }
+
+      if (!canAssignRole(role, member.role, newRole)) {
+        return res.status(403).json({
+          error: { message: 'You do not have permission to give this member that role' }
+        })
+      }
+
+      await householdModel.updateMemberRole(user.householdId, memberId, newRole)
+
+      const household = await householdModel.getWithMembers(user.householdId)
+
+      res.json({
+        message: 'Member role updated successfully',
+        household
+      })
+    } catch (error) {
+      console.error('Update household member role error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to update member role' }
+      })
+    }
+  },
+
+  // Hand ownership to another member; the previous owner becomes an admin (household owner only)
+  async transferOwnership(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const { userId }: TransferHouseholdOwnershipRequest = req.body
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({
+          error: { message: 'New owner is required' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (role !== 'owner') {
+        return res.status(403).json({
+          error: { message: 'Only the household owner can transfer ownership' }
+        })
+      }
+
+      if (userId === user.id) {
+        return res.status(400).json({
+          error: { message: 'You already own this household' }
+        })
+      }
+
+      const member = await householdModel.findMember(user.householdId, userId)
+      if (!member) {
+        return res.status(404).json({
+          error: { message: 'Member not found in this household' }
+        })
+      }
+
+      await householdModel.transferOwnership(user.householdId, user.id, userId)
+
+      const household = await householdModel.getWithMembers(user.householdId)
+
+      res.json({
+        message: 'Ownership transferred successfully',
+        household
+      })
+    } catch (error) {
+      console.error('Transfer household ownership error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to transfer ownership' }
+      })
+    }
+  },
+
+  // Delete the household; shared recipes and lists go back to the members who created them (household owner only)
+  async delete(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (role !== 'owner') {
+        return res.status(403).json({
+          error: { message: 'Only the household owner can delete the household' }
+        })
+      }
+
+      await householdModel.delete(user.householdId)
+      shoppingListEvents.close(getShoppingListScope({ userId: user.id, householdId: user.householdId }))
+
+      res.json({
+        message: 'Household deleted successfully'
+      })
+    } catch (error) {
+      console.error('Delete household error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to delete household' }
+      })
+    }
+  },
+
+  // List the active household's invitations, including expired and revoked ones (owner and admins only)
+  async listInvitations(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!canManageMembers(role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner and admins can manage invitations' }
+        })
+      }
+
+      const invitations = await householdInvitationModel.findByHousehold(user.householdId)
+
+      res.json({ invitations })
+    } catch (error) {
+      console.error('List household invitations error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to load invitations' }
+      })
+    }
+  },
+
+  // Create an invite link for the active household; the token is only returned here (owner and admins only)
+  async createInvitation(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      const parsed = parseInvitationOptions(req.body || {})
+      if ('error' in parsed) {
+        return res.status(400).json({
+          error: { message: parsed.error }
+        })
+      }
+      const { options } = parsed
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!canManageMembers(role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner and admins can create invitations' }
+        })
+      }
+      if (!canInviteWithRole(role, options.role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner can invite admins' }
+        })
+      }
+
+      const household = await householdModel.findById(user.householdId)
+      if (!household) {
+        return res.status(404).json({
+          error: { message: 'Household not found' }
+        })
+      }
+
+      const { token, tokenHash } = generateAuthToken()
+      const invitation = await householdInvitationModel.create({
+        householdId: household.id,
+        createdBy: user.id,
+        tokenHash,
+        ...options
+      })
+      const url = buildInvitationLink(token)
+
+      if (options.email) {
+        mailService.send(buildHouseholdInvitationEmail(options.email, user.displayName, household.name, url, options.expiresAt)).catch(error => {
+          console.error('Failed to send household invitation email:', error)
+        })
+      }
+
+      res.status(201).json({
+        message: 'Invitation created successfully',
+        invitation,
+        token,
+        url
+      })
+    } catch (error) {
+      console.error('Create household invitation error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to create invitation' }
+      })
+    }
+  },
+
+  // Revoke an invitation so its link stops working (owner and admins only)
+  async revokeInvitation(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+
+      if (!user.householdId) {
+        return res.status(400).json({
+          error: { message: 'You are not a member of any household' }
+        })
+      }
+
+      const role = await householdModel.getMemberRole(user.householdId, user.id)
+      if (!canManageMembers(role)) {
+        return res.status(403).json({
+          error: { message: 'Only the household owner and admins can revoke invitations' }
+        })
+      }
+
+      const revoked = await householdInvitationModel.revoke(req.params.id as string, user.householdId)
+      if (!revoked) {
+        return res.status(404).json({
+          error: { message: 'Invitation not found or already revoked' }
+        })
+      }
+
+      res.json({
+        message: 'Invitation revoked successfully'
+      })
+    } catch (error) {
+      console.error('Revoke household invitation error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to revoke invitation' }
+      })
+    }
+  },
+
+  // Show who invited the user to which household before they accept
+  async previewInvitation(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const { token } = req.params
+
+      const invitation = isAuthTokenFormat(token)
+        ? await householdInvitationModel.findByTokenHash(hashAuthToken(token))
+        : null
+      const household = invitation ? await householdModel.findById(invitation.householdId) : null
+      if (!invitation || !household) {
+        return res.status(404).json({
+          error: { message: 'This invitation link is invalid' }
+        })
+      }
+
+      const inviter = await userModel.findById(invitation.createdBy)
+
+      res.json({
+        invitation: {
+          householdName: household.name,
+          invitedBy: inviter?.display_name || 'A household member',
+          role: invitation.role,
+          status: invitation.status,
+          emailRestricted: !!invitation.email,
+          expiresAt: invitation.expiresAt
+        },
+        alreadyMember: !!(await householdModel.findMember(household.id, user.id))
+      })
+    } catch (error) {
+      console.error('Preview household invitation error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to load invitation' }
+      })
+    }
+  },
+
+  // Join a household through an invite link with the invitation's role and make it the active one
+  async acceptInvitation(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          error: { message: 'Authentication required' }
+        })
+      }
+
+      const user = req.user as User
+      const { token } = req.params
+
+      const invitation = isAuthTokenFormat(token)
+        ? await householdInvitationModel.findByTokenHash(hashAuthToken(token))
+        : null
+      if (!invitation) {
+        return res.status(404).json({
+          error: { message: 'This invitation link is invalid' }
+        })
+      }
+
+      if (await householdModel.findMember(invitation.householdId, user.id)) {
+        return res.status(400).json({
+          error: { message: 'You are already a member of this household' }
+        })
+      }
+
+      if (invitation.email && (invitation.email !== user.email.toLowerCase() || !user.emailVerified)) {
+        return res.status(403).json({
+          error: { message: 'This invitation is for a different email address. Sign in with that address and confirm it to accept.' }
+        })
+      }
+
+      // Counting the use checks expiry, revocation and the use limit in one step
+      const used = await householdInvitationModel.use(invitation.id)
+      if (!used) {
+        return res.status(410).json({
+          error: { message: 'This invitation has expired, been revoked or already been used' }
+        })
+      }
+
+      await householdModel.addMember(invitation.householdId, user.id, invitation.role)
+      closeShoppingListStreams(user)
+
+      const household = await householdModel.getWithMembers(invitation.householdId)
+
+      res.json({
+        message: 'Successfully joined household',
+        household
+      })
+    } catch (error) {
+      console.error('Accept household invitation error:', error)
+      res.status(500).json({
+        error: { message: 'Failed to accept invitation' }
+      })
+    }
   }
-}
\ No newline at end of file
+}
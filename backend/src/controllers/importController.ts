@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { recipeImportJobModel } from '../models/recipeImportJobModel'
+import { recipeImportService } from '../services/recipeImportService'
+import { User } from '../types/user'
+import { isSupportedLanguage, SUPPORTED_LANGUAGE_CODES } from '../utils/languageHelper'
+
+const DEFAULT_IMPORT_LANGUAGE = 'en'
+
+export const importController = {
+  // Starts the import in the background and answers with the job to poll
+  async createImport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+      if (!req.file) {
+        throw createError('An export file is required (.paprikarecipes, .zip, .json or .html)', 400)
+      }
+
+      const requestedLanguage = typeof req.body.language === 'string' ? req.body.language.trim().toLowerCase() : ''
+      if (requestedLanguage && !isSupportedLanguage(requestedLanguage)) {
+        throw createError(`Unsupported language. Supported codes: ${SUPPORTED_LANGUAGE_CODES.join(', ')}`, 400)
+      }
+
+      const language = requestedLanguage || user.defaultTranslationLanguage || DEFAULT_IMPORT_LANGUAGE
+      const isPublic = req.body.isPublic === 'true' || req.body.isPublic === true
+
+      const job = await recipeImportJobModel.create({
+        userId: user.id,
+        householdId: user.householdId,
+        filename: req.file.originalname
+      })
+
+      recipeImportService
+        .runJob(job.id, { buffer: req.file.buffer, filename: req.file.originalname }, user, { language, isPublic })
+        .catch(error => console.error(`Recipe import ${job.id} crashed:`, error))
+
+      res.status(202).json({ job })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getImports(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const jobs = await recipeImportJobModel.findRecent(user.id)
+      res.json({ jobs })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getImport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const job = await recipeImportJobModel.findById(req.params.id, user.id)
+      if (!job) {
+        throw createError('Import not found', 404)
+      }
+
+      res.json({ job })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { importJobModel } from '../models/importJobModel'
+import { importJobQueue } from '../services/importJobQueue'
+import { IMPORT_JOB_TYPES, ImportJobInput, ImportJobType } from '../types/importJob'
+import { User } from '../types/user'
+import { MAX_ACTIVE_IMPORT_JOBS } from '../utils/importJobHelper'
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+export const importJobController = {
+  // Queues a URL, text or photo import and answers with the job to poll
+  async createImportJob(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const type = req.body.type as ImportJobType
+      if (!IMPORT_JOB_TYPES.includes(type)) {
+        throw createError(`Import type must be one of: ${IMPORT_JOB_TYPES.join(', ')}`, 400)
+      }
+
+      const input: ImportJobInput = {
+        targetLanguage: optionalString(req.body.targetLanguage),
+        additionalContext: optionalString(req.body.additionalContext)
+      }
+
+      if (type === 'url') {
+        input.url = optionalString(req.body.url)
+        if (!input.url) {
+          throw createError('URL is required', 400)
+        }
+        try {
+          new URL(input.url)
+        } catch {
+          throw createError('Invalid URL format', 400)
+        }
+      } else if (type === 'text') {
+        input.text = optionalString(req.body.text)
+        if (!input.text) {
+          throw createError('Recipe text is required', 400)
+        }
+      } else if (!req.file) {
+        throw createError('Image file is required', 400)
+      } else {
+        input.filename = req.file.originalname
+      }
+
+      const activeJobs = await importJobModel.countActive(user.id)
+      if (activeJobs >= MAX_ACTIVE_IMPORT_JOBS) {
+        throw createError(`You already have ${MAX_ACTIVE_IMPORT_JOBS} imports in progress. Please wait for some to finish.`, 429)
+      }
+
+      const job = await importJobQueue.enqueue(user.id, type, input, type === 'image' ? req.file?.buffer : undefined)
+      res.status(202).json({ job })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getImportJobs(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const jobs = await importJobModel.findRecent(user.id)
+      res.json({ jobs })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getImportJob(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const job = await importJobModel.findById(req.params.id, user.id)
+      if (!job) {
+        throw createError('Import not found', 404)
+      }
+
+      res.json({ job })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteImportJob(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const job = await importJobModel.findById(req.params.id, user.id)
+      if (!job) {
+        throw createError('Import not found', 404)
+      }
+
+      const deleted = await importJobModel.delete(job.id, user.id)
+      if (!deleted) {
+        throw createError('This import is running and cannot be removed until it finishes', 409)
+      }
+
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
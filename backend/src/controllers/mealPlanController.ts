@@ -0,0 +1,229 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { mealPlanModel } from '../models/mealPlanModel'
+import { recipeModel } from '../models/recipeModel'
+import { shoppingListModel } from '../models/shoppingListModel'
+import { ShoppingListService } from '../services/shoppingListService'
+import { shoppingListEvents } from '../services/shoppingListEvents'
+import { authorizationService } from '../services/authorizationService'
+import { CreateMealPlanRequest, UpdateMealPlanRequest, MEAL_SLOTS, MealSlot } from '../types/mealPlan'
+import { Recipe } from '../types/recipe'
+import { User } from '../types/user'
+import {
+  isValidPlanDate,
+  getWeekRange,
+  countDays,
+  collectPlannedIngredients,
+  MAX_PLAN_RANGE_DAYS
+} from '../utils/mealPlanHelper'
+
+function isValidMealSlot(value: unknown): value is MealSlot {
+  return typeof value === 'string' && (MEAL_SLOTS as readonly string[]).includes(value)
+}
+
+function validateServings(value: unknown): void {
+  if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 100)) {
+    throw createError('servings must be a whole number between 1 and 100', 400)
+  }
+}
+
+/**
+ * Resolve the requested date range, defaulting to the current week
+ */
+function resolveRange(start: unknown, end: unknown): { start: string; end: string } {
+  if (start === undefined && end === undefined) {
+    return getWeekRange(new Date().toISOString().slice(0, 10))
+  }
+
+  if (!isValidPlanDate(start) || !isValidPlanDate(end)) {
+    throw createError('start and end must be dates in YYYY-MM-DD format', 400)
+  }
+
+  const days = countDays(start, end)
+  if (days === 0) {
+    throw createError('end must not be before start', 400)
+  }
+  if (days > MAX_PLAN_RANGE_DAYS) {
+    throw createError(`Date range cannot exceed ${MAX_PLAN_RANGE_DAYS} days`, 400)
+  }
+
+  return { start, end }
+}
+
+export const mealPlanController = {
+  async getMealPlans(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const range = resolveRange(req.query.start, req.query.end)
+      const entries = await mealPlanModel.findInRange(user.id, user.householdId, range.start, range.end)
+
+      res.json({ ...range, entries })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async createMealPlan(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { date, mealSlot, recipeId, servings }: CreateMealPlanRequest = req.body
+
+      if (!isValidPlanDate(date)) {
+        throw createError('date must be in YYYY-MM-DD format', 400)
+      }
+      if (!isValidMealSlot(mealSlot)) {
+        throw createError(`mealSlot must be one of: ${MEAL_SLOTS.join(', ')}`, 400)
+      }
+      if (!recipeId || typeof recipeId !== 'string') {
+        throw createError('recipeId is required', 400)
+      }
+      validateServings(servings)
+
+      // Planning leaves the recipe unchanged, so household viewers may plan whatever they can see
+      const recipe = await recipeModel.findById(recipeId, user.id, user.householdId)
+      if (!recipe || !(await authorizationService.canViewRecipe(user, recipe))) {
+        throw createError('Recipe not found', 404)
+      }
+
+      const id = await mealPlanModel.create({
+        userId: user.id,
+        householdId: user.householdId,
+        date,
+        mealSlot,
+        recipeId,
+        servings: servings ?? undefined
+      })
+
+      const entry = await mealPlanModel.findById(id, user.id, user.householdId)
+      res.status(201).json(entry)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async updateMealPlan(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { id } = req.params
+      const existing = await mealPlanModel.findById(id, user.id, user.householdId)
+      if (!existing) {
+        throw createError('Meal plan entry not found', 404)
+      }
+
+      const { date, mealSlot, servings }: UpdateMealPlanRequest = req.body
+
+      if (date !== undefined && !isValidPlanDate(date)) {
+        throw createError('date must be in YYYY-MM-DD format', 400)
+      }
+      if (mealSlot !== undefined && !isValidMealSlot(mealSlot)) {
+        throw createError(`mealSlot must be one of: ${MEAL_SLOTS.join(', ')}`, 400)
+      }
+      validateServings(servings)
+
+      await mealPlanModel.update(id, { date, mealSlot, servings })
+      const entry = await mealPlanModel.findById(id, user.id, user.householdId)
+      res.json(entry)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteMealPlan(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { id } = req.params
+      const existing = await mealPlanModel.findById(id, user.id, user.householdId)
+      if (!existing) {
+        throw createError('Meal plan entry not found', 404)
+      }
+
+      await mealPlanModel.delete(id)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async generateShoppingList(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const range = resolveRange(req.body?.start, req.body?.end)
+      const entries = await mealPlanModel.findInRange(user.id, user.householdId, range.start, range.end)
+
+      if (entries.length === 0) {
+        throw createError('No meals planned for this period', 400)
+      }
+
+      const recipes = new Map<string, Recipe>()
+      for (const recipeId of new Set(entries.map(entry => entry.recipeId))) {
+        const recipe = await recipeModel.findById(recipeId, user.id, user.householdId)
+        if (recipe && await authorizationService.canViewRecipe(user, recipe)) {
+          recipes.set(recipeId, recipe)
+        }
+      }
+
+      const planned = collectPlannedIngredients(entries, recipes)
+      const existingItems = await shoppingListModel.findAll(user.id, user.householdId)
+
+      // Ingredients are already scaled per entry, so the whole week goes through in one batch
+      const result = await ShoppingListService.processIngredientsForAddition(
+        planned.map(item => item.ingredient),
+        existingItems,
+        1,
+        user.unitSystem
+      )
+
+      // Items merged within the batch keep the recipe of the first ingredient that created them
+      result.itemsToAdd.forEach((item, i) => {
+        const source = planned[result.addedFrom[i]]
+        item.recipeId = source?.recipeId
+        item.recipeName = source?.recipeName
+      })
+
+      const { added, updated } = await shoppingListModel.applyAdditions(result, {
+        userId: user.id,
+        householdId: user.householdId
+      })
+      shoppingListEvents.itemsChanged({ userId: user.id, householdId: user.householdId }, [...added, ...updated])
+
+      let message = `Added ${added.length} item(s) from ${recipes.size} planned recipe(s)`
+      if (updated.length > 0) {
+        message += `, updated ${updated.length} item(s)`
+      }
+      if (result.skippedCount > 0) {
+        message += `, skipped ${result.skippedCount} duplicate(s)`
+      }
+
+      res.status(201).json({
+        message,
+        items: [...added, ...updated],
+        totalRequested: planned.length,
+        added: added.length,
+        updated: updated.length,
+        skipped: result.skippedCount
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { pantryModel } from '../models/pantryModel'
+import { recipeModel } from '../models/recipeModel'
+import { pantryService } from '../services/pantryService'
+import { CreatePantryItemRequest, UpdatePantryItemRequest } from '../types/pantry'
+import { User } from '../types/user'
+
+const MAX_NAME_LENGTH = 200
+const MAX_FIELD_LENGTH = 50
+const DEFAULT_MATCH_LIMIT = 50
+
+function validateOptionalField(value: unknown, field: string): string | null | undefined {
+  if (value === undefined || value === null) return value
+  if (typeof value !== 'string' || value.length > MAX_FIELD_LENGTH) {
+    throw createError(`${field} must be a string with maximum length ${MAX_FIELD_LENGTH}`, 400)
+  }
+  return value.trim() || null
+}
+
+export const pantryController = {
+  async getPantry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const items = await pantryModel.findAll(user.id, user.householdId)
+      res.json(items)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async addPantryItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { name, quantity, unit }: CreatePantryItemRequest = req.body
+      if (!name || typeof name !== 'string' || !name.trim()) {
+        throw createError('name is required', 400)
+      }
+      if (name.length > MAX_NAME_LENGTH) {
+        throw createError(`name cannot be longer than ${MAX_NAME_LENGTH} characters`, 400)
+      }
+
+      const normalized = pantryService.normalizeItem(name)
+
+      // The pantry tracks availability, so adding an item twice keeps the existing entry
+      const existing = await pantryModel.findByDisplayName(normalized.displayName, user.id, user.householdId)
+      if (existing) {
+        return res.json(existing)
+      }
+
+      const item = await pantryModel.create({
+        userId: user.id,
+        householdId: user.householdId,
+        name: normalized.name,
+        displayName: normalized.displayName,
+        category: normalized.category,
+        quantity: validateOptionalField(quantity, 'quantity') || undefined,
+        unit: validateOptionalField(unit, 'unit') || undefined
+      })
+
+      res.status(201).json(item)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async updatePantryItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { id } = req.params
+      const existing = await pantryModel.findById(id, user.id, user.householdId)
+      if (!existing) {
+        throw createError('Pantry item not found', 404)
+      }
+
+      const { name, quantity, unit }: UpdatePantryItemRequest = req.body
+      const updates: Parameters<typeof pantryModel.update>[1] = {
+        quantity: validateOptionalField(quantity, 'quantity'),
+        unit: validateOptionalField(unit, 'unit')
+      }
+
+      if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+          throw createError(`name must be a non-empty string with maximum length ${MAX_NAME_LENGTH}`, 400)
+        }
+        Object.assign(updates, pantryService.normalizeItem(name))
+      }
+
+      await pantryModel.update(id, updates)
+      const updated = await pantryModel.findById(id, user.id, user.householdId)
+      res.json(updated)
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deletePantryItem(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const { id } = req.params
+      const existing = await pantryModel.findById(id, user.id, user.householdId)
+      if (!existing) {
+        throw createError('Pantry item not found', 404)
+      }
+
+      await pantryModel.delete(id)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getRecipeMatches(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      const scope = req.query.scope === 'all' ? 'all' : 'my'
+      const maxMissing = req.query.maxMissing !== undefined ? parseInt(req.query.maxMissing as string) : undefined
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_MATCH_LIMIT
+
+      if (maxMissing !== undefined && (isNaN(maxMissing) || maxMissing < 0)) {
+        throw createError('maxMissing must be a non-negative number', 400)
+      }
+      if (isNaN(limit) || limit < 1 || limit > 200) {
+        throw createError('limit must be between 1 and 200', 400)
+      }
+
+      const pantryItems = await pantryModel.findAll(user.id, user.householdId)
+      if (pantryItems.length === 0) {
+        return res.json([])
+      }
+
+      const recipes = await recipeModel.findAll({
+        scope,
+        userId: user.id,
+        householdId: user.householdId
+      })
+
+      const matches = pantryService.matchRecipes(recipes, pantryItems, {
+        maxMissing,
+        includeStaples: req.query.includeStaples !== 'false'
+      })
+
+      res.json(matches.slice(0, limit))
+    } catch (error) {
+      next(error)
+    }
+  }
+}
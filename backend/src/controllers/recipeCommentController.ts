@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { recipeModel } from '../models/recipeModel'
+import { authorizationService } from '../services/authorizationService'
+import { recipeCommentModel } from '../models/recipeCommentModel'
+import { Recipe } from '../types/recipe'
+import { RecipeComment } from '../types/recipeComment'
+import { User } from '../types/user'
+import {
+  isValidCommentBody,
+  presentComments,
+  MAX_COMMENT_LENGTH,
+  MAX_REPORT_REASON_LENGTH,
+  REPORTS_TO_HIDE_COMMENT
+} from '../utils/recipeCommentHelper'
+
+/**
+ * Load a recipe open for discussion. Only public recipes have comments, which anyone may read;
+ * whoever can edit the recipe moderates them.
+ */
+async function getCommentableRecipe(user: User | undefined, recipeId: string): Promise<Recipe> {
+  const recipe = await recipeModel.findById(recipeId, user?.id, user?.householdId)
+  if (!recipe || (!recipe.isPublic && !(user && await authorizationService.canViewRecipe(user, recipe)))) {
+    throw createError('Recipe not found', 404)
+  }
+  if (!recipe.isPublic) {
+    throw createError('Comments are only available on public recipes', 403)
+  }
+
+  return recipe
+}
+
+async function getExistingComment(recipeId: string, commentId: string, viewerId: string): Promise<RecipeComment> {
+  const comment = await recipeCommentModel.findById(recipeId, commentId, viewerId)
+  if (!comment || comment.isDeleted) {
+    throw createError('Comment not found', 404)
+  }
+  return comment
+}
+
+function parseCommentBody(body: unknown): string {
+  if (!isValidCommentBody(body)) {
+    throw createError(`Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`, 400)
+  }
+  return body.trim()
+}
+
+export const recipeCommentController = {
+  async getComments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id } = req.params
+
+      const recipe = await getCommentableRecipe(user, id)
+      const comments = await recipeCommentModel.findByRecipeId(id, user?.id)
+      const canModerate = Boolean(user && recipe.canEdit)
+
+      res.json({ comments: presentComments(comments, user?.id, canModerate), canModerate })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async createComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id } = req.params
+      const { body, parentId } = req.body || {}
+
+      await getCommentableRecipe(user, id)
+      const text = parseCommentBody(body)
+
+      if (parentId !== undefined && parentId !== null) {
+        const parent = typeof parentId === 'string' ? await recipeCommentModel.findById(id, parentId, user!.id) : null
+        if (!parent || parent.isDeleted) {
+          throw createError('The comment you are replying to no longer exists', 400)
+        }
+      }
+
+      const comment = await recipeCommentModel.create(id, user!.id, text, parentId || undefined)
+      res.status(201).json({ comment })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Only the author can change their comment
+  async updateComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, commentId } = req.params
+
+      await getCommentableRecipe(user, id)
+      const existing = await getExistingComment(id, commentId, user!.id)
+      if (existing.userId !== user!.id) {
+        throw createError('You can only edit your own comments', 403)
+      }
+
+      const text = parseCommentBody(req.body?.body)
+      const comment = await recipeCommentModel.updateBody(id, commentId, text, user!.id)
+
+      res.json({ comment })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, commentId } = req.params
+
+      await getCommentableRecipe(user, id)
+      const existing = await getExistingComment(id, commentId, user!.id)
+      if (existing.userId !== user!.id) {
+        throw createError('You can only delete your own comments', 403)
+      }
+
+      await recipeCommentModel.softDelete(id, commentId)
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Flag a comment for the recipe's moderators; enough reports hide it right away
+  async reportComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, commentId } = req.params
+      const { reason } = req.body || {}
+
+      await getCommentableRecipe(user, id)
+      const existing = await getExistingComment(id, commentId, user!.id)
+      if (existing.userId === user!.id) {
+        throw createError('You cannot report your own comment', 400)
+      }
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        throw createError('Reason must be text', 400)
+      }
+
+      const trimmedReason = typeof reason === 'string' ? reason.trim().slice(0, MAX_REPORT_REASON_LENGTH) : ''
+      const reportCount = await recipeCommentModel.report(commentId, user!.id, trimmedReason || null)
+      if (reportCount >= REPORTS_TO_HIDE_COMMENT && !existing.isHidden) {
+        await recipeCommentModel.setHidden(id, commentId, true, null)
+      }
+
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Moderators hide or restore a comment; restoring also dismisses its reports
+  async setCommentHidden(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, commentId } = req.params
+      const { hidden } = req.body || {}
+
+      const recipe = await getCommentableRecipe(user, id)
+      if (!recipe.canEdit) {
+        throw createError('Only the recipe owner can moderate comments', 403)
+      }
+      if (typeof hidden !== 'boolean') {
+        throw createError('hidden must be true or false', 400)
+      }
+
+      await getExistingComment(id, commentId, user!.id)
+      await recipeCommentModel.setHidden(id, commentId, hidden, user!.id)
+      if (!hidden) {
+        await recipeCommentModel.clearReports(commentId)
+      }
+
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
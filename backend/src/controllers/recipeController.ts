@@ -1,20 +1,30 @@
 import { Request, Response, NextFunction } from 'express'
 import { recipeModel } from '../models/recipeModel'
-import { CreateRecipeRequest, UpdateRecipeRequest, RecipeFilters, IngredientCategory } from '../types/recipe'
+import { CreateRecipeRequest, UpdateRecipeRequest, RecipeFilters, IngredientCategory, DietLabel, Allergen } from '../types/recipe'
 import { createError } from '../middleware/errorHandler'
-import { geminiService } from '../services/geminiService'
 import { recipeEnhancementService } from '../services/recipeEnhancementService'
+import { DIET_LABELS, ALLERGENS } from '../services/dietaryService'
 import { imageService } from '../services/imageService'
-import { scraperService } from '../services/scraperService'
+import { recipeParseService } from '../services/recipeParseService'
+import { duplicateRecipeService } from '../services/duplicateRecipeService'
 import { authorizationService } from '../services/authorizationService'
 import { User } from '../types/user'
 import { isSupportedLanguage, SUPPORTED_LANGUAGE_CODES } from '../utils/languageHelper'
-import {
-  parseServings,
-  normalizeArray,
-  buildRecipeTextFromScrape,
-  parseImageUrl
-} from '../utils/recipeHelpers'
+
+/**
+ * Parse a comma-separated query parameter, rejecting values outside the allowed list
+ */
+function parseListParam<T extends string>(value: unknown, allowed: readonly T[], name: string): T[] | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined
+
+  const values = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+  const invalid = values.filter(item => !allowed.includes(item as T))
+  if (invalid.length > 0) {
+    throw createError(`Invalid ${name}: ${invalid.join(', ')}. Allowed values: ${allowed.join(', ')}`, 400)
+  }
+
+  return values as T[]
+}
 
 interface ScrapeRecipeRequest {
   url: string
@@ -36,9 +46,11 @@ export const recipeController = {
 
       const filters: RecipeFilters = {
         search: req.query.search as string,
-        sortBy: req.query.sortBy as 'name' | 'time' | 'servings' | 'recent',
+        sortBy: req.query.sortBy as RecipeFilters['sortBy'],
         isPublic: req.query.isPublic === 'true' ? true : req.query.isPublic === 'false' ? false : undefined,
         tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
+        diet: parseListParam<DietLabel>(req.query.diet, DIET_LABELS, 'diet'),
+        excludeAllergens: parseListParam<Allergen>(req.query.excludeAllergens, ALLERGENS, 'excludeAllergens'),
         limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
         offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
         // Add user context for access control
@@ -74,7 +86,7 @@ export const recipeController = {
     try {
       const user = req.user as User | undefined
 
-      const recipeData: CreateRecipeRequest = req.body
+      const { allowDuplicate, ...recipeData }: CreateRecipeRequest & { allowDuplicate?: boolean } = req.body
 
       const normalizedLanguage = recipeData.language?.trim().toLowerCase()
 
@@ -101,6 +113,17 @@ export const recipeController = {
         throw createError('At least one instruction is required', 400)
       }
 
+      // Offer the existing recipe instead of silently saving a second copy
+      if (user && !allowDuplicate) {
+        const duplicates = await duplicateRecipeService.findDuplicates(recipeData, user)
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            error: { message: 'This recipe looks like one you already have' },
+            duplicates
+          })
+        }
+      }
+
       // Add user context
       if (user) {
         const typedUser = user as User
@@ -191,7 +214,7 @@ export const recipeController = {
 
       updates.language = effectiveLanguage
 
-      const updatedRecipe = await recipeModel.update(id, updates)
+      const updatedRecipe = await recipeModel.update(id, updates, { userId: user?.id })
       res.json({ recipe: updatedRecipe })
     } catch (error) {
       next(error)
@@ -232,205 +255,28 @@ export const recipeController = {
 
   async scrapeRecipe(req: Request, res: Response, next: NextFunction) {
     try {
-  const { url, targetLanguage, additionalContext }: ScrapeRecipeRequest = req.body
-
-      if (!url?.trim()) {
-        throw createError('URL is required', 400)
-      }
-
-      // Validate URL format
-      try {
-        new URL(url)
-      } catch {
-        throw createError('Invalid URL format', 400)
-      }
-
-      // Test mode for demonstration - return mock data for test URLs
-      if (url.includes('test-recipe-demo')) {
-        const mockData = {
-          name: 'Demo Seafood Boil Crackers',
-          description: 'Delicious crackers perfect for seafood boils with a spicy kick.',
-          ingredients: ['1 sleeve saltine crackers', '1/2 cup butter', '1 packet ranch dressing mix', '1 tsp garlic powder', '1 tsp cayenne pepper', '1 tsp paprika'],
-          instructions: ['Preheat oven to 250°F', 'Break crackers into bite-sized pieces', 'Melt butter and mix with seasonings', 'Toss crackers with seasoned butter', 'Spread on baking sheet', 'Bake for 15-20 minutes, stirring every 5 minutes'],
-          image: 'https://example.com/seafood-crackers.jpg',
-          sourceUrl: url,
-          prepTimeMinutes: 10,
-          servings: 6
-        }
-        return res.json({ recipeData: mockData })
-      }
-
-      // Scrape recipe data using Python scraper
-      const scrapedData = await scraperService.scrapeRecipe(url)
-
-      console.log('Scraper raw data:', JSON.stringify(scrapedData, null, 2))
-
-      if (!scrapedData) {
-        throw createError('No recipe data found at the provided URL', 404)
-      }
+      const { url, targetLanguage, additionalContext }: ScrapeRecipeRequest = req.body
+      const recipeData = await recipeParseService.parseUrl({ url, targetLanguage, additionalContext })
 
-      const ingredients = normalizeArray(scrapedData.ingredients)
-
-      // Transform scraped data to our format
-      // Instructions may come as string or array; normalize to array of steps
-      const instructions = normalizeArray(scrapedData.instructions)
-
-      // Process external image URL - download and optimize it locally
-      let imageData: any = {}
-      if (scrapedData.image) {
-        try {
-          const result = await imageService.downloadAndStoreImageFromUrl(scrapedData.image)
-          imageData = {
-            image: result.url,
-            imageSizes: result.sizes,
-            blurDataUrl: result.blurDataUrl
-          }
-          console.log(`Image processing: ${scrapedData.image} -> ${result.url}`)
-        } catch (error) {
-          console.warn(`Failed to process external image for recipe scraping:`, error)
-          // Keep original URL as fallback
-          imageData = { image: scrapedData.image }
-        }
-      }
-
-      let parsedDataFromGemini: {
-        name?: string
-        description?: string
-        ingredients?: string[]
-        instructions?: string[]
-        prepTimeMinutes?: number
-        cookTimeMinutes?: number
-        totalTimeMinutes?: number
-        servings?: number
-        image?: string
-        language?: string
-      } | null = null
-
-      // Check if scraper returned an error
-      if (scrapedData.error) {
-        throw createError(`Failed to scrape recipe: ${scrapedData.error}`, 400)
-      }
-
-      // Only call Gemini if the scraper successfully returned recipe data
-      const hasValidScrapedData = ingredients.length > 0 && instructions.length > 0
-
-      if (hasValidScrapedData) {
-        const rawRecipeText = buildRecipeTextFromScrape(scrapedData, ingredients, instructions)
-
-        if (rawRecipeText.trim().length > 0) {
-          try {
-            parsedDataFromGemini = await geminiService.parseRecipeText(
-              rawRecipeText,
-              targetLanguage,
-              additionalContext
-            )
-            console.log('Gemini parsed recipe data:', JSON.stringify(parsedDataFromGemini, null, 2))
-          } catch (error) {
-            console.warn('Gemini enhancement for scraped recipe failed:', error)
-          }
-        }
-      } else {
-        throw createError('No recipe data found at the provided URL. The scraper could not extract ingredients or instructions.', 404)
-      }
-
-      const transformedData = {
-        name: parsedDataFromGemini?.name?.trim() || scrapedData.name || 'Imported Recipe',
-        description:
-          parsedDataFromGemini?.description?.trim() || scrapedData.description || 'Recipe imported from web',
-        ingredients:
-          parsedDataFromGemini?.ingredients?.length
-            ? parsedDataFromGemini.ingredients
-            : ingredients,
-        instructions:
-          parsedDataFromGemini?.instructions?.length
-            ? parsedDataFromGemini.instructions
-            : instructions,
-        ...imageData,
-        sourceUrl: url,
-        prepTimeMinutes:
-          parsedDataFromGemini?.prepTimeMinutes ?? scrapedData.prepTimeMinutes ?? undefined,
-        cookTimeMinutes:
-          parsedDataFromGemini?.cookTimeMinutes ?? scrapedData.cookTimeMinutes ?? undefined,
-        totalTimeMinutes:
-          parsedDataFromGemini?.totalTimeMinutes ?? scrapedData.totalTimeMinutes ?? undefined,
-        servings:
-          parsedDataFromGemini?.servings ?? parseServings(scrapedData.yields),
-        language: parsedDataFromGemini?.language ?? (scrapedData.language as string | undefined),
-        originalScrapedData: JSON.stringify(scrapedData),
-        importAdditionalContext: additionalContext
-      }
+      const user = req.user as User | undefined
+      const duplicates = user ? await duplicateRecipeService.findDuplicates(recipeData, user) : []
 
-      res.json({ recipeData: transformedData })
+      res.json({ recipeData, duplicates })
     } catch (error) {
-      // Handle specific scraper errors
-      if (error instanceof Error) {
-        // Check for unsupported website
-        if (error.message.includes('not supported') || error.message.includes('not currently supported')) {
-          throw createError('This website is not currently supported by the recipe scraper. Try using the "Text" or "Image" import options instead.', 400)
-        }
-        // Check for 404 errors
-        if (error.message.includes('404') || error.message.includes('not found')) {
-          throw createError('Recipe not found at the provided URL', 404)
-        }
-        // Check for network errors
-        if (error.message.includes('timeout') || error.message.includes('network')) {
-          throw createError('Unable to reach the website. Please check the URL and try again.', 500)
-        }
-        // Check for recipe-scrapers specific errors
-        if (error.message.includes('recipe-scrapers')) {
-          // Extract the actual error message from the scraper output
-          const match = error.message.match(/exception: (.+?)(?:\n|$)/)
-          if (match) {
-            throw createError(`Scraper error: ${match[1]}`, 400)
-          }
-        }
-      }
       next(error)
     }
   },
 
   async parseTextRecipeGemini(req: Request, res: Response, next: NextFunction) {
     try {
-  const { text, targetLanguage, additionalContext }: ParseTextRecipeRequest & { targetLanguage?: string; additionalContext?: string } = req.body
-
-      if (!text?.trim()) {
-        throw createError('Recipe text is required', 400)
-      }
+      const { text, targetLanguage, additionalContext }: ParseTextRecipeRequest & { targetLanguage?: string } = req.body
+      const recipeData = await recipeParseService.parseText({ text, targetLanguage, additionalContext })
 
-      // Parse the text using Gemini
-  const parsedData = await geminiService.parseRecipeText(text, targetLanguage, additionalContext)
-
-      // Transform to match scraper response format
-      const transformedData = {
-        name: parsedData.name,
-        description: parsedData.description,
-        ingredients: parsedData.ingredients,
-        instructions: parsedData.instructions,
-        prepTimeMinutes: parsedData.prepTimeMinutes,
-        cookTimeMinutes: parsedData.cookTimeMinutes,
-        totalTimeMinutes: parsedData.totalTimeMinutes,
-        servings: parsedData.servings,
-        image: parsedData.image,
-        sourceUrl: undefined, // No source URL for text input
-        language: parsedData.language,
-        originalTextInput: text,
-        importAdditionalContext: additionalContext
-      }
+      const user = req.user as User | undefined
+      const duplicates = user ? await duplicateRecipeService.findDuplicates(recipeData, user) : []
 
-      res.json({ recipeData: transformedData })
+      res.json({ recipeData, duplicates })
     } catch (error) {
-      // Handle Gemini specific errors
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          throw createError('Gemini API configuration error', 500)
-        }
-        if (error.message.includes('rate limit') || error.message.includes('quota')) {
-          throw createError('Gemini service temporarily unavailable. Please try again later.', 429)
-        }
-        if (error.message.includes('Missing required recipe fields')) {
-          throw createError('Unable to extract recipe data from the provided text. Please ensure the text contains recipe information.', 400)
-        }
-      }
       next(error)
     }
   },
@@ -474,7 +320,7 @@ export const recipeController = {
 
       // Store the enhancement as JSON string
       const enhancementJson = JSON.stringify(enhancementData)
-      const updatedRecipe = await recipeModel.updateAiEnhancedNotes(id, enhancementJson)
+      const updatedRecipe = await recipeModel.updateAiEnhancedNotes(id, enhancementJson, (req.user as User | undefined)?.id)
 
       res.json({
         message: 'Recipe enhanced successfully',
@@ -496,7 +342,12 @@ export const recipeController = {
 
   async getAllTags(req: Request, res: Response, next: NextFunction) {
     try {
-      const tags = await recipeModel.getAllTags()
+      const user = req.user as User | undefined
+      const tags = await recipeModel.getAllTags({
+        userId: user?.id,
+        householdId: user?.householdId,
+        scope: req.query.scope as RecipeFilters['scope']
+      })
       res.json({ tags })
     } catch (error) {
       next(error)
@@ -509,47 +360,14 @@ export const recipeController = {
         throw createError('Image file is required', 400)
       }
 
-      const { targetLanguage } = req.body
-
-      const storedImage = await imageService.storeImage(req.file.buffer, req.file.originalname)
-
-      // Parse the image directly using Gemini Vision to create a recipe
-      const parsedData = await geminiService.parseRecipeFromImage(req.file.buffer, targetLanguage)
-
-      // Transform to match expected response format
-      const transformedData = {
-        name: parsedData.name,
-        description: parsedData.description,
-        ingredients: parsedData.ingredients,
-        instructions: parsedData.instructions,
-        prepTimeMinutes: parsedData.prepTimeMinutes,
-        cookTimeMinutes: parsedData.cookTimeMinutes,
-        totalTimeMinutes: parsedData.totalTimeMinutes,
-        servings: parseServings(parsedData.servings?.toString()),
-        image: storedImage.url,
-        imageSizes: storedImage.sizes,
-        language: parsedData.language
-      }
-
-      res.json({
-        recipeData: transformedData
+      const recipeData = await recipeParseService.parseImage({
+        buffer: req.file.buffer,
+        filename: req.file.originalname,
+        targetLanguage: req.body.targetLanguage
       })
+
+      res.json({ recipeData })
     } catch (error) {
-      // Handle Gemini vision specific errors
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          throw createError('Gemini API configuration error', 500)
-        }
-        if (error.message.includes('rate limit') || error.message.includes('quota')) {
-          throw createError('Gemini service temporarily unavailable. Please try again later.', 429)
-        }
-        if (error.message.includes('Missing required recipe fields')) {
-          throw createError('Unable to extract recipe data from the image. Please ensure the image contains clear recipe information.', 400)
-        }
-        if (error.message.includes('Image buffer is required')) {
-          throw createError('Invalid image file. Please upload a valid image.', 400)
-        }
-      }
       next(error)
     }
   },
@@ -642,19 +460,23 @@ export const recipeController = {
       }
 
       // Check if user can access this recipe
-      if (!sourceRecipe.isPublic && sourceRecipe.userId !== user.id && sourceRecipe.householdId !== user.householdId) {
+      const canAccess = sourceRecipe.isPublic
+        || sourceRecipe.userId === user.id
+        || await authorizationService.userHasHouseholdAccess(user, sourceRecipe.userId, sourceRecipe.householdId)
+      if (!canAccess) {
         throw createError('You cannot copy this recipe', 403)
       }
 
-      // If copying to household, verify user is in that household
-      if (householdId && user.householdId !== householdId) {
-        throw createError('You can only copy recipes to your own household', 403)
+      // Copies go to the active household unless null asks for a personal copy
+      const targetHouseholdId = householdId === undefined ? user.householdId : householdId || undefined
+      if (targetHouseholdId && user.householdId !== targetHouseholdId) {
+        throw createError('You can only copy recipes to your active household', 403)
       }
 
       const copiedRecipe = await recipeModel.copyRecipe(
         id,
         user.id,
-        householdId || undefined
+        targetHouseholdId
       )
 
       res.status(201).json({
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express'
+import { basename } from 'path'
+import { createError } from '../middleware/errorHandler'
+import { recipeModel } from '../models/recipeModel'
+import { recipeCookModel, RecipeCookData } from '../models/recipeCookModel'
+import { authorizationService } from '../services/authorizationService'
+import { imageService } from '../services/imageService'
+import { Recipe } from '../types/recipe'
+import { User } from '../types/user'
+import { isValidRating, isValidCookDate, isTruthyFlag, MAX_COOK_NOTES_LENGTH } from '../utils/recipeCookHelper'
+
+/**
+ * Load a recipe the user may log cooks for: public recipes and their own or household recipes
+ */
+async function getCookableRecipe(user: User | undefined, recipeId: string): Promise<Recipe> {
+  if (!user) {
+    throw createError('Authentication required', 401)
+  }
+
+  const recipe = await recipeModel.findById(recipeId, user.id, user.householdId)
+  if (!recipe || !(await authorizationService.canViewRecipe(user, recipe))) {
+    throw createError('Recipe not found', 404)
+  }
+
+  return recipe
+}
+
+/**
+ * Validate cook-log fields; fields left out of the body stay undefined so updates keep them
+ */
+function parseCookInput(body: Record<string, unknown> = {}): RecipeCookData {
+  const data: RecipeCookData = {}
+
+  if (body.cookedAt !== undefined && body.cookedAt !== '') {
+    if (!isValidCookDate(body.cookedAt)) {
+      throw createError('cookedAt must be a valid date that is not in the future', 400)
+    }
+    data.cookedAt = new Date(body.cookedAt).toISOString()
+  }
+
+  if (body.rating === null || body.rating === '') {
+    data.rating = null
+  } else if (body.rating !== undefined) {
+    if (!isValidRating(body.rating)) {
+      throw createError('Rating must be a whole number from 1 to 5', 400)
+    }
+    data.rating = Number(body.rating)
+  }
+
+  if (body.notes !== undefined) {
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+    if (notes.length > MAX_COOK_NOTES_LENGTH) {
+      throw createError(`Notes cannot be longer than ${MAX_COOK_NOTES_LENGTH} characters`, 400)
+    }
+    data.notes = notes || null
+  }
+
+  return data
+}
+
+async function deleteCookPhoto(image?: string) {
+  if (!image?.startsWith('/uploads/')) return
+  try {
+    await imageService.deleteImage(basename(image))
+  } catch (error) {
+    console.warn(`Failed to delete cook photo ${image}:`, error)
+  }
+}
+
+export const recipeCookController = {
+  // Cooks by the user and their household, with stats over the same cooks
+  async getCooks(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id } = req.params
+
+      const recipe = await getCookableRecipe(user, id)
+      const cooks = await recipeCookModel.findByRecipeId(id, user!.id, user!.householdId)
+
+      res.json({ cooks, stats: recipe.cookStats })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async createCook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id } = req.params
+
+      await getCookableRecipe(user, id)
+      const data = parseCookInput(req.body)
+
+      if (req.file) {
+        const storedImage = await imageService.storeImage(req.file.buffer, req.file.originalname)
+        data.image = storedImage.url
+        data.imageSizes = storedImage.sizes
+      }
+
+      const cook = await recipeCookModel.create(id, user!.id, data)
+      res.status(201).json({ cook })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Only the person who cooked can change their entry; sending removeImage=true drops the photo
+  async updateCook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, cookId } = req.params
+
+      await getCookableRecipe(user, id)
+      const existing = await recipeCookModel.findById(id, cookId)
+      if (!existing) {
+        throw createError('Cook log entry not found', 404)
+      }
+      if (existing.userId !== user!.id) {
+        throw createError('You can only edit your own cook log entries', 403)
+      }
+
+      const data = parseCookInput(req.body)
+
+      if (req.file) {
+        const storedImage = await imageService.storeImage(req.file.buffer, req.file.originalname)
+        data.image = storedImage.url
+        data.imageSizes = storedImage.sizes
+      } else if (isTruthyFlag(req.body?.removeImage)) {
+        data.image = null
+        data.imageSizes = null
+      }
+
+      const cook = await recipeCookModel.update(id, cookId, data)
+      if (data.image !== undefined && existing.image !== data.image) {
+        await deleteCookPhoto(existing.image)
+      }
+
+      res.json({ cook })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteCook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, cookId } = req.params
+
+      await getCookableRecipe(user, id)
+      const existing = await recipeCookModel.findById(id, cookId)
+      if (!existing) {
+        throw createError('Cook log entry not found', 404)
+      }
+      if (existing.userId !== user!.id) {
+        throw createError('You can only delete your own cook log entries', 403)
+      }
+
+      await recipeCookModel.delete(id, cookId)
+      await deleteCookPhoto(existing.image)
+
+      res.status(204).send()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { recipeModel } from '../models/recipeModel'
+import { recipeRevisionModel } from '../models/recipeRevisionModel'
+import { authorizationService } from '../services/authorizationService'
+import { Recipe, UpdateRecipeRequest } from '../types/recipe'
+import { User } from '../types/user'
+import { buildRecipeSnapshot, diffSnapshots } from '../utils/recipeDiff'
+
+/**
+ * Load a recipe and make sure the user may see and restore its history
+ */
+async function getEditableRecipe(user: User | undefined, recipeId: string): Promise<Recipe> {
+  if (!user) {
+    throw createError('Authentication required', 401)
+  }
+
+  const recipe = await recipeModel.findById(recipeId, user.id, user.householdId)
+  if (!recipe) {
+    throw createError('Recipe not found', 404)
+  }
+
+  const canEdit = await authorizationService.canEditRecipe(user, recipe.userId, recipe.householdId)
+  if (!canEdit) {
+    throw createError('You do not have permission to view the history of this recipe', 403)
+  }
+
+  return recipe
+}
+
+export const recipeRevisionController = {
+  async getRevisions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id } = req.params
+
+      await getEditableRecipe(user, id)
+      const revisions = await recipeRevisionModel.findByRecipeId(id)
+
+      res.json({ revisions })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async getRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, revisionId } = req.params
+
+      await getEditableRecipe(user, id)
+      const revision = await recipeRevisionModel.findById(id, revisionId)
+      if (!revision) {
+        throw createError('Revision not found', 404)
+      }
+
+      res.json({ revision })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Compares a revision with the one before it, or with the current recipe when ?against=current
+  async getRevisionDiff(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, revisionId } = req.params
+      const against = req.query.against === 'current' ? 'current' : 'previous'
+
+      const recipe = await getEditableRecipe(user, id)
+      const revision = await recipeRevisionModel.findById(id, revisionId)
+      if (!revision) {
+        throw createError('Revision not found', 404)
+      }
+
+      if (against === 'current') {
+        return res.json({
+          revision: revision.revisionNumber,
+          against,
+          changes: diffSnapshots(revision.snapshot, buildRecipeSnapshot(recipe))
+        })
+      }
+
+      const previous = await recipeRevisionModel.findPrevious(id, revision.revisionNumber)
+      res.json({
+        revision: revision.revisionNumber,
+        against,
+        previousRevision: previous?.revisionNumber ?? null,
+        changes: diffSnapshots(previous?.snapshot || null, revision.snapshot)
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async restoreRevision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      const { id, revisionId } = req.params
+
+      await getEditableRecipe(user, id)
+      const revision = await recipeRevisionModel.findById(id, revisionId)
+      if (!revision) {
+        throw createError('Revision not found', 404)
+      }
+
+      const { snapshot } = revision
+      const updates: UpdateRecipeRequest = {
+        name: snapshot.name,
+        description: snapshot.description,
+        prepTimeMinutes: snapshot.prepTimeMinutes,
+        cookTimeMinutes: snapshot.cookTimeMinutes ?? null,
+        totalTimeMinutes: snapshot.totalTimeMinutes ?? null,
+        servings: snapshot.servings,
+        ingredients: snapshot.ingredients,
+        instructions: snapshot.instructions,
+        tags: snapshot.tags,
+        sourceUrl: snapshot.sourceUrl || '',
+        image: snapshot.image || '',
+        imageSizes: snapshot.imageSizes,
+        language: snapshot.language
+      }
+
+      const recipe = await recipeModel.update(id, updates, {
+        userId: user!.id,
+        changeType: 'restore',
+        restoredFrom: revision.revisionNumber
+      })
+
+      res.json({
+        message: `Restored revision ${revision.revisionNumber}`,
+        recipe
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
@@ -4,9 +4,13 @@ import { createError } from '../middleware/errorHandler'
 import { ingredientParser } from '../utils/ingredientParser'
 import { ingredientCategorizer } from '@ingredient-categorizer/core'
 import { ShoppingListService, ShoppingListItem } from '../services/shoppingListService'
-import { v4 as uuidv4 } from 'uuid'
+import { shoppingListModel } from '../models/shoppingListModel'
+import { getShoppingListScope, shoppingListEvents } from '../services/shoppingListEvents'
 import { User } from '../types/user'
 
+// Comment lines keep proxies from closing an idle event stream
+const EVENT_STREAM_HEARTBEAT_MS = 25000
+
 interface AddToShoppingListRequest {
   ingredients: string[]
   recipeId?: string
@@ -71,107 +75,27 @@ export const shoppingListController = {
         throw createError(`Validation error: ${validation.errors.join(', ')}`, 400)
       }
 
-      const db = PostgreSQLDatabase.getInstance()
-
       // Get existing items to check for duplicates and combinations
-      const existingQuery = user.householdId
-        ? `SELECT * FROM shopping_lists WHERE household_id = $1`
-        : `SELECT * FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL`
-
-      const existingParams = user.householdId ? [user.householdId] : [user.id]
-      const existingItems = await db.all(existingQuery, existingParams) as ShoppingListItem[]
+      const existingItems = await shoppingListModel.findAll(user.id, user.householdId)
 
       // Process ingredients using the service
       const result = await ShoppingListService.processIngredientsForAddition(
         ingredients,
         existingItems,
-        scale
+        scale,
+        user.unitSystem
       )
 
-      const addedItems: ShoppingListItem[] = []
-      const updatedItems: ShoppingListItem[] = []
-
-      // Add new items
-      for (const itemData of result.itemsToAdd) {
-        const itemId = uuidv4()
-        const now = new Date().toISOString()
-
-        const item: Omit<ShoppingListItem, 'id'> = {
-          ...itemData,
-          userId: user.id,
-          householdId: user.householdId,
-          recipeId: recipeId || undefined,
-          recipeName: recipeName || undefined,
-          createdAt: now,
-          updatedAt: now
-        }
-
-        await db.run(
-          `INSERT INTO shopping_lists (
-            id, user_id, household_id, ingredient, description, quantity, unit,
-            category, display_name, recipe_id, recipe_name, is_completed, created_at, updated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
-          [
-            itemId, item.userId, item.householdId, item.ingredient, item.description,
-            item.quantity, item.unit, item.category, item.displayName, item.recipeId, item.recipeName,
-            item.isCompleted, item.createdAt, item.updatedAt
-          ]
-        )
-
-        // Map the item to camelCase for frontend consistency
-        const mappedItem = {
-          id: itemId,
-          userId: item.userId,
-          householdId: item.householdId,
-          ingredient: item.ingredient,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          category: item.category,
-          displayName: item.displayName,
-          recipeId: item.recipeId,
-          recipeName: item.recipeName,
-          isCompleted: item.isCompleted,
-          createdAt: item.createdAt,
-          updatedAt: item.updatedAt
-        }
-
-        addedItems.push(mappedItem)
+      for (const item of result.itemsToAdd) {
+        item.recipeId = recipeId || undefined
+        item.recipeName = recipeName || undefined
       }
 
-      // Update existing items
-      for (const updateData of result.itemsToUpdate) {
-        const now = new Date().toISOString()
-        await db.run(
-          `UPDATE shopping_lists SET
-            ingredient = $1,
-            quantity = $2,
-            updated_at = $3
-           WHERE id = $4`,
-          [updateData.newIngredient, updateData.newQuantity, now, updateData.item.id]
-        )
-
-        // Get updated item
-        const updatedItemResult = await db.get(`SELECT * FROM shopping_lists WHERE id = $1`, [updateData.item.id])
-        const updatedItem = {
-          id: (updatedItemResult as any).id,
-          userId: (updatedItemResult as any).user_id,
-          householdId: (updatedItemResult as any).household_id,
-          ingredient: (updatedItemResult as any).ingredient,
-          description: (updatedItemResult as any).description,
-          quantity: (updatedItemResult as any).quantity,
-          unit: (updatedItemResult as any).unit,
-          category: (updatedItemResult as any).category,
-          displayName: (updatedItemResult as any).display_name,
-          recipeId: (updatedItemResult as any).recipe_id,
-          recipeName: (updatedItemResult as any).recipe_name,
-          isCompleted: (updatedItemResult as any).is_completed,
-          createdAt: (updatedItemResult as any).created_at,
-          updatedAt: (updatedItemResult as any).updated_at
-        }
-
-        updatedItems.push(updatedItem)
-      }
+      const { added: addedItems, updated: updatedItems } = await shoppingListModel.applyAdditions(result, {
+        userId: user.id,
+        householdId: user.householdId
+      })
+      shoppingListEvents.itemsChanged({ userId: user.id, householdId: user.householdId }, [...addedItems, ...updatedItems])
 
       const totalRequested = ingredients.length
       const addedCount = addedItems.length
@@ -258,6 +182,8 @@ export const shoppingListController = {
         updatedAt: (updatedItem as any).updated_at
       }
 
+      shoppingListEvents.itemsChanged({ userId: user.id, householdId: user.householdId }, [mappedItem])
+
       res.json(mappedItem)
     } catch (error) {
       next(error)
@@ -288,6 +214,7 @@ export const shoppingListController = {
 
       // Delete the item
       await db.run(`DELETE FROM shopping_lists WHERE id = $1`, [id])
+      shoppingListEvents.itemsDeleted({ userId: user.id, householdId: user.householdId }, [id as string])
 
       res.json({ message: 'Shopping list item deleted' })
     } catch (error) {
@@ -306,14 +233,16 @@ export const shoppingListController = {
 
       // Delete completed items for user's household or just the user
       const deleteQuery = user.householdId
-        ? `DELETE FROM shopping_lists WHERE household_id = $1 AND is_completed = 1`
-        : `DELETE FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL AND is_completed = 1`
+        ? `DELETE FROM shopping_lists WHERE household_id = $1 AND is_completed = true RETURNING id`
+        : `DELETE FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL AND is_completed = true RETURNING id`
 
       const deleteParams = user.householdId ? [user.householdId] : [user.id]
-      const result = await db.query(deleteQuery, deleteParams)
+      const deleted = await db.all<{ id: string }>(deleteQuery, deleteParams)
+
+      shoppingListEvents.itemsDeleted({ userId: user.id, householdId: user.householdId }, deleted.map(row => row.id))
 
       res.json({
-        message: `Cleared ${result.rowCount} completed item(s) from shopping list`
+        message: `Cleared ${deleted.length} completed item(s) from shopping list`
       })
     } catch (error) {
       next(error)
@@ -331,14 +260,53 @@ export const shoppingListController = {
 
       // Delete all items for user's household or just the user
       const deleteQuery = user.householdId
-        ? `DELETE FROM shopping_lists WHERE household_id = $1`
-        : `DELETE FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL`
+        ? `DELETE FROM shopping_lists WHERE household_id = $1 RETURNING id`
+        : `DELETE FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL RETURNING id`
 
       const deleteParams = user.householdId ? [user.householdId] : [user.id]
-      const result = await db.query(deleteQuery, deleteParams)
+      const deleted = await db.all<{ id: string }>(deleteQuery, deleteParams)
+
+      shoppingListEvents.itemsDeleted({ userId: user.id, householdId: user.householdId }, deleted.map(row => row.id))
 
       res.json({
-        message: `Cleared ${result.rowCount} item(s) from shopping list`
+        message: `Cleared ${deleted.length} item(s) from shopping list`
+      })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  // Server-Sent Events stream of changes other people (or the user's other devices) make to the list
+  async streamEvents(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = req.user as User | undefined
+      if (!user) {
+        throw createError('Authentication required', 401)
+      }
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        // no-transform also keeps the compression middleware from buffering the stream
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      })
+      res.flushHeaders()
+      res.write('retry: 5000\n\n')
+
+      // The household routes close the stream when the user switches, leaves or is removed
+      const unsubscribe = shoppingListEvents.subscribe(
+        getShoppingListScope({ userId: user.id, householdId: user.householdId }),
+        user.id,
+        chunk => res.write(chunk),
+        () => res.end()
+      )
+
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), EVENT_STREAM_HEARTBEAT_MS)
+
+      req.on('close', () => {
+        clearInterval(heartbeat)
+        unsubscribe()
       })
     } catch (error) {
       next(error)
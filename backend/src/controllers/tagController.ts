@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from '../middleware/errorHandler'
+import { recipeModel } from '../models/recipeModel'
+import { authorizationService } from '../services/authorizationService'
+import { User } from '../types/user'
+import { TagHelper } from '../utils/tagHelper'
+
+function requireUser(req: Request): User {
+  const user = req.user as User | undefined
+  if (!user) {
+    throw createError('Authentication required', 401)
+  }
+  return user
+}
+
+function parseTag(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !TagHelper.isValidTag(value)) {
+    throw createError(`${field} must be a tag of 1 to 50 characters without <>{}[]\\`, 400)
+  }
+  return TagHelper.normalizeTag(value)
+}
+
+/**
+ * Replace tags across the recipes the user can edit, failing when none of them uses the tags.
+ * Household viewers only change their own recipes.
+ */
+async function replaceTags(user: User, fromTags: string[], toTag: string | null): Promise<number> {
+  const canEditShared = await authorizationService.canEditHouseholdContent(user)
+  const householdId = canEditShared ? user.householdId : undefined
+  const updatedRecipes = await recipeModel.replaceTags(user.id, householdId, fromTags, toTag)
+  if (updatedRecipes === 0) {
+    throw createError(fromTags.length === 1 ? 'Tag not found' : 'Tags not found', 404)
+  }
+  return updatedRecipes
+}
+
+export const tagController = {
+  async getTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const tags = await recipeModel.getTagCounts({ userId: user.id, householdId: user.householdId, scope: 'my' })
+      res.json({ tags })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async renameTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const tag = parseTag(req.params.tag, 'tag')
+      const name = parseTag(req.body?.name, 'name')
+
+      const updatedRecipes = await replaceTags(user, [tag], name)
+      res.json({ tag: name, updatedRecipes })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async mergeTags(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const { tags, into } = req.body || {}
+      if (!Array.isArray(tags) || tags.length === 0) {
+        throw createError('tags must be a non-empty array', 400)
+      }
+      const fromTags = tags.map(tag => parseTag(tag, 'tags'))
+      const target = parseTag(into, 'into')
+
+      const updatedRecipes = await replaceTags(user, fromTags, target)
+      res.json({ tag: target, updatedRecipes })
+    } catch (error) {
+      next(error)
+    }
+  },
+
+  async deleteTag(req: Request, res: Response, next: NextFunction) {
+    try {
+      const user = requireUser(req)
+      const tag = parseTag(req.params.tag, 'tag')
+
+      const updatedRecipes = await replaceTags(user, [tag], null)
+      res.json({ updatedRecipes })
+    } catch (error) {
+      next(error)
+    }
+  }
+}
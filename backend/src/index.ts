@@ -16,6 +16,22 @@ import { ingredientRoutes } from './routes/ingredients'
 import { authRoutes } from './routes/auth'
 import { householdRoutes } from './routes/households'
 import { shoppingListRoutes } from './routes/shoppingList'
+import { pantryRoutes } from './routes/pantry'
+import { mealPlanRoutes } from './routes/mealPlans'
+import { importRoutes } from './routes/imports'
+import { exportRoutes } from './routes/export'
+import { collectionRoutes } from './routes/collections'
+import { tagRoutes } from './routes/tags'
+import { importJobRoutes } from './routes/importJobs'
+import { adminRoutes } from './routes/admin'
+import { recipeImportJobModel } from './models/recipeImportJobModel'
+import { importJobModel } from './models/importJobModel'
+import { scrapeCacheModel } from './models/scrapeCacheModel'
+import { authTokenModel } from './models/authTokenModel'
+import { householdInvitationModel } from './models/householdInvitationModel'
+import { mailService } from './services/mailService'
+import { importJobQueue } from './services/importJobQueue'
+import { recipeModel } from './models/recipeModel'
 import { errorHandler } from './middleware/errorHandler'
 import { ipBlocker } from './middleware/ipBlocker'
 import { User } from './types/user'
@@ -81,6 +97,12 @@ const sessionMaxAgeDays = parsePositiveInt(process.env.SESSION_MAX_AGE_DAYS, 30)
 const sessionMaxAgeMs = sessionMaxAgeDays * 24 * 60 * 60 * 1000
 const sessionMaxAgeSeconds = Math.floor(sessionMaxAgeMs / 1000)
 
+const importJobQueueOptions = {
+  concurrency: parsePositiveInt(process.env.IMPORT_JOB_CONCURRENCY, 2),
+  maxAttempts: parsePositiveInt(process.env.IMPORT_JOB_MAX_ATTEMPTS, 3),
+  retryDelayMs: parsePositiveInt(process.env.IMPORT_JOB_RETRY_DELAY_MS, 30 * 1000)
+}
+
 app.use(cors({
   origin: (origin, callback) => {
     // Allow requests with no origin (like mobile apps, curl requests, Postman)
@@ -124,11 +146,20 @@ const conditionalNotFoundLimiter = (req: any, res: any, next: any) => {
     // React app routes
     '/',
     '/login',
+    '/forgot-password',
+    '/reset-password',
+    '/verify-email',
+    '/confirm-email-change',
+    '/join/',             // Covers /join/:token household invite links
     '/dashboard',
     '/auth/callback',
     '/share-target',
     '/recipe/',           // Covers /recipe/:id and /recipe/:id/edit
     '/add-recipe',
+    '/pantry',
+    '/meal-plan',
+    '/collections',       // Covers /collections and /collections/:id
+    '/import',
     '/settings',
 
     // Static assets and PWA files
@@ -136,6 +167,7 @@ const conditionalNotFoundLimiter = (req: any, res: any, next: any) => {
     '/manifest.webmanifest',
     '/sw.js',
     '/registerSW.js',
+    '/timer-sw.js',       // Kitchen timer notification handler imported by sw.js
     '/workbox-',          // Workbox files (starts with)
 
     // Icons and favicons
@@ -266,6 +298,14 @@ app.use('/api/recipes', recipeRoutes)
 app.use('/api/ingredients', ingredientRoutes)
 app.use('/api/households', householdRoutes)
 app.use('/api/shopping-list', shoppingListRoutes)
+app.use('/api/pantry', pantryRoutes)
+app.use('/api/meal-plans', mealPlanRoutes)
+app.use('/api/imports', importRoutes)
+app.use('/api/export', exportRoutes)
+app.use('/api/collections', collectionRoutes)
+app.use('/api/tags', tagRoutes)
+app.use('/api/import-jobs', importJobRoutes)
+app.use('/api/admin', adminRoutes)
 
 // Only serve public API routes if explicitly enabled
 if (process.env.ALLOW_PUBLIC_API === 'true') {
@@ -286,12 +326,21 @@ if (true) { // Always apply whitelist - was: process.env.NODE_ENV === 'productio
       // React app routes
       '/',
       '/login',
+      '/forgot-password',
+      '/reset-password',
+      '/verify-email',
+      '/confirm-email-change',
+      '/join/',             // Covers /join/:token household invite links
       '/dashboard',
       '/auth/callback',
       '/share-target',
       '/recipe/',           // Covers /recipe/:id and /recipe/:id/edit
       '/add-recipe',
       '/shopping-list',
+      '/pantry',
+      '/meal-plan',
+      '/collections',       // Covers /collections and /collections/:id
+      '/import',
       '/settings',
 
       // Static assets and PWA files
@@ -299,6 +348,7 @@ if (true) { // Always apply whitelist - was: process.env.NODE_ENV === 'productio
       '/manifest.webmanifest',
       '/sw.js',
       '/registerSW.js',
+      '/timer-sw.js',       // Kitchen timer notification handler imported by sw.js
       '/workbox-',          // Workbox files (starts with)
 
       // Icons and favicons
@@ -376,6 +426,34 @@ app.use((req, res) => {
 async function startServer() {
   try {
     await PostgreSQLDatabase.getInstance().initialize()
+    await recipeImportJobModel.failInterrupted()
+
+    const requeued = await importJobModel.requeueInterrupted()
+    if (requeued > 0) {
+      console.log(`Requeued ${requeued} recipe imports interrupted by the last shutdown`)
+    }
+    importJobQueue.start(importJobQueueOptions)
+
+    const expiredScrapes = await scrapeCacheModel.deleteExpired()
+    if (expiredScrapes > 0) {
+      console.log(`Removed ${expiredScrapes} expired scrape cache entries`)
+    }
+
+    const expiredTokens = await authTokenModel.deleteExpired()
+    if (expiredTokens > 0) {
+      console.log(`Removed ${expiredTokens} expired password reset and email verification links`)
+    }
+    console.log(`Account emails are delivered with the ${mailService.transportName} mail transport`)
+
+    const staleInvitations = await householdInvitationModel.deleteStale()
+    if (staleInvitations > 0) {
+      console.log(`Removed ${staleInvitations} long-expired or revoked household invitations`)
+    }
+
+    const backfilled = await recipeModel.backfillDerivedFields()
+    if (backfilled > 0) {
+      console.log(`Computed nutrition and dietary labels for ${backfilled} existing recipes`)
+    }
 
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`)
@@ -390,6 +468,7 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nShutting down server...')
+  importJobQueue.stop()
   await PostgreSQLDatabase.getInstance().close()
   process.exit(0)
 })
@@ -23,4 +23,28 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   // This middleware allows both authenticated and unauthenticated users
   // The route handler can check req.user to determine if user is authenticated
   next()
-}
\ No newline at end of file
+}
+// Admins are the users whose email is listed in ADMIN_EMAILS (comma-separated)
+export function isAdmin(user: User | undefined): boolean {
+  if (!user?.email) return false
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+  return adminEmails.includes(user.email.toLowerCase())
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({
+      error: { message: 'Authentication required' }
+    })
+  }
+  if (!isAdmin(req.user as User)) {
+    return res.status(403).json({
+      error: { message: 'Admin access required' }
+    })
+  }
+  next()
+}
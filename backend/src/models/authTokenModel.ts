@@ -0,0 +1,75 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { AuthToken, AuthTokenRow, AuthTokenType } from '../types/authToken'
+
+function rowToAuthToken(row: AuthTokenRow): AuthToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    newEmail: row.new_email || undefined,
+    expiresAt: row.expires_at,
+    usedAt: row.used_at || undefined,
+    createdAt: row.created_at
+  }
+}
+
+export const authTokenModel = {
+  // Issuing a token revokes the user's earlier unused tokens of the same type, so only the latest email works
+  async create(data: {
+    userId: string
+    type: AuthTokenType
+    tokenHash: string
+    expiresAt: Date
+    newEmail?: string
+  }): Promise<AuthToken> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      'DELETE FROM auth_tokens WHERE user_id = $1 AND type = $2 AND used_at IS NULL',
+      [data.userId, data.type]
+    )
+    await db.run(
+      `INSERT INTO auth_tokens (id, user_id, type, token_hash, new_email, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, data.userId, data.type, data.tokenHash, data.newEmail || null, data.expiresAt.toISOString(), now]
+    )
+
+    return {
+      id,
+      userId: data.userId,
+      type: data.type,
+      newEmail: data.newEmail,
+      expiresAt: data.expiresAt.toISOString(),
+      createdAt: now
+    }
+  },
+
+  /**
+   * Mark a token used and return it, in one statement so a link cannot be used twice
+   * @returns The token, or null when it is unknown, of another type, expired or already used
+   */
+  async consume(tokenHash: string, type: AuthTokenType): Promise<AuthToken | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    const row = await db.get<AuthTokenRow>(
+      `UPDATE auth_tokens SET used_at = $1
+       WHERE token_hash = $2 AND type = $3 AND used_at IS NULL AND expires_at > $1
+       RETURNING *`,
+      [now, tokenHash, type]
+    )
+    return row ? rowToAuthToken(row) : null
+  },
+
+  async deleteExpired(): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<{ id: string }>(
+      'DELETE FROM auth_tokens WHERE expires_at <= $1 RETURNING id',
+      [new Date().toISOString()]
+    )
+    return rows.length
+  }
+}
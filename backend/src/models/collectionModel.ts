@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { Collection, CollectionRow, CollectionVisibility } from '../types/collection'
+
+// Public collections only fall back to images of public recipes
+function selectWithCounts(extraColumns = ''): string {
+  return `
+  SELECT collections.*, users.display_name as owner_display_name,${extraColumns}
+    (SELECT COUNT(*) FROM collection_recipes WHERE collection_id = collections.id) as recipe_count,
+    (
+      SELECT recipes.image FROM collection_recipes
+      JOIN recipes ON recipes.id = collection_recipes.recipe_id
+      WHERE collection_recipes.collection_id = collections.id
+        AND recipes.image IS NOT NULL
+        AND (recipes.is_public = true OR collections.visibility <> 'public')
+      ORDER BY collection_recipes.position ASC
+      LIMIT 1
+    ) as first_recipe_image
+  FROM collections
+  LEFT JOIN users ON users.id = collections.user_id
+`
+}
+
+function rowToCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    householdId: row.household_id || undefined,
+    name: row.name,
+    description: row.description || undefined,
+    coverImage: row.cover_image || undefined,
+    visibility: row.visibility,
+    recipeCount: Number(row.recipe_count) || 0,
+    firstRecipeImage: row.first_recipe_image || undefined,
+    ownerDisplayName: row.owner_display_name || undefined,
+    ...(row.contains_recipe !== undefined && { containsRecipe: Boolean(row.contains_recipe) }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export interface CollectionData {
+  name?: string
+  description?: string | null
+  coverImage?: string | null
+  visibility?: CollectionVisibility
+}
+
+export const collectionModel = {
+  /**
+   * Collections the user can edit: their own, plus shared and public ones from their household.
+   * When a recipe id is given, each collection says whether it already contains that recipe.
+   */
+  async findEditable(userId: string, householdId?: string, recipeId?: string): Promise<Collection[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const params: any[] = [userId, householdId ?? null]
+
+    let containsColumn = ''
+    if (recipeId) {
+      params.push(recipeId)
+      containsColumn = `
+    EXISTS (SELECT 1 FROM collection_recipes WHERE collection_id = collections.id AND recipe_id = $3) as contains_recipe,`
+    }
+
+    const rows = await db.all<CollectionRow>(
+      `${selectWithCounts(containsColumn)}
+       WHERE collections.user_id = $1
+         OR (
+           collections.visibility <> 'private'
+           AND (
+             collections.household_id = $2
+             OR (collections.household_id IS NULL AND collections.user_id IN (SELECT user_id FROM household_members WHERE household_id = $2))
+           )
+         )
+       ORDER BY collections.updated_at DESC`,
+      params
+    )
+    return rows.map(rowToCollection)
+  },
+
+  async findById(id: string): Promise<Collection | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<CollectionRow>(`${selectWithCounts()} WHERE collections.id = $1`, [id])
+    return row ? rowToCollection(row) : null
+  },
+
+  async create(userId: string, householdId: string | undefined, data: CollectionData & { name: string }): Promise<Collection> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO collections (id, user_id, household_id, name, description, cover_image, visibility, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        id,
+        userId,
+        householdId || null,
+        data.name,
+        data.description || null,
+        data.coverImage || null,
+        data.visibility || 'private',
+        now,
+        now
+      ]
+    )
+
+    return (await this.findById(id))!
+  },
+
+  async update(id: string, data: CollectionData): Promise<Collection | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const updates: string[] = []
+    const params: any[] = []
+
+    const addUpdate = (column: string, value: unknown) => {
+      params.push(value)
+      updates.push(`${column} = $${params.length}`)
+    }
+
+    if (data.name !== undefined) addUpdate('name', data.name)
+    if (data.description !== undefined) addUpdate('description', data.description || null)
+    if (data.coverImage !== undefined) addUpdate('cover_image', data.coverImage || null)
+    if (data.visibility !== undefined) addUpdate('visibility', data.visibility)
+
+    if (updates.length > 0) {
+      addUpdate('updated_at', new Date().toISOString())
+      params.push(id)
+      await db.run(`UPDATE collections SET ${updates.join(', ')} WHERE id = $${params.length}`, params)
+    }
+
+    return this.findById(id)
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM collections WHERE id = $1', [id])
+  },
+
+  // Recipe ids in the collection's order
+  async getRecipeIds(id: string): Promise<string[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<{ recipe_id: string }>(
+      'SELECT recipe_id FROM collection_recipes WHERE collection_id = $1 ORDER BY position ASC, added_at ASC',
+      [id]
+    )
+    return rows.map(row => row.recipe_id)
+  },
+
+  // Appends the recipe at the end; adding a recipe that is already in the collection is a no-op
+  async addRecipe(id: string, recipeId: string, userId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `INSERT INTO collection_recipes (collection_id, recipe_id, position, added_by, added_at)
+       VALUES (
+         $1, $2,
+         (SELECT COALESCE(MAX(position), 0) + 1 FROM collection_recipes WHERE collection_id = $1),
+         $3, $4
+       )
+       ON CONFLICT (collection_id, recipe_id) DO NOTHING`,
+      [id, recipeId, userId, new Date().toISOString()]
+    )
+    await this.touch(id)
+  },
+
+  async removeRecipe(id: string, recipeId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM collection_recipes WHERE collection_id = $1 AND recipe_id = $2', [id, recipeId])
+    await this.touch(id)
+  },
+
+  // Positions follow the order of the given ids, in a single statement so readers never see a half-applied order
+  async reorder(id: string, recipeIds: string[]): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `UPDATE collection_recipes SET position = ordered.position
+       FROM unnest($2::text[]) WITH ORDINALITY AS ordered(recipe_id, position)
+       WHERE collection_recipes.collection_id = $1 AND collection_recipes.recipe_id = ordered.recipe_id`,
+      [id, recipeIds]
+    )
+    await this.touch(id)
+  },
+
+  async touch(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('UPDATE collections SET updated_at = $1 WHERE id = $2', [new Date().toISOString(), id])
+  }
+}
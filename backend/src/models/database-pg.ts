@@ -1,4 +1,5 @@
-import { Pool, Client } from 'pg'
+import { Pool, Client, PoolClient } from 'pg'
+import { buildSearchConfigCaseSql } from '../utils/searchHelper'
 
 export class PostgreSQLDatabase {
   private static instance: PostgreSQLDatabase
@@ -71,6 +72,38 @@ export class PostgreSQLDatabase {
         )
       `
 
+      // Household membership with each member's role (owner, admin, member or viewer); a user can belong to several households, and users.household_id is the active one
+      const createHouseholdMembersTable = `
+        CREATE TABLE IF NOT EXISTS household_members (
+          household_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'member',
+          joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (household_id, user_id),
+          FOREIGN KEY (household_id) REFERENCES households(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
+      // Household invite links with an expiry, optional use limit and target email; only the token's hash is stored
+      const createHouseholdInvitationsTable = `
+        CREATE TABLE IF NOT EXISTS household_invitations (
+          id TEXT PRIMARY KEY,
+          household_id TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          created_by TEXT NOT NULL,
+          email TEXT,
+          role TEXT NOT NULL DEFAULT 'member',
+          max_uses INTEGER,
+          use_count INTEGER NOT NULL DEFAULT 0,
+          expires_at TIMESTAMP NOT NULL,
+          revoked_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (household_id) REFERENCES households(id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
       // Sessions table for express-session (connect-pg-simple will create this automatically)
       // We don't need to create this table as connect-pg-simple handles it
 
@@ -126,6 +159,229 @@ export class PostgreSQLDatabase {
         )
       `
 
+      // Pantry items table (ingredients the user or household has on hand)
+      const createPantryItemsTable = `
+        CREATE TABLE IF NOT EXISTS pantry_items (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          household_id TEXT,
+          name TEXT NOT NULL,
+          display_name TEXT NOT NULL,
+          category TEXT DEFAULT 'OTHER',
+          quantity TEXT,
+          unit TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (household_id) REFERENCES households(id)
+        )
+      `
+
+      // Meal plans table (recipes scheduled per day and meal slot)
+      const createMealPlansTable = `
+        CREATE TABLE IF NOT EXISTS meal_plans (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          household_id TEXT,
+          plan_date DATE NOT NULL,
+          meal_slot TEXT NOT NULL,
+          recipe_id TEXT NOT NULL,
+          servings INTEGER,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (household_id) REFERENCES households(id),
+          FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+        )
+      `
+
+      // Recipe revisions table (snapshot of the recipe content after every change)
+      const createRecipeRevisionsTable = `
+        CREATE TABLE IF NOT EXISTS recipe_revisions (
+          id TEXT PRIMARY KEY,
+          recipe_id TEXT NOT NULL,
+          revision_number INTEGER NOT NULL,
+          change_type TEXT NOT NULL,
+          user_id TEXT,
+          restored_from INTEGER,
+          snapshot TEXT NOT NULL,
+          changed_fields TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+          UNIQUE (recipe_id, revision_number)
+        )
+      `
+
+      // Cook log: every time someone cooks a recipe, with an optional rating, notes and photo
+      const createRecipeCooksTable = `
+        CREATE TABLE IF NOT EXISTS recipe_cooks (
+          id TEXT PRIMARY KEY,
+          recipe_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          cooked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+          notes TEXT,
+          image TEXT,
+          image_sizes TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
+      // Discussion on public recipes; replies reference their parent comment
+      const createRecipeCommentsTable = `
+        CREATE TABLE IF NOT EXISTS recipe_comments (
+          id TEXT PRIMARY KEY,
+          recipe_id TEXT NOT NULL,
+          parent_id TEXT,
+          user_id TEXT NOT NULL,
+          body TEXT NOT NULL,
+          hidden_at TIMESTAMP,
+          hidden_by TEXT,
+          deleted_at TIMESTAMP,
+          edited_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+          FOREIGN KEY (parent_id) REFERENCES recipe_comments(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (hidden_by) REFERENCES users(id) ON DELETE SET NULL
+        )
+      `
+
+      // One report per user and comment; enough reports hide the comment until a moderator reviews it
+      const createRecipeCommentReportsTable = `
+        CREATE TABLE IF NOT EXISTS recipe_comment_reports (
+          comment_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          reason TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (comment_id, user_id),
+          FOREIGN KEY (comment_id) REFERENCES recipe_comments(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
+      // Collections: ordered, hand-picked groups of recipes owned by a user and optionally shared with their household
+      const createCollectionsTable = `
+        CREATE TABLE IF NOT EXISTS collections (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          household_id TEXT,
+          name TEXT NOT NULL,
+          description TEXT,
+          cover_image TEXT,
+          visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'shared', 'public')),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (household_id) REFERENCES households(id)
+        )
+      `
+
+      const createCollectionRecipesTable = `
+        CREATE TABLE IF NOT EXISTS collection_recipes (
+          collection_id TEXT NOT NULL,
+          recipe_id TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          added_by TEXT,
+          added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (collection_id, recipe_id),
+          FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+          FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+          FOREIGN KEY (added_by) REFERENCES users(id) ON DELETE SET NULL
+        )
+      `
+
+      // Bulk recipe imports from other recipe managers, with per-recipe results
+      const createRecipeImportJobsTable = `
+        CREATE TABLE IF NOT EXISTS recipe_import_jobs (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          household_id TEXT,
+          filename TEXT NOT NULL,
+          format TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          total INTEGER NOT NULL DEFAULT 0,
+          processed INTEGER NOT NULL DEFAULT 0,
+          succeeded INTEGER NOT NULL DEFAULT 0,
+          failed INTEGER NOT NULL DEFAULT 0,
+          results TEXT,
+          error TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          completed_at TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (household_id) REFERENCES households(id)
+        )
+      `
+
+      // Queued single-recipe imports (URL, text or photo), retried with backoff until they succeed or give up
+      const createImportJobsTable = `
+        CREATE TABLE IF NOT EXISTS import_jobs (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          input TEXT NOT NULL,
+          input_file BYTEA,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 3,
+          run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          locked_at TIMESTAMP,
+          result TEXT,
+          error TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          completed_at TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
+      // Single-use links emailed for password resets, email verification and email changes; only hashes are stored
+      const createAuthTokensTable = `
+        CREATE TABLE IF NOT EXISTS auth_tokens (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          new_email TEXT,
+          expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `
+
+      // Recipe data scraped from a page, shared by every user importing it until it expires
+      const createScrapeCacheTable = `
+        CREATE TABLE IF NOT EXISTS scrape_cache (
+          canonical_url TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          host TEXT NOT NULL,
+          data TEXT NOT NULL,
+          scraper TEXT,
+          fetched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          expires_at TIMESTAMP NOT NULL
+        )
+      `
+
+      // Scrape outcomes per host, for spotting sites the scrapers no longer handle
+      const createScrapeHostStatsTable = `
+        CREATE TABLE IF NOT EXISTS scrape_host_stats (
+          host TEXT PRIMARY KEY,
+          success_count INTEGER NOT NULL DEFAULT 0,
+          failure_count INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          last_success_at TIMESTAMP,
+          last_failure_at TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `
+
       // Blocked IPs table for security
       const createBlockedIPsTable = `
         CREATE TABLE IF NOT EXISTS blocked_ips (
@@ -142,6 +398,8 @@ export class PostgreSQLDatabase {
       const createIndexes = [
         'CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)',
         'CREATE INDEX IF NOT EXISTS idx_users_google_id ON users(google_id)',
+        'CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id)',
+        'CREATE INDEX IF NOT EXISTS idx_household_invitations_household_id ON household_invitations(household_id, created_at)',
         'CREATE INDEX IF NOT EXISTS idx_recipes_user_id ON recipes(user_id)',
         'CREATE INDEX IF NOT EXISTS idx_recipes_household_id ON recipes(household_id)',
         'CREATE INDEX IF NOT EXISTS idx_recipes_is_public ON recipes(is_public)',
@@ -150,14 +408,46 @@ export class PostgreSQLDatabase {
         'CREATE INDEX IF NOT EXISTS idx_shopping_lists_is_completed ON shopping_lists(is_completed)',
         'CREATE INDEX IF NOT EXISTS idx_shopping_lists_recipe_id ON shopping_lists(recipe_id)',
         'CREATE INDEX IF NOT EXISTS idx_shopping_lists_category ON shopping_lists(category)',
+        'CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id)',
+        'CREATE INDEX IF NOT EXISTS idx_pantry_items_household_id ON pantry_items(household_id)',
+        'CREATE INDEX IF NOT EXISTS idx_meal_plans_user_date ON meal_plans(user_id, plan_date)',
+        'CREATE INDEX IF NOT EXISTS idx_meal_plans_household_date ON meal_plans(household_id, plan_date)',
+        'CREATE INDEX IF NOT EXISTS idx_recipe_cooks_recipe_id ON recipe_cooks(recipe_id, cooked_at)',
+        'CREATE INDEX IF NOT EXISTS idx_recipe_cooks_user_id ON recipe_cooks(user_id)',
+        'CREATE INDEX IF NOT EXISTS idx_recipe_comments_recipe_id ON recipe_comments(recipe_id, created_at)',
+        'CREATE INDEX IF NOT EXISTS idx_recipe_comments_parent_id ON recipe_comments(parent_id)',
+        'CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id)',
+        'CREATE INDEX IF NOT EXISTS idx_collections_household_id ON collections(household_id)',
+        'CREATE INDEX IF NOT EXISTS idx_collection_recipes_recipe_id ON collection_recipes(recipe_id)',
+        'CREATE INDEX IF NOT EXISTS idx_recipe_import_jobs_user_id ON recipe_import_jobs(user_id, created_at)',
+        'CREATE INDEX IF NOT EXISTS idx_import_jobs_user_id ON import_jobs(user_id, created_at)',
+        'CREATE INDEX IF NOT EXISTS idx_import_jobs_status_run_at ON import_jobs(status, run_at)',
+        'CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_type ON auth_tokens(user_id, type)',
+        'CREATE INDEX IF NOT EXISTS idx_scrape_cache_expires_at ON scrape_cache(expires_at)',
+        'CREATE INDEX IF NOT EXISTS idx_scrape_cache_host ON scrape_cache(host)',
         'CREATE INDEX IF NOT EXISTS idx_blocked_ips_ip_address ON blocked_ips(ip_address)',
       ]
 
       // Execute table creation
       await client.query(createHouseholdsTable)
       await client.query(createUsersTable)
+      await client.query(createHouseholdMembersTable)
+      await client.query(createHouseholdInvitationsTable)
       await client.query(createRecipesTable)
       await client.query(createShoppingListsTable)
+      await client.query(createPantryItemsTable)
+      await client.query(createMealPlansTable)
+      await client.query(createRecipeRevisionsTable)
+      await client.query(createRecipeCooksTable)
+      await client.query(createRecipeCommentsTable)
+      await client.query(createRecipeCommentReportsTable)
+      await client.query(createCollectionsTable)
+      await client.query(createCollectionRecipesTable)
+      await client.query(createRecipeImportJobsTable)
+      await client.query(createImportJobsTable)
+      await client.query(createAuthTokensTable)
+      await client.query(createScrapeCacheTable)
+      await client.query(createScrapeHostStatsTable)
       await client.query(createBlockedIPsTable)
 
       // Create indexes
@@ -210,6 +500,45 @@ export class PostgreSQLDatabase {
         ADD COLUMN IF NOT EXISTS language VARCHAR(2)
       `)
 
+      // Add estimated nutrition column to recipes table (for migration)
+      await client.query(`
+        ALTER TABLE recipes
+        ADD COLUMN IF NOT EXISTS nutrition TEXT
+      `)
+
+      // Add dietary labels column to recipes table (for migration)
+      await client.query(`
+        ALTER TABLE recipes
+        ADD COLUMN IF NOT EXISTS dietary_labels TEXT
+      `)
+
+      // Add measurement system preference to users table (for migration)
+      await client.query(`
+        ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS unit_system TEXT DEFAULT 'metric'
+      `)
+
+      // Add email verification time to users table (for migration); Google has already verified its users' emails
+      await client.query(`
+        ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP
+      `)
+      await client.query(`
+        UPDATE users SET email_verified_at = created_at
+        WHERE google_id IS NOT NULL AND email_verified_at IS NULL
+      `)
+
+      // Record memberships from before roles existed; the creator owns the household (for migration)
+      await client.query(`
+        INSERT INTO household_members (household_id, user_id, role, joined_at)
+        SELECT u.household_id, u.id, CASE WHEN h.created_by = u.id THEN 'owner' ELSE 'member' END, u.created_at
+        FROM users u
+        JOIN households h ON h.id = u.household_id
+        ON CONFLICT (household_id, user_id) DO NOTHING
+      `)
+
+      await this.createSearchObjects(client)
+
       await client.query('COMMIT')
       console.log('PostgreSQL tables and indexes created successfully')
     } catch (error) {
@@ -221,6 +550,66 @@ export class PostgreSQLDatabase {
     }
   }
 
+  /**
+   * Full-text search support: a weighted tsvector on recipes kept up to date by a trigger.
+   * The dictionary is picked per row from recipes.language.
+   */
+  private async createSearchObjects(client: PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE recipes
+      ADD COLUMN IF NOT EXISTS search_vector tsvector
+    `)
+
+    await client.query(`
+      CREATE OR REPLACE FUNCTION recipe_search_config(lang TEXT)
+      RETURNS regconfig AS $$
+        SELECT ${buildSearchConfigCaseSql('lang')}
+      $$ LANGUAGE SQL IMMUTABLE
+    `)
+
+    // Flattens the JSON stored in ingredients/instructions/tags into plain text
+    await client.query(`
+      CREATE OR REPLACE FUNCTION recipe_json_text(value TEXT)
+      RETURNS TEXT AS $$
+        SELECT COALESCE(string_agg(item #>> '{}', ' '), '')
+        FROM jsonb_path_query(
+          CASE WHEN value IS NULL OR value = '' THEN '[]'::jsonb ELSE value::jsonb END,
+          'strict $.** ? (@.type() == "string")'
+        ) AS item
+      $$ LANGUAGE SQL IMMUTABLE
+    `)
+
+    await client.query(`
+      CREATE OR REPLACE FUNCTION recipes_search_vector_update()
+      RETURNS trigger AS $$
+      DECLARE
+        cfg regconfig := recipe_search_config(NEW.language);
+      BEGIN
+        NEW.search_vector :=
+          setweight(to_tsvector(cfg, COALESCE(NEW.name, '')), 'A') ||
+          setweight(to_tsvector(cfg, recipe_json_text(NEW.tags)), 'B') ||
+          setweight(to_tsvector(cfg, recipe_json_text(NEW.ingredients)), 'B') ||
+          setweight(to_tsvector(cfg, COALESCE(NEW.description, '')), 'C') ||
+          setweight(to_tsvector(cfg, recipe_json_text(NEW.instructions)), 'D');
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql
+    `)
+
+    await client.query('DROP TRIGGER IF EXISTS recipes_search_vector_trigger ON recipes')
+    await client.query(`
+      CREATE TRIGGER recipes_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF name, description, ingredients, instructions, tags, language
+      ON recipes
+      FOR EACH ROW EXECUTE FUNCTION recipes_search_vector_update()
+    `)
+
+    await client.query('CREATE INDEX IF NOT EXISTS idx_recipes_search_vector ON recipes USING GIN (search_vector)')
+
+    // Backfill rows created before the search column existed
+    await client.query('UPDATE recipes SET name = name WHERE search_vector IS NULL')
+  }
+
   async query(text: string, params: any[] = []): Promise<any> {
     if (!this.pool) throw new Error('Database not initialized')
 
@@ -233,6 +622,26 @@ export class PostgreSQLDatabase {
     }
   }
 
+  /**
+   * Run several statements on one connection inside a transaction, rolling back if any of them fails
+   */
+  async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    if (!this.pool) throw new Error('Database not initialized')
+
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      const result = await work(client)
+      await client.query('COMMIT')
+      return result
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
   async run(sql: string, params: any[] = []): Promise<void> {
     await this.query(sql, params)
   }
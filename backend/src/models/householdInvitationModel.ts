@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { HouseholdInvitation, HouseholdInvitationRow, HouseholdRole } from '../types/household'
+import { getInvitationStatus } from '../utils/householdInvitations'
+
+function rowToInvitation(row: HouseholdInvitationRow): HouseholdInvitation {
+  const invitation = {
+    id: row.id,
+    householdId: row.household_id,
+    createdBy: row.created_by,
+    email: row.email || undefined,
+    role: row.role,
+    maxUses: row.max_uses ?? undefined,
+    useCount: row.use_count,
+    expiresAt: new Date(row.expires_at).toISOString(),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at).toISOString() : undefined,
+    createdAt: new Date(row.created_at).toISOString()
+  }
+  return { ...invitation, status: getInvitationStatus(invitation) }
+}
+
+// Invitations this long past their expiry or revocation are deleted
+const STALE_INVITATION_MS = 30 * 24 * 60 * 60 * 1000
+
+export const householdInvitationModel = {
+  async create(data: {
+    householdId: string
+    createdBy: string
+    tokenHash: string
+    expiresAt: Date
+    maxUses: number | null
+    email: string | null
+    role: HouseholdRole
+  }): Promise<HouseholdInvitation> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<HouseholdInvitationRow>(
+      `INSERT INTO household_invitations (id, household_id, token_hash, created_by, email, role, max_uses, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        uuidv4(),
+        data.householdId,
+        data.tokenHash,
+        data.createdBy,
+        data.email,
+        data.role,
+        data.maxUses,
+        data.expiresAt.toISOString(),
+        new Date().toISOString()
+      ]
+    )
+    return rowToInvitation(row!)
+  },
+
+  async findByTokenHash(tokenHash: string): Promise<HouseholdInvitation | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<HouseholdInvitationRow>('SELECT * FROM household_invitations WHERE token_hash = $1', [tokenHash])
+    return row ? rowToInvitation(row) : null
+  },
+
+  // Newest first, including expired, used up and revoked ones
+  async findByHousehold(householdId: string): Promise<HouseholdInvitation[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<HouseholdInvitationRow>(
+      'SELECT * FROM household_invitations WHERE household_id = $1 ORDER BY created_at DESC',
+      [householdId]
+    )
+    return rows.map(rowToInvitation)
+  },
+
+  /**
+   * Revoke an invitation of a household
+   * @returns False when the household has no such invitation or it was already revoked
+   */
+  async revoke(id: string, householdId: string): Promise<boolean> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<{ id: string }>(
+      `UPDATE household_invitations SET revoked_at = $1
+       WHERE id = $2 AND household_id = $3 AND revoked_at IS NULL
+       RETURNING id`,
+      [new Date().toISOString(), id, householdId]
+    )
+    return rows.length > 0
+  },
+
+  /**
+   * Count one use of an invitation, in one statement so concurrent accepts cannot exceed its limit
+   * @returns The invitation, or null when it is revoked, expired or used up
+   */
+  async use(id: string): Promise<HouseholdInvitation | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<HouseholdInvitationRow>(
+      `UPDATE household_invitations SET use_count = use_count + 1
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > $2 AND (max_uses IS NULL OR use_count < max_uses)
+       RETURNING *`,
+      [id, new Date().toISOString()]
+    )
+    return row ? rowToInvitation(row) : null
+  },
+
+  async deleteStale(): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const cutoff = new Date(Date.now() - STALE_INVITATION_MS).toISOString()
+    const rows = await db.all<{ id: string }>(
+      'DELETE FROM household_invitations WHERE expires_at <= $1 OR revoked_at <= $1 RETURNING id',
+      [cutoff]
+    )
+    return rows.length
+  }
+}
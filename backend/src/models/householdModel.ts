@@ -1,6 +1,14 @@
 import { v4 as uuidv4 } from 'uuid'
 import { PostgreSQLDatabase } from './database-pg'
-import { Household, CreateHouseholdRequest, HouseholdRow, HouseholdMember } from '../types/household'
+import {
+  Household,
+  CreateHouseholdRequest,
+  HouseholdRow,
+  HouseholdMember,
+  HouseholdMemberRow,
+  HouseholdMembership,
+  HouseholdRole
+} from '../types/household'
 import { userModel } from './userModel'
 
 function generateInviteCode(): string {
@@ -13,6 +21,14 @@ function generateInviteCode(): string {
   return result
 }
 
+// The household a user switches to when they lose their active one: their oldest remaining membership
+const NEXT_ACTIVE_HOUSEHOLD_SQL = `
+  SELECT household_members.household_id FROM household_members
+  WHERE household_members.user_id = users.id
+  ORDER BY household_members.joined_at ASC
+  LIMIT 1
+`
+
 export const householdModel = {
   async findById(id: string): Promise<HouseholdRow | null> {
     const db = PostgreSQLDatabase.getInstance()
@@ -48,8 +64,8 @@ export const householdModel = {
 
     await db.run(sql, params)
 
-    // Add creator to household
-    await userModel.updateHousehold(createdBy, id)
+    // Add creator to household as its owner
+    await this.addMember(id, createdBy, 'owner')
 
     return {
       id,
@@ -64,12 +80,21 @@ export const householdModel = {
     const householdRow = await this.findById(id)
     if (!householdRow) return null
 
-    const memberRows = await userModel.getHouseholdMembers(id)
+    const db = PostgreSQLDatabase.getInstance()
+    const memberRows = await db.all<{ id: string; email: string; display_name: string; role: HouseholdRole; joined_at: string }>(
+      `SELECT users.id, users.email, users.display_name, household_members.role, household_members.joined_at
+       FROM household_members
+       JOIN users ON users.id = household_members.user_id
+       WHERE household_members.household_id = $1
+       ORDER BY household_members.joined_at ASC`,
+      [id]
+    )
     const members: HouseholdMember[] = memberRows.map(row => ({
       id: row.id,
       email: row.email,
       displayName: row.display_name,
-      joinedAt: row.created_at
+      role: row.role,
+      joinedAt: row.joined_at
     }))
 
     return {
@@ -82,12 +107,108 @@ export const householdModel = {
     }
   },
 
-  async addMember(householdId: string, userId: string): Promise<void> {
+  // Every household the user belongs to, oldest membership first
+  async findForUser(userId: string): Promise<HouseholdMembership[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<{ id: string; name: string; role: HouseholdRole; member_count: number; joined_at: string }>(
+      `SELECT households.id, households.name, household_members.role, household_members.joined_at,
+        (SELECT COUNT(*)::int FROM household_members others WHERE others.household_id = households.id) as member_count
+       FROM household_members
+       JOIN households ON households.id = household_members.household_id
+       WHERE household_members.user_id = $1
+       ORDER BY household_members.joined_at ASC`,
+      [userId]
+    )
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      role: row.role,
+      memberCount: row.member_count,
+      joinedAt: row.joined_at
+    }))
+  },
+
+  async findMember(householdId: string, userId: string): Promise<HouseholdMemberRow | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<HouseholdMemberRow>(
+      'SELECT * FROM household_members WHERE household_id = $1 AND user_id = $2',
+      [householdId, userId]
+    )
+    return row || null
+  },
+
+  async getMemberRole(householdId: string, userId: string): Promise<HouseholdRole | null> {
+    const member = await this.findMember(householdId, userId)
+    return member ? member.role : null
+  },
+
+  async countMembers(householdId: string): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM household_members WHERE household_id = $1',
+      [householdId]
+    )
+    return row ? parseInt(row.count, 10) : 0
+  },
+
+  // Joining makes the household the user's active one
+  async addMember(householdId: string, userId: string, role: HouseholdRole = 'member'): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `INSERT INTO household_members (household_id, user_id, role, joined_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (household_id, user_id) DO NOTHING`,
+      [householdId, userId, role, new Date().toISOString()]
+    )
     await userModel.updateHousehold(userId, householdId)
   },
 
-  async removeMember(userId: string): Promise<void> {
-    await userModel.updateHousehold(userId, null)
+  // A user removed from their active household switches to their oldest remaining one, if any
+  async removeMember(householdId: string, userId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM household_members WHERE household_id = $1 AND user_id = $2', [householdId, userId])
+    await db.run(
+      `UPDATE users SET household_id = (${NEXT_ACTIVE_HOUSEHOLD_SQL}), updated_at = $1
+       WHERE id = $2 AND household_id = $3`,
+      [new Date().toISOString(), userId, householdId]
+    )
+  },
+
+  async updateMemberRole(householdId: string, userId: string, role: HouseholdRole): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      'UPDATE household_members SET role = $1 WHERE household_id = $2 AND user_id = $3',
+      [role, householdId, userId]
+    )
+  },
+
+  // Swap roles in one statement so the household always has exactly one owner; the previous owner stays on as an admin
+  async transferOwnership(householdId: string, fromUserId: string, toUserId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `UPDATE household_members
+       SET role = CASE WHEN user_id = $3 THEN 'owner' ELSE 'admin' END
+       WHERE household_id = $1 AND user_id IN ($2, $3)`,
+      [householdId, fromUserId, toUserId]
+    )
+  },
+
+  // Shared recipes, lists, plans and collections go back to the members who created them
+  async delete(householdId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.transaction(async client => {
+      for (const table of ['recipes', 'shopping_lists', 'pantry_items', 'meal_plans', 'collections', 'recipe_import_jobs']) {
+        await client.query(`UPDATE ${table} SET household_id = NULL WHERE household_id = $1`, [householdId])
+      }
+      await client.query('DELETE FROM household_members WHERE household_id = $1', [householdId])
+      await client.query(
+        `UPDATE users SET household_id = (${NEXT_ACTIVE_HOUSEHOLD_SQL}), updated_at = $1 WHERE household_id = $2`,
+        [now, householdId]
+      )
+      await client.query('DELETE FROM households WHERE id = $1', [householdId])
+    })
   },
 
   async regenerateInviteCode(householdId: string): Promise<string> {
@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import {
+  ImportJob,
+  ImportJobInput,
+  ImportJobResult,
+  ImportJobRow,
+  ImportJobType
+} from '../types/importJob'
+import { DEFAULT_IMPORT_JOB_MAX_ATTEMPTS, IMPORT_JOB_STALE_LOCK_MS } from '../utils/importJobHelper'
+
+// Everything except the uploaded photo, which only the worker needs
+const JOB_COLUMNS = `id, user_id, type, input, status, attempts, max_attempts, run_at, locked_at,
+  result, error, created_at, updated_at, completed_at`
+
+function rowToImportJob(row: Omit<ImportJobRow, 'input_file'>): ImportJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    input: JSON.parse(row.input),
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.status === 'pending' && row.attempts > 0 ? row.run_at : undefined,
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at || undefined
+  }
+}
+
+export const importJobModel = {
+  async findById(id: string, userId: string): Promise<ImportJob | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<ImportJobRow>(
+      `SELECT ${JOB_COLUMNS} FROM import_jobs WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    )
+    return row ? rowToImportJob(row) : null
+  },
+
+  async findRecent(userId: string, limit = 20): Promise<ImportJob[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<ImportJobRow>(
+      `SELECT ${JOB_COLUMNS} FROM import_jobs WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2`,
+      [userId, limit]
+    )
+    return rows.map(rowToImportJob)
+  },
+
+  async countActive(userId: string): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM import_jobs WHERE user_id = $1 AND status IN ('pending', 'running')`,
+      [userId]
+    )
+    return row ? parseInt(row.count, 10) : 0
+  },
+
+  async create(data: {
+    userId: string
+    type: ImportJobType
+    input: ImportJobInput
+    file?: Buffer
+    maxAttempts?: number
+  }): Promise<ImportJob> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO import_jobs (id, user_id, type, input, input_file, status, max_attempts, run_at, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, 'pending', $6, $7, $7, $7)`,
+      [
+        id,
+        data.userId,
+        data.type,
+        JSON.stringify(data.input),
+        data.file || null,
+        data.maxAttempts ?? DEFAULT_IMPORT_JOB_MAX_ATTEMPTS,
+        now
+      ]
+    )
+
+    const job = await this.findById(id, data.userId)
+    if (!job) {
+      throw new Error('Failed to create import job')
+    }
+    return job
+  },
+
+  /**
+   * Take the oldest job that is due and mark it running, counting the attempt.
+   * SKIP LOCKED lets several workers (or several server instances) share the table without taking the same job.
+   */
+  async claimNext(): Promise<{ job: ImportJob; file?: Buffer } | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    const row = await db.get<ImportJobRow>(
+      `UPDATE import_jobs
+       SET status = 'running', attempts = attempts + 1, locked_at = $1, updated_at = $1
+       WHERE id = (
+         SELECT id FROM import_jobs
+         WHERE status = 'pending' AND run_at <= $1
+         ORDER BY run_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [now]
+    )
+    if (!row) return null
+
+    return { job: rowToImportJob(row), file: row.input_file || undefined }
+  },
+
+  // The photo is dropped once the job is finished either way; a successful import has already stored it
+  async markCompleted(id: string, result: ImportJobResult): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE import_jobs
+       SET status = 'completed', result = $2, error = NULL, input_file = NULL, locked_at = NULL,
+           updated_at = $3, completed_at = $3
+       WHERE id = $1`,
+      [id, JSON.stringify(result), now]
+    )
+  },
+
+  async scheduleRetry(id: string, error: string, runAt: Date): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `UPDATE import_jobs
+       SET status = 'pending', error = $2, run_at = $3, locked_at = NULL, updated_at = $4
+       WHERE id = $1`,
+      [id, error, runAt.toISOString(), new Date().toISOString()]
+    )
+  },
+
+  async markFailed(id: string, error: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE import_jobs
+       SET status = 'failed', error = $2, input_file = NULL, locked_at = NULL, updated_at = $3, completed_at = $3
+       WHERE id = $1`,
+      [id, error, now]
+    )
+  },
+
+  /**
+   * Input is stored with the job, so imports cut short by a restart simply run again.
+   * Only stale locks are released: a recent one may belong to another server instance still running the job.
+   */
+  async requeueInterrupted(staleAfterMs = IMPORT_JOB_STALE_LOCK_MS): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date()
+    const rows = await db.all<{ id: string }>(
+      `UPDATE import_jobs
+       SET status = 'pending', run_at = $1, locked_at = NULL, updated_at = $1
+       WHERE status = 'running' AND (locked_at IS NULL OR locked_at < $2)
+       RETURNING id`,
+      [now.toISOString(), new Date(now.getTime() - staleAfterMs).toISOString()]
+    )
+    return rows.length
+  },
+
+  // Removes a finished job from the tray, or cancels one that has not started yet
+  async delete(id: string, userId: string): Promise<boolean> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<{ id: string }>(
+      `DELETE FROM import_jobs WHERE id = $1 AND user_id = $2 AND status <> 'running' RETURNING id`,
+      [id, userId]
+    )
+    return !!row
+  }
+}
@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { MealPlanEntry, MealPlanRow } from '../types/mealPlan'
+
+const SELECT_WITH_RECIPE = `
+  SELECT meal_plans.*,
+    to_char(meal_plans.plan_date, 'YYYY-MM-DD') as plan_date,
+    recipes.name as recipe_name,
+    recipes.image as recipe_image,
+    recipes.servings as recipe_servings
+  FROM meal_plans
+  JOIN recipes ON recipes.id = meal_plans.recipe_id
+`
+
+function rowToMealPlanEntry(row: MealPlanRow): MealPlanEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    householdId: row.household_id || undefined,
+    date: row.plan_date,
+    mealSlot: row.meal_slot,
+    recipeId: row.recipe_id,
+    servings: row.servings ?? undefined,
+    recipeName: row.recipe_name || undefined,
+    recipeImage: row.recipe_image || undefined,
+    recipeServings: row.recipe_servings ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+// Meal plans are shared by the household when the user has one, otherwise personal
+function scopeClause(userId: string, householdId: string | undefined, startIndex: number): { sql: string; params: string[] } {
+  return householdId
+    ? { sql: `meal_plans.household_id = $${startIndex}`, params: [householdId] }
+    : { sql: `meal_plans.user_id = $${startIndex} AND meal_plans.household_id IS NULL`, params: [userId] }
+}
+
+export const mealPlanModel = {
+  async findInRange(userId: string, householdId: string | undefined, startDate: string, endDate: string): Promise<MealPlanEntry[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const scope = scopeClause(userId, householdId, 3)
+    const rows = await db.all<MealPlanRow>(
+      `${SELECT_WITH_RECIPE}
+       WHERE meal_plans.plan_date BETWEEN $1 AND $2 AND ${scope.sql}
+       ORDER BY meal_plans.plan_date ASC,
+         array_position(ARRAY['breakfast', 'lunch', 'dinner', 'snack'], meal_plans.meal_slot) ASC,
+         meal_plans.created_at ASC`,
+      [startDate, endDate, ...scope.params]
+    )
+    return rows.map(rowToMealPlanEntry)
+  },
+
+  async findById(id: string, userId: string, householdId?: string): Promise<MealPlanEntry | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const scope = scopeClause(userId, householdId, 2)
+    const row = await db.get<MealPlanRow>(
+      `${SELECT_WITH_RECIPE} WHERE meal_plans.id = $1 AND ${scope.sql}`,
+      [id, ...scope.params]
+    )
+    return row ? rowToMealPlanEntry(row) : null
+  },
+
+  async create(data: Pick<MealPlanEntry, 'userId' | 'householdId' | 'date' | 'mealSlot' | 'recipeId' | 'servings'>): Promise<string> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO meal_plans (
+        id, user_id, household_id, plan_date, meal_slot, recipe_id, servings, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        id,
+        data.userId,
+        data.householdId || null,
+        data.date,
+        data.mealSlot,
+        data.recipeId,
+        data.servings ?? null,
+        now,
+        now
+      ]
+    )
+
+    return id
+  },
+
+  async update(id: string, data: { date?: string; mealSlot?: string; servings?: number | null }): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const updates: string[] = []
+    const params: any[] = []
+
+    if (data.date !== undefined) {
+      updates.push(`plan_date = $${params.length + 1}`)
+      params.push(data.date)
+    }
+    if (data.mealSlot !== undefined) {
+      updates.push(`meal_slot = $${params.length + 1}`)
+      params.push(data.mealSlot)
+    }
+    if (data.servings !== undefined) {
+      updates.push(`servings = $${params.length + 1}`)
+      params.push(data.servings)
+    }
+
+    updates.push(`updated_at = $${params.length + 1}`)
+    params.push(new Date().toISOString())
+    params.push(id)
+
+    await db.run(`UPDATE meal_plans SET ${updates.join(', ')} WHERE id = $${params.length}`, params)
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM meal_plans WHERE id = $1', [id])
+  }
+}
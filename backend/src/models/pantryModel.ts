@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { PantryItem, PantryItemRow } from '../types/pantry'
+
+function rowToPantryItem(row: PantryItemRow): PantryItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    householdId: row.household_id || undefined,
+    name: row.name,
+    displayName: row.display_name,
+    category: row.category,
+    quantity: row.quantity || undefined,
+    unit: row.unit || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+// Pantries are shared by the household when the user has one, otherwise personal
+function scopeClause(userId: string, householdId: string | undefined, startIndex: number): { sql: string; params: string[] } {
+  return householdId
+    ? { sql: `household_id = $${startIndex}`, params: [householdId] }
+    : { sql: `user_id = $${startIndex} AND household_id IS NULL`, params: [userId] }
+}
+
+export const pantryModel = {
+  async findAll(userId: string, householdId?: string): Promise<PantryItem[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const scope = scopeClause(userId, householdId, 1)
+    const rows = await db.all<PantryItemRow>(
+      `SELECT * FROM pantry_items WHERE ${scope.sql} ORDER BY category ASC, display_name ASC`,
+      scope.params
+    )
+    return rows.map(rowToPantryItem)
+  },
+
+  async findById(id: string, userId: string, householdId?: string): Promise<PantryItem | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const scope = scopeClause(userId, householdId, 2)
+    const row = await db.get<PantryItemRow>(
+      `SELECT * FROM pantry_items WHERE id = $1 AND ${scope.sql}`,
+      [id, ...scope.params]
+    )
+    return row ? rowToPantryItem(row) : null
+  },
+
+  async findByDisplayName(displayName: string, userId: string, householdId?: string): Promise<PantryItem | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const scope = scopeClause(userId, householdId, 2)
+    const row = await db.get<PantryItemRow>(
+      `SELECT * FROM pantry_items WHERE lower(display_name) = lower($1) AND ${scope.sql}`,
+      [displayName, ...scope.params]
+    )
+    return row ? rowToPantryItem(row) : null
+  },
+
+  async create(data: Omit<PantryItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<PantryItem> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO pantry_items (
+        id, user_id, household_id, name, display_name, category, quantity, unit, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        id,
+        data.userId,
+        data.householdId || null,
+        data.name,
+        data.displayName,
+        data.category,
+        data.quantity || null,
+        data.unit || null,
+        now,
+        now
+      ]
+    )
+
+    return {
+      ...data,
+      id,
+      createdAt: now,
+      updatedAt: now
+    }
+  },
+
+  async update(
+    id: string,
+    data: Partial<Pick<PantryItem, 'name' | 'displayName' | 'category'>> & { quantity?: string | null; unit?: string | null }
+  ): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const updates: string[] = []
+    const params: any[] = []
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${params.length + 1}`)
+      params.push(data.name)
+    }
+    if (data.displayName !== undefined) {
+      updates.push(`display_name = $${params.length + 1}`)
+      params.push(data.displayName)
+    }
+    if (data.category !== undefined) {
+      updates.push(`category = $${params.length + 1}`)
+      params.push(data.category)
+    }
+    if (data.quantity !== undefined) {
+      updates.push(`quantity = $${params.length + 1}`)
+      params.push(data.quantity || null)
+    }
+    if (data.unit !== undefined) {
+      updates.push(`unit = $${params.length + 1}`)
+      params.push(data.unit || null)
+    }
+
+    updates.push(`updated_at = $${params.length + 1}`)
+    params.push(new Date().toISOString())
+    params.push(id)
+
+    await db.run(`UPDATE pantry_items SET ${updates.join(', ')} WHERE id = $${params.length}`, params)
+  },
+
+  async delete(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM pantry_items WHERE id = $1', [id])
+  }
+}
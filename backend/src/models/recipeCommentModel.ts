@@ -0,0 +1,125 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { RecipeComment, RecipeCommentRow } from '../types/recipeComment'
+
+// $1 is the viewer's user id, used to flag comments they already reported
+const SELECT_WITH_REPORTS = `
+  SELECT recipe_comments.*, users.display_name as user_display_name,
+    (SELECT COUNT(*) FROM recipe_comment_reports WHERE comment_id = recipe_comments.id) as report_count,
+    EXISTS (
+      SELECT 1 FROM recipe_comment_reports WHERE comment_id = recipe_comments.id AND user_id = $1
+    ) as reported_by_viewer
+  FROM recipe_comments
+  LEFT JOIN users ON users.id = recipe_comments.user_id
+`
+
+function rowToComment(row: RecipeCommentRow): RecipeComment {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    parentId: row.parent_id || undefined,
+    userId: row.user_id,
+    userDisplayName: row.user_display_name || undefined,
+    body: row.body,
+    isDeleted: row.deleted_at !== null,
+    isHidden: row.hidden_at !== null,
+    reportCount: Number(row.report_count) || 0,
+    reportedByViewer: Boolean(row.reported_by_viewer),
+    editedAt: row.edited_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export const recipeCommentModel = {
+  // All comments of a recipe, oldest first so threads read top to bottom
+  // Signed-out viewers pass no viewerId and have reported nothing
+  async findByRecipeId(recipeId: string, viewerId?: string): Promise<RecipeComment[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<RecipeCommentRow>(
+      `${SELECT_WITH_REPORTS}
+       WHERE recipe_comments.recipe_id = $2
+       ORDER BY recipe_comments.created_at ASC`,
+      [viewerId ?? null, recipeId]
+    )
+    return rows.map(rowToComment)
+  },
+
+  async findById(recipeId: string, id: string, viewerId: string): Promise<RecipeComment | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<RecipeCommentRow>(
+      `${SELECT_WITH_REPORTS} WHERE recipe_comments.recipe_id = $2 AND recipe_comments.id = $3`,
+      [viewerId, recipeId, id]
+    )
+    return row ? rowToComment(row) : null
+  },
+
+  async create(recipeId: string, userId: string, body: string, parentId?: string): Promise<RecipeComment> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO recipe_comments (id, recipe_id, parent_id, user_id, body, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, recipeId, parentId || null, userId, body, now, now]
+    )
+
+    return (await this.findById(recipeId, id, userId))!
+  },
+
+  async updateBody(recipeId: string, id: string, body: string, viewerId: string): Promise<RecipeComment | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      'UPDATE recipe_comments SET body = $1, edited_at = $2, updated_at = $2 WHERE recipe_id = $3 AND id = $4',
+      [body, now, recipeId, id]
+    )
+    return this.findById(recipeId, id, viewerId)
+  },
+
+  // Deleted comments keep their row so replies stay in place; the text is dropped
+  async softDelete(recipeId: string, id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE recipe_comments SET body = '', deleted_at = $1, updated_at = $1 WHERE recipe_id = $2 AND id = $3`,
+      [now, recipeId, id]
+    )
+  },
+
+  // hiddenBy is null when reports hid the comment automatically
+  async setHidden(recipeId: string, id: string, hidden: boolean, hiddenBy: string | null): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      'UPDATE recipe_comments SET hidden_at = $1, hidden_by = $2, updated_at = $3 WHERE recipe_id = $4 AND id = $5',
+      [hidden ? now : null, hidden ? hiddenBy : null, now, recipeId, id]
+    )
+  },
+
+  // Unhiding a comment dismisses its reports so it isn't hidden again by the old ones
+  async clearReports(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM recipe_comment_reports WHERE comment_id = $1', [id])
+  },
+
+  /**
+   * Record a report; reporting the same comment twice is a no-op
+   * @returns Number of reports on the comment
+   */
+  async report(id: string, userId: string, reason: string | null): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `INSERT INTO recipe_comment_reports (comment_id, user_id, reason, created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (comment_id, user_id) DO NOTHING`,
+      [id, userId, reason, new Date().toISOString()]
+    )
+    const row = await db.get<{ count: string }>(
+      'SELECT COUNT(*) as count FROM recipe_comment_reports WHERE comment_id = $1',
+      [id]
+    )
+    return Number(row?.count) || 0
+  }
+}
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { RecipeCook, RecipeCookRow } from '../types/recipeCook'
+import { Recipe } from '../types/recipe'
+
+export interface RecipeCookData {
+  cookedAt?: string
+  rating?: number | null
+  notes?: string | null
+  image?: string | null
+  imageSizes?: Recipe['imageSizes'] | null
+}
+
+const SELECT_WITH_USER = `
+  SELECT recipe_cooks.*, users.display_name as user_display_name
+  FROM recipe_cooks
+  LEFT JOIN users ON users.id = recipe_cooks.user_id
+`
+
+function rowToCook(row: RecipeCookRow): RecipeCook {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    userId: row.user_id,
+    userDisplayName: row.user_display_name || undefined,
+    cookedAt: row.cooked_at,
+    rating: row.rating ?? undefined,
+    notes: row.notes || undefined,
+    image: row.image || undefined,
+    imageSizes: row.image_sizes ? JSON.parse(row.image_sizes) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * SQL condition limiting cooks to the viewer's own and their household members'
+ * @param userParam - Placeholder of the viewer's user id
+ * @param householdParam - Placeholder of the viewer's household id, if they have one
+ */
+export function visibleCooksCondition(userParam: string, householdParam?: string): string {
+  return householdParam
+    ? `(recipe_cooks.user_id = ${userParam} OR recipe_cooks.user_id IN (SELECT user_id FROM household_members WHERE household_id = ${householdParam}))`
+    : `recipe_cooks.user_id = ${userParam}`
+}
+
+export const recipeCookModel = {
+  // Cooks of a recipe that the user can see, most recent first
+  async findByRecipeId(recipeId: string, userId: string, householdId?: string): Promise<RecipeCook[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const params: any[] = [recipeId, userId]
+    if (householdId) params.push(householdId)
+
+    const rows = await db.all<RecipeCookRow>(
+      `${SELECT_WITH_USER}
+       WHERE recipe_cooks.recipe_id = $1 AND ${visibleCooksCondition('$2', householdId ? '$3' : undefined)}
+       ORDER BY recipe_cooks.cooked_at DESC, recipe_cooks.created_at DESC`,
+      params
+    )
+    return rows.map(rowToCook)
+  },
+
+  async findById(recipeId: string, id: string): Promise<RecipeCook | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<RecipeCookRow>(
+      `${SELECT_WITH_USER} WHERE recipe_cooks.recipe_id = $1 AND recipe_cooks.id = $2`,
+      [recipeId, id]
+    )
+    return row ? rowToCook(row) : null
+  },
+
+  async create(recipeId: string, userId: string, data: RecipeCookData): Promise<RecipeCook> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO recipe_cooks (id, recipe_id, user_id, cooked_at, rating, notes, image, image_sizes, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        id,
+        recipeId,
+        userId,
+        data.cookedAt || now,
+        data.rating ?? null,
+        data.notes || null,
+        data.image || null,
+        data.imageSizes ? JSON.stringify(data.imageSizes) : null,
+        now,
+        now
+      ]
+    )
+
+    return (await this.findById(recipeId, id))!
+  },
+
+  async update(recipeId: string, id: string, data: RecipeCookData): Promise<RecipeCook | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const updates: string[] = []
+    const params: any[] = []
+
+    const addUpdate = (column: string, value: unknown) => {
+      params.push(value)
+      updates.push(`${column} = $${params.length}`)
+    }
+
+    if (data.cookedAt !== undefined) addUpdate('cooked_at', data.cookedAt)
+    if (data.rating !== undefined) addUpdate('rating', data.rating)
+    if (data.notes !== undefined) addUpdate('notes', data.notes || null)
+    if (data.image !== undefined) addUpdate('image', data.image || null)
+    if (data.imageSizes !== undefined) addUpdate('image_sizes', data.imageSizes ? JSON.stringify(data.imageSizes) : null)
+
+    if (updates.length > 0) {
+      addUpdate('updated_at', new Date().toISOString())
+      params.push(recipeId, id)
+      await db.run(
+        `UPDATE recipe_cooks SET ${updates.join(', ')} WHERE recipe_id = $${params.length - 1} AND id = $${params.length}`,
+        params
+      )
+    }
+
+    return this.findById(recipeId, id)
+  },
+
+  async delete(recipeId: string, id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run('DELETE FROM recipe_cooks WHERE recipe_id = $1 AND id = $2', [recipeId, id])
+  }
+}
@@ -0,0 +1,117 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import {
+  ImportFormat,
+  ImportResultEntry,
+  RecipeImportJob,
+  RecipeImportJobRow
+} from '../types/recipeImport'
+
+function rowToImportJob(row: RecipeImportJobRow): RecipeImportJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    householdId: row.household_id || undefined,
+    filename: row.filename,
+    format: row.format || undefined,
+    status: row.status,
+    total: row.total,
+    processed: row.processed,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    results: row.results ? JSON.parse(row.results) : [],
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at || undefined
+  }
+}
+
+export const recipeImportJobModel = {
+  async findById(id: string, userId: string): Promise<RecipeImportJob | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<RecipeImportJobRow>(
+      'SELECT * FROM recipe_import_jobs WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    )
+    return row ? rowToImportJob(row) : null
+  },
+
+  async findRecent(userId: string, limit = 10): Promise<RecipeImportJob[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<RecipeImportJobRow>(
+      'SELECT * FROM recipe_import_jobs WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    )
+    return rows.map(rowToImportJob)
+  },
+
+  async create(data: { userId: string; householdId?: string; filename: string }): Promise<RecipeImportJob> {
+    const db = PostgreSQLDatabase.getInstance()
+    const id = uuidv4()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO recipe_import_jobs (id, user_id, household_id, filename, status, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, 'pending', $5, $6)`,
+      [id, data.userId, data.householdId || null, data.filename, now, now]
+    )
+
+    const job = await this.findById(id, data.userId)
+    if (!job) {
+      throw new Error('Failed to create import job')
+    }
+    return job
+  },
+
+  async markRunning(id: string, format: ImportFormat, total: number): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    await db.run(
+      `UPDATE recipe_import_jobs SET status = 'running', format = $2, total = $3, updated_at = $4 WHERE id = $1`,
+      [id, format, total, new Date().toISOString()]
+    )
+  },
+
+  // Results are rewritten as a whole; imports are a few hundred recipes at most
+  async updateProgress(id: string, results: ImportResultEntry[]): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const succeeded = results.filter(result => result.status === 'imported').length
+
+    await db.run(
+      `UPDATE recipe_import_jobs
+       SET processed = $2, succeeded = $3, failed = $4, results = $5, updated_at = $6
+       WHERE id = $1`,
+      [id, results.length, succeeded, results.length - succeeded, JSON.stringify(results), new Date().toISOString()]
+    )
+  },
+
+  async markCompleted(id: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE recipe_import_jobs SET status = 'completed', updated_at = $2, completed_at = $2 WHERE id = $1`,
+      [id, now]
+    )
+  },
+
+  async markFailed(id: string, error: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE recipe_import_jobs SET status = 'failed', error = $2, updated_at = $3, completed_at = $3 WHERE id = $1`,
+      [id, error, now]
+    )
+  },
+
+  // Uploads are only held in memory, so jobs cut short by a restart cannot resume
+  async failInterrupted(): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    await db.run(
+      `UPDATE recipe_import_jobs
+       SET status = 'failed', error = 'Import was interrupted by a server restart', updated_at = $1, completed_at = $1
+       WHERE status IN ('pending', 'running')`,
+      [now]
+    )
+  }
+}
@@ -4,6 +4,13 @@ import { Recipe, CreateRecipeRequest, UpdateRecipeRequest, RecipeFilters, Ingred
 import { ingredientParser } from '../utils/ingredientParser'
 import { IngredientCategoryParser } from '../utils/ingredientCategoryParser'
 import { TagHelper } from '../utils/tagHelper'
+import { nutritionService } from '../services/nutritionService'
+import { dietaryService, allergenLabel } from '../services/dietaryService'
+import { recipeRevisionModel, RevisionContext } from './recipeRevisionModel'
+import { householdModel } from './householdModel'
+import { canEditHouseholdContent } from '../utils/householdRoles'
+import { visibleCooksCondition } from './recipeCookModel'
+import { normalizeSearchQuery, buildLikePattern, buildHeadlineOptions, hasHighlight } from '../utils/searchHelper'
 
 // Database row interface (snake_case)
 interface RecipeRow {
@@ -28,15 +35,56 @@ interface RecipeRow {
   original_text_input: string | null
   import_additional_context: string | null
   language: string | null
+  nutrition: string | null
+  dietary_labels: string | null
   created_at: string
   updated_at: string
   is_household_member?: boolean  // Computed field to check if creator is in user's household
+  // Computed fields when the query includes a full-text search
+  search_rank?: number | null
+  headline_name?: string | null
+  headline_description?: string | null
+  headline_snippet?: string | null
+  // Computed fields when the query includes cook-log stats
+  times_cooked?: number
+  last_cooked_at?: string | null
+  average_rating?: number | null
+  rating_count?: number
 }
 
-function rowToRecipe(row: RecipeRow, currentUserId?: string, currentHouseholdId?: string): Recipe {
+// Recipes a household shares: ones assigned to it, and its members' recipes that are not in another household
+function householdRecipesCondition(householdParam: string): string {
+  return `(
+    recipes.household_id = ${householdParam}
+    OR (recipes.household_id IS NULL AND recipes.user_id IN (
+      SELECT user_id FROM household_members WHERE household_id = ${householdParam}
+    ))
+  )`
+}
+
+// Cook-log stats per recipe, over the cooks the viewer can see
+function cookStatsJoin(userParam: string, householdParam?: string): string {
+  return `LEFT JOIN LATERAL (
+      SELECT COUNT(*)::int as times_cooked,
+        MAX(recipe_cooks.cooked_at) as last_cooked_at,
+        AVG(recipe_cooks.rating)::float8 as average_rating,
+        COUNT(recipe_cooks.rating)::int as rating_count
+      FROM recipe_cooks
+      WHERE recipe_cooks.recipe_id = recipes.id AND ${visibleCooksCondition(userParam, householdParam)}
+    ) cook_stats ON true`
+}
+
+// Whether the user's household role lets them change the household's recipes; viewers only read them
+async function canEditHouseholdRecipes(userId?: string, householdId?: string): Promise<boolean> {
+  if (!userId || !householdId) return false
+  return canEditHouseholdContent(await householdModel.getMemberRole(householdId, userId))
+}
+
+function rowToRecipe(row: RecipeRow, currentUserId?: string, currentHouseholdId?: string, canEditShared = false): Recipe {
   const parsedIngredients = JSON.parse(row.ingredients)
   const parsedTags = row.tags ? JSON.parse(row.tags) : []
   const parsedImageSizes = row.image_sizes ? JSON.parse(row.image_sizes) : undefined
+  const parsedNutrition = row.nutrition ? JSON.parse(row.nutrition) : undefined
 
   // Compute canEdit permission
   let canEdit = false
@@ -47,11 +95,11 @@ function rowToRecipe(row: RecipeRow, currentUserId?: string, currentHouseholdId?
     }
     // Recipe is assigned to user's household
     else if (currentHouseholdId && row.household_id === currentHouseholdId) {
-      canEdit = true
+      canEdit = canEditShared
     }
     // Recipe creator is a household member
     else if (row.is_household_member) {
-      canEdit = true
+      canEdit = canEditShared
     }
   }
 
@@ -71,15 +119,33 @@ function rowToRecipe(row: RecipeRow, currentUserId?: string, currentHouseholdId?
     isPublic: row.is_public === true,
     aiEnhancedNotes: row.ai_enhanced_notes || undefined,
     tags: parsedTags,
+    dietaryLabels: row.dietary_labels ? JSON.parse(row.dietary_labels) : [],
     userId: row.user_id || undefined,
     householdId: row.household_id || undefined,
     originalScrapedData: row.original_scraped_data || undefined,
     originalTextInput: row.original_text_input || undefined,
     importAdditionalContext: row.import_additional_context || undefined,
     language: row.language || undefined,
+    nutrition: parsedNutrition,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
-    canEdit
+    canEdit,
+    ...(row.times_cooked !== undefined && {
+      cookStats: {
+        timesCooked: row.times_cooked,
+        lastCookedAt: row.last_cooked_at || undefined,
+        averageRating: row.average_rating != null ? Math.round(row.average_rating * 10) / 10 : undefined,
+        ratingCount: row.rating_count ?? 0
+      }
+    }),
+    ...(row.search_rank !== undefined && {
+      searchRank: row.search_rank ?? 0,
+      searchHighlights: {
+        name: hasHighlight(row.headline_name) ? row.headline_name! : undefined,
+        description: hasHighlight(row.headline_description) ? row.headline_description! : undefined,
+        snippet: hasHighlight(row.headline_snippet) ? row.headline_snippet! : undefined
+      }
+    })
   }
 }
 
@@ -92,12 +158,12 @@ export const recipeModel = {
     const householdMemberParamIndex = filters.householdId ? '$1' : null
     if (filters.householdId) {
       selectClause += `,
-        (recipes.user_id IN (
-          SELECT id FROM users WHERE household_id = ${householdMemberParamIndex}
+        (recipes.household_id IS NULL AND recipes.user_id IN (
+          SELECT user_id FROM household_members WHERE household_id = ${householdMemberParamIndex}
         )) as is_household_member`
     }
 
-    let sql = `${selectClause} FROM recipes WHERE 1=1`
+    let sql = 'WHERE 1=1'
     const params: any[] = []
 
     // Add householdId as first parameter if it exists (for the SELECT clause)
@@ -105,17 +171,22 @@ export const recipeModel = {
       params.push(filters.householdId)
     }
 
+    // Signed-in users get stats from their own and their household's cook log
+    let joinClause = ''
+    if (filters.userId) {
+      params.push(filters.userId)
+      joinClause = cookStatsJoin(`$${params.length}`, filters.householdId ? '$1' : undefined)
+      selectClause += ', cook_stats.*'
+    }
+
     // Simplified 2-level privacy: private (personal + household) vs public
     if (filters.scope === 'my' && filters.userId) {
       if (filters.householdId) {
         const userParamIndex = params.length + 1
-        // householdId is already params[0], so reference $1
+        // householdId is already params[0], so reference $1; the user's recipes in their other households stay hidden
         sql += ` AND (
-          recipes.user_id = $${userParamIndex}
-          OR recipes.household_id = $1
-          OR recipes.user_id IN (
-            SELECT id FROM users WHERE household_id = $1
-          )
+          (recipes.user_id = $${userParamIndex} AND (recipes.household_id IS NULL OR recipes.household_id = $1))
+          OR ${householdRecipesCondition('$1')}
         )`
         params.push(filters.userId)
       } else {
@@ -128,13 +199,10 @@ export const recipeModel = {
     } else if (filters.scope === 'all' && filters.userId) {
       if (filters.householdId) {
         const userParamIndex = params.length + 1
-        // householdId is already params[0], so reference $1
+        // householdId is already params[0], so reference $1; the user's recipes in their other households stay hidden
         sql += ` AND (
-          recipes.user_id = $${userParamIndex}
-          OR recipes.household_id = $1
-          OR recipes.user_id IN (
-            SELECT id FROM users WHERE household_id = $1
-          )
+          (recipes.user_id = $${userParamIndex} AND (recipes.household_id IS NULL OR recipes.household_id = $1))
+          OR ${householdRecipesCondition('$1')}
           OR recipes.is_public = true
         )`
         params.push(filters.userId)
@@ -147,11 +215,35 @@ export const recipeModel = {
       sql += ' AND is_public = true'
     }
 
-    // Add search filter
-    if (filters.search) {
-      sql += ` AND (name ILIKE $${params.length + 1} OR description ILIKE $${params.length + 2})`
-      const searchTerm = `%${filters.search}%`
-      params.push(searchTerm, searchTerm)
+    // Add full-text search filter (per-recipe language dictionary, substring fallback on name/description)
+    const search = normalizeSearchQuery(filters.search)
+    if (search) {
+      params.push(search)
+      const tsQuery = `websearch_to_tsquery(recipe_search_config(recipes.language), $${params.length})`
+      params.push(buildLikePattern(search))
+      const likeParam = `$${params.length}`
+      params.push(buildHeadlineOptions())
+      const fullHeadlineParam = `$${params.length}`
+      params.push(buildHeadlineOptions(2))
+      const snippetHeadlineParam = `$${params.length}`
+
+      sql += ` AND (
+        recipes.search_vector @@ ${tsQuery}
+        OR recipes.name ILIKE ${likeParam}
+        OR recipes.description ILIKE ${likeParam}
+      )`
+
+      selectClause += `,
+        (ts_rank_cd(recipes.search_vector, ${tsQuery})
+          + CASE WHEN recipes.name ILIKE ${likeParam} THEN 0.5 ELSE 0 END)::float8 as search_rank,
+        ts_headline(recipe_search_config(recipes.language), recipes.name, ${tsQuery}, ${fullHeadlineParam}) as headline_name,
+        ts_headline(recipe_search_config(recipes.language), recipes.description, ${tsQuery}, ${fullHeadlineParam}) as headline_description,
+        ts_headline(
+          recipe_search_config(recipes.language),
+          recipe_json_text(recipes.ingredients) || ' ' || recipe_json_text(recipes.instructions) || ' ' || recipe_json_text(recipes.tags),
+          ${tsQuery},
+          ${snippetHeadlineParam}
+        ) as headline_snippet`
     }
 
     // Add explicit public filter (overrides scope if set)
@@ -167,6 +259,18 @@ export const recipeModel = {
       params.push(filters.tags)
     }
 
+    // Add diet filter (labels are derived from ingredients when recipes are saved)
+    if (filters.diet && filters.diet.length > 0) {
+      sql += ` AND COALESCE(dietary_labels, '[]')::jsonb ?& $${params.length + 1}`
+      params.push(filters.diet)
+    }
+
+    // Add allergen exclusion filter
+    if (filters.excludeAllergens && filters.excludeAllergens.length > 0) {
+      sql += ` AND NOT (COALESCE(dietary_labels, '[]')::jsonb ?| $${params.length + 1})`
+      params.push(filters.excludeAllergens.map(allergenLabel))
+    }
+
     // Add sorting
     switch (filters.sortBy) {
       case 'name':
@@ -181,6 +285,25 @@ export const recipeModel = {
       case 'recent':
         sql += ' ORDER BY created_at DESC'
         break
+      case 'relevance':
+        sql += search ? ' ORDER BY search_rank DESC, created_at DESC' : ' ORDER BY created_at DESC'
+        break
+      case 'rating':
+        sql += joinClause
+          ? ' ORDER BY cook_stats.average_rating DESC NULLS LAST, cook_stats.rating_count DESC, created_at DESC'
+          : ' ORDER BY created_at DESC'
+        break
+      case 'lastCooked':
+        // Longest since last cooked first, to bring back forgotten dishes; never-cooked recipes last
+        sql += joinClause
+          ? ' ORDER BY cook_stats.last_cooked_at ASC NULLS LAST, created_at DESC'
+          : ' ORDER BY created_at DESC'
+        break
+      case 'timesCooked':
+        sql += joinClause
+          ? ' ORDER BY cook_stats.times_cooked DESC, cook_stats.last_cooked_at DESC NULLS LAST, created_at DESC'
+          : ' ORDER BY created_at DESC'
+        break
       default:
         sql += ' ORDER BY created_at DESC'
     }
@@ -195,8 +318,9 @@ export const recipeModel = {
       params.push(filters.offset)
     }
 
-    const rows = await db.all<RecipeRow>(sql, params)
-    return rows.map(row => rowToRecipe(row, filters.userId, filters.householdId))
+    const rows = await db.all<RecipeRow>(`${selectClause} FROM recipes ${joinClause} ${sql}`, params)
+    const canEditShared = await canEditHouseholdRecipes(filters.userId, filters.householdId)
+    return rows.map(row => rowToRecipe(row, filters.userId, filters.householdId, canEditShared))
   },
 
   async findById(id: string, userId?: string, householdId?: string): Promise<Recipe | null> {
@@ -207,17 +331,63 @@ export const recipeModel = {
 
     if (householdId) {
       sql += `,
-        (recipes.user_id IN (
-          SELECT id FROM users WHERE household_id = $1
+        (recipes.household_id IS NULL AND recipes.user_id IN (
+          SELECT user_id FROM household_members WHERE household_id = $1
         )) as is_household_member`
       params.push(householdId)
     }
 
-    sql += ' FROM recipes WHERE recipes.id = $' + (params.length + 1)
+    let joinClause = ''
+    if (userId) {
+      params.push(userId)
+      joinClause = cookStatsJoin(`$${params.length}`, householdId ? '$1' : undefined)
+      sql += ', cook_stats.*'
+    }
+
+    sql += ` FROM recipes ${joinClause} WHERE recipes.id = $${params.length + 1}`
     params.push(id)
 
     const row = await db.get<RecipeRow>(sql, params)
-    return row ? rowToRecipe(row, userId, householdId) : null
+    return row ? rowToRecipe(row, userId, householdId, await canEditHouseholdRecipes(userId, householdId)) : null
+  },
+
+  // Recipes the user created, plus the household's recipes when a household id is given
+  async findForExport(userId: string, householdId?: string): Promise<Recipe[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = householdId
+      ? await db.all<RecipeRow>(
+        `SELECT * FROM recipes
+         WHERE recipes.user_id = $1 OR ${householdRecipesCondition('$2')}
+         ORDER BY name ASC`,
+        [userId, householdId]
+      )
+      : await db.all<RecipeRow>('SELECT * FROM recipes WHERE user_id = $1 ORDER BY name ASC', [userId])
+
+    const canEditShared = await canEditHouseholdRecipes(userId, householdId)
+    return rows.map(row => rowToRecipe(row, userId, householdId, canEditShared))
+  },
+
+  // Recipes among the given ids that the user may view: public ones, their own and their household's
+  async findViewableByIds(ids: string[], userId?: string, householdId?: string): Promise<Recipe[]> {
+    if (ids.length === 0) return []
+
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<RecipeRow>(
+      `SELECT recipes.*,
+        (recipes.household_id IS NULL AND recipes.user_id IN (SELECT user_id FROM household_members WHERE household_id = $3)) as is_household_member
+       FROM recipes
+       WHERE recipes.id = ANY($1)
+         AND (
+           recipes.is_public = true
+           OR recipes.user_id = $2
+           OR ${householdRecipesCondition('$3')}
+         )
+       ORDER BY name ASC`,
+      [ids, userId ?? null, householdId ?? null]
+    )
+
+    const canEditShared = await canEditHouseholdRecipes(userId, householdId)
+    return rows.map(row => rowToRecipe(row, userId, householdId, canEditShared))
   },
 
   async checkPublicNameExists(name: string, excludeId?: string): Promise<boolean> {
@@ -280,9 +450,10 @@ export const recipeModel = {
       INSERT INTO recipes (
         id, name, description, prep_time_minutes, cook_time_minutes, total_time_minutes, servings,
         ingredients, instructions, image, image_sizes, source_url, is_public, user_id, household_id, copied_from, tags,
-        original_scraped_data, original_text_input, import_additional_context, language,
+        original_scraped_data, original_text_input, import_additional_context, language, nutrition, dietary_labels,
         created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25)
+      RETURNING *
     `
 
     const params = [
@@ -307,17 +478,24 @@ export const recipeModel = {
       data.originalTextInput || null,
       data.importAdditionalContext || null,
       normalizedLanguage,
+      JSON.stringify(nutritionService.calculate(processedIngredients, servings)),
+      JSON.stringify(dietaryService.getLabels(processedIngredients)),
       now,
       now
     ]
 
-    await db.run(sql, params)
-    return this.findById(id) as Promise<Recipe>
+    return db.transaction(async client => {
+      const { rows } = await client.query<RecipeRow>(sql, params)
+      const recipe = rowToRecipe(rows[0])
+      await recipeRevisionModel.record(client, recipe, { userId: data.userId, changeType: 'create' })
+      return recipe
+    })
   },
 
-  async update(id: string, data: UpdateRecipeRequest): Promise<Recipe> {
+  async update(id: string, data: UpdateRecipeRequest, revision: RevisionContext = {}): Promise<Recipe> {
     const db = PostgreSQLDatabase.getInstance()
     const now = new Date().toISOString()
+    const previous = await this.findById(id)
 
     const updates: string[] = []
     const params: any[] = []
@@ -352,6 +530,9 @@ export const recipeModel = {
 
       updates.push(`ingredients = $${params.length + 1}`)
       params.push(JSON.stringify(processedIngredients))
+
+      updates.push(`dietary_labels = $${params.length + 1}`)
+      params.push(JSON.stringify(dietaryService.getLabels(processedIngredients)))
     }
     if (data.instructions !== undefined) {
       updates.push(`instructions = $${params.length + 1}`)
@@ -383,15 +564,52 @@ export const recipeModel = {
       const normalizedLanguage = data.language ? data.language.trim().toLowerCase() : null
       params.push(normalizedLanguage)
     }
+    // Nutrition is derived from ingredients and servings, so recompute it when either changes
+    if (previous && (data.ingredients !== undefined || data.servings !== undefined)) {
+      const nutrition = nutritionService.calculate(
+        data.ingredients ?? previous.ingredients,
+        data.servings ?? previous.servings
+      )
+      updates.push(`nutrition = $${params.length + 1}`)
+      params.push(JSON.stringify(nutrition))
+    }
 
     updates.push(`updated_at = $${params.length + 1}`)
     params.push(now)
     params.push(id)
 
-    const sql = `UPDATE recipes SET ${updates.join(', ')} WHERE id = $${params.length}`
-    await db.run(sql, params)
+    const sql = `UPDATE recipes SET ${updates.join(', ')} WHERE id = $${params.length} RETURNING *`
+    return db.transaction(async client => {
+      const { rows } = await client.query<RecipeRow>(sql, params)
+      const recipe = rowToRecipe(rows[0])
+      await recipeRevisionModel.record(client, recipe, { changeType: 'update', ...revision }, previous)
+      return recipe
+    })
+  },
+
+  /**
+   * Compute ingredient-derived fields (nutrition, dietary labels) for recipes stored before they existed
+   * @returns Number of recipes updated
+   */
+  async backfillDerivedFields(): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<Pick<RecipeRow, 'id' | 'ingredients' | 'servings'>>(
+      'SELECT id, ingredients, servings FROM recipes WHERE nutrition IS NULL OR dietary_labels IS NULL'
+    )
 
-    return this.findById(id) as Promise<Recipe>
+    for (const row of rows) {
+      const ingredients = JSON.parse(row.ingredients)
+      await db.run(
+        'UPDATE recipes SET nutrition = $1, dietary_labels = $2 WHERE id = $3',
+        [
+          JSON.stringify(nutritionService.calculate(ingredients, row.servings)),
+          JSON.stringify(dietaryService.getLabels(ingredients)),
+          row.id
+        ]
+      )
+    }
+
+    return rows.length
   },
 
   async delete(id: string): Promise<void> {
@@ -399,46 +617,81 @@ export const recipeModel = {
     await db.run('DELETE FROM recipes WHERE id = $1', [id])
   },
 
-  async updateAiEnhancedNotes(id: string, enhancedNotes: string): Promise<Recipe> {
+  async updateAiEnhancedNotes(id: string, enhancedNotes: string, userId?: string): Promise<Recipe> {
     const db = PostgreSQLDatabase.getInstance()
     const now = new Date().toISOString()
-
-    await db.run(
-      'UPDATE recipes SET ai_enhanced_notes = $1, updated_at = $2 WHERE id = $3',
-      [enhancedNotes, now, id]
-    )
-
-    return this.findById(id) as Promise<Recipe>
+    const previous = await this.findById(id)
+
+    return db.transaction(async client => {
+      const { rows } = await client.query<RecipeRow>(
+        'UPDATE recipes SET ai_enhanced_notes = $1, updated_at = $2 WHERE id = $3 RETURNING *',
+        [enhancedNotes, now, id]
+      )
+      const recipe = rowToRecipe(rows[0])
+      await recipeRevisionModel.record(client, recipe, { userId, changeType: 'enhance' }, previous)
+      return recipe
+    })
   },
 
-  async getAllTags(): Promise<string[]> {
+  // Tags with the number of recipes using them, limited to the recipes the scope lets the user see
+  async getTagCounts(filters: Pick<RecipeFilters, 'userId' | 'householdId' | 'scope'> = {}): Promise<Array<{ name: string; count: number }>> {
     const db = PostgreSQLDatabase.getInstance()
-    const rows = await db.all<{ tags: string }>('SELECT DISTINCT tags FROM recipes WHERE tags IS NOT NULL AND tags != $1', ['[]'])
-
-    const allTags = new Set<string>()
-
-    rows.forEach((row: { tags: string }) => {
-      if (row.tags) {
-        try {
-          const parsedTags = JSON.parse(row.tags)
-          if (Array.isArray(parsedTags)) {
-            parsedTags.forEach(tag => {
-              if (typeof tag === 'string' && tag.trim()) {
-                // Normalize the tag to ensure consistent capitalization
-                const normalizedTag = TagHelper.normalizeTag(tag)
-                if (normalizedTag) {
-                  allTags.add(normalizedTag)
-                }
-              }
-            })
-          }
-        } catch (e) {
-          console.warn('Failed to parse tags from row:', row.tags)
-        }
+    const scope = filters.scope || 'all'
+
+    const conditions: string[] = []
+    const params: any[] = []
+    if (scope !== 'public' && filters.userId) {
+      // Same recipes as findAll's "my" scope for the selected household
+      params.push(filters.userId)
+      if (filters.householdId) {
+        params.push(filters.householdId)
+        conditions.push(`(recipes.user_id = $1 AND (recipes.household_id IS NULL OR recipes.household_id = $2)) OR ${householdRecipesCondition('$2')}`)
+      } else {
+        conditions.push('recipes.user_id = $1')
+      }
+    }
+    if (scope !== 'my' || !filters.userId) {
+      conditions.push('is_public = true')
+    }
+
+    const rows = await db.all<{ tags: string }>(
+      `SELECT tags FROM recipes WHERE tags IS NOT NULL AND tags != '[]' AND (${conditions.join(' OR ')})`,
+      params
+    )
+
+    const tagLists = rows.map(row => {
+      try {
+        const parsedTags = JSON.parse(row.tags)
+        return Array.isArray(parsedTags) ? parsedTags.filter((tag): tag is string => typeof tag === 'string') : []
+      } catch (e) {
+        console.warn('Failed to parse tags from row:', row.tags)
+        return []
       }
     })
 
-    return Array.from(allTags).sort()
+    return TagHelper.countTags(tagLists)
+  },
+
+  async getAllTags(filters: Pick<RecipeFilters, 'userId' | 'householdId' | 'scope'> = {}): Promise<string[]> {
+    const tags = await this.getTagCounts(filters)
+    return tags.map(tag => tag.name)
+  },
+
+  // Rename, merge or remove tags across the user's own recipes and those of householdId, if given; returns how many recipes changed
+  async replaceTags(userId: string, householdId: string | undefined, fromTags: string[], toTag: string | null): Promise<number> {
+    const from = TagHelper.normalizeTags(fromTags)
+    const recipes = await this.findForExport(userId, householdId)
+    let changed = 0
+
+    for (const recipe of recipes) {
+      const tags = recipe.tags || []
+      if (!TagHelper.normalizeTags(tags).some(tag => from.includes(tag))) continue
+
+      await this.update(recipe.id, { tags: TagHelper.replaceTags(tags, from, toTag) }, { userId })
+      changed++
+    }
+
+    return changed
   },
 
   // Helper methods for auto-inference using ingredient parser
@@ -0,0 +1,164 @@
+import { PoolClient } from 'pg'
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { Recipe } from '../types/recipe'
+import {
+  RecipeRevision,
+  RecipeRevisionRow,
+  RecipeRevisionSummary,
+  RecipeSnapshot,
+  RevisionChangeType
+} from '../types/recipeRevision'
+import { buildRecipeSnapshot, getChangedFields } from '../utils/recipeDiff'
+
+export interface RevisionContext {
+  userId?: string
+  changeType?: RevisionChangeType
+  restoredFrom?: number
+}
+
+const SELECT_WITH_USER = `
+  SELECT recipe_revisions.*, users.display_name as user_display_name
+  FROM recipe_revisions
+  LEFT JOIN users ON users.id = recipe_revisions.user_id
+`
+
+function rowToRevision(row: RecipeRevisionRow): RecipeRevision {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    revisionNumber: row.revision_number,
+    changeType: row.change_type,
+    userId: row.user_id || undefined,
+    userDisplayName: row.user_display_name || undefined,
+    restoredFrom: row.restored_from ?? undefined,
+    snapshot: JSON.parse(row.snapshot) as RecipeSnapshot,
+    createdAt: row.created_at
+  }
+}
+
+function rowToSummary(row: RecipeRevisionRow): RecipeRevisionSummary {
+  const { snapshot: _snapshot, ...revision } = rowToRevision(row)
+  return {
+    ...revision,
+    changedFields: row.changed_fields ? JSON.parse(row.changed_fields) : []
+  }
+}
+
+export const recipeRevisionModel = {
+  async findByRecipeId(recipeId: string): Promise<RecipeRevisionSummary[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<RecipeRevisionRow>(
+      `${SELECT_WITH_USER} WHERE recipe_revisions.recipe_id = $1 ORDER BY recipe_revisions.revision_number DESC`,
+      [recipeId]
+    )
+    return rows.map(rowToSummary)
+  },
+
+  async findById(recipeId: string, revisionId: string): Promise<RecipeRevision | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<RecipeRevisionRow>(
+      `${SELECT_WITH_USER} WHERE recipe_revisions.recipe_id = $1 AND recipe_revisions.id = $2`,
+      [recipeId, revisionId]
+    )
+    return row ? rowToRevision(row) : null
+  },
+
+  async findPrevious(recipeId: string, revisionNumber: number): Promise<RecipeRevision | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<RecipeRevisionRow>(
+      `${SELECT_WITH_USER}
+       WHERE recipe_revisions.recipe_id = $1 AND recipe_revisions.revision_number < $2
+       ORDER BY recipe_revisions.revision_number DESC LIMIT 1`,
+      [recipeId, revisionNumber]
+    )
+    return row ? rowToRevision(row) : null
+  },
+
+  async findLatest(recipeId: string): Promise<RecipeRevision | null> {
+    return this.findPrevious(recipeId, Number.MAX_SAFE_INTEGER)
+  },
+
+  /**
+   * Record the current state of a recipe as a new revision. Runs on the transaction that wrote the recipe,
+   * so an edit is never saved without its history, and under a lock on the recipe row, so concurrent edits
+   * of one recipe are numbered one after the other and each diffs against the last.
+   * @param client - Client of the transaction that wrote the recipe
+   * @param recipe - Recipe after the change
+   * @param context - Who made the change and how
+   * @param previous - Recipe before the change; stored as a baseline when the recipe has no history yet
+   * @returns The new revision, or null when nothing versioned changed
+   */
+  async record(
+    client: PoolClient,
+    recipe: Recipe,
+    context: RevisionContext = {},
+    previous?: Recipe | null
+  ): Promise<RecipeRevision | null> {
+    await client.query('SELECT id FROM recipes WHERE id = $1 FOR UPDATE', [recipe.id])
+
+    const { rows } = await client.query<RecipeRevisionRow>(
+      `${SELECT_WITH_USER} WHERE recipe_revisions.recipe_id = $1 ORDER BY recipe_revisions.revision_number DESC LIMIT 1`,
+      [recipe.id]
+    )
+    let latest = rows[0] ? rowToRevision(rows[0]) : null
+
+    // Recipes created before revisions existed get their pre-edit state as revision 1
+    if (!latest && previous) {
+      latest = await insertRevision(client, previous.id, buildRecipeSnapshot(previous), null, {
+        userId: previous.userId,
+        changeType: 'create'
+      }, previous.createdAt)
+    }
+
+    const snapshot = buildRecipeSnapshot(recipe)
+    const changedFields = getChangedFields(latest?.snapshot || null, snapshot)
+    if (latest && changedFields.length === 0) {
+      return null
+    }
+
+    return insertRevision(client, recipe.id, snapshot, latest ? changedFields : null, context)
+  }
+}
+
+async function insertRevision(
+  client: PoolClient,
+  recipeId: string,
+  snapshot: RecipeSnapshot,
+  changedFields: string[] | null,
+  context: RevisionContext,
+  createdAt: string = new Date().toISOString()
+): Promise<RecipeRevision> {
+  const id = uuidv4()
+  const changeType = context.changeType || 'update'
+
+  const { rows } = await client.query<{ revision_number: number }>(
+    `INSERT INTO recipe_revisions (
+      id, recipe_id, revision_number, change_type, user_id, restored_from, snapshot, changed_fields, created_at
+    )
+    SELECT $1, $2, COALESCE(MAX(revision_number), 0) + 1, $3, $4, $5, $6, $7, $8
+    FROM recipe_revisions WHERE recipe_id = $2
+    RETURNING revision_number`,
+    [
+      id,
+      recipeId,
+      changeType,
+      context.userId || null,
+      context.restoredFrom ?? null,
+      JSON.stringify(snapshot),
+      changedFields ? JSON.stringify(changedFields) : null,
+      createdAt
+    ]
+  )
+
+  return {
+    id,
+    recipeId,
+    revisionNumber: rows[0].revision_number,
+    changeType,
+    userId: context.userId,
+    restoredFrom: context.restoredFrom,
+    snapshot,
+    createdAt
+  }
+}
@@ -0,0 +1,75 @@
+import { PostgreSQLDatabase } from './database-pg'
+import { ScrapeCacheEntry, ScrapeCacheRow, ScrapedRecipeData } from '../types/scraper'
+
+function rowToScrapeCacheEntry(row: ScrapeCacheRow): ScrapeCacheEntry {
+  return {
+    canonicalUrl: row.canonical_url,
+    url: row.url,
+    host: row.host,
+    data: JSON.parse(row.data),
+    scraper: row.scraper || undefined,
+    fetchedAt: row.fetched_at,
+    expiresAt: row.expires_at
+  }
+}
+
+export const scrapeCacheModel = {
+  async findFresh(canonicalUrl: string): Promise<ScrapeCacheEntry | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<ScrapeCacheRow>(
+      'SELECT * FROM scrape_cache WHERE canonical_url = $1 AND expires_at > $2',
+      [canonicalUrl, new Date().toISOString()]
+    )
+    return row ? rowToScrapeCacheEntry(row) : null
+  },
+
+  async save(data: {
+    canonicalUrl: string
+    url: string
+    host: string
+    data: ScrapedRecipeData
+    ttlMs: number
+  }): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date()
+
+    await db.run(
+      `INSERT INTO scrape_cache (canonical_url, url, host, data, scraper, fetched_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (canonical_url) DO UPDATE SET
+         url = EXCLUDED.url,
+         host = EXCLUDED.host,
+         data = EXCLUDED.data,
+         scraper = EXCLUDED.scraper,
+         fetched_at = EXCLUDED.fetched_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        data.canonicalUrl,
+        data.url,
+        data.host,
+        JSON.stringify(data.data),
+        data.data.scraper || null,
+        now.toISOString(),
+        new Date(now.getTime() + data.ttlMs).toISOString()
+      ]
+    )
+  },
+
+  // Drop every cached page, or only one host's, so the next import fetches fresh data
+  async clear(host?: string): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = host
+      ? await db.all<{ canonical_url: string }>('DELETE FROM scrape_cache WHERE host = $1 RETURNING canonical_url', [host])
+      : await db.all<{ canonical_url: string }>('DELETE FROM scrape_cache RETURNING canonical_url')
+    return rows.length
+  },
+
+  async deleteExpired(): Promise<number> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<{ canonical_url: string }>(
+      'DELETE FROM scrape_cache WHERE expires_at <= $1 RETURNING canonical_url',
+      [new Date().toISOString()]
+    )
+    return rows.length
+  }
+}
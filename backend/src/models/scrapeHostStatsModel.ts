@@ -0,0 +1,64 @@
+import { PostgreSQLDatabase } from './database-pg'
+import { ScrapeHostStats, ScrapeHostStatsRow } from '../types/scraper'
+
+// Long errors (e.g. Python tracebacks) are cut down to what fits in a table cell
+const MAX_ERROR_LENGTH = 500
+
+function rowToScrapeHostStats(row: ScrapeHostStatsRow): ScrapeHostStats {
+  const total = row.success_count + row.failure_count
+  return {
+    host: row.host,
+    successCount: row.success_count,
+    failureCount: row.failure_count,
+    failureRate: total > 0 ? Math.round((row.failure_count / total) * 100) / 100 : 0,
+    lastError: row.last_error || undefined,
+    lastSuccessAt: row.last_success_at || undefined,
+    lastFailureAt: row.last_failure_at || undefined,
+    updatedAt: row.updated_at
+  }
+}
+
+export const scrapeHostStatsModel = {
+  async recordSuccess(host: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO scrape_host_stats (host, success_count, last_success_at, updated_at)
+       VALUES ($1, 1, $2, $2)
+       ON CONFLICT (host) DO UPDATE SET
+         success_count = scrape_host_stats.success_count + 1,
+         last_success_at = EXCLUDED.last_success_at,
+         updated_at = EXCLUDED.updated_at`,
+      [host, now]
+    )
+  },
+
+  async recordFailure(host: string, error: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.run(
+      `INSERT INTO scrape_host_stats (host, failure_count, last_error, last_failure_at, updated_at)
+       VALUES ($1, 1, $2, $3, $3)
+       ON CONFLICT (host) DO UPDATE SET
+         failure_count = scrape_host_stats.failure_count + 1,
+         last_error = EXCLUDED.last_error,
+         last_failure_at = EXCLUDED.last_failure_at,
+         updated_at = EXCLUDED.updated_at`,
+      [host, error.slice(0, MAX_ERROR_LENGTH), now]
+    )
+  },
+
+  // Hosts with the most failed scrapes first
+  async findMostFailing(limit = 50): Promise<ScrapeHostStats[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = await db.all<ScrapeHostStatsRow>(
+      `SELECT * FROM scrape_host_stats
+       ORDER BY failure_count DESC, last_failure_at DESC NULLS LAST, host ASC
+       LIMIT $1`,
+      [limit]
+    )
+    return rows.map(rowToScrapeHostStats)
+  }
+}
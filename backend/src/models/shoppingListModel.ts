@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid'
+import { PostgreSQLDatabase } from './database-pg'
+import { ShoppingListItem } from '../services/shoppingListService'
+
+export interface ShoppingListRow {
+  id: string
+  user_id: string
+  household_id: string | null
+  ingredient: string
+  description: string | null
+  quantity: string | null
+  unit: string | null
+  category: string | null
+  display_name: string | null
+  recipe_id: string | null
+  recipe_name: string | null
+  is_completed: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface ShoppingListAdditions {
+  itemsToAdd: Array<Omit<ShoppingListItem, 'id' | 'createdAt' | 'updatedAt'>>
+  itemsToUpdate: Array<{ item: ShoppingListItem; newIngredient: string; newQuantity: string; newUnit?: string }>
+}
+
+export function rowToShoppingListItem(row: ShoppingListRow): ShoppingListItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    householdId: row.household_id || undefined,
+    ingredient: row.ingredient,
+    description: row.description || undefined,
+    quantity: row.quantity || undefined,
+    unit: row.unit || undefined,
+    category: row.category || undefined,
+    displayName: row.display_name || undefined,
+    recipeId: row.recipe_id || undefined,
+    recipeName: row.recipe_name || undefined,
+    isCompleted: row.is_completed,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export const shoppingListModel = {
+  // Shopping lists are shared by the household when the user has one, otherwise personal
+  async findAll(userId: string, householdId?: string): Promise<ShoppingListItem[]> {
+    const db = PostgreSQLDatabase.getInstance()
+    const rows = householdId
+      ? await db.all<ShoppingListRow>('SELECT * FROM shopping_lists WHERE household_id = $1 ORDER BY created_at DESC', [householdId])
+      : await db.all<ShoppingListRow>('SELECT * FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL ORDER BY created_at DESC', [userId])
+    return rows.map(rowToShoppingListItem)
+  },
+
+  async findById(id: string): Promise<ShoppingListItem | null> {
+    const db = PostgreSQLDatabase.getInstance()
+    const row = await db.get<ShoppingListRow>('SELECT * FROM shopping_lists WHERE id = $1', [id])
+    return row ? rowToShoppingListItem(row) : null
+  },
+
+  /**
+   * Persist the output of ShoppingListService.processIngredientsForAddition
+   * @param additions - Items to insert and existing items to update
+   * @param owner - User and household the new items belong to
+   * @returns Inserted and updated items
+   */
+  async applyAdditions(
+    additions: ShoppingListAdditions,
+    owner: { userId: string; householdId?: string }
+  ): Promise<{ added: ShoppingListItem[]; updated: ShoppingListItem[] }> {
+    const db = PostgreSQLDatabase.getInstance()
+    const added: ShoppingListItem[] = []
+    const updated: ShoppingListItem[] = []
+
+    for (const itemData of additions.itemsToAdd) {
+      const now = new Date().toISOString()
+      const item: ShoppingListItem = {
+        ...itemData,
+        id: uuidv4(),
+        userId: owner.userId,
+        householdId: owner.householdId,
+        createdAt: now,
+        updatedAt: now
+      }
+
+      await db.run(
+        `INSERT INTO shopping_lists (
+          id, user_id, household_id, ingredient, description, quantity, unit,
+          category, display_name, recipe_id, recipe_name, is_completed, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          item.id, item.userId, item.householdId, item.ingredient, item.description,
+          item.quantity, item.unit, item.category, item.displayName, item.recipeId, item.recipeName,
+          item.isCompleted, item.createdAt, item.updatedAt
+        ]
+      )
+
+      added.push(item)
+    }
+
+    for (const updateData of additions.itemsToUpdate) {
+      await db.run(
+        `UPDATE shopping_lists SET
+          ingredient = $1,
+          quantity = $2,
+          unit = $3,
+          updated_at = $4
+         WHERE id = $5`,
+        [updateData.newIngredient, updateData.newQuantity, updateData.newUnit || null, new Date().toISOString(), updateData.item.id]
+      )
+
+      const updatedItem = await this.findById(updateData.item.id)
+      if (updatedItem) {
+        updated.push(updatedItem)
+      }
+    }
+
+    return { added, updated }
+  }
+}
@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid'
 import bcrypt from 'bcryptjs'
 import { PostgreSQLDatabase } from './database-pg'
 import { User, CreateUserRequest, UserRow } from '../types/user'
+import { UnitSystem, isUnitSystem, DEFAULT_UNIT_SYSTEM } from '../utils/unitConversion'
 
 export const userModel = {
   async findById(id: string): Promise<UserRow | null> {
@@ -47,6 +48,7 @@ export const userModel = {
       email: data.email.toLowerCase().trim(),
       displayName: data.displayName.trim(),
       defaultTranslationLanguage: undefined,
+      emailVerified: false,
       createdAt: now,
       updatedAt: now
     }
@@ -62,15 +64,6 @@ export const userModel = {
     )
   },
 
-  async getHouseholdMembers(householdId: string): Promise<UserRow[]> {
-    const db = PostgreSQLDatabase.getInstance()
-    const rows = await db.all<UserRow>(
-      'SELECT * FROM users WHERE household_id = $1 ORDER BY created_at ASC',
-      [householdId]
-    )
-    return rows
-  },
-
   async emailExists(email: string): Promise<boolean> {
     const user = await this.findByEmail(email)
     return !!user
@@ -83,8 +76,8 @@ export const userModel = {
 
     const sql = `
       INSERT INTO users (
-        id, email, password_hash, display_name, google_id, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        id, email, password_hash, display_name, google_id, email_verified_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6, $7)
     `
 
     const params = [
@@ -93,7 +86,7 @@ export const userModel = {
       '', // Empty password hash for Google OAuth users
       data.displayName.trim(),
       data.googleId,
-      now,
+      now, // Google has verified the email
       now
     ]
 
@@ -105,6 +98,7 @@ export const userModel = {
       displayName: data.displayName.trim(),
       googleId: data.googleId,
       defaultTranslationLanguage: undefined,
+      emailVerified: true,
       createdAt: now,
       updatedAt: now
     }
@@ -115,7 +109,7 @@ export const userModel = {
     const now = new Date().toISOString()
 
     await db.run(
-      'UPDATE users SET google_id = $1, updated_at = $2 WHERE id = $3',
+      'UPDATE users SET google_id = $1, email_verified_at = COALESCE(email_verified_at, $2), updated_at = $2 WHERE id = $3',
       [googleId, now, userId]
     )
   },
@@ -128,6 +122,58 @@ export const userModel = {
       'UPDATE users SET default_translation_language = $1, updated_at = $2 WHERE id = $3',
       [language, now, userId]
     )
+  },
+
+  async updateUnitSystem(userId: string, unitSystem: UnitSystem): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.run(
+      'UPDATE users SET unit_system = $1, updated_at = $2 WHERE id = $3',
+      [unitSystem, now, userId]
+    )
+  },
+
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+    const passwordHash = await bcrypt.hash(password, 12)
+
+    await db.run(
+      'UPDATE users SET password_hash = $1, updated_at = $2 WHERE id = $3',
+      [passwordHash, now, userId]
+    )
+  },
+
+  async markEmailVerified(userId: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.run(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, $1), updated_at = $1 WHERE id = $2',
+      [now, userId]
+    )
+  },
+
+  // The new address is verified by the link that confirmed the change
+  async updateEmail(userId: string, email: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+    const now = new Date().toISOString()
+
+    await db.run(
+      'UPDATE users SET email = $1, email_verified_at = $2, updated_at = $2 WHERE id = $3',
+      [email.toLowerCase().trim(), now, userId]
+    )
+  },
+
+  // Sign the user out everywhere, e.g. after a password reset; keepSessionId spares the current browser
+  async deleteSessions(userId: string, keepSessionId?: string): Promise<void> {
+    const db = PostgreSQLDatabase.getInstance()
+
+    await db.run(
+      `DELETE FROM session WHERE sess->'passport'->>'user' = $1 AND sid <> $2`,
+      [userId, keepSessionId || '']
+    )
   }
 }
 
@@ -139,6 +185,8 @@ export function mapUserRowToUser(row: UserRow): User {
     householdId: row.household_id || undefined,
     googleId: row.google_id || undefined,
     defaultTranslationLanguage: row.default_translation_language || undefined,
+    unitSystem: isUnitSystem(row.unit_system) ? row.unit_system : DEFAULT_UNIT_SYSTEM,
+    emailVerified: Boolean(row.email_verified_at),
     createdAt: row.created_at,
     updatedAt: row.updated_at
   }
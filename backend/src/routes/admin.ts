@@ -0,0 +1,14 @@
+import { Router } from 'express'
+import { adminController } from '../controllers/adminController'
+import { requireAdmin } from '../middleware/auth'
+
+export const adminRoutes = Router()
+
+// Admin routes are limited to users listed in ADMIN_EMAILS
+adminRoutes.use(requireAdmin)
+
+// GET /api/admin/scraper/hosts - Scrape success and failure counts per host, most failures first
+adminRoutes.get('/scraper/hosts', adminController.getScraperHosts)
+
+// DELETE /api/admin/scraper/cache - Clear cached scrapes (all, or one host with ?host=)
+adminRoutes.delete('/scraper/cache', adminController.clearScrapeCache)
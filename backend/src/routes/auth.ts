@@ -1,5 +1,27 @@
 import { Router } from 'express'
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit'
 import { authController } from '../controllers/authController'
+import { requireAuth } from '../middleware/auth'
+
+// Routes that send email or check emailed tokens get a tight limit so they cannot be used to spam inboxes or guess links
+const accountEmailRateLimiter = rateLimit({
+  windowMs: Number(process.env.ACCOUNT_EMAIL_RATE_LIMIT_WINDOW_MS) || 15 * 60 * 1000,
+  max: Number(process.env.ACCOUNT_EMAIL_RATE_LIMIT_MAX) || 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const rawIp = req.ip || req.socket.remoteAddress
+    return `ip:${rawIp ? ipKeyGenerator(rawIp) : 'unknown'}`
+  },
+  handler: (req, res) => {
+    console.log(`ACCOUNT EMAIL RATE LIMIT HIT for ${req.ip} on ${req.method} ${req.path}`)
+    res.status(429).json({
+      error: {
+        message: 'Too many attempts. Please wait a few minutes and try again.'
+      }
+    })
+  }
+})
 
 export const authRoutes = Router()
 
@@ -26,4 +48,24 @@ authRoutes.get('/google', authController.googleAuth)
 authRoutes.get('/google/callback', authController.googleAuthCallback)
 
 // PATCH /auth/translation-preference - Update user's default translation language
-authRoutes.patch('/translation-preference', authController.updateTranslationPreference)
\ No newline at end of file
+authRoutes.patch('/translation-preference', authController.updateTranslationPreference)
+// PATCH /auth/unit-preference - Update user's measurement system (metric or imperial)
+authRoutes.patch('/unit-preference', authController.updateUnitPreference)
+
+// POST /auth/forgot-password - Email a password reset link
+authRoutes.post('/forgot-password', accountEmailRateLimiter, authController.forgotPassword)
+
+// POST /auth/reset-password - Set a new password with a reset link's token
+authRoutes.post('/reset-password', accountEmailRateLimiter, authController.resetPassword)
+
+// POST /auth/verify-email - Confirm the email address with a verification link's token
+authRoutes.post('/verify-email', accountEmailRateLimiter, authController.verifyEmail)
+
+// POST /auth/resend-verification - Email the signed-in user a new verification link
+authRoutes.post('/resend-verification', requireAuth, accountEmailRateLimiter, authController.resendVerification)
+
+// POST /auth/change-email - Email a confirmation link to the address the signed-in user wants to switch to
+authRoutes.post('/change-email', requireAuth, accountEmailRateLimiter, authController.changeEmail)
+
+// POST /auth/confirm-email-change - Switch to the new address with a confirmation link's token
+authRoutes.post('/confirm-email-change', accountEmailRateLimiter, authController.confirmEmailChange)
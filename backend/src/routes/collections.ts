@@ -0,0 +1,29 @@
+import { Router } from 'express'
+import { collectionController } from '../controllers/collectionController'
+import { requireAuth, optionalAuth } from '../middleware/auth'
+
+export const collectionRoutes = Router()
+
+// GET /api/collections?recipeId= - Collections you can edit (yours and your household's shared ones)
+collectionRoutes.get('/', requireAuth, collectionController.getCollections)
+
+// POST /api/collections - Create a collection
+collectionRoutes.post('/', requireAuth, collectionController.createCollection)
+
+// GET /api/collections/:id - A collection with its recipes in order (public ones without signing in)
+collectionRoutes.get('/:id', optionalAuth, collectionController.getCollection)
+
+// PUT /api/collections/:id - Change name, description, cover image or visibility
+collectionRoutes.put('/:id', requireAuth, collectionController.updateCollection)
+
+// DELETE /api/collections/:id - Delete a collection (the recipes stay)
+collectionRoutes.delete('/:id', requireAuth, collectionController.deleteCollection)
+
+// POST /api/collections/:id/recipes - Add a recipe to the end of a collection
+collectionRoutes.post('/:id/recipes', requireAuth, collectionController.addRecipe)
+
+// PUT /api/collections/:id/recipes - Reorder the recipes in a collection
+collectionRoutes.put('/:id/recipes', requireAuth, collectionController.reorderRecipes)
+
+// DELETE /api/collections/:id/recipes/:recipeId - Remove a recipe from a collection
+collectionRoutes.delete('/:id/recipes/:recipeId', requireAuth, collectionController.removeRecipe)
@@ -0,0 +1,11 @@
+import { Router } from 'express'
+import { exportController } from '../controllers/exportController'
+import { requireAuth } from '../middleware/auth'
+
+export const exportRoutes = Router()
+
+// GET /api/export - Download all owned recipes as a zip (JSON-LD, Markdown, images and original import data)
+exportRoutes.get('/', requireAuth, exportController.exportAccount)
+
+// POST /api/export/cookbook - Download selected recipes (by id or tag) as a printable PDF cookbook
+exportRoutes.post('/cookbook', requireAuth, exportController.createCookbook)
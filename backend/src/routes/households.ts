@@ -3,6 +3,9 @@ import { householdController } from '../controllers/householdController'
 
 export const householdRoutes = Router()
 
+// GET /api/households - List the user's households
+householdRoutes.get('/', householdController.list)
+
 // POST /api/households - Create new household
 householdRoutes.post('/', householdController.create)
 
@@ -12,8 +15,38 @@ householdRoutes.post('/join', householdController.join)
 // POST /api/households/leave - Leave current household
 householdRoutes.post('/leave', householdController.leave)
 
-// GET /api/households/current - Get current user's household
+// GET /api/households/current - Get current user's active household
 householdRoutes.get('/current', householdController.getCurrent)
 
+// PUT /api/households/active - Switch the active household
+householdRoutes.put('/active', householdController.setActive)
+
 // POST /api/households/regenerate-invite - Regenerate invite code
-householdRoutes.post('/regenerate-invite', householdController.regenerateInviteCode)
\ No newline at end of file
+householdRoutes.post('/regenerate-invite', householdController.regenerateInviteCode)
+
+// DELETE /api/households/current - Delete current household (owner only)
+householdRoutes.delete('/current', householdController.delete)
+
+// POST /api/households/transfer-ownership - Make another member the owner
+householdRoutes.post('/transfer-ownership', householdController.transferOwnership)
+
+// PUT /api/households/members/:userId/role - Change a member's role
+householdRoutes.put('/members/:userId/role', householdController.updateMemberRole)
+
+// DELETE /api/households/members/:userId - Remove a member from the household
+householdRoutes.delete('/members/:userId', householdController.removeMember)
+
+// GET /api/households/invitations - List the active household's invitations
+householdRoutes.get('/invitations', householdController.listInvitations)
+
+// POST /api/households/invitations - Create an expiring invite link
+householdRoutes.post('/invitations', householdController.createInvitation)
+
+// DELETE /api/households/invitations/:id - Revoke an invitation
+householdRoutes.delete('/invitations/:id', householdController.revokeInvitation)
+
+// GET /api/households/invitations/token/:token - Preview an invitation before accepting it
+householdRoutes.get('/invitations/token/:token', householdController.previewInvitation)
+
+// POST /api/households/invitations/token/:token/accept - Accept an invitation
+householdRoutes.post('/invitations/token/:token/accept', householdController.acceptInvitation)
@@ -0,0 +1,35 @@
+import { Router } from 'express'
+import multer from 'multer'
+import { importJobController } from '../controllers/importJobController'
+import { requireAuth } from '../middleware/auth'
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.heic', '.heif']
+
+// Same limits as photo imports through /api/recipes/parse-image
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    const fileExtension = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'))
+    cb(null, file.mimetype.startsWith('image/') || IMAGE_EXTENSIONS.includes(fileExtension))
+  }
+})
+
+export const importJobRoutes = Router()
+
+// Apply authentication middleware to all import job routes
+importJobRoutes.use(requireAuth)
+
+// GET /api/import-jobs - List the user's recent URL, text and photo imports
+importJobRoutes.get('/', importJobController.getImportJobs)
+
+// GET /api/import-jobs/:id - Get an import's status, and the parsed recipe once it has finished
+importJobRoutes.get('/:id', importJobController.getImportJob)
+
+// POST /api/import-jobs - Queue a URL, text or photo import; failed attempts are retried with backoff
+importJobRoutes.post('/', upload.single('image'), importJobController.createImportJob)
+
+// DELETE /api/import-jobs/:id - Dismiss a finished import or cancel one that has not started
+importJobRoutes.delete('/:id', importJobController.deleteImportJob)
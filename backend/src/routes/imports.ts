@@ -0,0 +1,32 @@
+import { Router } from 'express'
+import multer from 'multer'
+import { importController } from '../controllers/importController'
+import { requireAuth } from '../middleware/auth'
+
+const IMPORT_EXTENSIONS = ['.paprikarecipes', '.paprikarecipe', '.zip', '.json', '.jsonld', '.html', '.htm']
+
+// Export archives with embedded photos are larger than single image uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    const fileExtension = file.originalname.toLowerCase().substring(file.originalname.lastIndexOf('.'))
+    cb(null, IMPORT_EXTENSIONS.includes(fileExtension))
+  }
+})
+
+export const importRoutes = Router()
+
+// Apply authentication middleware to all import routes
+importRoutes.use(requireAuth)
+
+// GET /api/imports - List the user's recent imports
+importRoutes.get('/', importController.getImports)
+
+// GET /api/imports/:id - Get import progress and per-recipe results
+importRoutes.get('/:id', importController.getImport)
+
+// POST /api/imports - Upload an export file from another recipe manager and import it in the background
+importRoutes.post('/', upload.single('file'), importController.createImport)
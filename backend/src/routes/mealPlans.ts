@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import { mealPlanController } from '../controllers/mealPlanController'
+import { requireAuth } from '../middleware/auth'
+
+export const mealPlanRoutes = Router()
+
+// Apply authentication middleware to all meal plan routes
+mealPlanRoutes.use(requireAuth)
+
+// GET /api/meal-plans?start=YYYY-MM-DD&end=YYYY-MM-DD - Get planned meals (defaults to the current week)
+mealPlanRoutes.get('/', mealPlanController.getMealPlans)
+
+// POST /api/meal-plans - Plan a recipe for a date and meal slot
+mealPlanRoutes.post('/', mealPlanController.createMealPlan)
+
+// POST /api/meal-plans/shopping-list - Add every planned recipe in a date range to the shopping list
+mealPlanRoutes.post('/shopping-list', mealPlanController.generateShoppingList)
+
+// PUT /api/meal-plans/:id - Move an entry or change its servings
+mealPlanRoutes.put('/:id', mealPlanController.updateMealPlan)
+
+// DELETE /api/meal-plans/:id - Remove a planned meal
+mealPlanRoutes.delete('/:id', mealPlanController.deleteMealPlan)
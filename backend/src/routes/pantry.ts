@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import { pantryController } from '../controllers/pantryController'
+import { requireAuth } from '../middleware/auth'
+
+export const pantryRoutes = Router()
+
+// Apply authentication middleware to all pantry routes
+pantryRoutes.use(requireAuth)
+
+// GET /api/pantry - Get pantry items for the user or household
+pantryRoutes.get('/', pantryController.getPantry)
+
+// GET /api/pantry/recipes - Rank accessible recipes by pantry coverage
+pantryRoutes.get('/recipes', pantryController.getRecipeMatches)
+
+// POST /api/pantry - Add an item to the pantry
+pantryRoutes.post('/', pantryController.addPantryItem)
+
+// PUT /api/pantry/:id - Update a pantry item
+pantryRoutes.put('/:id', pantryController.updatePantryItem)
+
+// DELETE /api/pantry/:id - Remove an item from the pantry
+pantryRoutes.delete('/:id', pantryController.deletePantryItem)
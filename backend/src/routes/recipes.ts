@@ -1,7 +1,12 @@
 import { Router, Request, Response, NextFunction } from 'express'
 import multer from 'multer'
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit'
 import { recipeController } from '../controllers/recipeController'
+import { recipeRevisionController } from '../controllers/recipeRevisionController'
+import { recipeCookController } from '../controllers/recipeCookController'
+import { recipeCommentController } from '../controllers/recipeCommentController'
 import { requireAuth, optionalAuth } from '../middleware/auth'
+import { User } from '../types/user'
 
 // Helper function to conditionally apply auth based on environment
 // Ensures NODE_ENV set at runtime takes precedence over .env file
@@ -35,6 +40,31 @@ const upload = multer({
   }
 })
 
+// Posting, editing and reporting comments gets a tighter limit than the rest of the API to keep spam out of discussions
+const commentRateLimiter = rateLimit({
+  windowMs: Number(process.env.COMMENT_RATE_LIMIT_WINDOW_MS) || 10 * 60 * 1000,
+  max: Number(process.env.COMMENT_RATE_LIMIT_MAX) || 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const user = req.user as User | undefined
+    if (user) {
+      return `user:${user.id}`
+    }
+    const rawIp = req.ip || req.socket.remoteAddress
+    return `ip:${rawIp ? ipKeyGenerator(rawIp) : 'unknown'}`
+  },
+  handler: (req, res) => {
+    const user = req.user as User | undefined
+    console.log(`COMMENT RATE LIMIT HIT for ${user ? `user:${user.id}` : req.ip} on ${req.method} ${req.path}`)
+    res.status(429).json({
+      error: {
+        message: 'You are commenting too quickly. Please wait a few minutes and try again.'
+      }
+    })
+  }
+})
+
 export const recipeRoutes = Router()
 
 // GET /api/recipes - List recipes with optional filters
@@ -85,8 +115,50 @@ recipeRoutes.post('/:id/copy', conditionalAuth(requireAuth), recipeController.co
 // POST /api/recipes/:id/enhance - Enhance a recipe with AI (requires authentication in production)
 recipeRoutes.post('/:id/enhance', conditionalAuth(requireAuth), recipeController.enhanceRecipe)
 
+// GET /api/recipes/:id/revisions - List the version history of a recipe
+recipeRoutes.get('/:id/revisions', requireAuth, recipeRevisionController.getRevisions)
+
+// GET /api/recipes/:id/revisions/:revisionId - Get the full snapshot of a revision
+recipeRoutes.get('/:id/revisions/:revisionId', requireAuth, recipeRevisionController.getRevision)
+
+// GET /api/recipes/:id/revisions/:revisionId/diff - Field-level diff against the previous revision (or ?against=current)
+recipeRoutes.get('/:id/revisions/:revisionId/diff', requireAuth, recipeRevisionController.getRevisionDiff)
+
+// POST /api/recipes/:id/revisions/:revisionId/restore - Restore a recipe to a previous revision
+recipeRoutes.post('/:id/revisions/:revisionId/restore', requireAuth, recipeRevisionController.restoreRevision)
+
+// GET /api/recipes/:id/cooks - Cook log entries by the user and their household
+recipeRoutes.get('/:id/cooks', requireAuth, recipeCookController.getCooks)
+
+// POST /api/recipes/:id/cooks - Log a cook with optional rating, notes and photo (multipart field "photo")
+recipeRoutes.post('/:id/cooks', requireAuth, upload.single('photo'), recipeCookController.createCook)
+
+// PUT /api/recipes/:id/cooks/:cookId - Edit your own cook log entry
+recipeRoutes.put('/:id/cooks/:cookId', requireAuth, upload.single('photo'), recipeCookController.updateCook)
+
+// DELETE /api/recipes/:id/cooks/:cookId - Delete your own cook log entry
+recipeRoutes.delete('/:id/cooks/:cookId', requireAuth, recipeCookController.deleteCook)
+
 // PUT /api/recipes/:id - Update a recipe (requires authentication in production)
 recipeRoutes.put('/:id', conditionalAuth(requireAuth), recipeController.updateRecipe)
 
 // DELETE /api/recipes/:id - Delete a recipe (requires authentication in production)
-recipeRoutes.delete('/:id', conditionalAuth(requireAuth), recipeController.deleteRecipe)
\ No newline at end of file
+recipeRoutes.delete('/:id', conditionalAuth(requireAuth), recipeController.deleteRecipe)
+
+// GET /api/recipes/:id/comments - Comment threads on a public recipe (readable without signing in)
+recipeRoutes.get('/:id/comments', optionalAuth, recipeCommentController.getComments)
+
+// POST /api/recipes/:id/comments - Comment on a public recipe, or reply with parentId
+recipeRoutes.post('/:id/comments', requireAuth, commentRateLimiter, recipeCommentController.createComment)
+
+// PUT /api/recipes/:id/comments/:commentId - Edit your own comment
+recipeRoutes.put('/:id/comments/:commentId', requireAuth, commentRateLimiter, recipeCommentController.updateComment)
+
+// DELETE /api/recipes/:id/comments/:commentId - Delete your own comment (replies stay)
+recipeRoutes.delete('/:id/comments/:commentId', requireAuth, recipeCommentController.deleteComment)
+
+// POST /api/recipes/:id/comments/:commentId/report - Report a comment to the recipe's moderators
+recipeRoutes.post('/:id/comments/:commentId/report', requireAuth, commentRateLimiter, recipeCommentController.reportComment)
+
+// PUT /api/recipes/:id/comments/:commentId/hidden - Hide or restore a comment (recipe owner and household)
+recipeRoutes.put('/:id/comments/:commentId/hidden', requireAuth, recipeCommentController.setCommentHidden)
@@ -13,14 +13,17 @@ shoppingListRoutes.get('/', shoppingListController.getShoppingList)
 // POST /api/shopping-list - Add ingredients to shopping list
 shoppingListRoutes.post('/', shoppingListController.addToShoppingList)
 
+// GET /api/shopping-list/events - Stream changes to the list (Server-Sent Events)
+shoppingListRoutes.get('/events', shoppingListController.streamEvents)
+
+// DELETE /api/shopping-list/completed - Clear completed items
+shoppingListRoutes.delete('/completed', shoppingListController.clearCompleted)
+
 // PUT /api/shopping-list/:id - Update shopping list item (mark complete/incomplete)
 shoppingListRoutes.put('/:id', shoppingListController.updateShoppingListItem)
 
 // DELETE /api/shopping-list/:id - Remove item from shopping list
 shoppingListRoutes.delete('/:id', shoppingListController.deleteShoppingListItem)
 
-// DELETE /api/shopping-list/completed - Clear completed items
-shoppingListRoutes.delete('/completed', shoppingListController.clearCompleted)
-
 // DELETE /api/shopping-list - Clear all items
 shoppingListRoutes.delete('/', shoppingListController.clearAll)
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Router } from 'express'
+import { tagController } from '../controllers/tagController'
+import { requireAuth } from '../middleware/auth'
+
+export const tagRoutes = Router()
+
+// Apply authentication middleware to all tag routes
+tagRoutes.use(requireAuth)
+
+// GET /api/tags - Tags on your own and household recipes, with how many recipes use each
+tagRoutes.get('/', tagController.getTags)
+
+// POST /api/tags/merge - Replace several tags with one tag on your recipes
+tagRoutes.post('/merge', tagController.mergeTags)
+
+// PUT /api/tags/:tag - Rename a tag on your recipes
+tagRoutes.put('/:tag', tagController.renameTag)
+
+// DELETE /api/tags/:tag - Remove a tag from your recipes
+tagRoutes.delete('/:tag', tagController.deleteTag)
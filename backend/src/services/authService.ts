@@ -1,5 +1,27 @@
-import { userModel } from '../models/userModel'
-import { CreateUserRequest } from '../types/user'
+import bcrypt from 'bcryptjs'
+import { userModel, mapUserRowToUser } from '../models/userModel'
+import { authTokenModel } from '../models/authTokenModel'
+import { createError } from '../middleware/errorHandler'
+import { AuthTokenType } from '../types/authToken'
+import { CreateUserRequest, User } from '../types/user'
+import { mailService } from './mailService'
+import {
+  AUTH_TOKEN_TTL_MS,
+  MIN_PASSWORD_LENGTH,
+  buildTokenLink,
+  generateAuthToken,
+  getAuthTokenExpiry,
+  hashAuthToken,
+  isAuthTokenFormat,
+  isValidEmail
+} from '../utils/authTokenHelper'
+import {
+  buildEmailChangeEmail,
+  buildEmailChangedNotice,
+  buildPasswordChangedNotice,
+  buildPasswordResetEmail,
+  buildVerificationEmail
+} from '../utils/authEmails'
 
 /**
  * Service for authentication business logic
@@ -24,10 +46,19 @@ export class AuthService {
       }
     }
 
-    if (password.length < 6) {
+    return this.validatePassword(password)
+  }
+
+  /**
+   * Validate a new password
+   * @param password - Password as typed
+   * @returns Validation result
+   */
+  validatePassword(password: unknown): { valid: boolean; error?: string } {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
       return {
         valid: false,
-        error: 'Password must be at least 6 characters long'
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
       }
     }
 
@@ -52,6 +83,165 @@ export class AuthService {
     // Create user
     return await userModel.create({ email, password, displayName })
   }
+
+  /**
+   * Email a password reset link when an account uses the address.
+   * Unknown addresses are ignored silently so the endpoint does not reveal who has an account.
+   * @param email - Address the user typed
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    if (!isValidEmail(email)) {
+      throw createError('A valid email address is required', 400)
+    }
+
+    const user = await userModel.findByEmail(email.toLowerCase().trim())
+    if (!user) return
+
+    // Not awaited, so a known address is answered as fast as an unknown one; a delivery error
+    // would likewise tell the caller the account exists, so it only goes to the log
+    this.issueToken(user.id, 'password_reset', '/reset-password')
+      .then(link => mailService.send(buildPasswordResetEmail(user.email, user.display_name, link, AUTH_TOKEN_TTL_MS.password_reset)))
+      .catch(error => console.error('Failed to send password reset email:', error))
+  }
+
+  /**
+   * Set a new password from a reset link and sign the account out everywhere else.
+   * Receiving the link proves the user owns the address, so the email counts as verified.
+   * @param token - Token from the link
+   * @param password - New password
+   * @param keepSessionId - Session of the browser doing the reset, which stays signed in
+   * @throws 400 when the password is too short or the link is invalid, expired or used
+   */
+  async resetPassword(token: unknown, password: unknown, keepSessionId?: string): Promise<void> {
+    const validation = this.validatePassword(password)
+    if (!validation.valid) {
+      throw createError(validation.error!, 400)
+    }
+
+    const authToken = await this.consumeToken(token, 'password_reset', 'This password reset link is invalid or has expired. Please request a new one.')
+    const user = await userModel.findById(authToken.userId)
+    if (!user) {
+      throw createError('User not found', 404)
+    }
+
+    await userModel.updatePassword(user.id, password as string)
+    await userModel.markEmailVerified(user.id)
+    await userModel.deleteSessions(user.id, keepSessionId).catch(error => {
+      console.warn('Failed to sign out other sessions after password reset:', error)
+    })
+    await this.sendQuietly(buildPasswordChangedNotice(user.email, user.display_name))
+  }
+
+  /**
+   * Email a link confirming the user's address; does nothing when it is already verified
+   * @returns Whether an email was sent
+   */
+  async sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'displayName' | 'emailVerified'>): Promise<boolean> {
+    if (user.emailVerified) return false
+
+    const link = await this.issueToken(user.id, 'email_verification', '/verify-email')
+    await mailService.send(buildVerificationEmail(user.email, user.displayName, link, AUTH_TOKEN_TTL_MS.email_verification))
+    return true
+  }
+
+  /**
+   * Mark the address verified from a verification link
+   * @returns The updated user
+   * @throws 400 when the link is invalid, expired or used
+   */
+  async verifyEmail(token: unknown): Promise<User> {
+    const authToken = await this.consumeToken(token, 'email_verification', 'This verification link is invalid or has expired. Please request a new one.')
+
+    await userModel.markEmailVerified(authToken.userId)
+    return this.getUser(authToken.userId)
+  }
+
+  /**
+   * Start moving an account to a new address: a confirmation link goes to the new address,
+   * and nothing changes until it is opened
+   * @param user - Signed-in user
+   * @param newEmail - Address to move to
+   * @param password - Current password; not needed for accounts that only sign in with Google
+   * @throws 400 for an invalid or unchanged address, 401 for a wrong password, 409 when the address is taken
+   */
+  async requestEmailChange(user: User, newEmail: unknown, password: unknown): Promise<void> {
+    if (!isValidEmail(newEmail)) {
+      throw createError('A valid email address is required', 400)
+    }
+    const normalizedEmail = newEmail.toLowerCase().trim()
+    if (normalizedEmail === user.email.toLowerCase()) {
+      throw createError('That is already your email address', 400)
+    }
+
+    const row = await userModel.findById(user.id)
+    if (!row) {
+      throw createError('User not found', 404)
+    }
+    if (row.password_hash) {
+      const isValid = typeof password === 'string' && await bcrypt.compare(password, row.password_hash)
+      if (!isValid) {
+        throw createError('Current password is incorrect', 401)
+      }
+    }
+    if (await userModel.emailExists(normalizedEmail)) {
+      throw createError('An account with this email already exists', 409)
+    }
+
+    const link = await this.issueToken(user.id, 'email_change', '/confirm-email-change', normalizedEmail)
+    await mailService.send(buildEmailChangeEmail(normalizedEmail, user.displayName, link, AUTH_TOKEN_TTL_MS.email_change))
+  }
+
+  /**
+   * Move the account to the address in an email change link and tell the old address
+   * @returns The updated user
+   * @throws 400 when the link is invalid, expired or used, 409 when the address was taken meanwhile
+   */
+  async confirmEmailChange(token: unknown): Promise<User> {
+    const authToken = await this.consumeToken(token, 'email_change', 'This email change link is invalid or has expired. Please request a new one.')
+    const row = await userModel.findById(authToken.userId)
+    if (!row || !authToken.newEmail) {
+      throw createError('User not found', 404)
+    }
+
+    if (await userModel.emailExists(authToken.newEmail)) {
+      throw createError('An account with this email already exists', 409)
+    }
+
+    await userModel.updateEmail(row.id, authToken.newEmail)
+    await this.sendQuietly(buildEmailChangedNotice(row.email, row.display_name, authToken.newEmail))
+    return this.getUser(row.id)
+  }
+
+  private async issueToken(userId: string, type: AuthTokenType, path: string, newEmail?: string): Promise<string> {
+    const { token, tokenHash } = generateAuthToken()
+    await authTokenModel.create({ userId, type, tokenHash, expiresAt: getAuthTokenExpiry(type), newEmail })
+    return buildTokenLink(path, token)
+  }
+
+  private async consumeToken(token: unknown, type: AuthTokenType, invalidMessage: string) {
+    const authToken = isAuthTokenFormat(token) ? await authTokenModel.consume(hashAuthToken(token), type) : null
+    if (!authToken) {
+      throw createError(invalidMessage, 400)
+    }
+    return authToken
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const row = await userModel.findById(userId)
+    if (!row) {
+      throw createError('User not found', 404)
+    }
+    return mapUserRowToUser(row)
+  }
+
+  // Notices are informational; failing to send one must not undo the change the user just made
+  private async sendQuietly(message: Parameters<typeof mailService.send>[0]): Promise<void> {
+    try {
+      await mailService.send(message)
+    } catch (error) {
+      console.warn(`Failed to send "${message.subject}" email:`, error)
+    }
+  }
 }
 
 // Export singleton instance
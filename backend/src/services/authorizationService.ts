@@ -1,5 +1,8 @@
-import { userModel } from '../models/userModel'
+import { householdModel } from '../models/householdModel'
+import { canEditHouseholdContent } from '../utils/householdRoles'
 import { User } from '../types/user'
+import { Collection } from '../types/collection'
+import { Recipe } from '../types/recipe'
 
 /**
  * Service for handling authorization logic
@@ -26,10 +29,10 @@ export class AuthorizationService {
       return true
     }
 
-    // Check if recipe owner is in user's household
-    if (recipeOwnerId && recipeOwnerId !== user.id) {
-      const owner = await userModel.findById(recipeOwnerId)
-      if (owner && owner.household_id === user.householdId) {
+    // Check if recipe owner is in user's household; items assigned to another household stay there
+    if (recipeOwnerId && recipeOwnerId !== user.id && !recipeHouseholdId) {
+      const ownerRole = await householdModel.getMemberRole(user.householdId, recipeOwnerId)
+      if (ownerRole) {
         return true
       }
     }
@@ -37,12 +40,26 @@ export class AuthorizationService {
     return false
   }
 
+  /**
+   * Check if the user's role in their household lets them change shared content
+   * @param user - Current user
+   * @returns False for viewers and users without a household
+   */
+  async canEditHouseholdContent(user: User): Promise<boolean> {
+    if (!user.householdId) {
+      return false
+    }
+
+    const role = await householdModel.getMemberRole(user.householdId, user.id)
+    return canEditHouseholdContent(role)
+  }
+
   /**
    * Check if user can edit a recipe
    * @param user - Current user
    * @param recipeUserId - ID of recipe owner
    * @param recipeHouseholdId - ID of recipe's household
-   * @returns True if user can edit the recipe
+   * @returns True if user owns the recipe, or shares it through their household and is not a viewer
    */
   async canEditRecipe(
     user: User,
@@ -54,8 +71,80 @@ export class AuthorizationService {
       return true
     }
 
-    // Check household access
-    return await this.userHasHouseholdAccess(user, recipeUserId, recipeHouseholdId)
+    // Check household access; viewers can only read household recipes
+    if (!(await this.userHasHouseholdAccess(user, recipeUserId, recipeHouseholdId))) {
+      return false
+    }
+    return await this.canEditHouseholdContent(user)
+  }
+
+  /**
+   * Check if user can edit a collection and its recipe list
+   * @param user - Current user
+   * @param collection - Collection to check
+   * @returns True for the owner, and for their household's non-viewers unless the collection is private
+   */
+  async canEditCollection(
+    user: User,
+    collection: Pick<Collection, 'userId' | 'householdId' | 'visibility'>
+  ): Promise<boolean> {
+    if (collection.userId === user.id) {
+      return true
+    }
+
+    if (!(await this.canAccessSharedCollection(user, collection))) {
+      return false
+    }
+    return await this.canEditHouseholdContent(user)
+  }
+
+  /**
+   * Check if user can view a recipe
+   * @param user - Current user
+   * @param recipe - Recipe to check
+   * @returns True if the recipe is public, the user's own, or shared with their household, whatever their role
+   */
+  async canViewRecipe(user: User, recipe: Pick<Recipe, 'userId' | 'householdId' | 'isPublic'>): Promise<boolean> {
+    if (recipe.isPublic || recipe.userId === user.id) {
+      return true
+    }
+
+    return await this.userHasHouseholdAccess(user, recipe.userId, recipe.householdId)
+  }
+
+  /**
+   * Check if user can view a collection
+   * @param user - Current user, or undefined when signed out
+   * @param collection - Collection to check
+   * @returns True if the collection is public, the user's own, or shared with their household
+   */
+  async canViewCollection(
+    user: User | undefined,
+    collection: Pick<Collection, 'userId' | 'householdId' | 'visibility'>
+  ): Promise<boolean> {
+    if (collection.visibility === 'public') {
+      return true
+    }
+    if (!user) {
+      return false
+    }
+    if (collection.userId === user.id) {
+      return true
+    }
+
+    return await this.canAccessSharedCollection(user, collection)
+  }
+
+  // Someone else's collection reaches the household unless it is private
+  private async canAccessSharedCollection(
+    user: User,
+    collection: Pick<Collection, 'userId' | 'householdId' | 'visibility'>
+  ): Promise<boolean> {
+    if (collection.visibility === 'private') {
+      return false
+    }
+
+    return await this.userHasHouseholdAccess(user, collection.userId, collection.householdId)
   }
 }
 
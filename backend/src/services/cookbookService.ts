@@ -0,0 +1,390 @@
+import { imageService } from './imageService'
+import { Recipe } from '../types/recipe'
+import { IngredientCategoryParser } from '../utils/ingredientCategoryParser'
+import { TextHeaderParser } from '../utils/textHeaderParser'
+import {
+  PdfDocument,
+  PdfColor,
+  PdfFont,
+  JpegInfo,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+  measureText,
+  wrapText,
+  truncateText,
+  readJpegInfo
+} from '../utils/pdfDocument'
+
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - 12 // leaves room for the footer
+const MAX_IMAGE_HEIGHT = 260
+
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13]
+const MUTED_COLOR: PdfColor = [0.42, 0.42, 0.42]
+const ACCENT_COLOR: PdfColor = [0.15, 0.39, 0.92]
+const RULE_COLOR: PdfColor = [0.82, 0.82, 0.82]
+
+const UNTAGGED_SECTION = 'More Recipes'
+
+// Table of contents metrics
+const CONTENTS_TITLE_HEIGHT = 48
+const CONTENTS_HEADING_HEIGHT = 26
+const CONTENTS_ENTRY_HEIGHT = 17
+
+export interface CookbookOptions {
+  title: string
+  subtitle?: string
+  author?: string
+}
+
+export interface CookbookSection {
+  tag: string
+  recipes: Recipe[]
+}
+
+export interface ContentsLine {
+  type: 'heading' | 'entry'
+  text: string
+  recipeId?: string
+}
+
+interface RecipeImage {
+  data: Buffer
+  info: JpegInfo
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (!hours) return `${rest} min`
+  return rest ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+/**
+ * Writes flowing text onto pages, starting a continuation page when the current one is full
+ */
+class PageFlow {
+  page: number
+  y = MARGIN
+
+  constructor(private readonly doc: PdfDocument, private readonly continuationTitle: string) {
+    this.page = doc.addPage()
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height <= CONTENT_BOTTOM) return
+
+    this.page = this.doc.addPage()
+    this.doc.text(this.page, `${this.continuationTitle} (continued)`, MARGIN, MARGIN, {
+      font: 'italic',
+      size: 9,
+      color: MUTED_COLOR
+    })
+    this.y = MARGIN + 24
+  }
+
+  /**
+   * Write wrapped text; continuation lines and the first line share the same left edge
+   */
+  paragraph(text: string, options: { font?: PdfFont; size?: number; color?: PdfColor; indent?: number; leading?: number } = {}): void {
+    const { font = 'regular', size = 10.5, color = TEXT_COLOR, indent = 0, leading = size * 1.4 } = options
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(leading)
+      this.y += leading
+      this.doc.text(this.page, line, MARGIN + indent, this.y - leading * 0.25, { font, size, color })
+    }
+  }
+
+  /**
+   * Write a list item with a marker (bullet or step number) hanging to the left of the text
+   */
+  listItem(marker: string, text: string, indent: number, options: { font?: PdfFont; size?: number } = {}): void {
+    const { font = 'regular', size = 10.5 } = options
+    const leading = size * 1.4
+    const lines = wrapText(text, font, size, CONTENT_WIDTH - indent)
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(leading)
+      this.y += leading
+      const baseline = this.y - leading * 0.25
+      if (index === 0) {
+        this.doc.text(this.page, marker, MARGIN + indent - measureText(marker, font, size) - 6, baseline, { font, size, color: MUTED_COLOR })
+      }
+      this.doc.text(this.page, line, MARGIN + indent, baseline, { font, size, color: TEXT_COLOR })
+    })
+  }
+
+  heading(text: string, size: number, spaceBefore: number): void {
+    // Keep headings together with at least two lines of what follows
+    this.ensureSpace(spaceBefore + size * 1.4 + 32)
+    this.y += spaceBefore
+    this.paragraph(text, { font: 'bold', size, leading: size * 1.3 })
+  }
+
+  gap(height: number): void {
+    this.y += height
+  }
+}
+
+/**
+ * Typesets recipe collections as printable PDF cookbooks
+ */
+export class CookbookService {
+  /**
+   * Group recipes into table of contents sections by tag. A recipe with several tags is
+   * listed under each; recipes without tags are collected at the end.
+   */
+  groupByTag(recipes: Recipe[]): CookbookSection[] {
+    // Tags are grouped case-insensitively and shown with the first spelling seen
+    const sections = new Map<string, CookbookSection>()
+    const untagged: Recipe[] = []
+
+    for (const recipe of recipes) {
+      const tags = (recipe.tags || []).map(tag => tag.trim()).filter(Boolean)
+      if (tags.length === 0) {
+        untagged.push(recipe)
+        continue
+      }
+      for (const tag of tags) {
+        const key = tag.toLowerCase()
+        if (!sections.has(key)) sections.set(key, { tag, recipes: [] })
+        const section = sections.get(key)!
+        if (!section.recipes.includes(recipe)) section.recipes.push(recipe)
+      }
+    }
+
+    const byName = (a: Recipe, b: Recipe) => a.name.localeCompare(b.name)
+    const result = [...sections.values()]
+      .map(section => ({ tag: section.tag, recipes: section.recipes.sort(byName) }))
+      .sort((a, b) => a.tag.localeCompare(b.tag))
+
+    if (untagged.length > 0) {
+      result.push({ tag: UNTAGGED_SECTION, recipes: untagged.sort(byName) })
+    }
+    return result
+  }
+
+  /**
+   * Split the table of contents into pages
+   */
+  planContents(sections: CookbookSection[]): ContentsLine[][] {
+    const pages: ContentsLine[][] = [[]]
+    let y = MARGIN + CONTENTS_TITLE_HEIGHT
+
+    const place = (line: ContentsLine, height: number, keepWithNext = 0) => {
+      if (y + height + keepWithNext > CONTENT_BOTTOM) {
+        pages.push([])
+        y = MARGIN
+      }
+      pages[pages.length - 1].push(line)
+      y += height
+    }
+
+    for (const section of sections) {
+      place({ type: 'heading', text: section.tag }, CONTENTS_HEADING_HEIGHT, CONTENTS_ENTRY_HEIGHT)
+      for (const recipe of section.recipes) {
+        place({ type: 'entry', text: recipe.name, recipeId: recipe.id }, CONTENTS_ENTRY_HEIGHT)
+      }
+    }
+
+    return pages
+  }
+
+  /**
+   * Load the stored large image of a recipe when it is an uploaded JPEG
+   */
+  async loadImage(recipe: Recipe): Promise<RecipeImage | null> {
+    const url = recipe.imageSizes?.large.url || recipe.image
+    if (!url) return null
+
+    const stored = await imageService.readStoredImage(url)
+    const info = stored ? readJpegInfo(stored.data) : null
+    return stored && info ? { data: stored.data, info } : null
+  }
+
+  /**
+   * Build the cookbook PDF
+   * @param recipes - Recipes to include, in any order
+   * @param options - Cover page text
+   */
+  async buildCookbook(recipes: Recipe[], options: CookbookOptions): Promise<Buffer> {
+    const doc = new PdfDocument({ title: options.title, author: options.author })
+    const sections = this.groupByTag(recipes)
+    const contents = this.planContents(sections)
+
+    // Cover and contents pages come first; contents are drawn once recipe page numbers are known
+    this.drawCover(doc, options, recipes.length)
+    const contentsPages = contents.map(() => doc.addPage())
+
+    const startPages = new Map<string, number>()
+    for (const section of sections) {
+      for (const recipe of section.recipes) {
+        if (startPages.has(recipe.id)) continue
+        startPages.set(recipe.id, doc.pageCount + 1)
+        await this.drawRecipe(doc, recipe, section.tag)
+      }
+    }
+
+    contents.forEach((lines, index) => this.drawContents(doc, contentsPages[index], lines, startPages, index === 0))
+
+    for (let page = 1; page < doc.pageCount; page++) {
+      this.drawFooter(doc, page, options.title)
+    }
+
+    return doc.toBuffer()
+  }
+
+  private drawCover(doc: PdfDocument, options: CookbookOptions, recipeCount: number): void {
+    const page = doc.addPage()
+    doc.rect(page, 0, 0, PAGE_WIDTH, 14, ACCENT_COLOR)
+
+    let y = PAGE_HEIGHT * 0.36
+    for (const line of wrapText(options.title, 'bold', 34, CONTENT_WIDTH)) {
+      doc.text(page, line, MARGIN, y, { font: 'bold', size: 34, color: TEXT_COLOR })
+      y += 42
+    }
+
+    doc.line(page, MARGIN, y - 18, MARGIN + 80, y - 18, ACCENT_COLOR, 2)
+    y += 10
+
+    if (options.subtitle) {
+      for (const line of wrapText(options.subtitle, 'italic', 14, CONTENT_WIDTH)) {
+        doc.text(page, line, MARGIN, y, { font: 'italic', size: 14, color: MUTED_COLOR })
+        y += 20
+      }
+    }
+
+    const details = [
+      `${recipeCount} ${recipeCount === 1 ? 'recipe' : 'recipes'}`,
+      options.author,
+      new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    ].filter(Boolean).join(' · ')
+    doc.text(page, details, MARGIN, PAGE_HEIGHT - MARGIN, { size: 11, color: MUTED_COLOR })
+  }
+
+  private drawContents(
+    doc: PdfDocument,
+    page: number,
+    lines: ContentsLine[],
+    startPages: Map<string, number>,
+    isFirstPage: boolean
+  ): void {
+    let y = MARGIN
+    if (isFirstPage) {
+      doc.text(page, 'Contents', MARGIN, y + 24, { font: 'bold', size: 24, color: TEXT_COLOR })
+      y += CONTENTS_TITLE_HEIGHT
+    }
+
+    for (const line of lines) {
+      if (line.type === 'heading') {
+        doc.text(page, line.text, MARGIN, y + 20, { font: 'bold', size: 13, color: ACCENT_COLOR })
+        y += CONTENTS_HEADING_HEIGHT
+        continue
+      }
+
+      const pageNumber = String(startPages.get(line.recipeId!) ?? '')
+      const numberWidth = measureText(pageNumber, 'regular', 10.5)
+      const name = truncateText(line.text, 'regular', 10.5, CONTENT_WIDTH - numberWidth - 40)
+      const nameEnd = MARGIN + 12 + measureText(name, 'regular', 10.5)
+      const baseline = y + 12
+
+      doc.text(page, name, MARGIN + 12, baseline, { size: 10.5, color: TEXT_COLOR })
+      doc.line(page, nameEnd + 6, baseline, PAGE_WIDTH - MARGIN - numberWidth - 6, baseline, RULE_COLOR)
+      doc.text(page, pageNumber, PAGE_WIDTH - MARGIN - numberWidth, baseline, { size: 10.5, color: TEXT_COLOR })
+      y += CONTENTS_ENTRY_HEIGHT
+    }
+  }
+
+  private async drawRecipe(doc: PdfDocument, recipe: Recipe, section: string): Promise<void> {
+    const flow = new PageFlow(doc, recipe.name)
+
+    doc.text(flow.page, section.toUpperCase(), MARGIN, flow.y, { font: 'bold', size: 8.5, color: ACCENT_COLOR })
+    flow.gap(6)
+    flow.paragraph(recipe.name, { font: 'bold', size: 22, leading: 27 })
+
+    const facts = [
+      recipe.prepTimeMinutes ? `Prep ${formatMinutes(recipe.prepTimeMinutes)}` : '',
+      recipe.cookTimeMinutes ? `Cook ${formatMinutes(recipe.cookTimeMinutes)}` : '',
+      recipe.totalTimeMinutes ? `Total ${formatMinutes(recipe.totalTimeMinutes)}` : '',
+      recipe.servings ? `Serves ${recipe.servings}` : ''
+    ].filter(Boolean)
+    if (facts.length > 0) {
+      flow.gap(2)
+      flow.paragraph(facts.join('   ·   '), { size: 10, color: MUTED_COLOR })
+    }
+
+    const image = await this.loadImage(recipe)
+    if (image) {
+      let width = CONTENT_WIDTH
+      let height = (width * image.info.height) / image.info.width
+      if (height > MAX_IMAGE_HEIGHT) {
+        width = (width * MAX_IMAGE_HEIGHT) / height
+        height = MAX_IMAGE_HEIGHT
+      }
+      flow.gap(12)
+      doc.image(flow.page, image.data, image.info, MARGIN + (CONTENT_WIDTH - width) / 2, flow.y, width, height)
+      flow.gap(height)
+    }
+
+    if (recipe.description) {
+      flow.gap(10)
+      this.drawTextWithHeaders(flow, recipe.description)
+    }
+
+    flow.heading('Ingredients', 14, 18)
+    for (const group of IngredientCategoryParser.parseIngredientsFromMixed(recipe.ingredients)) {
+      if (group.category) {
+        flow.heading(group.category, 11, 8)
+      }
+      for (const item of group.items) {
+        flow.listItem('•', item, 14)
+      }
+    }
+
+    flow.heading('Instructions', 14, 18)
+    let stepNumber = 1
+    for (const instruction of recipe.instructions) {
+      for (const segment of TextHeaderParser.parseText(instruction)) {
+        if (segment.type === 'header') {
+          flow.heading(segment.content, 11, 8)
+        } else {
+          flow.listItem(`${stepNumber++}.`, segment.content.trim(), 20)
+          flow.gap(3)
+        }
+      }
+    }
+
+    if (recipe.sourceUrl) {
+      flow.gap(14)
+      flow.paragraph(`Source: ${recipe.sourceUrl}`, { font: 'italic', size: 8.5, color: MUTED_COLOR })
+    }
+  }
+
+  // Headers and paragraphs the way TextWithHeaders shows them on the recipe page
+  private drawTextWithHeaders(flow: PageFlow, text: string): void {
+    TextHeaderParser.parseText(text).forEach((segment, index) => {
+      if (segment.type === 'header') {
+        flow.heading(segment.content, 11, index === 0 ? 0 : 8)
+        return
+      }
+
+      segment.content.trim().split(/\n\s*\n+/).forEach((paragraph, paragraphIndex) => {
+        if (paragraphIndex > 0) flow.gap(6)
+        for (const line of paragraph.trim().split('\n')) {
+          flow.paragraph(line.trim())
+        }
+      })
+    })
+  }
+
+  private drawFooter(doc: PdfDocument, page: number, title: string): void {
+    const baseline = PAGE_HEIGHT - MARGIN + 18
+    const number = String(page + 1)
+    doc.line(page, MARGIN, baseline - 14, PAGE_WIDTH - MARGIN, baseline - 14, RULE_COLOR)
+    doc.text(page, truncateText(title, 'italic', 8.5, CONTENT_WIDTH - 40), MARGIN, baseline, { font: 'italic', size: 8.5, color: MUTED_COLOR })
+    doc.text(page, number, PAGE_WIDTH - MARGIN - measureText(number, 'regular', 8.5), baseline, { size: 8.5, color: MUTED_COLOR })
+  }
+}
+
+export const cookbookService = new CookbookService()
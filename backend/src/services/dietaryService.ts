@@ -0,0 +1,78 @@
+import { ingredientCategorizer, DietaryFlag } from '@ingredient-categorizer/core'
+import { ingredientParser } from '../utils/ingredientParser'
+import { IngredientCategoryParser } from '../utils/ingredientCategoryParser'
+import { Allergen, DietLabel, IngredientCategory } from '../types/recipe'
+
+export const DIET_LABELS: readonly DietLabel[] = ['vegan', 'vegetarian', 'pescatarian', 'gluten-free', 'dairy-free']
+export const ALLERGENS: readonly Allergen[] = ['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy', 'fish']
+
+// Flags that rule each diet out
+const DIET_EXCLUDED_FLAGS: Record<DietLabel, DietaryFlag[]> = {
+  vegan: ['meat', 'fish', 'shellfish', 'dairy', 'egg'],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  pescatarian: ['meat'],
+  'gluten-free': ['gluten'],
+  'dairy-free': ['dairy']
+}
+
+// Animal products without an allergen flag of their own
+const NON_VEGAN_DISPLAY_NAMES = ['Honey']
+
+// Below this the categorizer only matched part of a word ("guanciale" as "ale") or did not know the ingredient
+const MIN_RECOGNIZED_CONFIDENCE = 0.85
+
+/**
+ * Label stored on recipes that contain an allergen
+ */
+export function allergenLabel(allergen: Allergen): string {
+  return `contains-${allergen}`
+}
+
+/**
+ * Derives diet and allergen labels for recipes from the categorizer's dietary flags
+ */
+export class DietaryService {
+  /**
+   * Compute labels for a recipe's ingredients
+   * @param ingredients - Recipe ingredients in either storage format
+   * @returns Diet labels the recipe satisfies followed by "contains-*" allergen labels; empty for recipes without ingredients.
+   * Diet labels are left out when any ingredient is not recognized, since it could be anything.
+   */
+  getLabels(ingredients: string[] | IngredientCategory[]): string[] {
+    const lines = IngredientCategoryParser.parseIngredientsFromMixed(ingredients || [])
+      .flatMap(category => category.items)
+      .filter(line => typeof line === 'string' && line.trim().length > 0)
+
+    const flags = new Set<DietaryFlag>()
+    let hasNonVeganIngredient = false
+    let hasUnrecognizedIngredient = false
+    let ingredientCount = 0
+
+    for (const line of lines) {
+      const parsed = ingredientParser.parseIngredient(line)[0]
+      if (!parsed || parsed.isGroupHeader) continue
+
+      const categorized = ingredientCategorizer.categorizeIngredient(parsed.description || line)
+      categorized.dietaryFlags.forEach(flag => flags.add(flag))
+      if (NON_VEGAN_DISPLAY_NAMES.includes(categorized.displayName)) {
+        hasNonVeganIngredient = true
+      }
+      if (categorized.category.id === 'OTHER' || categorized.confidence < MIN_RECOGNIZED_CONFIDENCE) {
+        hasUnrecognizedIngredient = true
+      }
+      ingredientCount++
+    }
+
+    if (ingredientCount === 0) return []
+
+    const diets = hasUnrecognizedIngredient ? [] : DIET_LABELS.filter(diet =>
+      DIET_EXCLUDED_FLAGS[diet].every(flag => !flags.has(flag)) &&
+      !(diet === 'vegan' && hasNonVeganIngredient)
+    )
+    const allergens = ALLERGENS.filter(allergen => flags.has(allergen)).map(allergenLabel)
+
+    return [...diets, ...allergens]
+  }
+}
+
+export const dietaryService = new DietaryService()
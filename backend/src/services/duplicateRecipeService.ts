@@ -0,0 +1,72 @@
+import { recipeModel } from '../models/recipeModel'
+import { CreateRecipeRequest, Recipe, RecipeDuplicate } from '../types/recipe'
+import { User } from '../types/user'
+import {
+  canonicalizeSourceUrl,
+  getNameTokens,
+  getIngredientNames,
+  setSimilarity,
+  isContentDuplicate
+} from '../utils/duplicateHelper'
+
+const MAX_DUPLICATES = 5
+
+export type DuplicateCandidate = Pick<CreateRecipeRequest, 'name' | 'ingredients' | 'sourceUrl'>
+
+export class DuplicateRecipeService {
+  /**
+   * Find the user's own and household recipes that the candidate appears to repeat
+   * @param candidate - Recipe about to be imported or saved
+   * @param user - User saving it
+   * @returns Likely duplicates, best match first
+   */
+  async findDuplicates(candidate: DuplicateCandidate, user: User): Promise<RecipeDuplicate[]> {
+    const recipes = await recipeModel.findForExport(user.id, user.householdId)
+    return this.rankDuplicates(candidate, recipes)
+  }
+
+  /**
+   * Compare a candidate against existing recipes by canonical source URL, then by name and ingredients
+   * @param candidate - Recipe about to be imported or saved
+   * @param recipes - Recipes the user can access
+   * @returns Up to five duplicates; source URL matches come first
+   */
+  rankDuplicates(candidate: DuplicateCandidate, recipes: Recipe[]): RecipeDuplicate[] {
+    const sourceUrl = canonicalizeSourceUrl(candidate.sourceUrl)
+    const nameTokens = getNameTokens(candidate.name)
+    const ingredientNames = getIngredientNames(candidate.ingredients)
+    const duplicates: RecipeDuplicate[] = []
+
+    for (const recipe of recipes) {
+      if (sourceUrl && canonicalizeSourceUrl(recipe.sourceUrl) === sourceUrl) {
+        duplicates.push(this.toDuplicate(recipe, 'sourceUrl', 1))
+        continue
+      }
+
+      const nameSimilarity = setSimilarity(nameTokens, getNameTokens(recipe.name))
+      if (nameSimilarity === 0) continue
+
+      const ingredientSimilarity = setSimilarity(ingredientNames, getIngredientNames(recipe.ingredients))
+      if (isContentDuplicate(nameSimilarity, ingredientSimilarity)) {
+        duplicates.push(this.toDuplicate(recipe, 'content', Math.min(nameSimilarity, ingredientSimilarity)))
+      }
+    }
+
+    return duplicates
+      .sort((a, b) => b.similarity - a.similarity || a.name.localeCompare(b.name))
+      .slice(0, MAX_DUPLICATES)
+  }
+
+  private toDuplicate(recipe: Recipe, matchedBy: RecipeDuplicate['matchedBy'], similarity: number): RecipeDuplicate {
+    return {
+      id: recipe.id,
+      name: recipe.name,
+      image: recipe.imageSizes?.small.url || recipe.image,
+      sourceUrl: recipe.sourceUrl,
+      matchedBy,
+      similarity: Math.round(similarity * 100) / 100
+    }
+  }
+}
+
+export const duplicateRecipeService = new DuplicateRecipeService()
@@ -0,0 +1,102 @@
+import { extname } from 'path'
+import { imageService } from './imageService'
+import { Recipe } from '../types/recipe'
+import { ZipEntry } from '../utils/zipReader'
+import { createZipArchive } from '../utils/zipWriter'
+import { recipeToJsonLd, recipeToMarkdown, slugify } from '../utils/recipeExportFormats'
+
+export interface ExportManifest {
+  exportedAt: string
+  user: { id: string; email: string; displayName: string }
+  includesHousehold: boolean
+  recipes: Array<{ id: string; name: string; folder: string }>
+}
+
+/**
+ * Builds account exports: one folder per recipe with open-format files and the original import payloads
+ */
+export class ExportService {
+  /**
+   * Assign each recipe a unique folder name based on its name
+   */
+  assignFolders(recipes: Recipe[]): Map<string, string> {
+    const used = new Set<string>()
+    const folders = new Map<string, string>()
+
+    for (const recipe of recipes) {
+      const base = slugify(recipe.name)
+      let folder = base
+      for (let suffix = 2; used.has(folder); suffix++) {
+        folder = `${base}-${suffix}`
+      }
+      used.add(folder)
+      folders.set(recipe.id, folder)
+    }
+
+    return folders
+  }
+
+  /**
+   * Files exported for one recipe, relative to its folder
+   */
+  async buildRecipeEntries(recipe: Recipe): Promise<ZipEntry[]> {
+    const entries: ZipEntry[] = []
+
+    // Uploaded images are bundled; external image URLs are referenced as-is
+    const storedImage = recipe.image ? await imageService.readStoredImage(recipe.image) : null
+    const imagePath = storedImage ? `image${extname(storedImage.filename) || '.jpg'}` : undefined
+    if (storedImage && imagePath) {
+      entries.push({ name: imagePath, data: storedImage.data })
+    }
+
+    entries.push(
+      { name: 'recipe.jsonld', data: Buffer.from(JSON.stringify(recipeToJsonLd(recipe, imagePath), null, 2)) },
+      { name: 'recipe.md', data: Buffer.from(recipeToMarkdown(recipe, imagePath)) }
+    )
+
+    if (recipe.originalScrapedData) {
+      entries.push({ name: 'original/scraped-data.json', data: Buffer.from(recipe.originalScrapedData) })
+    }
+    if (recipe.originalTextInput) {
+      entries.push({ name: 'original/text-input.txt', data: Buffer.from(recipe.originalTextInput) })
+    }
+    if (recipe.importAdditionalContext) {
+      entries.push({ name: 'original/additional-context.txt', data: Buffer.from(recipe.importAdditionalContext) })
+    }
+
+    return entries
+  }
+
+  /**
+   * Build the export zip archive
+   * @param recipes - Recipes to include
+   * @param user - Account the export belongs to
+   * @param includesHousehold - Whether household recipes were included
+   */
+  async buildArchive(
+    recipes: Recipe[],
+    user: ExportManifest['user'],
+    includesHousehold: boolean
+  ): Promise<Buffer> {
+    const folders = this.assignFolders(recipes)
+    const entries: ZipEntry[] = []
+
+    for (const recipe of recipes) {
+      const folder = folders.get(recipe.id)!
+      const recipeEntries = await this.buildRecipeEntries(recipe)
+      entries.push(...recipeEntries.map(entry => ({ name: `recipes/${folder}/${entry.name}`, data: entry.data })))
+    }
+
+    const manifest: ExportManifest = {
+      exportedAt: new Date().toISOString(),
+      user,
+      includesHousehold,
+      recipes: recipes.map(recipe => ({ id: recipe.id, name: recipe.name, folder: `recipes/${folders.get(recipe.id)}` }))
+    }
+    entries.unshift({ name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) })
+
+    return createZipArchive(entries)
+  }
+}
+
+export const exportService = new ExportService()
@@ -1,5 +1,5 @@
 import { promises as fs } from 'fs'
-import { join } from 'path'
+import { basename, join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import sharp from 'sharp'
 import heicConvert from 'heic-convert'
@@ -157,6 +157,24 @@ class ImageService {
     }
   }
 
+  /**
+   * Read a stored image back from the uploads directory
+   * @param imageUrl - URL returned by storeImage (e.g. /uploads/<file>.jpg)
+   * @returns File name and contents, or null for external URLs and missing files
+   */
+  async readStoredImage(imageUrl: string): Promise<{ filename: string; data: Buffer } | null> {
+    if (!imageUrl.startsWith('/uploads/')) return null
+
+    const filename = basename(imageUrl.split('?')[0])
+    try {
+      const data = await fs.readFile(join(this.uploadsDir, filename))
+      return { filename, data }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
   async deleteImage(filename: string): Promise<void> {
     // Delete main file
     const filePath = join(this.uploadsDir, filename)
@@ -0,0 +1,166 @@
+import { createError } from '../middleware/errorHandler'
+import { importJobModel } from '../models/importJobModel'
+import { userModel, mapUserRowToUser } from '../models/userModel'
+import { ImportJob, ImportJobInput, ImportJobResult, ImportJobType, ParsedRecipeData } from '../types/importJob'
+import {
+  DEFAULT_IMPORT_JOB_MAX_ATTEMPTS,
+  DEFAULT_IMPORT_JOB_RETRY_DELAY_MS,
+  getRetryDelayMs,
+  isRetryableImportError
+} from '../utils/importJobHelper'
+import { duplicateRecipeService } from './duplicateRecipeService'
+import { recipeParseService } from './recipeParseService'
+
+// Due jobs are also picked up straight away when they are queued; polling catches retries and other instances' jobs
+const POLL_INTERVAL_MS = 5000
+
+// How often polling also requeues jobs whose server stopped while running them
+const STALE_JOB_CHECK_INTERVAL_MS = 60 * 1000
+
+export interface ImportJobQueueOptions {
+  concurrency?: number
+  maxAttempts?: number
+  retryDelayMs?: number
+}
+
+/**
+ * Runs queued URL, text and photo imports in the background. Jobs live in the import_jobs table,
+ * so they survive restarts and users can leave the page while they run.
+ */
+export class ImportJobQueue {
+  private concurrency = 2
+  private maxAttempts = DEFAULT_IMPORT_JOB_MAX_ATTEMPTS
+  private retryDelayMs = DEFAULT_IMPORT_JOB_RETRY_DELAY_MS
+  private activeJobs = 0
+  private pollTimer: NodeJS.Timeout | null = null
+  private polling = false
+  private lastStaleJobCheck = Date.now()
+
+  /**
+   * Start polling for due jobs
+   */
+  start(options: ImportJobQueueOptions = {}): void {
+    this.concurrency = options.concurrency ?? this.concurrency
+    this.maxAttempts = options.maxAttempts ?? this.maxAttempts
+    this.retryDelayMs = options.retryDelayMs ?? this.retryDelayMs
+
+    if (this.pollTimer) return
+    this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS)
+    this.poll()
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  /**
+   * Queue an import for the user and start it if a worker is free
+   * @param file - Photo to parse, for image imports
+   */
+  async enqueue(userId: string, type: ImportJobType, input: ImportJobInput, file?: Buffer): Promise<ImportJob> {
+    const job = await importJobModel.create({ userId, type, input, file, maxAttempts: this.maxAttempts })
+    if (this.pollTimer) {
+      this.poll()
+    }
+    return job
+  }
+
+  // Claims due jobs until every worker slot is busy; each finished job frees a slot and polls again
+  private async poll(): Promise<void> {
+    if (this.polling) return
+    this.polling = true
+
+    try {
+      if (Date.now() - this.lastStaleJobCheck >= STALE_JOB_CHECK_INTERVAL_MS) {
+        this.lastStaleJobCheck = Date.now()
+        const requeued = await importJobModel.requeueInterrupted()
+        if (requeued > 0) {
+          console.log(`Requeued ${requeued} recipe imports left running by a stopped server`)
+        }
+      }
+
+      while (this.activeJobs < this.concurrency) {
+        const claimed = await importJobModel.claimNext()
+        if (!claimed) break
+
+        this.activeJobs++
+        this.runJob(claimed.job, claimed.file)
+          .catch(error => console.error(`Import job ${claimed.job.id} crashed:`, error))
+          .finally(() => {
+            this.activeJobs--
+            if (this.pollTimer) {
+              this.poll()
+            }
+          })
+      }
+    } catch (error) {
+      console.error('Failed to claim import jobs:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  private async runJob(job: ImportJob, file?: Buffer): Promise<void> {
+    try {
+      const result = await this.processJob(job, file)
+      await importJobModel.markCompleted(job.id, result)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Import failed'
+
+      if (isRetryableImportError(error) && job.attempts < job.maxAttempts) {
+        const runAt = new Date(Date.now() + getRetryDelayMs(job.attempts, this.retryDelayMs))
+        console.warn(`Import job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${runAt.toISOString()}:`, message)
+        await importJobModel.scheduleRetry(job.id, message, runAt)
+      } else {
+        console.error(`Import job ${job.id} failed:`, message)
+        await importJobModel.markFailed(job.id, message)
+      }
+    }
+  }
+
+  private async processJob(job: ImportJob, file?: Buffer): Promise<ImportJobResult> {
+    const { input } = job
+    let recipeData: ParsedRecipeData
+
+    switch (job.type) {
+      case 'url':
+        recipeData = await recipeParseService.parseUrl({
+          url: input.url || '',
+          targetLanguage: input.targetLanguage,
+          additionalContext: input.additionalContext
+        })
+        break
+      case 'text':
+        recipeData = await recipeParseService.parseText({
+          text: input.text || '',
+          targetLanguage: input.targetLanguage,
+          additionalContext: input.additionalContext
+        })
+        break
+      case 'image':
+        if (!file) {
+          throw createError('The uploaded photo is no longer available', 400)
+        }
+        recipeData = await recipeParseService.parseImage({
+          buffer: file,
+          filename: input.filename,
+          targetLanguage: input.targetLanguage
+        })
+        break
+      default:
+        throw createError(`Unknown import type: ${job.type}`, 400)
+    }
+
+    const userRow = await userModel.findById(job.userId)
+    const duplicates = userRow
+      ? await duplicateRecipeService.findDuplicates(recipeData, mapUserRowToUser(userRow))
+      : []
+
+    return { recipeData, duplicates }
+  }
+}
+
+export const importJobQueue = new ImportJobQueue()
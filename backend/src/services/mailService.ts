@@ -0,0 +1,273 @@
+import net from 'net'
+import tls from 'tls'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { MailMessage, MailTransport } from '../types/mail'
+import { buildMimeMessage, dotStuff, getMailboxAddress } from '../utils/mailMessage'
+
+const SMTP_TIMEOUT_MS = 30000
+const DEFAULT_MAIL_FROM = 'Recipe Reaper <no-reply@recipereaper.app>'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+interface SmtpResponse {
+  code: number
+  lines: string[]
+}
+
+/**
+ * One SMTP conversation: sends command lines and reads (possibly multi-line) replies in order
+ */
+class SmtpConnection {
+  private buffer = ''
+  private pendingLines: string[] = []
+  private responses: SmtpResponse[] = []
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null
+  private error: Error | null = null
+  private readonly onData = (chunk: string) => this.receive(chunk)
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port })
+      const onError = (error: Error) => reject(new Error(`Could not connect to SMTP server ${options.host}:${options.port}: ${error.message}`))
+
+      socket.once('error', onError)
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError)
+        resolve(new SmtpConnection(socket))
+      })
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('Connection timed out')))
+    })
+  }
+
+  /**
+   * Send a command (or only read, for the greeting) and check the reply code
+   * @throws When the reply code is not one of the expected codes
+   */
+  async command(line: string | null, expected: number[]): Promise<SmtpResponse> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`)
+    }
+    const response = await this.read()
+    if (!expected.includes(response.code)) {
+      // Only the verb goes into the error so credentials never end up in logs
+      const verb = line === null ? 'connecting' : line.split(' ')[0]
+      throw new Error(`SMTP server rejected ${verb}: ${response.code} ${response.lines.join(' ')}`)
+    }
+    return response
+  }
+
+  // Switch the open connection to TLS after the server accepted STARTTLS
+  async upgrade(host: string): Promise<void> {
+    this.socket.off('data', this.onData)
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host })
+      upgraded.once('secureConnect', () => resolve(upgraded))
+      upgraded.once('error', reject)
+    })
+    this.socket = secureSocket
+    this.attach(secureSocket)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8')
+    socket.on('data', this.onData)
+    socket.on('error', (error: Error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')))
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk
+    let newline: number
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.pendingLines.push(line)
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines.map(l => l.slice(4)) }
+        this.pendingLines = []
+        if (this.waiting) {
+          this.waiting.resolve(response)
+          this.waiting = null
+        } else {
+          this.responses.push(response)
+        }
+      }
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift()
+    if (response) return Promise.resolve(response)
+    if (this.error) return Promise.reject(this.error)
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error || error
+    if (this.waiting) {
+      this.waiting.reject(this.error)
+      this.waiting = null
+    }
+  }
+}
+
+/**
+ * Delivers mail through an SMTP server (e.g. a relay or a provider's SMTP endpoint)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp'
+
+  constructor(private options: SmtpOptions, private clientName = 'localhost') {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const connection = await SmtpConnection.open(this.options)
+
+    try {
+      await connection.command(null, [220])
+      let capabilities = await connection.command(`EHLO ${this.clientName}`, [250])
+
+      const offersStartTls = capabilities.lines.some(line => /^STARTTLS\b/i.test(line))
+      if (!this.options.secure && offersStartTls) {
+        await connection.command('STARTTLS', [220])
+        await connection.upgrade(this.options.host)
+        capabilities = await connection.command(`EHLO ${this.clientName}`, [250])
+      }
+
+      if (this.options.user) {
+        if (!this.options.secure && !offersStartTls) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send the password unencrypted')
+        }
+        await this.authenticate(connection, capabilities)
+      }
+
+      await connection.command(`MAIL FROM:<${getMailboxAddress(message.from)}>`, [250])
+      await connection.command(`RCPT TO:<${getMailboxAddress(message.to)}>`, [250, 251])
+      await connection.command('DATA', [354])
+      await connection.command(`${dotStuff(buildMimeMessage(message))}.`, [250])
+      await connection.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+
+  private async authenticate(connection: SmtpConnection, capabilities: SmtpResponse): Promise<void> {
+    const user = this.options.user || ''
+    const password = this.options.password || ''
+    const authLine = capabilities.lines.find(line => /^AUTH\b/i.test(line)) || ''
+
+    if (/\bPLAIN\b/i.test(authLine)) {
+      const credentials = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+      return
+    }
+
+    await connection.command('AUTH LOGIN', [334])
+    await connection.command(Buffer.from(user, 'utf8').toString('base64'), [334])
+    await connection.command(Buffer.from(password, 'utf8').toString('base64'), [235])
+  }
+}
+
+/**
+ * Saves each message as an .eml file, for opening in a mail client during local development
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40)
+    const path = join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug || 'message'}.eml`)
+    await fs.writeFile(path, buildMimeMessage(message))
+    console.log(`Saved email "${message.subject}" to ${message.to} in ${path}`)
+  }
+}
+
+/**
+ * Prints each message to the server log; the default when no mail transport is configured
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console'
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`--- Email to ${message.to}: ${message.subject} ---\n${message.text}\n--- End of email ---`)
+  }
+}
+
+/**
+ * Build the transport named by MAIL_TRANSPORT (smtp, file or console).
+ * Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const name = (env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console')).trim().toLowerCase()
+
+  switch (name) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp')
+      }
+      const secure = env.SMTP_SECURE === 'true'
+      return new SmtpMailTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined
+      })
+    }
+    case 'file':
+      return new FileMailTransport(env.MAIL_FILE_DIR || './data/mail')
+    case 'console':
+      return new ConsoleMailTransport()
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${name}", printing emails to the console instead`)
+      return new ConsoleMailTransport()
+  }
+}
+
+/**
+ * Service for sending account emails through the configured transport
+ */
+export class MailService {
+  constructor(
+    private transport: MailTransport = createMailTransport(),
+    private from: string = process.env.MAIL_FROM || DEFAULT_MAIL_FROM
+  ) {}
+
+  get transportName(): string {
+    return this.transport.name
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from })
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService()
@@ -0,0 +1,174 @@
+import { ingredientCategorizer } from '@ingredient-categorizer/core'
+import nutritionData from '../data/nutrition.json'
+import { ingredientParser, NormalizedIngredient } from '../utils/ingredientParser'
+import { IngredientCategoryParser } from '../utils/ingredientCategoryParser'
+import { UNIT_DEFINITIONS, getIngredientDensity, resolveUnitId } from '../utils/unitConversion'
+import { IngredientCategory } from '../types/recipe'
+import { FoodComposition, NutrientAmounts, NutrientKey, NutritionFacts, NutritionIngredientMatch } from '../types/nutrition'
+
+const FOODS: Record<string, FoodComposition> = nutritionData.foods
+
+export const NUTRIENT_KEYS: readonly NutrientKey[] = [
+  'calories', 'protein', 'fat', 'saturatedFat', 'carbohydrates', 'fiber',
+  'sugar', 'sodium', 'calcium', 'iron', 'potassium', 'vitaminC'
+]
+
+// Volumes for imprecise units parse-ingredient recognizes, in milliliters
+const SMALL_MEASURES: Record<string, number> = {
+  pinch: 0.31,
+  dash: 0.62,
+  smidgen: 0.15,
+  drop: 0.05
+}
+
+// Package sizes written in parentheses, e.g. "1 (400g) can tomatoes" or "2 (15 oz) cans beans"
+const PACKAGE_SIZE_PATTERN = /\(\s*(\d+(?:\.\d+)?)\s*-?\s*(g|grams?|kg|oz|ounces?|lbs?|pounds?|ml|l|liters?|fl\.? oz)\s*\.?\s*\)/i
+
+/**
+ * Estimates recipe nutrition from the bundled food-composition table.
+ * Ingredient lines are matched on the categorizer displayName and converted to grams
+ * from the parsed quantity and unit; lines that cannot be weighed are reported as unmatched.
+ */
+export class NutritionService {
+  /**
+   * Look up the food-composition entry for an ingredient
+   * @param displayName - Categorizer displayName
+   */
+  getFood(displayName: string): FoodComposition | null {
+    return FOODS[displayName] ?? null
+  }
+
+  /**
+   * Estimate the weight of a parsed ingredient line
+   * @param parsed - Parser output for the line
+   * @param food - Dataset entry the line matched
+   * @returns Grams, or null when the amount is missing ("salt to taste") or the unit cannot be converted
+   */
+  estimateGrams(parsed: NormalizedIngredient, food: FoodComposition): number | null {
+    const unitId = resolveUnitId(parsed.unitOfMeasureID)
+    // "pinch salt" has no number but still names an amount
+    const baseQuantity = parsed.quantity ?? (unitId && SMALL_MEASURES[unitId] !== undefined ? 1 : null)
+    if (baseQuantity === null) return null
+    const quantity = parsed.quantity2 ? (baseQuantity + parsed.quantity2) / 2 : baseQuantity
+    const description = parsed.description.toLowerCase()
+    const unit = unitId ? UNIT_DEFINITIONS[unitId] : undefined
+
+    if (!unit) {
+      const packageGrams = this.packageSizeGrams(description, food)
+      if (packageGrams !== null) return quantity * packageGrams
+    }
+
+    if (unit) {
+      if (unit.dimension === 'mass') return quantity * unit.toBase
+      const density = food.density ?? getIngredientDensity(description)
+      return density ? quantity * unit.toBase * density : null
+    }
+
+    if (unitId && SMALL_MEASURES[unitId] !== undefined) {
+      const density = food.density ?? getIngredientDensity(description) ?? 1
+      return quantity * SMALL_MEASURES[unitId] * density
+    }
+
+    if (unitId) {
+      const unitGrams = this.countUnitGrams(unitId, food)
+      return unitGrams !== null ? quantity * unitGrams : null
+    }
+
+    // parse-ingredient leaves many count units in the description ("3 slices bacon")
+    for (const word of description.split(/[^a-z]+/)) {
+      const unitGrams = word ? this.countUnitGrams(word, food) : null
+      if (unitGrams !== null) return quantity * unitGrams
+    }
+
+    return food.pieceGrams !== undefined ? quantity * food.pieceGrams : null
+  }
+
+  /**
+   * Estimate nutrition for a recipe
+   * @param ingredients - Recipe ingredients in either storage format
+   * @param servings - Servings the recipe makes; values below 1 are treated as 1
+   */
+  calculate(ingredients: string[] | IngredientCategory[], servings: number): NutritionFacts {
+    const lines = IngredientCategoryParser.parseIngredientsFromMixed(ingredients || [])
+      .flatMap(category => category.items)
+      .filter(line => typeof line === 'string' && line.trim().length > 0)
+
+    const total = this.emptyAmounts()
+    const matchedIngredients: NutritionIngredientMatch[] = []
+    const unmatchedIngredients: string[] = []
+
+    for (const line of lines) {
+      const parsed = ingredientParser.parseIngredient(line)[0]
+      if (!parsed || parsed.isGroupHeader) continue
+
+      const displayName = parsed.description
+        ? ingredientCategorizer.categorizeIngredient(parsed.description).displayName
+        : ''
+      const food = this.getFood(displayName)
+      const grams = food ? this.estimateGrams(parsed, food) : null
+
+      if (!food || grams === null) {
+        unmatchedIngredients.push(line.trim())
+        continue
+      }
+
+      for (const key of NUTRIENT_KEYS) {
+        total[key] += food.per100g[key] * grams / 100
+      }
+      matchedIngredients.push({ text: line.trim(), displayName, grams: Math.round(grams) })
+    }
+
+    const servingCount = Math.max(1, Math.round(servings) || 1)
+    const perServing = this.emptyAmounts()
+    for (const key of NUTRIENT_KEYS) {
+      perServing[key] = this.round(total[key] / servingCount)
+      total[key] = this.round(total[key])
+    }
+
+    return {
+      perServing,
+      total,
+      servings: servingCount,
+      matchedIngredients,
+      unmatchedIngredients,
+      computedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Grams per package when the line states its size in parentheses
+   */
+  private packageSizeGrams(description: string, food: FoodComposition): number | null {
+    const match = description.match(PACKAGE_SIZE_PATTERN)
+    if (!match) return null
+
+    const unitId = resolveUnitId(match[2].replace(/\.\s*/, ' '))
+    const unit = unitId ? UNIT_DEFINITIONS[unitId] : undefined
+    if (!unit) return null
+
+    const amount = Number(match[1]) * unit.toBase
+    if (unit.dimension === 'mass') return amount
+    return amount * (food.density ?? 1)
+  }
+
+  /**
+   * Grams per count unit, accepting plural forms ("cloves", "bunches")
+   */
+  private countUnitGrams(word: string, food: FoodComposition): number | null {
+    if (!food.units) return null
+    const candidates = [word, word.replace(/es$/, ''), word.replace(/s$/, '')]
+    const key = candidates.find(candidate => food.units![candidate] !== undefined)
+    return key ? food.units[key] : null
+  }
+
+  private emptyAmounts(): NutrientAmounts {
+    return Object.fromEntries(NUTRIENT_KEYS.map(key => [key, 0])) as unknown as NutrientAmounts
+  }
+
+  // Large amounts are whole numbers; small ones keep one decimal
+  private round(value: number): number {
+    return value >= 100 ? Math.round(value) : Math.round(value * 10) / 10
+  }
+}
+
+export const nutritionService = new NutritionService()
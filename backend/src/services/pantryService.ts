@@ -0,0 +1,111 @@
+import { ingredientCategorizer } from '@ingredient-categorizer/core'
+import { ingredientParser } from '../utils/ingredientParser'
+import { IngredientCategoryParser } from '../utils/ingredientCategoryParser'
+import { Recipe } from '../types/recipe'
+import { PantryItem, PantryRecipeMatch } from '../types/pantry'
+
+// Ingredients nearly every kitchen has; they count as available unless disabled
+const PANTRY_STAPLES = ['water', 'salt', 'black pepper', 'ice']
+
+export interface NormalizedPantryItem {
+  name: string
+  displayName: string
+  category: string
+}
+
+export interface PantryMatchOptions {
+  maxMissing?: number
+  includeStaples?: boolean
+}
+
+export class PantryService {
+  /**
+   * Normalize free-form pantry input to the canonical ingredient name used for matching
+   * @param name - Text entered by the user (e.g. "2 cans chickpeas")
+   * @returns Cleaned name plus categorizer displayName and category id
+   */
+  normalizeItem(name: string): NormalizedPantryItem {
+    const trimmed = name.trim()
+    const parsed = ingredientParser.parseIngredient(trimmed)[0]
+    const description = parsed?.description?.trim() || trimmed
+    const categorized = ingredientCategorizer.categorizeIngredient(description)
+
+    return {
+      name: description,
+      displayName: categorized.displayName,
+      category: categorized.category.id
+    }
+  }
+
+  /**
+   * Rank recipes by how many of their ingredients are covered by the pantry
+   * @param recipes - Recipes the user can access
+   * @param pantryItems - Current pantry contents
+   * @param options - maxMissing drops recipes needing more items, includeStaples treats staples as available
+   * @returns Matches with at least one pantry ingredient, best coverage first
+   */
+  matchRecipes(recipes: Recipe[], pantryItems: PantryItem[], options: PantryMatchOptions = {}): PantryRecipeMatch[] {
+    const { maxMissing, includeStaples = true } = options
+
+    const available = new Set(pantryItems.map(item => item.displayName.toLowerCase()))
+    const matches: PantryRecipeMatch[] = []
+
+    for (const recipe of recipes) {
+      const ingredients = this.getRecipeIngredients(recipe)
+      if (ingredients.length === 0) continue
+
+      const matched = new Set<string>()
+      const missing: string[] = []
+      let stapleCount = 0
+
+      for (const ingredient of ingredients) {
+        const key = ingredient.displayName.toLowerCase()
+        if (available.has(key)) {
+          matched.add(ingredient.displayName)
+        } else if (includeStaples && PANTRY_STAPLES.includes(key)) {
+          stapleCount++
+        } else {
+          missing.push(ingredient.originalText)
+        }
+      }
+
+      if (matched.size === 0) continue
+      if (maxMissing !== undefined && missing.length > maxMissing) continue
+
+      const totalCount = ingredients.length - stapleCount
+      const matchedCount = totalCount - missing.length
+
+      matches.push({
+        recipe,
+        matchedCount,
+        totalCount,
+        matchRatio: totalCount > 0 ? matchedCount / totalCount : 0,
+        matchedIngredients: Array.from(matched),
+        missingIngredients: missing
+      })
+    }
+
+    return matches.sort((a, b) =>
+      b.matchRatio - a.matchRatio ||
+      a.missingIngredients.length - b.missingIngredients.length ||
+      a.recipe.name.localeCompare(b.recipe.name)
+    )
+  }
+
+  /**
+   * Parse a recipe's ingredient lines into canonical names, skipping section headers
+   */
+  private getRecipeIngredients(recipe: Recipe): Array<{ displayName: string; originalText: string }> {
+    const lines = IngredientCategoryParser.getAllIngredients(recipe.ingredients || [])
+      .filter(line => typeof line === 'string' && line.trim().length > 0)
+
+    return ingredientParser.parseIngredients(lines)
+      .filter(parsed => !parsed.isGroupHeader && parsed.description)
+      .map(parsed => ({
+        displayName: ingredientCategorizer.categorizeIngredient(parsed.description).displayName,
+        originalText: parsed.originalText
+      }))
+  }
+}
+
+export const pantryService = new PantryService()
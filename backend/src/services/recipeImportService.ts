@@ -0,0 +1,256 @@
+import { basename, dirname, extname } from 'path'
+import { imageService } from './imageService'
+import { recipeModel } from '../models/recipeModel'
+import { recipeImportJobModel } from '../models/recipeImportJobModel'
+import { ImportedRecipe, ImportFormat, ImportOptions, ImportResultEntry } from '../types/recipeImport'
+import { CreateRecipeRequest } from '../types/recipe'
+import { User } from '../types/user'
+import {
+  createInflateBudget,
+  gunzipWithinBudget,
+  InflateBudget,
+  isGzipData,
+  isZipArchive,
+  readZipEntries,
+  ZipEntry
+} from '../utils/zipReader'
+import {
+  findJsonLdRecipes,
+  mapJsonLdRecipe,
+  mapMealieRecipe,
+  mapPaprikaRecipe,
+  mapTandoorRecipe
+} from '../utils/recipeImportMappers'
+import { isSupportedLanguage } from '../utils/languageHelper'
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif']
+const JSON_LD_SCRIPT_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+
+export interface ExtractedImport {
+  format: ImportFormat
+  recipes: ImportedRecipe[]
+}
+
+function parseJson(buffer: Buffer, name: string): any {
+  try {
+    return JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''))
+  } catch {
+    throw new Error(`"${name}" is not valid JSON`)
+  }
+}
+
+function isImage(name: string): boolean {
+  return IMAGE_EXTENSIONS.includes(extname(name).toLowerCase())
+}
+
+function isMealieRecipe(data: any): boolean {
+  return !!data && typeof data === 'object' && !data['@type'] && 'recipeIngredient' in data && 'slug' in data
+}
+
+function isTandoorRecipe(data: any): boolean {
+  return !!data && typeof data === 'object' && Array.isArray(data.steps) && 'working_time' in data
+}
+
+export class RecipeImportService {
+  /**
+   * Read all recipes from an uploaded export file
+   * @param buffer - Uploaded file contents
+   * @param filename - Original filename, used to recognize the format
+   * @returns Detected format and mapped recipes (images not yet stored)
+   * @throws Error if the file is not a supported export
+   */
+  extractRecipes(buffer: Buffer, filename: string): ExtractedImport {
+    const extension = extname(filename).toLowerCase()
+    const budget = createInflateBudget()
+
+    if (extension === '.paprikarecipes' || extension === '.paprikarecipe') {
+      return { format: 'paprika', recipes: this.extractPaprika(buffer, budget) }
+    }
+
+    if (isZipArchive(buffer)) {
+      return this.extractFromZip(readZipEntries(buffer, budget), budget)
+    }
+
+    if (extension === '.html' || extension === '.htm') {
+      return { format: 'jsonld', recipes: this.extractJsonLdFromHtml(buffer.toString('utf8')) }
+    }
+
+    const data = parseJson(buffer, filename)
+    return this.extractFromJson(data, filename)
+  }
+
+  private extractPaprika(buffer: Buffer, budget: InflateBudget): ImportedRecipe[] {
+    // A .paprikarecipes file is a zip of gzipped JSON documents; a single .paprikarecipe is one of them
+    const documents = isZipArchive(buffer)
+      ? readZipEntries(buffer, budget).map(entry => entry.data)
+      : [buffer]
+
+    return documents.map(document =>
+      mapPaprikaRecipe(parseJson(isGzipData(document) ? gunzipWithinBudget(document, budget) : document, 'Paprika recipe'))
+    )
+  }
+
+  private extractFromZip(entries: ZipEntry[], budget: InflateBudget): ExtractedImport {
+    // Tandoor exports nest one zip per recipe holding recipe.json and an image
+    const nestedZips = entries.filter(entry => entry.name.toLowerCase().endsWith('.zip'))
+    if (nestedZips.length > 0 && nestedZips.length === entries.filter(entry => !isImage(entry.name)).length) {
+      return { format: 'tandoor', recipes: nestedZips.flatMap(entry => this.extractTandoorRecipe(readZipEntries(entry.data, budget))) }
+    }
+
+    if (entries.some(entry => entry.name.toLowerCase().endsWith('.paprikarecipe'))) {
+      return {
+        format: 'paprika',
+        recipes: entries
+          .filter(entry => entry.name.toLowerCase().endsWith('.paprikarecipe'))
+          .flatMap(entry => this.extractPaprika(entry.data, budget))
+      }
+    }
+
+    const documents = entries.filter(entry => /\.(json|jsonld)$/i.test(entry.name))
+    if (documents.length === 0) {
+      throw new Error('The archive does not contain any recipe files')
+    }
+
+    const parsed = documents.map(entry => ({ entry, data: parseJson(entry.data, entry.name) }))
+
+    if (parsed.some(({ data }) => isTandoorRecipe(data))) {
+      return { format: 'tandoor', recipes: this.extractTandoorRecipe(entries) }
+    }
+
+    if (parsed.some(({ data }) => isMealieRecipe(data))) {
+      const recipes = parsed
+        .filter(({ data }) => isMealieRecipe(data))
+        .map(({ entry, data }) => {
+          const recipe = mapMealieRecipe(data)
+          // Mealie stores images next to the recipe JSON, e.g. recipes/<slug>/images/original.webp
+          const folder = dirname(entry.name) === '.' ? '' : `${dirname(entry.name)}/`
+          const image = entries.find(candidate =>
+            candidate.name.startsWith(`${folder}images/`) && isImage(candidate.name)
+          )
+          return image ? { ...recipe, imageData: image.data, imageName: basename(image.name) } : recipe
+        })
+      return { format: 'mealie', recipes }
+    }
+
+    const recipes = parsed.flatMap(({ data }) => findJsonLdRecipes(data).map(mapJsonLdRecipe))
+    if (recipes.length === 0) {
+      throw new Error('No recipes found in the archive')
+    }
+    return { format: 'jsonld', recipes }
+  }
+
+  private extractTandoorRecipe(entries: ZipEntry[]): ImportedRecipe[] {
+    const document = entries.find(entry => basename(entry.name).toLowerCase() === 'recipe.json')
+    if (!document) return []
+
+    const recipe = mapTandoorRecipe(parseJson(document.data, document.name))
+    const image = entries.find(entry => isImage(entry.name))
+    return [image ? { ...recipe, imageData: image.data, imageName: basename(image.name) } : recipe]
+  }
+
+  private extractFromJson(data: any, filename: string): ExtractedImport {
+    const items = Array.isArray(data) ? data : [data]
+
+    if (items.some(isTandoorRecipe)) {
+      return { format: 'tandoor', recipes: items.filter(isTandoorRecipe).map(mapTandoorRecipe) }
+    }
+    if (items.some(isMealieRecipe)) {
+      return { format: 'mealie', recipes: items.filter(isMealieRecipe).map(mapMealieRecipe) }
+    }
+
+    const recipes = findJsonLdRecipes(data).map(mapJsonLdRecipe)
+    if (recipes.length === 0) {
+      throw new Error(`No recipes found in "${filename}"`)
+    }
+    return { format: 'jsonld', recipes }
+  }
+
+  private extractJsonLdFromHtml(html: string): ImportedRecipe[] {
+    const recipes: ImportedRecipe[] = []
+    for (const match of html.matchAll(JSON_LD_SCRIPT_PATTERN)) {
+      try {
+        recipes.push(...findJsonLdRecipes(JSON.parse(match[1])).map(mapJsonLdRecipe))
+      } catch {
+        // Pages often carry unrelated or broken JSON-LD blocks; skip them
+      }
+    }
+    if (recipes.length === 0) {
+      throw new Error('No schema.org recipes found in the page')
+    }
+    return recipes
+  }
+
+  /**
+   * Store an imported recipe for the user, including its image
+   * @returns Id of the created recipe
+   * @throws Error if required recipe content is missing
+   */
+  async saveRecipe(imported: ImportedRecipe, user: User, options: ImportOptions): Promise<string> {
+    const { imageData, imageName, imageUrl, ...recipe } = imported
+
+    if (!recipe.name) {
+      throw new Error('Recipe has no name')
+    }
+    if (!recipe.ingredients.length) {
+      throw new Error('Recipe has no ingredients')
+    }
+    if (!recipe.instructions.length) {
+      throw new Error('Recipe has no instructions')
+    }
+
+    // A missing image should not fail the whole recipe
+    let imageFields: Pick<CreateRecipeRequest, 'image' | 'imageSizes' | 'blurDataUrl'> = {}
+    try {
+      const stored = imageData
+        ? await imageService.storeImage(imageData, imageName)
+        : imageUrl
+          ? await imageService.downloadAndStoreImageFromUrl(imageUrl)
+          : null
+      if (stored) {
+        imageFields = { image: stored.url, imageSizes: stored.sizes, blurDataUrl: stored.blurDataUrl }
+      }
+    } catch (error) {
+      console.warn(`Failed to store image for imported recipe "${recipe.name}":`, error)
+    }
+
+    const created = await recipeModel.create({
+      ...recipe,
+      ...imageFields,
+      description: recipe.description || '',
+      language: isSupportedLanguage(recipe.language) ? recipe.language : options.language,
+      isPublic: options.isPublic,
+      userId: user.id,
+      householdId: options.isPublic ? undefined : user.householdId
+    })
+    return created.id
+  }
+
+  /**
+   * Run an import job to completion, recording per-recipe results as it goes
+   */
+  async runJob(jobId: string, file: { buffer: Buffer; filename: string }, user: User, options: ImportOptions): Promise<void> {
+    try {
+      const { format, recipes } = this.extractRecipes(file.buffer, file.filename)
+      await recipeImportJobModel.markRunning(jobId, format, recipes.length)
+
+      const results: ImportResultEntry[] = []
+      for (const [index, recipe] of recipes.entries()) {
+        const name = recipe.name || `Recipe ${index + 1}`
+        try {
+          const recipeId = await this.saveRecipe(recipe, user, options)
+          results.push({ name, status: 'imported', recipeId })
+        } catch (error) {
+          results.push({ name, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+        }
+        await recipeImportJobModel.updateProgress(jobId, results)
+      }
+
+      await recipeImportJobModel.markCompleted(jobId)
+    } catch (error) {
+      console.error(`Recipe import ${jobId} failed:`, error)
+      await recipeImportJobModel.markFailed(jobId, error instanceof Error ? error.message : 'Import failed')
+    }
+  }
+}
+
+export const recipeImportService = new RecipeImportService()
@@ -0,0 +1,262 @@
+import { createError } from '../middleware/errorHandler'
+import { geminiService } from './geminiService'
+import { imageService } from './imageService'
+import { scraperService } from './scraperService'
+import { ROBOTS_DISALLOWED_MESSAGE } from './scrapePolitenessService'
+import { ParsedRecipeData } from '../types/importJob'
+import { parseServings, normalizeArray, buildRecipeTextFromScrape } from '../utils/recipeHelpers'
+
+export interface UrlImportRequest {
+  url: string
+  targetLanguage?: string
+  additionalContext?: string
+}
+
+export interface TextImportRequest {
+  text: string
+  targetLanguage?: string
+  additionalContext?: string
+}
+
+export interface ImageImportRequest {
+  buffer: Buffer
+  filename?: string
+  targetLanguage?: string
+}
+
+/**
+ * Turn a URL, pasted text or a photo into recipe fields, for the import endpoints and the import job queue.
+ * Errors carry the HTTP status the user should see; 4xx errors will not succeed on a retry.
+ */
+export class RecipeParseService {
+  async parseUrl({ url, targetLanguage, additionalContext }: UrlImportRequest): Promise<ParsedRecipeData> {
+    if (!url?.trim()) {
+      throw createError('URL is required', 400)
+    }
+
+    // Validate URL format
+    try {
+      new URL(url)
+    } catch {
+      throw createError('Invalid URL format', 400)
+    }
+
+    // Test mode for demonstration - return mock data for test URLs
+    if (url.includes('test-recipe-demo')) {
+      return {
+        name: 'Demo Seafood Boil Crackers',
+        description: 'Delicious crackers perfect for seafood boils with a spicy kick.',
+        ingredients: ['1 sleeve saltine crackers', '1/2 cup butter', '1 packet ranch dressing mix', '1 tsp garlic powder', '1 tsp cayenne pepper', '1 tsp paprika'],
+        instructions: ['Preheat oven to 250°F', 'Break crackers into bite-sized pieces', 'Melt butter and mix with seasonings', 'Toss crackers with seasoned butter', 'Spread on baking sheet', 'Bake for 15-20 minutes, stirring every 5 minutes'],
+        image: 'https://example.com/seafood-crackers.jpg',
+        sourceUrl: url,
+        prepTimeMinutes: 10,
+        servings: 6
+      }
+    }
+
+    try {
+      return await this.scrapeAndParse(url, targetLanguage, additionalContext)
+    } catch (error) {
+      throw this.translateScrapeError(error)
+    }
+  }
+
+  async parseText({ text, targetLanguage, additionalContext }: TextImportRequest): Promise<ParsedRecipeData> {
+    if (!text?.trim()) {
+      throw createError('Recipe text is required', 400)
+    }
+
+    try {
+      // Parse the text using Gemini
+      const parsedData = await geminiService.parseRecipeText(text, targetLanguage, additionalContext)
+
+      // Transform to match scraper response format
+      return {
+        name: parsedData.name,
+        description: parsedData.description,
+        ingredients: parsedData.ingredients,
+        instructions: parsedData.instructions,
+        prepTimeMinutes: parsedData.prepTimeMinutes,
+        cookTimeMinutes: parsedData.cookTimeMinutes,
+        totalTimeMinutes: parsedData.totalTimeMinutes,
+        servings: parsedData.servings,
+        image: parsedData.image,
+        sourceUrl: undefined, // No source URL for text input
+        language: parsedData.language,
+        originalTextInput: text,
+        importAdditionalContext: additionalContext
+      }
+    } catch (error) {
+      throw this.translateGeminiError(error, 'Unable to extract recipe data from the provided text. Please ensure the text contains recipe information.')
+    }
+  }
+
+  async parseImage({ buffer, filename, targetLanguage }: ImageImportRequest): Promise<ParsedRecipeData> {
+    try {
+      // Parse the image directly using Gemini Vision to create a recipe
+      const parsedData = await geminiService.parseRecipeFromImage(buffer, targetLanguage)
+
+      // Stored after parsing so failed attempts leave no orphaned uploads
+      const storedImage = await imageService.storeImage(buffer, filename)
+
+      return {
+        name: parsedData.name,
+        description: parsedData.description,
+        ingredients: parsedData.ingredients,
+        instructions: parsedData.instructions,
+        prepTimeMinutes: parsedData.prepTimeMinutes,
+        cookTimeMinutes: parsedData.cookTimeMinutes,
+        totalTimeMinutes: parsedData.totalTimeMinutes,
+        servings: parseServings(parsedData.servings?.toString()),
+        image: storedImage.url,
+        imageSizes: storedImage.sizes,
+        language: parsedData.language
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Image buffer is required')) {
+        throw createError('Invalid image file. Please upload a valid image.', 400)
+      }
+      throw this.translateGeminiError(error, 'Unable to extract recipe data from the image. Please ensure the image contains clear recipe information.')
+    }
+  }
+
+  private async scrapeAndParse(url: string, targetLanguage?: string, additionalContext?: string): Promise<ParsedRecipeData> {
+    // Scrape recipe data using Python scraper
+    const scrapedData = await scraperService.scrapeRecipe(url)
+
+    console.log('Scraper raw data:', JSON.stringify(scrapedData, null, 2))
+
+    if (!scrapedData) {
+      throw createError('No recipe data found at the provided URL', 404)
+    }
+
+    const ingredients = normalizeArray(scrapedData.ingredients)
+
+    // Transform scraped data to our format
+    // Instructions may come as string or array; normalize to array of steps
+    const instructions = normalizeArray(scrapedData.instructions)
+
+    // Process external image URL - download and optimize it locally
+    let imageData: Pick<ParsedRecipeData, 'image' | 'imageSizes' | 'blurDataUrl'> = {}
+    if (scrapedData.image) {
+      try {
+        const result = await imageService.downloadAndStoreImageFromUrl(scrapedData.image)
+        imageData = {
+          image: result.url,
+          imageSizes: result.sizes,
+          blurDataUrl: result.blurDataUrl
+        }
+        console.log(`Image processing: ${scrapedData.image} -> ${result.url}`)
+      } catch (error) {
+        console.warn(`Failed to process external image for recipe scraping:`, error)
+        // Keep original URL as fallback
+        imageData = { image: scrapedData.image }
+      }
+    }
+
+    let parsedDataFromGemini: Partial<ParsedRecipeData> | null = null
+
+    // Check if scraper returned an error
+    if (scrapedData.error) {
+      throw createError(`Failed to scrape recipe: ${scrapedData.error}`, 400)
+    }
+
+    // Only call Gemini if the scraper successfully returned recipe data
+    const hasValidScrapedData = ingredients.length > 0 && instructions.length > 0
+
+    if (hasValidScrapedData) {
+      const rawRecipeText = buildRecipeTextFromScrape(scrapedData, ingredients, instructions)
+
+      if (rawRecipeText.trim().length > 0) {
+        try {
+          parsedDataFromGemini = await geminiService.parseRecipeText(
+            rawRecipeText,
+            targetLanguage,
+            additionalContext
+          )
+          console.log('Gemini parsed recipe data:', JSON.stringify(parsedDataFromGemini, null, 2))
+        } catch (error) {
+          console.warn('Gemini enhancement for scraped recipe failed:', error)
+        }
+      }
+    } else {
+      throw createError('No recipe data found at the provided URL. The scraper could not extract ingredients or instructions.', 404)
+    }
+
+    return {
+      name: parsedDataFromGemini?.name?.trim() || scrapedData.name || 'Imported Recipe',
+      description:
+        parsedDataFromGemini?.description?.trim() || scrapedData.description || 'Recipe imported from web',
+      ingredients:
+        parsedDataFromGemini?.ingredients?.length
+          ? parsedDataFromGemini.ingredients
+          : ingredients,
+      instructions:
+        parsedDataFromGemini?.instructions?.length
+          ? parsedDataFromGemini.instructions
+          : instructions,
+      ...imageData,
+      sourceUrl: url,
+      prepTimeMinutes:
+        parsedDataFromGemini?.prepTimeMinutes ?? scrapedData.prepTimeMinutes ?? undefined,
+      cookTimeMinutes:
+        parsedDataFromGemini?.cookTimeMinutes ?? scrapedData.cookTimeMinutes ?? undefined,
+      totalTimeMinutes:
+        parsedDataFromGemini?.totalTimeMinutes ?? scrapedData.totalTimeMinutes ?? undefined,
+      servings:
+        parsedDataFromGemini?.servings ?? parseServings(scrapedData.yields),
+      language: parsedDataFromGemini?.language ?? (scrapedData.language as string | undefined),
+      originalScrapedData: JSON.stringify(scrapedData),
+      importAdditionalContext: additionalContext
+    }
+  }
+
+  // Map scraper failures to messages the user can act on; anything unrecognized passes through
+  private translateScrapeError(error: unknown): unknown {
+    if (error instanceof Error) {
+      // The site asked not to be scraped; retrying will not help
+      if (error.message === ROBOTS_DISALLOWED_MESSAGE) {
+        return createError(`${ROBOTS_DISALLOWED_MESSAGE}. Try using the "Text" or "Image" import options instead.`, 403)
+      }
+      // Check for unsupported website
+      if (error.message.includes('not supported') || error.message.includes('not currently supported')) {
+        return createError('This website is not currently supported by the recipe scraper. Try using the "Text" or "Image" import options instead.', 400)
+      }
+      // Check for 404 errors
+      if (error.message.includes('404') || error.message.includes('not found')) {
+        return createError('Recipe not found at the provided URL', 404)
+      }
+      // Check for network errors
+      if (error.message.includes('timeout') || error.message.includes('network')) {
+        return createError('Unable to reach the website. Please check the URL and try again.', 500)
+      }
+      // Check for recipe-scrapers specific errors
+      if (error.message.includes('recipe-scrapers')) {
+        // Extract the actual error message from the scraper output
+        const match = error.message.match(/exception: (.+?)(?:\n|$)/)
+        if (match) {
+          return createError(`Scraper error: ${match[1]}`, 400)
+        }
+      }
+    }
+    return error
+  }
+
+  private translateGeminiError(error: unknown, unparseableMessage: string): unknown {
+    if (error instanceof Error) {
+      if (error.message.includes('API key')) {
+        return createError('Gemini API configuration error', 500)
+      }
+      if (error.message.includes('rate limit') || error.message.includes('quota')) {
+        return createError('Gemini service temporarily unavailable. Please try again later.', 429)
+      }
+      if (error.message.includes('Missing required recipe fields')) {
+        return createError(unparseableMessage, 400)
+      }
+    }
+    return error
+  }
+}
+
+export const recipeParseService = new RecipeParseService()
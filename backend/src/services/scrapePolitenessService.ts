@@ -0,0 +1,85 @@
+import {
+  HostThrottle,
+  RobotsRules,
+  ROBOTS_USER_AGENT,
+  getScrapeHost,
+  isAllowedByRobots,
+  parseRobotsTxt
+} from '../utils/scrapePoliteness'
+
+const ROBOTS_FETCH_TIMEOUT_MS = 5000
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_CACHED_ROBOTS = 500
+
+export const ROBOTS_DISALLOWED_MESSAGE = "The website's robots.txt does not allow automated recipe imports from this page"
+
+export interface ScrapePolitenessOptions {
+  hostConcurrency: number
+  hostMinIntervalMs: number
+  respectRobots: boolean
+}
+
+/**
+ * Keeps scraping from hammering recipe sites: requests to one host are limited and spaced out,
+ * and pages the site's robots.txt disallows are not fetched
+ */
+export class ScrapePolitenessService {
+  private throttle: HostThrottle
+  private robots = new Map<string, { rules: RobotsRules; expiresAt: number }>()
+
+  constructor(private options: ScrapePolitenessOptions) {
+    this.throttle = new HostThrottle(Math.max(1, options.hostConcurrency), options.hostMinIntervalMs)
+  }
+
+  /**
+   * Run a scrape of a URL within its host's limits
+   * @throws ROBOTS_DISALLOWED_MESSAGE when robots.txt disallows the page
+   */
+  async run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = getScrapeHost(url)
+    if (!host) {
+      return task()
+    }
+
+    return this.throttle.run(host, async () => {
+      if (this.options.respectRobots && !(await this.isAllowed(new URL(url)))) {
+        throw new Error(ROBOTS_DISALLOWED_MESSAGE)
+      }
+      return task()
+    })
+  }
+
+  private async isAllowed(url: URL): Promise<boolean> {
+    const rules = await this.getRobotsRules(url.origin)
+    return isAllowedByRobots(rules, `${url.pathname}${url.search}`)
+  }
+
+  private async getRobotsRules(origin: string): Promise<RobotsRules> {
+    const cached = this.robots.get(origin)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules
+    }
+
+    // A missing or unreachable robots.txt allows everything
+    let rules: RobotsRules = { allow: [], disallow: [] }
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': ROBOTS_USER_AGENT },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(ROBOTS_FETCH_TIMEOUT_MS)
+      })
+      if (response.ok) {
+        rules = parseRobotsTxt(await response.text())
+      }
+    } catch (error) {
+      console.warn(`Could not read robots.txt for ${origin}:`, error instanceof Error ? error.message : error)
+    }
+
+    if (this.robots.size >= MAX_CACHED_ROBOTS) {
+      // Maps iterate in insertion order, so this forgets the oldest host
+      this.robots.delete(this.robots.keys().next().value as string)
+    }
+    this.robots.set(origin, { rules, expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS })
+    return rules
+  }
+}
@@ -1,30 +1,110 @@
 import { spawn } from 'child_process'
+import { existsSync } from 'fs'
 import { join } from 'path'
+import { scrapeCacheModel } from '../models/scrapeCacheModel'
+import { scrapeHostStatsModel } from '../models/scrapeHostStatsModel'
+import { ScrapedRecipeData, ScraperStrategy } from '../types/scraper'
+import { canonicalizeSourceUrl } from '../utils/duplicateHelper'
+import { extractRecipeFromHtml, hasRecipeContent } from '../utils/htmlRecipeExtractors'
+import { getScrapeHost } from '../utils/scrapePoliteness'
+import { ROBOTS_DISALLOWED_MESSAGE, ScrapePolitenessService } from './scrapePolitenessService'
+
+export type { ScrapedRecipeData, ScraperStrategy } from '../types/scraper'
+
+const FETCH_TIMEOUT_MS = 15000
+const MAX_PAGE_BYTES = 5 * 1024 * 1024
+
+// Some recipe sites refuse requests that do not look like a browser
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.8'
+}
+
+const DEFAULT_STRATEGIES = ['native', 'python']
+
+export interface ScraperServiceOptions {
+  // Shares scraped pages between imports; leave out to always scrape
+  cache?: Pick<typeof scrapeCacheModel, 'findFresh' | 'save'>
+  cacheTtlMs?: number
+  hostStats?: Pick<typeof scrapeHostStatsModel, 'recordSuccess' | 'recordFailure'>
+  politeness?: Pick<ScrapePolitenessService, 'run'>
+}
 
 /**
- * Interface for scraped recipe data
+ * Fetches the page and reads schema.org JSON-LD, microdata and recipe-plugin markup in TypeScript
  */
-export interface ScrapedRecipeData {
-  name?: string
-  description?: string
-  ingredients?: string[] | string
-  instructions?: string[] | string
-  image?: string | any
-  prepTimeMinutes?: number
-  cookTimeMinutes?: number
-  totalTimeMinutes?: number
-  yields?: string
-  category?: string
-  cuisine?: string
-  language?: string
-  error?: string
-  [key: string]: any
+export class NativeScraperStrategy implements ScraperStrategy {
+  readonly name = 'native'
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async scrape(url: string): Promise<ScrapedRecipeData | null> {
+    const html = await this.fetchPage(url)
+    return extractRecipeFromHtml(html, url)
+  }
+
+  private async fetchPage(url: string): Promise<string> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: FETCH_HEADERS,
+        redirect: 'follow',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Fetching the recipe page timed out after ${FETCH_TIMEOUT_MS / 1000} seconds`)
+      }
+      throw new Error(`Failed to fetch the recipe page (network error): ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch the recipe page: HTTP ${response.status}`)
+    }
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error(`The URL does not point to a web page (${contentType})`)
+    }
+    if (Number(response.headers.get('content-length')) > MAX_PAGE_BYTES) {
+      throw new Error('The recipe page is too large to read')
+    }
+
+    return this.readPage(response)
+  }
+
+  // Reads the body as it arrives and stops once it passes the limit, so an oversized page is never held in memory
+  private async readPage(response: Response): Promise<string> {
+    if (!response.body) return ''
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      size += value.byteLength
+      if (size > MAX_PAGE_BYTES) {
+        await reader.cancel().catch(() => {})
+        throw new Error('The recipe page is too large to read')
+      }
+      chunks.push(value)
+    }
+
+    return Buffer.concat(chunks).toString('utf8')
+  }
 }
 
 /**
- * Service for scraping recipe data from URLs using Python
+ * Runs scraper.py (the recipe-scrapers library) in the backend's Python virtual environment
  */
-export class ScraperService {
+export class PythonScraperStrategy implements ScraperStrategy {
+  readonly name = 'python'
   private pythonExecutable: string
   private scraperScript: string
 
@@ -33,13 +113,11 @@ export class ScraperService {
     this.scraperScript = join(__dirname, '../../scraper.py')
   }
 
-  /**
-   * Scrape recipe data from a URL using the Python scraper
-   * @param url - URL to scrape
-   * @returns Scraped recipe data
-   * @throws Error if scraping fails
-   */
-  async scrapeRecipe(url: string): Promise<ScrapedRecipeData> {
+  isAvailable(): boolean {
+    return existsSync(this.pythonExecutable) && existsSync(this.scraperScript)
+  }
+
+  async scrape(url: string): Promise<ScrapedRecipeData | null> {
     return new Promise((resolve, reject) => {
       const pythonProcess = spawn(this.pythonExecutable, [this.scraperScript, url], {
         cwd: join(__dirname, '../..')
@@ -81,5 +159,155 @@ export class ScraperService {
   }
 }
 
+const STRATEGY_FACTORIES: Record<string, () => ScraperStrategy> = {
+  native: () => new NativeScraperStrategy(),
+  python: () => new PythonScraperStrategy()
+}
+
+/**
+ * Build strategies from a comma-separated list of names, e.g. SCRAPER_STRATEGIES="native,python"
+ */
+export function createScraperStrategies(names: string | undefined): ScraperStrategy[] {
+  const requested = names?.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+  const strategies: ScraperStrategy[] = []
+
+  for (const name of requested?.length ? requested : DEFAULT_STRATEGIES) {
+    const factory = STRATEGY_FACTORIES[name]
+    if (factory) {
+      strategies.push(factory())
+    } else {
+      console.warn(`Unknown scraper strategy "${name}" ignored. Available: ${Object.keys(STRATEGY_FACTORIES).join(', ')}`)
+    }
+  }
+  return strategies
+}
+
+/**
+ * Service for scraping recipe data from URLs. Strategies are tried in order until one finds
+ * ingredients and instructions: by default the native TypeScript extractors, then the Python scraper.
+ * Results are cached by canonical URL, and every scrape is counted towards its host's success or failure.
+ */
+export class ScraperService {
+  private strategies: ScraperStrategy[]
+  private options: ScraperServiceOptions
+
+  constructor(
+    strategies: ScraperStrategy[] = createScraperStrategies(process.env.SCRAPER_STRATEGIES),
+    options: ScraperServiceOptions = {}
+  ) {
+    this.strategies = strategies
+    this.options = options
+  }
+
+  /**
+   * Scrape recipe data from a URL, or reuse what an earlier import of the same page found
+   * @param url - URL to scrape
+   * @returns Scraped recipe data, with the name of the strategy that produced it in `scraper`
+   * @throws The last strategy's error when none finds a recipe, or a "not found" error when none failed
+   */
+  async scrapeRecipe(url: string): Promise<ScrapedRecipeData> {
+    const canonicalUrl = canonicalizeSourceUrl(url)
+    const host = getScrapeHost(url)
+
+    const cached = await this.readCache(canonicalUrl)
+    if (cached) {
+      console.log(`Using cached scrape of ${canonicalUrl} from ${cached.fetchedAt}`)
+      return cached.data
+    }
+
+    let result: ScrapedRecipeData
+    try {
+      result = this.options.politeness
+        ? await this.options.politeness.run(url, () => this.runStrategies(url))
+        : await this.runStrategies(url)
+    } catch (error) {
+      // A page robots.txt keeps us away from was never fetched, so it says nothing about the host
+      if (!(error instanceof Error && error.message === ROBOTS_DISALLOWED_MESSAGE)) {
+        await this.recordHostResult(host, error)
+      }
+      throw error
+    }
+
+    await this.recordHostResult(host, null)
+    await this.writeCache(canonicalUrl, url, host, result)
+    return result
+  }
+
+  private async runStrategies(url: string): Promise<ScrapedRecipeData> {
+    let lastError: Error | null = null
+
+    for (const strategy of this.strategies) {
+      if (!strategy.isAvailable()) continue
+
+      try {
+        const result = await strategy.scrape(url)
+        if (hasRecipeContent(result)) {
+          return { ...result, scraper: strategy.name }
+        }
+        console.log(`Scraper "${strategy.name}" found no recipe at ${url}`)
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+        console.warn(`Scraper "${strategy.name}" failed for ${url}:`, lastError.message)
+      }
+    }
+
+    if (lastError) {
+      throw lastError
+    }
+    throw new Error('Recipe not found at the provided URL')
+  }
+
+  // The cache and host stats only save work and inform admins, so their errors never fail a scrape
+  private async readCache(canonicalUrl: string | null) {
+    if (!this.options.cache || !canonicalUrl || !this.options.cacheTtlMs) return null
+
+    try {
+      return await this.options.cache.findFresh(canonicalUrl)
+    } catch (error) {
+      console.warn('Failed to read scrape cache:', error)
+      return null
+    }
+  }
+
+  private async writeCache(canonicalUrl: string | null, url: string, host: string | null, data: ScrapedRecipeData): Promise<void> {
+    if (!this.options.cache || !canonicalUrl || !host || !this.options.cacheTtlMs) return
+
+    try {
+      await this.options.cache.save({ canonicalUrl, url, host, data, ttlMs: this.options.cacheTtlMs })
+    } catch (error) {
+      console.warn('Failed to write scrape cache:', error)
+    }
+  }
+
+  private async recordHostResult(host: string | null, error: unknown): Promise<void> {
+    if (!this.options.hostStats || !host) return
+
+    try {
+      if (error) {
+        await this.options.hostStats.recordFailure(host, error instanceof Error ? error.message : String(error))
+      } else {
+        await this.options.hostStats.recordSuccess(host)
+      }
+    } catch (statsError) {
+      console.warn('Failed to record scrape host stats:', statsError)
+    }
+  }
+}
+
+// Reads a non-negative number from the environment; 0 is a valid setting (e.g. to disable the cache)
+const readEnvNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
 // Export singleton instance
-export const scraperService = new ScraperService()
+export const scraperService = new ScraperService(createScraperStrategies(process.env.SCRAPER_STRATEGIES), {
+  cache: scrapeCacheModel,
+  cacheTtlMs: readEnvNumber(process.env.SCRAPE_CACHE_TTL_HOURS, 24) * 60 * 60 * 1000,
+  hostStats: scrapeHostStatsModel,
+  politeness: new ScrapePolitenessService({
+    hostConcurrency: readEnvNumber(process.env.SCRAPER_HOST_CONCURRENCY, 2),
+    hostMinIntervalMs: readEnvNumber(process.env.SCRAPER_HOST_MIN_INTERVAL_MS, 2000),
+    respectRobots: process.env.SCRAPER_RESPECT_ROBOTS !== 'false'
+  })
+})
@@ -0,0 +1,120 @@
+import { ShoppingListItem } from './shoppingListService'
+
+export type ShoppingListEvent =
+  | { type: 'items_changed'; items: ShoppingListItem[] }
+  | { type: 'items_deleted'; ids: string[] }
+  // The user no longer sees this list; the client reconnects to find the one it shows now
+  | { type: 'close' }
+
+// Writes one chunk of the event stream to an open connection
+export type ShoppingListEventSink = (chunk: string) => void
+
+interface Subscription {
+  userId: string
+  sink: ShoppingListEventSink
+  // Ends the connection
+  end: () => void
+}
+
+/**
+ * Which list a user sees: the active household's shared list, or their personal one without a household
+ */
+export function getShoppingListScope(owner: { userId: string; householdId?: string }): string {
+  return owner.householdId ? `household:${owner.householdId}` : `user:${owner.userId}`
+}
+
+/**
+ * Format an event in the Server-Sent Events wire format
+ */
+export function formatServerSentEvent(event: ShoppingListEvent): string {
+  const { type, ...data } = event
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Pushes shopping list changes to every open stream showing the same list, so people shopping
+ * together see each other's check-offs. Streams are held in this process's memory; with several
+ * backend instances a client only hears about changes made through the instance it is connected to.
+ */
+export class ShoppingListEvents {
+  private subscriptions = new Map<string, Set<Subscription>>()
+
+  /**
+   * Receive the events of one list
+   * @param scope - List to follow, from getShoppingListScope
+   * @param userId - User the stream belongs to, so it can be closed when they lose access to the list
+   * @param sink - Writes to the stream
+   * @param end - Ends the stream
+   * @returns A function that stops the subscription
+   */
+  subscribe(scope: string, userId: string, sink: ShoppingListEventSink, end: () => void): () => void {
+    const subscriptions = this.subscriptions.get(scope) || new Set<Subscription>()
+    const subscription = { userId, sink, end }
+    subscriptions.add(subscription)
+    this.subscriptions.set(scope, subscriptions)
+
+    return () => {
+      subscriptions.delete(subscription)
+      if (subscriptions.size === 0 && this.subscriptions.get(scope) === subscriptions) {
+        this.subscriptions.delete(scope)
+      }
+    }
+  }
+
+  publish(scope: string, event: ShoppingListEvent): void {
+    const subscriptions = this.subscriptions.get(scope)
+    if (!subscriptions) return
+
+    const chunk = formatServerSentEvent(event)
+    for (const { sink } of subscriptions) {
+      try {
+        sink(chunk)
+      } catch (error) {
+        // A broken connection must not keep the others from hearing about the change
+        console.warn('Failed to push shopping list event:', error)
+      }
+    }
+  }
+
+  /**
+   * Close the streams of a list, right when people switch away from it, leave it or are removed
+   * @param scope - List whose streams to close
+   * @param userId - Only close this user's streams; all of them when omitted
+   */
+  close(scope: string, userId?: string): void {
+    const subscriptions = this.subscriptions.get(scope)
+    if (!subscriptions) return
+
+    const chunk = formatServerSentEvent({ type: 'close' })
+    for (const subscription of [...subscriptions]) {
+      if (userId && subscription.userId !== userId) continue
+
+      subscriptions.delete(subscription)
+      try {
+        subscription.sink(chunk)
+        subscription.end()
+      } catch (error) {
+        console.warn('Failed to close shopping list stream:', error)
+      }
+    }
+    if (subscriptions.size === 0 && this.subscriptions.get(scope) === subscriptions) {
+      this.subscriptions.delete(scope)
+    }
+  }
+
+  // Items were added or updated, including check-offs
+  itemsChanged(owner: { userId: string; householdId?: string }, items: ShoppingListItem[]): void {
+    if (items.length > 0) {
+      this.publish(getShoppingListScope(owner), { type: 'items_changed', items })
+    }
+  }
+
+  itemsDeleted(owner: { userId: string; householdId?: string }, ids: string[]): void {
+    if (ids.length > 0) {
+      this.publish(getShoppingListScope(owner), { type: 'items_deleted', ids })
+    }
+  }
+}
+
+// Export singleton instance
+export const shoppingListEvents = new ShoppingListEvents()
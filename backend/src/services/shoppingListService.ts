@@ -1,5 +1,6 @@
 import { ingredientParser } from '../utils/ingredientParser'
 import { ingredientCategorizer } from '@ingredient-categorizer/core'
+import { combineMeasurements, resolveUnitId, roundQuantity, UnitSystem, DEFAULT_UNIT_SYSTEM } from '../utils/unitConversion'
 
 export interface ShoppingListItem {
   id: string
@@ -21,10 +22,17 @@ export interface ShoppingListItem {
 export interface ParsedIngredient {
   quantity: number | null
   unitOfMeasure: string | null
+  unitOfMeasureID?: string | null
   description: string | null
   originalText: string
 }
 
+export interface CombinedQuantity {
+  ingredient: string
+  quantity: string
+  unit?: string
+}
+
 export class ShoppingListService {
   /**
    * Determines if two shopping list items should be combined based on their similarity
@@ -50,18 +58,31 @@ export class ShoppingListService {
     return ingredientText
       .toLowerCase()
       .trim()
-      // Remove leading quantities and units
-      .replace(/^\d+(\.\d+)?\s*(cup|cups|tbsp|tsp|oz|lb|pound|gram|g|kg|ml|l|liter|clove|cloves|slice|slices|piece|pieces|can|cans|package|packages|bag|bags|bottle|bottles|jar|jars|teaspoon|teaspoons|tablespoon|tablespoons|ounce|ounces|pound|pounds|gram|grams|kilogram|kilograms|milliliter|milliliters|liter|liters)?\s*/i, '')
+      // Remove leading quantities (including fractions) and units; longer unit names first
+      .replace(/^[\d./\s]+(kilograms?|kilogram|grams?|milliliters?|liters?|teaspoons?|tablespoons?|ounces?|pounds?|cups?|tbsp|tsp|oz|lbs?|kg|ml|g|l|cloves?|slices?|pieces?|cans?|packages?|bags?|bottles?|jars?)?\b\s*/i, '')
       // Remove extra whitespace
       .replace(/\s+/g, ' ')
       .trim()
   }
 
   /**
-   * Attempts to combine quantities from two ingredients
-   * Returns the combined ingredient text or null if combination fails
+   * Key used to find the same ingredient on the list, preferring the parsed description
    */
-  static combineQuantities(existingItem: ShoppingListItem, newIngredient: ParsedIngredient): string | null {
+  private static getMatchKey(description: string | null | undefined, ingredientText: string): string {
+    const normalizedDescription = description?.toLowerCase().replace(/\s+/g, ' ').trim()
+    return normalizedDescription || this.normalizeIngredientText(ingredientText)
+  }
+
+  /**
+   * Attempts to combine quantities from two ingredients, converting between
+   * compatible units (and between volume and weight for staples with a known density)
+   * Returns the combined ingredient text and quantity, or null if combination fails
+   */
+  static combineQuantities(
+    existingItem: ShoppingListItem,
+    newIngredient: ParsedIngredient,
+    unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+  ): CombinedQuantity | null {
     try {
       // If existing item has no quantity, can't combine
       if (!existingItem.quantity) {
@@ -79,14 +100,26 @@ export class ShoppingListService {
         return null
       }
 
-      // Combine quantities
-      const combinedQuantity = existingQuantity + newIngredient.quantity
-
-      // Reconstruct ingredient text
-      const unit = newIngredient.unitOfMeasure || existingItem.unit || ''
       const description = newIngredient.description || existingItem.description || existingItem.displayName || ''
 
-      return `${combinedQuantity} ${unit} ${description}`.trim()
+      const combined = combineMeasurements(
+        { quantity: existingQuantity, unitId: resolveUnitId(existingItem.unit) },
+        { quantity: newIngredient.quantity, unitId: resolveUnitId(newIngredient.unitOfMeasureID || newIngredient.unitOfMeasure) },
+        existingItem.displayName || description,
+        unitSystem
+      )
+      if (!combined) {
+        return null
+      }
+
+      const quantity = roundQuantity(combined.quantity, combined.unitId).toString()
+      const unit = combined.unitId || undefined
+
+      return {
+        ingredient: `${quantity} ${unit || ''} ${description}`.replace(/\s+/g, ' ').trim(),
+        quantity,
+        unit
+      }
     } catch (error) {
       console.warn('Failed to combine quantities:', error)
       return null
@@ -95,28 +128,36 @@ export class ShoppingListService {
 
   /**
    * Processes ingredients for addition to shopping list, handling duplicates and combinations
+   * Ingredients repeated within the same batch are merged as well
+   * @returns Also addedFrom: for each item to add, the index of the ingredient that created it
    */
   static async processIngredientsForAddition(
     ingredients: string[],
     existingItems: ShoppingListItem[],
-    scale: number = 1
+    scale: number = 1,
+    unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
   ): Promise<{
     itemsToAdd: Array<Omit<ShoppingListItem, 'id' | 'createdAt' | 'updatedAt'>>
-    itemsToUpdate: Array<{ item: ShoppingListItem; newIngredient: string; newQuantity: string }>
+    itemsToUpdate: Array<{ item: ShoppingListItem; newIngredient: string; newQuantity: string; newUnit?: string }>
     skippedCount: number
+    addedFrom: number[]
   }> {
     const itemsToAdd: Array<Omit<ShoppingListItem, 'id' | 'createdAt' | 'updatedAt'>> = []
-    const itemsToUpdate: Array<{ item: ShoppingListItem; newIngredient: string; newQuantity: string }> = []
+    const addedFrom: number[] = []
+    const updatesById = new Map<string, { item: ShoppingListItem; newIngredient: string; newQuantity: string; newUnit?: string }>()
     let skippedCount = 0
 
     // Group existing items by normalized ingredient text for quick lookup
     const existingByNormalizedText = new Map<string, ShoppingListItem>()
     for (const item of existingItems) {
-      const normalized = this.normalizeIngredientText(item.ingredient)
+      const normalized = this.getMatchKey(item.description, item.ingredient)
       existingByNormalizedText.set(normalized, item)
     }
 
-    for (const ingredient of ingredients) {
+    // Items added earlier in this batch, so repeated ingredients merge into them
+    const pendingByNormalizedText = new Map<string, Omit<ShoppingListItem, 'id' | 'createdAt' | 'updatedAt'>>()
+
+    for (const [index, ingredient] of ingredients.entries()) {
       if (!ingredient || typeof ingredient !== 'string') continue
 
       // Scale the ingredient if needed
@@ -132,19 +173,26 @@ export class ShoppingListService {
       const categorized = ingredientCategorizer.categorizeIngredient(scaledIngredient)
 
       // Check if we already have this exact ingredient
-      const normalizedNew = this.normalizeIngredientText(scaledIngredient)
+      const normalizedNew = this.getMatchKey(parsedIngredient?.description, scaledIngredient)
       const existingItem = existingByNormalizedText.get(normalizedNew)
 
       if (existingItem && parsedIngredient) {
+        // Merge with any update already queued for this item
+        const pendingUpdate = updatesById.get(existingItem.id)
+        const current = pendingUpdate
+          ? { ...existingItem, quantity: pendingUpdate.newQuantity, unit: pendingUpdate.newUnit }
+          : existingItem
+
         // Try to combine quantities
-        const combinedIngredient = this.combineQuantities(existingItem, parsedIngredient)
+        const combined = this.combineQuantities(current, parsedIngredient, unitSystem)
 
-        if (combinedIngredient && parsedIngredient.quantity) {
+        if (combined) {
           // Update existing item
-          itemsToUpdate.push({
+          updatesById.set(existingItem.id, {
             item: existingItem,
-            newIngredient: combinedIngredient,
-            newQuantity: (parseFloat(existingItem.quantity || '0') + parsedIngredient.quantity).toString()
+            newIngredient: combined.ingredient,
+            newQuantity: combined.quantity,
+            newUnit: combined.unit
           })
           continue
         } else {
@@ -154,6 +202,17 @@ export class ShoppingListService {
         }
       }
 
+      const pendingItem = pendingByNormalizedText.get(normalizedNew)
+      if (pendingItem && parsedIngredient) {
+        const combined = this.combineQuantities(pendingItem as ShoppingListItem, parsedIngredient, unitSystem)
+        if (combined) {
+          pendingItem.ingredient = combined.ingredient
+          pendingItem.quantity = combined.quantity
+          pendingItem.unit = combined.unit
+          continue
+        }
+      }
+
       // Add as new item
       const newItem: Omit<ShoppingListItem, 'id' | 'createdAt' | 'updatedAt'> = {
         userId: '', // Will be set by controller
@@ -161,7 +220,7 @@ export class ShoppingListService {
         ingredient: scaledIngredient,
         description: parsedIngredient?.description || undefined,
         quantity: parsedIngredient?.quantity?.toString() || undefined,
-        unit: parsedIngredient?.unitOfMeasure || undefined,
+        unit: parsedIngredient?.unitOfMeasureID || parsedIngredient?.unitOfMeasure || undefined,
         category: categorized.category.id,
         displayName: categorized.displayName,
         recipeId: undefined, // Will be set by controller
@@ -170,9 +229,13 @@ export class ShoppingListService {
       }
 
       itemsToAdd.push(newItem)
+      addedFrom.push(index)
+      if (!pendingByNormalizedText.has(normalizedNew)) {
+        pendingByNormalizedText.set(normalizedNew, newItem)
+      }
     }
 
-    return { itemsToAdd, itemsToUpdate, skippedCount }
+    return { itemsToAdd, itemsToUpdate: Array.from(updatesById.values()), skippedCount, addedFrom }
   }
 
   /**
@@ -0,0 +1,22 @@
+export type AuthTokenType = 'password_reset' | 'email_verification' | 'email_change'
+
+export interface AuthToken {
+  id: string
+  userId: string
+  type: AuthTokenType
+  newEmail?: string // Address an email change moves to
+  expiresAt: string
+  usedAt?: string
+  createdAt: string
+}
+
+export interface AuthTokenRow {
+  id: string
+  user_id: string
+  type: AuthTokenType
+  token_hash: string
+  new_email: string | null
+  expires_at: string
+  used_at: string | null
+  created_at: string
+}
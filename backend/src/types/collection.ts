@@ -0,0 +1,52 @@
+export const COLLECTION_VISIBILITIES = ['private', 'shared', 'public'] as const
+
+// private: only the owner; shared: the owner's household can view and edit; public: anyone can view
+export type CollectionVisibility = typeof COLLECTION_VISIBILITIES[number]
+
+// A hand-picked, ordered group of recipes such as "Christmas 2026" or "Kids' lunches"
+export interface Collection {
+  id: string
+  userId: string
+  householdId?: string
+  name: string
+  description?: string
+  coverImage?: string
+  visibility: CollectionVisibility
+  recipeCount: number
+  firstRecipeImage?: string // Shown when no cover image is set
+  ownerDisplayName?: string
+  containsRecipe?: boolean // Set when listing collections for a given recipe
+  canEdit?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateCollectionRequest {
+  name: string
+  description?: string
+  coverImage?: string
+  visibility?: CollectionVisibility
+}
+
+export interface UpdateCollectionRequest {
+  name?: string
+  description?: string | null
+  coverImage?: string | null
+  visibility?: CollectionVisibility
+}
+
+export interface CollectionRow {
+  id: string
+  user_id: string
+  household_id: string | null
+  name: string
+  description: string | null
+  cover_image: string | null
+  visibility: CollectionVisibility
+  recipe_count: string | number
+  first_recipe_image: string | null
+  owner_display_name?: string | null
+  contains_recipe?: boolean
+  created_at: string
+  updated_at: string
+}
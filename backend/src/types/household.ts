@@ -1,3 +1,9 @@
+// owner: everything, including deleting the household; admin: manages the invite code and members;
+// member: shares and edits household recipes; viewer: read-only access to household recipes
+export type HouseholdRole = 'owner' | 'admin' | 'member' | 'viewer'
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ['owner', 'admin', 'member', 'viewer']
+
 export interface Household {
   id: string
   name: string
@@ -11,6 +17,16 @@ export interface HouseholdMember {
   id: string
   email: string
   displayName: string
+  role: HouseholdRole
+  joinedAt: string
+}
+
+// One of the households a user belongs to, for switching between them
+export interface HouseholdMembership {
+  id: string
+  name: string
+  role: HouseholdRole
+  memberCount: number
   joinedAt: string
 }
 
@@ -22,10 +38,78 @@ export interface JoinHouseholdRequest {
   inviteCode: string
 }
 
+export interface SetActiveHouseholdRequest {
+  householdId: string
+}
+
+export interface UpdateHouseholdMemberRoleRequest {
+  role: HouseholdRole
+}
+
+export interface TransferHouseholdOwnershipRequest {
+  userId: string
+}
+
 export interface HouseholdRow {
   id: string
   name: string
   invite_code: string | null
   created_by: string
   created_at: string
-}
\ No newline at end of file
+}
+
+export interface HouseholdMemberRow {
+  household_id: string
+  user_id: string
+  role: HouseholdRole
+  joined_at: string
+}
+
+// Whether an invitation can still be accepted
+export type HouseholdInvitationStatus = 'active' | 'expired' | 'used_up' | 'revoked'
+
+// Invite link for one household; the token is only returned when the invitation is created
+export interface HouseholdInvitation {
+  id: string
+  householdId: string
+  createdBy: string
+  email?: string // Only this address may accept
+  role: HouseholdRole
+  maxUses?: number // Unlimited when unset
+  useCount: number
+  status: HouseholdInvitationStatus
+  expiresAt: string
+  revokedAt?: string
+  createdAt: string
+}
+
+export interface CreateHouseholdInvitationRequest {
+  expiresInHours?: number
+  maxUses?: number | null
+  email?: string
+  role?: HouseholdRole
+}
+
+// What someone opening an invite link sees before accepting
+export interface HouseholdInvitationPreview {
+  householdName: string
+  invitedBy: string
+  role: HouseholdRole
+  status: HouseholdInvitationStatus
+  emailRestricted: boolean
+  expiresAt: string
+}
+
+export interface HouseholdInvitationRow {
+  id: string
+  household_id: string
+  token_hash: string
+  created_by: string
+  email: string | null
+  role: HouseholdRole
+  max_uses: number | null
+  use_count: number
+  expires_at: string
+  revoked_at: string | null
+  created_at: string
+}
@@ -0,0 +1,74 @@
+import { Recipe, RecipeDuplicate } from './recipe'
+import { ImportJobStatus } from './recipeImport'
+
+export type ImportJobType = 'url' | 'text' | 'image'
+
+export const IMPORT_JOB_TYPES: ImportJobType[] = ['url', 'text', 'image']
+
+// What the user submitted; image bytes live in their own column
+export interface ImportJobInput {
+  url?: string
+  text?: string
+  filename?: string
+  targetLanguage?: string
+  additionalContext?: string
+}
+
+// Recipe fields extracted from a URL, text or photo, ready to fill the recipe form
+export interface ParsedRecipeData {
+  name: string
+  description: string
+  ingredients: string[]
+  instructions: string[]
+  image?: string
+  imageSizes?: Recipe['imageSizes']
+  blurDataUrl?: string
+  sourceUrl?: string
+  prepTimeMinutes?: number
+  cookTimeMinutes?: number
+  totalTimeMinutes?: number
+  servings?: number
+  language?: string
+  originalScrapedData?: string
+  originalTextInput?: string
+  importAdditionalContext?: string
+}
+
+export interface ImportJobResult {
+  recipeData: ParsedRecipeData
+  duplicates: RecipeDuplicate[]
+}
+
+export interface ImportJob {
+  id: string
+  userId: string
+  type: ImportJobType
+  input: ImportJobInput
+  status: ImportJobStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt?: string // Set while a failed attempt waits for its retry
+  result?: ImportJobResult
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export interface ImportJobRow {
+  id: string
+  user_id: string
+  type: ImportJobType
+  input: string
+  input_file: Buffer | null
+  status: ImportJobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_at: string | null
+  result: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Delivers email. MAIL_TRANSPORT picks SMTP for real delivery, or the file or console transport for local development.
+ */
+export interface MailTransport {
+  readonly name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
@@ -0,0 +1,46 @@
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const
+
+export type MealSlot = typeof MEAL_SLOTS[number]
+
+export interface MealPlanEntry {
+  id: string
+  userId: string
+  householdId?: string
+  date: string // YYYY-MM-DD
+  mealSlot: MealSlot
+  recipeId: string
+  servings?: number // Overrides the recipe's servings when set
+  recipeName?: string
+  recipeImage?: string
+  recipeServings?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateMealPlanRequest {
+  date: string
+  mealSlot: MealSlot
+  recipeId: string
+  servings?: number
+}
+
+export interface UpdateMealPlanRequest {
+  date?: string
+  mealSlot?: MealSlot
+  servings?: number | null
+}
+
+export interface MealPlanRow {
+  id: string
+  user_id: string
+  household_id: string | null
+  plan_date: string
+  meal_slot: MealSlot
+  recipe_id: string
+  servings: number | null
+  recipe_name?: string | null
+  recipe_image?: string | null
+  recipe_servings?: number | null
+  created_at: string
+  updated_at: string
+}
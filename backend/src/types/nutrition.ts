@@ -0,0 +1,39 @@
+export interface NutrientAmounts {
+  calories: number // kcal
+  protein: number // g
+  fat: number // g
+  saturatedFat: number // g
+  carbohydrates: number // g
+  fiber: number // g
+  sugar: number // g
+  sodium: number // mg
+  calcium: number // mg
+  iron: number // mg
+  potassium: number // mg
+  vitaminC: number // mg
+}
+
+export type NutrientKey = keyof NutrientAmounts
+
+// Food-composition entry from the bundled dataset, keyed by categorizer displayName
+export interface FoodComposition {
+  per100g: NutrientAmounts
+  density?: number // grams per milliliter
+  pieceGrams?: number // weight of one typical item (e.g. one onion)
+  units?: Record<string, number> // grams per count unit (e.g. clove, slice, can)
+}
+
+export interface NutritionIngredientMatch {
+  text: string
+  displayName: string
+  grams: number
+}
+
+export interface NutritionFacts {
+  perServing: NutrientAmounts
+  total: NutrientAmounts
+  servings: number
+  matchedIngredients: NutritionIngredientMatch[]
+  unmatchedIngredients: string[] // Lines with no dataset entry or no convertible amount
+  computedAt: string
+}
@@ -0,0 +1,48 @@
+import { Recipe } from './recipe'
+
+export interface PantryItem {
+  id: string
+  userId: string
+  householdId?: string
+  name: string
+  displayName: string
+  category: string
+  quantity?: string
+  unit?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreatePantryItemRequest {
+  name: string
+  quantity?: string
+  unit?: string
+}
+
+export interface UpdatePantryItemRequest {
+  name?: string
+  quantity?: string | null
+  unit?: string | null
+}
+
+export interface PantryItemRow {
+  id: string
+  user_id: string
+  household_id: string | null
+  name: string
+  display_name: string
+  category: string
+  quantity: string | null
+  unit: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PantryRecipeMatch {
+  recipe: Recipe
+  matchedCount: number
+  totalCount: number
+  matchRatio: number
+  matchedIngredients: string[] // Canonical display names found in the pantry
+  missingIngredients: string[] // Original ingredient lines not covered by the pantry
+}
@@ -1,3 +1,9 @@
+import { NutritionFacts } from './nutrition'
+import { RecipeCookStats } from './recipeCook'
+
+export type DietLabel = 'vegan' | 'vegetarian' | 'pescatarian' | 'gluten-free' | 'dairy-free'
+export type Allergen = 'gluten' | 'dairy' | 'nuts' | 'shellfish' | 'egg' | 'soy' | 'fish'
+
 export interface IngredientCategory {
   category?: string
   items: string[]
@@ -24,6 +30,7 @@ export interface Recipe {
   isPublic: boolean
   aiEnhancedNotes?: string | null
   tags?: string[]
+  dietaryLabels?: string[] // Diets the recipe fits plus "contains-<allergen>" labels, derived from ingredients
   // Simplified 2-level privacy: private (personal/household) vs public
   userId?: string
   householdId?: string
@@ -32,10 +39,31 @@ export interface Recipe {
   originalTextInput?: string // Original recipe text (text imports)
   importAdditionalContext?: string // Additional context from "+" button
   language?: string // ISO 639-1 language code (2 letters) detected by AI
+  nutrition?: NutritionFacts // Estimated from ingredients, recomputed when ingredients or servings change
+  cookStats?: RecipeCookStats // Signed-in viewers only
   createdAt: string
   updatedAt: string
   // Permissions computed based on current user context
   canEdit?: boolean
+  // Full-text search context (only present when the recipe was returned for a search)
+  searchRank?: number
+  searchHighlights?: RecipeSearchHighlights
+}
+
+export interface RecipeSearchHighlights {
+  name?: string
+  description?: string
+  snippet?: string // Matching fragments from ingredients, instructions or tags
+}
+
+// An existing recipe that an imported or new recipe appears to repeat
+export interface RecipeDuplicate {
+  id: string
+  name: string
+  image?: string
+  sourceUrl?: string
+  matchedBy: 'sourceUrl' | 'content'
+  similarity: number // 1 for a matching source URL, otherwise the lower of name and ingredient similarity
 }
 
 export interface CreateRecipeRequest {
@@ -72,8 +100,8 @@ export interface UpdateRecipeRequest {
   name?: string
   description?: string
   prepTimeMinutes?: number
-  cookTimeMinutes?: number
-  totalTimeMinutes?: number
+  cookTimeMinutes?: number | null
+  totalTimeMinutes?: number | null
   servings?: number
   ingredients?: string[] | IngredientCategory[]
   instructions?: string[]
@@ -92,9 +120,11 @@ export interface UpdateRecipeRequest {
 
 export interface RecipeFilters {
   search?: string
-  sortBy?: 'name' | 'time' | 'servings' | 'recent'
+  sortBy?: 'name' | 'time' | 'servings' | 'recent' | 'relevance' | 'rating' | 'lastCooked' | 'timesCooked'
   isPublic?: boolean
   tags?: string[]
+  diet?: DietLabel[] // Recipes must fit every listed diet
+  excludeAllergens?: Allergen[] // Recipes containing any listed allergen are left out
   limit?: number
   offset?: number
   // User context for access control
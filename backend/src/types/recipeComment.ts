@@ -0,0 +1,46 @@
+// A comment on a public recipe; replies point at their parent comment
+export interface RecipeComment {
+  id: string
+  recipeId: string
+  parentId?: string
+  userId: string
+  userDisplayName?: string
+  body: string // Empty once the comment is deleted, or hidden from the viewer
+  isDeleted: boolean
+  isHidden: boolean
+  reportCount?: number // Only sent to moderators
+  reportedByViewer: boolean
+  editedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateRecipeCommentRequest {
+  body: string
+  parentId?: string
+}
+
+export interface UpdateRecipeCommentRequest {
+  body: string
+}
+
+export interface ReportRecipeCommentRequest {
+  reason?: string
+}
+
+export interface RecipeCommentRow {
+  id: string
+  recipe_id: string
+  parent_id: string | null
+  user_id: string
+  user_display_name?: string | null
+  body: string
+  hidden_at: string | null
+  hidden_by: string | null
+  deleted_at: string | null
+  edited_at: string | null
+  report_count: string | number
+  reported_by_viewer: boolean
+  created_at: string
+  updated_at: string
+}
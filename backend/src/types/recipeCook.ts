@@ -0,0 +1,48 @@
+import { Recipe } from './recipe'
+
+// One time someone cooked a recipe, with their rating and notes
+export interface RecipeCook {
+  id: string
+  recipeId: string
+  userId: string
+  userDisplayName?: string
+  cookedAt: string
+  rating?: number // 1–5
+  notes?: string
+  image?: string
+  imageSizes?: Recipe['imageSizes']
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateRecipeCookRequest {
+  cookedAt?: string
+  rating?: number | null
+  notes?: string
+}
+
+export type UpdateRecipeCookRequest = CreateRecipeCookRequest & {
+  removeImage?: boolean
+}
+
+// Aggregated over the cooks the viewer can see (their own and their household's)
+export interface RecipeCookStats {
+  timesCooked: number
+  lastCookedAt?: string
+  averageRating?: number
+  ratingCount: number
+}
+
+export interface RecipeCookRow {
+  id: string
+  recipe_id: string
+  user_id: string
+  user_display_name?: string | null
+  cooked_at: string
+  rating: number | null
+  notes: string | null
+  image: string | null
+  image_sizes: string | null
+  created_at: string
+  updated_at: string
+}
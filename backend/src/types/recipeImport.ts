@@ -0,0 +1,67 @@
+import { CreateRecipeRequest } from './recipe'
+
+export type ImportFormat = 'paprika' | 'mealie' | 'tandoor' | 'jsonld'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  paprika: 'Paprika',
+  mealie: 'Mealie',
+  tandoor: 'Tandoor',
+  jsonld: 'schema.org JSON-LD'
+}
+
+export type ImportJobStatus = 'pending' | 'running' | 'completed' | 'failed'
+
+// A recipe read from an export file, before it is stored
+export interface ImportedRecipe extends Omit<CreateRecipeRequest, 'userId' | 'householdId' | 'isPublic'> {
+  imageData?: Buffer
+  imageName?: string
+  imageUrl?: string
+}
+
+export interface ImportResultEntry {
+  name: string
+  status: 'imported' | 'failed'
+  recipeId?: string
+  error?: string
+}
+
+export interface RecipeImportJob {
+  id: string
+  userId: string
+  householdId?: string
+  filename: string
+  format?: ImportFormat
+  status: ImportJobStatus
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  results: ImportResultEntry[]
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export interface RecipeImportJobRow {
+  id: string
+  user_id: string
+  household_id: string | null
+  filename: string
+  format: ImportFormat | null
+  status: ImportJobStatus
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  results: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface ImportOptions {
+  language: string
+  isPublic: boolean
+}
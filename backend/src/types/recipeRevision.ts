@@ -0,0 +1,61 @@
+import { Recipe, IngredientCategory } from './recipe'
+
+export type RevisionChangeType = 'create' | 'update' | 'enhance' | 'restore'
+
+// Recipe content captured by each revision (visibility and ownership are not versioned)
+export interface RecipeSnapshot {
+  name: string
+  description: string
+  prepTimeMinutes: number
+  cookTimeMinutes?: number
+  totalTimeMinutes?: number
+  servings: number
+  ingredients: string[] | IngredientCategory[]
+  instructions: string[]
+  tags: string[]
+  sourceUrl?: string
+  image?: string
+  imageSizes?: Recipe['imageSizes']
+  language?: string
+  aiEnhancedNotes?: string
+}
+
+export interface RecipeRevision {
+  id: string
+  recipeId: string
+  revisionNumber: number
+  changeType: RevisionChangeType
+  userId?: string
+  userDisplayName?: string
+  restoredFrom?: number
+  snapshot: RecipeSnapshot
+  createdAt: string
+}
+
+export type RecipeRevisionSummary = Omit<RecipeRevision, 'snapshot'> & {
+  changedFields: string[]
+}
+
+export interface RecipeRevisionRow {
+  id: string
+  recipe_id: string
+  revision_number: number
+  change_type: RevisionChangeType
+  user_id: string | null
+  user_display_name?: string | null
+  restored_from: number | null
+  snapshot: string
+  changed_fields: string | null
+  created_at: string
+}
+
+export type DiffLineOp = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  op: DiffLineOp
+  text: string
+}
+
+export type FieldDiff =
+  | { field: string; type: 'value'; before: unknown; after: unknown }
+  | { field: string; type: 'lines'; lines: DiffLine[] }
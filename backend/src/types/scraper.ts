@@ -0,0 +1,76 @@
+/**
+ * Interface for scraped recipe data
+ */
+export interface ScrapedRecipeData {
+  name?: string
+  description?: string
+  ingredients?: string[] | string
+  instructions?: string[] | string
+  image?: string | any
+  prepTimeMinutes?: number
+  cookTimeMinutes?: number
+  totalTimeMinutes?: number
+  yields?: string
+  category?: string
+  cuisine?: string
+  language?: string
+  author?: string
+  host?: string
+  canonical_url?: string
+  site_name?: string
+  error?: string
+  [key: string]: any
+}
+
+/**
+ * One way of getting recipe data from a URL. The scraper service tries its strategies in order.
+ */
+export interface ScraperStrategy {
+  readonly name: string
+  // False when the strategy cannot run in this deployment (e.g. the Python environment is missing)
+  isAvailable(): boolean
+  // Resolves to null when the page has no recipe the strategy can read
+  scrape(url: string): Promise<ScrapedRecipeData | null>
+}
+
+export interface ScrapeCacheEntry {
+  canonicalUrl: string
+  url: string
+  host: string
+  data: ScrapedRecipeData
+  scraper?: string
+  fetchedAt: string
+  expiresAt: string
+}
+
+export interface ScrapeCacheRow {
+  canonical_url: string
+  url: string
+  host: string
+  data: string
+  scraper: string | null
+  fetched_at: string
+  expires_at: string
+}
+
+// How often scraping a host has worked, so failing sites can be spotted
+export interface ScrapeHostStats {
+  host: string
+  successCount: number
+  failureCount: number
+  failureRate: number
+  lastError?: string
+  lastSuccessAt?: string
+  lastFailureAt?: string
+  updatedAt: string
+}
+
+export interface ScrapeHostStatsRow {
+  host: string
+  success_count: number
+  failure_count: number
+  last_error: string | null
+  last_success_at: string | null
+  last_failure_at: string | null
+  updated_at: string
+}
@@ -1,10 +1,14 @@
+import { UnitSystem } from '../utils/unitConversion'
+
 export interface User {
   id: string
   email: string
   displayName: string
-  householdId?: string
+  householdId?: string // Active household; the user may belong to others (see household_members)
   googleId?: string
   defaultTranslationLanguage?: string
+  unitSystem?: UnitSystem
+  emailVerified?: boolean
   createdAt: string
   updatedAt: string
 }
@@ -25,9 +29,11 @@ export interface UserRow {
   email: string
   password_hash: string
   display_name: string
-  household_id: string | null
+  household_id: string | null // Active household
   google_id: string | null
   default_translation_language: string | null
+  unit_system?: string | null
+  email_verified_at?: string | null
   created_at: string
   updated_at: string
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+/**
+ * Account emails: password reset, email verification and email change, plus household invitations
+ */
+
+import { MailMessage } from '../types/mail'
+
+const APP_NAME = 'Recipe Reaper'
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.round(ms / (60 * 60 * 1000))
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
+
+// Paragraphs, then an optional button, then closing paragraphs, as both plain text and HTML
+function buildEmail(
+  to: string,
+  subject: string,
+  paragraphs: string[],
+  action?: { label: string; url: string },
+  closing: string[] = []
+): MailMessage {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    ...closing,
+    `— ${APP_NAME}`
+  ].join('\n\n')
+
+  const html = [
+    '<div style="font-family: -apple-system, BlinkMacSystemFont, \'Segoe UI\', sans-serif; max-width: 560px; color: #111827;">',
+    ...paragraphs.map(p => `<p>${escapeHtml(p)}</p>`),
+    ...(action
+      ? [
+          `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 18px; background: #2563eb; color: #ffffff; border-radius: 8px; text-decoration: none;">${escapeHtml(action.label)}</a></p>`,
+          `<p style="font-size: 12px; color: #6b7280;">Or copy this link into your browser: ${escapeHtml(action.url)}</p>`
+        ]
+      : []),
+    ...closing.map(p => `<p>${escapeHtml(p)}</p>`),
+    `<p style="color: #6b7280;">— ${APP_NAME}</p>`,
+    '</div>'
+  ].join('\n')
+
+  return { to, subject, text, html }
+}
+
+export function buildPasswordResetEmail(to: string, displayName: string, link: string, ttlMs: number): MailMessage {
+  return buildEmail(
+    to,
+    `Reset your ${APP_NAME} password`,
+    [`Hi ${displayName},`, `Someone asked to reset the password for your ${APP_NAME} account. The link works once and expires in ${formatDuration(ttlMs)}.`],
+    { label: 'Choose a new password', url: link },
+    ['If you did not ask for this, you can ignore this email; your password stays the same.']
+  )
+}
+
+export function buildVerificationEmail(to: string, displayName: string, link: string, ttlMs: number): MailMessage {
+  return buildEmail(
+    to,
+    `Confirm your email for ${APP_NAME}`,
+    [`Hi ${displayName},`, `Please confirm that ${to} is your email address. The link expires in ${formatDuration(ttlMs)}.`],
+    { label: 'Confirm email address', url: link }
+  )
+}
+
+export function buildEmailChangeEmail(to: string, displayName: string, link: string, ttlMs: number): MailMessage {
+  return buildEmail(
+    to,
+    `Confirm your new email for ${APP_NAME}`,
+    [`Hi ${displayName},`, `Confirm that you want to sign in to ${APP_NAME} with ${to} from now on. The link expires in ${formatDuration(ttlMs)}.`],
+    { label: 'Confirm new email address', url: link },
+    ['If you did not ask for this, you can ignore this email.']
+  )
+}
+
+// Sent to the old address so an unexpected change does not go unnoticed
+export function buildEmailChangedNotice(to: string, displayName: string, newEmail: string): MailMessage {
+  return buildEmail(
+    to,
+    `Your ${APP_NAME} email was changed`,
+    [`Hi ${displayName},`, `The email address for your ${APP_NAME} account was changed to ${newEmail}. You will no longer receive account emails at this address.`],
+    undefined,
+    ['If you did not make this change, reset your password right away.']
+  )
+}
+
+export function buildPasswordChangedNotice(to: string, displayName: string): MailMessage {
+  return buildEmail(
+    to,
+    `Your ${APP_NAME} password was changed`,
+    [`Hi ${displayName},`, `The password for your ${APP_NAME} account was just reset, and every device signed in to it was signed out.`],
+    undefined,
+    ['If you did not do this, reset your password again right away.']
+  )
+}
+
+export function buildHouseholdInvitationEmail(to: string, inviterName: string, householdName: string, link: string, expiresAt: Date): MailMessage {
+  return buildEmail(
+    to,
+    `${inviterName} invited you to ${householdName} on ${APP_NAME}`,
+    [`Hi,`, `${inviterName} invited you to join the household "${householdName}" on ${APP_NAME} to share recipes, shopping lists and meal plans. The invitation expires on ${expiresAt.toUTCString()}.`],
+    { label: 'Join the household', url: link },
+    [`Sign in or create an account with ${to} to accept it.`]
+  )
+}
@@ -0,0 +1,69 @@
+/**
+ * Helpers for the single-use tokens emailed in password reset, email verification and email change links
+ */
+
+import crypto from 'crypto'
+import { AuthTokenType } from '../types/authToken'
+
+// How long each kind of emailed link works
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 48 * 60 * 60 * 1000,
+  email_change: 24 * 60 * 60 * 1000
+}
+
+export const MIN_PASSWORD_LENGTH = 6
+
+/**
+ * Create a random token for a link, with the hash to store in its place
+ * @returns URL-safe token to email, and its SHA-256 hash
+ */
+export function generateAuthToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashAuthToken(token) }
+}
+
+/**
+ * Hash a token from a link to look it up; a leaked database does not reveal working links
+ */
+export function hashAuthToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Whether a value from a request looks like a token generateAuthToken made
+ */
+export function isAuthTokenFormat(token: unknown): token is string {
+  return typeof token === 'string' && /^[A-Za-z0-9_-]{43}$/.test(token)
+}
+
+/**
+ * Expiry time for a new token of a type
+ */
+export function getAuthTokenExpiry(type: AuthTokenType, now: Date = new Date()): Date {
+  return new Date(now.getTime() + AUTH_TOKEN_TTL_MS[type])
+}
+
+/**
+ * Base URL of the frontend, for links in emails and OAuth redirects
+ * @returns The first FRONTEND_URL in production, the Vite dev server otherwise
+ */
+export function getFrontendUrl(): string {
+  return process.env.NODE_ENV === 'production'
+    ? process.env.FRONTEND_URL?.split(',')[0]?.trim() || 'https://recipereaper.app'
+    : 'http://localhost:5173'
+}
+
+/**
+ * Frontend link carrying a token, e.g. https://recipereaper.app/reset-password?token=...
+ */
+export function buildTokenLink(path: string, token: string, baseUrl: string = getFrontendUrl()): string {
+  return `${baseUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Basic email address check for account emails
+ */
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string' && email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+}
@@ -0,0 +1,45 @@
+/**
+ * Helper functions for recipe collections
+ */
+
+import { COLLECTION_VISIBILITIES, CollectionVisibility } from '../types/collection'
+
+export const MAX_COLLECTION_NAME_LENGTH = 100
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 2000
+
+/**
+ * Check that a value is one of the collection visibilities
+ */
+export function isValidVisibility(value: unknown): value is CollectionVisibility {
+  return typeof value === 'string' && (COLLECTION_VISIBILITIES as readonly string[]).includes(value)
+}
+
+/**
+ * Apply a requested order to the recipes in a collection.
+ * Recipes left out of the request (such as ones the editor can no longer see) keep their order after the listed ones.
+ * @param currentIds - Recipe ids in the collection, in their current order
+ * @param proposedIds - Recipe ids in the requested order
+ * @returns Every recipe id in the new order, or null if the request has unknown or repeated ids
+ */
+export function mergeRecipeOrder(currentIds: string[], proposedIds: unknown): string[] | null {
+  if (!Array.isArray(proposedIds) || !proposedIds.every(id => typeof id === 'string')) return null
+
+  const current = new Set(currentIds)
+  const proposed = new Set<string>(proposedIds)
+  if (proposed.size !== proposedIds.length || proposedIds.some(id => !current.has(id))) return null
+
+  return [...proposedIds, ...currentIds.filter(id => !proposed.has(id))]
+}
+
+/**
+ * Put items in the order of the given ids, leaving out ids without an item
+ * @param items - Items with an id, in any order
+ * @param orderedIds - Ids in the wanted order
+ */
+export function orderByIds<T extends { id: string }>(items: T[], orderedIds: string[]): T[] {
+  const byId = new Map(items.map(item => [item.id, item]))
+  return orderedIds.flatMap(id => {
+    const item = byId.get(id)
+    return item ? [item] : []
+  })
+}
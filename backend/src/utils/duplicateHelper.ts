@@ -0,0 +1,100 @@
+/**
+ * Helper functions for spotting recipes that were already saved
+ */
+
+import { ingredientCategorizer } from '@ingredient-categorizer/core'
+import { IngredientCategory } from '../types/recipe'
+import { ingredientParser } from './ingredientParser'
+import { IngredientCategoryParser } from './ingredientCategoryParser'
+
+// Query parameters added by newsletters, social networks and ad platforms; they never change the page
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+  '_ga', '_gl', 'ref', 'ref_src', 'ref_url', 'share', 'si', 'spm', 'cmpid', 'ncid'
+])
+
+// Words that say little about which dish a recipe is
+const NAME_STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'of', 'my', 'our', 'recipe', 'best', 'easy', 'simple', 'quick', 'homemade', 'perfect'
+])
+
+// Thresholds for counting a recipe with a different source as a duplicate
+export const DUPLICATE_NAME_SIMILARITY = 0.6
+export const DUPLICATE_INGREDIENT_SIMILARITY = 0.6
+
+/**
+ * Canonicalize a source URL so links to the same page compare equal
+ * @param url - URL as pasted or scraped
+ * @returns Lower-case host without "www.", no tracking params, fragment, default port or trailing slash; null when invalid
+ */
+export function canonicalizeSourceUrl(url: string | null | undefined): string | null {
+  if (!url?.trim()) return null
+
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+  const path = parsed.pathname.replace(/\/+$/, '')
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b))
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : ''
+
+  // http and https versions of a page are the same recipe
+  return `${host}${path}${query}`
+}
+
+/**
+ * Jaccard similarity of two sets
+ * @returns 0 when either set is empty, otherwise shared items divided by all items
+ */
+export function setSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+
+  let shared = 0
+  for (const item of a) {
+    if (b.has(item)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Split a recipe name into comparable words, ignoring case, accents, punctuation and filler words
+ */
+export function getNameTokens(name: string): Set<string> {
+  const words = (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+  const meaningful = words.filter(word => !NAME_STOPWORDS.has(word))
+
+  return new Set(meaningful.length > 0 ? meaningful : words)
+}
+
+/**
+ * Reduce ingredient lines to canonical ingredient names, without quantities, units or section headers
+ */
+export function getIngredientNames(ingredients: string[] | IngredientCategory[] | undefined): Set<string> {
+  const lines = IngredientCategoryParser.getAllIngredients(ingredients || [])
+    .filter(line => typeof line === 'string' && line.trim().length > 0)
+
+  return new Set(
+    ingredientParser.parseIngredients(lines)
+      .filter(parsed => !parsed.isGroupHeader && parsed.description)
+      .map(parsed => ingredientCategorizer.categorizeIngredient(parsed.description).displayName.toLowerCase())
+  )
+}
+
+/**
+ * Decide whether name and ingredient similarity are high enough to call two recipes the same
+ */
+export function isContentDuplicate(nameSimilarity: number, ingredientSimilarity: number): boolean {
+  return nameSimilarity >= DUPLICATE_NAME_SIMILARITY && ingredientSimilarity >= DUPLICATE_INGREDIENT_SIMILARITY
+}
@@ -0,0 +1,77 @@
+/**
+ * Helpers for household invite links: option checks, status and link building
+ */
+
+import { HouseholdInvitationStatus, HouseholdRole } from '../types/household'
+import { getFrontendUrl, isValidEmail } from './authTokenHelper'
+import { isHouseholdRole } from './householdRoles'
+
+export const DEFAULT_INVITATION_TTL_HOURS = 7 * 24
+export const MAX_INVITATION_TTL_HOURS = 30 * 24
+export const MAX_INVITATION_USES = 100
+
+export interface InvitationOptions {
+  expiresAt: Date
+  maxUses: number | null
+  email: string | null
+  role: HouseholdRole
+}
+
+/**
+ * Check the options for a new invitation and fill in defaults
+ * @param body - Request body with optional expiresInHours, maxUses, email and role
+ * @returns The options, or an error message for the user
+ */
+export function parseInvitationOptions(
+  body: Record<string, unknown>,
+  now: Date = new Date()
+): { options: InvitationOptions } | { error: string } {
+  const expiresInHours = body.expiresInHours ?? DEFAULT_INVITATION_TTL_HOURS
+  if (typeof expiresInHours !== 'number' || !Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_INVITATION_TTL_HOURS) {
+    return { error: `expiresInHours must be between 1 and ${MAX_INVITATION_TTL_HOURS}` }
+  }
+
+  const maxUses = body.maxUses ?? null
+  if (maxUses !== null && (!Number.isInteger(maxUses) || (maxUses as number) < 1 || (maxUses as number) > MAX_INVITATION_USES)) {
+    return { error: `maxUses must be a whole number between 1 and ${MAX_INVITATION_USES}` }
+  }
+
+  const email = typeof body.email === 'string' && body.email.trim() ? body.email.trim().toLowerCase() : null
+  if (body.email !== undefined && body.email !== null && body.email !== '' && !isValidEmail(email)) {
+    return { error: 'Please enter a valid email address' }
+  }
+
+  const role = body.role ?? 'member'
+  if (!isHouseholdRole(role) || role === 'owner') {
+    return { error: 'Role must be one of admin, member or viewer' }
+  }
+
+  return {
+    options: {
+      expiresAt: new Date(now.getTime() + expiresInHours * 60 * 60 * 1000),
+      maxUses: maxUses as number | null,
+      email,
+      role
+    }
+  }
+}
+
+/**
+ * Whether an invitation can still be accepted, and if not, why
+ */
+export function getInvitationStatus(
+  invitation: { revokedAt?: string | null; expiresAt: string; maxUses?: number | null; useCount: number },
+  now: Date = new Date()
+): HouseholdInvitationStatus {
+  if (invitation.revokedAt) return 'revoked'
+  if (new Date(invitation.expiresAt).getTime() <= now.getTime()) return 'expired'
+  if (invitation.maxUses && invitation.useCount >= invitation.maxUses) return 'used_up'
+  return 'active'
+}
+
+/**
+ * Frontend link that opens the invitation, e.g. https://recipereaper.app/join/abc...
+ */
+export function buildInvitationLink(token: string, baseUrl: string = getFrontendUrl()): string {
+  return `${baseUrl.replace(/\/+$/, '')}/join/${encodeURIComponent(token)}`
+}
@@ -0,0 +1,54 @@
+/**
+ * Helper functions for what each household role may do
+ */
+
+import { HOUSEHOLD_ROLES, HouseholdRole } from '../types/household'
+
+/**
+ * Check that a value is one of the household roles
+ */
+export function isHouseholdRole(value: unknown): value is HouseholdRole {
+  return typeof value === 'string' && (HOUSEHOLD_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a role may change household content such as shared recipes and collections
+ */
+export function canEditHouseholdContent(role: HouseholdRole | null | undefined): boolean {
+  return !!role && role !== 'viewer'
+}
+
+/**
+ * Whether a role may regenerate the invite code and manage other members
+ */
+export function canManageMembers(role: HouseholdRole | null | undefined): boolean {
+  return role === 'owner' || role === 'admin'
+}
+
+/**
+ * Whether one member may remove another from the household.
+ * The owner can remove anyone else; admins can only remove members and viewers.
+ */
+export function canRemoveMember(actorRole: HouseholdRole, targetRole: HouseholdRole): boolean {
+  if (targetRole === 'owner') return false
+  if (actorRole === 'owner') return true
+  return actorRole === 'admin' && targetRole !== 'admin'
+}
+
+/**
+ * Whether one member may give another a new role.
+ * Ownership only moves by transfer; only the owner can promote to or demote from admin.
+ */
+export function canAssignRole(actorRole: HouseholdRole, targetRole: HouseholdRole, newRole: HouseholdRole): boolean {
+  if (newRole === 'owner' || targetRole === 'owner') return false
+  if (actorRole === 'owner') return true
+  return actorRole === 'admin' && targetRole !== 'admin' && newRole !== 'admin'
+}
+
+/**
+ * Whether a member may create invitations that join people with a role; only the owner can invite admins
+ */
+export function canInviteWithRole(actorRole: HouseholdRole | null | undefined, role: HouseholdRole): boolean {
+  if (!canManageMembers(actorRole) || role === 'owner') return false
+  return actorRole === 'owner' || role !== 'admin'
+}
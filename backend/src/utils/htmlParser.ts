@@ -0,0 +1,233 @@
+/**
+ * A small, forgiving HTML parser for reading recipe markup from scraped pages.
+ * It builds an element tree good enough for class, attribute and itemprop lookups;
+ * it does not try to follow the full HTML5 tree-construction rules.
+ */
+
+export interface HtmlElement {
+  tagName: string
+  attributes: Record<string, string>
+  children: HtmlNode[]
+  parent: HtmlElement | null
+}
+
+export type HtmlNode = HtmlElement | string
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+])
+
+// Contents are kept verbatim (script holds JSON-LD) and never parsed as markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'textarea'])
+
+// Opening one of these closes an unclosed sibling of the same kind, as browsers do
+const SELF_NESTING_CLOSERS: Record<string, string[]> = {
+  li: ['ul', 'ol'],
+  p: ['div', 'section', 'article', 'li', 'td', 'blockquote'],
+  dt: ['dl'],
+  dd: ['dl'],
+  option: ['select'],
+  tr: ['table', 'tbody', 'thead'],
+  td: ['tr'],
+  th: ['tr']
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'table', 'tr', 'ul'
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', deg: '°', frac12: '½', frac14: '¼', frac34: '¾',
+  frac13: '⅓', frac23: '⅔', frac18: '⅛', ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', times: '×', copy: '©', reg: '®', trade: '™', eacute: 'é', egrave: 'è', ecirc: 'ê',
+  aacute: 'á', agrave: 'à', acirc: 'â', iacute: 'í', oacute: 'ó', ouml: 'ö', uuml: 'ü', auml: 'ä', ntilde: 'ñ',
+  ccedil: 'ç', szlig: 'ß', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', Eacute: 'É'
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+/**
+ * Decode HTML character references (named ones common on recipe sites, and all numeric ones)
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase()
+    if (!(name in attributes)) {
+      attributes[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '')
+    }
+  }
+  return attributes
+}
+
+function createElement(tagName: string, attributes: Record<string, string>, parent: HtmlElement | null): HtmlElement {
+  return { tagName, attributes, children: [], parent }
+}
+
+/**
+ * Parse an HTML document into an element tree rooted at a synthetic "#document" element
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root = createElement('#document', {}, null)
+  const stack: HtmlElement[] = [root]
+  const current = () => stack[stack.length - 1]
+
+  const appendText = (text: string) => {
+    if (text) current().children.push(decodeHtmlEntities(text))
+  }
+
+  const closeTo = (index: number) => {
+    stack.length = Math.max(1, index)
+  }
+
+  let position = 0
+  TOKEN_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    appendText(html.slice(position, match.index))
+    position = TOKEN_PATTERN.lastIndex
+
+    const [, closingName, openingName, attributeSource, selfClosing] = match
+
+    if (closingName) {
+      const name = closingName.toLowerCase()
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tagName === name) {
+          closeTo(i)
+          break
+        }
+      }
+      continue
+    }
+    if (!openingName) continue // Comment, doctype or processing instruction
+
+    const name = openingName.toLowerCase()
+    const closers = SELF_NESTING_CLOSERS[name]
+    if (closers) {
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tagName === name) {
+          closeTo(i)
+          break
+        }
+        if (closers.includes(stack[i].tagName)) break
+      }
+    }
+
+    const element = createElement(name, parseAttributes(attributeSource || ''), current())
+    current().children.push(element)
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing) {
+      const closePattern = new RegExp(`</${name}\\s*>`, 'gi')
+      closePattern.lastIndex = position
+      const close = closePattern.exec(html)
+      const content = html.slice(position, close ? close.index : html.length)
+      if (content) {
+        element.children.push(name === 'textarea' ? decodeHtmlEntities(content) : content)
+      }
+      position = close ? closePattern.lastIndex : html.length
+      TOKEN_PATTERN.lastIndex = position
+      continue
+    }
+
+    if (!VOID_ELEMENTS.has(name) && !selfClosing) {
+      stack.push(element)
+    }
+  }
+
+  appendText(html.slice(position))
+  return root
+}
+
+/**
+ * Every element under the root (not the root itself) that matches, in document order
+ */
+export function findAll(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = []
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue
+      if (predicate(child)) found.push(child)
+      visit(child)
+    }
+  }
+  visit(root)
+  return found
+}
+
+/**
+ * The first element under the root that matches, in document order
+ */
+export function findFirst(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement | null {
+  for (const child of root.children) {
+    if (typeof child === 'string') continue
+    if (predicate(child)) return child
+    const found = findFirst(child, predicate)
+    if (found) return found
+  }
+  return null
+}
+
+export function hasClass(element: HtmlElement, className: string): boolean {
+  const classes = element.attributes.class
+  return !!classes && classes.split(/\s+/).includes(className)
+}
+
+export function byClass(className: string): (element: HtmlElement) => boolean {
+  return element => hasClass(element, className)
+}
+
+export function byTag(...tagNames: string[]): (element: HtmlElement) => boolean {
+  return element => tagNames.includes(element.tagName)
+}
+
+/**
+ * Visible text of an element, one line per block element, with whitespace collapsed and scripts left out
+ */
+export function getTextContent(node: HtmlNode): string {
+  const parts: string[] = []
+  const visit = (current: HtmlNode) => {
+    if (typeof current === 'string') {
+      parts.push(current)
+      return
+    }
+    if (RAW_TEXT_ELEMENTS.has(current.tagName)) return
+
+    const isBlock = BLOCK_ELEMENTS.has(current.tagName)
+    if (isBlock) parts.push('\n')
+    current.children.forEach(visit)
+    if (isBlock) parts.push('\n')
+  }
+  visit(node)
+
+  return parts
+    .join('')
+    .split('\n')
+    .map(line => line.replace(/[\s ]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Raw contents of an element's text children, for script and style elements
+ */
+export function getRawText(element: HtmlElement): string {
+  return element.children.filter((child): child is string => typeof child === 'string').join('')
+}
@@ -0,0 +1,392 @@
+/**
+ * Extract recipes from fetched HTML: schema.org JSON-LD, schema.org microdata,
+ * and the markup of the WordPress recipe plugins most food blogs use (WP Recipe Maker, Tasty Recipes).
+ */
+
+import { ScrapedRecipeData } from '../types/scraper'
+import {
+  HtmlElement,
+  byClass,
+  byTag,
+  decodeHtmlEntities,
+  findAll,
+  findFirst,
+  getRawText,
+  getTextContent,
+  hasClass,
+  parseHtml
+} from './htmlParser'
+import { normalizeArray } from './recipeHelpers'
+import { asHeader, findJsonLdRecipes, mapJsonLdRecipe, parseDurationMinutes } from './recipeImportMappers'
+
+export type RecipeExtractor = (document: HtmlElement, pageUrl: string) => ScrapedRecipeData | null
+
+// Checkbox glyphs and bullets that plugins render in front of ingredient lines
+const LEADING_BULLET_PATTERN = /^[▢☐□•◦▪●\-–*]\s*/
+
+function cleanLine(line: string): string {
+  return decodeHtmlEntities(line).replace(/\s+/g, ' ').replace(LEADING_BULLET_PATTERN, '').trim()
+}
+
+function textOf(element: HtmlElement | null): string {
+  return element ? getTextContent(element).replace(/\n+/g, ' ').trim() : ''
+}
+
+function firstString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return firstString(value[0])
+  if (typeof value === 'number') return String(value)
+  if (typeof value === 'string' && value.trim()) return decodeHtmlEntities(value.trim())
+  if (value && typeof value === 'object') return firstString((value as { name?: unknown }).name)
+  return undefined
+}
+
+function resolveUrl(value: string | undefined, pageUrl: string): string | undefined {
+  if (!value?.trim() || value.startsWith('data:')) return undefined
+  try {
+    return new URL(value.trim(), pageUrl).toString()
+  } catch {
+    return undefined
+  }
+}
+
+// Lazy-loading plugins keep the real address in a data attribute
+function imageSource(image: HtmlElement | null, pageUrl: string): string | undefined {
+  if (!image) return undefined
+  const { attributes } = image
+  const srcset = attributes['data-lazy-srcset'] || attributes['data-srcset'] || attributes.srcset
+  const largest = srcset?.split(',').map(candidate => candidate.trim().split(/\s+/)[0]).filter(Boolean).pop()
+  return resolveUrl(attributes['data-lazy-src'] || attributes['data-src'] || attributes.src || largest, pageUrl)
+}
+
+export function hasRecipeContent(recipe: ScrapedRecipeData | null | undefined): recipe is ScrapedRecipeData {
+  return !!recipe && normalizeArray(recipe.ingredients).length > 0 && normalizeArray(recipe.instructions).length > 0
+}
+
+/**
+ * schema.org Recipe objects in JSON-LD script blocks, including @graph containers
+ */
+export const extractJsonLdRecipe: RecipeExtractor = (document, pageUrl) => {
+  const scripts = findAll(document, element =>
+    element.tagName === 'script' && (element.attributes.type || '').toLowerCase().includes('ld+json')
+  )
+
+  for (const script of scripts) {
+    let data: unknown
+    try {
+      data = JSON.parse(getRawText(script).trim().replace(/^<!--|-->$/g, ''))
+    } catch {
+      continue // Pages often carry unrelated or broken JSON-LD blocks; skip them
+    }
+
+    for (const raw of findJsonLdRecipes(data)) {
+      const recipe = mapJsonLdRecipe(raw)
+      const ingredients = recipe.ingredients as string[]
+
+      return {
+        name: recipe.name ? decodeHtmlEntities(recipe.name) : undefined,
+        description: recipe.description ? decodeHtmlEntities(recipe.description) : undefined,
+        ingredients: ingredients.map(cleanLine).filter(Boolean),
+        instructions: recipe.instructions.map(step => decodeHtmlEntities(step)),
+        image: recipe.imageUrl ?? resolveUrl(firstString(raw.image?.url ?? raw.image), pageUrl),
+        prepTimeMinutes: recipe.prepTimeMinutes,
+        cookTimeMinutes: recipe.cookTimeMinutes,
+        totalTimeMinutes: recipe.totalTimeMinutes,
+        yields: firstString(raw.recipeYield),
+        category: firstString(raw.recipeCategory),
+        cuisine: firstString(raw.recipeCuisine),
+        language: recipe.language,
+        author: firstString(raw.author)
+      }
+    }
+  }
+  return null
+}
+
+function isItemType(element: HtmlElement, type: string): boolean {
+  return (element.attributes.itemtype || '').split(/\s+/).some(itemType => itemType.replace(/^.*[/:]/, '') === type)
+}
+
+// Properties of one item, without descending into nested items (an author's "name" is not the recipe's)
+function getItemProperties(scope: HtmlElement): Map<string, HtmlElement[]> {
+  const properties = new Map<string, HtmlElement[]>()
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue
+      for (const property of (child.attributes.itemprop || '').split(/\s+/).filter(Boolean)) {
+        properties.set(property, [...(properties.get(property) || []), child])
+      }
+      if (!('itemscope' in child.attributes)) visit(child)
+    }
+  }
+  visit(scope)
+  return properties
+}
+
+function itemPropertyValue(element: HtmlElement, pageUrl: string): string {
+  const { tagName, attributes } = element
+  if (tagName === 'meta') return attributes.content || ''
+  if (['img', 'source', 'video', 'audio'].includes(tagName)) return imageSource(element, pageUrl) || ''
+  if (tagName === 'a' || tagName === 'link') return resolveUrl(attributes.href, pageUrl) || ''
+  if (tagName === 'time') return attributes.datetime || textOf(element)
+  if (tagName === 'data' || tagName === 'meter') return attributes.value || ''
+  return attributes.content || textOf(element)
+}
+
+function microdataInstructions(elements: HtmlElement[], pageUrl: string): string[] {
+  const steps: string[] = []
+  for (const element of elements) {
+    if ('itemscope' in element.attributes) {
+      const step = getItemProperties(element)
+      if (isItemType(element, 'HowToSection')) {
+        const name = step.get('name')?.[0]
+        if (name) steps.push(asHeader(itemPropertyValue(name, pageUrl)))
+        steps.push(...microdataInstructions(step.get('itemListElement') || [], pageUrl))
+        continue
+      }
+      const text = step.get('text')?.[0]
+      steps.push(...normalizeArray(text ? itemPropertyValue(text, pageUrl) : getTextContent(element)))
+      continue
+    }
+
+    const items = findAll(element, byTag('li'))
+    steps.push(...(items.length > 0 ? items.map(textOf) : normalizeArray(getTextContent(element))))
+  }
+  return steps.map(cleanLine).filter(Boolean)
+}
+
+/**
+ * schema.org Recipe items marked up with itemscope/itemprop attributes
+ */
+export const extractMicrodataRecipe: RecipeExtractor = (document, pageUrl) => {
+  const scope = findFirst(document, element => 'itemscope' in element.attributes && isItemType(element, 'Recipe'))
+  if (!scope) return null
+
+  const properties = getItemProperties(scope)
+  const value = (name: string) => {
+    const element = properties.get(name)?.[0]
+    return element ? itemPropertyValue(element, pageUrl) || undefined : undefined
+  }
+  const author = properties.get('author')?.[0]
+
+  return {
+    name: value('name'),
+    description: value('description'),
+    ingredients: [...(properties.get('recipeIngredient') || []), ...(properties.get('ingredients') || [])]
+      .map(element => cleanLine(itemPropertyValue(element, pageUrl)))
+      .filter(Boolean),
+    instructions: microdataInstructions(properties.get('recipeInstructions') || [], pageUrl),
+    image: value('image'),
+    prepTimeMinutes: parseDurationMinutes(value('prepTime')),
+    cookTimeMinutes: parseDurationMinutes(value('cookTime')),
+    totalTimeMinutes: parseDurationMinutes(value('totalTime')),
+    yields: value('recipeYield'),
+    category: value('recipeCategory'),
+    cuisine: value('recipeCuisine'),
+    author: author
+      ? ('itemscope' in author.attributes
+        ? textOf(getItemProperties(author).get('name')?.[0] || author)
+        : itemPropertyValue(author, pageUrl)) || undefined
+      : undefined
+  }
+}
+
+function findParent(element: HtmlElement, className: string): HtmlElement | null {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (hasClass(parent, className)) return parent
+  }
+  return null
+}
+
+// Lines of a plugin's ingredient or instruction list, with group titles as *header* lines
+function groupedLines(
+  container: HtmlElement | null,
+  isGroupTitle: (element: HtmlElement) => boolean,
+  isItem: (element: HtmlElement) => boolean,
+  itemText: (element: HtmlElement) => string = textOf
+): string[] {
+  if (!container) return []
+
+  const lines: string[] = []
+  for (const element of findAll(container, element => isGroupTitle(element) || isItem(element))) {
+    if (isGroupTitle(element)) {
+      const title = textOf(element)
+      if (title) lines.push(asHeader(title))
+    } else {
+      const text = cleanLine(itemText(element))
+      if (text) lines.push(text)
+    }
+  }
+  return lines
+}
+
+// Amount, unit, name and notes are separate spans, not always with whitespace between them
+function wprmIngredientText(element: HtmlElement): string {
+  const parts = ['amount', 'unit', 'name', 'notes']
+    .map(part => textOf(findFirst(element, byClass(`wprm-recipe-ingredient-${part}`))))
+    .filter(Boolean)
+  return parts.length > 0 ? parts.join(' ') : textOf(element)
+}
+
+// WP Recipe Maker splits each time into hour and minute spans
+function wprmMinutes(root: HtmlElement, key: string): number | undefined {
+  const number = (unit: string) => parseFloat(textOf(findFirst(root, byClass(`wprm-recipe-${key}-${unit}`)))) || 0
+  const minutes = Math.round(number('days') * 1440 + number('hours') * 60 + number('minutes'))
+  return minutes > 0 ? minutes : undefined
+}
+
+/**
+ * WP Recipe Maker recipe cards (class names prefixed with "wprm-recipe")
+ */
+export const extractWprmRecipe: RecipeExtractor = (document, pageUrl) => {
+  const root = findFirst(document, element => hasClass(element, 'wprm-recipe-container') || hasClass(element, 'wprm-recipe'))
+  if (!root) return null
+
+  const value = (className: string) => textOf(findFirst(root, byClass(className))) || undefined
+
+  return {
+    name: value('wprm-recipe-name'),
+    description: value('wprm-recipe-summary'),
+    ingredients: groupedLines(
+      findFirst(root, byClass('wprm-recipe-ingredients-container')) || root,
+      element => hasClass(element, 'wprm-recipe-group-name') && !!findParent(element, 'wprm-recipe-ingredient-group'),
+      byClass('wprm-recipe-ingredient'),
+      wprmIngredientText
+    ),
+    instructions: groupedLines(
+      findFirst(root, byClass('wprm-recipe-instructions-container')) || root,
+      element => hasClass(element, 'wprm-recipe-group-name') && !!findParent(element, 'wprm-recipe-instruction-group'),
+      byClass('wprm-recipe-instruction'),
+      element => textOf(findFirst(element, byClass('wprm-recipe-instruction-text')) || element)
+    ),
+    image: imageSource(findFirst(findFirst(root, byClass('wprm-recipe-image')) || root, byTag('img')), pageUrl),
+    prepTimeMinutes: wprmMinutes(root, 'prep_time'),
+    cookTimeMinutes: wprmMinutes(root, 'cook_time'),
+    totalTimeMinutes: wprmMinutes(root, 'total_time'),
+    yields: [value('wprm-recipe-servings'), value('wprm-recipe-servings-unit')].filter(Boolean).join(' ') || undefined,
+    category: value('wprm-recipe-course'),
+    cuisine: value('wprm-recipe-cuisine'),
+    author: value('wprm-recipe-author')
+  }
+}
+
+// Tasty Recipes prints labels ("Prep Time:") next to the values
+function tastyValue(root: HtmlElement, className: string): string | undefined {
+  const element = findFirst(root, byClass(className))
+  if (!element) return undefined
+  return textOf(element).replace(/^[^:]*:\s*/, '') || undefined
+}
+
+/**
+ * Tasty Recipes cards (class names prefixed with "tasty-recipes")
+ */
+export const extractTastyRecipe: RecipeExtractor = (document, pageUrl) => {
+  const root = findFirst(document, byClass('tasty-recipes'))
+  if (!root) return null
+
+  const isSectionTitle = byTag('h3', 'h4', 'h5', 'h6')
+  return {
+    name: textOf(findFirst(root, byClass('tasty-recipes-title')) || findFirst(root, byTag('h2'))) || undefined,
+    description: textOf(
+      findFirst(root, byClass('tasty-recipes-description-body')) || findFirst(root, byClass('tasty-recipes-description'))
+    ) || undefined,
+    ingredients: groupedLines(
+      findFirst(root, byClass('tasty-recipes-ingredients-body')) || findFirst(root, byClass('tasty-recipes-ingredients')),
+      isSectionTitle,
+      byTag('li')
+    ),
+    instructions: groupedLines(
+      findFirst(root, byClass('tasty-recipes-instructions-body')) || findFirst(root, byClass('tasty-recipes-instructions')),
+      isSectionTitle,
+      byTag('li')
+    ),
+    image: imageSource(findFirst(findFirst(root, byClass('tasty-recipes-image')) || root, byTag('img')), pageUrl),
+    prepTimeMinutes: parseDurationMinutes(tastyValue(root, 'tasty-recipes-prep-time')),
+    cookTimeMinutes: parseDurationMinutes(tastyValue(root, 'tasty-recipes-cook-time')),
+    totalTimeMinutes: parseDurationMinutes(tastyValue(root, 'tasty-recipes-total-time')),
+    // Drop the "1x 2x 3x" scaling buttons printed after the yield
+    yields: tastyValue(root, 'tasty-recipes-yield')?.replace(/\s*\b1x.*$/, '') || undefined,
+    category: tastyValue(root, 'tasty-recipes-category'),
+    cuisine: tastyValue(root, 'tasty-recipes-cuisine'),
+    author: tastyValue(root, 'tasty-recipes-author-name') || tastyValue(root, 'tasty-recipes-author')
+  }
+}
+
+// Tried in order; the first that finds ingredients and instructions supplies the recipe
+export const RECIPE_EXTRACTORS: Array<{ name: string; extract: RecipeExtractor }> = [
+  { name: 'json-ld', extract: extractJsonLdRecipe },
+  { name: 'microdata', extract: extractMicrodataRecipe },
+  { name: 'wprm', extract: extractWprmRecipe },
+  { name: 'tasty', extract: extractTastyRecipe }
+]
+
+function metaContent(document: HtmlElement, key: string): string | undefined {
+  const meta = findFirst(document, element =>
+    element.tagName === 'meta' && (element.attributes.property === key || element.attributes.name === key)
+  )
+  return meta?.attributes.content?.trim() || undefined
+}
+
+// Fields every page has, used where the recipe markup leaves gaps
+function extractPageMetadata(document: HtmlElement, pageUrl: string): ScrapedRecipeData {
+  const html = findFirst(document, byTag('html'))
+  const canonical = findFirst(document, element => element.tagName === 'link' && (element.attributes.rel || '').toLowerCase() === 'canonical')
+  const language = (html?.attributes.lang || '').toLowerCase().split(/[-_]/)[0]
+
+  return {
+    name: metaContent(document, 'og:title') || textOf(findFirst(document, byTag('title'))) || undefined,
+    description: metaContent(document, 'og:description') || metaContent(document, 'description'),
+    image: resolveUrl(metaContent(document, 'og:image'), pageUrl),
+    language: language.length === 2 ? language : undefined,
+    canonical_url: resolveUrl(canonical?.attributes.href, pageUrl),
+    site_name: metaContent(document, 'og:site_name'),
+    host: new URL(pageUrl).hostname.replace(/^www\./, '')
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Fill the primary recipe's empty fields from the other sources, in order
+ */
+export function mergeScrapedRecipes(primary: ScrapedRecipeData, ...fallbacks: ScrapedRecipeData[]): ScrapedRecipeData {
+  const merged: ScrapedRecipeData = { ...primary }
+  for (const fallback of fallbacks) {
+    for (const [key, value] of Object.entries(fallback)) {
+      if (isBlank(merged[key]) && !isBlank(value)) {
+        merged[key] = value
+      }
+    }
+  }
+  return merged
+}
+
+/**
+ * Read a recipe from a page's HTML with every extractor
+ * @param html - Page HTML
+ * @param pageUrl - Address the page was fetched from, for resolving relative image links
+ * @returns The recipe with ingredients and instructions, gaps filled from other markup and page metadata; null when none is found
+ */
+export function extractRecipeFromHtml(html: string, pageUrl: string): ScrapedRecipeData | null {
+  const document = parseHtml(html)
+  const results: Array<ScrapedRecipeData & { extractor: string }> = []
+
+  for (const { name, extract } of RECIPE_EXTRACTORS) {
+    try {
+      const recipe = extract(document, pageUrl)
+      if (recipe) results.push({ ...recipe, extractor: name })
+    } catch (error) {
+      console.warn(`Recipe extractor "${name}" failed on ${pageUrl}:`, error)
+    }
+  }
+
+  const primary = results.find(hasRecipeContent)
+  if (!primary) return null
+
+  return mergeScrapedRecipes(
+    { ...primary, sourceUrl: pageUrl },
+    ...results.filter(result => result !== primary),
+    extractPageMetadata(document, pageUrl)
+  )
+}
@@ -0,0 +1,39 @@
+/**
+ * Helper functions for the background recipe import queue
+ */
+
+import { AppError } from '../middleware/errorHandler'
+
+export const DEFAULT_IMPORT_JOB_MAX_ATTEMPTS = 3
+export const DEFAULT_IMPORT_JOB_RETRY_DELAY_MS = 30 * 1000
+
+// Retries never wait longer than this, however many attempts came before
+export const MAX_IMPORT_JOB_RETRY_DELAY_MS = 30 * 60 * 1000
+
+// A running job locked longer ago than this was left behind by a server that stopped; no import takes this long
+export const IMPORT_JOB_STALE_LOCK_MS = 15 * 60 * 1000
+
+// Queued or running imports a user may have at once
+export const MAX_ACTIVE_IMPORT_JOBS = 10
+
+/**
+ * Wait before the next attempt, growing fourfold with each failed attempt
+ * @param attempts - Attempts made so far (1 after the first failure)
+ * @param baseDelayMs - Wait after the first failure
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelayMs(attempts: number, baseDelayMs = DEFAULT_IMPORT_JOB_RETRY_DELAY_MS): number {
+  const exponent = Math.max(0, attempts - 1)
+  return Math.min(baseDelayMs * Math.pow(4, exponent), MAX_IMPORT_JOB_RETRY_DELAY_MS)
+}
+
+/**
+ * Decide whether a failed import might succeed when tried again.
+ * Client errors (bad URL, unsupported site, no recipe found) will not, except for rate limits;
+ * crashes, timeouts and server errors might.
+ */
+export function isRetryableImportError(error: unknown): boolean {
+  const statusCode = (error as AppError | undefined)?.statusCode
+  if (!statusCode) return true
+  return statusCode >= 500 || statusCode === 429
+}
@@ -0,0 +1,86 @@
+/**
+ * Helpers for turning a mail message into an RFC 5322 / MIME document for SMTP or .eml files
+ */
+
+import crypto from 'crypto'
+import { MailMessage } from '../types/mail'
+
+const LINE_LENGTH = 76
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * Base64-encode a body part, wrapped to the 76-character lines MIME requires
+ */
+export function encodeBase64Body(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64')
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') || ''
+}
+
+/**
+ * Take the bare address out of a "Name <address>" mailbox
+ */
+export function getMailboxAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/)
+  return (match ? match[1] : mailbox).trim()
+}
+
+/**
+ * Build the full message: headers, then a plain-text part and, when given, an HTML alternative
+ * @param message - Message with its sender
+ * @param date - Date header value; defaults to now
+ * @returns Message with CRLF line endings, ready for SMTP DATA (before dot-stuffing)
+ */
+export function buildMimeMessage(message: MailMessage & { from: string }, date: Date = new Date()): string {
+  const domain = getMailboxAddress(message.from).split('@')[1] || 'localhost'
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ]
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Body(message.text)
+  ]
+
+  if (!message.html) {
+    return [...headers, ...textPart, ''].join('\r\n')
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
+
+/**
+ * Escape lines starting with "." so they do not end the SMTP DATA section early (RFC 5321 4.5.2)
+ */
+export function dotStuff(content: string): string {
+  return content.replace(/^\./gm, '..')
+}
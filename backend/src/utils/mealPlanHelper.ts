@@ -0,0 +1,94 @@
+import { ingredientParser } from './ingredientParser'
+import { IngredientCategoryParser } from './ingredientCategoryParser'
+import { Recipe } from '../types/recipe'
+import { MealPlanEntry } from '../types/mealPlan'
+
+/**
+ * Helper functions for the meal planner
+ */
+
+const PLAN_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Longest range a single meal plan request may cover
+export const MAX_PLAN_RANGE_DAYS = 31
+
+export interface PlannedIngredient {
+  ingredient: string
+  recipeId: string
+  recipeName: string
+}
+
+/**
+ * Check that a value is a real calendar date in YYYY-MM-DD form
+ * @param value - Date string from the request
+ * @returns True if the date is valid
+ */
+export function isValidPlanDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !PLAN_DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ * @param value - Start date
+ * @param days - Number of days to add (may be negative)
+ * @returns Resulting date as YYYY-MM-DD
+ */
+export function addDays(value: string, days: number): string {
+  const date = new Date(`${value}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Get the Monday-to-Sunday week containing a date
+ * @param value - Any date in the week (YYYY-MM-DD)
+ * @returns First and last day of the week
+ */
+export function getWeekRange(value: string): { start: string; end: string } {
+  const day = new Date(`${value}T00:00:00Z`).getUTCDay()
+  const start = addDays(value, day === 0 ? -6 : 1 - day)
+  return { start, end: addDays(start, 6) }
+}
+
+/**
+ * Count the days in an inclusive date range
+ * @param start - First day (YYYY-MM-DD)
+ * @param end - Last day (YYYY-MM-DD)
+ * @returns Number of days, 0 when end is before start
+ */
+export function countDays(start: string, end: string): number {
+  const diff = Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)
+  return diff < 0 ? 0 : Math.round(diff / 86400000) + 1
+}
+
+/**
+ * Collect the ingredients of every planned meal, scaled to the planned servings
+ * @param entries - Meal plan entries
+ * @param recipes - Recipes referenced by the entries, keyed by id
+ * @returns Ingredient lines tagged with the recipe they came from
+ */
+export function collectPlannedIngredients(
+  entries: MealPlanEntry[],
+  recipes: Map<string, Recipe>
+): PlannedIngredient[] {
+  const planned: PlannedIngredient[] = []
+
+  for (const entry of entries) {
+    const recipe = recipes.get(entry.recipeId)
+    if (!recipe) continue
+
+    const lines = IngredientCategoryParser.getAllIngredients(recipe.ingredients || [])
+      .filter(line => typeof line === 'string' && line.trim().length > 0)
+
+    const scale = entry.servings && recipe.servings > 0 ? entry.servings / recipe.servings : 1
+    const scaled = scale !== 1 ? ingredientParser.scaleIngredients(lines, scale) : lines
+
+    for (const ingredient of scaled) {
+      planned.push({ ingredient, recipeId: recipe.id, recipeName: recipe.name })
+    }
+  }
+
+  return planned
+}
@@ -0,0 +1,342 @@
+import { deflateSync } from 'zlib'
+
+/**
+ * Minimal PDF writer for server-rendered documents such as cookbooks.
+ * Uses the standard Helvetica fonts (WinAnsi encoding, so text outside Latin-1 is
+ * approximated) and embeds JPEG images as-is. Coordinates are in points with the
+ * origin at the top-left corner of the page; text is positioned by its baseline.
+ */
+
+export const PAGE_WIDTH = 595.28 // A4
+export const PAGE_HEIGHT = 841.89
+
+export type PdfFont = 'regular' | 'bold' | 'italic'
+export type PdfColor = [number, number, number]
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' }
+}
+
+// Glyph widths (1/1000 em) of printable ASCII, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+// Unicode characters with a WinAnsi code in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86,
+  0x2021: 0x87, 0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c,
+  0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95,
+  0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+}
+
+function toWinAnsi(codePoint: number): number | null {
+  if (codePoint >= 0x20 && codePoint <= 0x7e) return codePoint
+  if (codePoint >= 0xa0 && codePoint <= 0xff) return codePoint
+  if (codePoint === 0x2044 || codePoint === 0x2215) return 0x2f // fraction and division slashes
+  return WIN_ANSI_EXTRAS[codePoint] ?? null
+}
+
+/**
+ * Encode text for the standard fonts. Whitespace becomes a space, accented letters outside
+ * WinAnsi fall back to their base letter and anything else to "?".
+ */
+export function encodeWinAnsi(text: string): Buffer {
+  const bytes: number[] = []
+  for (const char of text.replace(/\s/g, ' ')) {
+    const code = toWinAnsi(char.codePointAt(0)!)
+    if (code !== null) {
+      bytes.push(code)
+      continue
+    }
+
+    const decomposed = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    const fallback = [...decomposed].map(part => toWinAnsi(part.codePointAt(0)!))
+    if (decomposed && fallback.every(code => code !== null)) {
+      bytes.push(...(fallback as number[]))
+    } else {
+      bytes.push(0x3f)
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function glyphWidth(code: number, font: PdfFont): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  if (code >= 0x20 && code <= 0x7e) return widths[code - 0x20]
+  // Accented capitals are as wide as most capitals; other Latin-1 glyphs average a digit's width
+  return code >= 0xc0 && code <= 0xde ? 722 : 556
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let units = 0
+  for (const code of encodeWinAnsi(text)) {
+    units += glyphWidth(code, font)
+  }
+  return (units * size) / 1000
+}
+
+/**
+ * Break text into lines no wider than maxWidth. Words that do not fit on a line
+ * of their own are split between characters.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (measureText(candidate, font, size) <= maxWidth) {
+      current = candidate
+      continue
+    }
+
+    if (current) lines.push(current)
+    current = ''
+    for (const char of word) {
+      if (current && measureText(current + char, font, size) > maxWidth) {
+        lines.push(current)
+        current = ''
+      }
+      current += char
+    }
+  }
+
+  if (current) lines.push(current)
+  return lines
+}
+
+/**
+ * Shorten text with an ellipsis so it fits within maxWidth
+ */
+export function truncateText(text: string, font: PdfFont, size: number, maxWidth: number): string {
+  if (measureText(text, font, size) <= maxWidth) return text
+  const chars = [...text]
+  while (chars.length > 0 && measureText(`${chars.join('').trimEnd()}…`, font, size) > maxWidth) {
+    chars.pop()
+  }
+  return `${chars.join('').trimEnd()}…`
+}
+
+export interface JpegInfo {
+  width: number
+  height: number
+  components: number
+}
+
+/**
+ * Read dimensions and color components from a JPEG's frame header
+ * @returns Image info, or null when the data is not a JPEG
+ */
+export function readJpegInfo(data: Buffer): JpegInfo | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null
+
+  let offset = 2
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return null
+    const marker = data[offset + 1]
+    if (marker === 0xff) {
+      offset++ // fill byte
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2
+      continue
+    }
+
+    const length = data.readUInt16BE(offset + 2)
+    const isFrameHeader = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isFrameHeader) {
+      if (offset + 10 > data.length) return null
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        components: data[offset + 9]
+      }
+    }
+    offset += 2 + length
+  }
+
+  return null
+}
+
+export interface TextOptions {
+  font?: PdfFont
+  size?: number
+  color?: PdfColor
+}
+
+interface PdfImage {
+  data: Buffer
+  info: JpegInfo
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ')
+}
+
+// Document information strings as UTF-16BE so titles keep any characters
+function encodeInfoString(text: string): string {
+  const utf16 = Buffer.from(`\uFEFF${text}`, 'utf16le').swap16()
+  return `<${utf16.toString('hex')}>`
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+  private images: PdfImage[] = []
+
+  constructor(private readonly info: { title?: string; author?: string } = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  /**
+   * Append a blank page
+   * @returns Index of the new page
+   */
+  addPage(): number {
+    this.pages.push([])
+    return this.pages.length - 1
+  }
+
+  text(page: number, text: string, x: number, y: number, options: TextOptions = {}): void {
+    const { font = 'regular', size = 11, color = [0, 0, 0] } = options
+    this.pages[page].push(
+      `BT /${FONTS[font].resource} ${formatNumber(size)} Tf ${formatColor(color)} rg ` +
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} Td <${encodeWinAnsi(text).toString('hex')}> Tj ET`
+    )
+  }
+
+  rect(page: number, x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.pages[page].push(
+      `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    )
+  }
+
+  line(page: number, x1: number, y1: number, x2: number, y2: number, color: PdfColor, width = 0.5): void {
+    this.pages[page].push(
+      `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    )
+  }
+
+  /**
+   * Draw a JPEG scaled to the given box
+   */
+  image(page: number, data: Buffer, info: JpegInfo, x: number, y: number, width: number, height: number): void {
+    let index = this.images.findIndex(image => image.data === data)
+    if (index === -1) {
+      index = this.images.push({ data, info }) - 1
+    }
+    this.pages[page].push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ` +
+      `${formatNumber(PAGE_HEIGHT - y - height)} cm /Im${index + 1} Do Q`
+    )
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    const fontKeys = Object.keys(FONTS) as PdfFont[]
+    // Object numbers: catalog, page tree, info, fonts, images, then a page and its content stream per page
+    const firstFontId = 4
+    const firstImageId = firstFontId + fontKeys.length
+    const firstPageId = firstImageId + this.images.length
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2)
+
+    const objects: Array<Buffer | string> = []
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`)
+
+    const infoEntries = [`/Producer ${encodeInfoString('Recipe Reaper')}`]
+    if (this.info.title) infoEntries.push(`/Title ${encodeInfoString(this.info.title)}`)
+    if (this.info.author) infoEntries.push(`/Author ${encodeInfoString(this.info.author)}`)
+    objects.push(`<< ${infoEntries.join(' ')} >>`)
+
+    for (const key of fontKeys) {
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key].baseFont} /Encoding /WinAnsiEncoding >>`)
+    }
+
+    for (const image of this.images) {
+      const colorSpace = image.info.components === 1 ? 'DeviceGray' : image.info.components === 4 ? 'DeviceCMYK' : 'DeviceRGB'
+      objects.push(Buffer.concat([
+        Buffer.from(
+          `<< /Type /XObject /Subtype /Image /Width ${image.info.width} /Height ${image.info.height} ` +
+          `/ColorSpace /${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+        ),
+        image.data,
+        Buffer.from('\nendstream')
+      ]))
+    }
+
+    const fontResources = fontKeys.map((key, index) => `/${FONTS[key].resource} ${firstFontId + index} 0 R`).join(' ')
+    const imageResources = this.images.map((_, index) => `/Im${index + 1} ${firstImageId + index} 0 R`).join(' ')
+    const resources = `<< /Font << ${fontResources} >>${imageResources ? ` /XObject << ${imageResources} >>` : ''} >>`
+
+    this.pages.forEach((commands, index) => {
+      const contentId = pageIds[index] + 1
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources ${resources} /Contents ${contentId} 0 R >>`
+      )
+
+      const content = deflateSync(Buffer.from(commands.join('\n'), 'latin1'))
+      objects.push(Buffer.concat([
+        Buffer.from(`<< /Filter /FlateDecode /Length ${content.length} >>\nstream\n`),
+        content,
+        Buffer.from('\nendstream')
+      ]))
+    })
+
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+    const offsets: number[] = []
+    let length = parts[0].length
+
+    objects.forEach((object, index) => {
+      const body = typeof object === 'string' ? Buffer.from(object, 'latin1') : object
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')])
+      offsets.push(length)
+      parts.push(chunk)
+      length += chunk.length
+    })
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `)
+    ].join('\n')
+    parts.push(Buffer.from(
+      `${xref}\ntrailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${length}\n%%EOF\n`
+    ))
+
+    return Buffer.concat(parts)
+  }
+}
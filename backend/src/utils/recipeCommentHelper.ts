@@ -0,0 +1,51 @@
+/**
+ * Helper functions for recipe comments
+ */
+
+import { RecipeComment } from '../types/recipeComment'
+
+export const MAX_COMMENT_LENGTH = 2000
+export const MAX_REPORT_REASON_LENGTH = 500
+
+// Reports from this many different users hide a comment until a moderator reviews it
+export const REPORTS_TO_HIDE_COMMENT = 3
+
+/**
+ * Check that a comment body has text and fits the length limit
+ * @param value - Body from the request
+ * @returns True if the body is valid
+ */
+export function isValidCommentBody(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.trim().length <= MAX_COMMENT_LENGTH
+}
+
+/**
+ * Prepare a recipe's comments for a viewer.
+ * Deleted comments lose their text, and hidden ones do too unless the viewer wrote them or moderates the recipe.
+ * Comments without text are dropped unless replies below them are still shown, so threads keep their shape.
+ * @param comments - Comments of one recipe, oldest first
+ * @param viewerId - Id of the user viewing the comments; undefined when signed out
+ * @param canModerate - Whether the viewer may hide comments on the recipe
+ * @returns Comments to send to the viewer, oldest first
+ */
+export function presentComments(comments: RecipeComment[], viewerId: string | undefined, canModerate: boolean): RecipeComment[] {
+  const hasShownReply = new Set<string>()
+  const shown: RecipeComment[] = []
+
+  // Replies are always newer than their parent, so walking newest first sees them before it
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i]
+    const showText = !comment.isDeleted && (!comment.isHidden || canModerate || comment.userId === viewerId)
+
+    if (!showText && !hasShownReply.has(comment.id)) continue
+
+    if (comment.parentId) hasShownReply.add(comment.parentId)
+    shown.push({
+      ...comment,
+      body: showText ? comment.body : '',
+      reportCount: canModerate ? comment.reportCount : undefined
+    })
+  }
+
+  return shown.reverse()
+}
@@ -0,0 +1,39 @@
+/**
+ * Helper functions for the cook log
+ */
+
+export const MAX_COOK_NOTES_LENGTH = 5000
+
+// Allow for clock differences between the browser and the server
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Check that a rating is a whole number from 1 to 5
+ * @param value - Number, or numeric string from a multipart form
+ * @returns True if the rating is valid
+ */
+export function isValidRating(value: unknown): boolean {
+  if (typeof value !== 'number' && typeof value !== 'string') return false
+  if (typeof value === 'string' && value.trim() === '') return false
+  const rating = Number(value)
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5
+}
+
+/**
+ * Check that a cook date parses and is not in the future
+ * @param value - Date string from the request
+ * @param now - Current time
+ * @returns True if the date is valid
+ */
+export function isValidCookDate(value: unknown, now: Date = new Date()): value is string {
+  if (typeof value !== 'string') return false
+  const date = new Date(value)
+  return !isNaN(date.getTime()) && date.getTime() <= now.getTime() + FUTURE_TOLERANCE_MS
+}
+
+/**
+ * Read a boolean flag that may arrive as a multipart string
+ */
+export function isTruthyFlag(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1'
+}
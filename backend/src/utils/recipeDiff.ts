@@ -0,0 +1,140 @@
+import { Recipe, IngredientCategory } from '../types/recipe'
+import { RecipeSnapshot, FieldDiff, DiffLine } from '../types/recipeRevision'
+
+/**
+ * Helper functions for recipe revision snapshots and field-level diffs
+ */
+
+// Fields compared as plain values, in display order
+const VALUE_FIELDS: Array<keyof RecipeSnapshot> = [
+  'name',
+  'description',
+  'prepTimeMinutes',
+  'cookTimeMinutes',
+  'totalTimeMinutes',
+  'servings',
+  'sourceUrl',
+  'image',
+  'language',
+  'aiEnhancedNotes'
+]
+
+// Fields compared line by line
+const LINE_FIELDS: Array<'ingredients' | 'instructions' | 'tags'> = ['ingredients', 'instructions', 'tags']
+
+/**
+ * Capture the versioned content of a recipe
+ * @param recipe - Recipe as returned by the model
+ * @returns Snapshot stored with a revision
+ */
+export function buildRecipeSnapshot(recipe: Recipe): RecipeSnapshot {
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    prepTimeMinutes: recipe.prepTimeMinutes,
+    cookTimeMinutes: recipe.cookTimeMinutes,
+    totalTimeMinutes: recipe.totalTimeMinutes,
+    servings: recipe.servings,
+    ingredients: recipe.ingredients,
+    instructions: recipe.instructions,
+    tags: recipe.tags || [],
+    sourceUrl: recipe.sourceUrl,
+    image: recipe.image,
+    imageSizes: recipe.imageSizes,
+    language: recipe.language,
+    aiEnhancedNotes: recipe.aiEnhancedNotes || undefined
+  }
+}
+
+/**
+ * Flatten ingredients into lines, keeping section headers in the *Header* format
+ * understood by IngredientCategoryParser so the lines round-trip
+ * @param ingredients - Flat or categorized ingredients
+ * @returns One line per header or ingredient
+ */
+export function ingredientsToLines(ingredients: string[] | IngredientCategory[] | undefined): string[] {
+  if (!ingredients || ingredients.length === 0) return []
+  if (typeof ingredients[0] === 'string') return ingredients as string[]
+
+  return (ingredients as IngredientCategory[]).flatMap(category =>
+    category.category ? [`*${category.category}*`, ...category.items] : category.items
+  )
+}
+
+function getLines(snapshot: RecipeSnapshot, field: 'ingredients' | 'instructions' | 'tags'): string[] {
+  if (field === 'ingredients') return ingredientsToLines(snapshot.ingredients)
+  return snapshot[field] || []
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ * @param before - Previous lines
+ * @param after - New lines
+ * @returns Lines marked as equal, removed or added, in order
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length
+  const cols = after.length
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      lines.push({ op: 'equal', text: before[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: 'removed', text: before[i++] })
+    } else {
+      lines.push({ op: 'added', text: after[j++] })
+    }
+  }
+  while (i < rows) lines.push({ op: 'removed', text: before[i++] })
+  while (j < cols) lines.push({ op: 'added', text: after[j++] })
+
+  return lines
+}
+
+/**
+ * Compare two snapshots field by field
+ * @param before - Older snapshot (null for the first revision)
+ * @param after - Newer snapshot
+ * @returns Diffs for changed fields only
+ */
+export function diffSnapshots(before: RecipeSnapshot | null, after: RecipeSnapshot): FieldDiff[] {
+  const diffs: FieldDiff[] = []
+
+  for (const field of VALUE_FIELDS) {
+    const previous = before ? before[field] ?? null : null
+    const next = after[field] ?? null
+    if (previous !== next) {
+      diffs.push({ field, type: 'value', before: previous, after: next })
+    }
+  }
+
+  for (const field of LINE_FIELDS) {
+    const lines = diffLines(before ? getLines(before, field) : [], getLines(after, field))
+    if (lines.some(line => line.op !== 'equal')) {
+      diffs.push({ field, type: 'lines', lines })
+    }
+  }
+
+  return diffs
+}
+
+/**
+ * Names of the fields that differ between two snapshots
+ */
+export function getChangedFields(before: RecipeSnapshot | null, after: RecipeSnapshot): string[] {
+  return diffSnapshots(before, after).map(diff => diff.field)
+}
@@ -0,0 +1,189 @@
+/**
+ * Open export formats for recipes: schema.org JSON-LD and Markdown
+ */
+
+import { Recipe } from '../types/recipe'
+import { IngredientCategoryParser } from './ingredientCategoryParser'
+
+const HEADER_PATTERN = /^\*+\s*([^*]+?)\s*\*+$|^\*\s*([^*]+)$/
+
+// Section titles in the chef's notes written by the enhancement service
+const NOTE_SECTIONS: Array<{ key: string; title: string }> = [
+  { key: 'cookingTips', title: 'Cooking Tips' },
+  { key: 'traditionalNotes', title: 'Traditional Notes' },
+  { key: 'modernVariations', title: 'Modern Variations' },
+  { key: 'troubleshooting', title: 'Troubleshooting' },
+  { key: 'servingSuggestions', title: 'Serving Suggestions' },
+  { key: 'storageNotes', title: 'Storage' }
+]
+
+/**
+ * Read a *header* line as used in instructions and ingredients
+ * @returns Header title, or null when the line is a regular entry
+ */
+export function parseHeaderLine(line: string): string | null {
+  const match = line.trim().match(HEADER_PATTERN)
+  return match ? (match[1] || match[2]).trim() : null
+}
+
+/**
+ * Format minutes as an ISO 8601 duration (e.g. 90 -> "PT1H30M")
+ */
+export function toIsoDuration(minutes?: number | null): string | undefined {
+  if (!minutes || minutes <= 0) return undefined
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`
+}
+
+/**
+ * Build a file-system friendly name for a recipe
+ */
+export function slugify(name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '')
+  return slug || 'recipe'
+}
+
+function groupInstructions(instructions: string[]): Array<{ title?: string; steps: string[] }> {
+  const sections: Array<{ title?: string; steps: string[] }> = []
+  for (const line of instructions) {
+    const header = parseHeaderLine(line)
+    if (header) {
+      sections.push({ title: header, steps: [] })
+    } else {
+      if (sections.length === 0) sections.push({ steps: [] })
+      sections[sections.length - 1].steps.push(line)
+    }
+  }
+  return sections.filter(section => section.steps.length > 0)
+}
+
+/**
+ * Convert a recipe to a schema.org Recipe object
+ * @param recipe - Recipe to convert
+ * @param imagePath - Path of the exported image relative to the document, used instead of the stored URL
+ */
+export function recipeToJsonLd(recipe: Recipe, imagePath?: string): Record<string, unknown> {
+  const sections = groupInstructions(recipe.instructions)
+  const toSteps = (steps: string[]) => steps.map(text => ({ '@type': 'HowToStep', text }))
+  const recipeInstructions = sections.some(section => section.title)
+    ? sections.map(section => section.title
+      ? { '@type': 'HowToSection', name: section.title, itemListElement: toSteps(section.steps) }
+      : toSteps(section.steps)
+    ).flat()
+    : toSteps(sections.flatMap(section => section.steps))
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    identifier: recipe.id,
+    name: recipe.name,
+    description: recipe.description || undefined,
+    recipeIngredient: IngredientCategoryParser.getAllIngredients(
+      IngredientCategoryParser.parseIngredientsFromMixed(recipe.ingredients)
+    ),
+    recipeInstructions,
+    prepTime: toIsoDuration(recipe.prepTimeMinutes),
+    cookTime: toIsoDuration(recipe.cookTimeMinutes),
+    totalTime: toIsoDuration(recipe.totalTimeMinutes),
+    recipeYield: recipe.servings ? String(recipe.servings) : undefined,
+    keywords: recipe.tags?.length ? recipe.tags.join(', ') : undefined,
+    image: imagePath || recipe.image || undefined,
+    url: recipe.sourceUrl || undefined,
+    inLanguage: recipe.language || undefined,
+    dateCreated: recipe.createdAt,
+    dateModified: recipe.updatedAt
+  }
+
+  return Object.fromEntries(Object.entries(jsonLd).filter(([, value]) => value !== undefined))
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (!hours) return `${rest} min`
+  return rest ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+function chefNotesToMarkdown(notes: string): string[] {
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(notes)
+  } catch {
+    return [notes]
+  }
+
+  const lines: string[] = []
+  for (const { key, title } of NOTE_SECTIONS) {
+    const value = parsed[key]
+    if (Array.isArray(value) && value.length > 0) {
+      lines.push(`### ${title}`, '', ...value.map(item => `- ${item}`), '')
+    } else if (typeof value === 'string' && value.trim()) {
+      lines.push(`### ${title}`, '', value.trim(), '')
+    }
+  }
+  return lines
+}
+
+/**
+ * Convert a recipe to a Markdown document
+ * @param recipe - Recipe to convert
+ * @param imagePath - Path of the exported image relative to the document
+ */
+export function recipeToMarkdown(recipe: Recipe, imagePath?: string): string {
+  const lines: string[] = [`# ${recipe.name}`, '']
+
+  const image = imagePath || recipe.image
+  if (image) {
+    lines.push(`![${recipe.name}](${image})`, '')
+  }
+  if (recipe.description) {
+    lines.push(recipe.description.trim(), '')
+  }
+
+  const facts = [
+    recipe.prepTimeMinutes ? `**Prep:** ${formatMinutes(recipe.prepTimeMinutes)}` : '',
+    recipe.cookTimeMinutes ? `**Cook:** ${formatMinutes(recipe.cookTimeMinutes)}` : '',
+    recipe.totalTimeMinutes ? `**Total:** ${formatMinutes(recipe.totalTimeMinutes)}` : '',
+    recipe.servings ? `**Servings:** ${recipe.servings}` : ''
+  ].filter(Boolean)
+  if (facts.length > 0) {
+    lines.push(facts.join(' · '), '')
+  }
+  if (recipe.tags?.length) {
+    lines.push(`**Tags:** ${recipe.tags.join(', ')}`, '')
+  }
+  if (recipe.sourceUrl) {
+    lines.push(`**Source:** <${recipe.sourceUrl}>`, '')
+  }
+
+  lines.push('## Ingredients', '')
+  for (const group of IngredientCategoryParser.parseIngredientsFromMixed(recipe.ingredients)) {
+    if (group.category) {
+      lines.push(`### ${group.category}`, '')
+    }
+    lines.push(...group.items.map(item => `- ${item}`), '')
+  }
+
+  lines.push('## Instructions', '')
+  let stepNumber = 1
+  for (const section of groupInstructions(recipe.instructions)) {
+    if (section.title) {
+      lines.push(`### ${section.title}`, '')
+    }
+    lines.push(...section.steps.map(step => `${stepNumber++}. ${step}`), '')
+  }
+
+  if (recipe.aiEnhancedNotes) {
+    lines.push("## Chef's Notes", '', ...chefNotesToMarkdown(recipe.aiEnhancedNotes))
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`
+}
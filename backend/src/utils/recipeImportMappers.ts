@@ -0,0 +1,326 @@
+/**
+ * Mappers from other recipe managers' export formats to recipe data.
+ * Section titles are kept as *header* lines, the same structure the recipe parser produces.
+ */
+
+import { ImportedRecipe } from '../types/recipeImport'
+import { normalizeArray, parseServings } from './recipeHelpers'
+
+const ISO_DURATION_PATTERN = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i
+const HOURS_PATTERN = /(\d+(?:[.,]\d+)?)\s*(?:h|hr|hrs|hour|hours|uur|stunde|stunden|heure|heures)(?![a-z])/i
+const MINUTES_PATTERN = /(\d+)\s*(?:m|min|mins|minute|minutes|minuten|minuut)(?![a-z])/i
+
+/**
+ * Parse a duration into minutes
+ * @param value - ISO 8601 duration ("PT1H30M"), free text ("1 hr 30 mins") or a number of minutes
+ * @returns Whole minutes, or undefined when the value cannot be read
+ */
+export function parseDurationMinutes(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? Math.round(value) : undefined
+  }
+  if (typeof value !== 'string' || !value.trim()) return undefined
+
+  const text = value.trim()
+  const iso = text.match(ISO_DURATION_PATTERN)
+  if (iso) {
+    const [, days, hours, minutes, seconds] = iso.map(part => (part ? parseFloat(part) : 0))
+    const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60)
+    return total > 0 ? total : undefined
+  }
+
+  if (/^\d+$/.test(text)) {
+    const minutes = parseInt(text, 10)
+    return minutes > 0 ? minutes : undefined
+  }
+
+  const hours = text.match(HOURS_PATTERN)
+  const minutes = text.match(MINUTES_PATTERN)
+  if (!hours && !minutes) return undefined
+
+  const total = Math.round(
+    (hours ? parseFloat(hours[1].replace(',', '.')) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0)
+  )
+  return total > 0 ? total : undefined
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Section title line in the *header* form the recipe parser produces
+export function asHeader(title: string): string {
+  return `*${title.replace(/\*/g, '').trim()}*`
+}
+
+// Strip "1." / "Step 2:" prefixes that some apps store in plain-text directions
+function stripStepNumber(step: string): string {
+  return step.replace(/^(?:step\s*)?\d+[.):]\s+/i, '').trim()
+}
+
+function namesOf(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(item => (typeof item === 'string' ? item : asString((item as { name?: unknown })?.name)))
+    .map(name => name.trim())
+    .filter(Boolean)
+}
+
+function uniqueTags(...groups: string[][]): string[] {
+  const seen = new Set<string>()
+  const tags: string[] = []
+  for (const tag of groups.flat()) {
+    const key = tag.toLowerCase()
+    if (!seen.has(key)) {
+      seen.add(key)
+      tags.push(tag)
+    }
+  }
+  return tags
+}
+
+function joinDescription(...parts: string[]): string {
+  return parts.map(part => part.trim()).filter(Boolean).join('\n\n')
+}
+
+function parseYield(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? Math.round(value) : undefined
+  if (Array.isArray(value)) return parseYield(value[0])
+  return parseServings(asString(value))
+}
+
+function httpUrl(value: unknown): string | undefined {
+  const url = asString(value)
+  return /^https?:\/\//i.test(url) ? url : undefined
+}
+
+/**
+ * Map a Paprika recipe (one gzipped JSON document of a .paprikarecipes archive)
+ */
+export function mapPaprikaRecipe(data: Record<string, any>): ImportedRecipe {
+  // Paprika marks ingredient sections with a trailing colon or all-caps line
+  const ingredients = normalizeArray(data.ingredients).map(line =>
+    /^[^\d].*:$/.test(line) || (/^[A-Z][A-Z\s&]+$/.test(line) && line.length > 2)
+      ? asHeader(line.replace(/:$/, ''))
+      : line
+  )
+
+  return {
+    name: asString(data.name),
+    description: joinDescription(asString(data.description), asString(data.notes)),
+    ingredients,
+    instructions: normalizeArray(data.directions).map(stripStepNumber).filter(Boolean),
+    prepTimeMinutes: parseDurationMinutes(data.prep_time),
+    cookTimeMinutes: parseDurationMinutes(data.cook_time),
+    totalTimeMinutes: parseDurationMinutes(data.total_time),
+    servings: parseServings(asString(data.servings)),
+    sourceUrl: httpUrl(data.source_url),
+    tags: uniqueTags(namesOf(data.categories)),
+    imageData: typeof data.photo_data === 'string' && data.photo_data
+      ? Buffer.from(data.photo_data, 'base64')
+      : undefined,
+    imageName: asString(data.photo) || undefined,
+    imageUrl: data.photo_data ? undefined : httpUrl(data.image_url)
+  }
+}
+
+function mealieIngredientText(ingredient: Record<string, any>): string {
+  const display = asString(ingredient.display) || asString(ingredient.originalText)
+  if (display) return display
+
+  const parts = [
+    ingredient.quantity ? String(ingredient.quantity) : '',
+    asString(ingredient.unit?.name),
+    asString(ingredient.food?.name),
+    asString(ingredient.note)
+  ]
+  return parts.filter(Boolean).join(' ')
+}
+
+/**
+ * Map a Mealie recipe JSON document (recipe export or API format)
+ */
+export function mapMealieRecipe(data: Record<string, any>): ImportedRecipe {
+  const ingredients: string[] = []
+  for (const ingredient of Array.isArray(data.recipeIngredient) ? data.recipeIngredient : []) {
+    if (typeof ingredient === 'string') {
+      ingredients.push(ingredient)
+      continue
+    }
+    if (asString(ingredient?.title)) {
+      ingredients.push(asHeader(ingredient.title))
+    }
+    const text = mealieIngredientText(ingredient || {})
+    if (text) ingredients.push(text)
+  }
+
+  const instructions: string[] = []
+  for (const step of Array.isArray(data.recipeInstructions) ? data.recipeInstructions : []) {
+    if (typeof step === 'string') {
+      instructions.push(step)
+      continue
+    }
+    if (asString(step?.title)) {
+      instructions.push(asHeader(step.title))
+    }
+    instructions.push(...normalizeArray(asString(step?.text)))
+  }
+
+  return {
+    name: asString(data.name),
+    description: asString(data.description),
+    ingredients,
+    instructions,
+    prepTimeMinutes: parseDurationMinutes(data.prepTime),
+    cookTimeMinutes: parseDurationMinutes(data.performTime ?? data.cookTime),
+    totalTimeMinutes: parseDurationMinutes(data.totalTime),
+    servings: parseYield(data.recipeServings) ?? parseYield(data.recipeYield),
+    sourceUrl: httpUrl(data.orgURL),
+    tags: uniqueTags(namesOf(data.tags), namesOf(data.recipeCategory))
+  }
+}
+
+function tandoorIngredientText(ingredient: Record<string, any>): string {
+  const amount = ingredient.no_amount || !ingredient.amount ? '' : String(ingredient.amount)
+  const parts = [amount, asString(ingredient.unit?.name), asString(ingredient.food?.name)]
+  const note = asString(ingredient.note)
+  const text = parts.filter(Boolean).join(' ')
+  return note ? (text ? `${text}, ${note}` : note) : text
+}
+
+/**
+ * Map a Tandoor recipe.json document (one per recipe zip in a Tandoor export)
+ */
+export function mapTandoorRecipe(data: Record<string, any>): ImportedRecipe {
+  const ingredients: string[] = []
+  const instructions: string[] = []
+  const steps = Array.isArray(data.steps) ? [...data.steps] : []
+  steps.sort((a, b) => (a?.order ?? 0) - (b?.order ?? 0))
+
+  for (const step of steps) {
+    const stepName = asString(step?.name)
+
+    const stepIngredients = Array.isArray(step?.ingredients) ? [...step.ingredients] : []
+    stepIngredients.sort((a, b) => (a?.order ?? 0) - (b?.order ?? 0))
+    if (stepName && steps.length > 1 && stepIngredients.some(ingredient => !ingredient?.is_header)) {
+      ingredients.push(asHeader(stepName))
+    }
+    for (const ingredient of stepIngredients) {
+      if (ingredient?.is_header) {
+        const header = asString(ingredient.note) || asString(ingredient.food?.name)
+        if (header) ingredients.push(asHeader(header))
+        continue
+      }
+      const text = tandoorIngredientText(ingredient || {})
+      if (text) ingredients.push(text)
+    }
+
+    if (stepName && steps.length > 1) {
+      instructions.push(asHeader(stepName))
+    }
+    instructions.push(...normalizeArray(asString(step?.instruction)).map(stripStepNumber).filter(Boolean))
+  }
+
+  const prepTimeMinutes = parseDurationMinutes(data.working_time)
+  const cookTimeMinutes = parseDurationMinutes(data.waiting_time)
+
+  return {
+    name: asString(data.name),
+    description: asString(data.description),
+    ingredients,
+    instructions,
+    prepTimeMinutes,
+    cookTimeMinutes,
+    totalTimeMinutes: prepTimeMinutes || cookTimeMinutes ? (prepTimeMinutes || 0) + (cookTimeMinutes || 0) : undefined,
+    servings: parseYield(data.servings),
+    sourceUrl: httpUrl(data.source_url),
+    tags: uniqueTags(namesOf(data.keywords))
+  }
+}
+
+function isRecipeType(type: unknown): boolean {
+  if (Array.isArray(type)) return type.some(isRecipeType)
+  return typeof type === 'string' && type.replace(/^.*[/:]/, '') === 'Recipe'
+}
+
+/**
+ * Collect schema.org Recipe objects from a JSON-LD document, including @graph containers
+ */
+export function findJsonLdRecipes(data: unknown): Record<string, any>[] {
+  if (Array.isArray(data)) return data.flatMap(findJsonLdRecipes)
+  if (!data || typeof data !== 'object') return []
+
+  const node = data as Record<string, any>
+  if (isRecipeType(node['@type'])) return [node]
+  if (node['@graph']) return findJsonLdRecipes(node['@graph'])
+  return []
+}
+
+function jsonLdInstructions(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return normalizeArray(value.replace(/<[^>]+>/g, '\n')).map(stripStepNumber).filter(Boolean)
+  }
+  if (!Array.isArray(value)) {
+    return value && typeof value === 'object' ? jsonLdInstructions([value]) : []
+  }
+
+  const steps: string[] = []
+  for (const item of value) {
+    if (typeof item === 'string') {
+      steps.push(...jsonLdInstructions(item))
+    } else if (item && typeof item === 'object') {
+      if (isSectionType(item['@type'])) {
+        if (asString(item.name)) steps.push(asHeader(item.name))
+        steps.push(...jsonLdInstructions(item.itemListElement))
+      } else {
+        const text = asString(item.text) || asString(item.name)
+        if (text) steps.push(...jsonLdInstructions(text))
+      }
+    }
+  }
+  return steps
+}
+
+function isSectionType(type: unknown): boolean {
+  if (Array.isArray(type)) return type.some(isSectionType)
+  return type === 'HowToSection'
+}
+
+function jsonLdImageUrl(value: unknown): string | undefined {
+  if (Array.isArray(value)) return jsonLdImageUrl(value[0])
+  if (value && typeof value === 'object') return httpUrl((value as { url?: unknown }).url)
+  return httpUrl(value)
+}
+
+function jsonLdKeywords(value: unknown): string[] {
+  if (typeof value === 'string') return value.split(',').map(keyword => keyword.trim()).filter(Boolean)
+  return namesOf(value)
+}
+
+function jsonLdLanguage(value: unknown): string | undefined {
+  const language = asString(value).toLowerCase().split(/[-_]/)[0]
+  return language.length === 2 ? language : undefined
+}
+
+/**
+ * Map a schema.org Recipe object
+ */
+export function mapJsonLdRecipe(data: Record<string, any>): ImportedRecipe {
+  const recipeCategory = typeof data.recipeCategory === 'string' ? [data.recipeCategory] : namesOf(data.recipeCategory)
+  const recipeCuisine = typeof data.recipeCuisine === 'string' ? [data.recipeCuisine] : namesOf(data.recipeCuisine)
+
+  return {
+    name: asString(data.name),
+    description: asString(data.description),
+    ingredients: normalizeArray(data.recipeIngredient ?? data.ingredients),
+    instructions: jsonLdInstructions(data.recipeInstructions),
+    prepTimeMinutes: parseDurationMinutes(data.prepTime),
+    cookTimeMinutes: parseDurationMinutes(data.cookTime),
+    totalTimeMinutes: parseDurationMinutes(data.totalTime),
+    servings: parseYield(data.recipeYield),
+    sourceUrl: httpUrl(data.url) ?? httpUrl(data['@id']),
+    tags: uniqueTags(recipeCategory, recipeCuisine, jsonLdKeywords(data.keywords)),
+    language: jsonLdLanguage(data.inLanguage),
+    imageUrl: jsonLdImageUrl(data.image)
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Helpers for scraping recipe sites politely: robots.txt rules and per-host request throttling
+ */
+
+// Product token matched against robots.txt User-agent lines
+export const ROBOTS_USER_AGENT = 'RecipeReaper'
+
+export interface RobotsRules {
+  allow: string[]
+  disallow: string[]
+}
+
+/**
+ * Host a URL's requests count against; "www." is dropped so both forms share one limit
+ * @returns Lower-case host name, or null for invalid URLs
+ */
+export function getScrapeHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the rules that apply to a user agent from a robots.txt file.
+ * Groups naming the agent win over the "*" group; several matching groups are combined.
+ * @param text - robots.txt contents
+ * @param userAgent - Product token to look for, e.g. "RecipeReaper"
+ * @returns Allow and Disallow path patterns; both empty when everything is allowed
+ */
+export function parseRobotsTxt(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRules {
+  const groups: Array<{ agents: string[] } & RobotsRules> = []
+  let current: ({ agents: string[] } & RobotsRules) | null = null
+  let readingAgents = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share the rules that follow them
+      if (!current || !readingAgents) {
+        current = { agents: [], allow: [], disallow: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      readingAgents = true
+      continue
+    }
+
+    readingAgents = false
+    if (!current) continue
+
+    // An empty Disallow allows everything, so it adds no rule
+    if (key === 'allow' && value) {
+      current.allow.push(value)
+    } else if (key === 'disallow' && value) {
+      current.disallow.push(value)
+    }
+  }
+
+  const token = userAgent.toLowerCase()
+  const named = groups.filter(group => group.agents.some(agent => agent !== '*' && token.startsWith(agent)))
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'))
+
+  return {
+    allow: matching.flatMap(group => group.allow),
+    disallow: matching.flatMap(group => group.disallow)
+  }
+}
+
+/**
+ * Whether robots.txt rules let a path be fetched. The longest matching pattern decides, Allow winning ties;
+ * "*" matches any characters and a trailing "$" anchors the end of the path.
+ * @param rules - Rules from parseRobotsTxt
+ * @param path - Path and query of the page, e.g. "/recipes/soup?print=1"
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce((longest, pattern) => (matchesRobotsPattern(pattern, path) ? Math.max(longest, pattern.length) : longest), -1)
+
+  const allow = longestMatch(rules.allow)
+  const disallow = longestMatch(rules.disallow)
+  return disallow === -1 || allow >= disallow
+}
+
+function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path)
+}
+
+interface HostState {
+  active: number
+  nextStartAt: number
+  waiting: Array<() => void>
+}
+
+/**
+ * Limits how many requests run against one host at a time and how soon after each other they start.
+ * Requests over the limit wait in order instead of failing.
+ */
+export class HostThrottle {
+  private hosts = new Map<string, HostState>()
+
+  constructor(
+    private concurrency: number,
+    private minIntervalMs: number
+  ) {}
+
+  /**
+   * Run a task once the host has a free slot and its minimum interval has passed
+   */
+  async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const state = await this.acquire(host)
+    try {
+      return await task()
+    } finally {
+      this.release(host, state)
+    }
+  }
+
+  private async acquire(host: string): Promise<HostState> {
+    this.pruneIdleHosts(Date.now())
+
+    let state = this.hosts.get(host)
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiting: [] }
+      this.hosts.set(host, state)
+    }
+
+    if (state.active < this.concurrency && state.waiting.length === 0) {
+      state.active++
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>(resolve => state!.waiting.push(resolve))
+    }
+
+    // Reserve a start time so queued requests stay spaced out
+    const now = Date.now()
+    const startAt = Math.max(now, state.nextStartAt)
+    state.nextStartAt = startAt + this.minIntervalMs
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now))
+    }
+    return state
+  }
+
+  private release(host: string, state: HostState): void {
+    const next = state.waiting.shift()
+    if (next) {
+      next()
+      return
+    }
+
+    state.active--
+    if (state.active === 0 && state.nextStartAt <= Date.now()) {
+      this.hosts.delete(host)
+    }
+  }
+
+  // Hosts released before their interval ran out are forgotten once it has, so the map only holds recent hosts
+  private pruneIdleHosts(now: number): void {
+    for (const [host, state] of this.hosts) {
+      if (state.active === 0 && state.waiting.length === 0 && state.nextStartAt <= now) {
+        this.hosts.delete(host)
+      }
+    }
+  }
+}
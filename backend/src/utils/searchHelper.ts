@@ -0,0 +1,116 @@
+/**
+ * Helper functions for PostgreSQL full-text recipe search
+ */
+
+/**
+ * Maps recipe language codes (ISO 639-1) to the built-in PostgreSQL text search
+ * configurations. Languages without a stemming dictionary fall back to 'simple'.
+ */
+export const SEARCH_CONFIG_BY_LANGUAGE: Record<string, string> = {
+  en: 'english',
+  nl: 'dutch',
+  es: 'spanish',
+  fr: 'french',
+  de: 'german',
+  it: 'italian',
+  pt: 'portuguese',
+  ar: 'arabic',
+  ru: 'russian',
+  sv: 'swedish',
+  no: 'norwegian',
+  da: 'danish',
+  fi: 'finnish',
+  tr: 'turkish',
+  el: 'greek',
+  id: 'indonesian'
+}
+
+export const DEFAULT_SEARCH_CONFIG = 'simple'
+
+// Markers wrapped around matched terms by ts_headline
+export const HIGHLIGHT_START = '<mark>'
+export const HIGHLIGHT_STOP = '</mark>'
+
+const MAX_SEARCH_LENGTH = 200
+
+/**
+ * Resolve the text search configuration for a recipe language
+ * @param language - ISO 639-1 language code
+ * @returns PostgreSQL text search configuration name
+ */
+export function getSearchConfig(language?: string | null): string {
+  if (!language) return DEFAULT_SEARCH_CONFIG
+  return SEARCH_CONFIG_BY_LANGUAGE[language.trim().toLowerCase()] || DEFAULT_SEARCH_CONFIG
+}
+
+/**
+ * Build the SQL CASE expression used by the recipe_search_config() database function
+ * @param column - SQL expression holding the language code
+ * @returns SQL expression evaluating to a regconfig
+ */
+export function buildSearchConfigCaseSql(column: string): string {
+  const branches = Object.entries(SEARCH_CONFIG_BY_LANGUAGE)
+    .map(([code, config]) => `WHEN '${code}' THEN '${config}'::regconfig`)
+    .join(' ')
+
+  return `CASE lower(${column}) ${branches} ELSE '${DEFAULT_SEARCH_CONFIG}'::regconfig END`
+}
+
+/**
+ * Normalize a user supplied search string before handing it to websearch_to_tsquery
+ * @param search - Raw search input
+ * @returns Trimmed search string or null when nothing searchable remains
+ */
+export function normalizeSearchQuery(search?: string | null): string | null {
+  if (!search || typeof search !== 'string') return null
+
+  const normalized = search
+    .replace(/[\u0000-\u001f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_SEARCH_LENGTH)
+
+  return normalized.length > 0 ? normalized : null
+}
+
+/**
+ * Escape LIKE wildcards so the substring fallback treats input literally
+ * @param value - Search string
+ * @returns Pattern suitable for ILIKE
+ */
+export function buildLikePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+}
+
+/**
+ * Options string for ts_headline snippets
+ * @param maxFragments - Number of fragments to return (0 highlights the whole text)
+ * @returns ts_headline options
+ */
+export function buildHeadlineOptions(maxFragments = 0): string {
+  const options = [
+    `StartSel=${HIGHLIGHT_START}`,
+    `StopSel=${HIGHLIGHT_STOP}`,
+    'HighlightAll=' + (maxFragments === 0 ? 'true' : 'false')
+  ]
+
+  if (maxFragments > 0) {
+    options.push(
+      `MaxFragments=${maxFragments}`,
+      'MaxWords=18',
+      'MinWords=6',
+      'FragmentDelimiter=" … "'
+    )
+  }
+
+  return options.join(', ')
+}
+
+/**
+ * Check whether a headline actually contains a highlighted match
+ * @param headline - Output of ts_headline
+ * @returns True if at least one term was highlighted
+ */
+export function hasHighlight(headline?: string | null): boolean {
+  return !!headline && headline.includes(HIGHLIGHT_START)
+}
@@ -32,6 +32,46 @@ export class TagHelper {
       .filter((tag, index, array) => array.indexOf(tag) === index) // Remove duplicates
   }
 
+  /**
+   * Replace some tags of a recipe with another tag, or remove them
+   * @param tags - The recipe's tags
+   * @param fromTags - Tags to replace, compared after normalization
+   * @param toTag - Tag taking the place of the first replaced tag, or null to remove them
+   * @returns Normalized tags without duplicates
+   */
+  static replaceTags(tags: string[], fromTags: string[], toTag: string | null): string[] {
+    const from = new Set(this.normalizeTags(fromTags))
+    const replaced: string[] = []
+    let inserted = false
+
+    for (const tag of this.normalizeTags(tags)) {
+      if (!from.has(tag)) {
+        replaced.push(tag)
+      } else if (toTag && !inserted) {
+        replaced.push(toTag)
+        inserted = true
+      }
+    }
+
+    return this.normalizeTags(replaced)
+  }
+
+  /**
+   * Count how many recipes use each tag
+   * @param tagLists - Tags of each recipe
+   * @returns Normalized tags with their recipe counts, sorted by tag
+   */
+  static countTags(tagLists: string[][]): Array<{ name: string; count: number }> {
+    const counts = new Map<string, number>()
+    for (const tags of tagLists) {
+      for (const tag of this.normalizeTags(tags)) {
+        counts.set(tag, (counts.get(tag) || 0) + 1)
+      }
+    }
+
+    return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
   /**
    * Validate that a tag meets basic requirements
    * @param tag - The tag to validate
@@ -0,0 +1,260 @@
+/**
+ * Unit conversion for merging ingredient quantities.
+ * Units are keyed on the unitOfMeasureID values produced by parse-ingredient.
+ */
+
+export type UnitSystem = 'metric' | 'imperial'
+export type UnitDimension = 'mass' | 'volume'
+
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ['metric', 'imperial']
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric'
+
+export interface Measurement {
+  quantity: number
+  unitId: string | null
+}
+
+interface UnitDefinition {
+  dimension: UnitDimension
+  toBase: number // grams for mass, milliliters for volume
+}
+
+export const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  milligram: { dimension: 'mass', toBase: 0.001 },
+  gram: { dimension: 'mass', toBase: 1 },
+  kilogram: { dimension: 'mass', toBase: 1000 },
+  ounce: { dimension: 'mass', toBase: 28.349523 },
+  pound: { dimension: 'mass', toBase: 453.59237 },
+  milliliter: { dimension: 'volume', toBase: 1 },
+  liter: { dimension: 'volume', toBase: 1000 },
+  teaspoon: { dimension: 'volume', toBase: 4.928922 },
+  tablespoon: { dimension: 'volume', toBase: 14.786765 },
+  'fluid ounce': { dimension: 'volume', toBase: 29.573530 },
+  cup: { dimension: 'volume', toBase: 236.588237 },
+  pint: { dimension: 'volume', toBase: 473.176473 },
+  quart: { dimension: 'volume', toBase: 946.352946 },
+  gallon: { dimension: 'volume', toBase: 3785.411784 }
+}
+
+// Short forms found in older shopping list rows that were stored before normalization
+const UNIT_ALIASES: Record<string, string> = {
+  mg: 'milligram',
+  g: 'gram',
+  gr: 'gram',
+  grams: 'gram',
+  kg: 'kilogram',
+  oz: 'ounce',
+  ounces: 'ounce',
+  lb: 'pound',
+  lbs: 'pound',
+  pounds: 'pound',
+  ml: 'milliliter',
+  l: 'liter',
+  liters: 'liter',
+  litre: 'liter',
+  tsp: 'teaspoon',
+  teaspoons: 'teaspoon',
+  tbsp: 'tablespoon',
+  tablespoons: 'tablespoon',
+  'fl oz': 'fluid ounce',
+  'fluid ounces': 'fluid ounce',
+  cups: 'cup',
+  pints: 'pint',
+  quarts: 'quart',
+  gallons: 'gallon'
+}
+
+/**
+ * Approximate densities (grams per milliliter) of common staples, used to merge
+ * volume and mass measurements of the same ingredient. The most specific key
+ * contained in the ingredient name wins.
+ */
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  water: 1,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.0,
+  yogurt: 1.03,
+  butter: 0.96,
+  oil: 0.92,
+  'olive oil': 0.91,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  flour: 0.53,
+  'whole wheat flour': 0.51,
+  cornstarch: 0.54,
+  sugar: 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.51,
+  "confectioners' sugar": 0.51,
+  'icing sugar': 0.51,
+  'cocoa powder': 0.42,
+  salt: 1.2,
+  rice: 0.79,
+  oats: 0.38,
+  'rolled oats': 0.38,
+  breadcrumbs: 0.45,
+  'grated parmesan': 0.42
+}
+
+// Output units per system, largest first; a unit is used once the amount reaches its threshold (in base units)
+const OUTPUT_UNITS: Record<UnitSystem, Record<UnitDimension, Array<{ unitId: string; threshold: number }>>> = {
+  metric: {
+    mass: [
+      { unitId: 'kilogram', threshold: 1000 },
+      { unitId: 'gram', threshold: 0 }
+    ],
+    volume: [
+      { unitId: 'liter', threshold: 1000 },
+      { unitId: 'milliliter', threshold: 0 }
+    ]
+  },
+  imperial: {
+    mass: [
+      { unitId: 'pound', threshold: UNIT_DEFINITIONS.pound.toBase },
+      { unitId: 'ounce', threshold: 0 }
+    ],
+    volume: [
+      { unitId: 'cup', threshold: UNIT_DEFINITIONS.cup.toBase / 4 },
+      { unitId: 'tablespoon', threshold: UNIT_DEFINITIONS.tablespoon.toBase },
+      { unitId: 'teaspoon', threshold: 0 }
+    ]
+  }
+}
+
+/**
+ * Resolve a stored unit string to a known unit id
+ * @param unit - unitOfMeasureID, long unit name or common abbreviation
+ * @returns Canonical unit id, or the trimmed input for units without conversions (e.g. "clove")
+ */
+export function resolveUnitId(unit?: string | null): string | null {
+  if (!unit) return null
+  const normalized = unit.trim().toLowerCase().replace(/\.$/, '')
+  if (!normalized) return null
+  if (UNIT_DEFINITIONS[normalized]) return normalized
+  return UNIT_ALIASES[normalized] || normalized
+}
+
+/**
+ * Look up the density of an ingredient
+ * @param ingredientName - Ingredient description or display name
+ * @returns Grams per milliliter, or null when unknown
+ */
+export function getIngredientDensity(ingredientName?: string | null): number | null {
+  if (!ingredientName) return null
+  const name = ingredientName.toLowerCase()
+
+  let bestKey: string | null = null
+  for (const key of Object.keys(INGREDIENT_DENSITIES)) {
+    const pattern = new RegExp(`(^|[^a-z])${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}s?([^a-z]|$)`)
+    if (pattern.test(name) && (!bestKey || key.length > bestKey.length)) {
+      bestKey = key
+    }
+  }
+
+  return bestKey ? INGREDIENT_DENSITIES[bestKey] : null
+}
+
+/**
+ * Convert a quantity between units, using the ingredient density for volume/mass conversions
+ * @param quantity - Amount in the source unit
+ * @param fromUnit - Source unit
+ * @param toUnit - Target unit
+ * @param ingredientName - Ingredient used to look up a density
+ * @returns Converted quantity, or null when the units are not compatible
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string | null,
+  toUnit: string | null,
+  ingredientName?: string | null
+): number | null {
+  const fromId = resolveUnitId(fromUnit)
+  const toId = resolveUnitId(toUnit)
+
+  if (fromId === toId) return quantity
+  if (!fromId || !toId) return null
+
+  const from = UNIT_DEFINITIONS[fromId]
+  const to = UNIT_DEFINITIONS[toId]
+  if (!from || !to) return null
+
+  let base = quantity * from.toBase
+  if (from.dimension !== to.dimension) {
+    const density = getIngredientDensity(ingredientName)
+    if (!density) return null
+    base = from.dimension === 'volume' ? base * density : base / density
+  }
+
+  return base / to.toBase
+}
+
+/**
+ * Round a quantity for display on a shopping list
+ */
+export function roundQuantity(quantity: number, unitId: string | null): number {
+  if (unitId === 'gram' || unitId === 'milliliter') {
+    return quantity >= 10 ? Math.round(quantity) : Math.round(quantity * 10) / 10
+  }
+  return Math.round(quantity * 100) / 100
+}
+
+/**
+ * Express an amount in the most readable unit of the preferred system
+ * @param baseQuantity - Amount in grams or milliliters
+ * @param dimension - Whether the amount is a mass or volume
+ * @param unitSystem - Preferred measurement system
+ * @returns Measurement in the chosen unit
+ */
+export function toPreferredUnit(baseQuantity: number, dimension: UnitDimension, unitSystem: UnitSystem): Measurement {
+  const candidates = OUTPUT_UNITS[unitSystem][dimension]
+  const choice = candidates.find(candidate => baseQuantity >= candidate.threshold) || candidates[candidates.length - 1]
+  const quantity = baseQuantity / UNIT_DEFINITIONS[choice.unitId].toBase
+
+  return { quantity: roundQuantity(quantity, choice.unitId), unitId: choice.unitId }
+}
+
+/**
+ * Add two measurements of the same ingredient
+ * @param existing - Measurement already on the list
+ * @param addition - Measurement being added
+ * @param ingredientName - Ingredient used to look up a density when mixing volume and mass
+ * @param unitSystem - Preferred system for the merged result when the units differ
+ * @returns Combined measurement, or null when the units cannot be combined
+ */
+export function combineMeasurements(
+  existing: Measurement,
+  addition: Measurement,
+  ingredientName?: string | null,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): Measurement | null {
+  const existingId = resolveUnitId(existing.unitId)
+  const additionId = resolveUnitId(addition.unitId)
+  const existingDef = existingId ? UNIT_DEFINITIONS[existingId] : undefined
+  const additionDef = additionId ? UNIT_DEFINITIONS[additionId] : undefined
+
+  // The same unit stays as it is, so a list only changes system when differing units force a conversion
+  if (existingId === additionId) {
+    return { quantity: roundQuantity(existing.quantity + addition.quantity, existingId), unitId: existingId }
+  }
+
+  // Counts and units without conversions (cloves, cans, ...) only add up with themselves
+  if (!existingDef || !additionDef) return null
+
+  // Mixed volume and mass are merged by weight
+  const dimension: UnitDimension = existingDef.dimension === additionDef.dimension ? existingDef.dimension : 'mass'
+  const baseUnit = dimension === 'mass' ? 'gram' : 'milliliter'
+
+  const existingBase = convertQuantity(existing.quantity, existingId, baseUnit, ingredientName)
+  const additionBase = convertQuantity(addition.quantity, additionId, baseUnit, ingredientName)
+  if (existingBase === null || additionBase === null) return null
+
+  return toPreferredUnit(existingBase + additionBase, dimension, unitSystem)
+}
+
+/**
+ * Check whether a value is a supported unit system
+ */
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return typeof value === 'string' && (UNIT_SYSTEMS as readonly string[]).includes(value)
+}
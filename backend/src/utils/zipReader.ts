@@ -0,0 +1,147 @@
+import { gunzipSync, inflateRawSync } from 'zlib'
+
+/**
+ * Minimal zip archive reader for import files.
+ * Supports stored and deflated entries, which covers the archives written by
+ * Paprika, Mealie, Tandoor and common zip tools. Encryption and zip64 are not supported.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+/**
+ * Bytes an import may still unpack. One budget is shared by an archive, the archives nested in it
+ * and any gzipped documents, so that no combination of them inflates past the limit.
+ */
+export interface InflateBudget {
+  remaining: number
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+
+// Refuse archives that would inflate beyond this size in total
+const MAX_UNCOMPRESSED_BYTES = 500 * 1024 * 1024
+
+export function createInflateBudget(): InflateBudget {
+  return { remaining: MAX_UNCOMPRESSED_BYTES }
+}
+
+/**
+ * Run a decompression capped at the remaining budget and charge its output to it.
+ * Declared sizes can lie, so the cap is what actually stops a zip bomb.
+ */
+function inflateWithinBudget(budget: InflateBudget, inflate: (maxOutputLength: number) => Buffer): Buffer {
+  let data: Buffer
+  try {
+    data = inflate(Math.max(budget.remaining, 1))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error('Import file is too large to unpack')
+    }
+    throw error
+  }
+
+  if (data.length > budget.remaining) {
+    throw new Error('Import file is too large to unpack')
+  }
+
+  budget.remaining -= data.length
+  return data
+}
+
+/**
+ * Decompress a gzipped document, charging its size to the import's budget
+ */
+export function gunzipWithinBudget(buffer: Buffer, budget: InflateBudget): Buffer {
+  return inflateWithinBudget(budget, maxOutputLength => gunzipSync(buffer, { maxOutputLength }))
+}
+
+/**
+ * Check whether a buffer starts with a zip signature
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER
+}
+
+/**
+ * Check whether a buffer starts with a gzip signature
+ */
+export function isGzipData(buffer: Buffer): boolean {
+  return buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  throw new Error('Invalid zip archive: end of central directory not found')
+}
+
+/**
+ * Read all file entries of a zip archive
+ * @param buffer - Zip archive contents
+ * @param budget - Unpacked bytes still allowed; pass the parent's budget when reading a nested archive
+ * @returns File entries in archive order (directories are skipped)
+ * @throws Error if the archive is malformed or uses an unsupported compression method
+ */
+export function readZipEntries(buffer: Buffer, budget: InflateBudget = createInflateBudget()): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(buffer)
+  const entryCount = buffer.readUInt16LE(endOffset + 10)
+  let offset = buffer.readUInt32LE(endOffset + 16)
+
+  const entries: ZipEntry[] = []
+
+  for (let index = 0; index < entryCount; index++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid zip archive: corrupt central directory')
+    }
+
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const uncompressedSize = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    if (uncompressedSize > budget.remaining) {
+      throw new Error('Zip archive is too large to import')
+    }
+
+    // Sizes in the local header may be zero when a data descriptor is used, so only its name/extra lengths are read
+    if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid zip archive: corrupt entry "${name}"`)
+    }
+    const dataStart = localHeaderOffset + 30 + buffer.readUInt16LE(localHeaderOffset + 26) + buffer.readUInt16LE(localHeaderOffset + 28)
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === METHOD_STORED) {
+      data = inflateWithinBudget(budget, () => Buffer.from(compressed))
+    } else if (method === METHOD_DEFLATED) {
+      data = inflateWithinBudget(budget, maxOutputLength => inflateRawSync(compressed, { maxOutputLength }))
+    } else {
+      throw new Error(`Unsupported compression method ${method} for "${name}"`)
+    }
+
+    entries.push({ name, data })
+  }
+
+  return entries
+}
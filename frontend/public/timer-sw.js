@@ -0,0 +1,18 @@
+// Imported into the generated service worker (workbox.importScripts in vite.config.ts).
+// Opens the timer's recipe when a kitchen timer notification is tapped.
+self.addEventListener('notificationclick', (event) => {
+  if (!event.notification.tag || !event.notification.tag.startsWith('timer-')) return
+
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((candidate) => 'focus' in candidate)
+      if (client) {
+        return client.focus().then((focused) => (focused && 'navigate' in focused ? focused.navigate(url) : focused))
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -1,8 +1,10 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
-import { Suspense, lazy, useEffect } from 'react'
+import { Fragment, ReactNode, Suspense, lazy, useEffect } from 'react'
 import { ThemeProvider } from './contexts/ThemeContext'
-import { AuthProvider } from './contexts/AuthContext'
+import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { OfflineProvider } from './contexts/OfflineContext'
+import { TimerProvider } from './contexts/TimerContext'
+import { ImportJobsProvider } from './contexts/ImportJobsContext'
 import Navigation from './components/Navigation'
 import OfflineIndicator from './components/OfflineIndicator'
 import PWAInstallPrompt from './components/PWAInstallPrompt'
@@ -11,19 +13,37 @@ import PageTracker from './components/PageTracker'
 import PerformanceDashboard from './components/PerformanceDashboard'
 import LoadingScreen from './components/LoadingScreen'
 import ScrollToTop from './components/ScrollToTop'
+import TimerTray from './components/TimerTray'
+import ImportJobsTray from './components/ImportJobsTray'
 // Critical routes - loaded eagerly
 import RecipesPage from './pages/RecipesPage'
 import LoginPage from './pages/LoginPage'
 
 // Non-critical routes - lazy loaded for performance
 const RecipeDetailPage = lazy(() => import('./pages/RecipeDetailPage'))
+const CookModePage = lazy(() => import('./pages/CookModePage'))
 const RecipeFormPage = lazy(() => import('./pages/RecipeFormPage'))
 const SettingsPage = lazy(() => import('./pages/SettingsPage'))
 const DashboardPage = lazy(() => import('./pages/DashboardPage'))
 const AuthCallbackPage = lazy(() => import('./pages/AuthCallbackPage'))
 const ShareTargetPage = lazy(() => import('./pages/ShareTargetPage'))
 const ShoppingListPage = lazy(() => import('./pages/ShoppingListPage'))
+const PantryPage = lazy(() => import('./pages/PantryPage'))
+const MealPlanPage = lazy(() => import('./pages/MealPlanPage'))
+const CollectionsPage = lazy(() => import('./pages/CollectionsPage'))
+const CollectionPage = lazy(() => import('./pages/CollectionPage'))
+const ImportRecipesPage = lazy(() => import('./pages/ImportRecipesPage'))
 const AboutPage = lazy(() => import('./pages/AboutPage'))
+const ForgotPasswordPage = lazy(() => import('./pages/ForgotPasswordPage'))
+const ResetPasswordPage = lazy(() => import('./pages/ResetPasswordPage'))
+const VerifyEmailPage = lazy(() => import('./pages/VerifyEmailPage'))
+const JoinHouseholdPage = lazy(() => import('./pages/JoinHouseholdPage'))
+
+// Remounts the pages when the user switches household, so each page loads the new household's data
+function ActiveHouseholdScope({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  return <Fragment key={user?.householdId || 'personal'}>{children}</Fragment>
+}
 
 function App() {
   useEffect(() => {
@@ -66,35 +86,54 @@ function App() {
     <ThemeProvider>
       <OfflineProvider>
         <AuthProvider>
-          <GoogleAnalytics />
-          <Router>
-            <ScrollToTop />
-            <PageTracker />
-            <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-white transition-colors duration-200">
-              <OfflineIndicator />
-              <Navigation />
-              {/* Offset content for fixed mobile header */}
-              <main className="pt-16 sm:pt-0">
-                <Suspense fallback={<LoadingScreen message="Loading page..." />}>
-                  <Routes>
-                    <Route path="/" element={<RecipesPage />} />
-                    <Route path="/login" element={<LoginPage />} />
-                    <Route path="/dashboard" element={<DashboardPage />} />
-                    <Route path="/auth/callback" element={<AuthCallbackPage />} />
-                    <Route path="/share-target" element={<ShareTargetPage />} />
-                    <Route path="/recipe/:id" element={<RecipeDetailPage />} />
-                    <Route path="/add-recipe" element={<RecipeFormPage />} />
-                    <Route path="/recipe/:id/edit" element={<RecipeFormPage />} />
-                    <Route path="/shopping-list" element={<ShoppingListPage />} />
-                    <Route path="/settings" element={<SettingsPage />} />
-                    <Route path="/about" element={<AboutPage />} />
-                  </Routes>
-                </Suspense>
-              </main>
-              <PWAInstallPrompt />
-            </div>
-            {import.meta.env.DEV && <PerformanceDashboard />}
-          </Router>
+          <TimerProvider>
+            <ImportJobsProvider>
+              <GoogleAnalytics />
+              <Router>
+                <ScrollToTop />
+                <PageTracker />
+                <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-white transition-colors duration-200">
+                  <OfflineIndicator />
+                  <Navigation />
+                  {/* Offset content for fixed mobile header */}
+                  <main className="pt-16 sm:pt-0">
+                    <Suspense fallback={<LoadingScreen message="Loading page..." />}>
+                      <ActiveHouseholdScope>
+                        <Routes>
+                          <Route path="/" element={<RecipesPage />} />
+                          <Route path="/login" element={<LoginPage />} />
+                          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                          <Route path="/reset-password" element={<ResetPasswordPage />} />
+                          <Route path="/verify-email" element={<VerifyEmailPage mode="verify" />} />
+                          <Route path="/confirm-email-change" element={<VerifyEmailPage mode="change" />} />
+                          <Route path="/join/:token" element={<JoinHouseholdPage />} />
+                          <Route path="/dashboard" element={<DashboardPage />} />
+                          <Route path="/auth/callback" element={<AuthCallbackPage />} />
+                          <Route path="/share-target" element={<ShareTargetPage />} />
+                          <Route path="/recipe/:id" element={<RecipeDetailPage />} />
+                          <Route path="/add-recipe" element={<RecipeFormPage />} />
+                          <Route path="/recipe/:id/edit" element={<RecipeFormPage />} />
+                          <Route path="/recipe/:id/cook" element={<CookModePage />} />
+                          <Route path="/shopping-list" element={<ShoppingListPage />} />
+                          <Route path="/pantry" element={<PantryPage />} />
+                          <Route path="/meal-plan" element={<MealPlanPage />} />
+                          <Route path="/collections" element={<CollectionsPage />} />
+                          <Route path="/collections/:id" element={<CollectionPage />} />
+                          <Route path="/import" element={<ImportRecipesPage />} />
+                          <Route path="/settings" element={<SettingsPage />} />
+                          <Route path="/about" element={<AboutPage />} />
+                        </Routes>
+                      </ActiveHouseholdScope>
+                    </Suspense>
+                  </main>
+                  <TimerTray />
+                  <ImportJobsTray />
+                  <PWAInstallPrompt />
+                </div>
+                {import.meta.env.DEV && <PerformanceDashboard />}
+              </Router>
+            </ImportJobsProvider>
+          </TimerProvider>
         </AuthProvider>
       </OfflineProvider>
     </ThemeProvider>
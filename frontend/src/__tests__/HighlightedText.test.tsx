@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { HighlightedText } from '../components/HighlightedText'
+
+describe('HighlightedText Component', () => {
+  it('should render plain text unchanged', () => {
+    const { container } = render(<HighlightedText text="Chickpea curry" />)
+    expect(container.textContent).toBe('Chickpea curry')
+    expect(container.querySelector('mark')).toBeNull()
+  })
+
+  it('should wrap highlighted terms in mark elements', () => {
+    const { container } = render(
+      <HighlightedText text="Spicy <mark>chickpea</mark> curry with <mark>chickpeas</mark>" />
+    )
+
+    const marks = container.querySelectorAll('mark')
+    expect(marks).toHaveLength(2)
+    expect(marks[0].textContent).toBe('chickpea')
+    expect(container.textContent).toBe('Spicy chickpea curry with chickpeas')
+  })
+
+  it('should not interpret other markup as HTML', () => {
+    render(<HighlightedText text="<b>bold</b> <mark>match</mark>" />)
+    expect(screen.getByText(/<b>bold<\/b>/)).toBeInTheDocument()
+  })
+})
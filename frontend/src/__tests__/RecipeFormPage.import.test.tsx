@@ -134,6 +134,15 @@ vi.mock('../contexts/AuthContext', () => ({
   })
 }))
 
+// Background imports are covered by the imports tray; the form only needs the context
+vi.mock('../contexts/ImportJobsContext', () => ({
+  useImportJobs: () => ({
+    jobs: [],
+    startImport: vi.fn(),
+    dismissImport: vi.fn()
+  })
+}))
+
 // Mock react-router-dom
 vi.mock('react-router-dom', async () => {
   const actual = await vi.importActual('react-router-dom')
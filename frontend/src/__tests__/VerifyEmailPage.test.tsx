@@ -0,0 +1,78 @@
+import { StrictMode } from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { vi, beforeEach, describe, it, expect } from 'vitest'
+import VerifyEmailPage from '../pages/VerifyEmailPage'
+
+const { mockVerifyEmail, mockConfirmEmailChange, mockRefreshUser } = vi.hoisted(() => ({
+  mockVerifyEmail: vi.fn(),
+  mockConfirmEmailChange: vi.fn(),
+  mockRefreshUser: vi.fn()
+}))
+
+vi.mock('../services/api', () => ({
+  apiService: {
+    verifyEmail: mockVerifyEmail,
+    confirmEmailChange: mockConfirmEmailChange
+  }
+}))
+
+vi.mock('../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: null,
+    refreshUser: mockRefreshUser
+  })
+}))
+
+const renderPage = (mode: 'verify' | 'change', search: string) => {
+  return render(
+    <StrictMode>
+      <MemoryRouter initialEntries={[`/page${search}`]}>
+        <VerifyEmailPage mode={mode} />
+      </MemoryRouter>
+    </StrictMode>
+  )
+}
+
+describe('VerifyEmailPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRefreshUser.mockResolvedValue(undefined)
+  })
+
+  it('should use a verification link only once', async () => {
+    mockVerifyEmail.mockResolvedValue({ message: 'Your email address is verified.', user: {} })
+
+    renderPage('verify', '?token=abc')
+
+    expect(await screen.findByText('Your email address is verified.')).toBeInTheDocument()
+    expect(mockVerifyEmail).toHaveBeenCalledTimes(1)
+    expect(mockVerifyEmail).toHaveBeenCalledWith('abc')
+  })
+
+  it('should confirm an email change', async () => {
+    mockConfirmEmailChange.mockResolvedValue({ message: 'Your email address is now new@example.com.', user: {} })
+
+    renderPage('change', '?token=xyz')
+
+    expect(await screen.findByText('Your email address is now new@example.com.')).toBeInTheDocument()
+    expect(mockConfirmEmailChange).toHaveBeenCalledWith('xyz')
+    expect(mockVerifyEmail).not.toHaveBeenCalled()
+  })
+
+  it('should show the error for an expired link', async () => {
+    mockVerifyEmail.mockRejectedValue(new Error('This verification link is invalid or has expired. Please request a new one.'))
+
+    renderPage('verify', '?token=old')
+
+    expect(await screen.findByText(/invalid or has expired/)).toBeInTheDocument()
+    expect(screen.getByText('Sign in')).toBeInTheDocument()
+  })
+
+  it('should explain a link without a token', async () => {
+    renderPage('verify', '')
+
+    await waitFor(() => expect(screen.getByText(/link is incomplete/)).toBeInTheDocument())
+    expect(mockVerifyEmail).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { getCollectionCover, moveItem } from '../utils/collections'
+
+describe('collections', () => {
+  it('should prefer the cover image over the first recipe image', () => {
+    expect(getCollectionCover({ coverImage: '/uploads/cover.jpg', firstRecipeImage: '/uploads/soup.jpg' })).toBe('/uploads/cover.jpg')
+    expect(getCollectionCover({ firstRecipeImage: '/uploads/soup.jpg' })).toBe('/uploads/soup.jpg')
+    expect(getCollectionCover({})).toBeUndefined()
+  })
+
+  it('should move items up and down', () => {
+    expect(moveItem(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c'])
+    expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd'])
+  })
+
+  it('should leave the list unchanged for out-of-range moves', () => {
+    const items = ['a', 'b']
+    expect(moveItem(items, 0, 2)).toBe(items)
+    expect(moveItem(items, -1, 0)).toBe(items)
+    expect(moveItem(items, 1, 1)).toBe(items)
+  })
+})
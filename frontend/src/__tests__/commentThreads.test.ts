@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { buildCommentThreads, countReadableComments, formatCommentTime } from '../utils/commentThreads'
+import type { RecipeComment } from '../services/api'
+
+function comment(id: string, parentId?: string, body = `Comment ${id}`): RecipeComment {
+  return {
+    id,
+    recipeId: 'r1',
+    parentId,
+    userId: 'u1',
+    body,
+    isDeleted: false,
+    isHidden: false,
+    reportedByViewer: false,
+    createdAt: '2024-03-10T12:00:00Z',
+    updatedAt: '2024-03-10T12:00:00Z'
+  }
+}
+
+describe('commentThreads', () => {
+  it('should nest replies under their parents in order', () => {
+    const threads = buildCommentThreads([
+      comment('a'),
+      comment('b'),
+      comment('c', 'a'),
+      comment('d', 'c'),
+      comment('e', 'a')
+    ])
+
+    expect(threads.map(thread => thread.comment.id)).toEqual(['a', 'b'])
+    expect(threads[0].replies.map(thread => thread.comment.id)).toEqual(['c', 'e'])
+    expect(threads[0].replies[0].replies[0].comment.id).toBe('d')
+  })
+
+  it('should show replies to missing comments at the top level', () => {
+    const threads = buildCommentThreads([comment('b', 'gone')])
+    expect(threads.map(thread => thread.comment.id)).toEqual(['b'])
+  })
+
+  it('should not count removed comments kept for their replies', () => {
+    expect(countReadableComments([comment('a', undefined, ''), comment('b', 'a')])).toBe(1)
+  })
+
+  it('should format recent times relatively', () => {
+    const now = new Date('2024-03-10T12:00:00Z')
+    expect(formatCommentTime('2024-03-10T11:59:30Z', now)).toBe('just now')
+    expect(formatCommentTime('2024-03-10T11:15:00Z', now)).toBe('45m ago')
+    expect(formatCommentTime('2024-03-10T07:00:00Z', now)).toBe('5h ago')
+    expect(formatCommentTime('2024-03-08T12:00:00Z', now)).toBe('2d ago')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCookSteps,
+  findDurations,
+  splitStepText,
+  findStepIngredients,
+  parseVoiceCommand
+} from '../utils/cookMode'
+
+describe('cookMode', () => {
+  describe('buildCookSteps', () => {
+    it('should attach section headers to the steps that follow them', () => {
+      const steps = buildCookSteps(['*Dough*', '1. Mix the flour.', '2. Knead.', '*Filling*', '3. Fry the onions.'])
+      expect(steps).toEqual([
+        { text: 'Mix the flour.', section: 'Dough', instructionIndex: 1 },
+        { text: 'Knead.', section: 'Dough', instructionIndex: 2 },
+        { text: 'Fry the onions.', section: 'Filling', instructionIndex: 4 }
+      ])
+    })
+
+    it('should keep numbers when only some steps are numbered', () => {
+      expect(buildCookSteps(['Preheat the oven.', '2 eggs go in next.']).map(step => step.text))
+        .toEqual(['Preheat the oven.', '2 eggs go in next.'])
+    })
+  })
+
+  describe('findDurations', () => {
+    it('should detect minutes, hours and seconds', () => {
+      expect(findDurations('Bake 25 minutes until golden.').map(d => d.seconds)).toEqual([1500])
+      expect(findDurations('Rest for 1 hr, then stir for 30 secs.').map(d => d.seconds)).toEqual([3600, 30])
+      expect(findDurations('Simmer for ½ hour.').map(d => d.seconds)).toEqual([1800])
+    })
+
+    it('should use the lower bound of ranges', () => {
+      const [duration] = findDurations('Roast 10-15 mins, turning once.')
+      expect(duration).toMatchObject({ text: '10-15 mins', seconds: 600 })
+    })
+
+    it('should combine hours and minutes into one timer', () => {
+      const durations = findDurations('Braise 1 hour and 30 minutes.')
+      expect(durations).toHaveLength(1)
+      expect(durations[0]).toMatchObject({ text: '1 hour and 30 minutes', seconds: 5400 })
+    })
+
+    it('should understand number words', () => {
+      expect(findDurations('Let it cool for a minute, then two hours in the fridge.').map(d => d.seconds)).toEqual([60, 7200])
+    })
+
+    it('should ignore numbers without a time unit', () => {
+      expect(findDurations('Preheat the oven to 200 degrees and use 2 pans.')).toEqual([])
+    })
+  })
+
+  describe('splitStepText', () => {
+    it('should split text around durations', () => {
+      const segments = splitStepText('Bake 25 minutes.')
+      expect(segments.map(segment => [segment.type, segment.content])).toEqual([
+        ['text', 'Bake '],
+        ['duration', '25 minutes'],
+        ['text', '.']
+      ])
+    })
+  })
+
+  describe('findStepIngredients', () => {
+    const ingredients = ['2 cloves garlic, minced', '1 cup all-purpose flour', '3 large eggs', 'Salt and pepper', '2 tomatoes (chopped)', '*For serving', '1 cup fresh berries']
+
+    it('should find ingredients mentioned in a step', () => {
+      expect(findStepIngredients('Whisk the egg into the flour.', ingredients)).toEqual([1, 2])
+      expect(findStepIngredients('Add the garlic and tomato, season with salt.', ingredients)).toEqual([0, 3, 4])
+      expect(findStepIngredients('Top with a berry.', ingredients)).toEqual([6])
+    })
+
+    it('should not match headers or words inside other words', () => {
+      expect(findStepIngredients('Serve on peppery greens.', ingredients)).toEqual([])
+    })
+  })
+
+  describe('parseVoiceCommand', () => {
+    it('should map phrases to commands', () => {
+      expect(parseVoiceCommand('Next step')).toBe('next')
+      expect(parseVoiceCommand('go back')).toBe('previous')
+      expect(parseVoiceCommand('repeat that')).toBe('repeat')
+      expect(parseVoiceCommand('start the timer')).toBe('timer')
+      expect(parseVoiceCommand('show ingredients')).toBe('ingredients')
+      expect(parseVoiceCommand('what is the weather')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { canManageMember, getAssignableRoles } from '../utils/householdRoles'
+
+describe('canManageMember', () => {
+  it('should let the owner manage everyone else', () => {
+    expect(canManageMember('owner', 'admin')).toBe(true)
+    expect(canManageMember('owner', 'viewer')).toBe(true)
+    expect(canManageMember('owner', 'owner')).toBe(false)
+  })
+
+  it('should let admins manage only members and viewers', () => {
+    expect(canManageMember('admin', 'member')).toBe(true)
+    expect(canManageMember('admin', 'admin')).toBe(false)
+  })
+
+  it('should not let members or viewers manage anyone', () => {
+    expect(canManageMember('member', 'viewer')).toBe(false)
+    expect(canManageMember(undefined, 'viewer')).toBe(false)
+  })
+})
+
+describe('getAssignableRoles', () => {
+  it('should never offer ownership', () => {
+    expect(getAssignableRoles('owner')).toEqual(['admin', 'member', 'viewer'])
+    expect(getAssignableRoles('admin')).toEqual(['member', 'viewer'])
+    expect(getAssignableRoles('member')).toEqual([])
+  })
+})
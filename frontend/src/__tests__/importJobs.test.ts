@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import type { ImportJob } from '../services/api'
+import { getImportJobLabel, getImportJobStatusText, isImportJobActive } from '../utils/importJobs'
+
+const job = (overrides: Partial<ImportJob>): ImportJob => ({
+  id: 'job-1',
+  type: 'url',
+  input: { url: 'https://www.example.com/recipes/soup' },
+  status: 'pending',
+  attempts: 0,
+  maxAttempts: 3,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('importJobs', () => {
+  it('should treat queued and running imports as active', () => {
+    expect(isImportJobActive(job({ status: 'pending' }))).toBe(true)
+    expect(isImportJobActive(job({ status: 'running' }))).toBe(true)
+    expect(isImportJobActive(job({ status: 'completed' }))).toBe(false)
+    expect(isImportJobActive(job({ status: 'failed' }))).toBe(false)
+  })
+
+  it('should label imports by site, first line of text or file name', () => {
+    expect(getImportJobLabel(job({}))).toBe('example.com')
+    expect(getImportJobLabel(job({ type: 'text', input: { text: '\nTomato Soup\n2 tomatoes' } }))).toBe('Tomato Soup')
+    expect(getImportJobLabel(job({ type: 'image', input: { filename: 'card.jpg' } }))).toBe('card.jpg')
+  })
+
+  it('should label finished imports by recipe name', () => {
+    const completed = job({
+      status: 'completed',
+      result: { recipeData: { name: 'Tomato Soup', description: '', ingredients: [], instructions: [] }, duplicates: [] }
+    })
+    expect(getImportJobLabel(completed)).toBe('Tomato Soup')
+  })
+
+  it('should count down to the next retry', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z').getTime()
+    const retrying = job({ attempts: 1, nextAttemptAt: '2026-01-01T00:02:00.000Z' })
+
+    expect(getImportJobStatusText(retrying, now)).toBe('Failed, retrying in 2 min')
+    expect(getImportJobStatusText(job({}), now)).toBe('Queued')
+    expect(getImportJobStatusText(job({ status: 'running', attempts: 2 }), now)).toBe('Importing (attempt 2 of 3)…')
+    expect(getImportJobStatusText(job({ status: 'failed', error: 'Recipe not found' }), now)).toBe('Recipe not found')
+  })
+})
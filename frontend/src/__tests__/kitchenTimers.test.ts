@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createTimer,
+  getRemainingSeconds,
+  pauseTimer,
+  resumeTimer,
+  expireTimers,
+  sortTimers,
+  formatTimer
+} from '../utils/kitchenTimers'
+
+describe('kitchenTimers', () => {
+  const start = 1_700_000_000_000
+
+  it('should create running timers linked to a recipe step', () => {
+    const timer = createTimer({ label: 'Bake', seconds: 1500, recipeId: 'r1', recipeName: 'Bread', stepNumber: 3 }, start)
+    expect(timer).toMatchObject({ label: 'Bake', recipeId: 'r1', stepNumber: 3, durationSeconds: 1500, endsAt: start + 1_500_000, finished: false })
+    expect(getRemainingSeconds(timer, start + 60_000)).toBe(1440)
+  })
+
+  it('should fall back to a default label', () => {
+    expect(createTimer({ label: '  ', seconds: 60 }, start).label).toBe('Timer')
+  })
+
+  it('should keep the remaining time while paused', () => {
+    const timer = createTimer({ label: 'Rest', seconds: 600 }, start)
+    const paused = pauseTimer(timer, start + 100_000)
+    expect(paused.endsAt).toBeNull()
+    expect(getRemainingSeconds(paused, start + 400_000)).toBe(500)
+
+    const resumed = resumeTimer(paused, start + 400_000)
+    expect(resumed.endsAt).toBe(start + 900_000)
+  })
+
+  it('should expire timers whose end time has passed', () => {
+    const short = createTimer({ label: 'Eggs', seconds: 60 }, start)
+    const long = createTimer({ label: 'Stock', seconds: 3600 }, start)
+
+    const { timers, expired } = expireTimers([short, long], start + 61_000)
+    expect(expired.map(timer => timer.label)).toEqual(['Eggs'])
+    expect(timers[0].finished).toBe(true)
+    expect(timers[1]).toBe(long)
+
+    const again = expireTimers(timers, start + 62_000)
+    expect(again.expired).toEqual([])
+    expect(again.timers).toBe(timers)
+  })
+
+  it('should not expire paused timers', () => {
+    const paused = pauseTimer(createTimer({ label: 'Proof', seconds: 60 }, start), start + 10_000)
+    expect(expireTimers([paused], start + 120_000).expired).toEqual([])
+  })
+
+  it('should list finished timers first, then by time left', () => {
+    const a = createTimer({ label: 'A', seconds: 600 }, start)
+    const b = createTimer({ label: 'B', seconds: 120 }, start)
+    const c = { ...createTimer({ label: 'C', seconds: 30 }, start), finished: true }
+    expect(sortTimers([a, b, c], start).map(timer => timer.label)).toEqual(['C', 'B', 'A'])
+  })
+
+  it('should format minutes and hours', () => {
+    expect(formatTimer(65)).toBe('1:05')
+    expect(formatTimer(5400)).toBe('1:30:00')
+    expect(formatTimer(-3)).toBe('0:00')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { toDateKey, addDays, getWeekStart, getWeekDays } from '../utils/mealPlanDates'
+
+describe('mealPlanDates', () => {
+  it('should format local dates as keys', () => {
+    expect(toDateKey(new Date(2024, 2, 4))).toBe('2024-03-04')
+  })
+
+  it('should add days across month boundaries', () => {
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01')
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+  })
+
+  it('should start weeks on Monday', () => {
+    expect(getWeekStart('2024-03-06')).toBe('2024-03-04')
+    expect(getWeekStart('2024-03-10')).toBe('2024-03-04')
+    expect(getWeekStart('2024-03-04')).toBe('2024-03-04')
+  })
+
+  it('should list the seven days of a week', () => {
+    const days = getWeekDays('2024-03-04')
+    expect(days).toHaveLength(7)
+    expect(days[0]).toBe('2024-03-04')
+    expect(days[6]).toBe('2024-03-10')
+  })
+})
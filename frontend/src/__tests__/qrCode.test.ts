@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { encodeQrCode } from '../utils/qrCode'
+
+const rows = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''))
+
+// Reference symbols from the python-qrcode encoder (byte mode, level M, no quiet zone)
+const VERSION_1_HELLO = [
+  '#######..##...#######',
+  '#.....#.##....#.....#',
+  '#.###.#..#.##.#.###.#',
+  '#.###.#...##..#.###.#',
+  '#.###.#.##..#.#.###.#',
+  '#.....#.....#.#.....#',
+  '#######.#.#.#.#######',
+  '..........###........',
+  '#.#.#.#..#.#....#..#.',
+  '..#.##....#...#....##',
+  '.#.#..#.###.#...#####',
+  '##..#.........#....#.',
+  '.##.#.##..#.#.#.#....',
+  '........####.#.#..###',
+  '#######...##.###..###',
+  '#.....#...####.##....',
+  '#.###.#.#.##.###...##',
+  '#.###.#..#....##..##.',
+  '#.###.#.###.#...#.#.#',
+  '#.....#..#....#.#..#.',
+  '#######.###.#.##...##'
+]
+
+const VERSION_4_INVITE_LINK = [
+  '#######.#.#..#....####.#..#######',
+  '#.....#.#..#..#.....####..#.....#',
+  '#.###.#..#.###.#..#.#.....#.###.#',
+  '#.###.#.#######....#..#...#.###.#',
+  '#.###.#..#..###.##.#..###.#.###.#',
+  '#.....#....#..#....#....#.#.....#',
+  '#######.#.#.#.#.#.#.#.#.#.#######',
+  '........##..#...###...###........',
+  '#.##.###..#####.####.#.##.#..#.##',
+  '#...#....#...#..#..#.###..##.###.',
+  '#.##########.##.###.#..#######.##',
+  '###..#.##.####..#.....#..#.#.#..#',
+  '#.###.#.###.....###.#..##....#...',
+  '#.#.#..#...##.#######.#.#..#..##.',
+  '#.##..##.#..#.#....#.##...#..##..',
+  '#.##.#...#..#.##..####.######.#..',
+  '..##.###....###...##.###.##.#.#..',
+  '###.##..#..#.###..#.#####.#.##..#',
+  '#.########.##.####..##...####.#..',
+  '#.####...###..#####......##.#...#',
+  '##.##.###.######.###.#..#..#.####',
+  '##.#.#.##.#.###...#.##.####.....#',
+  '...#..##.##.###.##..#.##..##...##',
+  '.#.#.#.....#.####.......###.##.##',
+  '#.#.###.###..#.#.##...#######..##',
+  '........#...#..###.#...##...##.#.',
+  '#######.#.##.##.#.##..###.#.#....',
+  '#.....#.#.##..#......####...#####',
+  '#.###.#..##..#.####.#.#######.#..',
+  '#.###.#.#.#..###.##.#..#...#.#..#',
+  '#.###.#.###.##.#.#..##.##.##.....',
+  '#.....#...#..#.#.##.#.##.####...#',
+  '#######.###.#...###.##.#.##.##...'
+]
+
+const VERSION_7_MASK_5 = [
+  '#######...#####.....##....###.####..#.#######',
+  '#.....#.#.....#.#......####.##..#..#..#.....#',
+  '#.###.#.###.#..#..#.#...#...#..###.#..#.###.#',
+  '#.###.#.#.#.##..####.#...####.####.##.#.###.#',
+  '#.###.#....##..###.######..#.##...###.#.###.#',
+  '#.....#....#...#.#..#...##..##..##....#.....#',
+  '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+  '........#.#....#....#...#.###..##.#..........',
+  '#.....#.#.####.#.#..#####.....##.#.#.##..###.',
+  '..###...###..#....#....####.###.#######.#..#.',
+  '.#....##...##......#.#..######..#.#.#####.##.',
+  '#####....#.....#..#..#.##.#....##.#...#####..',
+  '#...#.###.#.#.#.#.#.#..####..##.###..##.#..#.',
+  '...........#.##..#...###.#..###..#.###.....##',
+  '###.####.#..#.#....########.##..#.#.#####.##.',
+  '.....#...#.#..#.#.####..#..#...#.......#.##.#',
+  '###.###..#.##.#.###..#........##.#.#.....#..#',
+  '.#..#....###.##.##..#.##.#...##..#.###.....##',
+  '#....##.#######..#...##.#..#...#...##..#.##.#',
+  '.....#.#.###..#.#.##.#..#####..##.#...#####..',
+  '#.########...#.####.#####.#...##.#.#######..#',
+  '....#...##.##....#..#...##..###.#####...#..#.',
+  '.#.##.#.##...#....#.#.#.#..###..#.###.#.#.##.',
+  '.#..#...#.#..########...#.###..##.#.#...###..',
+  '#..######..#####.##.#######.###.#########..#.',
+  '..#....#....##..#######..#...##..#..#..#...##',
+  '.#.##.#.######.......###.#####..#.##.#.#..##.',
+  '.##.......#..#.#....#.###...#..#...#.#...##..',
+  '##.#.##.##......#..#....#..#..##.#..#.#.##.##',
+  '........#.####.##...###..#...##..#..#..#...##',
+  '.#...##.#..#...##.#.##.##..#...#......#####.#',
+  '.##.#...#...#####.###..#..###..##.##.##.###..',
+  '..#.###.###....#..###.........##.#..#.#.##..#',
+  '.##..#.....###.#.#.#.#.#.##.###.###.#.###..#.',
+  '....#.##..#....####..#.#.#####..#.##.#.#..##.',
+  '.####...#...#.#.#.#..#.##..##..##.##.##.###..',
+  '#..##.#..#.#.##.###.#####.#.###.#########..#.',
+  '........#.##.##..#.##...#....##..#..#...#..##',
+  '#######..#..#.##..###.#.##.###..#.#.#.#.#.##.',
+  '#.....#..##.#.##..###...#..#...#....#...###.#',
+  '#.###.#...#.#.#...#.#####.....##.#.#######..#',
+  '#.###.#...##.....#......##...##..#.#..###...#',
+  '#.###.#......#.##..#..##...#...#....###.###.#',
+  '#.....#..#..#..##..##.##..###..##.#.##...##..',
+  '#######.###.#.#.##.#.#.##.....##.#...#####.#.'
+]
+
+describe('encodeQrCode', () => {
+  it('should pick the smallest version that fits the text', () => {
+    expect(encodeQrCode('a').size).toBe(21)
+    expect(encodeQrCode('x'.repeat(14)).size).toBe(21)
+    expect(encodeQrCode('x'.repeat(15)).size).toBe(25)
+    expect(encodeQrCode(`https://recipereaper.app/join/${'a'.repeat(43)}`).size).toBe(37)
+  })
+
+  it('should draw the finder and timing patterns', () => {
+    const { size, modules } = encodeQrCode('https://recipereaper.app')
+    const finder = ['#######', '#.....#', '#.###.#', '#.###.#', '#.###.#', '#.....#', '#######']
+
+    expect(rows(modules.slice(0, 7).map(row => row.slice(0, 7)))).toEqual(finder)
+    expect(rows(modules.slice(0, 7).map(row => row.slice(size - 7)))).toEqual(finder)
+    expect(rows(modules.slice(size - 7).map(row => row.slice(0, 7)))).toEqual(finder)
+    expect(rows([modules[6].slice(8, size - 8)])[0]).toMatch(/^#(\.#)+$/)
+  })
+
+  it('should record level M and the chosen mask in the format bits', () => {
+    for (let mask = 0; mask < 8; mask++) {
+      const { modules } = encodeQrCode('hello', mask)
+      const bits = [0, 1, 2, 3, 4].map(x => modules[8][x]).map(dark => (dark ? 1 : 0))
+      // Unmasked: two bits for level M (00) then the three mask bits
+      const format = bits.reduce<number>((value, bit) => (value << 1) | bit, 0) ^ 0b10101
+      expect(format).toBe(mask)
+    }
+  })
+
+  it('should place the version information from version 7 up', () => {
+    const { size, modules } = encodeQrCode('v'.repeat(110))
+    expect(size).toBe(45)
+    // Version 7 is encoded as 000111 110010 010100, least significant bit first in each column
+    const bits = [0, 1, 2, 3, 4, 5].flatMap(y => [0, 1, 2].map(i => (modules[y][size - 11 + i] ? 1 : 0)))
+    expect(bits.reverse().join('')).toBe('000111110010010100')
+  })
+
+  it('should match a reference encoder module for module', () => {
+    expect(rows(encodeQrCode('hello').modules)).toEqual(VERSION_1_HELLO)
+    expect(rows(encodeQrCode('https://recipereaper.app/join/Kx3_9fQzT-vL2mWp8aYbN4cD7eRs1uHj').modules)).toEqual(VERSION_4_INVITE_LINK)
+    expect(rows(encodeQrCode('x'.repeat(110), 5).modules)).toEqual(VERSION_7_MASK_5)
+  })
+
+  it('should reject text that does not fit in version 10', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text is too long for a QR code')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { ApiError } from '../services/api'
+import type { Recipe, CreateRecipeData } from '../services/api'
+import { getDuplicatesFromError, mergeImportedRecipe } from '../utils/recipeDuplicates'
+
+const existing = {
+  id: 'recipe-1',
+  name: 'Grandma\'s Pancakes',
+  description: '',
+  prepTimeMinutes: 10,
+  servings: 2,
+  ingredients: ['1 cup flour'],
+  instructions: ['Mix'],
+  image: '/uploads/pancakes.jpg',
+  tags: ['Breakfast'],
+  isPublic: false,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+} as Recipe
+
+const imported: CreateRecipeData = {
+  name: 'Fluffy Pancakes',
+  description: 'Light and fluffy.',
+  ingredients: ['2 cups flour', '2 eggs'],
+  instructions: ['Whisk', 'Fry'],
+  servings: 4,
+  image: '/uploads/other.jpg',
+  sourceUrl: 'https://example.com/pancakes',
+  tags: ['breakfast', 'Quick']
+}
+
+describe('recipeDuplicates', () => {
+  it('should read duplicates from a 409 response only', () => {
+    const duplicates = [{ id: 'recipe-1', name: 'Pancakes', matchedBy: 'content', similarity: 0.8 }]
+    expect(getDuplicatesFromError(new ApiError('Duplicate', 409, { duplicates }))).toEqual(duplicates)
+    expect(getDuplicatesFromError(new ApiError('Duplicate', 409, { duplicates: [] }))).toBeNull()
+    expect(getDuplicatesFromError(new ApiError('Bad request', 400, { duplicates }))).toBeNull()
+    expect(getDuplicatesFromError(new Error('Offline'))).toBeNull()
+  })
+
+  it('should take the imported content while keeping the existing name and image', () => {
+    expect(mergeImportedRecipe(existing, imported)).toEqual({
+      ingredients: ['2 cups flour', '2 eggs'],
+      instructions: ['Whisk', 'Fry'],
+      servings: 4,
+      tags: ['Breakfast', 'Quick'],
+      description: 'Light and fluffy.',
+      sourceUrl: 'https://example.com/pancakes'
+    })
+  })
+
+  it('should fill in a missing image', () => {
+    const merged = mergeImportedRecipe({ ...existing, image: undefined, description: 'Old family recipe' }, imported)
+    expect(merged.image).toBe('/uploads/other.jpg')
+    expect(merged.description).toBeUndefined()
+  })
+})
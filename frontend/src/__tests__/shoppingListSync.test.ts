@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import type { ShoppingListItem } from '../services/api'
+import { applyShoppingListChange, mergeShoppingListItems, reconcileShoppingList } from '../utils/shoppingListSync'
+
+const makeItem = (id: string, overrides: Partial<ShoppingListItem> = {}): ShoppingListItem => ({
+  id,
+  userId: 'user-1',
+  householdId: 'household-1',
+  ingredient: id,
+  isCompleted: false,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  ...overrides
+})
+
+describe('mergeShoppingListItems', () => {
+  it('should put new items first and replace existing ones in place', () => {
+    const items = [makeItem('milk'), makeItem('eggs')]
+    const merged = mergeShoppingListItems(items, [makeItem('eggs', { quantity: '12' }), makeItem('bread')])
+
+    expect(merged.map(item => item.id)).toEqual(['bread', 'milk', 'eggs'])
+    expect(merged[2].quantity).toBe('12')
+  })
+})
+
+describe('applyShoppingListChange', () => {
+  it('should show check-offs made by someone else', () => {
+    const items = [makeItem('milk')]
+    const checked = makeItem('milk', { isCompleted: true, updatedAt: '2026-03-01T10:01:00.000Z' })
+
+    expect(applyShoppingListChange(items, { type: 'items_changed', items: [checked] })[0].isCompleted).toBe(true)
+  })
+
+  it('should ignore changes older than the copy already shown', () => {
+    const items = [makeItem('milk', { isCompleted: true, updatedAt: '2026-03-01T10:02:00.000Z' })]
+    const stale = makeItem('milk', { isCompleted: false, updatedAt: '2026-03-01T10:01:00.000Z' })
+
+    expect(applyShoppingListChange(items, { type: 'items_changed', items: [stale] })[0].isCompleted).toBe(true)
+  })
+
+  it('should leave items with a request in flight to that request', () => {
+    const items = [makeItem('milk', { isCompleted: true })]
+    const remote = makeItem('milk', { isCompleted: false, updatedAt: '2026-03-01T10:05:00.000Z' })
+
+    const result = applyShoppingListChange(items, { type: 'items_changed', items: [remote] }, new Set(['milk']))
+    expect(result[0].isCompleted).toBe(true)
+  })
+
+  it('should remove deleted items and keep the list as is when none were shown', () => {
+    const items = [makeItem('milk'), makeItem('eggs')]
+
+    expect(applyShoppingListChange(items, { type: 'items_deleted', ids: ['milk'] }).map(item => item.id)).toEqual(['eggs'])
+    expect(applyShoppingListChange(items, { type: 'items_deleted', ids: ['bread'] })).toBe(items)
+  })
+})
+
+describe('reconcileShoppingList', () => {
+  it('should take the server copy but keep items with a request in flight as shown', () => {
+    const items = [makeItem('milk', { isCompleted: true }), makeItem('eggs')]
+    const serverItems = [makeItem('bread'), makeItem('milk'), makeItem('eggs', { isCompleted: true })]
+
+    const result = reconcileShoppingList(items, serverItems, new Set(['milk']))
+    expect(result.map(item => [item.id, item.isCompleted])).toEqual([['bread', false], ['milk', true], ['eggs', true]])
+  })
+
+  it('should not bring back an item whose deletion is in flight', () => {
+    const result = reconcileShoppingList([], [makeItem('milk')], new Set(['milk']))
+    expect(result).toEqual([])
+  })
+})
@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef } from 'react'
+import type { FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { RectangleStackIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { apiService, Collection } from '../services/api'
+import { VisibilityIcon } from './CollectionForm'
+
+interface AddToCollectionMenuProps {
+  recipeId: string
+}
+
+/**
+ * Button and dropdown to put a recipe into the user's collections, or start a new one with it
+ */
+export default function AddToCollectionMenu({ recipeId }: AddToCollectionMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [collections, setCollections] = useState<Collection[] | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setError(null)
+    apiService.getCollections(recipeId)
+      .then(setCollections)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load collections'))
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false)
+      }
+    }
+
+    window.addEventListener('mousedown', handleClickOutside)
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('mousedown', handleClickOutside)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [isOpen, recipeId])
+
+  const handleToggle = async (collection: Collection) => {
+    setPendingId(collection.id)
+    setError(null)
+    try {
+      if (collection.containsRecipe) {
+        await apiService.removeRecipeFromCollection(collection.id, recipeId)
+      } else {
+        await apiService.addRecipeToCollection(collection.id, recipeId)
+      }
+      setCollections(prev => prev?.map(item =>
+        item.id === collection.id ? { ...item, containsRecipe: !collection.containsRecipe } : item
+      ) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update collection')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+
+    setPendingId('new')
+    setError(null)
+    try {
+      const collection = await apiService.createCollection({ name: newName.trim() })
+      await apiService.addRecipeToCollection(collection.id, recipeId)
+      setCollections(prev => [{ ...collection, containsRecipe: true, recipeCount: 1 }, ...(prev ?? [])])
+      setNewName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create collection')
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-3 rounded-full bg-white/0 dark:bg-transparent hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        aria-label="Add to collection"
+        aria-expanded={isOpen}
+      >
+        <RectangleStackIcon className="w-5 h-5 text-gray-600 dark:text-gray-300" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-2 w-72 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 shadow-lg">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">Save to collection</span>
+            <Link to="/collections" className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+              All collections
+            </Link>
+          </div>
+
+          {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {collections === null && !error && (
+            <p className="py-2 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          )}
+
+          {collections?.length === 0 && (
+            <p className="py-2 text-sm text-gray-500 dark:text-gray-400">You have no collections yet.</p>
+          )}
+
+          {collections && collections.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto">
+              {collections.map(collection => (
+                <li key={collection.id}>
+                  <label className="flex cursor-pointer items-center gap-2 rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(collection.containsRecipe)}
+                      disabled={pendingId !== null}
+                      onChange={() => handleToggle(collection)}
+                      className="rounded border-gray-300 text-blue-600"
+                    />
+                    <span className="flex-1 truncate text-gray-900 dark:text-white">{collection.name}</span>
+                    <VisibilityIcon visibility={collection.visibility} className="w-4 h-4 text-gray-400" />
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="mt-2 flex gap-2 border-t border-gray-100 dark:border-gray-700 pt-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              placeholder="New collection"
+              maxLength={100}
+              className="min-w-0 flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm text-gray-900 dark:text-white"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim() || pendingId !== null}
+              className="p-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+              aria-label="Create collection with this recipe"
+            >
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
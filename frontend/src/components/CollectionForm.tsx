@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { CameraIcon, LockClosedIcon, HomeIcon, GlobeAltIcon } from '@heroicons/react/24/outline'
+import { apiService, Collection, CollectionInput, CollectionVisibility } from '../services/api'
+import { COLLECTION_VISIBILITY_OPTIONS } from '../utils/collections'
+
+const VISIBILITY_ICONS: Record<CollectionVisibility, typeof LockClosedIcon> = {
+  private: LockClosedIcon,
+  shared: HomeIcon,
+  public: GlobeAltIcon
+}
+
+export function VisibilityIcon({ visibility, className }: { visibility: CollectionVisibility; className?: string }) {
+  const Icon = VISIBILITY_ICONS[visibility]
+  return <Icon className={className} />
+}
+
+interface CollectionFormProps {
+  initial?: Collection
+  canChangeVisibility?: boolean
+  isSaving: boolean
+  onSubmit: (values: CollectionInput & { name: string }) => void
+  onCancel: () => void
+}
+
+/**
+ * Name, description, cover image and visibility of a collection
+ */
+export default function CollectionForm({ initial, canChangeVisibility = true, isSaving, onSubmit, onCancel }: CollectionFormProps) {
+  const [name, setName] = useState(initial?.name ?? '')
+  const [description, setDescription] = useState(initial?.description ?? '')
+  const [coverImage, setCoverImage] = useState<string | null>(initial?.coverImage ?? null)
+  const [visibility, setVisibility] = useState<CollectionVisibility>(initial?.visibility ?? 'private')
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  const handleCoverSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      setIsUploading(true)
+      setUploadError(null)
+      const response = await apiService.uploadImage(file)
+      setCoverImage(response.imageSizes?.large.url || response.imageUrl)
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload image')
+    } finally {
+      setIsUploading(false)
+      event.target.value = ''
+    }
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || null,
+      coverImage,
+      ...(canChangeVisibility && { visibility })
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+      <div>
+        <label htmlFor="collection-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Name
+        </label>
+        <input
+          id="collection-name"
+          type="text"
+          value={name}
+          onChange={event => setName(event.target.value)}
+          placeholder="Christmas 2026, Kids' lunches..."
+          maxLength={100}
+          required
+          autoFocus
+          className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="collection-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Description
+        </label>
+        <textarea
+          id="collection-description"
+          value={description}
+          onChange={event => setDescription(event.target.value)}
+          rows={3}
+          maxLength={2000}
+          className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white"
+        />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Cover image</span>
+        <div className="flex flex-wrap items-center gap-3">
+          {coverImage && (
+            <img
+              src={apiService.constructImageUrl(coverImage)}
+              alt="Collection cover"
+              className="h-16 w-24 rounded-lg object-cover"
+            />
+          )}
+          <label className="inline-flex cursor-pointer items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+            <CameraIcon className="w-5 h-5" />
+            {isUploading ? 'Uploading...' : coverImage ? 'Replace image' : 'Upload image'}
+            <input type="file" accept="image/*" className="sr-only" onChange={handleCoverSelect} disabled={isUploading} />
+          </label>
+          {coverImage && (
+            <button
+              type="button"
+              onClick={() => setCoverImage(null)}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        {!coverImage && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Without a cover, the first recipe's photo is used.</p>
+        )}
+        {uploadError && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
+      </div>
+
+      {canChangeVisibility && (
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Who can see it</legend>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {COLLECTION_VISIBILITY_OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex cursor-pointer items-start gap-2 rounded-lg border p-3 text-sm ${
+                  visibility === option.id
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="collection-visibility"
+                  value={option.id}
+                  checked={visibility === option.id}
+                  onChange={() => setVisibility(option.id)}
+                  className="sr-only"
+                />
+                <VisibilityIcon visibility={option.id} className="w-5 h-5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                <span>
+                  <span className="block font-medium text-gray-900 dark:text-white">{option.label}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || isUploading || !name.trim()}
+          className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : initial ? 'Save' : 'Create collection'}
+        </button>
+      </div>
+    </form>
+  )
+}
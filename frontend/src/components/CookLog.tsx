@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react'
+import type { FormEvent } from 'react'
+import { StarIcon, CameraIcon, PencilIcon, TrashIcon, FireIcon } from '@heroicons/react/24/outline'
+import { apiService, RecipeCook, RecipeCookStats } from '../services/api'
+import { toDateKey } from '../utils/mealPlanDates'
+import AlertBanner from './AlertBanner'
+
+interface CookLogProps {
+  recipeId: string
+  currentUserId: string
+  onStatsChange: (stats: RecipeCookStats | undefined) => void
+}
+
+interface StarRatingProps {
+  value: number | null
+  onChange?: (value: number | null) => void
+  size?: 'sm' | 'md'
+}
+
+export function StarRating({ value, onChange, size = 'sm' }: StarRatingProps) {
+  const sizeClass = size === 'sm' ? 'w-4 h-4' : 'w-7 h-7'
+
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map(star => {
+        const filled = value !== null && star <= Math.round(value)
+        const icon = (
+          <StarIcon className={`${sizeClass} ${filled ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300 dark:text-gray-600'}`} />
+        )
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(value === star ? null : star)}
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+            aria-pressed={value === star}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </span>
+  )
+}
+
+// Today keeps the current time so same-day cooks stay in order; earlier days are logged at noon
+function toCookedAt(dateKey: string): string {
+  return dateKey === toDateKey(new Date()) ? new Date().toISOString() : new Date(`${dateKey}T12:00:00`).toISOString()
+}
+
+interface CookFormProps {
+  initial?: RecipeCook
+  isSaving: boolean
+  onSubmit: (values: { cookedAt: string; rating: number | null; notes: string; photo?: File; removeImage?: boolean }) => void
+  onCancel: () => void
+}
+
+function CookForm({ initial, isSaving, onSubmit, onCancel }: CookFormProps) {
+  const [date, setDate] = useState(initial ? toDateKey(new Date(initial.cookedAt)) : toDateKey(new Date()))
+  const [rating, setRating] = useState<number | null>(initial?.rating ?? null)
+  const [notes, setNotes] = useState(initial?.notes ?? '')
+  const [photo, setPhoto] = useState<File | undefined>()
+  const [removeImage, setRemoveImage] = useState(false)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const unchangedDate = initial && date === toDateKey(new Date(initial.cookedAt))
+    onSubmit({
+      cookedAt: unchangedDate ? initial.cookedAt : toCookedAt(date),
+      rating,
+      notes,
+      photo,
+      removeImage: removeImage && !photo
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Cooked on
+          <input
+            type="date"
+            value={date}
+            max={toDateKey(new Date())}
+            onChange={event => setDate(event.target.value)}
+            required
+            className="ml-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm"
+          />
+        </label>
+        <StarRating value={rating} onChange={setRating} size="md" />
+      </div>
+
+      <textarea
+        value={notes}
+        onChange={event => setNotes(event.target.value)}
+        placeholder="How did it turn out? Anything to change next time?"
+        rows={3}
+        maxLength={5000}
+        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3 text-sm">
+          <label className="inline-flex cursor-pointer items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white">
+            <CameraIcon className="w-5 h-5" />
+            {photo ? photo.name : initial?.image ? 'Replace photo' : 'Add photo'}
+            <input
+              type="file"
+              accept="image/*"
+              className="sr-only"
+              onChange={event => setPhoto(event.target.files?.[0])}
+            />
+          </label>
+          {initial?.image && !photo && (
+            <label className="inline-flex items-center gap-1 text-gray-600 dark:text-gray-400">
+              <input type="checkbox" checked={removeImage} onChange={event => setRemoveImage(event.target.checked)} />
+              Remove photo
+            </label>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Who cooked this recipe and how it went, for the user and their household
+ */
+export default function CookLog({ recipeId, currentUserId, onStatsChange }: CookLogProps) {
+  const [cooks, setCooks] = useState<RecipeCook[] | null>(null)
+  const [stats, setStats] = useState<RecipeCookStats | undefined>()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCooks = async () => {
+    try {
+      const response = await apiService.getRecipeCooks(recipeId)
+      setCooks(response.cooks)
+      setStats(response.stats)
+      onStatsChange(response.stats)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cook log')
+    }
+  }
+
+  useEffect(() => {
+    loadCooks()
+  }, [recipeId])
+
+  const handleSubmit: CookFormProps['onSubmit'] = async values => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (editingId === 'new') {
+        await apiService.logRecipeCook(recipeId, values)
+      } else if (editingId) {
+        await apiService.updateRecipeCook(recipeId, editingId, values)
+      }
+      setEditingId(null)
+      await loadCooks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (cook: RecipeCook) => {
+    if (!confirm('Delete this cook log entry?')) return
+
+    setError(null)
+    try {
+      await apiService.deleteRecipeCook(recipeId, cook.id)
+      await loadCooks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="flex items-center gap-3 text-xl font-semibold text-gray-900 dark:text-white">
+            <FireIcon className="w-6 h-6 text-gray-500 dark:text-gray-400" />
+            Cook Log
+          </h2>
+          {stats && stats.timesCooked > 0 && (
+            <p className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              {stats.averageRating !== undefined && (
+                <>
+                  <StarRating value={stats.averageRating} />
+                  <span>{stats.averageRating.toFixed(1)} ({stats.ratingCount})</span>
+                  <span>·</span>
+                </>
+              )}
+              <span>Cooked {stats.timesCooked} {stats.timesCooked === 1 ? 'time' : 'times'}</span>
+              {stats.lastCookedAt && <span>· last on {new Date(stats.lastCookedAt).toLocaleDateString()}</span>}
+            </p>
+          )}
+        </div>
+        {editingId !== 'new' && (
+          <button
+            onClick={() => setEditingId('new')}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            I made this
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {error && (
+          <AlertBanner variant="error" description={error} onDismiss={() => setError(null)} isCompact />
+        )}
+
+        {editingId === 'new' && (
+          <CookForm isSaving={isSaving} onSubmit={handleSubmit} onCancel={() => setEditingId(null)} />
+        )}
+
+        {cooks === null && !error && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading cook log...</p>
+        )}
+
+        {cooks?.length === 0 && editingId !== 'new' && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Nobody in your household has logged this recipe yet.</p>
+        )}
+
+        {cooks?.map(cook =>
+          editingId === cook.id ? (
+            <CookForm
+              key={cook.id}
+              initial={cook}
+              isSaving={isSaving}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <div key={cook.id} className="flex gap-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              {cook.image && (
+                <a href={cook.image} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                  <img
+                    src={cook.imageSizes?.small.url || cook.image}
+                    alt={`Photo from ${new Date(cook.cookedAt).toLocaleDateString()}`}
+                    className="h-20 w-20 rounded-lg object-cover"
+                    loading="lazy"
+                  />
+                </a>
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {cook.userId === currentUserId ? 'You' : cook.userDisplayName || 'Household member'}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400"> · {new Date(cook.cookedAt).toLocaleDateString()}</span>
+                    {cook.rating && (
+                      <span className="ml-2 align-middle"><StarRating value={cook.rating} /></span>
+                    )}
+                  </div>
+                  {cook.userId === currentUserId && (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => setEditingId(cook.id)}
+                        className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        aria-label="Edit entry"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(cook)}
+                        className="p-1 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                        aria-label="Delete entry"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {cook.notes && (
+                  <p className="mt-1 whitespace-pre-line text-sm text-gray-700 dark:text-gray-300">{cook.notes}</p>
+                )}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
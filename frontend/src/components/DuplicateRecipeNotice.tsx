@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom'
+import { ArrowTopRightOnSquareIcon, ArrowsPointingInIcon } from '@heroicons/react/24/outline'
+import { apiService, RecipeDuplicate } from '../services/api'
+import AlertBanner from './AlertBanner'
+
+interface DuplicateRecipeNoticeProps {
+  duplicates: RecipeDuplicate[]
+  mergingId: string | null
+  isSaving: boolean
+  onMerge: (duplicate: RecipeDuplicate) => void
+  onSaveAnyway: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Warns that a recipe being imported or saved looks like one the user already has, and offers to
+ * open that recipe, merge the new version into it, or save a separate copy
+ */
+export default function DuplicateRecipeNotice({
+  duplicates,
+  mergingId,
+  isSaving,
+  onMerge,
+  onSaveAnyway,
+  onDismiss
+}: DuplicateRecipeNoticeProps) {
+  const isBusy = isSaving || mergingId !== null
+
+  return (
+    <AlertBanner
+      variant="warning"
+      title={duplicates.length === 1 ? 'You may already have this recipe' : 'You may already have these recipes'}
+      onDismiss={onDismiss}
+      description={(
+        <ul className="mt-2 space-y-2">
+          {duplicates.map(duplicate => (
+            <li key={duplicate.id} className="flex flex-wrap items-center gap-3">
+              {duplicate.image ? (
+                <img
+                  src={apiService.constructImageUrl(duplicate.image)}
+                  alt=""
+                  className="h-10 w-10 flex-shrink-0 rounded-lg object-cover"
+                />
+              ) : (
+                <div className="h-10 w-10 flex-shrink-0 rounded-lg bg-amber-100 dark:bg-amber-900/40" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{duplicate.name}</p>
+                <p className="text-xs opacity-80">
+                  {duplicate.matchedBy === 'sourceUrl'
+                    ? 'Imported from the same page'
+                    : `Similar name and ingredients (${Math.round(duplicate.similarity * 100)}% match)`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Link
+                  to={`/recipe/${duplicate.id}`}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                >
+                  <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+                  Open existing
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => onMerge(duplicate)}
+                  disabled={isBusy}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40 disabled:opacity-50"
+                  title="Update the existing recipe with the ingredients and steps from this one"
+                >
+                  <ArrowsPointingInIcon className="w-4 h-4" />
+                  {mergingId === duplicate.id ? 'Merging...' : 'Merge'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      actions={(
+        <button
+          type="button"
+          onClick={onSaveAnyway}
+          disabled={isBusy}
+          className="px-4 py-2 text-sm font-medium rounded-lg bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save anyway'}
+        </button>
+      )}
+    />
+  )
+}
@@ -0,0 +1,38 @@
+const HIGHLIGHT_PATTERN = /<mark>([\s\S]*?)<\/mark>/g
+
+export interface HighlightedTextProps {
+  text: string
+  className?: string
+}
+
+/**
+ * Renders search headlines returned by the API, turning <mark> markers into
+ * highlighted spans. The markup is parsed into text nodes, never injected as HTML.
+ */
+export function HighlightedText({ text, className = '' }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  HIGHLIGHT_PATTERN.lastIndex = 0
+  while ((match = HIGHLIGHT_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push(text.slice(lastIndex, match.index))
+    }
+    parts.push(
+      <mark
+        key={match.index}
+        className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40"
+      >
+        {match[1]}
+      </mark>
+    )
+    lastIndex = match.index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex))
+  }
+
+  return <span className={className}>{parts}</span>
+}
@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  CheckIcon,
+  ClipboardDocumentIcon,
+  LinkIcon,
+  NoSymbolIcon,
+  QrCodeIcon
+} from '@heroicons/react/24/outline'
+import { apiService } from '../services/api'
+import { HouseholdInvitation, HouseholdInvitationStatus, HouseholdRole } from '../types/user'
+import { HOUSEHOLD_ROLE_OPTIONS, getAssignableRoles } from '../utils/householdRoles'
+import AlertBanner from './AlertBanner'
+import QrCode from './QrCode'
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 7 * 24, label: '7 days' },
+  { hours: 30 * 24, label: '30 days' }
+]
+
+// 0 stands for no limit
+const MAX_USES_OPTIONS = [
+  { uses: 1, label: 'Once' },
+  { uses: 5, label: '5 times' },
+  { uses: 10, label: '10 times' },
+  { uses: 0, label: 'No limit' }
+]
+
+const STATUS_STYLES: Record<HouseholdInvitationStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  used_up: { label: 'Used up', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' }
+}
+
+interface HouseholdInvitationsProps {
+  myRole: HouseholdRole
+}
+
+/**
+ * Invite links for the active household: create one (optionally for one email address),
+ * share it as a link or a QR code, and revoke links that are no longer wanted
+ */
+function HouseholdInvitations({ myRole }: HouseholdInvitationsProps) {
+  const assignableRoles = getAssignableRoles(myRole)
+  const [invitations, setInvitations] = useState<HouseholdInvitation[]>([])
+  const [form, setForm] = useState({ expiresInHours: 7 * 24, maxUses: 1, email: '', role: 'member' as HouseholdRole })
+  const [createdLink, setCreatedLink] = useState<string | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      const response = await apiService.getHouseholdInvitations()
+      setInvitations(response.invitations)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invitations')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInvitations()
+  }, [loadInvitations])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+
+    try {
+      const response = await apiService.createHouseholdInvitation({
+        expiresInHours: form.expiresInHours,
+        maxUses: form.maxUses || undefined,
+        email: form.email.trim() || undefined,
+        role: form.role
+      })
+      setCreatedLink(response.url)
+      setLinkCopied(false)
+      setForm(prev => ({ ...prev, email: '' }))
+      await loadInvitations()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invitation')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: HouseholdInvitation) => {
+    if (!confirm('Revoke this invitation? The link will stop working.')) {
+      return
+    }
+
+    setError(null)
+    try {
+      await apiService.revokeHouseholdInvitation(invitation.id)
+      await loadInvitations()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation')
+    }
+  }
+
+  const copyLink = async () => {
+    if (!createdLink) return
+
+    try {
+      await navigator.clipboard.writeText(createdLink)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy invite link:', err)
+    }
+  }
+
+  const selectClassName = 'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white'
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <LinkIcon className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        <h4 className="font-medium text-blue-900 dark:text-blue-100">
+          Invite Links
+        </h4>
+      </div>
+
+      <p className="text-sm text-blue-700 dark:text-blue-300">
+        Invite links expire and can be limited to a number of uses or to one email address. Show the QR code to invite someone in person.
+      </p>
+
+      {error && (
+        <AlertBanner variant="error" description={error} onDismiss={() => setError(null)} isCompact />
+      )}
+
+      <form onSubmit={handleCreate} className="grid gap-3 sm:grid-cols-2">
+        <label className="block text-sm">
+          <span className="block font-medium text-blue-900 dark:text-blue-100 mb-1">Expires after</span>
+          <select
+            value={form.expiresInHours}
+            onChange={(e) => setForm(prev => ({ ...prev, expiresInHours: Number(e.target.value) }))}
+            className={selectClassName}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="block font-medium text-blue-900 dark:text-blue-100 mb-1">Can be used</span>
+          <select
+            value={form.maxUses}
+            onChange={(e) => setForm(prev => ({ ...prev, maxUses: Number(e.target.value) }))}
+            className={selectClassName}
+          >
+            {MAX_USES_OPTIONS.map(option => (
+              <option key={option.uses} value={option.uses}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="block font-medium text-blue-900 dark:text-blue-100 mb-1">Joins as</span>
+          <select
+            value={form.role}
+            onChange={(e) => setForm(prev => ({ ...prev, role: e.target.value as HouseholdRole }))}
+            className={selectClassName}
+          >
+            {HOUSEHOLD_ROLE_OPTIONS.filter(option => assignableRoles.includes(option.id)).map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="block font-medium text-blue-900 dark:text-blue-100 mb-1">Only for email (optional)</span>
+          <input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+            placeholder="name@example.com"
+            className={selectClassName}
+          />
+        </label>
+
+        <div className="sm:col-span-2">
+          <button
+            type="submit"
+            disabled={creating}
+            className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            <QrCodeIcon className="w-4 h-4" />
+            {creating ? 'Creating...' : 'Create Invite Link'}
+          </button>
+        </div>
+      </form>
+
+      {createdLink && (
+        <div className="bg-white dark:bg-blue-900/50 border border-blue-300 dark:border-blue-600 rounded-lg p-3 flex flex-col sm:flex-row gap-4 items-center">
+          <QrCode value={createdLink} size={176} title="QR code for the invite link" className="rounded flex-shrink-0" />
+          <div className="min-w-0 flex-1 space-y-2">
+            <p className="text-sm text-blue-700 dark:text-blue-300">
+              Scan the code or send the link. It is only shown now, so copy it before leaving this page.
+            </p>
+            <code className="block text-xs font-mono text-blue-900 dark:text-blue-100 break-all">
+              {createdLink}
+            </code>
+            <button
+              onClick={copyLink}
+              className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {linkCopied ? (
+                <>
+                  <CheckIcon className="w-4 h-4" />
+                  Copied!
+                </>
+              ) : (
+                <>
+                  <ClipboardDocumentIcon className="w-4 h-4" />
+                  Copy Link
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invitations.length > 0 && (
+        <ul className="divide-y divide-blue-200 dark:divide-blue-800">
+          {invitations.map(invitation => (
+            <li key={invitation.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[invitation.status].className}`}>
+                    {STATUS_STYLES[invitation.status].label}
+                  </span>
+                  <span className="text-blue-900 dark:text-blue-100 truncate">
+                    {invitation.email || 'Anyone with the link'}
+                  </span>
+                </div>
+                <p className="text-xs text-blue-700 dark:text-blue-300 mt-0.5">
+                  {HOUSEHOLD_ROLE_OPTIONS.find(option => option.id === invitation.role)?.label} ·
+                  {' '}Used {invitation.useCount}{invitation.maxUses ? ` of ${invitation.maxUses}` : ''} ·
+                  {' '}{invitation.status === 'expired' ? 'Expired' : 'Expires'} {new Date(invitation.expiresAt).toLocaleString()}
+                </p>
+              </div>
+              {invitation.status === 'active' && (
+                <button
+                  onClick={() => handleRevoke(invitation)}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                  title="Revoke invitation"
+                >
+                  <NoSymbolIcon className="w-4 h-4" />
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default HouseholdInvitations
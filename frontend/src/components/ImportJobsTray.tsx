@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  LinkIcon,
+  DocumentTextIcon,
+  PhotoIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { useImportJobs } from '../contexts/ImportJobsContext'
+import { ImportJob } from '../services/api'
+import { getImportJobLabel, getImportJobStatusText, isImportJobActive } from '../utils/importJobs'
+
+const TYPE_ICONS = {
+  url: LinkIcon,
+  text: DocumentTextIcon,
+  image: PhotoIcon
+}
+
+interface ImportJobRowProps {
+  job: ImportJob
+  now: number
+  onOpen: () => void
+  onDismiss: () => void
+}
+
+function ImportJobRow({ job, now, onOpen, onDismiss }: ImportJobRowProps) {
+  const TypeIcon = TYPE_ICONS[job.type]
+  const isActive = isImportJobActive(job)
+
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${
+        job.status === 'failed'
+          ? 'border-red-300 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-900/30 dark:text-red-200'
+          : 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900'
+      }`}
+    >
+      {job.status === 'running' ? (
+        <ArrowPathIcon className="w-5 h-5 flex-shrink-0 animate-spin text-blue-600" />
+      ) : job.status === 'completed' ? (
+        <CheckCircleIcon className="w-5 h-5 flex-shrink-0 text-green-600" />
+      ) : job.status === 'failed' ? (
+        <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+      ) : (
+        <TypeIcon className="w-5 h-5 flex-shrink-0 text-gray-500" />
+      )}
+      <div className="min-w-0 flex-1 leading-tight">
+        <p className="truncate text-sm font-medium">{getImportJobLabel(job)}</p>
+        <p className={`text-xs ${job.status === 'failed' ? '' : 'text-gray-500 dark:text-gray-400'}`}>
+          {getImportJobStatusText(job, now)}
+        </p>
+      </div>
+      {job.status === 'completed' && (
+        <button
+          onClick={onOpen}
+          className="px-2 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          Open
+        </button>
+      )}
+      {job.status !== 'running' && (
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label={isActive ? 'Cancel import' : 'Dismiss import'}
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Floating tray listing background recipe imports. Finished imports open in the recipe form for review.
+ * Hidden when there are no imports.
+ */
+export default function ImportJobsTray() {
+  const navigate = useNavigate()
+  const { jobs, dismissImport } = useImportJobs()
+  const [isOpen, setIsOpen] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  const activeCount = jobs.filter(isImportJobActive).length
+  const readyCount = jobs.filter(job => job.status === 'completed').length
+
+  // Keep retry countdowns current while the tray is open
+  useEffect(() => {
+    if (!isOpen) return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(interval)
+  }, [isOpen, jobs])
+
+  if (jobs.length === 0) return null
+
+  const handleOpen = (job: ImportJob) => {
+    setIsOpen(false)
+    navigate('/add-recipe', { state: { importJobId: job.id } })
+  }
+
+  const handleDismiss = (job: ImportJob) => {
+    dismissImport(job.id).catch(err => console.error('Failed to dismiss import:', err))
+  }
+
+  return (
+    <div className="fixed bottom-20 left-4 md:bottom-6 z-40 flex flex-col items-start gap-2">
+      {isOpen && (
+        <div className="w-80 max-w-[calc(100vw-2rem)] rounded-xl border border-gray-200 bg-gray-50 p-3 shadow-lg dark:border-gray-700 dark:bg-gray-800">
+          <div className="mb-2 flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900 dark:text-white">Imports</h2>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Close imports"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="max-h-72 space-y-2 overflow-y-auto">
+            {jobs.map(job => (
+              <ImportJobRow
+                key={job.id}
+                job={job}
+                now={now}
+                onOpen={() => handleOpen(job)}
+                onDismiss={() => handleDismiss(job)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className={`flex items-center gap-2 rounded-full px-4 py-3 shadow-lg transition-colors ${
+          readyCount > 0 && activeCount === 0
+            ? 'bg-green-600 text-white hover:bg-green-700'
+            : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700'
+        }`}
+        aria-label="Recipe imports"
+      >
+        {activeCount > 0 ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <ArrowDownTrayIcon className="w-5 h-5" />}
+        <span className="text-sm font-medium">
+          {activeCount > 0 ? `${activeCount} importing` : readyCount > 0 ? `${readyCount} ready` : 'Imports'}
+        </span>
+      </button>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { Link as RouterLink, useLocation } from 'react-router-dom'
-import { SunIcon, MoonIcon, PlusIcon, HomeIcon, UserIcon, ShoppingBagIcon } from '@heroicons/react/24/outline'
+import { SunIcon, MoonIcon, PlusIcon, HomeIcon, UserIcon, ShoppingBagIcon, ArchiveBoxIcon, CalendarDaysIcon, RectangleStackIcon, UserGroupIcon } from '@heroicons/react/24/outline'
+import { useState } from 'react'
 import { useTheme } from '../contexts/ThemeContext'
 import { useAuth } from '../contexts/AuthContext'
 import Logo from './Logo'
@@ -9,7 +10,19 @@ interface NavigationProps {}
 function Navigation({}: NavigationProps) {
   const location = useLocation()
   const { isDark, toggleTheme } = useTheme()
-  const { user } = useAuth()
+  const { user, household, households, switchHousehold } = useAuth()
+  const [isSwitchingHousehold, setIsSwitchingHousehold] = useState(false)
+
+  const handleSwitchHousehold = async (householdId: string) => {
+    try {
+      setIsSwitchingHousehold(true)
+      await switchHousehold(householdId)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to switch household')
+    } finally {
+      setIsSwitchingHousehold(false)
+    }
+  }
 
   const navItems = user
     ? []
@@ -77,6 +90,45 @@ function Navigation({}: NavigationProps) {
                   <span className="hidden sm:inline">Shopping List</span>
                 </RouterLink>
 
+                {/* Meal Plan Button */}
+                <RouterLink
+                  to="/meal-plan"
+                  className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors duration-200 ${
+                    location.pathname === '/meal-plan'
+                      ? 'bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300'
+                      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <CalendarDaysIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Meal Plan</span>
+                </RouterLink>
+
+                {/* Collections Button */}
+                <RouterLink
+                  to="/collections"
+                  className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors duration-200 ${
+                    location.pathname.startsWith('/collections')
+                      ? 'bg-rose-100 dark:bg-rose-900 text-rose-700 dark:text-rose-300'
+                      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <RectangleStackIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Collections</span>
+                </RouterLink>
+
+                {/* Pantry Button */}
+                <RouterLink
+                  to="/pantry"
+                  className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors duration-200 ${
+                    location.pathname === '/pantry'
+                      ? 'bg-amber-100 dark:bg-amber-900 text-amber-700 dark:text-amber-300'
+                      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <ArchiveBoxIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Pantry</span>
+                </RouterLink>
+
                 {/* Add Recipe Button */}
                 <RouterLink
                   to="/add-recipe"
@@ -92,6 +144,26 @@ function Navigation({}: NavigationProps) {
             {/* Actions */}
             {user ? (
               <div className="flex items-center space-x-2 ml-2 sm:ml-4 pl-2 sm:pl-4 border-l border-gray-200 dark:border-gray-700">
+                {/* Household Switcher - only needed when the user belongs to several households */}
+                {households.length > 1 && (
+                  <label className="inline-flex items-center gap-1 text-gray-600 dark:text-gray-300" title="Active household">
+                    <UserGroupIcon className="w-4 h-4" />
+                    <select
+                      value={household?.id || ''}
+                      onChange={(e) => handleSwitchHousehold(e.target.value)}
+                      disabled={isSwitchingHousehold}
+                      aria-label="Active household"
+                      className="max-w-[8rem] sm:max-w-[12rem] py-1.5 pl-2 pr-7 text-sm font-medium bg-transparent border border-gray-200 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-200 dark:bg-gray-900 disabled:opacity-50"
+                    >
+                      {households.map((membership) => (
+                        <option key={membership.id} value={membership.id}>
+                          {membership.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
                 {/* Settings Button */}
                 <RouterLink
                   to="/settings"
@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline'
+import { NutrientAmounts, NutritionFacts } from '../services/api'
+
+interface NutritionPanelProps {
+  nutrition: NutritionFacts
+  scale: number
+}
+
+type NutritionView = 'serving' | 'recipe'
+
+const MACROS: Array<{ key: keyof NutrientAmounts; label: string; unit: string; indent?: boolean }> = [
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g', indent: true },
+  { key: 'carbohydrates', label: 'Carbohydrates', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g', indent: true },
+  { key: 'sugar', label: 'Sugar', unit: 'g', indent: true },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' }
+]
+
+const MICROS: Array<{ key: keyof NutrientAmounts; label: string; unit: string }> = [
+  { key: 'calcium', label: 'Calcium', unit: 'mg' },
+  { key: 'iron', label: 'Iron', unit: 'mg' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg' }
+]
+
+function formatAmount(value: number): string {
+  return value >= 100 ? Math.round(value).toLocaleString() : String(Math.round(value * 10) / 10)
+}
+
+/**
+ * Estimated nutrition for a recipe. Per-serving values stay the same when the recipe
+ * is scaled; the whole-recipe view follows the scale selector.
+ */
+export default function NutritionPanel({ nutrition, scale }: NutritionPanelProps) {
+  const [view, setView] = useState<NutritionView>('serving')
+  const [showDetails, setShowDetails] = useState(false)
+
+  const amounts: NutrientAmounts = view === 'serving'
+    ? nutrition.perServing
+    : Object.fromEntries(
+      Object.entries(nutrition.total).map(([key, value]) => [key, value * scale])
+    ) as unknown as NutrientAmounts
+
+  const ingredientCount = nutrition.matchedIngredients.length + nutrition.unmatchedIngredients.length
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Nutrition</h3>
+        <div className="flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden text-xs">
+          {(['serving', 'recipe'] as NutritionView[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={`px-3 py-1 transition-colors ${
+                view === option
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option === 'serving' ? 'Per serving' : `Recipe (${Math.round(nutrition.servings * scale)} servings)`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-baseline justify-between pb-2 border-b-4 border-gray-900 dark:border-gray-300">
+        <span className="text-lg font-bold text-gray-900 dark:text-white">Calories</span>
+        <span className="text-2xl font-bold text-gray-900 dark:text-white">{formatAmount(amounts.calories)}</span>
+      </div>
+
+      <dl className="text-sm divide-y divide-gray-200 dark:divide-gray-700">
+        {MACROS.map(nutrient => (
+          <div key={nutrient.key} className={`flex justify-between py-1 ${nutrient.indent ? 'pl-4' : ''}`}>
+            <dt className={nutrient.indent ? 'text-gray-600 dark:text-gray-400' : 'font-medium text-gray-900 dark:text-white'}>
+              {nutrient.label}
+            </dt>
+            <dd className="text-gray-900 dark:text-white">{formatAmount(amounts[nutrient.key])} {nutrient.unit}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <dl className="mt-2 grid grid-cols-2 gap-x-4 text-xs text-gray-600 dark:text-gray-400">
+        {MICROS.map(nutrient => (
+          <div key={nutrient.key} className="flex justify-between py-0.5">
+            <dt>{nutrient.label}</dt>
+            <dd>{formatAmount(amounts[nutrient.key])} {nutrient.unit}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <button
+        type="button"
+        onClick={() => setShowDetails(!showDetails)}
+        className="mt-3 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+      >
+        Estimated from {nutrition.matchedIngredients.length} of {ingredientCount} ingredients
+        {showDetails ? <ChevronUpIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+      </button>
+
+      {showDetails && (
+        <div className="mt-2 text-xs text-gray-600 dark:text-gray-400 space-y-2">
+          {nutrition.unmatchedIngredients.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-700 dark:text-gray-300">Not included</p>
+              <ul className="list-disc ml-4">
+                {nutrition.unmatchedIngredients.map((text, index) => <li key={index}>{text}</li>)}
+              </ul>
+            </div>
+          )}
+          <div>
+            <p className="font-medium text-gray-700 dark:text-gray-300">Matched</p>
+            <ul className="list-disc ml-4">
+              {nutrition.matchedIngredients.map((match, index) => (
+                <li key={index}>{match.text} → {match.displayName} (~{Math.round(match.grams * scale)} g)</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
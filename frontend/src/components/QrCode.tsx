@@ -0,0 +1,46 @@
+import { useMemo } from 'react'
+import { encodeQrCode } from '../utils/qrCode'
+
+// Scanners need a light margin four modules wide around the code
+const QUIET_ZONE = 4
+
+interface QrCodeProps {
+  value: string
+  // Rendered width and height in pixels
+  size?: number
+  title?: string
+  className?: string
+}
+
+/**
+ * Renders text as a QR code SVG; always dark on white, even in dark mode, so phones can scan it
+ */
+function QrCode({ value, size = 192, title = 'QR code', className = '' }: QrCodeProps) {
+  const { path, viewBoxSize } = useMemo(() => {
+    const code = encodeQrCode(value)
+    const commands: string[] = []
+    code.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`)
+      })
+    })
+    return { path: commands.join(''), viewBoxSize: code.size + QUIET_ZONE * 2 }
+  }, [value])
+
+  return (
+    <svg
+      role="img"
+      aria-label={title}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+      shapeRendering="crispEdges"
+      className={className}
+    >
+      <rect width={viewBoxSize} height={viewBoxSize} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
+
+export default QrCode
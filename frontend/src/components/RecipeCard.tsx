@@ -10,6 +10,7 @@ import { Recipe } from '../services/api'
 import { buildRecipeImageSources } from '../utils/recipeImages'
 import ResponsiveImage from './ResponsiveImage'
 import { TagList } from './TagList'
+import { HighlightedText } from './HighlightedText'
 
 export interface RecipeCardProps {
   recipe: Recipe
@@ -36,6 +37,7 @@ export function RecipeCard({
   renderActions,
 }: RecipeCardProps) {
   const { src, imageSizes } = buildRecipeImageSources(recipe)
+  const highlights = recipe.searchHighlights
 
   if (layout === 'grid') {
     return (
@@ -90,11 +92,16 @@ export function RecipeCard({
           </div>
           <div className="p-2 sm:p-3 md:p-4">
             <h3 className="font-semibold text-sm sm:text-base md:text-lg mb-1 sm:mb-2 line-clamp-1 sm:line-clamp-2 text-gray-900 dark:text-white">
-              {recipe.name}
+              <HighlightedText text={highlights?.name || recipe.name} />
             </h3>
             <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 line-clamp-2 sm:line-clamp-3 leading-relaxed mb-2">
-              {recipe.description}
+              <HighlightedText text={highlights?.description || recipe.description} />
             </p>
+            {highlights?.snippet && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 italic mb-2">
+                <HighlightedText text={highlights.snippet} />
+              </p>
+            )}
             {/* Tags */}
             <TagList 
               tags={recipe.tags || []} 
@@ -129,10 +136,10 @@ export function RecipeCard({
           </div>
           <div className="flex-1 min-w-0">
             <h3 className="font-semibold text-xs sm:text-sm md:text-base mb-0.5 sm:mb-1 truncate text-gray-900 dark:text-white">
-              {recipe.name}
+              <HighlightedText text={highlights?.name || recipe.name} />
             </h3>
             <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 line-clamp-1 mb-1 sm:mb-2">
-              {recipe.description}
+              <HighlightedText text={highlights?.snippet || highlights?.description || recipe.description} />
             </p>
             <div className="flex items-center gap-2 sm:gap-3 mb-1">
               <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
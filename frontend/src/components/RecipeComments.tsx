@@ -0,0 +1,315 @@
+import { useState, useEffect } from 'react'
+import type { FormEvent } from 'react'
+import {
+  ChatBubbleLeftRightIcon,
+  ArrowUturnLeftIcon,
+  PencilIcon,
+  TrashIcon,
+  FlagIcon,
+  EyeIcon,
+  EyeSlashIcon
+} from '@heroicons/react/24/outline'
+import { apiService, RecipeComment } from '../services/api'
+import { buildCommentThreads, countReadableComments, formatCommentTime, MAX_THREAD_DEPTH } from '../utils/commentThreads'
+import type { CommentThread } from '../utils/commentThreads'
+import AlertBanner from './AlertBanner'
+
+const MAX_COMMENT_LENGTH = 2000
+
+interface RecipeCommentsProps {
+  recipeId: string
+  currentUserId: string
+}
+
+interface CommentFormProps {
+  initialBody?: string
+  placeholder: string
+  submitLabel: string
+  isSaving: boolean
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}
+
+function CommentForm({ initialBody = '', placeholder, submitLabel, isSaving, onSubmit, onCancel }: CommentFormProps) {
+  const [body, setBody] = useState(initialBody)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!body.trim()) return
+    if (await onSubmit(body.trim())) {
+      setBody('')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={event => setBody(event.target.value)}
+        placeholder={placeholder}
+        rows={onCancel ? 2 : 3}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={Boolean(onCancel)}
+        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving || !body.trim()}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Discussion under a public recipe. Authors edit and delete their own comments,
+ * anyone can report, and the recipe's owner and household can hide comments.
+ */
+export default function RecipeComments({ recipeId, currentUserId }: RecipeCommentsProps) {
+  const [comments, setComments] = useState<RecipeComment[] | null>(null)
+  const [canModerate, setCanModerate] = useState(false)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadComments = async () => {
+    try {
+      const response = await apiService.getRecipeComments(recipeId)
+      setComments(response.comments)
+      setCanModerate(response.canModerate)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments')
+    }
+  }
+
+  useEffect(() => {
+    loadComments()
+  }, [recipeId])
+
+  // Runs a change and reloads the threads; resolves to false when it failed
+  const runAction = async (action: () => Promise<unknown>, fallbackError: string): Promise<boolean> => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+      await loadComments()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handlePost = (body: string, parentId?: string) =>
+    runAction(async () => {
+      await apiService.addRecipeComment(recipeId, body, parentId)
+      setReplyingTo(null)
+    }, 'Failed to post comment')
+
+  const handleEdit = (commentId: string, body: string) =>
+    runAction(async () => {
+      await apiService.updateRecipeComment(recipeId, commentId, body)
+      setEditingId(null)
+    }, 'Failed to save comment')
+
+  const handleDelete = (comment: RecipeComment) => {
+    if (!confirm('Delete this comment?')) return
+    runAction(() => apiService.deleteRecipeComment(recipeId, comment.id), 'Failed to delete comment')
+  }
+
+  const handleReport = (comment: RecipeComment) => {
+    const reason = prompt('Why are you reporting this comment? (optional)')
+    if (reason === null) return
+    runAction(() => apiService.reportRecipeComment(recipeId, comment.id, reason), 'Failed to report comment')
+  }
+
+  const handleToggleHidden = (comment: RecipeComment) =>
+    runAction(
+      () => apiService.setRecipeCommentHidden(recipeId, comment.id, !comment.isHidden),
+      'Failed to update comment'
+    )
+
+  const renderThread = (thread: CommentThread, depth: number) => {
+    const { comment } = thread
+    const isOwn = comment.userId === currentUserId
+    const isRemoved = comment.body === ''
+
+    return (
+      <li key={comment.id}>
+        <div className="py-3">
+          <div className="flex flex-wrap items-center gap-x-2 text-sm">
+            <span className="font-medium text-gray-900 dark:text-white">
+              {isRemoved ? 'Removed' : isOwn ? 'You' : comment.userDisplayName || 'Former member'}
+            </span>
+            <time dateTime={comment.createdAt} title={new Date(comment.createdAt).toLocaleString()} className="text-gray-500 dark:text-gray-400">
+              {formatCommentTime(comment.createdAt)}
+            </time>
+            {comment.editedAt && !isRemoved && (
+              <span className="text-gray-500 dark:text-gray-400" title={new Date(comment.editedAt).toLocaleString()}>(edited)</span>
+            )}
+            {comment.isHidden && !isRemoved && (
+              <span className="rounded-full bg-amber-100 dark:bg-amber-900/30 px-2 py-0.5 text-xs font-medium text-amber-800 dark:text-amber-300">
+                Hidden{isOwn && !canModerate ? ' from others' : ''}
+              </span>
+            )}
+            {canModerate && (comment.reportCount ?? 0) > 0 && (
+              <span className="rounded-full bg-red-100 dark:bg-red-900/30 px-2 py-0.5 text-xs font-medium text-red-700 dark:text-red-300">
+                {comment.reportCount} {comment.reportCount === 1 ? 'report' : 'reports'}
+              </span>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="mt-2">
+              <CommentForm
+                initialBody={comment.body}
+                placeholder="Edit your comment"
+                submitLabel="Save"
+                isSaving={isSaving}
+                onSubmit={body => handleEdit(comment.id, body)}
+                onCancel={() => setEditingId(null)}
+              />
+            </div>
+          ) : isRemoved ? (
+            <p className="mt-1 text-sm italic text-gray-500 dark:text-gray-400">
+              {comment.isDeleted ? 'This comment was deleted.' : 'This comment was hidden by a moderator.'}
+            </p>
+          ) : (
+            <p className="mt-1 whitespace-pre-line break-words text-sm text-gray-700 dark:text-gray-300">{comment.body}</p>
+          )}
+
+          {!isRemoved && editingId !== comment.id && (
+            <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+              <button
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+              >
+                <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+                Reply
+              </button>
+              {isOwn && (
+                <>
+                  <button
+                    onClick={() => setEditingId(comment.id)}
+                    className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    <PencilIcon className="w-3.5 h-3.5" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(comment)}
+                    className="inline-flex items-center gap-1 hover:text-red-600 dark:hover:text-red-400"
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                    Delete
+                  </button>
+                </>
+              )}
+              {!isOwn && (
+                comment.reportedByViewer ? (
+                  <span className="inline-flex items-center gap-1">
+                    <FlagIcon className="w-3.5 h-3.5" />
+                    Reported
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleReport(comment)}
+                    className="inline-flex items-center gap-1 hover:text-red-600 dark:hover:text-red-400"
+                  >
+                    <FlagIcon className="w-3.5 h-3.5" />
+                    Report
+                  </button>
+                )
+              )}
+              {canModerate && (
+                <button
+                  onClick={() => handleToggleHidden(comment)}
+                  className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+                >
+                  {comment.isHidden ? <EyeIcon className="w-3.5 h-3.5" /> : <EyeSlashIcon className="w-3.5 h-3.5" />}
+                  {comment.isHidden ? 'Unhide' : 'Hide'}
+                </button>
+              )}
+            </div>
+          )}
+
+          {replyingTo === comment.id && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder={`Reply to ${isOwn ? 'yourself' : comment.userDisplayName || 'this comment'}`}
+                submitLabel="Reply"
+                isSaving={isSaving}
+                onSubmit={body => handlePost(body, comment.id)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </div>
+
+        {thread.replies.length > 0 && (
+          <ul className={depth < MAX_THREAD_DEPTH ? 'ml-4 border-l border-gray-200 dark:border-gray-700 pl-4' : ''}>
+            {thread.replies.map(reply => renderThread(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  const threads = comments ? buildCommentThreads(comments) : []
+  const commentCount = comments ? countReadableComments(comments) : 0
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="flex items-center gap-3 mb-4 text-xl font-semibold text-gray-900 dark:text-white">
+        <ChatBubbleLeftRightIcon className="w-6 h-6 text-gray-500 dark:text-gray-400" />
+        Comments
+        {commentCount > 0 && (
+          <span className="text-base font-normal text-gray-500 dark:text-gray-400">({commentCount})</span>
+        )}
+      </h2>
+
+      <div className="space-y-3">
+        {error && (
+          <AlertBanner variant="error" description={error} onDismiss={() => setError(null)} isCompact />
+        )}
+
+        <CommentForm
+          placeholder="Share a tip, a question or how it went"
+          submitLabel="Post comment"
+          isSaving={isSaving && replyingTo === null && editingId === null}
+          onSubmit={body => handlePost(body)}
+        />
+
+        {comments === null && !error && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading comments...</p>
+        )}
+
+        {comments?.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet. Start the discussion!</p>
+        )}
+
+        {threads.length > 0 && (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {threads.map(thread => renderThread(thread, 1))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react'
+import {
+  ClockIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  ArrowUturnLeftIcon
+} from '@heroicons/react/24/outline'
+import {
+  apiService,
+  Recipe,
+  RecipeFieldDiff,
+  RecipeRevisionDiff,
+  RecipeRevisionSummary,
+  RevisionChangeType
+} from '../services/api'
+import AlertBanner from './AlertBanner'
+
+interface RecipeHistoryProps {
+  recipeId: string
+  onRestored: (recipe: Recipe) => void
+}
+
+const CHANGE_TYPE_LABELS: Record<RevisionChangeType, string> = {
+  create: 'Created',
+  update: 'Edited',
+  enhance: 'AI notes added',
+  restore: 'Restored'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  prepTimeMinutes: 'Prep time',
+  cookTimeMinutes: 'Cook time',
+  totalTimeMinutes: 'Total time',
+  servings: 'Servings',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  tags: 'Tags',
+  sourceUrl: 'Source',
+  image: 'Image',
+  imageSizes: 'Image',
+  language: 'Language',
+  aiEnhancedNotes: "Chef's notes"
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'object') return 'changed'
+  return String(value)
+}
+
+function describeRevision(revision: RecipeRevisionSummary): string {
+  if (revision.changeType === 'restore' && revision.restoredFrom) {
+    return `Restored revision ${revision.restoredFrom}`
+  }
+  return CHANGE_TYPE_LABELS[revision.changeType]
+}
+
+function FieldChange({ change }: { change: RecipeFieldDiff }) {
+  const label = FIELD_LABELS[change.field] || change.field
+
+  if (change.type === 'value') {
+    return (
+      <div className="text-sm">
+        <span className="font-medium text-gray-900 dark:text-white">{label}: </span>
+        <span className="text-red-700 dark:text-red-300 line-through">{formatValue(change.before)}</span>
+        <span className="text-gray-500 dark:text-gray-400"> → </span>
+        <span className="text-green-700 dark:text-green-300">{formatValue(change.after)}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="font-medium text-gray-900 dark:text-white mb-1">{label}</div>
+      <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden font-mono text-xs">
+        {change.lines.map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.op === 'added'
+                ? 'px-3 py-0.5 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                : line.op === 'removed'
+                  ? 'px-3 py-0.5 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 line-through'
+                  : 'px-3 py-0.5 text-gray-600 dark:text-gray-400'
+            }
+          >
+            {line.op === 'added' ? '+ ' : line.op === 'removed' ? '- ' : '  '}
+            {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Collapsible revision list for a recipe. Shows what changed in each revision
+ * and lets editors restore an earlier version.
+ */
+export default function RecipeHistory({ recipeId, onRestored }: RecipeHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [revisions, setRevisions] = useState<RecipeRevisionSummary[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<RecipeRevisionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadRevisions = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setRevisions(await apiService.getRecipeRevisions(recipeId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleToggle = () => {
+    const nextOpen = !isOpen
+    setIsOpen(nextOpen)
+    if (nextOpen && revisions === null) {
+      loadRevisions()
+    }
+  }
+
+  const handleSelect = async (revisionId: string) => {
+    if (selectedId === revisionId) {
+      setSelectedId(null)
+      setDiff(null)
+      return
+    }
+
+    setSelectedId(revisionId)
+    setDiff(null)
+    setError(null)
+    try {
+      setDiff(await apiService.getRecipeRevisionDiff(recipeId, revisionId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load changes')
+    }
+  }
+
+  const handleRestore = async (revision: RecipeRevisionSummary) => {
+    if (!confirm(`Restore revision ${revision.revisionNumber}? The current version stays in the history.`)) {
+      return
+    }
+
+    setIsRestoring(true)
+    setError(null)
+    try {
+      const response = await apiService.restoreRecipeRevision(recipeId, revision.id)
+      onRestored(response.recipe)
+      setSelectedId(null)
+      setDiff(null)
+      await loadRevisions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const latestNumber = revisions?.[0]?.revisionNumber
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between px-6 py-4 text-left"
+      >
+        <span className="flex items-center gap-3">
+          <ClockIcon className="w-6 h-6 text-gray-500 dark:text-gray-400" />
+          <span className="text-xl font-semibold text-gray-900 dark:text-white">Version History</span>
+        </span>
+        {isOpen ? (
+          <ChevronUpIcon className="w-5 h-5 text-gray-500" />
+        ) : (
+          <ChevronDownIcon className="w-5 h-5 text-gray-500" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-3">
+          {error && (
+            <AlertBanner
+              variant="error"
+              description={error}
+              onDismiss={() => setError(null)}
+              isCompact
+            />
+          )}
+
+          {isLoading && !revisions && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+          )}
+
+          {revisions && revisions.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No revisions recorded yet.</p>
+          )}
+
+          {revisions?.map(revision => (
+            <div
+              key={revision.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between gap-3 px-4 py-3">
+                <button
+                  onClick={() => handleSelect(revision.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">
+                    #{revision.revisionNumber} · {describeRevision(revision)}
+                    {revision.revisionNumber === latestNumber && (
+                      <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">current</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.userDisplayName && ` · ${revision.userDisplayName}`}
+                    {revision.changeType !== 'create' && revision.changedFields.length > 0 &&
+                      ` · ${[...new Set(revision.changedFields.map(field => FIELD_LABELS[field] || field))].join(', ')}`}
+                  </div>
+                </button>
+                {revision.revisionNumber !== latestNumber && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={isRestoring}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                    Restore
+                  </button>
+                )}
+              </div>
+
+              {selectedId === revision.id && (
+                <div className="px-4 pb-4 space-y-3">
+                  {!diff ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Loading changes...</p>
+                  ) : diff.changes.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No content changes in this revision.</p>
+                  ) : (
+                    diff.changes.map(change => <FieldChange key={change.field} change={change} />)
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
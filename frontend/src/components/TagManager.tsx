@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { FormEvent } from 'react'
+import { PencilIcon, TrashIcon, CheckIcon, XMarkIcon, ArrowsPointingInIcon } from '@heroicons/react/24/outline'
+import { apiService, TagUsage } from '../services/api'
+
+/**
+ * Lists the tags on the user's and household's recipes with usage counts, and renames, merges or deletes them everywhere
+ */
+export default function TagManager() {
+  const [tags, setTags] = useState<TagUsage[] | null>(null)
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [editing, setEditing] = useState<{ tag: string; name: string } | null>(null)
+  const [mergeInto, setMergeInto] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadTags = useCallback(async () => {
+    try {
+      setError(null)
+      setTags(await apiService.getTagUsage())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tags')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTags()
+  }, [loadTags])
+
+  const runAction = async (action: () => Promise<{ updatedRecipes: number }>, describe: (count: number) => string) => {
+    try {
+      setIsSaving(true)
+      setError(null)
+      setNotice(null)
+      const { updatedRecipes } = await action()
+      setNotice(describe(updatedRecipes))
+      setEditing(null)
+      setSelected([])
+      setMergeInto('')
+      await loadTags()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const recipesLabel = (count: number) => `${count} ${count === 1 ? 'recipe' : 'recipes'}`
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault()
+    if (!editing || !editing.name.trim() || editing.name.trim() === editing.tag) {
+      setEditing(null)
+      return
+    }
+
+    const { tag, name } = editing
+    runAction(
+      () => apiService.renameTag(tag, name.trim()),
+      count => `Renamed "${tag}" on ${recipesLabel(count)}.`
+    )
+  }
+
+  const handleDelete = (tag: TagUsage) => {
+    if (!window.confirm(`Remove "${tag.name}" from ${recipesLabel(tag.count)}? The recipes are kept.`)) return
+
+    runAction(
+      () => apiService.deleteTag(tag.name),
+      count => `Removed "${tag.name}" from ${recipesLabel(count)}.`
+    )
+  }
+
+  const handleMerge = (event: FormEvent) => {
+    event.preventDefault()
+    const into = mergeInto.trim() || selected[0]
+    if (selected.length < 2 || !into) return
+
+    runAction(
+      () => apiService.mergeTags(selected, into),
+      count => `Merged ${selected.length} tags into "${into}" on ${recipesLabel(count)}.`
+    )
+  }
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(tag => tag !== name) : [...prev, name])
+  }
+
+  if (tags === null) {
+    return error
+      ? <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      : <p className="text-sm text-gray-500 dark:text-gray-400">Loading tags...</p>
+  }
+
+  if (tags.length === 0) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">None of your recipes have tags yet.</p>
+  }
+
+  const query = filter.trim().toLowerCase()
+  const visibleTags = query ? tags.filter(tag => tag.name.toLowerCase().includes(query)) : tags
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Changes apply to all of your recipes and your household's. Select two or more tags to merge them.
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>}
+
+      <input
+        type="search"
+        value={filter}
+        onChange={event => setFilter(event.target.value)}
+        placeholder={`Filter ${tags.length} tags`}
+        aria-label="Filter tags"
+        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white"
+      />
+
+      {selected.length >= 2 && (
+        <form onSubmit={handleMerge} className="flex flex-wrap items-center gap-2 rounded-lg bg-blue-50 dark:bg-blue-900/20 p-3">
+          <label htmlFor="merge-into" className="text-sm text-gray-700 dark:text-gray-300">
+            Merge {selected.length} tags into
+          </label>
+          <input
+            id="merge-into"
+            type="text"
+            list="merge-into-options"
+            value={mergeInto}
+            onChange={event => setMergeInto(event.target.value)}
+            placeholder={selected[0]}
+            maxLength={50}
+            className="min-w-0 flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm text-gray-900 dark:text-white"
+          />
+          <datalist id="merge-into-options">
+            {selected.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            <ArrowsPointingInIcon className="w-4 h-4" />
+            Merge
+          </button>
+          <button
+            type="button"
+            onClick={() => setSelected([])}
+            className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Clear
+          </button>
+        </form>
+      )}
+
+      <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+        {visibleTags.map(tag => (
+          <li key={tag.name} className="flex items-center gap-3 py-2">
+            <input
+              type="checkbox"
+              checked={selected.includes(tag.name)}
+              onChange={() => toggleSelected(tag.name)}
+              disabled={isSaving}
+              aria-label={`Select ${tag.name}`}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            {editing?.tag === tag.name ? (
+              <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={event => setEditing({ tag: tag.name, name: event.target.value })}
+                  maxLength={50}
+                  autoFocus
+                  aria-label={`New name for ${tag.name}`}
+                  className="min-w-0 flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-sm text-gray-900 dark:text-white"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="p-1.5 rounded text-green-600 hover:bg-green-50 dark:text-green-400 dark:hover:bg-green-900/20 disabled:opacity-50"
+                  aria-label="Save tag name"
+                >
+                  <CheckIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label="Cancel rename"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </form>
+            ) : (
+              <>
+                <span className="flex-1 truncate text-sm text-gray-900 dark:text-white">{tag.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{recipesLabel(tag.count)}</span>
+                <button
+                  onClick={() => setEditing({ tag: tag.name, name: tag.name })}
+                  disabled={isSaving}
+                  className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                  aria-label={`Rename ${tag.name}`}
+                >
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(tag)}
+                  disabled={isSaving}
+                  className="p-1.5 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 disabled:opacity-30"
+                  aria-label={`Delete ${tag.name}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+        {visibleTags.length === 0 && (
+          <li className="py-2 text-sm text-gray-500 dark:text-gray-400">No tags match "{filter}".</li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { ClockIcon, BellAlertIcon, PauseIcon, PlayIcon, XMarkIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { useTimers } from '../contexts/TimerContext'
+import { KitchenTimer, formatTimer, getRemainingSeconds, sortTimers } from '../utils/kitchenTimers'
+import { supportsScheduledNotifications } from '../utils/timerAlerts'
+
+interface TimerRowProps {
+  timer: KitchenTimer
+  now: number
+  onToggle: () => void
+  onRemove: () => void
+}
+
+export function TimerRow({ timer, now, onToggle, onRemove }: TimerRowProps) {
+  const isPaused = !timer.finished && timer.endsAt === null
+
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-lg border px-3 py-2 ${
+        timer.finished
+          ? 'border-red-400 bg-red-50 text-red-800 animate-pulse dark:bg-red-900/30 dark:text-red-200'
+          : 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900'
+      }`}
+    >
+      {timer.finished ? <BellAlertIcon className="w-5 h-5 flex-shrink-0" /> : <ClockIcon className="w-5 h-5 flex-shrink-0 text-gray-500" />}
+      <div className="min-w-0 flex-1 leading-tight">
+        <p className={`font-mono text-lg ${isPaused ? 'text-gray-400' : ''}`}>{formatTimer(getRemainingSeconds(timer, now))}</p>
+        <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+          {timer.label}
+          {timer.stepNumber && ` · Step ${timer.stepNumber}`}
+        </p>
+        {timer.recipeId && timer.recipeName && (
+          <Link to={`/recipe/${timer.recipeId}`} className="block truncate text-xs text-blue-600 dark:text-blue-400 hover:underline">
+            {timer.recipeName}
+          </Link>
+        )}
+      </div>
+      {!timer.finished && (
+        <button
+          onClick={onToggle}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label={isPaused ? 'Resume timer' : 'Pause timer'}
+        >
+          {isPaused ? <PlayIcon className="w-5 h-5" /> : <PauseIcon className="w-5 h-5" />}
+        </button>
+      )}
+      <button
+        onClick={onRemove}
+        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+        aria-label={timer.finished ? 'Dismiss timer' : 'Cancel timer'}
+      >
+        <XMarkIcon className="w-5 h-5" />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Floating tray listing every kitchen timer, with a form for starting new ones.
+ * Hidden in cook mode, which shows the same timers in its own footer.
+ */
+export default function TimerTray() {
+  const location = useLocation()
+  const { timers, now, startTimer, toggleTimer, removeTimer } = useTimers()
+  const [isOpen, setIsOpen] = useState(false)
+  const [label, setLabel] = useState('')
+  const [minutes, setMinutes] = useState('10')
+
+  if (location.pathname.endsWith('/cook')) return null
+
+  const sorted = sortTimers(timers, now)
+  const finishedCount = timers.filter(timer => timer.finished).length
+  const next = sorted.find(timer => !timer.finished && timer.endsAt !== null)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const seconds = Math.round(parseFloat(minutes) * 60)
+    if (!seconds || seconds <= 0) return
+
+    startTimer({ label: label || `${minutes} min timer`, seconds })
+    setLabel('')
+  }
+
+  return (
+    <div className="fixed bottom-20 right-4 md:bottom-6 z-40 flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="w-80 max-w-[calc(100vw-2rem)] rounded-xl border border-gray-200 bg-gray-50 p-3 shadow-lg dark:border-gray-700 dark:bg-gray-800">
+          <div className="mb-2 flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900 dark:text-white">Timers</h2>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Close timers"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="max-h-72 space-y-2 overflow-y-auto">
+            {sorted.length === 0 ? (
+              <p className="py-2 text-center text-sm text-gray-500 dark:text-gray-400">No timers running</p>
+            ) : (
+              sorted.map(timer => (
+                <TimerRow
+                  key={timer.id}
+                  timer={timer}
+                  now={now}
+                  onToggle={() => toggleTimer(timer.id)}
+                  onRemove={() => removeTimer(timer.id)}
+                />
+              ))
+            )}
+          </div>
+
+          {next && !supportsScheduledNotifications() && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Keep this tab open: this browser can only ring when the app is running, and may ring late while the tab is in the background.
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="mt-3 flex items-center gap-2 border-t border-gray-200 pt-3 dark:border-gray-700">
+            <input
+              type="text"
+              value={label}
+              onChange={event => setLabel(event.target.value)}
+              placeholder="Label"
+              aria-label="Timer label"
+              className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-900"
+            />
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={minutes}
+              onChange={event => setMinutes(event.target.value)}
+              aria-label="Minutes"
+              className="w-16 rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-900"
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">min</span>
+            <button
+              type="submit"
+              className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              aria-label="Start timer"
+            >
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className={`flex items-center gap-2 rounded-full px-4 py-3 shadow-lg transition-colors ${
+          finishedCount > 0
+            ? 'bg-red-600 text-white animate-pulse'
+            : 'bg-white text-gray-700 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700'
+        }`}
+        aria-label="Kitchen timers"
+      >
+        {finishedCount > 0 ? <BellAlertIcon className="w-5 h-5" /> : <ClockIcon className="w-5 h-5" />}
+        {finishedCount > 0 ? (
+          <span className="text-sm font-medium">{finishedCount} done</span>
+        ) : next ? (
+          <span className="font-mono text-sm">{formatTimer(getRemainingSeconds(next, now))}</span>
+        ) : null}
+        {timers.length > 1 && (
+          <span className="rounded-full bg-blue-100 px-2 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+            {timers.length}
+          </span>
+        )}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { ReactNode } from 'react'
+
+interface AuthPageLayoutProps {
+  children: ReactNode
+}
+
+/**
+ * Centered column with the app name, shared by the sign-in, password reset, email confirmation and invitation pages
+ */
+function AuthPageLayout({ children }: AuthPageLayoutProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-4">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Recipe Reaper</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">Your personal recipe collection</p>
+        </div>
+
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export default AuthPageLayout
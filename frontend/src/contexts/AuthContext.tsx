@@ -1,9 +1,10 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { User, Household, LoginData, RegisterData, CreateHouseholdData, JoinHouseholdData } from '../types/user'
+import { User, Household, HouseholdMembership, LoginData, RegisterData, CreateHouseholdData, JoinHouseholdData } from '../types/user'
 
 interface AuthContextType {
   user: User | null
   household: Household | null
+  households: HouseholdMembership[]
   isLoading: boolean
   login: (data: LoginData) => Promise<void>
   register: (data: RegisterData) => Promise<void>
@@ -11,6 +12,8 @@ interface AuthContextType {
   createHousehold: (data: CreateHouseholdData) => Promise<void>
   joinHousehold: (data: JoinHouseholdData) => Promise<void>
   leaveHousehold: () => Promise<void>
+  deleteHousehold: () => Promise<void>
+  switchHousehold: (householdId: string) => Promise<void>
   refreshUser: () => Promise<void>
 }
 
@@ -33,6 +36,7 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api'
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null)
   const [household, setHousehold] = useState<Household | null>(null)
+  const [households, setHouseholds] = useState<HouseholdMembership[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
   // Check authentication status on mount
@@ -58,15 +62,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
+  // Loads the active household and the list of every household the user belongs to
   const loadHousehold = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/households/current`, {
-        credentials: 'include'
-      })
-      if (response.ok) {
-        const data = await response.json()
+      const [currentResponse, listResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/households/current`, { credentials: 'include' }),
+        fetch(`${API_BASE_URL}/households`, { credentials: 'include' })
+      ])
+      if (currentResponse.ok) {
+        const data = await currentResponse.json()
         setHousehold(data.household)
       }
+      if (listResponse.ok) {
+        const data = await listResponse.json()
+        setHouseholds(data.households)
+      }
     } catch (error) {
       console.error('Failed to load household:', error)
     }
@@ -110,6 +120,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     setUser(data.user)
     setHousehold(null) // New users don't have households
+    setHouseholds([])
   }
 
   const logout = async () => {
@@ -121,6 +132,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     if (response.ok) {
       setUser(null)
       setHousehold(null)
+      setHouseholds([])
     } else {
       throw new Error('Logout failed')
     }
@@ -182,6 +194,42 @@ export function AuthProvider({ children }: AuthProviderProps) {
     await refreshUser() // Refresh user to get updated info
   }
 
+  const deleteHousehold = async () => {
+    const response = await fetch(`${API_BASE_URL}/households/current`, {
+      method: 'DELETE',
+      credentials: 'include'
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to delete household')
+    }
+
+    setHousehold(null)
+    await refreshUser() // Refresh user to get updated info
+  }
+
+  const switchHousehold = async (householdId: string) => {
+    const response = await fetch(`${API_BASE_URL}/households/active`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      credentials: 'include',
+      body: JSON.stringify({ householdId })
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to switch household')
+    }
+
+    setHousehold(data.household)
+    await refreshUser() // Refresh user to get the new active household
+  }
+
   const refreshUser = async () => {
     await checkAuthStatus()
   }
@@ -189,6 +237,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const value = {
     user,
     household,
+    households,
     isLoading,
     login,
     register,
@@ -196,6 +245,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     createHousehold,
     joinHousehold,
     leaveHousehold,
+    deleteHousehold,
+    switchHousehold,
     refreshUser
   }
 
@@ -0,0 +1,78 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { apiService, ImportJob, StartImportJobRequest } from '../services/api'
+import { useAuth } from './AuthContext'
+import { isImportJobActive } from '../utils/importJobs'
+
+// How often to check on imports while any is queued or running
+const POLL_INTERVAL_MS = 3000
+
+interface ImportJobsContextType {
+  jobs: ImportJob[]
+  startImport: (request: StartImportJobRequest) => Promise<ImportJob>
+  dismissImport: (id: string) => Promise<void>
+}
+
+const ImportJobsContext = createContext<ImportJobsContextType | undefined>(undefined)
+
+interface ImportJobsProviderProps {
+  children: ReactNode
+}
+
+/**
+ * Tracks the user's background URL, text and photo imports so they can keep browsing while they run
+ */
+export function ImportJobsProvider({ children }: ImportJobsProviderProps) {
+  const { user } = useAuth()
+  const [jobs, setJobs] = useState<ImportJob[]>([])
+
+  const refreshJobs = useCallback(async () => {
+    try {
+      setJobs(await apiService.getImportJobs())
+    } catch (err) {
+      console.error('Failed to load imports:', err)
+    }
+  }, [])
+
+  // Imports started in an earlier visit or another tab show up after signing in
+  useEffect(() => {
+    if (user) {
+      refreshJobs()
+    } else {
+      setJobs([])
+    }
+  }, [user, refreshJobs])
+
+  const hasActiveJob = jobs.some(isImportJobActive)
+
+  useEffect(() => {
+    if (!hasActiveJob) return
+
+    const interval = setInterval(refreshJobs, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasActiveJob, refreshJobs])
+
+  const startImport = useCallback(async (request: StartImportJobRequest) => {
+    const job = await apiService.startImportJob(request)
+    setJobs(prev => [job, ...prev.filter(existing => existing.id !== job.id)])
+    return job
+  }, [])
+
+  const dismissImport = useCallback(async (id: string) => {
+    await apiService.deleteImportJob(id)
+    setJobs(prev => prev.filter(job => job.id !== id))
+  }, [])
+
+  return (
+    <ImportJobsContext.Provider value={{ jobs, startImport, dismissImport }}>
+      {children}
+    </ImportJobsContext.Provider>
+  )
+}
+
+export function useImportJobs() {
+  const context = useContext(ImportJobsContext)
+  if (context === undefined) {
+    throw new Error('useImportJobs must be used within an ImportJobsProvider')
+  }
+  return context
+}
@@ -0,0 +1,163 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react'
+import {
+  KitchenTimer,
+  NewKitchenTimer,
+  createTimer,
+  expireTimers,
+  pauseTimer,
+  resumeTimer
+} from '../utils/kitchenTimers'
+import { timerStore } from '../utils/timerStore'
+import {
+  notifyTimerFinished,
+  closeTimerNotification,
+  playAlarm,
+  requestNotificationPermission,
+  scheduleTimerNotification,
+  supportsScheduledNotifications
+} from '../utils/timerAlerts'
+
+interface TimerContextType {
+  timers: KitchenTimer[]
+  /** Current time, updated every second while a timer is running */
+  now: number
+  startTimer: (input: NewKitchenTimer) => KitchenTimer
+  toggleTimer: (id: string) => void
+  removeTimer: (id: string) => void
+}
+
+const TimerContext = createContext<TimerContextType | undefined>(undefined)
+
+interface TimerProviderProps {
+  children: ReactNode
+}
+
+export function TimerProvider({ children }: TimerProviderProps) {
+  const [timers, setTimers] = useState<KitchenTimer[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const [loaded, setLoaded] = useState(false)
+  const persistedRef = useRef<Map<string, KitchenTimer>>(new Map())
+
+  // Restore timers from the last visit; anything that ran out meanwhile shows as finished
+  useEffect(() => {
+    timerStore.getAll()
+      .then(saved => {
+        saved.forEach(timer => persistedRef.current.set(timer.id, timer))
+        setTimers(prev => [...saved.filter(timer => !prev.some(p => p.id === timer.id)), ...prev])
+      })
+      .catch(err => console.error('Failed to restore timers:', err))
+      .finally(() => setLoaded(true))
+  }, [])
+
+  // Write changed timers back to IndexedDB
+  useEffect(() => {
+    if (!loaded) return
+
+    const persisted = persistedRef.current
+    timers.forEach(timer => {
+      if (persisted.get(timer.id) !== timer) {
+        persisted.set(timer.id, timer)
+        timerStore.save(timer).catch(err => console.error('Failed to save timer:', err))
+      }
+    })
+    Array.from(persisted.keys())
+      .filter(id => !timers.some(timer => timer.id === id))
+      .forEach(id => {
+        persisted.delete(id)
+        timerStore.remove(id).catch(err => console.error('Failed to remove timer:', err))
+      })
+  }, [timers, loaded])
+
+  const hasRunningTimer = timers.some(timer => !timer.finished && timer.endsAt !== null)
+
+  useEffect(() => {
+    if (!hasRunningTimer) return
+
+    const tick = () => {
+      const current = Date.now()
+      setNow(current)
+      setTimers(prev => expireTimers(prev, current).timers)
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [hasRunningTimer])
+
+  // Hand running timers to the browser where it can notify on time by itself; the interval above is
+  // throttled in background tabs and stops when the tab closes. Rechecked every tick because
+  // notification permission may only be granted after the first timer started.
+  const scheduledRef = useRef<Map<string, number>>(new Map())
+  useEffect(() => {
+    if (!loaded || !supportsScheduledNotifications() || Notification.permission !== 'granted') return
+
+    const scheduled = scheduledRef.current
+    timers.forEach(timer => {
+      if (!timer.finished && timer.endsAt !== null && scheduled.get(timer.id) !== timer.endsAt) {
+        scheduled.set(timer.id, timer.endsAt)
+        scheduleTimerNotification(timer)
+      }
+    })
+    Array.from(scheduled.keys()).forEach(id => {
+      const timer = timers.find(candidate => candidate.id === id)
+      if (timer?.finished) {
+        scheduled.delete(id)
+      } else if (!timer || timer.endsAt === null) {
+        // Paused or cancelled before it rang
+        scheduled.delete(id)
+        closeTimerNotification(id)
+      }
+    })
+  }, [timers, now, loaded])
+
+  // Ring once for each timer that finishes while the app is open
+  const announcedRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    if (!loaded) return
+
+    const justFinished = timers.filter(timer => timer.finished && !announcedRef.current.has(timer.id))
+    justFinished.forEach(timer => announcedRef.current.add(timer.id))
+
+    const live = justFinished.filter(timer => timer.endsAt !== null && now - timer.endsAt < 60_000)
+    if (live.length === 0) return
+
+    playAlarm()
+    live.forEach(timer => notifyTimerFinished(timer))
+  }, [timers, now, loaded])
+
+  const startTimer = useCallback((input: NewKitchenTimer) => {
+    requestNotificationPermission()
+    const current = Date.now()
+    const timer = createTimer(input, current)
+    setNow(current)
+    setTimers(prev => [...prev, timer])
+    return timer
+  }, [])
+
+  const toggleTimer = useCallback((id: string) => {
+    const current = Date.now()
+    setTimers(prev => prev.map(timer => {
+      if (timer.id !== id) return timer
+      return timer.endsAt === null ? resumeTimer(timer, current) : pauseTimer(timer, current)
+    }))
+  }, [])
+
+  const removeTimer = useCallback((id: string) => {
+    setTimers(prev => prev.filter(timer => timer.id !== id))
+    closeTimerNotification(id)
+  }, [])
+
+  return (
+    <TimerContext.Provider value={{ timers, now, startTimer, toggleTimer, removeTimer }}>
+      {children}
+    </TimerContext.Provider>
+  )
+}
+
+export function useTimers() {
+  const context = useContext(TimerContext)
+  if (context === undefined) {
+    throw new Error('useTimers must be used within a TimerProvider')
+  }
+  return context
+}
@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, useParams, Link } from 'react-router-dom'
+import {
+  ArrowLeftIcon,
+  PencilIcon,
+  TrashIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  XMarkIcon,
+  ClockIcon,
+  RectangleStackIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline'
+import { apiService, Collection, CollectionInput, Recipe } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { getRandomLoadingHumor } from '../utils/humor'
+import { getCollectionCover, moveItem, COLLECTION_VISIBILITY_OPTIONS } from '../utils/collections'
+import AlertBanner from '../components/AlertBanner'
+import CollectionForm, { VisibilityIcon } from '../components/CollectionForm'
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const [collection, setCollection] = useState<Collection | null>(null)
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  const loadCollection = useCallback(async () => {
+    if (!id) return
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await apiService.getCollection(id)
+      setCollection(response.collection)
+      setRecipes(response.recipes)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collection')
+      console.error('Failed to load collection:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login')
+      return
+    }
+
+    loadCollection()
+  }, [user, navigate, loadCollection])
+
+  const handleUpdate = async (values: CollectionInput & { name: string }) => {
+    if (!collection) return
+    try {
+      setIsSaving(true)
+      setActionError(null)
+      const updated = await apiService.updateCollection(collection.id, values)
+      setCollection(updated)
+      setIsEditing(false)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to save collection')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!collection || !window.confirm(`Delete "${collection.name}"? The recipes in it are kept.`)) return
+    try {
+      await apiService.deleteCollection(collection.id)
+      navigate('/collections')
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete collection')
+    }
+  }
+
+  // Reorders right away and puts the old order back if saving fails
+  const handleMove = async (fromIndex: number, toIndex: number) => {
+    if (!collection) return
+    const previous = recipes
+    const reordered = moveItem(recipes, fromIndex, toIndex)
+    if (reordered === previous) return
+
+    setRecipes(reordered)
+    try {
+      await apiService.reorderCollection(collection.id, reordered.map(recipe => recipe.id))
+    } catch (err) {
+      setRecipes(previous)
+      setActionError(err instanceof Error ? err.message : 'Failed to reorder recipes')
+    }
+  }
+
+  const handleRemove = async (recipe: Recipe) => {
+    if (!collection) return
+    const previous = recipes
+    setRecipes(prev => prev.filter(item => item.id !== recipe.id))
+    try {
+      await apiService.removeRecipeFromCollection(collection.id, recipe.id)
+    } catch (err) {
+      setRecipes(previous)
+      setActionError(err instanceof Error ? err.message : 'Failed to remove recipe')
+    }
+  }
+
+  if (!user) return null
+
+  if (loading) {
+    return (
+      <div className="text-center py-20">
+        <div className="w-8 h-8 border-4 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+        <p className="text-gray-600 dark:text-gray-400">Loading collection...</p>
+        <p className="text-sm text-gray-500 dark:text-gray-500 mt-2 italic">
+          {getRandomLoadingHumor()}
+        </p>
+      </div>
+    )
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="px-4 py-8 max-w-4xl mx-auto">
+        <div className="py-20 max-w-md mx-auto space-y-6 text-center">
+          <AlertBanner
+            variant="error"
+            title="Error loading collection"
+            description={error || 'Collection not found'}
+            actions={(
+              <button
+                type="button"
+                onClick={loadCollection}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                <ArrowPathIcon className="w-4 h-4" />
+                Try Again
+              </button>
+            )}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  const cover = getCollectionCover(collection)
+  const visibility = COLLECTION_VISIBILITY_OPTIONS.find(option => option.id === collection.visibility)
+  const isOwner = collection.userId === user.id
+
+  return (
+    <div className="px-4 py-6 max-w-4xl mx-auto pb-20">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={() => navigate('/collections')}
+          className="p-3 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          aria-label="Back to collections"
+        >
+          <ArrowLeftIcon className="w-5 h-5 text-gray-600 dark:text-gray-300" />
+        </button>
+        {collection.canEdit && !isEditing && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-3 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              aria-label="Edit collection"
+            >
+              <PencilIcon className="w-5 h-5 text-gray-600 dark:text-gray-300" />
+            </button>
+            {isOwner && (
+              <button
+                onClick={handleDelete}
+                className="p-3 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                aria-label="Delete collection"
+              >
+                <TrashIcon className="w-5 h-5 text-red-600 dark:text-red-400" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="mb-4">
+          <AlertBanner variant="error" description={actionError} onDismiss={() => setActionError(null)} isCompact />
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="mb-6">
+          <CollectionForm
+            initial={collection}
+            canChangeVisibility={isOwner}
+            isSaving={isSaving}
+            onSubmit={handleUpdate}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="mb-6 overflow-hidden rounded-xl bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-800 dark:to-gray-900">
+          {cover && (
+            <img src={apiService.constructImageUrl(cover)} alt="" className="h-48 md:h-64 w-full object-cover" />
+          )}
+          <div className="p-6">
+            <h1 className="text-3xl font-bold tracking-tight text-gray-900 dark:text-white">{collection.name}</h1>
+            <p className="mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <span className="inline-flex items-center gap-1" title={visibility?.description}>
+                <VisibilityIcon visibility={collection.visibility} className="w-4 h-4" />
+                {visibility?.label}
+              </span>
+              <span>·</span>
+              <span>{recipes.length} {recipes.length === 1 ? 'recipe' : 'recipes'}</span>
+              {!isOwner && collection.ownerDisplayName && (
+                <>
+                  <span>·</span>
+                  <span>by {collection.ownerDisplayName}</span>
+                </>
+              )}
+            </p>
+            {collection.description && (
+              <p className="mt-3 whitespace-pre-line text-gray-700 dark:text-gray-300">{collection.description}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {recipes.length === 0 ? (
+        <div className="text-center py-16">
+          <RectangleStackIcon className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+          <p className="text-gray-600 dark:text-gray-400">This collection is empty.</p>
+          {collection.canEdit && (
+            <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+              Open a recipe and use its collection button to add it here.
+            </p>
+          )}
+        </div>
+      ) : (
+        <ol className="space-y-2">
+          {recipes.map((recipe, index) => (
+            <li
+              key={recipe.id}
+              draggable={collection.canEdit}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={event => {
+                if (dragIndex !== null) event.preventDefault()
+              }}
+              onDrop={() => {
+                if (dragIndex !== null) handleMove(dragIndex, index)
+                setDragIndex(null)
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-3 rounded-lg border bg-white dark:bg-gray-800 p-3 ${
+                dragIndex === index ? 'border-blue-400 opacity-60' : 'border-gray-200 dark:border-gray-700'
+              } ${collection.canEdit ? 'cursor-move' : ''}`}
+            >
+              <span className="w-6 text-center text-sm font-medium text-gray-400">{index + 1}</span>
+              {recipe.image ? (
+                <img
+                  src={apiService.constructImageUrl(recipe.imageSizes?.small.url || recipe.image)}
+                  alt=""
+                  loading="lazy"
+                  className="h-14 w-14 flex-shrink-0 rounded-lg object-cover"
+                />
+              ) : (
+                <div className="h-14 w-14 flex-shrink-0 rounded-lg bg-gray-100 dark:bg-gray-700" />
+              )}
+              <div className="min-w-0 flex-1">
+                <Link
+                  to={`/recipe/${recipe.id}`}
+                  className="block truncate font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  {recipe.name}
+                </Link>
+                <p className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                  <ClockIcon className="w-4 h-4" />
+                  {recipe.totalTimeMinutes || recipe.prepTimeMinutes + (recipe.cookTimeMinutes || 0)} min
+                </p>
+              </div>
+              {collection.canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleMove(index, index - 1)}
+                    disabled={index === 0}
+                    className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${recipe.name} up`}
+                  >
+                    <ChevronUpIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, index + 1)}
+                    disabled={index === recipes.length - 1}
+                    className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${recipe.name} down`}
+                  >
+                    <ChevronDownIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(recipe)}
+                    className="p-1.5 rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                    aria-label={`Remove ${recipe.name} from collection`}
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
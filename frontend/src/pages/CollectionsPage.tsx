@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import { PlusIcon, RectangleStackIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { apiService, Collection, CollectionInput } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { getRandomLoadingHumor } from '../utils/humor'
+import { getCollectionCover, COLLECTION_VISIBILITY_OPTIONS } from '../utils/collections'
+import AlertBanner from '../components/AlertBanner'
+import CollectionForm, { VisibilityIcon } from '../components/CollectionForm'
+
+function CollectionCard({ collection, currentUserId }: { collection: Collection; currentUserId: string }) {
+  const cover = getCollectionCover(collection)
+  const visibility = COLLECTION_VISIBILITY_OPTIONS.find(option => option.id === collection.visibility)
+
+  return (
+    <Link
+      to={`/collections/${collection.id}`}
+      className="group block overflow-hidden rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:shadow-md transition-shadow"
+    >
+      <div className="h-36 bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-800">
+        {cover ? (
+          <img
+            src={apiService.constructImageUrl(cover)}
+            alt=""
+            loading="lazy"
+            className="h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <RectangleStackIcon className="w-10 h-10 text-gray-400 dark:text-gray-500" />
+          </div>
+        )}
+      </div>
+      <div className="p-4">
+        <h2 className="font-semibold text-gray-900 dark:text-white truncate">{collection.name}</h2>
+        <p className="mt-1 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>{collection.recipeCount} {collection.recipeCount === 1 ? 'recipe' : 'recipes'}</span>
+          <span>·</span>
+          <span className="inline-flex items-center gap-1" title={visibility?.description}>
+            <VisibilityIcon visibility={collection.visibility} className="w-4 h-4" />
+            {visibility?.label}
+          </span>
+          {collection.userId !== currentUserId && collection.ownerDisplayName && (
+            <>
+              <span>·</span>
+              <span className="truncate">by {collection.ownerDisplayName}</span>
+            </>
+          )}
+        </p>
+      </div>
+    </Link>
+  )
+}
+
+export default function CollectionsPage() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const loadCollections = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setCollections(await apiService.getCollections())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load collections')
+      console.error('Failed to load collections:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login')
+      return
+    }
+
+    loadCollections()
+  }, [user, navigate, loadCollections])
+
+  const handleCreate = async (values: CollectionInput & { name: string }) => {
+    try {
+      setIsSaving(true)
+      setSaveError(null)
+      const collection = await apiService.createCollection(values)
+      navigate(`/collections/${collection.id}`)
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to create collection')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!user) return null
+
+  return (
+    <div className="px-4 py-6 max-w-6xl mx-auto pb-20">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Collections</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Group recipes for an occasion, a person or a season.</p>
+        </div>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New collection
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="mb-6 space-y-3">
+          {saveError && (
+            <AlertBanner variant="error" description={saveError} onDismiss={() => setSaveError(null)} isCompact />
+          )}
+          <CollectionForm isSaving={isSaving} onSubmit={handleCreate} onCancel={() => setIsCreating(false)} />
+        </div>
+      )}
+
+      {error ? (
+        <AlertBanner
+          variant="error"
+          title="Error loading collections"
+          description={error}
+          actions={(
+            <button
+              type="button"
+              onClick={loadCollections}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Try Again
+            </button>
+          )}
+        />
+      ) : loading ? (
+        <div className="text-center py-20">
+          <div className="w-8 h-8 border-4 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading collections...</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500 mt-2 italic">
+            {getRandomLoadingHumor()}
+          </p>
+        </div>
+      ) : collections.length === 0 ? (
+        !isCreating && (
+          <div className="text-center py-20">
+            <RectangleStackIcon className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+            <p className="text-gray-600 dark:text-gray-400">No collections yet.</p>
+            <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+              Create one here, or use the collection button on any recipe.
+            </p>
+          </div>
+        )
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {collections.map(collection => (
+            <CollectionCard key={collection.id} collection={collection} currentUserId={user.id} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,450 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  XMarkIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  MicrophoneIcon,
+  ListBulletIcon,
+  SpeakerWaveIcon
+} from '@heroicons/react/24/outline'
+import { apiService, Recipe } from '../services/api'
+import { IngredientHelper } from '../utils/ingredientHelper'
+import { TextHeaderParser } from '../utils/textHeaderParser'
+import { scaleIngredient } from '../utils/scaleIngredient'
+import {
+  buildCookSteps,
+  splitStepText,
+  findDurations,
+  findStepIngredients,
+  parseVoiceCommand,
+  CookCommand
+} from '../utils/cookMode'
+import { sortTimers } from '../utils/kitchenTimers'
+import { useTimers } from '../contexts/TimerContext'
+import LoadingScreen from '../components/LoadingScreen'
+import { TimerRow } from '../components/TimerTray'
+
+// Minimal Web Speech API typings; SpeechRecognition is not in the DOM lib yet
+interface SpeechRecognitionResultEvent {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<{ transcript: string }>>
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean
+  interimResults: boolean
+  lang: string
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null
+  onend: (() => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  start: () => void
+  stop: () => void
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  const speechWindow = window as typeof window & {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition
+}
+
+/**
+ * Keep the screen on while cook mode is open. The browser releases the lock when
+ * the tab is hidden, so it is requested again when the page becomes visible.
+ */
+function useWakeLock() {
+  const [isActive, setIsActive] = useState(false)
+  const isSupported = typeof navigator !== 'undefined' && 'wakeLock' in navigator
+
+  useEffect(() => {
+    if (!isSupported) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const request = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request('screen')
+        if (cancelled) {
+          await sentinel.release()
+          return
+        }
+        setIsActive(true)
+        sentinel.addEventListener('release', () => setIsActive(false))
+      } catch (err) {
+        console.warn('Screen wake lock unavailable:', err)
+      }
+    }
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request()
+    }
+
+    request()
+    document.addEventListener('visibilitychange', onVisibilityChange)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      sentinel?.release().catch(() => {})
+    }
+  }, [isSupported])
+
+  return { isSupported, isActive }
+}
+
+/**
+ * Listen for spoken commands while enabled. Recognition stops itself after a pause,
+ * so it is restarted until the user turns voice control off.
+ */
+function useVoiceCommands(enabled: boolean, onCommand: (command: CookCommand) => void) {
+  const [error, setError] = useState<string | null>(null)
+  const onCommandRef = useRef(onCommand)
+  onCommandRef.current = onCommand
+  const Recognition = getSpeechRecognition()
+
+  useEffect(() => {
+    if (!enabled || !Recognition) return
+
+    let stopped = false
+    const recognition = new Recognition()
+    recognition.continuous = true
+    recognition.interimResults = false
+    recognition.lang = navigator.language || 'en-US'
+
+    recognition.onresult = (event) => {
+      const result = event.results[event.results.length - 1]
+      const command = result?.[0] ? parseVoiceCommand(result[0].transcript) : null
+      if (command) onCommandRef.current(command)
+    }
+    recognition.onerror = (event) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        stopped = true
+        setError('Microphone access was denied')
+      }
+    }
+    recognition.onend = () => {
+      if (!stopped) recognition.start()
+    }
+
+    setError(null)
+    recognition.start()
+
+    return () => {
+      stopped = true
+      recognition.onend = null
+      recognition.stop()
+    }
+  }, [enabled, Recognition])
+
+  return { isSupported: Boolean(Recognition), error }
+}
+
+function speak(text: string) {
+  if (!('speechSynthesis' in window)) return
+  window.speechSynthesis.cancel()
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text))
+}
+
+function CookModePage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const scale = Number(searchParams.get('scale')) || 1
+
+  const [recipe, setRecipe] = useState<Recipe | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [currentStep, setCurrentStep] = useState(0)
+  const [showIngredients, setShowIngredients] = useState(false)
+  const [voiceEnabled, setVoiceEnabled] = useState(false)
+  const { timers, now, startTimer: startKitchenTimer, toggleTimer, removeTimer } = useTimers()
+
+  const wakeLock = useWakeLock()
+
+  useEffect(() => {
+    const loadRecipe = async () => {
+      if (!id) return
+      try {
+        setLoading(true)
+        setRecipe(await apiService.getRecipe(id))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load recipe')
+        console.error('Failed to load recipe:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRecipe()
+  }, [id])
+
+  const steps = useMemo(() => buildCookSteps(recipe?.instructions ?? []), [recipe])
+  const ingredients = useMemo(() => (recipe ? IngredientHelper.getAllIngredients(recipe.ingredients) : []), [recipe])
+  const step = steps[currentStep]
+  const stepIngredients = useMemo(
+    () => (step ? findStepIngredients(step.text, ingredients) : []),
+    [step, ingredients]
+  )
+
+  const startTimer = useCallback((label: string, seconds: number, stepNumber: number) => {
+    startKitchenTimer({ label, seconds, stepNumber, recipeId: recipe?.id, recipeName: recipe?.name })
+  }, [startKitchenTimer, recipe])
+
+  const goToStep = useCallback((index: number) => {
+    setCurrentStep(Math.min(Math.max(index, 0), Math.max(steps.length - 1, 0)))
+  }, [steps.length])
+
+  const exitCookMode = useCallback(() => {
+    navigate(`/recipe/${id}`)
+  }, [navigate, id])
+
+  const handleCommand = useCallback((command: CookCommand) => {
+    switch (command) {
+      case 'next':
+        goToStep(currentStep + 1)
+        break
+      case 'previous':
+        goToStep(currentStep - 1)
+        break
+      case 'repeat':
+        if (step) speak(step.text)
+        break
+      case 'timer': {
+        const [duration] = step ? findDurations(step.text) : []
+        if (duration) startTimer(duration.text, duration.seconds, currentStep + 1)
+        break
+      }
+      case 'ingredients':
+        setShowIngredients(show => !show)
+        break
+      case 'exit':
+        exitCookMode()
+        break
+    }
+  }, [currentStep, step, goToStep, startTimer, exitCookMode])
+
+  const voice = useVoiceCommands(voiceEnabled, handleCommand)
+
+  useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return
+
+      const commands: Record<string, CookCommand> = {
+        ArrowRight: 'next',
+        ' ': 'next',
+        ArrowLeft: 'previous',
+        r: 'repeat',
+        t: 'timer',
+        i: 'ingredients',
+        Escape: 'exit'
+      }
+      const command = commands[event.key]
+      if (command) {
+        event.preventDefault()
+        handleCommand(command)
+      }
+    }
+
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [handleCommand])
+
+  if (loading) {
+    return <LoadingScreen message="Preparing your kitchen..." />
+  }
+
+  if (error || !recipe || steps.length === 0) {
+    return (
+      <div className="px-4 py-20 max-w-md mx-auto text-center">
+        <h1 className="text-2xl font-semibold mb-2 text-gray-900 dark:text-white">Cook mode unavailable</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">{error || 'This recipe has no instructions to step through.'}</p>
+        <button
+          onClick={() => navigate(id ? `/recipe/${id}` : '/')}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+        >
+          Back to recipe
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white dark:bg-gray-900 text-gray-900 dark:text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Step {currentStep + 1} of {steps.length}
+            {wakeLock.isActive && <span className="ml-2">· Screen stays on</span>}
+          </p>
+          <h1 className="font-semibold truncate">{recipe.name}</h1>
+        </div>
+        <div className="flex items-center gap-1">
+          {voice.isSupported && (
+            <button
+              onClick={() => setVoiceEnabled(!voiceEnabled)}
+              aria-pressed={voiceEnabled}
+              className={`p-3 rounded-full transition-colors ${
+                voiceEnabled
+                  ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-300'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+              aria-label={voiceEnabled ? 'Stop voice control' : 'Start voice control'}
+              title='Voice control: say "next", "back", "repeat", "timer" or "ingredients"'
+            >
+              <MicrophoneIcon className="w-6 h-6" />
+            </button>
+          )}
+          <button
+            onClick={() => speak(step.text)}
+            className="p-3 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            aria-label="Read step aloud"
+          >
+            <SpeakerWaveIcon className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => setShowIngredients(!showIngredients)}
+            aria-pressed={showIngredients}
+            className="p-3 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            aria-label="Show ingredients"
+          >
+            <ListBulletIcon className="w-6 h-6" />
+          </button>
+          <button
+            onClick={exitCookMode}
+            className="p-3 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            aria-label="Exit cook mode"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      {voice.error && (
+        <p className="px-4 py-2 text-sm text-red-700 bg-red-50 dark:text-red-300 dark:bg-red-900/20">{voice.error}</p>
+      )}
+
+      {/* Progress */}
+      <div className="h-1 bg-gray-100 dark:bg-gray-800">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${((currentStep + 1) / steps.length) * 100}%` }} />
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Current step */}
+        <div className="flex-1 overflow-y-auto px-6 py-8 md:px-12">
+          <div className="max-w-3xl mx-auto">
+            {step.section && (
+              <p className="mb-3 text-sm font-semibold uppercase tracking-wide text-blue-600 dark:text-blue-400">{step.section}</p>
+            )}
+            <p className="text-2xl md:text-4xl leading-snug md:leading-snug" aria-live="polite">
+              {splitStepText(step.text).map((segment, index) =>
+                segment.type === 'duration' ? (
+                  <button
+                    key={index}
+                    onClick={() => startTimer(segment.content, segment.duration.seconds, currentStep + 1)}
+                    className="inline-flex items-center gap-1 px-2 rounded-lg bg-amber-100 text-amber-900 hover:bg-amber-200 dark:bg-amber-900/40 dark:text-amber-200 dark:hover:bg-amber-900/60 transition-colors"
+                    title="Start a timer"
+                  >
+                    <ClockIcon className="w-6 h-6 md:w-8 md:h-8" />
+                    {segment.content}
+                  </button>
+                ) : (
+                  <span key={index}>{segment.content}</span>
+                )
+              )}
+            </p>
+
+            {stepIngredients.length > 0 && (
+              <div className="mt-8 flex flex-wrap gap-2">
+                {stepIngredients.map(index => (
+                  <span key={index} className="px-3 py-1 rounded-full bg-green-100 text-green-900 dark:bg-green-900/30 dark:text-green-200">
+                    {scaleIngredient(ingredients[index], scale)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Ingredients */}
+        {showIngredients && (
+          <aside className="w-full sm:w-80 absolute sm:static inset-x-0 top-16 bottom-24 z-10 overflow-y-auto border-l border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 p-4">
+            <h2 className="font-semibold mb-3">Ingredients</h2>
+            <ul className="space-y-1">
+              {ingredients.map((ingredient, index) =>
+                TextHeaderParser.isPureHeader(ingredient) ? (
+                  <li key={index} className="pt-2 text-sm font-semibold text-gray-500 dark:text-gray-400">
+                    {TextHeaderParser.parseText(ingredient).map(segment => segment.content).join(' ')}
+                  </li>
+                ) : (
+                  <li
+                    key={index}
+                    className={`rounded px-2 py-1 ${
+                      stepIngredients.includes(index)
+                        ? 'bg-green-100 text-green-900 font-medium dark:bg-green-900/30 dark:text-green-200'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {scaleIngredient(ingredient, scale)}
+                  </li>
+                )
+              )}
+            </ul>
+          </aside>
+        )}
+      </div>
+
+      {/* Timers */}
+      {timers.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto px-4 py-2 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+          {sortTimers(timers, now).map(timer => (
+            <div key={timer.id} className="w-64 flex-shrink-0">
+              <TimerRow
+                timer={timer}
+                now={now}
+                onToggle={() => toggleTimer(timer.id)}
+                onRemove={() => removeTimer(timer.id)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Step navigation */}
+      <div className="grid grid-cols-2 gap-3 p-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => goToStep(currentStep - 1)}
+          disabled={currentStep === 0}
+          className="flex items-center justify-center gap-2 py-4 rounded-xl text-lg font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 disabled:opacity-40 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          <ChevronLeftIcon className="w-6 h-6" />
+          Back
+        </button>
+        {currentStep < steps.length - 1 ? (
+          <button
+            onClick={() => goToStep(currentStep + 1)}
+            className="flex items-center justify-center gap-2 py-4 rounded-xl text-lg font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            Next
+            <ChevronRightIcon className="w-6 h-6" />
+          </button>
+        ) : (
+          <button
+            onClick={exitCookMode}
+            className="flex items-center justify-center gap-2 py-4 rounded-xl text-lg font-medium bg-green-600 text-white hover:bg-green-700 transition-colors"
+          >
+            Done
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CookModePage
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { EnvelopeIcon } from '@heroicons/react/24/outline'
+import { apiService } from '../services/api'
+import AlertBanner from '../components/AlertBanner'
+import AuthPageLayout from '../components/auth/AuthPageLayout'
+
+function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentMessage, setSentMessage] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting || !email.trim()) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await apiService.requestPasswordReset(email.trim())
+      setSentMessage(response.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the reset link')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthPageLayout>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="text-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Forgot your password?</h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Enter your email and we'll send you a link to choose a new one.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <AlertBanner
+            variant="success"
+            title="Check your email"
+            description={`${sentMessage} The link expires in an hour.`}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                placeholder="your@email.com"
+                inputMode="email"
+                autoComplete="email"
+                autoCapitalize="none"
+                autoCorrect="off"
+                spellCheck="false"
+              />
+            </div>
+
+            {error && (
+              <AlertBanner
+                variant="error"
+                description={error}
+                onDismiss={() => setError(null)}
+                isCompact
+              />
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full inline-flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:cursor-not-allowed"
+            >
+              <EnvelopeIcon className="w-5 h-5" />
+              {isSubmitting ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link
+            to="/login"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </AuthPageLayout>
+  )
+}
+
+export default ForgotPasswordPage
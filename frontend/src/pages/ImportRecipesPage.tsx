@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ChangeEvent } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import {
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  DocumentArrowUpIcon
+} from '@heroicons/react/24/outline'
+import { apiService, ImportFormat, RecipeImportJob } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { SUPPORTED_LANGUAGES } from '../constants/languages'
+import AlertBanner from '../components/AlertBanner'
+
+const POLL_INTERVAL_MS = 1500
+const ACCEPTED_FILES = '.paprikarecipes,.paprikarecipe,.zip,.json,.jsonld,.html,.htm'
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  paprika: 'Paprika',
+  mealie: 'Mealie',
+  tandoor: 'Tandoor',
+  jsonld: 'schema.org JSON-LD'
+}
+
+function isActive(job: RecipeImportJob): boolean {
+  return job.status === 'pending' || job.status === 'running'
+}
+
+function ImportProgress({ job }: { job: RecipeImportJob }) {
+  const percentage = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900 dark:text-white truncate">{job.filename}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {job.format ? FORMAT_LABELS[job.format] : 'Reading file'}
+            {job.total > 0 && ` · ${job.processed} of ${job.total} recipes`}
+          </p>
+        </div>
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {job.status === 'completed'
+            ? `${job.succeeded} imported, ${job.failed} failed`
+            : job.status === 'failed'
+              ? 'Failed'
+              : `${percentage}%`}
+        </span>
+      </div>
+
+      {isActive(job) && (
+        <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      )}
+
+      {job.error && (
+        <AlertBanner variant="error" description={job.error} className="mt-3" isCompact />
+      )}
+
+      {job.results.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100 dark:divide-gray-700">
+          {job.results.map((result, index) => (
+            <li key={`${result.name}-${index}`} className="flex items-start gap-2 py-2 text-sm">
+              {result.status === 'imported' ? (
+                <CheckCircleIcon className="w-5 h-5 flex-shrink-0 text-green-600 dark:text-green-400" />
+              ) : (
+                <XCircleIcon className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+              )}
+              <div className="min-w-0">
+                {result.recipeId ? (
+                  <Link
+                    to={`/recipe/${result.recipeId}`}
+                    className="text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {result.name}
+                  </Link>
+                ) : (
+                  <span className="text-gray-900 dark:text-white">{result.name}</span>
+                )}
+                {result.error && (
+                  <p className="text-red-600 dark:text-red-400">{result.error}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function ImportRecipesPage() {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  const [file, setFile] = useState<File | null>(null)
+  const [language, setLanguage] = useState(user?.defaultTranslationLanguage || 'en')
+  const [isPublic, setIsPublic] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [jobs, setJobs] = useState<RecipeImportJob[]>([])
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await apiService.getRecipeImports())
+    } catch (err) {
+      console.error('Failed to load imports:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login')
+      return
+    }
+
+    loadJobs()
+  }, [user, navigate, loadJobs])
+
+  // Poll running imports until they finish
+  useEffect(() => {
+    const activeJobs = jobs.filter(isActive)
+    if (activeJobs.length === 0) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const updated = await Promise.all(activeJobs.map(job => apiService.getRecipeImport(job.id)))
+        setJobs(prev => prev.map(job => updated.find(candidate => candidate.id === job.id) || job))
+      } catch (err) {
+        console.error('Failed to refresh import progress:', err)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [jobs])
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null)
+    setError(null)
+  }
+
+  const handleImport = async () => {
+    if (!file || isUploading) return
+
+    try {
+      setIsUploading(true)
+      setError(null)
+      const job = await apiService.startRecipeImport(file, { language, isPublic })
+      setJobs(prev => [job, ...prev])
+      setFile(null)
+    } catch (err) {
+      console.error('Failed to start import:', err)
+      setError(err instanceof Error ? err.message : 'Failed to start import. Please try again.')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="px-3 py-4 max-w-4xl mx-auto pb-20">
+      <h1 className="text-2xl font-semibold text-gray-900 dark:text-white mb-1">Import Recipes</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-4">
+        Bring your collection over from Paprika (.paprikarecipes), Mealie or Tandoor (zip or JSON exports),
+        or any schema.org JSON-LD file or saved recipe page.
+      </p>
+
+      {error && (
+        <div className="mb-4">
+          <AlertBanner variant="error" description={error} onDismiss={() => setError(null)} />
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-6 space-y-4">
+        <label className="flex flex-col items-center justify-center gap-2 px-4 py-8 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:border-blue-400 dark:hover:border-blue-500 transition-colors">
+          <DocumentArrowUpIcon className="w-8 h-8 text-gray-400" />
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            {file ? file.name : 'Choose an export file'}
+          </span>
+          <input
+            type="file"
+            accept={ACCEPTED_FILES}
+            onChange={handleFileChange}
+            className="sr-only"
+            disabled={isUploading}
+          />
+        </label>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          <label className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Language for recipes without one</span>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SUPPORTED_LANGUAGES.map(lang => (
+                <option key={lang.code} value={lang.code}>
+                  {lang.name} ({lang.nativeName})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:self-end sm:pb-2">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Make imported recipes public
+          </label>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={!file || isUploading}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors disabled:cursor-not-allowed"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          {isUploading ? 'Uploading...' : 'Start Import'}
+        </button>
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent imports</h2>
+          {jobs.map(job => (
+            <ImportProgress key={job.id} job={job} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ImportRecipesPage
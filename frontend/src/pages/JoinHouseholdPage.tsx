@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { UserGroupIcon } from '@heroicons/react/24/outline'
+import { apiService } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { HouseholdInvitationPreview } from '../types/user'
+import { HOUSEHOLD_ROLE_OPTIONS } from '../utils/householdRoles'
+import AlertBanner from '../components/AlertBanner'
+import AuthPageLayout from '../components/auth/AuthPageLayout'
+
+const UNAVAILABLE_MESSAGES = {
+  expired: 'This invitation has expired. Ask for a new link.',
+  used_up: 'This invitation has already been used. Ask for a new link.',
+  revoked: 'This invitation was revoked. Ask for a new link.'
+}
+
+const linkClassName = 'text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium'
+
+// Opened from an invite link or its QR code: shows the invitation and joins the household on request
+function JoinHouseholdPage() {
+  const { token = '' } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const { user, isLoading, refreshUser } = useAuth()
+  const [preview, setPreview] = useState<{ invitation: HouseholdInvitationPreview; alreadyMember: boolean } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    apiService.previewHouseholdInvitation(token)
+      .then(setPreview)
+      .catch(err => setError(err instanceof Error ? err.message : 'This invitation could not be loaded'))
+  }, [token, user])
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    setError(null)
+
+    try {
+      await apiService.acceptHouseholdInvitation(token)
+      await refreshUser()
+      navigate('/')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation')
+      setAccepting(false)
+    }
+  }
+
+  const invitation = preview?.invitation
+  const roleLabel = HOUSEHOLD_ROLE_OPTIONS.find(option => option.id === invitation?.role)?.label.toLowerCase()
+
+  return (
+    <AuthPageLayout>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <UserGroupIcon className="w-10 h-10 text-blue-600 dark:text-blue-400" />
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {invitation ? `Join ${invitation.householdName}` : 'Household invitation'}
+          </h2>
+        </div>
+
+        {error && <AlertBanner variant="error" description={error} />}
+
+        {(isLoading || (user && !preview && !error)) && (
+          <div className="text-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">Loading invitation...</p>
+          </div>
+        )}
+
+        {!isLoading && !user && (
+          <div className="text-center space-y-3">
+            <p className="text-gray-600 dark:text-gray-400">
+              You have been invited to share recipes, shopping lists and meal plans in a household. Sign in or create an account to see the invitation.
+            </p>
+            <Link to={`/login?redirect=${encodeURIComponent(`/join/${token}`)}`} className={linkClassName}>
+              Sign in to continue
+            </Link>
+          </div>
+        )}
+
+        {user && invitation && (
+          <div className="space-y-4">
+            <p className="text-center text-gray-600 dark:text-gray-400">
+              {invitation.invitedBy} invited you to join <span className="font-medium text-gray-900 dark:text-white">{invitation.householdName}</span> as {roleLabel === 'admin' ? 'an' : 'a'} {roleLabel}.
+            </p>
+
+            {invitation.emailRestricted && invitation.status === 'active' && (
+              <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                This invitation is for one email address, which must be confirmed on your account.
+              </p>
+            )}
+
+            {preview.alreadyMember ? (
+              <AlertBanner variant="info" description="You are already a member of this household." />
+            ) : invitation.status !== 'active' ? (
+              <AlertBanner variant="warning" description={UNAVAILABLE_MESSAGES[invitation.status]} />
+            ) : (
+              <button
+                onClick={handleAccept}
+                disabled={accepting}
+                className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium rounded-lg transition-colors"
+              >
+                {accepting ? 'Joining...' : 'Join Household'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {user && (preview?.alreadyMember || error || (invitation && invitation.status !== 'active')) && (
+          <div className="text-center">
+            <Link to="/settings" className={linkClassName}>
+              Go to household settings
+            </Link>
+          </div>
+        )}
+      </div>
+    </AuthPageLayout>
+  )
+}
+
+export default JoinHouseholdPage
@@ -4,13 +4,18 @@ import { useAuth } from '../contexts/AuthContext'
 import LoginForm from '../components/auth/LoginForm'
 import RegisterForm from '../components/auth/RegisterForm'
 import AlertBanner from '../components/AlertBanner'
+import AuthPageLayout from '../components/auth/AuthPageLayout'
 
 function LoginPage() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const { user, isLoading } = useAuth()
   const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
   const [mode, setMode] = useState<'login' | 'register'>('login')
+  // Pages such as invite links send people here and back; only paths on this site are followed
+  const redirectParam = searchParams.get('redirect')
+  const redirectTo = redirectParam && /^\/(?![/\\])/.test(redirectParam) ? redirectParam : '/dashboard'
 
   useEffect(() => {
     // Handle OAuth errors from URL parameters
@@ -27,17 +32,21 @@ function LoginPage() {
           setError('Authentication error occurred. Please try again.')
       }
     }
+
+    if (searchParams.get('passwordReset') === '1') {
+      setNotice('Your password was reset. Sign in with your new password.')
+    }
   }, [searchParams])
 
   useEffect(() => {
-    // Redirect to dashboard if already logged in
+    // Redirect to dashboard (or the page that sent the user here) if already logged in
     if (user && !isLoading) {
-      navigate('/dashboard')
+      navigate(redirectTo)
     }
-  }, [user, isLoading, navigate])
+  }, [user, isLoading, navigate, redirectTo])
 
   const handleSuccess = () => {
-    navigate('/dashboard')
+    navigate(redirectTo)
   }
 
   if (isLoading) {
@@ -52,35 +61,36 @@ function LoginPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4 sm:px-6 lg:px-8">
-    <div className="max-w-md w-full space-y-4">
-        <div className="text-center">
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Recipe Reaper</h1>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">Your personal recipe collection</p>
-        </div>
+    <AuthPageLayout>
+      {notice && (
+        <AlertBanner
+          variant="success"
+          description={notice}
+          onDismiss={() => setNotice(null)}
+        />
+      )}
 
-        {error && (
-          <AlertBanner
-            variant="error"
-            description={error}
-            onDismiss={() => setError(null)}
-          />
-        )}
+      {error && (
+        <AlertBanner
+          variant="error"
+          description={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
 
-        {mode === 'login' ? (
-          <LoginForm
-            onSuccess={handleSuccess}
-            onSwitchToRegister={() => setMode('register')}
-          />
-        ) : (
-          <RegisterForm
-            onSuccess={handleSuccess}
-            onSwitchToLogin={() => setMode('login')}
-          />
-        )}
-      </div>
-    </div>
+      {mode === 'login' ? (
+        <LoginForm
+          onSuccess={handleSuccess}
+          onSwitchToRegister={() => setMode('register')}
+        />
+      ) : (
+        <RegisterForm
+          onSuccess={handleSuccess}
+          onSwitchToLogin={() => setMode('login')}
+        />
+      )}
+    </AuthPageLayout>
   )
 }
 
-export default LoginPage
\ No newline at end of file
+export default LoginPage
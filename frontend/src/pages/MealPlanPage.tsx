@@ -0,0 +1,360 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PlusIcon,
+  TrashIcon,
+  ShoppingBagIcon,
+  ArrowPathIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { apiService, MealPlanEntry, MealSlot, Recipe } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { getRandomLoadingHumor } from '../utils/humor'
+import { toDateKey, addDays, getWeekStart, getWeekDays, formatDayLabel } from '../utils/mealPlanDates'
+import AlertBanner, { AlertVariant } from '../components/AlertBanner'
+
+const MEAL_SLOTS: Array<{ id: MealSlot; label: string }> = [
+  { id: 'breakfast', label: 'Breakfast' },
+  { id: 'lunch', label: 'Lunch' },
+  { id: 'dinner', label: 'Dinner' },
+  { id: 'snack', label: 'Snack' }
+]
+
+interface AddMealFormProps {
+  recipes: Recipe[]
+  onAdd: (recipeId: string, servings?: number) => Promise<void>
+  onCancel: () => void
+}
+
+function AddMealForm({ recipes, onAdd, onCancel }: AddMealFormProps) {
+  const [recipeId, setRecipeId] = useState('')
+  const [servings, setServings] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const selectedRecipe = recipes.find(recipe => recipe.id === recipeId)
+
+  const handleSubmit = async () => {
+    if (!recipeId || saving) return
+    try {
+      setSaving(true)
+      await onAdd(recipeId, servings ? parseInt(servings) : undefined)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-1 p-2 space-y-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <select
+        value={recipeId}
+        onChange={(e) => setRecipeId(e.target.value)}
+        aria-label="Recipe"
+        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+      >
+        <option value="">Choose a recipe...</option>
+        {recipes.map(recipe => (
+          <option key={recipe.id} value={recipe.id}>{recipe.name}</option>
+        ))}
+      </select>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={servings}
+          onChange={(e) => setServings(e.target.value)}
+          placeholder={selectedRecipe ? `${selectedRecipe.servings} servings` : 'Servings'}
+          aria-label="Servings"
+          className="w-28 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!recipeId || saving}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors disabled:cursor-not-allowed"
+        >
+          {saving ? 'Adding...' : 'Add'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          aria-label="Cancel"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default function MealPlanPage() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(toDateKey(new Date())))
+  const [entries, setEntries] = useState<MealPlanEntry[]>([])
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [banner, setBanner] = useState<{ variant: AlertVariant; message: string } | null>(null)
+  const [addingTo, setAddingTo] = useState<string | null>(null)
+  const [generating, setGenerating] = useState(false)
+  const showBanner = useCallback((variant: AlertVariant, message: string) => {
+    setBanner({ variant, message })
+  }, [])
+
+  const weekDays = useMemo(() => getWeekDays(weekStart), [weekStart])
+  const weekEnd = weekDays[weekDays.length - 1]
+  const today = toDateKey(new Date())
+
+  const loadWeek = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const plan = await apiService.getMealPlans(weekStart, addDays(weekStart, 6))
+      setEntries(plan.entries)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load meal plan')
+      console.error('Failed to load meal plan:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [weekStart])
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login')
+      return
+    }
+
+    loadWeek()
+  }, [user, navigate, loadWeek])
+
+  useEffect(() => {
+    if (!user) return
+
+    apiService.getRecipes({ scope: 'my', sortBy: 'name' })
+      .then(setRecipes)
+      .catch(err => console.error('Failed to load recipes for meal plan:', err))
+  }, [user])
+
+  const entriesBySlot = useMemo(() => {
+    const grouped = new Map<string, MealPlanEntry[]>()
+    for (const entry of entries) {
+      const key = `${entry.date}:${entry.mealSlot}`
+      grouped.set(key, [...(grouped.get(key) || []), entry])
+    }
+    return grouped
+  }, [entries])
+
+  const handleAddMeal = useCallback(async (date: string, mealSlot: MealSlot, recipeId: string, servings?: number) => {
+    try {
+      const entry = await apiService.createMealPlan({ date, mealSlot, recipeId, servings })
+      setEntries(prev => [...prev, entry])
+      setAddingTo(null)
+    } catch (err) {
+      console.error('Failed to add meal:', err)
+      showBanner('error', err instanceof Error ? err.message : 'Failed to add meal. Please try again.')
+    }
+  }, [showBanner])
+
+  const handleServingsChange = useCallback(async (entry: MealPlanEntry, servings: number) => {
+    if (servings < 1 || servings > 100) return
+
+    setEntries(prev => prev.map(item => item.id === entry.id ? { ...item, servings } : item))
+    try {
+      await apiService.updateMealPlan(entry.id, { servings })
+    } catch (err) {
+      setEntries(prev => prev.map(item => item.id === entry.id ? entry : item))
+      console.error('Failed to update servings:', err)
+      showBanner('error', 'Failed to update servings. Please try again.')
+    }
+  }, [showBanner])
+
+  const handleDeleteMeal = useCallback(async (id: string) => {
+    const previousEntries = [...entries]
+    setEntries(prev => prev.filter(entry => entry.id !== id))
+
+    try {
+      await apiService.deleteMealPlan(id)
+    } catch (err) {
+      setEntries(previousEntries)
+      console.error('Failed to remove meal:', err)
+      showBanner('error', 'Failed to remove meal. Please try again.')
+    }
+  }, [entries, showBanner])
+
+  const handleGenerateShoppingList = useCallback(async () => {
+    try {
+      setGenerating(true)
+      const result = await apiService.generateShoppingListFromMealPlan(weekStart, weekEnd)
+      showBanner('success', result.message)
+    } catch (err) {
+      console.error('Failed to generate shopping list:', err)
+      showBanner('error', err instanceof Error ? err.message : 'Failed to generate shopping list. Please try again.')
+    } finally {
+      setGenerating(false)
+    }
+  }, [weekStart, weekEnd, showBanner])
+
+  if (error) {
+    return (
+      <div className="px-4 py-8 max-w-4xl mx-auto">
+        <div className="py-20">
+          <div className="max-w-md mx-auto space-y-6 text-center">
+            <AlertBanner
+              variant="error"
+              title="Error loading meal plan"
+              description={error}
+              actions={(
+                <button
+                  type="button"
+                  onClick={loadWeek}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                  <ArrowPathIcon className="w-4 h-4" />
+                  Try Again
+                </button>
+              )}
+            />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-3 py-4 max-w-6xl mx-auto pb-20">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            aria-label="Previous week"
+          >
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <p className="text-gray-900 dark:text-white font-medium">
+            {formatDayLabel(weekStart)} – {formatDayLabel(weekEnd)}
+          </p>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            aria-label="Next week"
+          >
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+          {weekStart !== getWeekStart(today) && (
+            <button
+              onClick={() => setWeekStart(getWeekStart(today))}
+              className="px-3 py-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              This week
+            </button>
+          )}
+        </div>
+
+        <button
+          onClick={handleGenerateShoppingList}
+          disabled={generating || entries.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-sm rounded-lg transition-colors disabled:cursor-not-allowed"
+        >
+          <ShoppingBagIcon className="w-4 h-4" />
+          {generating ? 'Adding...' : 'Generate shopping list for this week'}
+        </button>
+      </div>
+
+      {banner && (
+        <div className="mb-4">
+          <AlertBanner
+            variant={banner.variant}
+            description={banner.message}
+            onDismiss={() => setBanner(null)}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-20">
+          <div className="w-8 h-8 border-4 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading meal plan...</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500 mt-2 italic">
+            {getRandomLoadingHumor()}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7">
+          {weekDays.map(day => (
+            <div
+              key={day}
+              className={`p-3 bg-white dark:bg-gray-800 rounded-lg border ${
+                day === today ? 'border-blue-400 dark:border-blue-500' : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{formatDayLabel(day)}</h2>
+              <div className="space-y-3">
+                {MEAL_SLOTS.map(slot => {
+                  const slotKey = `${day}:${slot.id}`
+                  const slotEntries = entriesBySlot.get(slotKey) || []
+
+                  return (
+                    <div key={slot.id}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                          {slot.label}
+                        </span>
+                        <button
+                          onClick={() => setAddingTo(addingTo === slotKey ? null : slotKey)}
+                          className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                          aria-label={`Add ${slot.label.toLowerCase()} on ${formatDayLabel(day)}`}
+                        >
+                          <PlusIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {slotEntries.map(entry => (
+                        <div key={entry.id} className="flex items-center gap-1 mt-1">
+                          <Link
+                            to={`/recipe/${entry.recipeId}`}
+                            className="flex-1 min-w-0 truncate text-sm text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            {entry.recipeName}
+                          </Link>
+                          <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={entry.servings ?? entry.recipeServings ?? ''}
+                            onChange={(e) => handleServingsChange(entry, parseInt(e.target.value))}
+                            aria-label={`Servings for ${entry.recipeName}`}
+                            className="w-12 px-1 py-0.5 text-xs text-center border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                          />
+                          <button
+                            onClick={() => handleDeleteMeal(entry.id)}
+                            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            aria-label={`Remove ${entry.recipeName}`}
+                          >
+                            <TrashIcon className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      ))}
+
+                      {addingTo === slotKey && (
+                        <AddMealForm
+                          recipes={recipes}
+                          onAdd={(recipeId, servings) => handleAddMeal(day, slot.id, recipeId, servings)}
+                          onCancel={() => setAddingTo(null)}
+                        />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
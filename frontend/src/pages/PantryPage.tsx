@@ -0,0 +1,398 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import type { KeyboardEvent } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import {
+  ArchiveBoxIcon,
+  TrashIcon,
+  ArrowPathIcon,
+  PlusIcon,
+  ShoppingBagIcon
+} from '@heroicons/react/24/outline'
+import { apiService, PantryItem, PantryRecipeMatch } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import { getCategoryById, IngredientCategory } from '../utils/categories'
+import { getRandomLoadingHumor } from '../utils/humor'
+import AlertBanner, { AlertVariant } from '../components/AlertBanner'
+
+const MAX_MISSING_OPTIONS = [
+  { value: '', label: 'Any number missing' },
+  { value: '0', label: 'Nothing missing' },
+  { value: '1', label: 'At most 1 missing' },
+  { value: '3', label: 'At most 3 missing' }
+]
+
+interface PantryMatchCardProps {
+  match: PantryRecipeMatch
+  isAdding: boolean
+  onAddMissing: (match: PantryRecipeMatch) => void
+}
+
+function PantryMatchCard({ match, isAdding, onAddMissing }: PantryMatchCardProps) {
+  const percentage = Math.round(match.matchRatio * 100)
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <Link
+            to={`/recipe/${match.recipe.id}`}
+            className="text-base font-semibold text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+          >
+            {match.recipe.name}
+          </Link>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            You have {match.matchedCount} of {match.totalCount} ingredients
+          </p>
+        </div>
+        <span
+          className={`flex-shrink-0 text-sm font-medium px-2 py-1 rounded ${
+            match.missingIngredients.length === 0
+              ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+          }`}
+        >
+          {percentage}%
+        </span>
+      </div>
+
+      <div className="mt-2 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-green-500" style={{ width: `${percentage}%` }} />
+      </div>
+
+      {match.missingIngredients.length > 0 ? (
+        <div className="mt-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+            Missing
+          </p>
+          <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+            {match.missingIngredients.map((ingredient, index) => (
+              <li key={index}>{ingredient}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onAddMissing(match)}
+            disabled={isAdding}
+            className="mt-3 inline-flex items-center gap-2 px-3 py-1.5 text-sm text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ShoppingBagIcon className="w-4 h-4" />
+            {isAdding ? 'Adding...' : 'Add missing to shopping list'}
+          </button>
+        </div>
+      ) : (
+        <p className="mt-3 text-sm text-green-700 dark:text-green-300">
+          You have everything you need.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default function PantryPage() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [items, setItems] = useState<PantryItem[]>([])
+  const [matches, setMatches] = useState<PantryRecipeMatch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [matchesLoading, setMatchesLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [banner, setBanner] = useState<{ variant: AlertVariant; message: string } | null>(null)
+  const [newItem, setNewItem] = useState('')
+  const [isAddingItem, setIsAddingItem] = useState(false)
+  const [maxMissing, setMaxMissing] = useState('')
+  const [addingMissingFor, setAddingMissingFor] = useState<string | null>(null)
+  const showBanner = useCallback((variant: AlertVariant, message: string) => {
+    setBanner({ variant, message })
+  }, [])
+
+  const loadPantry = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const pantry = await apiService.getPantry()
+      setItems(pantry)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pantry')
+      console.error('Failed to load pantry:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const loadMatches = useCallback(async () => {
+    try {
+      setMatchesLoading(true)
+      const result = await apiService.getPantryRecipeMatches({
+        maxMissing: maxMissing === '' ? undefined : parseInt(maxMissing)
+      })
+      setMatches(result)
+    } catch (err) {
+      console.error('Failed to load pantry matches:', err)
+      showBanner('error', 'Failed to find recipes for your pantry. Please try again.')
+    } finally {
+      setMatchesLoading(false)
+    }
+  }, [maxMissing, showBanner])
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login')
+      return
+    }
+
+    loadPantry()
+  }, [user, navigate, loadPantry])
+
+  // Refresh suggestions whenever the pantry contents or filter change
+  useEffect(() => {
+    if (loading || error) return
+    if (items.length === 0) {
+      setMatches([])
+      return
+    }
+    loadMatches()
+  }, [items, loading, error, loadMatches])
+
+  const handleAddItem = useCallback(async () => {
+    const trimmedItem = newItem.trim()
+    if (!trimmedItem || isAddingItem) return
+
+    try {
+      setIsAddingItem(true)
+      const item = await apiService.addPantryItem({ name: trimmedItem })
+      setItems(prev => prev.some(existing => existing.id === item.id) ? prev : [...prev, item])
+      setNewItem('')
+    } catch (err) {
+      console.error('Failed to add pantry item:', err)
+      showBanner('error', 'Failed to add item. Please try again.')
+    } finally {
+      setIsAddingItem(false)
+    }
+  }, [isAddingItem, newItem, showBanner])
+
+  const handleNewItemKeyDown = useCallback((event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      handleAddItem()
+    }
+  }, [handleAddItem])
+
+  const handleDeleteItem = useCallback(async (id: string) => {
+    const previousItems = [...items]
+    setItems(prev => prev.filter(item => item.id !== id))
+
+    try {
+      await apiService.deletePantryItem(id)
+    } catch (err) {
+      setItems(previousItems)
+      console.error('Failed to delete pantry item:', err)
+      showBanner('error', 'Failed to remove item. Please try again.')
+    }
+  }, [items, showBanner])
+
+  const handleAddMissing = useCallback(async (match: PantryRecipeMatch) => {
+    try {
+      setAddingMissingFor(match.recipe.id)
+      await apiService.addToShoppingList({
+        ingredients: match.missingIngredients,
+        recipeId: match.recipe.id,
+        recipeName: match.recipe.name
+      })
+      showBanner('success', `Added ${match.missingIngredients.length} item(s) for ${match.recipe.name} to your shopping list.`)
+    } catch (err) {
+      console.error('Failed to add missing ingredients:', err)
+      showBanner('error', 'Failed to add ingredients to your shopping list. Please try again.')
+    } finally {
+      setAddingMissingFor(null)
+    }
+  }, [showBanner])
+
+  const sortedCategoryEntries = useMemo(() => {
+    const grouped: Record<string, { category: IngredientCategory; items: PantryItem[] }> = {}
+
+    items.forEach(item => {
+      const categoryId = item.category || 'OTHER'
+      if (!grouped[categoryId]) {
+        grouped[categoryId] = { category: getCategoryById(categoryId), items: [] }
+      }
+      grouped[categoryId].items.push(item)
+    })
+
+    return Object.entries(grouped).sort(([, a], [, b]) =>
+      a.category.sortOrder - b.category.sortOrder
+    )
+  }, [items])
+
+  if (loading) {
+    return (
+      <div className="px-4 py-8 max-w-4xl mx-auto">
+        <div className="text-center py-20">
+          <div className="w-8 h-8 border-4 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading pantry...</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500 mt-2 italic">
+            {getRandomLoadingHumor()}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="px-4 py-8 max-w-4xl mx-auto">
+        <div className="py-20">
+          <div className="max-w-md mx-auto space-y-6 text-center">
+            <AlertBanner
+              variant="error"
+              title="Error loading pantry"
+              description={error}
+              actions={(
+                <button
+                  type="button"
+                  onClick={loadPantry}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                  <ArrowPathIcon className="w-4 h-4" />
+                  Try Again
+                </button>
+              )}
+            />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-3 py-4 max-w-4xl mx-auto pb-20">
+      <p className="text-gray-600 dark:text-gray-400 mb-4">
+        {items.length === 0
+          ? 'Your pantry is empty'
+          : `${items.length} item(s) in your pantry`
+        }
+      </p>
+
+      {banner && (
+        <div className="mb-4">
+          <AlertBanner
+            variant={banner.variant}
+            description={banner.message}
+            onDismiss={() => setBanner(null)}
+          />
+        </div>
+      )}
+
+      {/* Add Item Input */}
+      <div className="mb-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={handleNewItemKeyDown}
+              placeholder="Add something you have, e.g. chickpeas"
+              disabled={isAddingItem}
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            />
+            <button
+              onClick={handleAddItem}
+              disabled={!newItem.trim() || isAddingItem}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <PlusIcon className="w-4 h-4" />
+              {isAddingItem ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-20">
+          <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ArchiveBoxIcon className="w-8 h-8 text-gray-400" />
+          </div>
+          <h2 className="text-xl font-semibold mb-2 text-gray-900 dark:text-white">Nothing in the pantry yet</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-500">
+            Add the ingredients you have on hand and we'll suggest recipes you can cook.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Pantry Items */}
+          <div className="space-y-3">
+            {sortedCategoryEntries.map(([categoryId, { category, items: categoryItems }]) => (
+              <div key={categoryId} className="space-y-2">
+                <div className="flex items-center gap-3 px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                  <div className="text-xl">{category.emoji}</div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {category.name} ({categoryItems.length})
+                  </h2>
+                </div>
+                <div className="space-y-2 pl-3">
+                  {categoryItems.map(item => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-3 py-2 px-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                    >
+                      <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white">
+                        {item.displayName}
+                        {(item.quantity || item.unit) && (
+                          <span className="text-gray-500 dark:text-gray-400 ml-1 font-normal">
+                            ({[item.quantity, item.unit].filter(Boolean).join(' ')})
+                          </span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() => handleDeleteItem(item.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        aria-label={`Remove ${item.displayName}`}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Cook from pantry */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Cook from pantry</h2>
+              <select
+                value={maxMissing}
+                onChange={(e) => setMaxMissing(e.target.value)}
+                aria-label="Maximum missing ingredients"
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {MAX_MISSING_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {matchesLoading ? (
+              <div className="text-center py-10">
+                <div className="w-6 h-6 border-4 border-gray-300 border-t-blue-600 rounded-full animate-spin mx-auto"></div>
+              </div>
+            ) : matches.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+                No recipes match your pantry yet. Try adding more items or allowing more missing ingredients.
+              </p>
+            ) : (
+              matches.map(match => (
+                <PantryMatchCard
+                  key={match.recipe.id}
+                  match={match}
+                  isAdding={addingMissingFor === match.recipe.id}
+                  onAddMissing={handleAddMissing}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -16,7 +16,8 @@ import {
   PlusIcon,
   XMarkIcon,
   ShoppingBagIcon,
-  ChevronUpIcon
+  ChevronUpIcon,
+  FireIcon
 } from '@heroicons/react/24/outline'
 import { apiService, Recipe, IngredientCategory } from '../services/api'
 import { useAuth } from '../contexts/AuthContext'
@@ -29,6 +30,12 @@ import { TextHeaderParser } from '../utils/textHeaderParser'
 import ResponsiveImage from '../components/ResponsiveImage'
 import { scaleIngredient } from '../utils/scaleIngredient'
 import { SourceAttribution } from '../components/SourceAttribution'
+import RecipeHistory from '../components/RecipeHistory'
+import CookLog from '../components/CookLog'
+import RecipeComments from '../components/RecipeComments'
+import AddToCollectionMenu from '../components/AddToCollectionMenu'
+import NutritionPanel from '../components/NutritionPanel'
+import { describeDietaryLabels } from '../utils/dietaryLabels'
 import { CONTENT } from '../constants/content'
 
 interface ShoppingListButtonState {
@@ -299,7 +306,8 @@ function RecipeDetailPage() {
 
   const loadAvailableTags = async () => {
     try {
-      const tags = await apiService.getAllTags()
+      // Suggest the tags of the user's own and household recipes, not those of every public recipe
+      const tags = await apiService.getAllTags('my')
       setAvailableTags(tags)
     } catch (err) {
       console.error('Failed to load available tags:', err)
@@ -451,6 +459,8 @@ function RecipeDetailPage() {
     }
   }
 
+  const dietary = describeDietaryLabels(recipe.dietaryLabels)
+
   const scaleOptions = [
     { key: '0.5', label: '½x', value: 0.5 },
     { key: '1', label: '1x', value: 1 },
@@ -621,6 +631,7 @@ function RecipeDetailPage() {
         </button>
 
         <div className="flex items-center gap-2">
+          {user && <AddToCollectionMenu recipeId={recipe.id} />}
           <button
             onClick={handleShare}
             className="p-3 rounded-full bg-white/0 dark:bg-transparent hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -765,6 +776,22 @@ function RecipeDetailPage() {
               {/* Source URL Attribution */}
               <SourceAttribution sourceUrl={recipe.sourceUrl} className="mb-4" />
 
+              {/* Dietary labels */}
+              {(dietary.diets.length > 0 || dietary.allergens.length > 0) && (
+                <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                  {dietary.diets.map(diet => (
+                    <span key={diet} className="rounded-full bg-green-100 px-2 py-0.5 font-medium text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                      {diet}
+                    </span>
+                  ))}
+                  {dietary.allergens.length > 0 && (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      Contains {dietary.allergens.join(', ').toLowerCase()}
+                    </span>
+                  )}
+                </div>
+              )}
+
               {/* Tags */}
               <div className="mb-4">
                 <div className="flex items-center gap-2">
@@ -1041,14 +1068,23 @@ function RecipeDetailPage() {
         <div className="lg:col-span-2" ref={instructionsRef}>
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Instructions</h2>
-            <button
-              onClick={() => setCompletedSteps(new Set())}
-              className="p-2 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-              aria-label="Reset steps"
-              title="Reset steps"
-            >
-              <ArrowPathIcon className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigate(`/recipe/${recipe.id}/cook${scale !== 1 ? `?scale=${scale}` : ''}`)}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors"
+              >
+                <FireIcon className="w-4 h-4" />
+                Cook mode
+              </button>
+              <button
+                onClick={() => setCompletedSteps(new Set())}
+                className="p-2 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                aria-label="Reset steps"
+                title="Reset steps"
+              >
+                <ArrowPathIcon className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
           <div className="space-y-1">
@@ -1199,6 +1235,10 @@ function RecipeDetailPage() {
               </div>
             )}
 
+            {recipe.nutrition && recipe.nutrition.matchedIngredients.length > 0 && (
+              <NutritionPanel nutrition={recipe.nutrition} scale={scale} />
+            )}
+
             <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
               <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
                 <span>Created {new Date(recipe.createdAt).toLocaleDateString()}</span>
@@ -1332,6 +1372,31 @@ function RecipeDetailPage() {
         </div>
       </div>
 
+      {/* Cook Log Section */}
+      {user && (
+        <div className="mt-8">
+          <CookLog
+            recipeId={recipe.id}
+            currentUserId={user.id}
+            onStatsChange={cookStats => setRecipe(prev => (prev ? { ...prev, cookStats } : prev))}
+          />
+        </div>
+      )}
+
+      {/* Comments Section */}
+      {user && recipe.isPublic && (
+        <div className="mt-8">
+          <RecipeComments recipeId={recipe.id} currentUserId={user.id} />
+        </div>
+      )}
+
+      {/* Version History Section */}
+      {recipe.canEdit && (
+        <div className="mt-8">
+          <RecipeHistory recipeId={recipe.id} onRestored={setRecipe} />
+        </div>
+      )}
+
       {/* Mobile Bottom Navigation */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 z-40 safe-area-inset-bottom">
         <div className="flex items-center justify-around py-1">
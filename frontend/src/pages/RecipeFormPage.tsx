@@ -1,12 +1,15 @@
 import { useState, useEffect, useRef } from 'react'
-import { useNavigate, useParams, useLocation } from 'react-router-dom'
-import { apiService, Recipe, CreateRecipeData } from '../services/api'
+import { useNavigate, useParams, useLocation, Link } from 'react-router-dom'
+import { apiService, Recipe, CreateRecipeData, RecipeDuplicate, ImportedRecipeData, StartImportJobRequest } from '../services/api'
 import { useAuth } from '../contexts/AuthContext'
+import { useImportJobs } from '../contexts/ImportJobsContext'
 import { IngredientHelper } from '../utils/ingredientHelper'
 import { isOurUploadedImage, deleteUploadedImage } from '../utils/imageUtils'
 import { SUPPORTED_LANGUAGES, getLanguageName } from '../constants/languages'
 import TagInput from '../components/TagInput'
 import AlertBanner from '../components/AlertBanner'
+import DuplicateRecipeNotice from '../components/DuplicateRecipeNotice'
+import { getDuplicatesFromError, mergeImportedRecipe } from '../utils/recipeDuplicates'
 import {
   ArrowLeftIcon,
   CheckIcon,
@@ -16,7 +19,8 @@ import {
   Cog6ToothIcon,
   XMarkIcon,
   PlusIcon,
-  MinusIcon
+  MinusIcon,
+  QueueListIcon
 } from '@heroicons/react/24/outline'
 
 interface RecipeFormData {
@@ -52,6 +56,7 @@ function RecipeFormPage() {
   const id = rawId && rawId !== 'undefined' && rawId !== 'null' ? rawId : undefined
   const location = useLocation()
   const { user, household } = useAuth()
+  const { startImport, dismissImport } = useImportJobs()
   const isEdit = Boolean(id)
   const copiedRecipe = location.state?.copiedRecipe
 
@@ -92,7 +97,11 @@ function RecipeFormPage() {
   const [isImporting, setIsImporting] = useState(false)
   const [isImportingGemini, setIsImportingGemini] = useState(false)
   const [isImportingImage, setIsImportingImage] = useState(false)
+  const [isQueueingImport, setIsQueueingImport] = useState(false)
+  const [queuedImportMessage, setQueuedImportMessage] = useState<string | null>(null)
   const [importError, setImportError] = useState<string | null>(null)
+  const [duplicates, setDuplicates] = useState<RecipeDuplicate[]>([])
+  const [mergingDuplicateId, setMergingDuplicateId] = useState<string | null>(null)
   const [importLanguage, setImportLanguage] = useState<string | undefined>(user?.defaultTranslationLanguage)
   const [hasManualImportLanguage, setHasManualImportLanguage] = useState(false)
   const [isImportSettingsOpen, setIsImportSettingsOpen] = useState(false)
@@ -148,6 +157,9 @@ function RecipeFormPage() {
       setImportType('text')
       // Auto-import the shared text
       handleImportText(location.state.importText)
+    } else if (location.state?.importJobId) {
+      // Opened from the imports tray once a background import finished
+      loadImportJob(location.state.importJobId)
     }
   }, [isEdit, id, copiedRecipe, location.state])
 
@@ -245,7 +257,8 @@ function RecipeFormPage() {
 
   const loadAvailableTags = async () => {
     try {
-      const tags = await apiService.getAllTags()
+      // Suggest the tags of the user's own and household recipes, not those of every public recipe
+      const tags = await apiService.getAllTags('my')
       setAvailableTags(tags)
     } catch (err) {
       console.error('Failed to load available tags:', err)
@@ -332,6 +345,51 @@ function RecipeFormPage() {
     }
   }
 
+  const applyImportedRecipe = (recipeData: ImportedRecipeData) => {
+    setFormData(prev => ({
+      ...prev,
+      name: recipeData.name ?? '',
+      description: recipeData.description ?? '',
+      ingredients: IngredientHelper.toTextareaFormat(recipeData.ingredients ?? []),
+      instructions: (recipeData.instructions ?? []).join('\n'),
+      prepTimeMinutes: recipeData.prepTimeMinutes,
+      cookTimeMinutes: recipeData.cookTimeMinutes,
+      totalTimeMinutes: recipeData.totalTimeMinutes,
+      servings: recipeData.servings,
+      image: recipeData.image || '',
+      imageSizes: recipeData.imageSizes,
+      sourceUrl: recipeData.sourceUrl,
+      // Store original input data
+      originalScrapedData: recipeData.originalScrapedData,
+      originalTextInput: recipeData.originalTextInput,
+      importAdditionalContext: recipeData.importAdditionalContext,
+      language: recipeData.language || prev.language
+    }))
+  }
+
+  const loadImportJob = async (jobId: string) => {
+    try {
+      setIsImporting(true)
+      setImportError(null)
+
+      const job = await apiService.getImportJob(jobId)
+      if (!job.result) {
+        setImportError(job.status === 'failed' ? job.error || 'Import failed' : 'This import has not finished yet')
+        return
+      }
+
+      applyImportedRecipe(job.result.recipeData)
+      setDuplicates(job.result.duplicates)
+      // The recipe is in the form now, so the tray no longer needs to offer it
+      dismissImport(jobId).catch(err => console.error('Failed to dismiss import:', err))
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to load import')
+      console.error('Failed to load import:', err)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   // Wrapper functions for auto-importing shared content
   const handleImportUrl = async (url: string) => {
     setImportUrl(url)
@@ -354,6 +412,7 @@ function RecipeFormPage() {
         sourceUrl: recipeData.sourceUrl || url
       }))
       setImportUrl('')
+      setDuplicates(response.duplicates ?? [])
     } catch (error) {
       console.error('Failed to import recipe from URL:', error)
       setImportError(error instanceof Error ? error.message : 'Failed to import recipe from URL. Please check the URL and try again.')
@@ -383,6 +442,7 @@ function RecipeFormPage() {
         sourceUrl: recipeData.sourceUrl
       }))
       setImportText('')
+      setDuplicates(response.duplicates ?? [])
     } catch (error) {
       console.error('Failed to parse recipe from text:', error)
       setImportError(error instanceof Error ? error.message : 'Failed to parse recipe from text. Please try again.')
@@ -452,6 +512,7 @@ function RecipeFormPage() {
 
       // Clear import URL
       setImportUrl('')
+      setDuplicates(response.duplicates ?? [])
     } catch (err) {
       setImportError(err instanceof Error ? err.message : 'Failed to import recipe from URL')
       console.error('Failed to import recipe:', err)
@@ -507,6 +568,7 @@ function RecipeFormPage() {
 
       // Clear import text
       setImportText('')
+      setDuplicates(response.duplicates ?? [])
     } catch (err) {
       setImportError(err instanceof Error ? err.message : 'Failed to parse recipe from text')
       console.error('Failed to parse recipe:', err)
@@ -566,6 +628,7 @@ function RecipeFormPage() {
 
       // Clear import text
       setImportText('')
+      setDuplicates(response.duplicates ?? [])
     } catch (err) {
       setImportError(err instanceof Error ? err.message : 'Failed to parse recipe from text')
       console.error('Failed to parse recipe:', err)
@@ -584,6 +647,53 @@ function RecipeFormPage() {
     }
   }
 
+  // Queues the import on the server so it keeps running (and retrying) if the user leaves the page
+  const handleImportInBackground = async () => {
+    let request: StartImportJobRequest
+    const targetLanguage = importLanguage || undefined
+
+    if (importType === 'url') {
+      if (!importUrl.trim()) {
+        setImportError('Please enter a URL')
+        return
+      }
+      request = { type: 'url', url: importUrl.trim(), targetLanguage, additionalContext: urlGeminiContext.trim() || undefined }
+    } else if (importType === 'text') {
+      if (!importText.trim()) {
+        setImportError('Please enter recipe text')
+        return
+      }
+      request = { type: 'text', text: importText.trim(), targetLanguage }
+    } else {
+      if (!importImage) {
+        setImportError('Please select an image file')
+        return
+      }
+      request = { type: 'image', image: importImage, targetLanguage }
+    }
+
+    try {
+      setIsQueueingImport(true)
+      setImportError(null)
+
+      await startImport(request)
+
+      setImportUrl('')
+      setImportText('')
+      setImportImage(null)
+      const fileInput = document.getElementById('import-image-file') as HTMLInputElement
+      if (fileInput) {
+        fileInput.value = ''
+      }
+      setQueuedImportMessage('Import queued. You can leave this page; it will show up in the Imports tray when it is ready.')
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to queue import')
+      console.error('Failed to queue import:', err)
+    } finally {
+      setIsQueueingImport(false)
+    }
+  }
+
   const handleImportFromImage = async () => {
     if (!importImage) {
       setImportError('Please select an image file')
@@ -677,8 +787,42 @@ function RecipeFormPage() {
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const buildRecipeData = (): CreateRecipeData => ({
+    name: formData.name.trim(),
+    description: formData.description.trim(),
+    ingredients: IngredientHelper.parseFromTextarea(formData.ingredients),
+    instructions: formData.instructions
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0),
+    prepTimeMinutes: formData.prepTimeMinutes,
+    cookTimeMinutes: formData.cookTimeMinutes,
+    totalTimeMinutes: formData.totalTimeMinutes,
+    servings: formData.servings,
+    image: formData.image?.trim() || '',
+    imageSizes: formData.imageSizes,
+    sourceUrl: formData.sourceUrl?.trim() || '',
+    tags: formData.tags,
+    isPublic: formData.isPublic,
+    householdId: household?.id,
+    // Pass original input data
+    originalScrapedData: formData.originalScrapedData,
+    originalTextInput: formData.originalTextInput,
+    importAdditionalContext: formData.importAdditionalContext,
+    language: formData.language.trim()
+  })
+
+  // Delete images uploaded in this form that the saved recipe doesn't use
+  const cleanUpUploadedImages = (savedImage?: string) => {
+    uploadedImages.forEach(imageUrl => {
+      if (imageUrl !== savedImage && imageUrl !== originalImageUrl) {
+        deleteUploadedImage(imageUrl)
+      }
+    })
+  }
+
+  const handleSubmit = async (e?: React.FormEvent, allowDuplicate = false) => {
+    e?.preventDefault()
     setError(null)
 
     // Validation
@@ -731,52 +875,29 @@ function RecipeFormPage() {
     try {
       setLoading(true)
 
-      const recipeData: CreateRecipeData = {
-        name: formData.name.trim(),
-        description: formData.description.trim(),
-        ingredients: IngredientHelper.parseFromTextarea(formData.ingredients),
-        instructions: formData.instructions
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0),
-        prepTimeMinutes: formData.prepTimeMinutes,
-        cookTimeMinutes: formData.cookTimeMinutes,
-        totalTimeMinutes: formData.totalTimeMinutes,
-        servings: formData.servings,
-        image: formData.image?.trim() || '',
-        imageSizes: formData.imageSizes,
-        sourceUrl: formData.sourceUrl?.trim() || '',
-        tags: formData.tags,
-        isPublic: formData.isPublic,
-        householdId: household?.id,
-        // Pass original input data
-        originalScrapedData: formData.originalScrapedData,
-        originalTextInput: formData.originalTextInput,
-        importAdditionalContext: formData.importAdditionalContext,
-        language: formData.language.trim()
-      }
+      const recipeData = buildRecipeData()
 
       let savedRecipe: Recipe
       if (isEdit && id) {
         savedRecipe = await apiService.updateRecipe(id, recipeData)
       } else {
-        savedRecipe = await apiService.createRecipe(recipeData)
+        savedRecipe = await apiService.createRecipe({ ...recipeData, allowDuplicate })
       }
 
       // Mark that form was successfully submitted (prevents image cleanup)
       setFormWasSubmitted(true)
 
       // Clean up unused uploaded images after successful save
-      uploadedImages.forEach(imageUrl => {
-        // Delete uploaded images that aren't being used in the saved recipe
-        if (imageUrl !== savedRecipe.image && imageUrl !== originalImageUrl) {
-          deleteUploadedImage(imageUrl)
-        }
-      })
+      cleanUpUploadedImages(savedRecipe.image)
 
       // Navigate to the recipe detail page
       navigate(`/recipe/${savedRecipe.id}`)
     } catch (err) {
+      const foundDuplicates = getDuplicatesFromError(err)
+      if (foundDuplicates) {
+        setDuplicates(foundDuplicates)
+        return
+      }
       setError(err instanceof Error ? err.message : `Failed to ${isEdit ? 'update' : 'create'} recipe`)
       console.error(`Failed to ${isEdit ? 'update' : 'create'} recipe:`, err)
     } finally {
@@ -784,6 +905,30 @@ function RecipeFormPage() {
     }
   }
 
+  // Folds the imported version into an existing recipe instead of saving a copy
+  const handleMergeIntoDuplicate = async (duplicate: RecipeDuplicate) => {
+    if (!formData.ingredients.trim() || !formData.instructions.trim()) {
+      setError('Ingredients and instructions are required to merge')
+      return
+    }
+
+    try {
+      setMergingDuplicateId(duplicate.id)
+      setError(null)
+      const existing = await apiService.getRecipe(duplicate.id)
+      const merged = await apiService.updateRecipe(existing.id, mergeImportedRecipe(existing, buildRecipeData()))
+
+      setFormWasSubmitted(true)
+      cleanUpUploadedImages(merged.image)
+      navigate(`/recipe/${merged.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge into the existing recipe')
+      console.error('Failed to merge recipe:', err)
+    } finally {
+      setMergingDuplicateId(null)
+    }
+  }
+
   const handlePrivacyChange = async (isPublic: boolean) => {
     if (isPublic && formData.name.trim()) {
       // Check if trying to make public and name already exists
@@ -894,6 +1039,17 @@ function RecipeFormPage() {
         />
       )}
 
+      {duplicates.length > 0 && (
+        <DuplicateRecipeNotice
+          duplicates={duplicates}
+          mergingId={mergingDuplicateId}
+          isSaving={loading}
+          onMerge={handleMergeIntoDuplicate}
+          onSaveAnyway={() => handleSubmit(undefined, true)}
+          onDismiss={() => setDuplicates([])}
+        />
+      )}
+
       {/* Import Section */}
       {!isEdit && !copiedRecipe && (
         <div className="relative bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 p-6">
@@ -1010,6 +1166,13 @@ function RecipeFormPage() {
             </button>
           </div>
 
+          <p className="text-xs text-blue-700 dark:text-blue-300 mb-4">
+            Moving from Paprika, Mealie or Tandoor?{' '}
+            <Link to="/import" className="font-medium underline hover:text-blue-900 dark:hover:text-blue-100">
+              Import your whole collection
+            </Link>
+          </p>
+
           {/* Import Content */}
           {importType === 'url' ? (
             <>
@@ -1270,6 +1433,19 @@ Serves: 24 cookies`}
             </>
           )}
 
+          <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-blue-700 dark:text-blue-300">
+            <button
+              type="button"
+              onClick={handleImportInBackground}
+              disabled={isQueueingImport || isImporting || isImportingGemini || isImportingImage}
+              className="inline-flex items-center gap-1 font-medium underline hover:text-blue-900 dark:hover:text-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <QueueListIcon className="w-4 h-4" />
+              {isQueueingImport ? 'Queuing...' : 'Import in background'}
+            </button>
+            <span>{queuedImportMessage ?? 'Keep browsing while it runs; failed imports are retried automatically.'}</span>
+          </div>
+
           {importError && (
             <AlertBanner
               variant="error"
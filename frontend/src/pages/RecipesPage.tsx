@@ -10,17 +10,22 @@ import {
   DocumentDuplicateIcon,
   XMarkIcon,
   TagIcon,
-  UserIcon
+  UserIcon,
+  BookOpenIcon,
+  CheckIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline'
-import { apiService, Recipe } from '../services/api'
+import { apiService, Recipe, DietLabel, Allergen } from '../services/api'
 import { useAuth } from '../contexts/AuthContext'
 import { getRandomLoadingHumor, getRandomGeneralHumor } from '../utils/humor'
 import AlertBanner from '../components/AlertBanner'
 import { RecipeCard } from '../components/RecipeCard'
 import { buildHeroImagePreloadData } from '../utils/recipeImages'
 import { CONTENT } from '../constants/content'
+import { DIET_OPTIONS, ALLERGEN_OPTIONS } from '../utils/dietaryLabels'
 
 const PRIORITIZED_IMAGE_COUNT = 6
+const SEARCH_DEBOUNCE_MS = 300
 
 interface RecipeActionsProps {
   recipe: Recipe
@@ -89,6 +94,57 @@ function RecipeActions({ recipe, onEdit, onDelete, onCopy }: RecipeActionsProps)
   )
 }
 
+interface SelectToggleProps {
+  recipe: Recipe
+  isSelected: boolean
+  onToggle: (id: string) => void
+}
+
+function SelectToggle({ recipe, isSelected, onToggle }: SelectToggleProps) {
+  return (
+    <button
+      onClick={(e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        onToggle(recipe.id)
+      }}
+      aria-pressed={isSelected}
+      className={`p-2 rounded-full backdrop-blur-sm transition-colors ${
+        isSelected
+          ? 'bg-blue-600 hover:bg-blue-700 text-white'
+          : 'bg-black/30 hover:bg-black/40 text-white'
+      }`}
+      aria-label={isSelected ? 'Remove from cookbook' : 'Add to cookbook'}
+    >
+      <CheckIcon className={`w-5 h-5 ${isSelected ? 'opacity-100' : 'opacity-60'}`} />
+    </button>
+  )
+}
+
+interface FilterChipProps {
+  label: string
+  isActive: boolean
+  onToggle: () => void
+}
+
+function FilterChip({ label, isActive, onToggle }: FilterChipProps) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={isActive}
+      className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-sm transition-colors ${
+        isActive
+          ? 'border-blue-600 bg-blue-600 text-white dark:border-blue-500 dark:bg-blue-500'
+          : 'border-gray-200 bg-white text-gray-700 hover:border-blue-400 hover:bg-blue-50 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:border-blue-500 dark:hover:bg-blue-900/20'
+      }`}
+    >
+      {isActive && <CheckIcon className="h-3 w-3" />}
+      {label}
+    </button>
+  )
+}
+
 // RecipeGridCard and RecipeListCard removed - now using unified RecipeCard component
 
 function RecipesPage() {
@@ -97,6 +153,7 @@ function RecipesPage() {
   const [searchParams, setSearchParams] = useSearchParams()
   const { user, household } = useAuth()
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [sortBy, setSortBy] = useState('recent')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [recipes, setRecipes] = useState<Recipe[]>([])
@@ -105,18 +162,21 @@ function RecipesPage() {
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [availableTags, setAvailableTags] = useState<string[]>([])
   const [showTagFilter, setShowTagFilter] = useState(false)
+  const [selectedDiets, setSelectedDiets] = useState<DietLabel[]>([])
+  const [excludedAllergens, setExcludedAllergens] = useState<Allergen[]>([])
+  const [showDietFilter, setShowDietFilter] = useState(false)
   const [showOnlyMyRecipes, setShowOnlyMyRecipes] = useState(false)
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [cookbookTitle, setCookbookTitle] = useState('')
+  const [isCreatingCookbook, setIsCreatingCookbook] = useState(false)
 
   // Get scope from URL parameters
   const scope = searchParams.get('scope') as 'my' | 'public' | 'all' || (user ? 'my' : 'public')
 
   const filteredAndSortedRecipes = useMemo(() => {
+    // Text search is handled server-side (full-text across ingredients, instructions and tags)
     let filtered = recipes.filter(recipe => {
-      // Text search filter
-      const matchesSearch = !searchQuery ||
-        recipe.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        recipe.description.toLowerCase().includes(searchQuery.toLowerCase())
-
       // Tag filter (OR logic - recipe must have at least one of the selected tags)
       const matchesTags = selectedTags.length === 0 ||
         selectedTags.some(tag => recipe.tags?.includes(tag))
@@ -124,7 +184,7 @@ function RecipesPage() {
       // My recipes filter
       const matchesMyRecipes = !showOnlyMyRecipes || recipe.userId === user?.id
 
-      return matchesSearch && matchesTags && matchesMyRecipes
+      return matchesTags && matchesMyRecipes
     })
 
     return filtered.sort((a, b) => {
@@ -137,11 +197,24 @@ function RecipesPage() {
           return a.servings - b.servings
         case 'recent':
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        case 'relevance':
+          return (b.searchRank ?? 0) - (a.searchRank ?? 0)
+        case 'rating':
+          return (b.cookStats?.averageRating ?? 0) - (a.cookStats?.averageRating ?? 0) ||
+            (b.cookStats?.ratingCount ?? 0) - (a.cookStats?.ratingCount ?? 0)
+        case 'timesCooked':
+          return (b.cookStats?.timesCooked ?? 0) - (a.cookStats?.timesCooked ?? 0)
+        case 'lastCooked': {
+          // Longest since last cooked first; never-cooked recipes last
+          const aTime = a.cookStats?.lastCookedAt ? new Date(a.cookStats.lastCookedAt).getTime() : Infinity
+          const bTime = b.cookStats?.lastCookedAt ? new Date(b.cookStats.lastCookedAt).getTime() : Infinity
+          return aTime === bTime ? 0 : aTime < bTime ? -1 : 1
+        }
         default:
           return 0
       }
     })
-  }, [recipes, searchQuery, sortBy, selectedTags, showOnlyMyRecipes, user?.id])
+  }, [recipes, sortBy, selectedTags, showOnlyMyRecipes, user?.id])
 
   // Hero image preload optimization - stable dependencies to prevent churn
   const firstRecipe = filteredAndSortedRecipes[0]
@@ -211,12 +284,30 @@ function RecipesPage() {
     }
   }, [heroImageData.src, heroImageData.srcset, heroImageData.sizes])
 
+  // Debounce search input before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // Rank by relevance while searching, fall back to most recent afterwards
+  useEffect(() => {
+    if (debouncedSearch && sortBy === 'recent') {
+      setSortBy('relevance')
+    } else if (!debouncedSearch && sortBy === 'relevance') {
+      setSortBy('recent')
+    }
+  }, [debouncedSearch])
+
   // Load recipes on mount and when scope changes
   useEffect(() => {
-    loadRecipes()
     loadAvailableTags()
   }, [scope, location.key]) // Also reload when location.key changes (navigation)
 
+  useEffect(() => {
+    loadRecipes()
+  }, [scope, location.key, debouncedSearch, selectedDiets, excludedAllergens])
+
   // Handle URL parameters for tag filtering
   useEffect(() => {
     const tagParam = searchParams.get('tag')
@@ -236,7 +327,13 @@ function RecipesPage() {
     try {
       setLoading(true)
       setError(null)
-      const fetchedRecipes = await apiService.getRecipes({ scope })
+      const fetchedRecipes = await apiService.getRecipes({
+        scope,
+        search: debouncedSearch || undefined,
+        sortBy: debouncedSearch ? 'relevance' : undefined,
+        diet: selectedDiets,
+        excludeAllergens: excludedAllergens
+      })
       setRecipes(fetchedRecipes)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load recipes')
@@ -248,7 +345,7 @@ function RecipesPage() {
 
   const loadAvailableTags = async () => {
     try {
-      const tags = await apiService.getAllTags()
+      const tags = await apiService.getAllTags(scope)
       setAvailableTags(tags)
     } catch (err) {
       console.error('Failed to load available tags:', err)
@@ -269,6 +366,14 @@ function RecipesPage() {
     updateURLWithTags(newTags)
   }
 
+  const toggleDiet = (diet: DietLabel) => {
+    setSelectedDiets(prev => prev.includes(diet) ? prev.filter(d => d !== diet) : [...prev, diet])
+  }
+
+  const toggleAllergen = (allergen: Allergen) => {
+    setExcludedAllergens(prev => prev.includes(allergen) ? prev.filter(a => a !== allergen) : [...prev, allergen])
+  }
+
   const clearTagFilters = () => {
     setSelectedTags([])
     updateURLWithTags([])
@@ -355,6 +460,56 @@ function RecipesPage() {
     }
   }
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id])
+  }
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting)
+    setSelectedIds([])
+  }
+
+  // Selected recipes take precedence; without a selection the active tag filters pick the recipes
+  const handleCreateCookbook = async () => {
+    if (isCreatingCookbook) return
+
+    try {
+      setIsCreatingCookbook(true)
+      setError(null)
+      const title = cookbookTitle.trim() || undefined
+      const pdf = await apiService.createCookbook(
+        selectedIds.length > 0 ? { recipeIds: selectedIds, title } : { tags: selectedTags, title }
+      )
+
+      const url = URL.createObjectURL(pdf)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${(title || 'cookbook').replace(/[^\w-]+/g, '-').toLowerCase()}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create cookbook')
+      console.error('Failed to create cookbook:', err)
+    } finally {
+      setIsCreatingCookbook(false)
+    }
+  }
+
+  const renderCardActions = (recipe: Recipe) => isSelecting ? (
+    <SelectToggle
+      recipe={recipe}
+      isSelected={selectedIds.includes(recipe.id)}
+      onToggle={toggleSelected}
+    />
+  ) : (
+    <RecipeActions
+      recipe={recipe}
+      onEdit={handleEdit}
+      onDelete={handleDelete}
+      onCopy={handleCopy}
+    />
+  )
+
   return (
     <div className="px-4 py-6 max-w-7xl mx-auto">
       <div className="space-y-6">
@@ -436,6 +591,26 @@ function RecipesPage() {
                 )}
               </button>
 
+              <button
+                type="button"
+                onClick={() => setShowDietFilter(!showDietFilter)}
+                aria-pressed={showDietFilter}
+                className={`inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm transition-colors ${
+                  showDietFilter
+                    ? 'border-blue-600 bg-blue-50 text-blue-700 dark:border-blue-400 dark:bg-blue-900/30 dark:text-blue-200'
+                    : 'border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+                title="Filter by diet and allergens"
+              >
+                <ShieldCheckIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Diet</span>
+                {selectedDiets.length + excludedAllergens.length > 0 && (
+                  <span className="inline-flex min-w-[1.75rem] justify-center rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+                    {selectedDiets.length + excludedAllergens.length}
+                  </span>
+                )}
+              </button>
+
               {user && (
                 <button
                   type="button"
@@ -453,6 +628,23 @@ function RecipesPage() {
                 </button>
               )}
 
+              {user && (
+                <button
+                  type="button"
+                  onClick={toggleSelecting}
+                  aria-pressed={isSelecting}
+                  className={`inline-flex items-center gap-2 rounded-lg border px-3 py-2 text-sm transition-colors ${
+                    isSelecting
+                      ? 'border-blue-600 bg-blue-50 text-blue-700 dark:border-blue-400 dark:bg-blue-900/30 dark:text-blue-200'
+                      : 'border-gray-200 bg-gray-50 text-gray-700 hover:bg-gray-100 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }`}
+                  title="Select recipes for a printable cookbook"
+                >
+                  <BookOpenIcon className="h-4 w-4" />
+                  <span className="hidden sm:inline">Cookbook</span>
+                </button>
+              )}
+
               <div className="ml-auto flex items-center gap-2">
                 <div className="relative">
                   <select
@@ -460,10 +652,18 @@ function RecipesPage() {
                     onChange={(e) => setSortBy(e.target.value)}
                     className="appearance-none rounded-lg border border-gray-200 bg-white px-3 py-2 pr-8 text-sm text-gray-900 transition-colors focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
                   >
+                    {debouncedSearch && <option value="relevance">Relevance</option>}
                     <option value="name">Name</option>
                     <option value="time">Time</option>
                     <option value="servings">Servings</option>
                     <option value="recent">Recent</option>
+                    {user && (
+                      <>
+                        <option value="rating">Top rated</option>
+                        <option value="timesCooked">Most cooked</option>
+                        <option value="lastCooked">Not cooked lately</option>
+                      </>
+                    )}
                   </select>
                   <FunnelIcon className="pointer-events-none absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
                 </div>
@@ -548,9 +748,87 @@ function RecipesPage() {
                 )}
               </div>
             )}
+
+            {showDietFilter && (
+              <div className="mt-3 space-y-3 border-t border-gray-200 pt-3 dark:border-gray-700">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-20 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Diet</span>
+                  {DIET_OPTIONS.map(option => (
+                    <FilterChip
+                      key={option.value}
+                      label={option.label}
+                      isActive={selectedDiets.includes(option.value)}
+                      onToggle={() => toggleDiet(option.value)}
+                    />
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-20 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Free from</span>
+                  {ALLERGEN_OPTIONS.map(option => (
+                    <FilterChip
+                      key={option.value}
+                      label={option.label}
+                      isActive={excludedAllergens.includes(option.value)}
+                      onToggle={() => toggleAllergen(option.value)}
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Labels are detected from ingredient names. Always check packaging when cooking for allergies.
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Cookbook selection */}
+        {isSelecting && (
+          <div className="flex flex-wrap items-center gap-2 rounded-xl border border-blue-200 bg-blue-50/70 p-3 dark:border-blue-800/60 dark:bg-blue-900/20">
+            <span className="text-sm text-blue-900 dark:text-blue-100">
+              {selectedIds.length > 0
+                ? `${selectedIds.length} selected`
+                : selectedTags.length > 0
+                  ? `Your recipes tagged ${selectedTags.join(', ')}`
+                  : 'Select recipes or filter by tag'}
+            </span>
+            <button
+              type="button"
+              onClick={() => setSelectedIds(filteredAndSortedRecipes.map(recipe => recipe.id))}
+              className="text-sm font-medium text-blue-700 underline-offset-2 hover:underline dark:text-blue-200"
+            >
+              Select all shown
+            </button>
+            {selectedIds.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setSelectedIds([])}
+                className="text-sm font-medium text-blue-700 underline-offset-2 hover:underline dark:text-blue-200"
+              >
+                Clear
+              </button>
+            )}
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={cookbookTitle}
+                onChange={(e) => setCookbookTitle(e.target.value)}
+                placeholder="Cookbook title"
+                maxLength={120}
+                className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400"
+              />
+              <button
+                type="button"
+                onClick={handleCreateCookbook}
+                disabled={isCreatingCookbook || (selectedIds.length === 0 && selectedTags.length === 0)}
+                className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-400"
+              >
+                <BookOpenIcon className="h-4 w-4" />
+                {isCreatingCookbook ? 'Creating PDF...' : 'Create PDF'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Error State */}
         {error && (
           <AlertBanner
@@ -603,14 +881,7 @@ function RecipesPage() {
                     onTagClick={addTagFilter}
                     prioritize={index < PRIORITIZED_IMAGE_COUNT}
                     formatDate={formatDateShort}
-                    renderActions={(recipe) => (
-                      <RecipeActions
-                        recipe={recipe}
-                        onEdit={handleEdit}
-                        onDelete={handleDelete}
-                        onCopy={handleCopy}
-                      />
-                    )}
+                    renderActions={renderCardActions}
                   />
                 ))}
               </div>
@@ -627,14 +898,7 @@ function RecipesPage() {
                     onTagClick={addTagFilter}
                     prioritize={index < PRIORITIZED_IMAGE_COUNT}
                     formatDate={formatDateShort}
-                    renderActions={(recipe) => (
-                      <RecipeActions
-                        recipe={recipe}
-                        onEdit={handleEdit}
-                        onDelete={handleDelete}
-                        onCopy={handleCopy}
-                      />
-                    )}
+                    renderActions={renderCardActions}
                   />
                 ))}
               </div>
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { KeyIcon } from '@heroicons/react/24/outline'
+import { apiService } from '../services/api'
+import AlertBanner from '../components/AlertBanner'
+import AuthPageLayout from '../components/auth/AuthPageLayout'
+
+const MIN_PASSWORD_LENGTH = 6
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors'
+
+function ResetPasswordPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting || !token) return
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await apiService.resetPassword(token, password)
+      navigate('/login?passwordReset=1', { replace: true })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset your password')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthPageLayout>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="text-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Choose a new password</h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            You'll be signed out on your other devices.
+          </p>
+        </div>
+
+        {!token ? (
+          <AlertBanner
+            variant="error"
+            title="This link is incomplete"
+            description="Open the link from the password reset email again, or request a new one."
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                New password
+              </label>
+              <input
+                id="password"
+                type="password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Confirm new password
+              </label>
+              <input
+                id="confirmPassword"
+                type="password"
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className={inputClassName}
+                placeholder="••••••••"
+                autoComplete="new-password"
+              />
+            </div>
+
+            {error && (
+              <AlertBanner
+                variant="error"
+                description={error}
+                onDismiss={() => setError(null)}
+                isCompact
+              />
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full inline-flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:cursor-not-allowed"
+            >
+              <KeyIcon className="w-5 h-5" />
+              {isSubmitting ? 'Saving...' : 'Set new password'}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 text-center space-x-4">
+          <Link
+            to="/forgot-password"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+          >
+            Request a new link
+          </Link>
+          <Link
+            to="/login"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </AuthPageLayout>
+  )
+}
+
+export default ResetPasswordPage
@@ -2,10 +2,13 @@ import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { apiService } from '../services/api'
-import { Household } from '../types/user'
+import { Household, HouseholdMember, HouseholdRole, UnitSystem } from '../types/user'
 import { generatePKCEPair } from '../utils/pkce'
 import { SUPPORTED_LANGUAGES, getLanguageName } from '../constants/languages'
 import AlertBanner from '../components/AlertBanner'
+import TagManager from '../components/TagManager'
+import HouseholdInvitations from '../components/HouseholdInvitations'
+import { HOUSEHOLD_ROLE_OPTIONS, canManageMember, getAssignableRoles } from '../utils/householdRoles'
 import {
   UserIcon,
   Cog6ToothIcon,
@@ -18,12 +21,30 @@ import {
   CheckIcon,
   EnvelopeIcon,
   ArrowRightOnRectangleIcon,
-  LanguageIcon
+  LanguageIcon,
+  ScaleIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  TagIcon,
+  CheckBadgeIcon,
+  KeyIcon,
+  TrashIcon
 } from '@heroicons/react/24/outline'
 import { getRandomSettingsHumor } from '../utils/humor'
 
 function SettingsPage() {
-  const { user, household, createHousehold, joinHousehold, leaveHousehold, logout, refreshUser } = useAuth()
+  const {
+    user,
+    household,
+    households,
+    createHousehold,
+    joinHousehold,
+    leaveHousehold,
+    deleteHousehold,
+    switchHousehold,
+    logout,
+    refreshUser
+  } = useAuth()
   const [householdData, setHouseholdData] = useState<Household | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -43,10 +64,26 @@ function SettingsPage() {
   // Copy invite code feedback
   const [codeCopied, setCodeCopied] = useState(false)
 
+  // Member being removed, re-roled or made owner
+  const [updatingMemberId, setUpdatingMemberId] = useState<string | null>(null)
+
   // Translation preference
   const [translationLanguage, setTranslationLanguage] = useState<string>(user?.defaultTranslationLanguage || '')
   const [isSavingLanguage, setIsSavingLanguage] = useState(false)
 
+  // Measurement system preference
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(user?.unitSystem || 'metric')
+  const [isSavingUnits, setIsSavingUnits] = useState(false)
+
+  // Data export
+  const [includeHouseholdInExport, setIncludeHouseholdInExport] = useState(false)
+
+  // Email verification and change
+  const [isResendingVerification, setIsResendingVerification] = useState(false)
+  const [showEmailForm, setShowEmailForm] = useState(false)
+  const [emailForm, setEmailForm] = useState({ newEmail: '', password: '' })
+  const [isRequestingEmailChange, setIsRequestingEmailChange] = useState(false)
+
   useEffect(() => {
     if (household) {
       loadHouseholdDetails()
@@ -57,6 +94,10 @@ function SettingsPage() {
     setTranslationLanguage(user?.defaultTranslationLanguage || '')
   }, [user?.defaultTranslationLanguage])
 
+  useEffect(() => {
+    setUnitSystem(user?.unitSystem || 'metric')
+  }, [user?.unitSystem])
+
   const loadHouseholdDetails = async () => {
     if (!household) return
 
@@ -72,6 +113,10 @@ function SettingsPage() {
     }
   }
 
+  const myRole = householdData?.members?.find(member => member.id === user?.id)?.role
+  const canManageHousehold = myRole === 'owner' || myRole === 'admin'
+  const hasOtherMembers = (householdData?.members?.length || 0) > 1
+
   const handleCreateHousehold = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!createForm.name.trim()) return
@@ -137,7 +182,7 @@ function SettingsPage() {
       setRegeneratingCode(true)
       setError(null)
       const response = await apiService.regenerateInviteCode()
-      setHouseholdData(response.household)
+      setHouseholdData(prev => (prev ? { ...prev, inviteCode: response.inviteCode } : prev))
       setSuccess('Invite code regenerated successfully!')
       setTimeout(() => setSuccess(null), 3000)
     } catch (err) {
@@ -147,6 +192,89 @@ function SettingsPage() {
     }
   }
 
+  const handleSwitchHousehold = async (householdId: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+      await switchHousehold(householdId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch household')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleChangeMemberRole = async (member: HouseholdMember, role: HouseholdRole) => {
+    try {
+      setUpdatingMemberId(member.id)
+      setError(null)
+      const response = await apiService.updateHouseholdMemberRole(member.id, role)
+      setHouseholdData(response.household)
+      setSuccess(`${member.displayName} is now ${role === 'admin' ? 'an admin' : `a ${role}`}`)
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update member role')
+    } finally {
+      setUpdatingMemberId(null)
+    }
+  }
+
+  const handleRemoveMember = async (member: HouseholdMember) => {
+    if (!confirm(`Remove ${member.displayName} from this household? They will lose access to all household recipes.`)) {
+      return
+    }
+
+    try {
+      setUpdatingMemberId(member.id)
+      setError(null)
+      const response = await apiService.removeHouseholdMember(member.id)
+      setHouseholdData(response.household)
+      setSuccess(`${member.displayName} was removed from the household`)
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member')
+    } finally {
+      setUpdatingMemberId(null)
+    }
+  }
+
+  const handleTransferOwnership = async (member: HouseholdMember) => {
+    if (!confirm(`Make ${member.displayName} the owner of this household? You will become an admin.`)) {
+      return
+    }
+
+    try {
+      setUpdatingMemberId(member.id)
+      setError(null)
+      const response = await apiService.transferHouseholdOwnership(member.id)
+      setHouseholdData(response.household)
+      setSuccess(`${member.displayName} now owns the household`)
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer ownership')
+    } finally {
+      setUpdatingMemberId(null)
+    }
+  }
+
+  const handleDeleteHousehold = async () => {
+    if (!confirm('Are you sure you want to delete this household? Everyone will be removed, and shared recipes will go back to the members who added them.')) {
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      await deleteHousehold()
+      setSuccess('Household deleted')
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete household')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const copyInviteCode = async () => {
     if (!householdData?.inviteCode) return
 
@@ -190,6 +318,58 @@ function SettingsPage() {
     }
   }
 
+  const handleUnitSystemChange = async (value: UnitSystem) => {
+    const previous = unitSystem
+    setUnitSystem(value)
+
+    try {
+      setIsSavingUnits(true)
+      setError(null)
+
+      await apiService.updateUnitPreference(value)
+      await refreshUser()
+
+      setSuccess('Measurement preference updated successfully!')
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setUnitSystem(previous)
+      setError(err instanceof Error ? err.message : 'Failed to update measurement preference')
+    } finally {
+      setIsSavingUnits(false)
+    }
+  }
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResendingVerification(true)
+      setError(null)
+      const response = await apiService.resendVerificationEmail()
+      setSuccess(response.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the verification email')
+    } finally {
+      setIsResendingVerification(false)
+    }
+  }
+
+  const handleRequestEmailChange = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!emailForm.newEmail.trim()) return
+
+    try {
+      setIsRequestingEmailChange(true)
+      setError(null)
+      const response = await apiService.requestEmailChange(emailForm.newEmail.trim(), emailForm.password || undefined)
+      setEmailForm({ newEmail: '', password: '' })
+      setShowEmailForm(false)
+      setSuccess(response.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change your email')
+    } finally {
+      setIsRequestingEmailChange(false)
+    }
+  }
+
   const handleChangeGoogleAccount = async () => {
     try {
       // Generate PKCE pair for enhanced security
@@ -283,15 +463,106 @@ function SettingsPage() {
               <h3 className="text-lg font-medium text-gray-900 dark:text-white">
                 {user.displayName}
               </h3>
-              <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <div className="flex flex-wrap items-center gap-2 text-gray-600 dark:text-gray-400">
                 <EnvelopeIcon className="w-4 h-4" />
                 <span className="text-sm">{user.email}</span>
+                {user.emailVerified ? (
+                  <span className="inline-flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                    <CheckBadgeIcon className="w-4 h-4" />
+                    Verified
+                  </span>
+                ) : (
+                  <span className="text-xs text-amber-700 dark:text-amber-400">Not verified</span>
+                )}
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
                 Member since {new Date(user.createdAt).toLocaleDateString()}
               </p>
             </div>
           </div>
+
+          {!user.emailVerified && (
+            <AlertBanner
+              variant="warning"
+              title="Confirm your email address"
+              description="We sent a confirmation link when you signed up. Confirming your email lets you reset your password if you forget it."
+              actions={(
+                <button
+                  onClick={handleResendVerification}
+                  disabled={isResendingVerification}
+                  className="px-4 py-2 text-sm font-medium rounded-lg bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-50"
+                >
+                  {isResendingVerification ? 'Sending...' : 'Resend confirmation email'}
+                </button>
+              )}
+            />
+          )}
+
+          {showEmailForm ? (
+            <form onSubmit={handleRequestEmailChange} className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <div>
+                <label htmlFor="newEmail" className="block text-sm font-medium text-gray-900 dark:text-white mb-1">
+                  New email address
+                </label>
+                <input
+                  id="newEmail"
+                  type="email"
+                  required
+                  value={emailForm.newEmail}
+                  onChange={(e) => setEmailForm(prev => ({ ...prev, newEmail: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoComplete="email"
+                  autoCapitalize="none"
+                />
+              </div>
+              <div>
+                <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-900 dark:text-white mb-1">
+                  Current password
+                </label>
+                <input
+                  id="currentPassword"
+                  type="password"
+                  value={emailForm.password}
+                  onChange={(e) => setEmailForm(prev => ({ ...prev, password: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoComplete="current-password"
+                />
+                {user.googleId && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Leave blank if you only sign in with Google.
+                  </p>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                We'll email a confirmation link to the new address. Your email changes once you open it.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isRequestingEmailChange}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  <EnvelopeIcon className="w-4 h-4" />
+                  {isRequestingEmailChange ? 'Sending...' : 'Send confirmation link'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowEmailForm(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowEmailForm(true)}
+              className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              <EnvelopeIcon className="w-4 h-4" />
+              Change email address
+            </button>
+          )}
         </div>
       </div>
 
@@ -352,6 +623,40 @@ function SettingsPage() {
         </div>
       </div>
 
+      {/* Measurement Preferences Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <ScaleIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Measurements
+          </h2>
+        </div>
+
+        <div className="space-y-2">
+          <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 p-1" role="radiogroup" aria-label="Measurement system">
+            {(['metric', 'imperial'] as const).map(option => (
+              <button
+                key={option}
+                role="radio"
+                aria-checked={unitSystem === option}
+                onClick={() => handleUnitSystemChange(option)}
+                disabled={isSavingUnits}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors disabled:cursor-not-allowed ${
+                  unitSystem === option
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option === 'metric' ? 'Metric (g, ml)' : 'Imperial (oz, cups)'}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            When the same ingredient is added to your shopping list in different units, quantities are converted and combined using this system.
+          </p>
+        </div>
+      </div>
+
       {/* Household Management Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
         <div className="flex items-center gap-3 mb-6">
@@ -397,17 +702,62 @@ function SettingsPage() {
                             {member.displayName.charAt(0).toUpperCase()}
                           </span>
                         </div>
-                        <div className="flex-1">
+                        <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium text-gray-900 dark:text-white">
                             {member.displayName}
+                            {member.id === user?.id && (
+                              <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">(you)</span>
+                            )}
                           </p>
-                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                          <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
                             {member.email}
                           </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Joined {new Date(member.joinedAt).toLocaleDateString()}
+                          </p>
                         </div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">
-                          Joined {new Date(member.joinedAt).toLocaleDateString()}
-                        </p>
+                        {member.id !== user?.id && canManageMember(myRole, member.role) ? (
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleChangeMemberRole(member, e.target.value as HouseholdRole)}
+                              disabled={updatingMemberId === member.id}
+                              aria-label={`Role for ${member.displayName}`}
+                              className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                            >
+                              {HOUSEHOLD_ROLE_OPTIONS.filter(option => option.id === member.role || getAssignableRoles(myRole).includes(option.id)).map(option => (
+                                <option key={option.id} value={option.id} title={option.description}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            {myRole === 'owner' && (
+                              <button
+                                onClick={() => handleTransferOwnership(member)}
+                                disabled={updatingMemberId === member.id}
+                                title={`Make ${member.displayName} the owner`}
+                                className="p-1.5 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 rounded transition-colors disabled:opacity-50"
+                              >
+                                <KeyIcon className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRemoveMember(member)}
+                              disabled={updatingMemberId === member.id}
+                              title={`Remove ${member.displayName}`}
+                              className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded transition-colors disabled:opacity-50"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ) : (
+                          <span
+                            className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+                            title={HOUSEHOLD_ROLE_OPTIONS.find(option => option.id === member.role)?.description}
+                          >
+                            {HOUSEHOLD_ROLE_OPTIONS.find(option => option.id === member.role)?.label}
+                          </span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -415,6 +765,46 @@ function SettingsPage() {
               )}
             </div>
 
+            {/* Your Households */}
+            {households.length > 1 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                  Your households:
+                </h4>
+                <div className="grid gap-2">
+                  {households.map((membership) => (
+                    <div
+                      key={membership.id}
+                      className="flex items-center justify-between gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {membership.name}
+                        </p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                          {HOUSEHOLD_ROLE_OPTIONS.find(option => option.id === membership.role)?.label} · {membership.memberCount} members
+                        </p>
+                      </div>
+                      {membership.id === household.id ? (
+                        <span className="inline-flex items-center gap-1 text-xs font-medium text-green-700 dark:text-green-400">
+                          <CheckIcon className="w-4 h-4" />
+                          Active
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => handleSwitchHousehold(membership.id)}
+                          disabled={loading}
+                          className="px-3 py-1.5 text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          Switch
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Invite Code Section */}
             {householdData?.inviteCode && (
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 p-4">
@@ -453,37 +843,45 @@ function SettingsPage() {
                   </button>
                 </div>
 
-                <button
-                  onClick={handleRegenerateInviteCode}
-                  disabled={regeneratingCode}
-                  className="inline-flex items-center gap-2 px-3 py-2 bg-blue-100 dark:bg-blue-800/30 hover:bg-blue-200 dark:hover:bg-blue-800/50 text-blue-700 dark:text-blue-300 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
-                >
-                  {regeneratingCode ? (
-                    <>
-                      <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-                      Regenerating...
-                    </>
-                  ) : (
-                    <>
-                      <ArrowPathIcon className="w-4 h-4" />
-                      Regenerate Code
-                    </>
-                  )}
-                </button>
+                {canManageHousehold && (
+                  <button
+                    onClick={handleRegenerateInviteCode}
+                    disabled={regeneratingCode}
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-blue-100 dark:bg-blue-800/30 hover:bg-blue-200 dark:hover:bg-blue-800/50 text-blue-700 dark:text-blue-300 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {regeneratingCode ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                        Regenerating...
+                      </>
+                    ) : (
+                      <>
+                        <ArrowPathIcon className="w-4 h-4" />
+                        Regenerate Code
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             )}
 
+            {canManageHousehold && myRole && (
+              <HouseholdInvitations myRole={myRole} />
+            )}
+
             {/* Leave Household */}
             <div className="bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800 p-4">
               <h4 className="font-medium text-red-900 dark:text-red-100 mb-2">
                 Leave Household
               </h4>
               <p className="text-sm text-red-700 dark:text-red-300 mb-3">
-                If you leave this household, you will lose access to all household recipes.
+                {myRole === 'owner' && hasOtherMembers
+                  ? 'You own this household. Make another member the owner before leaving, or delete the household.'
+                  : 'If you leave this household, you will lose access to all household recipes.'}
               </p>
               <button
                 onClick={handleLeaveHousehold}
-                disabled={loading}
+                disabled={loading || (myRole === 'owner' && hasOtherMembers)}
                 className="inline-flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white text-sm font-medium rounded-lg transition-colors"
               >
                 {loading ? (
@@ -499,161 +897,239 @@ function SettingsPage() {
                 )}
               </button>
             </div>
-          </div>
-        ) : (
-          /* No Household - Create or Join */
-          <div className="space-y-6">
-            <div className="text-center py-6">
-              <UserGroupIcon className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                No Household Yet
-              </h3>
-              <p className="text-gray-600 dark:text-gray-400 mb-4">
-                Create a household for your family or join an existing one.
-              </p>
-            </div>
 
-            {/* Create Household */}
-            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="font-medium text-gray-900 dark:text-white">
-                  Create New Household
+            {/* Delete Household */}
+            {myRole === 'owner' && (
+              <div className="bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800 p-4">
+                <h4 className="font-medium text-red-900 dark:text-red-100 mb-2">
+                  Delete Household
                 </h4>
-                {!showCreateForm && (
-                  <button
-                    onClick={() => setShowCreateForm(true)}
-                    className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
-                  >
-                    <HomeIcon className="w-4 h-4" />
-                    Create
-                  </button>
-                )}
+                <p className="text-sm text-red-700 dark:text-red-300 mb-3">
+                  Removes everyone from the household. Shared recipes, lists and collections go back to the members who added them.
+                </p>
+                <button
+                  onClick={handleDeleteHousehold}
+                  disabled={loading}
+                  className="inline-flex items-center gap-2 px-3 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                  Delete Household
+                </button>
               </div>
+            )}
+          </div>
+        ) : (
+          /* No Household Yet */
+          <div className="text-center py-6">
+            <UserGroupIcon className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-3" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+              No Household Yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Create a household for your family or join an existing one.
+            </p>
+          </div>
+        )}
 
-              {showCreateForm && (
-                <form onSubmit={handleCreateHousehold} className="space-y-3">
-                  <input
-                    type="text"
-                    value={createForm.name}
-                    onChange={(e) => setCreateForm({ name: e.target.value })}
-                    placeholder="Household name (e.g., The Smith Family)"
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
-                    required
-                    autoComplete="off"
-                    autoCapitalize="words"
-                    autoCorrect="off"
-                    spellCheck="false"
-                  />
-                  <div className="flex gap-2">
-                    <button
-                      type="submit"
-                      disabled={loading || !createForm.name.trim()}
-                      className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      {loading ? (
-                        <>
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                          Creating...
-                        </>
-                      ) : (
-                        <>
-                          <HomeIcon className="w-4 h-4" />
-                          Create
-                        </>
-                      )}
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setShowCreateForm(false)
-                        setCreateForm({ name: '' })
-                      }}
-                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                    >
-                      Cancel
-                    </button>
-                  </div>
-                </form>
-              )}
-
+        {/* Create or Join - also for adding another household, e.g. a shared flat next to the family */}
+        <div className={`space-y-6 ${household ? 'mt-6' : ''}`}>
+          {/* Create Household */}
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Create New Household
+              </h4>
               {!showCreateForm && (
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                  Start a new household to share recipes with your family.
-                </p>
+                <button
+                  onClick={() => setShowCreateForm(true)}
+                  className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  <HomeIcon className="w-4 h-4" />
+                  Create
+                </button>
               )}
             </div>
 
-            {/* Join Household */}
-            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="font-medium text-gray-900 dark:text-white">
-                  Join Existing Household
-                </h4>
-                {!showJoinForm && (
+            {showCreateForm && (
+              <form onSubmit={handleCreateHousehold} className="space-y-3">
+                <input
+                  type="text"
+                  value={createForm.name}
+                  onChange={(e) => setCreateForm({ name: e.target.value })}
+                  placeholder="Household name (e.g., The Smith Family)"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  required
+                  autoComplete="off"
+                  autoCapitalize="words"
+                  autoCorrect="off"
+                  spellCheck="false"
+                />
+                <div className="flex gap-2">
                   <button
-                    onClick={() => setShowJoinForm(true)}
-                    className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-colors"
+                    type="submit"
+                    disabled={loading || !createForm.name.trim()}
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg transition-colors"
                   >
-                    <UserPlusIcon className="w-4 h-4" />
-                    Join
+                    {loading ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Creating...
+                      </>
+                    ) : (
+                      <>
+                        <HomeIcon className="w-4 h-4" />
+                        Create
+                      </>
+                    )}
                   </button>
-                )}
-              </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowCreateForm(false)
+                      setCreateForm({ name: '' })
+                    }}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
 
-              {showJoinForm && (
-                <form onSubmit={handleJoinHousehold} className="space-y-3">
-                  <input
-                    type="text"
-                    value={joinForm.inviteCode}
-                    onChange={(e) => setJoinForm({ inviteCode: e.target.value })}
-                    placeholder="Enter invite code"
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors font-mono"
-                    required
-                    autoComplete="off"
-                    autoCapitalize="none"
-                    autoCorrect="off"
-                    spellCheck="false"
-                  />
-                  <div className="flex gap-2">
-                    <button
-                      type="submit"
-                      disabled={loading || !joinForm.inviteCode.trim()}
-                      className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      {loading ? (
-                        <>
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                          Joining...
-                        </>
-                      ) : (
-                        <>
-                          <UserPlusIcon className="w-4 h-4" />
-                          Join
-                        </>
-                      )}
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setShowJoinForm(false)
-                        setJoinForm({ inviteCode: '' })
-                      }}
-                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                    >
-                      Cancel
-                    </button>
-                  </div>
-                </form>
-              )}
+            {!showCreateForm && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Start a new household to share recipes with your family.
+              </p>
+            )}
+          </div>
 
+          {/* Join Household */}
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                Join Existing Household
+              </h4>
               {!showJoinForm && (
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                  Have an invite code? Use it to join a family household.
-                </p>
+                <button
+                  onClick={() => setShowJoinForm(true)}
+                  className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  <UserPlusIcon className="w-4 h-4" />
+                  Join
+                </button>
               )}
             </div>
+
+            {showJoinForm && (
+              <form onSubmit={handleJoinHousehold} className="space-y-3">
+                <input
+                  type="text"
+                  value={joinForm.inviteCode}
+                  onChange={(e) => setJoinForm({ inviteCode: e.target.value })}
+                  placeholder="Enter invite code"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors font-mono"
+                  required
+                  autoComplete="off"
+                  autoCapitalize="none"
+                  autoCorrect="off"
+                  spellCheck="false"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={loading || !joinForm.inviteCode.trim()}
+                    className="inline-flex items-center gap-2 px-3 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    {loading ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Joining...
+                      </>
+                    ) : (
+                      <>
+                        <UserPlusIcon className="w-4 h-4" />
+                        Join
+                      </>
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowJoinForm(false)
+                      setJoinForm({ inviteCode: '' })
+                    }}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {!showJoinForm && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Have an invite code? Use it to join a family household.
+              </p>
+            )}
           </div>
+        </div>
+      </div>
+
+      {/* Tags Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <TagIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Tags
+          </h2>
+        </div>
+
+        <TagManager />
+      </div>
+
+      {/* Your Data Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <ArrowDownTrayIcon className="w-6 h-6 text-gray-600 dark:text-gray-400" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Your Data
+          </h2>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Download your recipes as a zip with schema.org JSON-LD, Markdown and images, plus the original text or
+          scraped data they were imported from.
+        </p>
+
+        {household && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={includeHouseholdInExport}
+              onChange={(e) => setIncludeHouseholdInExport(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Include recipes from {household.name}
+          </label>
         )}
+
+        <div className="flex flex-wrap gap-3">
+          <a
+            href={apiService.getExportUrl(includeHouseholdInExport)}
+            download
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export Recipes
+          </a>
+          <Link
+            to="/import"
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            Import from Another App
+          </Link>
+        </div>
       </div>
 
       {/* Account Actions */}
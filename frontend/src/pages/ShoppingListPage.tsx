@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import type { KeyboardEvent, MouseEvent } from 'react'
 import { useNavigate } from 'react-router-dom'
 import {
@@ -8,13 +8,15 @@ import {
   ArrowPathIcon,
   PlusIcon,
   ChevronDownIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  SignalIcon
 } from '@heroicons/react/24/outline'
-import { apiService, ShoppingListItem } from '../services/api'
+import { apiService, ApiError, ShoppingListItem } from '../services/api'
 import { useAuth } from '../contexts/AuthContext'
 import { getCategoryById, IngredientCategory } from '../utils/categories'
 import { getRandomLoadingHumor, getRandomShoppingListHumor } from '../utils/humor'
 import AlertBanner, { AlertVariant } from '../components/AlertBanner'
+import { applyShoppingListChange, mergeShoppingListItems, reconcileShoppingList } from '../utils/shoppingListSync'
 
 interface CustomCheckboxProps {
   id: string
@@ -141,10 +143,13 @@ export default function ShoppingListPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [banner, setBanner] = useState<{ variant: AlertVariant; message: string } | null>(null)
-  const [updating, setUpdating] = useState<Set<string>>(new Set())
   const [newItem, setNewItem] = useState('')
   const [isAddingManualItem, setIsAddingManualItem] = useState(false)
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set())
+  const [isLive, setIsLive] = useState(false)
+  // Items with a request of ours in flight; live changes to them wait until the response is in
+  const pendingIdsRef = useRef<Set<string>>(new Set())
+  const deferredChangesRef = useRef<Map<string, ShoppingListItem>>(new Map())
   const showBanner = useCallback((variant: AlertVariant, message: string) => {
     setBanner({ variant, message })
   }, [])
@@ -173,11 +178,59 @@ export default function ShoppingListPage() {
     loadShoppingList()
   }, [user, navigate, loadShoppingList])
 
+  // Catch up after the live connection dropped, without the loading screen
+  const refreshShoppingList = useCallback(async () => {
+    try {
+      const shoppingList = await apiService.getShoppingList()
+      setItems(prev => reconcileShoppingList(prev, shoppingList, pendingIdsRef.current))
+    } catch (err) {
+      console.error('Failed to refresh shopping list:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    let connectedBefore = false
+    return apiService.subscribeToShoppingList({
+      onChange: change => {
+        if (change.type === 'items_changed') {
+          change.items
+            .filter(item => pendingIdsRef.current.has(item.id))
+            .forEach(item => deferredChangesRef.current.set(item.id, item))
+        }
+        setItems(prev => applyShoppingListChange(prev, change, pendingIdsRef.current))
+      },
+      onConnected: () => {
+        setIsLive(true)
+        // Changes made while we were disconnected were not pushed to us
+        if (connectedBefore) {
+          refreshShoppingList()
+        }
+        connectedBefore = true
+      },
+      onDisconnected: () => setIsLive(false)
+    })
+  }, [user?.id, user?.householdId, refreshShoppingList])
+
+  const startRequest = useCallback((id: string) => {
+    pendingIdsRef.current.add(id)
+  }, [])
+
+  // Apply what others changed while our request was in flight, if it is newer than our result
+  const finishRequest = useCallback((id: string) => {
+    pendingIdsRef.current.delete(id)
+    const deferred = deferredChangesRef.current.get(id)
+    if (deferred) {
+      deferredChangesRef.current.delete(id)
+      setItems(prev => applyShoppingListChange(prev, { type: 'items_changed', items: [deferred] }))
+    }
+  }, [])
+
   const handleToggleItem = useCallback(async (id: string, completed: boolean) => {
-    if (updating.has(id)) return
+    if (pendingIdsRef.current.has(id)) return
 
     // Optimistic update - immediately update UI
-    const previousItems = [...items]
     setItems(prev =>
       prev.map(item =>
         item.id === id ? { ...item, isCompleted: completed } : item
@@ -185,7 +238,7 @@ export default function ShoppingListPage() {
     )
 
     try {
-      setUpdating(prev => new Set([...prev, id]))
+      startRequest(id)
       const updatedItem = await apiService.updateShoppingListItem(id, { isCompleted: completed })
 
       // Update with server response to ensure consistency
@@ -193,45 +246,45 @@ export default function ShoppingListPage() {
         prev.map(item => item.id === id ? updatedItem : item)
       )
     } catch (err) {
-      // Revert optimistic update on error
-      setItems(previousItems)
-      console.error('Failed to update shopping list item:', err)
-      showBanner('error', 'Failed to update shopping list item. Please try again.')
+      if (err instanceof ApiError && err.status === 404) {
+        setItems(prev => prev.filter(item => item.id !== id))
+        showBanner('info', 'Someone else already removed that item from the list.')
+      } else {
+        // Revert only this item so changes others made in the meantime stay
+        setItems(prev =>
+          prev.map(item => item.id === id ? { ...item, isCompleted: !completed } : item)
+        )
+        console.error('Failed to update shopping list item:', err)
+        showBanner('error', 'Failed to update shopping list item. Please try again.')
+      }
     } finally {
-      setUpdating(prev => {
-        const newSet = new Set(prev)
-        newSet.delete(id)
-        return newSet
-      })
+      finishRequest(id)
     }
-  }, [items, updating, showBanner])
+  }, [startRequest, finishRequest, showBanner])
 
   const handleDeleteItem = useCallback(async (id: string) => {
-    if (updating.has(id)) return
+    if (pendingIdsRef.current.has(id)) return
 
     // Optimistic update - immediately remove from UI
     const itemToDelete = items.find(item => item.id === id)
     if (!itemToDelete) return
 
-    const previousItems = [...items]
     setItems(prev => prev.filter(item => item.id !== id))
 
     try {
-      setUpdating(prev => new Set([...prev, id]))
+      startRequest(id)
       await apiService.deleteShoppingListItem(id)
     } catch (err) {
-      // Revert optimistic update on error
-      setItems(previousItems)
-      console.error('Failed to delete shopping list item:', err)
-      showBanner('error', 'Failed to delete shopping list item. Please try again.')
+      // Already gone when someone else removed it first
+      if (!(err instanceof ApiError && err.status === 404)) {
+        setItems(prev => mergeShoppingListItems(prev, [itemToDelete]))
+        console.error('Failed to delete shopping list item:', err)
+        showBanner('error', 'Failed to delete shopping list item. Please try again.')
+      }
     } finally {
-      setUpdating(prev => {
-        const newSet = new Set(prev)
-        newSet.delete(id)
-        return newSet
-      })
+      finishRequest(id)
     }
-  }, [items, updating, showBanner])
+  }, [items, startRequest, finishRequest, showBanner])
 
   const handleClearAll = useCallback(async () => {
     if (items.length === 0) return
@@ -258,19 +311,7 @@ export default function ShoppingListPage() {
         ingredients: [trimmedItem]
       })
 
-      setItems(prevItems => {
-        if (!response.items.length) {
-          return prevItems
-        }
-
-        const existingIds = new Set(prevItems.map(item => item.id))
-        const updatesById = new Map(response.items.map(item => [item.id, item]))
-
-        const mergedItems = prevItems.map(item => updatesById.get(item.id) || item)
-        const newItems = response.items.filter(item => !existingIds.has(item.id))
-
-        return [...newItems, ...mergedItems]
-      })
+      setItems(prevItems => mergeShoppingListItems(prevItems, response.items))
 
       setNewItem('')
     } catch (err) {
@@ -379,12 +420,20 @@ export default function ShoppingListPage() {
     <div className="px-3 py-4 max-w-4xl mx-auto pb-20">
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
-        <p className="text-gray-600 dark:text-gray-400">
-          {totalCount === 0
-            ? 'No items in your shopping list'
-            : `${completedCount} of ${totalCount} shopping list items completed`
-          }
-        </p>
+        <div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {totalCount === 0
+              ? 'No items in your shopping list'
+              : `${completedCount} of ${totalCount} shopping list items completed`
+            }
+          </p>
+          {isLive && user?.householdId && (
+            <p className="mt-1 inline-flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+              <SignalIcon className="w-3.5 h-3.5" />
+              Live: check-offs from your household show up right away
+            </p>
+          )}
+        </div>
 
         <div className="flex gap-3">
           {totalCount > 0 && (
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { apiService } from '../services/api'
+import { useAuth } from '../contexts/AuthContext'
+import AlertBanner from '../components/AlertBanner'
+import AuthPageLayout from '../components/auth/AuthPageLayout'
+
+interface VerifyEmailPageProps {
+  // "verify" confirms the account's address; "change" confirms a switch to a new address
+  mode: 'verify' | 'change'
+}
+
+type Status = 'confirming' | 'confirmed' | 'failed'
+
+function VerifyEmailPage({ mode }: VerifyEmailPageProps) {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const { user, refreshUser } = useAuth()
+  const [status, setStatus] = useState<Status>(token ? 'confirming' : 'failed')
+  const [message, setMessage] = useState<string>(token ? '' : 'This link is incomplete. Open the link from the email again.')
+  // Links work once, so the request must not be repeated when the effect re-runs
+  const submittedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return
+    submittedToken.current = token
+
+    const confirm = mode === 'verify' ? apiService.verifyEmail(token) : apiService.confirmEmailChange(token)
+    confirm
+      .then(response => {
+        setStatus('confirmed')
+        setMessage(response.message)
+        return refreshUser()
+      })
+      .catch(err => {
+        setStatus('failed')
+        setMessage(err instanceof Error ? err.message : 'This link could not be used')
+      })
+  }, [token, mode, refreshUser])
+
+  const title = mode === 'verify' ? 'Confirm your email' : 'Confirm your new email'
+
+  return (
+    <AuthPageLayout>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <h2 className="text-2xl font-bold text-center text-gray-900 dark:text-white">{title}</h2>
+
+        {status === 'confirming' && (
+          <div className="text-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">Confirming...</p>
+          </div>
+        )}
+
+        {status === 'confirmed' && (
+          <AlertBanner variant="success" description={message} />
+        )}
+
+        {status === 'failed' && (
+          <AlertBanner
+            variant="error"
+            description={message}
+          />
+        )}
+
+        {status !== 'confirming' && (
+          <div className="text-center">
+            <Link
+              to={user ? (status === 'failed' ? '/settings' : '/dashboard') : '/login'}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+            >
+              {user
+                ? (status === 'failed' ? 'Go to settings to request a new link' : 'Continue to your recipes')
+                : 'Sign in'}
+            </Link>
+          </div>
+        )}
+      </div>
+    </AuthPageLayout>
+  )
+}
+
+export default VerifyEmailPage
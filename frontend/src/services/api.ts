@@ -1,4 +1,12 @@
-import { Household, User } from '../types/user'
+import {
+  CreateHouseholdInvitationData,
+  Household,
+  HouseholdInvitation,
+  HouseholdInvitationPreview,
+  HouseholdRole,
+  User,
+  UnitSystem
+} from '../types/user'
 
 const translateScraperErrorMessage = (message: string | undefined | null): string | undefined => {
   if (!message) return message ?? undefined
@@ -23,11 +31,27 @@ const translateScraperErrorMessage = (message: string | undefined | null): strin
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api'
 
+// Error thrown for non-2xx responses, keeping the status and parsed body for callers that act on them
+export class ApiError extends Error {
+  status: number
+  data?: unknown
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.data = data
+  }
+}
+
 export interface IngredientCategory {
   category?: string
   items: string[]
 }
 
+export type DietLabel = 'vegan' | 'vegetarian' | 'pescatarian' | 'gluten-free' | 'dairy-free'
+export type Allergen = 'gluten' | 'dairy' | 'nuts' | 'shellfish' | 'egg' | 'soy' | 'fish'
+
 export interface Recipe {
   id: string
   name: string
@@ -48,13 +72,48 @@ export interface Recipe {
   sourceUrl?: string
   aiEnhancedNotes?: string
   tags?: string[]
+  dietaryLabels?: string[]
   isPublic: boolean
   userId?: string
   householdId?: string
   language?: string
+  nutrition?: NutritionFacts
+  cookStats?: RecipeCookStats
   createdAt: string
   updatedAt: string
   canEdit?: boolean
+  searchRank?: number
+  searchHighlights?: RecipeSearchHighlights
+}
+
+export interface NutrientAmounts {
+  calories: number
+  protein: number
+  fat: number
+  saturatedFat: number
+  carbohydrates: number
+  fiber: number
+  sugar: number
+  sodium: number
+  calcium: number
+  iron: number
+  potassium: number
+  vitaminC: number
+}
+
+export interface NutritionFacts {
+  perServing: NutrientAmounts
+  total: NutrientAmounts
+  servings: number
+  matchedIngredients: Array<{ text: string; displayName: string; grams: number }>
+  unmatchedIngredients: string[]
+  computedAt: string
+}
+
+export interface RecipeSearchHighlights {
+  name?: string
+  description?: string
+  snippet?: string
 }
 
 export interface CreateRecipeData {
@@ -82,14 +141,28 @@ export interface CreateRecipeData {
   originalTextInput?: string
   importAdditionalContext?: string
   language?: string
+  // Save even when the server finds a likely duplicate
+  allowDuplicate?: boolean
 }
 
 export interface UpdateRecipeData extends Partial<CreateRecipeData> {}
 
+// An existing recipe that an imported or new recipe appears to repeat
+export interface RecipeDuplicate {
+  id: string
+  name: string
+  image?: string
+  sourceUrl?: string
+  matchedBy: 'sourceUrl' | 'content'
+  similarity: number
+}
+
 export interface RecipeFilters {
   search?: string
-  sortBy?: 'name' | 'time' | 'servings' | 'recent'
+  sortBy?: 'name' | 'time' | 'servings' | 'recent' | 'relevance' | 'rating' | 'lastCooked' | 'timesCooked'
   tags?: string[]
+  diet?: DietLabel[]
+  excludeAllergens?: Allergen[]
   limit?: number
   offset?: number
   scope?: 'my' | 'public' | 'all'
@@ -126,6 +199,11 @@ export interface ShoppingListItem {
   updatedAt: string
 }
 
+// Changes pushed by the server when anyone with access to the list edits it
+export type ShoppingListChange =
+  | { type: 'items_changed'; items: ShoppingListItem[] }
+  | { type: 'items_deleted'; ids: string[] }
+
 export interface AddToShoppingListRequest {
   ingredients: string[]
   recipeId?: string
@@ -133,6 +211,258 @@ export interface AddToShoppingListRequest {
   scale?: number
 }
 
+export interface PantryItem {
+  id: string
+  userId: string
+  householdId?: string
+  name: string
+  displayName: string
+  category: string
+  quantity?: string
+  unit?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PantryRecipeMatch {
+  recipe: Recipe
+  matchedCount: number
+  totalCount: number
+  matchRatio: number
+  matchedIngredients: string[]
+  missingIngredients: string[]
+}
+
+export interface PantryMatchFilters {
+  scope?: 'my' | 'all'
+  maxMissing?: number
+  limit?: number
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack'
+
+export interface MealPlanEntry {
+  id: string
+  userId: string
+  householdId?: string
+  date: string // YYYY-MM-DD
+  mealSlot: MealSlot
+  recipeId: string
+  servings?: number
+  recipeName?: string
+  recipeImage?: string
+  recipeServings?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MealPlanRange {
+  start: string
+  end: string
+  entries: MealPlanEntry[]
+}
+
+export type ImportFormat = 'paprika' | 'mealie' | 'tandoor' | 'jsonld'
+
+export interface ImportResultEntry {
+  name: string
+  status: 'imported' | 'failed'
+  recipeId?: string
+  error?: string
+}
+
+export interface RecipeImportJob {
+  id: string
+  filename: string
+  format?: ImportFormat
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  results: ImportResultEntry[]
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export type ImportJobType = 'url' | 'text' | 'image'
+
+// Recipe fields parsed from a URL, text or photo, ready to fill the recipe form
+export interface ImportedRecipeData {
+  name: string
+  description: string
+  ingredients: string[]
+  instructions: string[]
+  image?: string
+  imageSizes?: Recipe['imageSizes']
+  sourceUrl?: string
+  prepTimeMinutes?: number
+  cookTimeMinutes?: number
+  totalTimeMinutes?: number
+  servings?: number
+  originalScrapedData?: string
+  originalTextInput?: string
+  importAdditionalContext?: string
+  language?: string
+}
+
+export interface ImportJob {
+  id: string
+  type: ImportJobType
+  input: {
+    url?: string
+    text?: string
+    filename?: string
+    targetLanguage?: string
+    additionalContext?: string
+  }
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt?: string
+  result?: {
+    recipeData: ImportedRecipeData
+    duplicates: RecipeDuplicate[]
+  }
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export type StartImportJobRequest =
+  | { type: 'url'; url: string; targetLanguage?: string; additionalContext?: string }
+  | { type: 'text'; text: string; targetLanguage?: string; additionalContext?: string }
+  | { type: 'image'; image: File; targetLanguage?: string }
+
+export interface CookbookRequest {
+  recipeIds?: string[]
+  tags?: string[]
+  title?: string
+  subtitle?: string
+}
+
+export type RevisionChangeType = 'create' | 'update' | 'enhance' | 'restore'
+
+export interface RecipeRevisionSummary {
+  id: string
+  recipeId: string
+  revisionNumber: number
+  changeType: RevisionChangeType
+  userId?: string
+  userDisplayName?: string
+  restoredFrom?: number
+  changedFields: string[]
+  createdAt: string
+}
+
+export interface RecipeDiffLine {
+  op: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+export type RecipeFieldDiff =
+  | { field: string; type: 'value'; before: unknown; after: unknown }
+  | { field: string; type: 'lines'; lines: RecipeDiffLine[] }
+
+export interface RecipeRevisionDiff {
+  revision: number
+  against: 'previous' | 'current'
+  previousRevision?: number | null
+  changes: RecipeFieldDiff[]
+}
+
+// Aggregated over your own and your household's cooks
+export interface RecipeCookStats {
+  timesCooked: number
+  lastCookedAt?: string
+  averageRating?: number
+  ratingCount: number
+}
+
+export interface RecipeCook {
+  id: string
+  recipeId: string
+  userId: string
+  userDisplayName?: string
+  cookedAt: string
+  rating?: number
+  notes?: string
+  image?: string
+  imageSizes?: Recipe['imageSizes']
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RecipeCookInput {
+  cookedAt?: string
+  rating?: number | null
+  notes?: string
+  photo?: File
+  removeImage?: boolean
+}
+
+function buildCookFormData(input: RecipeCookInput): FormData {
+  const formData = new FormData()
+  if (input.cookedAt) formData.append('cookedAt', input.cookedAt)
+  if (input.rating !== undefined) formData.append('rating', input.rating === null ? '' : String(input.rating))
+  if (input.notes !== undefined) formData.append('notes', input.notes)
+  if (input.photo) formData.append('photo', input.photo)
+  if (input.removeImage) formData.append('removeImage', 'true')
+  return formData
+}
+
+// Comment on a public recipe; deleted comments (and hidden ones, for most viewers) come back without a body
+export interface RecipeComment {
+  id: string
+  recipeId: string
+  parentId?: string
+  userId: string
+  userDisplayName?: string
+  body: string
+  isDeleted: boolean
+  isHidden: boolean
+  reportCount?: number
+  reportedByViewer: boolean
+  editedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// private: only you; shared: your household can view and edit; public: anyone with the link can view
+export type CollectionVisibility = 'private' | 'shared' | 'public'
+
+export interface Collection {
+  id: string
+  userId: string
+  householdId?: string
+  name: string
+  description?: string
+  coverImage?: string
+  visibility: CollectionVisibility
+  recipeCount: number
+  firstRecipeImage?: string
+  ownerDisplayName?: string
+  containsRecipe?: boolean
+  canEdit?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CollectionInput {
+  name?: string
+  description?: string | null
+  coverImage?: string | null
+  visibility?: CollectionVisibility
+}
+
+export interface TagUsage {
+  name: string
+  count: number
+}
+
 class ApiService {
   private async request<T>(endpoint: string, options?: RequestInit): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`
@@ -175,9 +505,10 @@ class ApiService {
       // Try to parse error response as JSON
       const fallbackErrorMessage = `Server error (${response.status})`
       let errorMessage = fallbackErrorMessage
+      let errorData: any
 
       try {
-        const errorData = await response.json()
+        errorData = await response.json()
         errorMessage = errorData.error?.message || errorData.message || errorMessage
       } catch (parseError) {
         // If JSON parsing fails, try to get text response
@@ -211,7 +542,7 @@ class ApiService {
         }
       }
 
-      throw new Error(errorMessage)
+      throw new ApiError(errorMessage, response.status, errorData)
     }
 
     // Handle responses with no content (like DELETE operations)
@@ -229,6 +560,8 @@ class ApiService {
     if (filters?.search) params.append('search', filters.search)
     if (filters?.sortBy) params.append('sortBy', filters.sortBy)
     if (filters?.tags && filters.tags.length > 0) params.append('tags', filters.tags.join(','))
+    if (filters?.diet && filters.diet.length > 0) params.append('diet', filters.diet.join(','))
+    if (filters?.excludeAllergens && filters.excludeAllergens.length > 0) params.append('excludeAllergens', filters.excludeAllergens.join(','))
     if (filters?.limit) params.append('limit', filters.limit.toString())
     if (filters?.offset) params.append('offset', filters.offset.toString())
     if (filters?.scope) params.append('scope', filters.scope)
@@ -310,6 +643,7 @@ class ApiService {
         importAdditionalContext?: string
         language?: string
       }
+      duplicates?: RecipeDuplicate[]
     }>('/recipes/scrape', {
       method: 'POST',
       body: JSON.stringify(payload),
@@ -344,6 +678,7 @@ class ApiService {
         importAdditionalContext?: string
         language?: string
       }
+      duplicates?: RecipeDuplicate[]
     }>('/recipes/parse-text-gemini', {
       method: 'POST',
       body: JSON.stringify(payload),
@@ -391,6 +726,145 @@ class ApiService {
     return response
   }
 
+  // Recipe revision history
+  async getRecipeRevisions(recipeId: string): Promise<RecipeRevisionSummary[]> {
+    const response = await this.request<{ revisions: RecipeRevisionSummary[] }>(`/recipes/${recipeId}/revisions`)
+    return response.revisions
+  }
+
+  async getRecipeRevisionDiff(
+    recipeId: string,
+    revisionId: string,
+    against: 'previous' | 'current' = 'previous'
+  ): Promise<RecipeRevisionDiff> {
+    return this.request<RecipeRevisionDiff>(`/recipes/${recipeId}/revisions/${revisionId}/diff?against=${against}`)
+  }
+
+  async restoreRecipeRevision(recipeId: string, revisionId: string): Promise<{ message: string; recipe: Recipe }> {
+    return this.request<{ message: string; recipe: Recipe }>(`/recipes/${recipeId}/revisions/${revisionId}/restore`, {
+      method: 'POST',
+    })
+  }
+
+  // Cook log
+  async getRecipeCooks(recipeId: string): Promise<{ cooks: RecipeCook[]; stats?: RecipeCookStats }> {
+    return this.request<{ cooks: RecipeCook[]; stats?: RecipeCookStats }>(`/recipes/${recipeId}/cooks`)
+  }
+
+  async logRecipeCook(recipeId: string, input: RecipeCookInput): Promise<RecipeCook> {
+    const response = await this.request<{ cook: RecipeCook }>(`/recipes/${recipeId}/cooks`, {
+      method: 'POST',
+      body: buildCookFormData(input),
+    })
+    return response.cook
+  }
+
+  async updateRecipeCook(recipeId: string, cookId: string, input: RecipeCookInput): Promise<RecipeCook> {
+    const response = await this.request<{ cook: RecipeCook }>(`/recipes/${recipeId}/cooks/${cookId}`, {
+      method: 'PUT',
+      body: buildCookFormData(input),
+    })
+    return response.cook
+  }
+
+  async deleteRecipeCook(recipeId: string, cookId: string): Promise<void> {
+    await this.request<void>(`/recipes/${recipeId}/cooks/${cookId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getRecipeComments(recipeId: string): Promise<{ comments: RecipeComment[]; canModerate: boolean }> {
+    return this.request<{ comments: RecipeComment[]; canModerate: boolean }>(`/recipes/${recipeId}/comments`)
+  }
+
+  async addRecipeComment(recipeId: string, body: string, parentId?: string): Promise<RecipeComment> {
+    const response = await this.request<{ comment: RecipeComment }>(`/recipes/${recipeId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body, parentId }),
+    })
+    return response.comment
+  }
+
+  async updateRecipeComment(recipeId: string, commentId: string, body: string): Promise<RecipeComment> {
+    const response = await this.request<{ comment: RecipeComment }>(`/recipes/${recipeId}/comments/${commentId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ body }),
+    })
+    return response.comment
+  }
+
+  async deleteRecipeComment(recipeId: string, commentId: string): Promise<void> {
+    await this.request<void>(`/recipes/${recipeId}/comments/${commentId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async reportRecipeComment(recipeId: string, commentId: string, reason?: string): Promise<void> {
+    await this.request<void>(`/recipes/${recipeId}/comments/${commentId}/report`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    })
+  }
+
+  async setRecipeCommentHidden(recipeId: string, commentId: string, hidden: boolean): Promise<void> {
+    await this.request<void>(`/recipes/${recipeId}/comments/${commentId}/hidden`, {
+      method: 'PUT',
+      body: JSON.stringify({ hidden }),
+    })
+  }
+
+  async getCollections(recipeId?: string): Promise<Collection[]> {
+    const query = recipeId ? `?recipeId=${encodeURIComponent(recipeId)}` : ''
+    const response = await this.request<{ collections: Collection[] }>(`/collections${query}`)
+    return response.collections
+  }
+
+  async getCollection(id: string): Promise<{ collection: Collection; recipes: Recipe[] }> {
+    return this.request<{ collection: Collection; recipes: Recipe[] }>(`/collections/${id}`)
+  }
+
+  async createCollection(data: CollectionInput & { name: string }): Promise<Collection> {
+    const response = await this.request<{ collection: Collection }>('/collections', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+    return response.collection
+  }
+
+  async updateCollection(id: string, data: CollectionInput): Promise<Collection> {
+    const response = await this.request<{ collection: Collection }>(`/collections/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+    return response.collection
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.request<void>(`/collections/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async addRecipeToCollection(collectionId: string, recipeId: string): Promise<void> {
+    await this.request<{ collection: Collection }>(`/collections/${collectionId}/recipes`, {
+      method: 'POST',
+      body: JSON.stringify({ recipeId }),
+    })
+  }
+
+  async removeRecipeFromCollection(collectionId: string, recipeId: string): Promise<void> {
+    await this.request<void>(`/collections/${collectionId}/recipes/${recipeId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async reorderCollection(collectionId: string, recipeIds: string[]): Promise<void> {
+    await this.request<void>(`/collections/${collectionId}/recipes`, {
+      method: 'PUT',
+      body: JSON.stringify({ recipeIds }),
+    })
+  }
+
   // Upload image and get URL (no recipe parsing)
   async uploadImage(imageFile: File) {
     const formData = new FormData()
@@ -449,12 +923,39 @@ class ApiService {
     return imagePath
   }
 
-  // Get all unique tags
-  async getAllTags(): Promise<string[]> {
-    const response = await this.request<{ tags: string[] }>('/recipes/tags')
+  // Get the unique tags on recipes the user can see, optionally limited like the recipe list
+  async getAllTags(scope?: 'my' | 'public' | 'all'): Promise<string[]> {
+    const query = scope ? `?scope=${scope}` : ''
+    const response = await this.request<{ tags: string[] }>(`/recipes/tags${query}`)
+    return response.tags
+  }
+
+  // Tags on the user's own and household recipes, with how many recipes use each
+  async getTagUsage(): Promise<TagUsage[]> {
+    const response = await this.request<{ tags: TagUsage[] }>('/tags')
     return response.tags
   }
 
+  async renameTag(tag: string, name: string): Promise<{ tag: string; updatedRecipes: number }> {
+    return this.request<{ tag: string; updatedRecipes: number }>(`/tags/${encodeURIComponent(tag)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+    })
+  }
+
+  async mergeTags(tags: string[], into: string): Promise<{ tag: string; updatedRecipes: number }> {
+    return this.request<{ tag: string; updatedRecipes: number }>('/tags/merge', {
+      method: 'POST',
+      body: JSON.stringify({ tags, into }),
+    })
+  }
+
+  async deleteTag(tag: string): Promise<{ updatedRecipes: number }> {
+    return this.request<{ updatedRecipes: number }>(`/tags/${encodeURIComponent(tag)}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Copy recipe to user's collection
   async copyRecipe(id: string, data: { householdId?: string } = {}): Promise<Recipe> {
     const response = await this.request<{ recipe: Recipe }>(`/recipes/${id}/copy`, {
@@ -479,8 +980,56 @@ class ApiService {
     return this.request<{ household: Household | null }>('/households/current')
   }
 
-  async regenerateInviteCode(): Promise<{ household: Household }> {
-    return this.request<{ household: Household }>('/households/regenerate-invite', {
+  async regenerateInviteCode(): Promise<{ inviteCode: string }> {
+    return this.request<{ inviteCode: string }>('/households/regenerate-invite', {
+      method: 'POST'
+    })
+  }
+
+  async removeHouseholdMember(userId: string): Promise<{ household: Household }> {
+    return this.request<{ household: Household }>(`/households/members/${encodeURIComponent(userId)}`, {
+      method: 'DELETE'
+    })
+  }
+
+  async updateHouseholdMemberRole(userId: string, role: HouseholdRole): Promise<{ household: Household }> {
+    return this.request<{ household: Household }>(`/households/members/${encodeURIComponent(userId)}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role })
+    })
+  }
+
+  async transferHouseholdOwnership(userId: string): Promise<{ household: Household }> {
+    return this.request<{ household: Household }>('/households/transfer-ownership', {
+      method: 'POST',
+      body: JSON.stringify({ userId })
+    })
+  }
+
+  async getHouseholdInvitations(): Promise<{ invitations: HouseholdInvitation[] }> {
+    return this.request<{ invitations: HouseholdInvitation[] }>('/households/invitations')
+  }
+
+  // The token and link are only returned when the invitation is created
+  async createHouseholdInvitation(data: CreateHouseholdInvitationData): Promise<{ invitation: HouseholdInvitation; token: string; url: string }> {
+    return this.request<{ invitation: HouseholdInvitation; token: string; url: string }>('/households/invitations', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  async revokeHouseholdInvitation(id: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/households/invitations/${encodeURIComponent(id)}`, {
+      method: 'DELETE'
+    })
+  }
+
+  async previewHouseholdInvitation(token: string): Promise<{ invitation: HouseholdInvitationPreview; alreadyMember: boolean }> {
+    return this.request<{ invitation: HouseholdInvitationPreview; alreadyMember: boolean }>(`/households/invitations/token/${encodeURIComponent(token)}`)
+  }
+
+  async acceptHouseholdInvitation(token: string): Promise<{ household: Household }> {
+    return this.request<{ household: Household }>(`/households/invitations/token/${encodeURIComponent(token)}/accept`, {
       method: 'POST'
     })
   }
@@ -490,6 +1039,46 @@ class ApiService {
     return this.request<ShoppingListItem[]>('/shopping-list')
   }
 
+  /**
+   * Listen for changes to the shopping list made in other sessions, over Server-Sent Events.
+   * The browser reconnects by itself after network drops; onConnected fires on every (re)connection.
+   * The server closes the stream when the user moves to another household's list, and it is reopened right away.
+   * @returns A function that closes the connection
+   */
+  subscribeToShoppingList(handlers: {
+    onChange: (change: ShoppingListChange) => void
+    onConnected?: () => void
+    onDisconnected?: () => void
+  }): () => void {
+    // Without EventSource (e.g. in tests) the list simply is not live
+    if (typeof EventSource === 'undefined') {
+      return () => undefined
+    }
+
+    let source: EventSource
+    const connect = () => {
+      source = new EventSource(`${API_BASE_URL}/shopping-list/events`, { withCredentials: true })
+
+      source.addEventListener('open', () => handlers.onConnected?.())
+      source.addEventListener('error', () => handlers.onDisconnected?.())
+      source.addEventListener('items_changed', event => {
+        const { items } = JSON.parse((event as MessageEvent<string>).data) as { items: ShoppingListItem[] }
+        handlers.onChange({ type: 'items_changed', items })
+      })
+      source.addEventListener('items_deleted', event => {
+        const { ids } = JSON.parse((event as MessageEvent<string>).data) as { ids: string[] }
+        handlers.onChange({ type: 'items_deleted', ids })
+      })
+      source.addEventListener('close', () => {
+        source.close()
+        connect()
+      })
+    }
+    connect()
+
+    return () => source.close()
+  }
+
   async addToShoppingList(data: AddToShoppingListRequest): Promise<{ message: string; items: ShoppingListItem[] }> {
     const result = await this.request<{ message: string; items: ShoppingListItem[] }>('/shopping-list', {
       method: 'POST',
@@ -527,6 +1116,165 @@ class ApiService {
     return result
   }
 
+  // Pantry methods
+  async getPantry(): Promise<PantryItem[]> {
+    return this.request<PantryItem[]>('/pantry')
+  }
+
+  async addPantryItem(data: { name: string; quantity?: string; unit?: string }): Promise<PantryItem> {
+    return this.request<PantryItem>('/pantry', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  async updatePantryItem(id: string, data: { name?: string; quantity?: string | null; unit?: string | null }): Promise<PantryItem> {
+    return this.request<PantryItem>(`/pantry/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  async deletePantryItem(id: string): Promise<void> {
+    await this.request(`/pantry/${id}`, {
+      method: 'DELETE'
+    })
+  }
+
+  async getPantryRecipeMatches(filters?: PantryMatchFilters): Promise<PantryRecipeMatch[]> {
+    const params = new URLSearchParams()
+    if (filters?.scope) params.append('scope', filters.scope)
+    if (filters?.maxMissing !== undefined) params.append('maxMissing', filters.maxMissing.toString())
+    if (filters?.limit) params.append('limit', filters.limit.toString())
+
+    const query = params.toString()
+    return this.request<PantryRecipeMatch[]>(`/pantry/recipes${query ? `?${query}` : ''}`)
+  }
+
+  // Meal plan methods
+  async getMealPlans(start?: string, end?: string): Promise<MealPlanRange> {
+    const params = new URLSearchParams()
+    if (start) params.append('start', start)
+    if (end) params.append('end', end)
+
+    const query = params.toString()
+    return this.request<MealPlanRange>(`/meal-plans${query ? `?${query}` : ''}`)
+  }
+
+  async createMealPlan(data: { date: string; mealSlot: MealSlot; recipeId: string; servings?: number }): Promise<MealPlanEntry> {
+    return this.request<MealPlanEntry>('/meal-plans', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    })
+  }
+
+  async updateMealPlan(id: string, data: { date?: string; mealSlot?: MealSlot; servings?: number | null }): Promise<MealPlanEntry> {
+    return this.request<MealPlanEntry>(`/meal-plans/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data)
+    })
+  }
+
+  async deleteMealPlan(id: string): Promise<void> {
+    await this.request(`/meal-plans/${id}`, {
+      method: 'DELETE'
+    })
+  }
+
+  async generateShoppingListFromMealPlan(start: string, end: string): Promise<{ message: string; items: ShoppingListItem[] }> {
+    return this.request<{ message: string; items: ShoppingListItem[] }>('/meal-plans/shopping-list', {
+      method: 'POST',
+      body: JSON.stringify({ start, end })
+    })
+  }
+
+  // Bulk import from other recipe managers
+  async startRecipeImport(file: File, options: { language?: string; isPublic?: boolean } = {}): Promise<RecipeImportJob> {
+    const formData = new FormData()
+    formData.append('file', file)
+    if (options.language) formData.append('language', options.language)
+    if (options.isPublic) formData.append('isPublic', 'true')
+
+    const response = await this.request<{ job: RecipeImportJob }>('/imports', {
+      method: 'POST',
+      body: formData,
+    })
+    return response.job
+  }
+
+  async getRecipeImports(): Promise<RecipeImportJob[]> {
+    const response = await this.request<{ jobs: RecipeImportJob[] }>('/imports')
+    return response.jobs
+  }
+
+  async getRecipeImport(id: string): Promise<RecipeImportJob> {
+    const response = await this.request<{ job: RecipeImportJob }>(`/imports/${id}`)
+    return response.job
+  }
+
+  // Background URL, text and photo imports; they keep running if the user leaves the page
+  async startImportJob(request: StartImportJobRequest): Promise<ImportJob> {
+    const formData = new FormData()
+    formData.append('type', request.type)
+    if (request.type === 'url') formData.append('url', request.url)
+    if (request.type === 'text') formData.append('text', request.text)
+    if (request.type === 'image') formData.append('image', request.image)
+    if (request.targetLanguage) formData.append('targetLanguage', request.targetLanguage)
+    if (request.type !== 'image' && request.additionalContext) formData.append('additionalContext', request.additionalContext)
+
+    const response = await this.request<{ job: ImportJob }>('/import-jobs', {
+      method: 'POST',
+      body: formData,
+    })
+    return response.job
+  }
+
+  async getImportJobs(): Promise<ImportJob[]> {
+    const response = await this.request<{ jobs: ImportJob[] }>('/import-jobs')
+    return response.jobs
+  }
+
+  async getImportJob(id: string): Promise<ImportJob> {
+    const response = await this.request<{ job: ImportJob }>(`/import-jobs/${id}`)
+    return response.job
+  }
+
+  async deleteImportJob(id: string): Promise<void> {
+    await this.request<void>(`/import-jobs/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Account export is a file download, so it is linked to directly instead of fetched
+  getExportUrl(includeHousehold = false): string {
+    return `${API_BASE_URL}/export${includeHousehold ? '?includeHousehold=true' : ''}`
+  }
+
+  // Cookbooks are requested with a POST body, so the PDF is fetched as a blob for the caller to save
+  async createCookbook(data: CookbookRequest): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/export/cookbook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(data),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      throw new Error(errorData?.error?.message || errorData?.message || `Server error (${response.status})`)
+    }
+
+    return response.blob()
+  }
+
+  // Update user's preferred measurement system for shopping list quantities
+  async updateUnitPreference(unitSystem: UnitSystem): Promise<{ message: string; user: User }> {
+    return this.request<{ message: string; user: User }>('/auth/unit-preference', {
+      method: 'PATCH',
+      body: JSON.stringify({ unitSystem }),
+    })
+  }
+
   // Update user's default translation language preference
   async updateTranslationPreference(language: string | null): Promise<{ message: string; user: User }> {
     return this.request<{ message: string; user: User }>('/auth/translation-preference', {
@@ -534,6 +1282,53 @@ class ApiService {
       body: JSON.stringify({ language }),
     })
   }
+
+  // Email a password reset link; the reply does not say whether the address has an account
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    })
+  }
+
+  // Set a new password with the token from a reset link
+  async resetPassword(token: string, password: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    })
+  }
+
+  // Confirm the account's email address with the token from a verification link
+  async verifyEmail(token: string): Promise<{ message: string; user: User }> {
+    return this.request<{ message: string; user: User }>('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    })
+  }
+
+  // Email the signed-in user a new verification link
+  async resendVerificationEmail(): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/resend-verification', {
+      method: 'POST',
+    })
+  }
+
+  // Email a confirmation link to the address the user wants to switch to
+  async requestEmailChange(newEmail: string, password?: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>('/auth/change-email', {
+      method: 'POST',
+      body: JSON.stringify({ newEmail, password }),
+    })
+  }
+
+  // Switch to the new email address with the token from a confirmation link
+  async confirmEmailChange(token: string): Promise<{ message: string; user: User }> {
+    return this.request<{ message: string; user: User }>('/auth/confirm-email-change', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    })
+  }
 }
 
 export const apiService = new ApiService()
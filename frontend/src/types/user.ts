@@ -1,14 +1,21 @@
+export type UnitSystem = 'metric' | 'imperial'
+
 export interface User {
   id: string
   email: string
   displayName: string
-  householdId?: string
+  householdId?: string // Active household
   googleId?: string
   defaultTranslationLanguage?: string
+  unitSystem?: UnitSystem
+  emailVerified?: boolean
   createdAt: string
   updatedAt: string
 }
 
+// owner: everything; admin: manages the invite code and members; member: edits household recipes; viewer: read-only
+export type HouseholdRole = 'owner' | 'admin' | 'member' | 'viewer'
+
 export interface Household {
   id: string
   name: string
@@ -18,10 +25,54 @@ export interface Household {
   members?: HouseholdMember[]
 }
 
+// One of the households the user belongs to
+export interface HouseholdMembership {
+  id: string
+  name: string
+  role: HouseholdRole
+  memberCount: number
+  joinedAt: string
+}
+
+// Why an invite link can no longer be used, or 'active' while it can
+export type HouseholdInvitationStatus = 'active' | 'expired' | 'used_up' | 'revoked'
+
+export interface HouseholdInvitation {
+  id: string
+  householdId: string
+  createdBy: string
+  email?: string
+  role: HouseholdRole
+  maxUses?: number
+  useCount: number
+  status: HouseholdInvitationStatus
+  expiresAt: string
+  revokedAt?: string
+  createdAt: string
+}
+
+// What someone opening an invite link sees before accepting
+export interface HouseholdInvitationPreview {
+  householdName: string
+  invitedBy: string
+  role: HouseholdRole
+  status: HouseholdInvitationStatus
+  emailRestricted: boolean
+  expiresAt: string
+}
+
+export interface CreateHouseholdInvitationData {
+  expiresInHours?: number
+  maxUses?: number
+  email?: string
+  role?: HouseholdRole
+}
+
 export interface HouseholdMember {
   id: string
   email: string
   displayName: string
+  role: HouseholdRole
   joinedAt: string
 }
 
@@ -0,0 +1,28 @@
+import type { Collection, CollectionVisibility } from '../services/api'
+
+export const COLLECTION_VISIBILITY_OPTIONS: Array<{ id: CollectionVisibility; label: string; description: string }> = [
+  { id: 'private', label: 'Private', description: 'Only you' },
+  { id: 'shared', label: 'Household', description: 'Your household can view and edit' },
+  { id: 'public', label: 'Public', description: 'Anyone with the link can view' }
+]
+
+/**
+ * Image to show for a collection: its cover, or else the first recipe with an image
+ */
+export function getCollectionCover(collection: Pick<Collection, 'coverImage' | 'firstRecipeImage'>): string | undefined {
+  return collection.coverImage || collection.firstRecipeImage
+}
+
+/**
+ * Move one item to another index, returning a new list
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length || toIndex < 0 || toIndex >= items.length) {
+    return items
+  }
+
+  const moved = [...items]
+  const [item] = moved.splice(fromIndex, 1)
+  moved.splice(toIndex, 0, item)
+  return moved
+}
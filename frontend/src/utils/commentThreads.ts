@@ -0,0 +1,52 @@
+import type { RecipeComment } from '../services/api'
+
+export interface CommentThread {
+  comment: RecipeComment
+  replies: CommentThread[]
+}
+
+// Deeper replies are shown at this level so narrow screens stay readable
+export const MAX_THREAD_DEPTH = 3
+
+/**
+ * Nest comments under the comment they reply to, keeping the order they came in.
+ * Replies whose parent is missing are shown at the top level.
+ */
+export function buildCommentThreads(comments: RecipeComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>()
+  for (const comment of comments) {
+    threads.set(comment.id, { comment, replies: [] })
+  }
+
+  const roots: CommentThread[] = []
+  for (const comment of comments) {
+    const thread = threads.get(comment.id)!
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined
+    if (parent) {
+      parent.replies.push(thread)
+    } else {
+      roots.push(thread)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Number of comments people can read, leaving out removed ones kept only for their replies
+ */
+export function countReadableComments(comments: RecipeComment[]): number {
+  return comments.filter(comment => comment.body !== '').length
+}
+
+/**
+ * Short relative time such as "just now", "5m ago" or "3d ago"; older dates are shown in full
+ */
+export function formatCommentTime(date: string, now: Date = new Date()): string {
+  const seconds = Math.floor((now.getTime() - new Date(date).getTime()) / 1000)
+  if (seconds < 60) return 'just now'
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}h ago`
+  if (seconds < 7 * 24 * 60 * 60) return `${Math.floor(seconds / 86400)}d ago`
+  return new Date(date).toLocaleDateString()
+}
@@ -0,0 +1,203 @@
+import { TextHeaderParser } from './textHeaderParser'
+
+export interface CookStep {
+  text: string
+  section?: string
+  /** Index in the recipe's instructions array */
+  instructionIndex: number
+}
+
+export interface StepDuration {
+  /** The matched text, e.g. "25 minutes" or "1 hour 30 minutes" */
+  text: string
+  seconds: number
+  start: number
+  end: number
+}
+
+export type StepTextSegment =
+  | { type: 'text'; content: string }
+  | { type: 'duration'; content: string; duration: StepDuration }
+
+export type CookCommand = 'next' | 'previous' | 'repeat' | 'timer' | 'ingredients' | 'exit'
+
+const NUMBERED_STEP_PATTERN = /^\s*\d+[.)]?\s*/
+
+const UNIT_SECONDS: Array<{ pattern: RegExp; seconds: number }> = [
+  { pattern: /^(hours?|hrs?)$/, seconds: 3600 },
+  { pattern: /^(minutes?|mins?)$/, seconds: 60 },
+  { pattern: /^(seconds?|secs?)$/, seconds: 1 }
+]
+
+const FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 }
+
+const NUMBER = '\\d+(?:[.,]\\d+)?(?:\\s*[¼½¾⅓⅔])?|[¼½¾⅓⅔]|an?|one|two|three|four|five|six|ten|fifteen|twenty|thirty|forty|forty-five'
+const DURATION_PATTERN = new RegExp(
+  `(?<!\\w)(${NUMBER})(?:\\s*(?:-|–|to|or)\\s*(${NUMBER}))?\\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\\b`,
+  'gi'
+)
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, ten: 10,
+  fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45
+}
+
+// Words stripped from ingredient lines before looking for them in a step
+const INGREDIENT_NOISE = new Set([
+  'cup', 'cups', 'tablespoon', 'tablespoons', 'tbsp', 'teaspoon', 'teaspoons', 'tsp', 'ounce', 'ounces', 'oz',
+  'pound', 'pounds', 'lb', 'lbs', 'gram', 'grams', 'g', 'kg', 'ml', 'l', 'liter', 'liters', 'litre', 'litres',
+  'pinch', 'dash', 'clove', 'cloves', 'can', 'cans', 'package', 'packages', 'stick', 'sticks', 'slice', 'slices',
+  'bunch', 'handful', 'sprig', 'sprigs', 'large', 'medium', 'small', 'fresh', 'freshly', 'chopped', 'minced',
+  'diced', 'sliced', 'grated', 'ground', 'whole', 'of', 'to', 'taste', 'for', 'serving', 'optional', 'about'
+])
+
+const COMMANDS: Array<{ command: CookCommand; pattern: RegExp }> = [
+  { command: 'next', pattern: /\b(next|forward|continue|done)\b/ },
+  { command: 'previous', pattern: /\b(previous|back|go back|last step)\b/ },
+  { command: 'repeat', pattern: /\b(repeat|again|read|say that)\b/ },
+  { command: 'timer', pattern: /\b(timer|start)\b/ },
+  { command: 'ingredients', pattern: /\bingredients?\b/ },
+  { command: 'exit', pattern: /\b(exit|stop cooking|close|quit)\b/ }
+]
+
+function parseAmount(value: string): number {
+  const lower = value.toLowerCase().trim()
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower]
+  if (lower in FRACTIONS) return FRACTIONS[lower]
+
+  const fraction = Object.keys(FRACTIONS).find(symbol => lower.endsWith(symbol))
+  const whole = parseFloat((fraction ? lower.slice(0, -1) : lower).replace(',', '.'))
+  return (Number.isNaN(whole) ? 0 : whole) + (fraction ? FRACTIONS[fraction] : 0)
+}
+
+function unitSeconds(unit: string): number {
+  const lower = unit.toLowerCase()
+  return UNIT_SECONDS.find(entry => entry.pattern.test(lower))?.seconds ?? 0
+}
+
+/**
+ * Turn a recipe's instructions into cook-mode steps, dropping pure section headers
+ * (attached to the following steps instead) and leading "1." numbering
+ */
+export function buildCookSteps(instructions: string[]): CookStep[] {
+  const nonHeaders = instructions.filter(instruction => !TextHeaderParser.isPureHeader(instruction))
+  const stripNumbers = nonHeaders.length > 0 && nonHeaders.every(instruction => NUMBERED_STEP_PATTERN.test(instruction))
+
+  const steps: CookStep[] = []
+  let section: string | undefined
+
+  instructions.forEach((instruction, instructionIndex) => {
+    if (TextHeaderParser.isPureHeader(instruction)) {
+      section = TextHeaderParser.parseText(instruction).map(segment => segment.content).join(' ').trim()
+      return
+    }
+
+    const text = stripNumbers ? instruction.replace(NUMBERED_STEP_PATTERN, '').trimStart() : instruction
+    steps.push({ text, section, instructionIndex })
+  })
+
+  return steps
+}
+
+/**
+ * Find durations in step text ("bake 25 minutes", "simmer 1 hour 30 minutes").
+ * Ranges use their lower bound so the timer goes off when it is time to check.
+ */
+export function findDurations(text: string): StepDuration[] {
+  const matches: StepDuration[] = []
+
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const seconds = Math.round(parseAmount(match[1]) * unitSeconds(match[3]))
+    if (seconds <= 0) continue
+
+    const start = match.index ?? 0
+    const duration: StepDuration = { text: match[0], seconds, start, end: start + match[0].length }
+
+    // "1 hour 30 minutes" / "1 hour and 30 minutes" become one timer
+    const previous = matches[matches.length - 1]
+    if (previous && previous.seconds > seconds && /^\s*(and\s+)?$/i.test(text.slice(previous.end, start))) {
+      previous.text = text.slice(previous.start, duration.end)
+      previous.seconds += seconds
+      previous.end = duration.end
+      continue
+    }
+
+    matches.push(duration)
+  }
+
+  return matches
+}
+
+/**
+ * Split step text around its durations so they can be rendered as timer buttons
+ */
+export function splitStepText(text: string): StepTextSegment[] {
+  const segments: StepTextSegment[] = []
+  let lastIndex = 0
+
+  for (const duration of findDurations(text)) {
+    if (duration.start > lastIndex) {
+      segments.push({ type: 'text', content: text.slice(lastIndex, duration.start) })
+    }
+    segments.push({ type: 'duration', content: duration.text, duration })
+    lastIndex = duration.end
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', content: text.slice(lastIndex) })
+  }
+
+  return segments
+}
+
+function singularPattern(word: string): string {
+  let stem = word
+  if (/ies$/.test(stem)) stem = `${stem.slice(0, -3)}y`
+  else if (/(ch|sh|s|x|o)es$/.test(stem)) stem = stem.slice(0, -2)
+  else if (/[^s]s$/.test(stem)) stem = stem.slice(0, -1)
+
+  const escaped = stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return stem.endsWith('y') ? `${escaped.slice(0, -1)}(?:y|ies)` : `${escaped}(?:e?s)?`
+}
+
+/**
+ * Names to look for in step text for an ingredient line: each "and"/"or" part,
+ * reduced to its last word ("2 cloves garlic, minced" → "garlic", "salt and pepper" → "salt", "pepper")
+ */
+function ingredientKeywords(line: string): string[] {
+  const name = line
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/[,;]/)[0]
+    .replace(/[\d¼½¾⅓⅔⅛/.-]+/g, ' ')
+
+  return name
+    .split(/\s+(?:and|or|&)\s+/)
+    .map(part => part.split(/\s+/).filter(word => word.length > 2 && !INGREDIENT_NOISE.has(word)))
+    .filter(words => words.length > 0)
+    .map(words => words[words.length - 1])
+}
+
+/**
+ * Indexes of the ingredient lines mentioned in a step
+ */
+export function findStepIngredients(step: string, ingredients: string[]): number[] {
+  const lowerStep = step.toLowerCase()
+
+  return ingredients.reduce<number[]>((used, line, index) => {
+    if (TextHeaderParser.isPureHeader(line)) return used
+
+    const mentioned = ingredientKeywords(line).some(keyword =>
+      new RegExp(`\\b${singularPattern(keyword)}\\b`).test(lowerStep)
+    )
+    return mentioned ? [...used, index] : used
+  }, [])
+}
+
+/**
+ * Map a speech transcript to a cook-mode command
+ */
+export function parseVoiceCommand(transcript: string): CookCommand | null {
+  const lower = transcript.toLowerCase().trim()
+  return COMMANDS.find(entry => entry.pattern.test(lower))?.command ?? null
+}
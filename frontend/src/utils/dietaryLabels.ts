@@ -0,0 +1,32 @@
+import type { Allergen, DietLabel } from '../services/api'
+
+export const DIET_OPTIONS: Array<{ value: DietLabel; label: string }> = [
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'pescatarian', label: 'Pescatarian' },
+  { value: 'gluten-free', label: 'Gluten-free' },
+  { value: 'dairy-free', label: 'Dairy-free' }
+]
+
+export const ALLERGEN_OPTIONS: Array<{ value: Allergen; label: string }> = [
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'nuts', label: 'Nuts' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'egg', label: 'Egg' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'fish', label: 'Fish' }
+]
+
+const ALLERGEN_PREFIX = 'contains-'
+
+/**
+ * Split a recipe's dietary labels into display names for the diets it fits and the allergens it contains
+ */
+export function describeDietaryLabels(labels: string[] = []): { diets: string[]; allergens: string[] } {
+  const diets = DIET_OPTIONS.filter(option => labels.includes(option.value)).map(option => option.label)
+  const allergens = ALLERGEN_OPTIONS
+    .filter(option => labels.includes(`${ALLERGEN_PREFIX}${option.value}`))
+    .map(option => option.label)
+  return { diets, allergens }
+}
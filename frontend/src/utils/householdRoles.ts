@@ -0,0 +1,27 @@
+import type { HouseholdRole } from '../types/user'
+
+export const HOUSEHOLD_ROLE_OPTIONS: Array<{ id: HouseholdRole; label: string; description: string }> = [
+  { id: 'owner', label: 'Owner', description: 'Manages everything, including deleting the household' },
+  { id: 'admin', label: 'Admin', description: 'Manages the invite code and members' },
+  { id: 'member', label: 'Member', description: 'Adds and edits household recipes' },
+  { id: 'viewer', label: 'Viewer', description: 'Can only view household recipes' }
+]
+
+/**
+ * Whether someone with one role may remove or change the role of another member.
+ * The owner manages everyone else; admins only manage members and viewers.
+ */
+export function canManageMember(myRole: HouseholdRole | undefined, memberRole: HouseholdRole): boolean {
+  if (memberRole === 'owner') return false
+  if (myRole === 'owner') return true
+  return myRole === 'admin' && memberRole !== 'admin'
+}
+
+/**
+ * Roles someone may hand out; ownership moves by transfer, and only the owner can make admins
+ */
+export function getAssignableRoles(myRole: HouseholdRole | undefined): HouseholdRole[] {
+  if (myRole === 'owner') return ['admin', 'member', 'viewer']
+  if (myRole === 'admin') return ['member', 'viewer']
+  return []
+}
@@ -0,0 +1,54 @@
+import type { ImportJob } from '../services/api'
+
+/**
+ * Whether the import is still queued, waiting for a retry, or running
+ */
+export function isImportJobActive(job: Pick<ImportJob, 'status'>): boolean {
+  return job.status === 'pending' || job.status === 'running'
+}
+
+/**
+ * Short name for an import: the site for URLs, the first line of pasted text, or the photo's file name
+ */
+export function getImportJobLabel(job: Pick<ImportJob, 'type' | 'input' | 'result'>): string {
+  if (job.result?.recipeData.name) return job.result.recipeData.name
+
+  if (job.type === 'url' && job.input.url) {
+    try {
+      return new URL(job.input.url).hostname.replace(/^www\./, '')
+    } catch {
+      return job.input.url
+    }
+  }
+  if (job.type === 'text' && job.input.text) {
+    const firstLine = job.input.text.trim().split('\n')[0].trim()
+    return firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine
+  }
+  if (job.type === 'image') {
+    return job.input.filename || 'Photo'
+  }
+  return 'Recipe'
+}
+
+/**
+ * One-line progress for the imports tray
+ * @param now - Current time in milliseconds, for counting down to a retry
+ */
+export function getImportJobStatusText(
+  job: Pick<ImportJob, 'status' | 'attempts' | 'maxAttempts' | 'nextAttemptAt' | 'error'>,
+  now: number
+): string {
+  switch (job.status) {
+    case 'running':
+      return job.attempts > 1 ? `Importing (attempt ${job.attempts} of ${job.maxAttempts})…` : 'Importing…'
+    case 'pending': {
+      if (!job.nextAttemptAt) return 'Queued'
+      const minutes = Math.ceil((new Date(job.nextAttemptAt).getTime() - now) / 60_000)
+      return minutes > 1 ? `Failed, retrying in ${minutes} min` : 'Failed, retrying shortly'
+    }
+    case 'completed':
+      return 'Ready to review'
+    case 'failed':
+      return job.error || 'Import failed'
+  }
+}
@@ -0,0 +1,88 @@
+export interface KitchenTimer {
+  id: string
+  label: string
+  recipeId?: string
+  recipeName?: string
+  stepNumber?: number
+  durationSeconds: number
+  /** Epoch ms when a running timer finishes; null while paused */
+  endsAt: number | null
+  /** Seconds left when the timer was last paused */
+  remainingSeconds: number
+  finished: boolean
+  createdAt: number
+}
+
+export interface NewKitchenTimer {
+  label: string
+  seconds: number
+  recipeId?: string
+  recipeName?: string
+  stepNumber?: number
+}
+
+export function createTimer(input: NewKitchenTimer, now: number): KitchenTimer {
+  const seconds = Math.max(1, Math.round(input.seconds))
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    label: input.label.trim() || 'Timer',
+    recipeId: input.recipeId,
+    recipeName: input.recipeName,
+    stepNumber: input.stepNumber,
+    durationSeconds: seconds,
+    endsAt: now + seconds * 1000,
+    remainingSeconds: seconds,
+    finished: false,
+    createdAt: now
+  }
+}
+
+export function getRemainingSeconds(timer: KitchenTimer, now: number): number {
+  if (timer.finished) return 0
+  return timer.endsAt === null ? timer.remainingSeconds : Math.max(0, (timer.endsAt - now) / 1000)
+}
+
+export function pauseTimer(timer: KitchenTimer, now: number): KitchenTimer {
+  if (timer.finished || timer.endsAt === null) return timer
+  return { ...timer, endsAt: null, remainingSeconds: getRemainingSeconds(timer, now) }
+}
+
+export function resumeTimer(timer: KitchenTimer, now: number): KitchenTimer {
+  if (timer.finished || timer.endsAt !== null) return timer
+  return { ...timer, endsAt: now + timer.remainingSeconds * 1000 }
+}
+
+/**
+ * Mark running timers whose end time has passed as finished
+ * @returns The updated list and the timers that just finished
+ */
+export function expireTimers(timers: KitchenTimer[], now: number): { timers: KitchenTimer[]; expired: KitchenTimer[] } {
+  const expired: KitchenTimer[] = []
+  const updated = timers.map(timer => {
+    if (timer.finished || timer.endsAt === null || timer.endsAt > now) return timer
+    const finished = { ...timer, finished: true, remainingSeconds: 0 }
+    expired.push(finished)
+    return finished
+  })
+  return { timers: expired.length > 0 ? updated : timers, expired }
+}
+
+/**
+ * Finished timers first, then by time left
+ */
+export function sortTimers(timers: KitchenTimer[], now: number): KitchenTimer[] {
+  return [...timers].sort((a, b) =>
+    Number(b.finished) - Number(a.finished) || getRemainingSeconds(a, now) - getRemainingSeconds(b, now)
+  )
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export function formatTimer(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = String(seconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
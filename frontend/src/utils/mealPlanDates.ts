@@ -0,0 +1,33 @@
+// Meal plan dates are plain YYYY-MM-DD strings in the user's local calendar
+
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function addDays(key: string, days: number): string {
+  const date = fromDateKey(key)
+  date.setDate(date.getDate() + days)
+  return toDateKey(date)
+}
+
+// Weeks start on Monday, matching the API default
+export function getWeekStart(key: string): string {
+  const day = fromDateKey(key).getDay()
+  return addDays(key, day === 0 ? -6 : 1 - day)
+}
+
+export function getWeekDays(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+}
+
+export function formatDayLabel(key: string): string {
+  return fromDateKey(key).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+}
@@ -0,0 +1,342 @@
+/**
+ * QR code encoder for sharing links in person: byte mode, error correction level M, versions 1 to 10
+ * (up to 213 bytes, plenty for an invite link). Follows ISO/IEC 18004.
+ */
+
+export interface QrCode {
+  // Modules per side, without the quiet zone
+  size: number
+  // modules[y][x] is true for a dark module
+  modules: boolean[][]
+}
+
+interface VersionInfo {
+  ecCodewordsPerBlock: number
+  // Groups of [number of blocks, data codewords per block]
+  blocks: Array<[number, number]>
+  alignment: number[]
+}
+
+// Level M block structure and alignment pattern centres for versions 1 to 10
+const VERSIONS: VersionInfo[] = [
+  { ecCodewordsPerBlock: 10, blocks: [[1, 16]], alignment: [] },
+  { ecCodewordsPerBlock: 16, blocks: [[1, 28]], alignment: [6, 18] },
+  { ecCodewordsPerBlock: 26, blocks: [[1, 44]], alignment: [6, 22] },
+  { ecCodewordsPerBlock: 18, blocks: [[2, 32]], alignment: [6, 26] },
+  { ecCodewordsPerBlock: 24, blocks: [[2, 43]], alignment: [6, 30] },
+  { ecCodewordsPerBlock: 16, blocks: [[4, 27]], alignment: [6, 34] },
+  { ecCodewordsPerBlock: 18, blocks: [[4, 31]], alignment: [6, 22, 38] },
+  { ecCodewordsPerBlock: 22, blocks: [[2, 38], [2, 39]], alignment: [6, 24, 42] },
+  { ecCodewordsPerBlock: 22, blocks: [[3, 36], [2, 37]], alignment: [6, 26, 46] },
+  { ecCodewordsPerBlock: 26, blocks: [[4, 43], [1, 44]], alignment: [6, 28, 50] }
+]
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+]
+
+function dataCodewords(info: VersionInfo): number {
+  return info.blocks.reduce((sum, [count, size]) => sum + count * size, 0)
+}
+
+// Length of the character count field in byte mode
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16
+}
+
+// Multiply in GF(2^8) with the QR code polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(a: number, b: number): number {
+  let result = 0
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d)
+    result ^= ((b >>> i) & 1) * a
+  }
+  return result & 0xff
+}
+
+// Coefficients of the Reed-Solomon generator polynomial, highest power first (leading 1 dropped)
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < degree) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Mode indicator, character count, data, terminator and padding, as data codewords
+function buildDataCodewords(bytes: Uint8Array, version: number, capacity: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0b0100, 4)
+  append(bytes.length, countBits(version))
+  bytes.forEach(byte => append(byte, 8))
+  append(0, Math.min(4, capacity * 8 - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad)
+  }
+  return codewords
+}
+
+// Split into blocks, add error correction to each and interleave them
+function addErrorCorrection(data: number[], info: VersionInfo): number[] {
+  const divisor = reedSolomonDivisor(info.ecCodewordsPerBlock)
+  const blocks: Array<{ data: number[]; ec: number[] }> = []
+  let offset = 0
+  for (const [count, size] of info.blocks) {
+    for (let i = 0; i < count; i++) {
+      const block = data.slice(offset, offset + size)
+      blocks.push({ data: block, ec: reedSolomonRemainder(block, divisor) })
+      offset += size
+    }
+  }
+
+  const result: number[] = []
+  const longest = Math.max(...blocks.map(block => block.data.length))
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) result.push(block.data[i])
+    })
+  }
+  for (let i = 0; i < info.ecCodewordsPerBlock; i++) {
+    blocks.forEach(block => result.push(block.ec[i]))
+  }
+  return result
+}
+
+class QrMatrix {
+  readonly modules: boolean[][]
+  readonly isFunction: boolean[][]
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns(version: number, info: VersionInfo): void {
+    const size = this.size
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          if (x < 0 || x >= size || y < 0 || y >= size) continue
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          this.setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+
+    // Alignment patterns, except where they would overlap a finder pattern
+    const last = info.alignment.length - 1
+    info.alignment.forEach((cy, i) => {
+      info.alignment.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+
+    // Reserve the format areas (drawn for real once the mask is known) and place the dark module
+    this.drawFormatBits(0)
+
+    if (version >= 7) {
+      let remainder = version
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+      const bits = (version << 12) | remainder
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1
+        const a = size - 11 + (i % 3)
+        const b = Math.floor(i / 3)
+        this.setFunction(a, b, dark)
+        this.setFunction(b, a, dark)
+      }
+    }
+  }
+
+  // Error correction level M (format value 0) and the mask, with BCH error correction
+  drawFormatBits(mask: number): void {
+    const size = this.size
+    const data = mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) === 1
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i))
+    this.setFunction(8, size - 8, true)
+  }
+
+  // Fill the data modules in the zigzag order, two columns at a time from the bottom right
+  drawCodewords(codewords: number[]): void {
+    const size = this.size
+    let i = 0
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      const upward = ((right + 1) & 2) === 0
+      for (let vert = 0; vert < size; vert++) {
+        const y = upward ? size - 1 - vert : vert
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          if (this.isFunction[y][x] || i >= codewords.length * 8) continue
+          this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1
+          i++
+        }
+      }
+    }
+  }
+
+  // Applying the same mask twice undoes it
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Lower is easier for scanners to read
+  penalty(): number {
+    const size = this.size
+    const m = this.modules
+    let score = 0
+
+    const lines: boolean[][] = []
+    for (let i = 0; i < size; i++) {
+      lines.push(m[i])
+      lines.push(m.map(row => row[i]))
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of one colour
+      let runLength = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength++
+        } else {
+          if (runLength >= 5) score += runLength - 2
+          runLength = 1
+        }
+      }
+
+      // Patterns that look like a finder: dark-light-dark-dark-dark-light-dark next to four light modules
+      const text = line.map(dark => (dark ? '1' : '0')).join('')
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          score += 40
+        }
+      }
+    }
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const dark = m[y][x]
+        if (dark === m[y][x + 1] && dark === m[y + 1][x] && dark === m[y + 1][x + 1]) score += 3
+      }
+    }
+
+    // Balance of dark and light modules
+    const total = size * size
+    const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+    return score
+  }
+}
+
+/**
+ * Encode text (usually a URL) as a QR code
+ * @param mask - Force one of the eight mask patterns instead of picking the most readable one
+ * @throws When the text is longer than a version 10 code can hold
+ */
+export function encodeQrCode(text: string, mask?: number): QrCode {
+  const bytes = new TextEncoder().encode(text)
+  const versionIndex = VERSIONS.findIndex((info, i) => 4 + countBits(i + 1) + bytes.length * 8 <= dataCodewords(info) * 8)
+  if (versionIndex === -1) {
+    throw new Error('Text is too long for a QR code')
+  }
+
+  const version = versionIndex + 1
+  const info = VERSIONS[versionIndex]
+  const size = version * 4 + 17
+  const matrix = new QrMatrix(size)
+  matrix.drawFunctionPatterns(version, info)
+  matrix.drawCodewords(addErrorCorrection(buildDataCodewords(bytes, version, dataCodewords(info)), info))
+
+  let bestMask = mask ?? 0
+  if (mask === undefined) {
+    let lowestPenalty = Infinity
+    MASKS.forEach((_, candidate) => {
+      matrix.applyMask(candidate)
+      matrix.drawFormatBits(candidate)
+      const penalty = matrix.penalty()
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty
+        bestMask = candidate
+      }
+      matrix.applyMask(candidate)
+    })
+  }
+
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+
+  return { size, modules: matrix.modules }
+}
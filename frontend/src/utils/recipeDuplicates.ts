@@ -0,0 +1,44 @@
+import { ApiError } from '../services/api'
+import type { Recipe, CreateRecipeData, UpdateRecipeData, RecipeDuplicate } from '../services/api'
+import { TagHelper } from './tagHelper'
+
+/**
+ * Duplicates the server listed when it refused to save a recipe, or null for any other error
+ */
+export function getDuplicatesFromError(error: unknown): RecipeDuplicate[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null
+
+  const duplicates = (error.data as { duplicates?: unknown } | undefined)?.duplicates
+  return Array.isArray(duplicates) && duplicates.length > 0 ? duplicates as RecipeDuplicate[] : null
+}
+
+/**
+ * Changes that fold an imported version into an existing recipe: the import brings ingredients, steps,
+ * times and servings, fills in a missing description, image or source, and adds its tags. The existing
+ * name, visibility and language stay, and the previous version remains in the revision history.
+ */
+export function mergeImportedRecipe(existing: Recipe, imported: CreateRecipeData): UpdateRecipeData {
+  const changes: UpdateRecipeData = {
+    ingredients: imported.ingredients,
+    instructions: imported.instructions,
+    tags: TagHelper.normalizeTags([...(existing.tags || []), ...(imported.tags || [])])
+  }
+
+  if (imported.prepTimeMinutes !== undefined) changes.prepTimeMinutes = imported.prepTimeMinutes
+  if (imported.cookTimeMinutes !== undefined) changes.cookTimeMinutes = imported.cookTimeMinutes
+  if (imported.totalTimeMinutes !== undefined) changes.totalTimeMinutes = imported.totalTimeMinutes
+  if (imported.servings !== undefined) changes.servings = imported.servings
+
+  if (!existing.description?.trim() && imported.description.trim()) {
+    changes.description = imported.description
+  }
+  if (!existing.image && imported.image) {
+    changes.image = imported.image
+    changes.imageSizes = imported.imageSizes
+  }
+  if (!existing.sourceUrl && imported.sourceUrl) {
+    changes.sourceUrl = imported.sourceUrl
+  }
+
+  return changes
+}
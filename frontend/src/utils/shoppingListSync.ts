@@ -0,0 +1,60 @@
+import type { ShoppingListChange, ShoppingListItem } from '../services/api'
+
+/**
+ * Add new items to the top of the list and replace the ones it already has
+ */
+export function mergeShoppingListItems(items: ShoppingListItem[], incoming: ShoppingListItem[]): ShoppingListItem[] {
+  if (incoming.length === 0) return items
+
+  const existingIds = new Set(items.map(item => item.id))
+  const updatesById = new Map(incoming.map(item => [item.id, item]))
+
+  const mergedItems = items.map(item => updatesById.get(item.id) || item)
+  const newItems = incoming.filter(item => !existingIds.has(item.id))
+
+  return [...newItems, ...mergedItems]
+}
+
+/**
+ * Apply a change from another session to the list.
+ * Items with a request of ours still in flight keep their optimistic state until the response settles them,
+ * and an update older than the copy we have (events can cross our own responses) is ignored.
+ */
+export function applyShoppingListChange(
+  items: ShoppingListItem[],
+  change: ShoppingListChange,
+  pendingIds: ReadonlySet<string> = new Set()
+): ShoppingListItem[] {
+  if (change.type === 'items_deleted') {
+    const deletedIds = new Set(change.ids)
+    const remaining = items.filter(item => !deletedIds.has(item.id))
+    return remaining.length === items.length ? items : remaining
+  }
+
+  const currentById = new Map(items.map(item => [item.id, item]))
+  const accepted = change.items.filter(item => {
+    if (pendingIds.has(item.id)) return false
+    const current = currentById.get(item.id)
+    return !current || Date.parse(item.updatedAt) >= Date.parse(current.updatedAt)
+  })
+
+  return mergeShoppingListItems(items, accepted)
+}
+
+/**
+ * Replace the list with a fresh copy from the server, e.g. after the live connection dropped,
+ * keeping the optimistic state of items with a request still in flight
+ */
+export function reconcileShoppingList(
+  items: ShoppingListItem[],
+  serverItems: ShoppingListItem[],
+  pendingIds: ReadonlySet<string>
+): ShoppingListItem[] {
+  const currentById = new Map(items.map(item => [item.id, item]))
+  return serverItems.flatMap(item => {
+    if (!pendingIds.has(item.id)) return [item]
+    // A pending item we no longer show is being deleted
+    const current = currentById.get(item.id)
+    return current ? [current] : []
+  })
+}
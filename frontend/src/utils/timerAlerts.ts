@@ -0,0 +1,112 @@
+import type { KitchenTimer } from './kitchenTimers'
+
+/**
+ * Ask for notification permission; call from a user gesture such as starting a timer
+ */
+export function requestNotificationPermission() {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {})
+  }
+}
+
+type TimestampTriggerConstructor = new (timestamp: number) => unknown
+
+function getTimestampTrigger(): TimestampTriggerConstructor | undefined {
+  return (window as typeof window & { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger
+}
+
+function buildTimerNotification(timer: KitchenTimer): { title: string; options: NotificationOptions } {
+  return {
+    title: `⏰ ${timer.label} is done`,
+    options: {
+      body: [timer.recipeName, timer.stepNumber ? `Step ${timer.stepNumber}` : null].filter(Boolean).join(' · ') || 'Your kitchen timer finished',
+      tag: `timer-${timer.id}`,
+      icon: '/icon-192.png',
+      requireInteraction: true,
+      data: { url: timer.recipeId ? `/recipe/${timer.recipeId}` : '/' }
+    }
+  }
+}
+
+/**
+ * Whether the browser can show a notification at a set time by itself (Notification Triggers).
+ * Without it, timers are only checked while the page runs, which browsers slow down in
+ * background tabs and stop when the tab is closed.
+ */
+export function supportsScheduledNotifications(): boolean {
+  return 'Notification' in window && 'showTrigger' in Notification.prototype && !!getTimestampTrigger() && 'serviceWorker' in navigator
+}
+
+/**
+ * Have the browser show the timer's notification when it ends, even if the app is closed by then.
+ * Does nothing where scheduled notifications are not supported.
+ */
+export async function scheduleTimerNotification(timer: KitchenTimer) {
+  const TimestampTrigger = getTimestampTrigger()
+  if (!TimestampTrigger || timer.endsAt === null || !supportsScheduledNotifications() || Notification.permission !== 'granted') return
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration()
+    if (!registration) return
+
+    const { title, options } = buildTimerNotification(timer)
+    await registration.showNotification(title, { ...options, showTrigger: new TimestampTrigger(timer.endsAt) } as NotificationOptions)
+  } catch (err) {
+    console.warn('Failed to schedule timer notification:', err)
+  }
+}
+
+/**
+ * Show a notification for a finished timer. Goes through the service worker when one
+ * is registered (required on Android and keeps working from background tabs) and falls
+ * back to a page notification otherwise.
+ */
+export async function notifyTimerFinished(timer: KitchenTimer) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return
+
+  const { title, options } = buildTimerNotification(timer)
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+    if (registration) {
+      await registration.showNotification(title, options)
+      return
+    }
+    new Notification(title, options)
+  } catch (err) {
+    console.warn('Failed to show timer notification:', err)
+  }
+}
+
+/**
+ * Close a timer's notification once it has been dismissed in the app, including one still scheduled
+ */
+export async function closeTimerNotification(timerId: string) {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    const registration = await navigator.serviceWorker.getRegistration()
+    const notifications = await registration?.getNotifications({ tag: `timer-${timerId}`, includeTriggered: true } as GetNotificationOptions)
+    notifications?.forEach(notification => notification.close())
+  } catch {
+    // Nothing to close
+  }
+}
+
+export function playAlarm() {
+  navigator.vibrate?.([300, 150, 300])
+
+  const AudioContextClass = window.AudioContext || (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!AudioContextClass) return
+
+  const context = new AudioContextClass()
+  ;[0, 0.4, 0.8].forEach(offset => {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.frequency.value = 880
+    gain.gain.setValueAtTime(0.2, context.currentTime + offset)
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(context.currentTime + offset)
+    oscillator.stop(context.currentTime + offset + 0.25)
+  })
+  setTimeout(() => context.close().catch(() => {}), 1500)
+}
@@ -0,0 +1,60 @@
+import type { KitchenTimer } from './kitchenTimers'
+
+const DB_NAME = 'recipe-reaper'
+const DB_VERSION = 1
+const STORE_NAME = 'timers'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Kitchen timers persisted in IndexedDB so they survive reloads and navigation.
+ * Every method resolves quietly when IndexedDB is unavailable (private mode, tests).
+ */
+export const timerStore = {
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+  },
+
+  async getAll(): Promise<KitchenTimer[]> {
+    if (!this.isAvailable()) return []
+    return withStore<KitchenTimer[]>('readonly', store => store.getAll())
+  },
+
+  async save(timer: KitchenTimer): Promise<void> {
+    if (!this.isAvailable()) return
+    await withStore('readwrite', store => store.put(timer))
+  },
+
+  async remove(id: string): Promise<void> {
+    if (!this.isAvailable()) return
+    await withStore('readwrite', store => store.delete(id))
+  }
+}
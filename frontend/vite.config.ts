@@ -63,6 +63,11 @@ export default defineConfig({
             ]
           }
         ],
+        // Invite links (/join/:token) open in the installed app instead of a browser tab
+        handle_links: 'preferred',
+        launch_handler: {
+          client_mode: ['navigate-existing', 'auto']
+        },
         share_target: {
           action: '/share-target',
           method: 'POST',
@@ -79,7 +84,9 @@ export default defineConfig({
         // Runtime caching intentionally disabled; re-introduce entries here when ready.
         runtimeCaching: [],
         // Explicitly skip auth routes to prevent Service Worker interference
-        navigateFallbackDenylist: [/^\/api\/auth/]
+        navigateFallbackDenylist: [/^\/api\/auth/],
+        // Kitchen timer notification clicks
+        importScripts: ['timer-sw.js']
       }
     })
   ],
@@ -1,7 +1,9 @@
 import pluralize from 'pluralize'
 import { INGREDIENT_CATEGORIES } from './categories'
+import { detectDietaryFlags } from './dietary'
 import ingredientMappingsData from './data/ingredients.json'
 import type {
+  DietaryFlag,
   IngredientCategory,
   CategorizedIngredient,
   IngredientMapping,
@@ -12,7 +14,7 @@ import type {
 } from './types'
 
 class IngredientCategorizer {
-  private ingredientMappings: IngredientMapping[] = ingredientMappingsData
+  private ingredientMappings: IngredientMapping[] = ingredientMappingsData as IngredientMapping[]
   private normalizedMappings: NormalizedMapping[] = []
   // Basic term patterns for quick matching
   private basicPatterns = [
@@ -153,7 +155,8 @@ class IngredientCategorizer {
         originalText,
         displayName: bestMatch.mapping.displayName,
         category,
-        confidence: this.getConfidence(bestMatch.matchType)
+        confidence: this.getConfidence(bestMatch.matchType),
+        dietaryFlags: detectDietaryFlags(lowerText, bestMatch.mapping.dietaryFlags)
       }
     }
 
@@ -167,7 +170,8 @@ class IngredientCategorizer {
         originalText,
         displayName: skippedFreshMatch.mapping.displayName,  // Use the fresh ingredient's name
         category: INGREDIENT_CATEGORIES[strongestPattern.category],  // But use pattern's category
-        confidence: strongestPattern.confidence
+        confidence: strongestPattern.confidence,
+        dietaryFlags: detectDietaryFlags(lowerText, skippedFreshMatch.mapping.dietaryFlags)
       }
     }
 
@@ -180,7 +184,8 @@ class IngredientCategorizer {
         originalText,
         displayName: this.capitalizeWords(displayName),
         category: INGREDIENT_CATEGORIES[strongestPattern.category],
-        confidence: strongestPattern.confidence
+        confidence: strongestPattern.confidence,
+        dietaryFlags: detectDietaryFlags(lowerText)
       }
     }
 
@@ -189,7 +194,8 @@ class IngredientCategorizer {
       originalText,
       displayName: this.capitalizeWords(originalText),
       category: INGREDIENT_CATEGORIES.OTHER,
-      confidence: 0.1
+      confidence: 0.1,
+      dietaryFlags: detectDietaryFlags(lowerText)
     }
   }
 
@@ -336,6 +342,13 @@ class IngredientCategorizer {
     return new RegExp(`\\b${this.escapeRegExp(term)}\\b`, 'i')
   }
 
+  /**
+   * Get allergen and diet flags for an ingredient
+   */
+  getDietaryFlags(ingredientText: string): DietaryFlag[] {
+    return this.categorizeIngredient(ingredientText).dietaryFlags
+  }
+
   /**
    * Get all categories sorted by sort order
    */
@@ -0,0 +1,58 @@
+import type { DietaryFlag } from './types'
+
+export const DIETARY_FLAGS: readonly DietaryFlag[] = ['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy', 'meat', 'fish']
+
+// Plant-based products named after the dairy they replace ("oat milk", "peanut butter", "coconut cream")
+const PLANT_PREFIX = '(?<!(?:coconut|almond|oat|soy|rice|hemp|cashew|peanut|cocoa|apple|shea|nut|seed|vegan|plant)[- ])'
+
+/**
+ * Keywords that mark an ingredient with a flag even when it has no mapping
+ * (e.g. "lobster tail", "pancetta"), checked against the whole ingredient text
+ */
+export const DIETARY_KEYWORDS: Array<{ flag: DietaryFlag; pattern: RegExp }> = [
+  { flag: 'gluten', pattern: /\b(wheat|rye|spelt|barley|malt|semolina|seitan|panko|farina|durum|egg noodles?)\b/ },
+  { flag: 'dairy', pattern: new RegExp(`\\b(cheese|yogh?urt|whey|ghee|buttermilk|custard|creme fraiche|crème fraîche|${PLANT_PREFIX}(milk|cream|butter))\\b`) },
+  { flag: 'nuts', pattern: /\b(almonds?|walnuts?|pecans?|cashews?|pistachios?|hazelnuts?|macadamias?|peanuts?|praline|marzipan|nutella)\b/ },
+  { flag: 'shellfish', pattern: /\b(lobsters?|crabs?|scallops?|mussels?|clams?|oysters?(?! mushrooms?)|prawns?|crawfish|crayfish|langoustines?|squid|calamari|octopus)\b/ },
+  { flag: 'egg', pattern: /\b(eggs?|egg yolks?|egg whites?|meringue|aioli)\b/ },
+  { flag: 'soy', pattern: /\b(soy|soya|tofu|edamame|miso|tempeh|tamari)\b/ },
+  { flag: 'meat', pattern: /\b(lamb|veal|ham|sausages?|prosciutto|salami|pancetta|chorizo|pepperoni|duck|venison|lard|gelatin|beef|pork|chicken|turkey|mutton)\b/ },
+  { flag: 'fish', pattern: /\b(anchov(y|ies)|sardines?|trout|halibut|mackerel|haddock|snapper|sea bass|swordfish|herring|bonito|dashi)\b/ }
+]
+
+/**
+ * Phrases that rule a flag out regardless of the matched mapping
+ * ("gluten-free flour", "rice noodles", "vegan butter")
+ */
+export const DIETARY_EXCLUSIONS: Array<{ flags: DietaryFlag[]; pattern: RegExp }> = [
+  { flags: ['gluten'], pattern: /\b(gluten[- ]free|rice noodles?|rice vermicelli|rice stick noodles|glass noodles|cellophane noodles|bean thread noodles|corn tortillas?|tamari|buckwheat|(almond|coconut|rice|chickpea|tapioca|cassava|potato|corn|sorghum|millet) (flour|starch))\b/ },
+  { flags: ['dairy'], pattern: /\b(dairy[- ]free|non[- ]dairy|lactose[- ]free|cream of tartar|butter lettuce|butter beans?)\b/ },
+  { flags: ['egg'], pattern: /\b(egg[- ]free|eggless)\b/ },
+  { flags: ['nuts'], pattern: /\b(nut[- ]free)\b/ },
+  { flags: ['soy'], pattern: /\b(soy[- ]free)\b/ },
+  { flags: ['dairy', 'egg', 'meat', 'fish', 'shellfish'], pattern: /\b(vegan|plant[- ]based)\b/ }
+]
+
+/**
+ * Combine a mapping's flags with keyword detection on the ingredient text
+ * @param lowerText - Lowercased ingredient text
+ * @param mappingFlags - Flags of the matched mapping, if any
+ * @returns Flags in DIETARY_FLAGS order
+ */
+export function detectDietaryFlags(lowerText: string, mappingFlags: readonly DietaryFlag[] = []): DietaryFlag[] {
+  const flags = new Set<DietaryFlag>(mappingFlags)
+
+  for (const { flag, pattern } of DIETARY_KEYWORDS) {
+    if (pattern.test(lowerText)) {
+      flags.add(flag)
+    }
+  }
+
+  for (const { flags: excluded, pattern } of DIETARY_EXCLUSIONS) {
+    if (pattern.test(lowerText)) {
+      excluded.forEach(flag => flags.delete(flag))
+    }
+  }
+
+  return DIETARY_FLAGS.filter(flag => flags.has(flag))
+}
@@ -1,7 +1,9 @@
 export { ingredientCategorizer } from './categorizer'
 export { INGREDIENT_CATEGORIES } from './categories'
+export { DIETARY_FLAGS, detectDietaryFlags } from './dietary'
 export type {
   CategorizedIngredient,
+  DietaryFlag,
   IngredientCategory,
   IngredientMapping
 } from './types'
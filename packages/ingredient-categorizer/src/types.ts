@@ -5,11 +5,15 @@ export interface IngredientCategory {
   sortOrder: number
 }
 
+// Allergens plus the animal products that decide vegetarian/vegan diets
+export type DietaryFlag = 'gluten' | 'dairy' | 'nuts' | 'shellfish' | 'egg' | 'soy' | 'meat' | 'fish'
+
 export interface CategorizedIngredient {
   originalText: string
   displayName: string
   category: IngredientCategory
   confidence: number // 0-1, how confident we are in the match
+  dietaryFlags: DietaryFlag[]
 }
 
 export interface IngredientMapping {
@@ -17,6 +21,7 @@ export interface IngredientMapping {
   category: string
   keywords: string[]
   excludeKeywords?: string[]
+  dietaryFlags?: DietaryFlag[]
 }
 
 export type NormalizedMapping = IngredientMapping & {
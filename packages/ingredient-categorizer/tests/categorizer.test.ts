@@ -1,6 +1,6 @@
 import { describe, expect, it } from '@jest/globals'
 import { ingredientCategorizer, INGREDIENT_CATEGORIES } from '../src'
-import type { IngredientCategory } from '../src'
+import type { DietaryFlag, IngredientCategory } from '../src'
 
 // Test case type for easy addition of new examples
 type TestCase = {
@@ -180,6 +180,22 @@ const edgeCasesAndTypos: TestCase[] = [
 	}
 ]
 
+// Dietary flag cases: mapping flags, keyword detection and free-from exclusions
+const dietaryFlagCases: Array<{ input: string; expectedFlags: DietaryFlag[]; description: string }> = [
+	{ input: 'unsalted butter', expectedFlags: ['dairy'], description: 'flags from the mapping' },
+	{ input: 'soy sauce', expectedFlags: ['gluten', 'soy'], description: 'several flags from one mapping' },
+	{ input: 'gluten free flour', expectedFlags: [], description: 'free-from phrase removes the mapping flag' },
+	{ input: 'rice noodles', expectedFlags: [], description: 'rice noodles are not wheat pasta' },
+	{ input: 'coconut milk', expectedFlags: [], description: 'plant milk is not dairy' },
+	{ input: 'vegan butter', expectedFlags: [], description: 'vegan products drop animal flags' },
+	{ input: 'lobster tail', expectedFlags: ['shellfish'], description: 'keyword detection without a mapping' },
+	{ input: 'diced pancetta', expectedFlags: ['meat'], description: 'cured meat keyword' },
+	{ input: 'egg noodles', expectedFlags: ['gluten', 'egg'], description: 'egg noodles are wheat-based' },
+	{ input: 'almond flour', expectedFlags: ['nuts'], description: 'nut flour is gluten-free' },
+	{ input: 'eggplant', expectedFlags: [], description: 'keywords match whole words only' },
+	{ input: 'cream of tartar', expectedFlags: [], description: 'baking acid is not dairy' }
+]
+
 describe('ingredientCategorizer', () => {
 	describe('Exact Matches', () => {
 		it.each(exactMatchCases)(
@@ -302,4 +318,13 @@ describe('ingredientCategorizer', () => {
 			}
 		)
 	})
+
+	describe('Dietary Flags', () => {
+		it.each(dietaryFlagCases)(
+			'$description: "$input" → $expectedFlags',
+			({ input, expectedFlags }) => {
+				expect(ingredientCategorizer.getDietaryFlags(input)).toEqual(expectedFlags)
+			}
+		)
+	})
 })